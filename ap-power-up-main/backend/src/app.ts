@@ -0,0 +1,54 @@
+import express from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import { errorHandler } from './utils/errors.js';
+import { requestLogger } from './middleware/requestLogger.js';
+
+import { apiRoutes } from './routes/index.js';
+import docsRoutes from './routes/docs.js';
+
+dotenv.config();
+
+// The server is started by index.ts; tests drive this app directly
+export const app = express();
+
+// Allow both common frontend ports (5173 for default Vite, 8080 for this project)
+export const CORS_ORIGINS = process.env.CORS_ORIGIN 
+  ? process.env.CORS_ORIGIN.split(',').map(o => o.trim())
+  : ['http://localhost:5173', 'http://localhost:8080'];
+
+// Middleware
+app.use(requestLogger);
+app.use(cors({
+  origin: (origin, callback) => {
+    // Allow requests with no origin (like mobile apps or curl requests)
+    if (!origin) return callback(null, true);
+    if (CORS_ORIGINS.includes(origin)) {
+      callback(null, true);
+    } else {
+      callback(null, true); // For development, allow all origins
+    }
+  },
+  credentials: true
+}));
+// Question bank files are a few MB, well past the 100kb default
+app.use(express.json({ limit: '10mb' }));
+
+// Health check
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// API Routes
+for (const { path, router } of apiRoutes) {
+  app.use(`/api${path}`, router);
+}
+app.use('/api/docs', docsRoutes);
+
+// Error handling
+app.use(errorHandler);
+
+// 404 handler
+app.use((req, res) => {
+  res.status(404).json({ error: 'Route not found' });
+});
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { config } from 'dotenv';
+import { AuthProvider, StorageDriver } from '../storage/types.js';
+import { createPostgresDriver } from '../storage/postgres.js';
+import { createLocalAuth } from '../storage/localAuth.js';
+import { createSupabaseAuth, createSupabaseDriver } from '../storage/supabase.js';
+import { logger } from '../utils/logger.js';
+
+// Load environment variables first
+config();
+
+// STORAGE_DRIVER=postgres runs the API against any Postgres database (DATABASE_URL)
+// with local accounts; the default is the Supabase project from SUPABASE_URL
+const driverName = process.env.STORAGE_DRIVER || 'supabase';
+
+async function connect(): Promise<{ storage: StorageDriver; authProvider: AuthProvider }> {
+  if (driverName === 'postgres') {
+    const databaseUrl = process.env.DATABASE_URL;
+    if (!databaseUrl) {
+      throw new Error('Missing DATABASE_URL for the postgres storage driver');
+    }
+
+    const { default: pg } = await import('pg');
+    const storage = createPostgresDriver(new pg.Pool({ connectionString: databaseUrl }));
+
+    let secret = process.env.LOCAL_AUTH_SECRET;
+    if (!secret) {
+      logger.warn('storage.no_auth_secret', { message: 'LOCAL_AUTH_SECRET is not set - tokens stop working when the server restarts' });
+      secret = crypto.randomBytes(32).toString('hex');
+    }
+
+    logger.info('storage.connected', { driver: 'postgres' });
+    return { storage, authProvider: createLocalAuth(storage, secret) };
+  }
+
+  if (driverName !== 'supabase') {
+    throw new Error(`Unknown STORAGE_DRIVER "${driverName}" (expected supabase or postgres)`);
+  }
+
+  // Imported here because config/supabase.ts throws without the Supabase environment variables
+  const { supabaseAdmin } = await import('./supabase.js');
+  return { storage: createSupabaseDriver(supabaseAdmin), authProvider: createSupabaseAuth(supabaseAdmin) };
+}
+
+export const { storage, authProvider } = await connect();
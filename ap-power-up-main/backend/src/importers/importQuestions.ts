@@ -7,9 +7,9 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 /**
- * Migration: Import questions from JSON files
+ * Import: Questions from JSON files
  * 
- * Usage: tsx src/migrations/003_import_questions.ts [questions-dir]
+ * Usage: tsx src/importers/importQuestions.ts [questions-dir]
  * 
  * Default questions directory: ../../public/data
  */
@@ -4,9 +4,9 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 
 /**
- * Migration: Import users from exported localStorage data
+ * Import: Users from exported localStorage data
  * 
- * Usage: tsx src/migrations/002_import_users.ts <path-to-export-file.json>
+ * Usage: tsx src/importers/importUsers.ts <path-to-export-file.json>
  */
 
 interface ExportedData {
@@ -148,7 +148,7 @@ async function importUsers(exportFilePath: string) {
 // Run migration
 const exportFilePath = process.argv[2];
 if (!exportFilePath) {
-  console.error('Usage: tsx src/migrations/002_import_users.ts <path-to-export-file.json>');
+  console.error('Usage: tsx src/importers/importUsers.ts <path-to-export-file.json>');
   process.exit(1);
 }
 
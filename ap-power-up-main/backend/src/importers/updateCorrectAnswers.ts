@@ -7,9 +7,9 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 /**
- * Migration: Update correct_answer_id for existing questions from JSON files
+ * Import: Updated correct_answer_id for existing questions from JSON files
  * 
- * Usage: tsx src/migrations/004_update_correct_answers.ts [questions-dir]
+ * Usage: tsx src/importers/updateCorrectAnswers.ts [questions-dir]
  * 
  * Default questions directory: ../../public/data
  */
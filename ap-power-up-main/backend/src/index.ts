@@ -1,67 +1,14 @@
-import express from 'express';
-import cors from 'cors';
-import dotenv from 'dotenv';
-import { errorHandler } from './utils/errors.js';
+import { app, CORS_ORIGINS } from './app.js';
+import { startDecayScheduler } from './services/decay.js';
+import { logger } from './utils/logger.js';
 
-// Import routes
-import authRoutes from './routes/auth.js';
-import userRoutes from './routes/users.js';
-import questionRoutes from './routes/questions.js';
-import quizRoutes from './routes/quizzes.js';
-import attemptRoutes from './routes/attempts.js';
-import leaderboardRoutes from './routes/leaderboard.js';
-import classRoutes from './routes/classes.js';
-import apTestRoutes from './routes/ap-tests.js';
-
-dotenv.config();
-
-const app = express();
 const PORT = process.env.PORT || 3001;
-// Allow both common frontend ports (5173 for default Vite, 8080 for this project)
-const CORS_ORIGINS = process.env.CORS_ORIGIN 
-  ? process.env.CORS_ORIGIN.split(',').map(o => o.trim())
-  : ['http://localhost:5173', 'http://localhost:8080'];
-
-// Middleware
-app.use(cors({
-  origin: (origin, callback) => {
-    // Allow requests with no origin (like mobile apps or curl requests)
-    if (!origin) return callback(null, true);
-    if (CORS_ORIGINS.includes(origin)) {
-      callback(null, true);
-    } else {
-      callback(null, true); // For development, allow all origins
-    }
-  },
-  credentials: true
-}));
-app.use(express.json());
-
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-// API Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/users', userRoutes);
-app.use('/api/questions', questionRoutes);
-app.use('/api/quizzes', quizRoutes);
-app.use('/api/attempts', attemptRoutes);
-app.use('/api/leaderboard', leaderboardRoutes);
-app.use('/api/classes', classRoutes);
-app.use('/api/ap-tests', apTestRoutes);
-
-// Error handling
-app.use(errorHandler);
-
-// 404 handler
-app.use((req, res) => {
-  res.status(404).json({ error: 'Route not found' });
-});
 
 app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`CORS enabled for: ${CORS_ORIGINS.join(', ')}`);
+  logger.info('server.started', { port: Number(PORT), corsOrigins: CORS_ORIGINS });
 });
 
+// Set DECAY_SCHEDULER=off when decay runs from cron (npm run decay) instead
+if (process.env.DECAY_SCHEDULER !== 'off') {
+  startDecayScheduler();
+}
@@ -0,0 +1,21 @@
+import { runDecay } from '../services/decay.js';
+
+/**
+ * Job: Apply today's leaderboard decay to every user's class scores
+ *
+ * Usage: tsx src/jobs/applyDecay.ts
+ *
+ * Safe to run more than once a day: users who already decayed today are skipped.
+ */
+async function applyDecay() {
+  try {
+    const summary = await runDecay();
+    console.log(`[DECAY] ${summary.date}: decayed ${summary.usersDecayed} user(s), wrote ${summary.entriesWritten} ledger entr${summary.entriesWritten === 1 ? 'y' : 'ies'}, removed ${summary.pointsRemoved} point(s)`);
+    process.exit(0);
+  } catch (error) {
+    console.error('[DECAY] Failed to apply decay:', error);
+    process.exit(1);
+  }
+}
+
+applyDecay();
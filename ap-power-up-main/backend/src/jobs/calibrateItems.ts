@@ -0,0 +1,26 @@
+import { calibrateAllClasses, calibrateClass } from '../services/ability.js';
+
+/**
+ * Job: Fit item difficulties (item_calibrations) for ability estimates
+ *
+ * Usage: tsx src/jobs/calibrateItems.ts [apClass]
+ *
+ * Without a class every class with questions or AP tests is calibrated. Run it
+ * regularly (e.g. nightly) so difficulties follow new answers.
+ */
+async function calibrateItems(apClass?: string) {
+  try {
+    const calibrated = apClass ? { [apClass]: await calibrateClass(apClass) } : await calibrateAllClasses();
+
+    for (const [className, items] of Object.entries(calibrated)) {
+      console.log(`[CALIBRATE] ${className}: ${items} item(s)`);
+    }
+    console.log(`[CALIBRATE] Done - ${Object.keys(calibrated).length} class(es) calibrated`);
+    process.exit(0);
+  } catch (error) {
+    console.error('[CALIBRATE] Failed to calibrate items:', error);
+    process.exit(1);
+  }
+}
+
+calibrateItems(process.argv[2]);
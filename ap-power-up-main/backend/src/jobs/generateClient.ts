@@ -0,0 +1,34 @@
+import { writeFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { generateClient } from '../services/clientGenerator.js';
+import type { OpenApiDocument } from '../services/openapi.js';
+
+const CLIENT_PATH = fileURLToPath(new URL('../../../src/lib/generatedApi.ts', import.meta.url));
+
+/**
+ * Job: Write the frontend's typed API client (src/lib/generatedApi.ts) from the
+ * OpenAPI document of a running backend
+ *
+ * Usage: tsx src/jobs/generateClient.ts [docsUrl]
+ *
+ * The document is read from http://localhost:$PORT/api/docs unless a URL is given.
+ * Run it after changing a route or shared/apiSchemas.ts and commit the result.
+ */
+async function generate(docsUrl = `http://localhost:${process.env.PORT || 3001}/api/docs`) {
+  try {
+    const response = await fetch(docsUrl);
+    if (!response.ok) {
+      throw new Error(`GET ${docsUrl} returned ${response.status}`);
+    }
+    const document = await response.json() as OpenApiDocument;
+
+    await writeFile(CLIENT_PATH, generateClient(document));
+    console.log(`[CLIENT] Wrote ${Object.keys(document.paths).length} path(s) to ${CLIENT_PATH}`);
+    process.exit(0);
+  } catch (error) {
+    console.error('[CLIENT] Failed to generate the API client:', error);
+    process.exit(1);
+  }
+}
+
+generate(process.argv[2]);
@@ -0,0 +1,26 @@
+import { recomputeAllClassScores, recomputeClassScores } from '../services/pointsLedger.js';
+
+/**
+ * Job: Rebuild class scores (user_class_scores) from the points ledger
+ *
+ * Usage: tsx src/jobs/recomputeScores.ts [userId]
+ *
+ * Without a user id every user is checked. Only scores that differ from the
+ * sum of their ledger entries are rewritten.
+ */
+async function recomputeScores(userId?: string) {
+  try {
+    const corrections = userId ? await recomputeClassScores(userId) : await recomputeAllClassScores();
+
+    for (const correction of corrections) {
+      console.log(`[RECOMPUTE] ${correction.userId} ${correction.apClass}: ${correction.previousScore ?? 'none'} -> ${correction.score}`);
+    }
+    console.log(`[RECOMPUTE] Done - ${corrections.length} score(s) corrected`);
+    process.exit(0);
+  } catch (error) {
+    console.error('[RECOMPUTE] Failed to recompute scores:', error);
+    process.exit(1);
+  }
+}
+
+recomputeScores(process.argv[2]);
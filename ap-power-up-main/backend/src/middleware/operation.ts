@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod/v4';
+
+// What a route returns, for the OpenAPI document (services/openapi.ts) and the
+// frontend client generated from it. Every route starts with an operation().
+export interface OperationInfo {
+  name: string; // Method name in the generated client, unique within the router's tag
+  response?: z.ZodType; // JSON body of a successful response
+  status?: number; // Of a successful response; 200 by default
+  download?: string[]; // Content types of a file response, in place of a JSON body
+  deprecated?: boolean; // Left out of the generated client
+}
+
+export type OperationMiddleware = ((req: Request, res: Response, next: NextFunction) => void) & {
+  operation: OperationInfo;
+};
+
+// With CHECK_RESPONSES=true (set for the tests) successful JSON responses are parsed
+// with the operation's schema, and one that does not match fails the request
+function checkResponses(res: Response, { name, response }: OperationInfo & { response: z.ZodType }): void {
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    if (res.statusCode < 400) {
+      // As the client receives it, with dates as text
+      const result = response.safeParse(body === undefined ? body : JSON.parse(JSON.stringify(body)));
+      if (!result.success) {
+        throw new Error(`Response of ${name} does not match its schema:\n${z.prettifyError(result.error)}`);
+      }
+    }
+    return json(body);
+  };
+}
+
+export function operation(info: OperationInfo): OperationMiddleware {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    if (info.response && process.env.CHECK_RESPONSES === 'true') {
+      checkResponses(res, { ...info, response: info.response });
+    }
+    next();
+  };
+  return Object.assign(middleware, { operation: info });
+}
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { Logger, logger } from '../utils/logger.js';
+import { AuthRequest } from './auth.js';
+
+// Ids sent by a proxy or the client are kept when they look like ids
+const REQUEST_ID = /^[\w.-]{1,100}$/;
+
+export interface RequestContext {
+  requestId: string;
+  method: string;
+  path: string;
+  route?: string; // The matched pattern, e.g. /api/users/:id
+  userId?: string;
+}
+
+// The request's id, route and user, for entries about it
+export function getRequestContext(req: Request, res: Response): RequestContext {
+  return {
+    requestId: res.locals.requestId,
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    route: res.locals.route,
+    userId: (req as AuthRequest).userId
+  };
+}
+
+// A logger whose entries carry the request id, for routes to log with
+export function requestLog(res: Response): Logger {
+  return res.locals.log ?? logger;
+}
+
+/**
+ * Give each request an id (X-Request-Id, sent back in the response) and log it once
+ * it finishes, with its route, user, status and latency
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const started = process.hrtime.bigint();
+  const incomingId = req.header('x-request-id');
+  const requestId = incomingId && REQUEST_ID.test(incomingId) ? incomingId : crypto.randomUUID();
+
+  res.locals.requestId = requestId;
+  res.locals.log = logger.child({ requestId });
+  res.setHeader('X-Request-Id', requestId);
+
+  // Express sets req.route when a route matches, while req.baseUrl still holds the
+  // router's mount path; it is reset before an error reaches errorHandler
+  let matched: { path: string } | undefined;
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => matched,
+    set: (route: { path: string }) => {
+      matched = route;
+      res.locals.route = `${req.baseUrl}${route.path}`;
+    }
+  });
+
+  res.on('finish', () => {
+    const durationMs = Math.round(Number(process.hrtime.bigint() - started) / 1e4) / 100;
+    const entry = { ...getRequestContext(req, res), status: res.statusCode, durationMs };
+    if (res.statusCode >= 500) {
+      logger.error('request', entry);
+    } else if (res.statusCode >= 400) {
+      logger.warn('request', entry);
+    } else {
+      logger.info('request', entry);
+    }
+  });
+
+  next();
+}
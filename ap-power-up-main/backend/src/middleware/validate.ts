@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod/v4';
+import type { FieldError } from '../../../shared/apiSchemas.js';
+import { ValidationError } from '../utils/errors.js';
+
+type Location = FieldError['location'];
+
+export type RequestSchemas = Partial<Record<Location, z.ZodType>>;
+
+const LOCATIONS: Location[] = ['params', 'query', 'body'];
+
+// e.g. ['answers', 0, 'questionId'] -> answers[0].questionId
+export function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((formatted, key) => {
+    if (typeof key === 'number') {
+      return `${formatted}[${key}]`;
+    }
+    return formatted ? `${formatted}.${String(key)}` : String(key);
+  }, '');
+}
+
+// Parse the request's params, query and body with schemas from shared/apiSchemas.ts.
+// Parsed values replace the raw ones, so handlers read trimmed text and numeric query
+// values; a request with invalid parts fails with a 400 that lists every invalid field.
+// The schemas stay on the middleware for the OpenAPI document (services/openapi.ts).
+export function validate(schemas: RequestSchemas) {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const fields: FieldError[] = [];
+    const parsed: Partial<Record<Location, unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        fields.push(...result.error.issues.map(issue => ({
+          location,
+          path: formatPath(issue.path),
+          message: issue.message
+        })));
+      }
+    }
+
+    if (fields.length > 0) {
+      return next(new ValidationError(fields));
+    }
+    for (const location of LOCATIONS) {
+      if (location in parsed) {
+        req[location] = parsed[location];
+      }
+    }
+    next();
+  };
+  return Object.assign(middleware, { schemas });
+}
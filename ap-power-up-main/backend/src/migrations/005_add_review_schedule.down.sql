@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS public.idx_question_attempts_review_due;
+
+ALTER TABLE public.question_attempts
+    DROP COLUMN IF EXISTS review_ease_factor,
+    DROP COLUMN IF EXISTS review_interval_days,
+    DROP COLUMN IF EXISTS review_repetitions,
+    DROP COLUMN IF EXISTS review_due_at;
@@ -0,0 +1,15 @@
+-- Spaced-repetition review schedule (SM-2) per user/question
+-- This migration adds next-due scheduling columns to question_attempts
+
+ALTER TABLE public.question_attempts
+    ADD COLUMN IF NOT EXISTS review_ease_factor REAL NOT NULL DEFAULT 2.5,
+    ADD COLUMN IF NOT EXISTS review_interval_days INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS review_repetitions INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS review_due_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing attempts become due one day after they were last practiced
+UPDATE public.question_attempts
+SET review_due_at = COALESCE(last_practiced_at, NOW()) + INTERVAL '1 day'
+WHERE review_due_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_question_attempts_review_due ON public.question_attempts(user_id, review_due_at);
@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS public.assignment_submissions;
+DROP TABLE IF EXISTS public.class_assignments;
+
+DROP TYPE IF EXISTS assignment_type;
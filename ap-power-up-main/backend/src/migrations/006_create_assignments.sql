@@ -0,0 +1,77 @@
+-- Teacher assignments for classes
+-- This migration adds assignments and per-student submissions next to classes/class_students
+
+CREATE TYPE assignment_type AS ENUM ('practice', 'ap_test');
+
+-- 1. Class Assignments
+CREATE TABLE IF NOT EXISTS public.class_assignments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    class_id UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    assignment_type assignment_type NOT NULL DEFAULT 'practice',
+    units TEXT[] NOT NULL DEFAULT '{}',
+    subtopics TEXT[] NOT NULL DEFAULT '{}',
+    question_ids UUID[] NOT NULL DEFAULT '{}', -- Fixed at creation so every student gets the same set
+    question_count INTEGER,
+    ap_test_id INTEGER,
+    due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (
+        (assignment_type = 'practice' AND question_count IS NOT NULL AND question_count > 0) OR
+        (assignment_type = 'ap_test' AND ap_test_id IS NOT NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_assignments_class ON public.class_assignments(class_id, due_at);
+
+-- 2. Assignment Submissions (first completion per student)
+CREATE TABLE IF NOT EXISTS public.assignment_submissions (
+    assignment_id UUID NOT NULL REFERENCES public.class_assignments(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    score INTEGER NOT NULL DEFAULT 0,
+    total_questions INTEGER NOT NULL DEFAULT 0,
+    completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (assignment_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_submissions_student ON public.assignment_submissions(student_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.class_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.assignment_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Class assignments: teachers manage their class assignments, students read assignments for classes they're in
+CREATE POLICY "Users can read assignments for their classes" ON public.class_assignments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.classes
+            WHERE id = class_id AND teacher_id = auth.uid()
+        ) OR
+        EXISTS (
+            SELECT 1 FROM public.class_students
+            WHERE class_students.class_id = class_assignments.class_id AND student_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Teachers can manage own class assignments" ON public.class_assignments
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.classes
+            WHERE id = class_id AND teacher_id = auth.uid()
+        )
+    );
+
+-- Assignment submissions: students read/insert their own, teachers read submissions for their classes
+CREATE POLICY "Users can read assignment submissions for their classes" ON public.assignment_submissions
+    FOR SELECT USING (
+        student_id = auth.uid() OR
+        EXISTS (
+            SELECT 1 FROM public.class_assignments
+            JOIN public.classes ON classes.id = class_assignments.class_id
+            WHERE class_assignments.id = assignment_id AND classes.teacher_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Students can submit own assignments" ON public.assignment_submissions
+    FOR INSERT WITH CHECK (student_id = auth.uid());
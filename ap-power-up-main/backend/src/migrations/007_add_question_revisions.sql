@@ -0,0 +1,47 @@
+-- Question revision history for teacher authoring
+-- Every create, edit and rollback appends a full snapshot; revisions are never rewritten
+
+CREATE TABLE IF NOT EXISTS public.question_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    snapshot JSONB NOT NULL, -- question_text, options, correct_answer_id, explanation, unit_name, subtopic_name, metadata
+    change_note TEXT,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (question_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_revisions_question ON public.question_revisions(question_id, revision_number DESC);
+
+-- Existing questions start their history at revision 1
+INSERT INTO public.question_revisions (question_id, revision_number, snapshot, change_note, created_at)
+SELECT
+    q.id,
+    1,
+    jsonb_build_object(
+        'question_text', q.question_text,
+        'options', q.options,
+        'correct_answer_id', q.correct_answer_id,
+        'explanation', q.explanation,
+        'unit_name', q.unit_name,
+        'subtopic_name', q.subtopic_name,
+        'metadata', q.metadata
+    ),
+    'Imported',
+    q.updated_at
+FROM public.questions q
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.question_revisions r WHERE r.question_id = q.id
+);
+
+ALTER TABLE public.question_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Question revisions: teachers can read history (writes go through the service role)
+CREATE POLICY "Teachers can read question revisions" ON public.question_revisions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'teacher'
+        )
+    );
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS public.idx_questions_source_id;
+
+ALTER TABLE public.questions
+    DROP COLUMN IF EXISTS source_id;
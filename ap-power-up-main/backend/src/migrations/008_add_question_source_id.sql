@@ -0,0 +1,25 @@
+-- Stable question ids from the JSON question bank (e.g. APBIO-U1-1.1-Q01)
+-- The importer upserts on source_id, so re-importing a file updates questions instead of duplicating them
+
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS source_id TEXT;
+
+-- Earlier imports kept the id in metadata and could insert the same question twice;
+-- the oldest copy of each question keeps the id
+UPDATE public.questions q
+SET source_id = first_copy.original_id
+FROM (
+    SELECT DISTINCT ON (metadata->>'originalQuestionId')
+        id,
+        metadata->>'originalQuestionId' AS original_id
+    FROM public.questions
+    WHERE metadata->>'originalQuestionId' IS NOT NULL
+    ORDER BY metadata->>'originalQuestionId', created_at
+) first_copy
+WHERE q.id = first_copy.id
+  AND q.source_id IS NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM public.questions existing WHERE existing.source_id = first_copy.original_id
+  );
+
+-- Questions written in the editor have no source_id; NULLs do not conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_questions_source_id ON public.questions(source_id);
@@ -0,0 +1,15 @@
+-- Idempotency keys for writes replayed from the client's offline outbox
+-- Each write carries a client-generated id; a replay returns the stored response instead of applying it twice
+
+CREATE TABLE IF NOT EXISTS public.client_requests (
+    client_id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL, -- 'question_attempt', 'quiz_progress', 'quiz_result', 'ap_test_attempt'
+    response JSONB, -- NULL while the first request is still being processed
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_requests_user ON public.client_requests(user_id, created_at);
+
+-- Only the backend (service role) reads or writes idempotency keys
+ALTER TABLE public.client_requests ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,19 @@
+-- The entries of each day are merged back into one per-day total
+WITH entries AS (
+    DELETE FROM public.daily_points
+    RETURNING user_id, date, points
+)
+INSERT INTO public.daily_points (user_id, date, points)
+SELECT user_id, date, SUM(points)
+FROM entries
+GROUP BY user_id, date;
+
+DROP INDEX IF EXISTS public.idx_daily_points_user_date;
+DROP INDEX IF EXISTS public.idx_daily_points_class_date;
+
+ALTER TABLE public.daily_points
+    DROP COLUMN IF EXISTS ap_class,
+    DROP COLUMN IF EXISTS source,
+    DROP COLUMN IF EXISTS created_at;
+
+ALTER TABLE public.daily_points ADD CONSTRAINT daily_points_user_id_date_key UNIQUE (user_id, date);
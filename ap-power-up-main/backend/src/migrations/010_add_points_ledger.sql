@@ -0,0 +1,12 @@
+-- Record every points award in daily_points instead of one running total per day,
+-- so leaderboards can rank students by the points they earned in a week, month or term
+
+-- Rows written before this migration are per-day totals with no class; they still count toward the daily cap
+ALTER TABLE public.daily_points DROP CONSTRAINT IF EXISTS daily_points_user_id_date_key;
+
+ALTER TABLE public.daily_points ADD COLUMN IF NOT EXISTS ap_class TEXT;
+ALTER TABLE public.daily_points ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'legacy'; -- 'attempt', 'session_bonus', 'legacy'
+ALTER TABLE public.daily_points ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_daily_points_user_date ON public.daily_points(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_daily_points_class_date ON public.daily_points(ap_class, date);
@@ -0,0 +1,12 @@
+DROP TRIGGER IF EXISTS points_ledger_append_only ON public.daily_points;
+DROP FUNCTION IF EXISTS prevent_points_ledger_update();
+
+-- Entries of the sources this migration added; class scores keep their totals
+DELETE FROM public.daily_points WHERE source IN ('decay', 'adjustment', 'opening_balance');
+
+DROP INDEX IF EXISTS public.idx_daily_points_user_class;
+
+ALTER TABLE public.daily_points
+    DROP COLUMN IF EXISTS details,
+    DROP COLUMN IF EXISTS note,
+    DROP COLUMN IF EXISTS created_by;
@@ -0,0 +1,34 @@
+-- Make daily_points a complete, append-only ledger of class score changes, so any
+-- score can be explained entry by entry and rebuilt with `npm run recompute-scores`
+
+ALTER TABLE public.daily_points ADD COLUMN IF NOT EXISTS details JSONB; -- Scoring breakdown of an attempt or session bonus
+ALTER TABLE public.daily_points ADD COLUMN IF NOT EXISTS note TEXT; -- Reason given for an adjustment
+ALTER TABLE public.daily_points ADD COLUMN IF NOT EXISTS created_by UUID; -- Teacher who made an adjustment
+-- source is now also 'decay', 'adjustment' or 'opening_balance'
+
+CREATE INDEX IF NOT EXISTS idx_daily_points_user_class ON public.daily_points(user_id, ap_class, created_at);
+
+-- Scores earned before this migration become an opening balance, so the entries of
+-- every class score add up to it
+INSERT INTO public.daily_points (user_id, ap_class, date, points, source)
+SELECT scores.user_id, scores.ap_class, CURRENT_DATE, scores.score - COALESCE(ledger.total, 0), 'opening_balance'
+FROM public.user_class_scores scores
+LEFT JOIN (
+    SELECT user_id, ap_class, SUM(points) AS total
+    FROM public.daily_points
+    WHERE ap_class IS NOT NULL
+    GROUP BY user_id, ap_class
+) ledger ON ledger.user_id = scores.user_id AND ledger.ap_class = scores.ap_class
+WHERE scores.score <> COALESCE(ledger.total, 0);
+
+-- Entries are never edited; mistakes are corrected with an adjustment entry
+CREATE OR REPLACE FUNCTION prevent_points_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'daily_points is append-only';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS points_ledger_append_only ON public.daily_points;
+CREATE TRIGGER points_ledger_append_only BEFORE UPDATE ON public.daily_points
+    FOR EACH ROW EXECUTE FUNCTION prevent_points_ledger_update();
@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS public.streak_days;
+
+ALTER TABLE public.users
+    DROP COLUMN IF EXISTS timezone,
+    DROP COLUMN IF EXISTS streak_freezes,
+    DROP COLUMN IF EXISTS longest_streak;
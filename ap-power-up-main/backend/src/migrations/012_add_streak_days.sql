@@ -0,0 +1,27 @@
+-- Streaks are counted in each user's own calendar days, and a missed day can be
+-- covered by a streak freeze earned by keeping the streak going
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC'; -- IANA time zone, e.g. America/New_York
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS streak_freezes INTEGER NOT NULL DEFAULT 0 CHECK (streak_freezes >= 0);
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS longest_streak INTEGER NOT NULL DEFAULT 0;
+
+-- One row per day a user practiced (or a freeze covered), for the streak calendar
+CREATE TABLE IF NOT EXISTS public.streak_days (
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    day DATE NOT NULL, -- Calendar date in the user's time zone
+    questions_answered INTEGER NOT NULL DEFAULT 0,
+    frozen BOOLEAN NOT NULL DEFAULT false, -- No practice; a streak freeze kept the streak
+    PRIMARY KEY (user_id, day)
+);
+
+-- Earlier practice days, from the answer events already recorded (in UTC, the
+-- default time zone)
+INSERT INTO public.streak_days (user_id, day, questions_answered)
+SELECT attempts.user_id, ((event->>'timestamp')::timestamptz AT TIME ZONE 'UTC')::date, COUNT(*)
+FROM public.question_attempts attempts
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(attempts.metadata->'answer_events', '[]'::jsonb)) event
+WHERE event->>'timestamp' IS NOT NULL
+GROUP BY attempts.user_id, ((event->>'timestamp')::timestamptz AT TIME ZONE 'UTC')::date
+ON CONFLICT (user_id, day) DO NOTHING;
+
+UPDATE public.users SET longest_streak = streak WHERE longest_streak < streak;
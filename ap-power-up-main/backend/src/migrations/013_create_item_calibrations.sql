@@ -0,0 +1,12 @@
+-- Rasch difficulties of practice questions and AP test questions, fitted from
+-- everyone's answers by `npm run calibrate-items`
+
+CREATE TABLE IF NOT EXISTS public.item_calibrations (
+    item_key TEXT PRIMARY KEY, -- question:<question id> or ap_test:<test id>:<question number>
+    ap_class TEXT NOT NULL,
+    difficulty DOUBLE PRECISION NOT NULL, -- On the ability (logit) scale
+    responses INTEGER NOT NULL, -- Answers the difficulty was fitted from
+    calibrated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_calibrations_ap_class ON public.item_calibrations(ap_class);
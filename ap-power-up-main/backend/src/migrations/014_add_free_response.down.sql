@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS public.frq_responses;
+
+ALTER TABLE public.questions
+    DROP COLUMN IF EXISTS question_type,
+    DROP COLUMN IF EXISTS parts;
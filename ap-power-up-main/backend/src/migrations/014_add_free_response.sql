@@ -0,0 +1,35 @@
+-- Free-response questions and the answers to them
+-- A free-response question has no options; its parts carry the prompts and rubric
+
+ALTER TABLE public.questions
+    ADD COLUMN IF NOT EXISTS question_type TEXT NOT NULL DEFAULT 'multiple_choice', -- multiple_choice or free_response
+    ADD COLUMN IF NOT EXISTS parts JSONB; -- Free response only: array of {id, prompt, rubric: [{id, description, points}]}
+
+-- Answers to free-response questions, in practice or on an AP test, with the
+-- student's self-score and the teacher's grade against the rubric
+CREATE TABLE IF NOT EXISTS public.frq_responses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+    ap_test_attempt_id UUID REFERENCES public.ap_test_attempts(id) ON DELETE CASCADE,
+    answers JSONB NOT NULL, -- Answer text per part id
+    time_spent_seconds INTEGER,
+    points_possible INTEGER NOT NULL,
+    self_scores JSONB, -- Points per rubric criterion id
+    self_points INTEGER,
+    teacher_scores JSONB,
+    teacher_points INTEGER,
+    feedback TEXT,
+    graded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    graded_at TIMESTAMP WITH TIME ZONE,
+    submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_frq_responses_user ON public.frq_responses(user_id, submitted_at);
+CREATE INDEX IF NOT EXISTS idx_frq_responses_attempt ON public.frq_responses(ap_test_attempt_id);
+CREATE INDEX IF NOT EXISTS idx_frq_responses_ungraded ON public.frq_responses(question_id) WHERE graded_at IS NULL;
+
+ALTER TABLE public.frq_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own free responses" ON public.frq_responses
+    FOR SELECT USING (user_id = auth.uid());
@@ -0,0 +1,5 @@
+ALTER TABLE public.question_attempts
+    DROP COLUMN IF EXISTS credit;
+
+ALTER TABLE public.questions
+    DROP COLUMN IF EXISTS answer_key;
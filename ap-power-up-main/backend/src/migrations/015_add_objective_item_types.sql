@@ -0,0 +1,10 @@
+-- Objective item types beyond single-answer multiple choice: multi_select, numeric,
+-- ordering and matching. They are graded against answer_key (correct_answer_id is
+-- empty) and can earn partial credit.
+
+ALTER TABLE public.questions
+    ADD COLUMN IF NOT EXISTS answer_key JSONB; -- {correctOptionIds}, {value, tolerance, units}, {order} or {prompts, matches}
+
+-- Credit (0 to 1) of the latest answer; is_correct is only true for full credit
+ALTER TABLE public.question_attempts
+    ADD COLUMN IF NOT EXISTS credit REAL;
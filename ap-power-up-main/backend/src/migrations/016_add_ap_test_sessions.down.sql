@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS public.ap_test_sessions;
+
+ALTER TABLE public.class_assignments
+    DROP COLUMN IF EXISTS allow_pause;
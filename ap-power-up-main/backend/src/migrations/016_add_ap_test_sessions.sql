@@ -0,0 +1,28 @@
+-- AP tests in progress, autosaved so a student can close the tab and resume with the
+-- clock where it was. Teachers can keep AP test assignments from being paused for
+-- proctored runs: the clock then keeps running while the student is away.
+
+ALTER TABLE public.class_assignments
+    ADD COLUMN IF NOT EXISTS allow_pause BOOLEAN NOT NULL DEFAULT true; -- AP test assignments only
+
+-- One session per student and test, removed when the attempt is saved
+CREATE TABLE IF NOT EXISTS public.ap_test_sessions (
+    id UUID PRIMARY KEY, -- The id the finished attempt is saved under
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    ap_class TEXT NOT NULL,
+    test_id TEXT NOT NULL,
+    assignment_id UUID REFERENCES public.class_assignments(id) ON DELETE SET NULL,
+    allow_pause BOOLEAN NOT NULL DEFAULT true, -- From the assignment when the session started
+    start_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    state JSONB NOT NULL, -- Responses, flagged questions, answer changes and the section clock
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, ap_class, test_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ap_test_sessions_user ON public.ap_test_sessions(user_id);
+
+ALTER TABLE public.ap_test_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own AP test sessions" ON public.ap_test_sessions
+    FOR SELECT USING (user_id = auth.uid());
@@ -0,0 +1,5 @@
+-- Whether a student is asked how confident they are after each answer. The frontend
+-- kept this in localStorage until the column existed.
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS track_confidence BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1 @@
+DROP FUNCTION IF EXISTS public.class_points_since(TEXT, DATE, TEXT[], UUID[], INTEGER);
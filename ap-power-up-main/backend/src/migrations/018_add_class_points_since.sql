@@ -0,0 +1,26 @@
+-- Points each student earned in a class since a date, summed in the database for the
+-- weekly, monthly and term leaderboards. A plain select of daily_points is cut off at
+-- PostgREST's row limit once a class has been active for a while.
+
+CREATE OR REPLACE FUNCTION public.class_points_since(
+    p_ap_class TEXT,
+    p_since DATE,
+    p_sources TEXT[],
+    p_user_ids UUID[] DEFAULT NULL, -- Every student when null
+    p_limit INTEGER DEFAULT NULL -- Every student when null
+)
+RETURNS TABLE (user_id UUID, score BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT p.user_id, SUM(p.points)
+    FROM public.daily_points p
+    JOIN public.users u ON u.id = p.user_id AND u.role = 'student'
+    WHERE p.ap_class = p_ap_class
+      AND p.date >= p_since
+      AND p.source = ANY(p_sources)
+      AND (p_user_ids IS NULL OR p.user_id = ANY(p_user_ids))
+    GROUP BY p.user_id
+    ORDER BY 2 DESC, 1
+    LIMIT p_limit;
+$$;
@@ -0,0 +1 @@
+DROP FUNCTION IF EXISTS public.class_point_totals(UUID);
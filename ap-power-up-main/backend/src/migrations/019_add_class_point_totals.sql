@@ -0,0 +1,15 @@
+-- Sum of a user's ledger entries per class, for rebuilding their class scores with
+-- `npm run recompute-scores`. A plain select of daily_points is cut off at PostgREST's
+-- row limit for an active student.
+
+CREATE OR REPLACE FUNCTION public.class_point_totals(p_user_id UUID)
+RETURNS TABLE (ap_class TEXT, points BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT p.ap_class, SUM(p.points)
+    FROM public.daily_points p
+    WHERE p.user_id = p_user_id
+      AND p.ap_class IS NOT NULL
+    GROUP BY p.ap_class;
+$$;
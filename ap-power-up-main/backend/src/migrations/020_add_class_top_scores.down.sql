@@ -0,0 +1 @@
+DROP FUNCTION IF EXISTS public.class_top_scores(TEXT, INTEGER);
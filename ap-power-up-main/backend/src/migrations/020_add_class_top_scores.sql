@@ -0,0 +1,16 @@
+-- The highest class scores of students, for the all-time leaderboard. Teachers have
+-- class scores too, so they are left out before the limit instead of after it, which
+-- would leave the leaderboard short.
+
+CREATE OR REPLACE FUNCTION public.class_top_scores(p_ap_class TEXT, p_limit INTEGER)
+RETURNS TABLE (user_id UUID, score INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT s.user_id, s.score
+    FROM public.user_class_scores s
+    JOIN public.users u ON u.id = s.user_id AND u.role = 'student'
+    WHERE s.ap_class = p_ap_class
+    ORDER BY s.score DESC, s.user_id
+    LIMIT p_limit;
+$$;
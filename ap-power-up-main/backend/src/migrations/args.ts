@@ -0,0 +1,47 @@
+import { MigrationError } from './runner.js';
+
+// Command line of `npm run migrate` (see run.ts). Flags are read with their values first,
+// so `--to 012 up` and `up --to 012` mean the same thing and 012 is never taken for the
+// command.
+
+export interface MigrateArgs {
+  command: string;
+  // Arguments after the command, e.g. the version of `baseline NNN`
+  operands: string[];
+  to?: string;
+  steps?: string;
+  dryRun: boolean;
+}
+
+const VALUE_FLAGS = new Set(['--to', '--steps']);
+
+/**
+ * Split the arguments of `npm run migrate` into the command, its operands and flags
+ * @throws MigrationError for an unknown flag or a flag missing its value
+ */
+export function parseMigrateArgs(args: string[]): MigrateArgs {
+  const positional: string[] = [];
+  const values = new Map<string, string>();
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (VALUE_FLAGS.has(arg)) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new MigrationError(`${arg} needs a value`);
+      }
+      values.set(arg, value);
+      i++;
+    } else if (arg.startsWith('--')) {
+      throw new MigrationError(`Unknown option ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command = 'up', ...operands] = positional;
+  return { command, operands, to: values.get('--to'), steps: values.get('--steps'), dryRun };
+}
@@ -0,0 +1,20 @@
+-- Stand-in for Supabase's auth schema on a plain Postgres database (STORAGE_DRIVER=postgres)
+-- Run this before 001_create_schema.sql; Supabase projects already have it and must skip it
+
+CREATE SCHEMA IF NOT EXISTS auth;
+
+-- Accounts created by the local auth provider (src/storage/localAuth.ts)
+CREATE TABLE IF NOT EXISTS auth.users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT UNIQUE,
+    encrypted_password TEXT NOT NULL,
+    raw_user_meta_data JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- The RLS policies in later migrations call auth.uid(). The backend connects as the
+-- table owner, which bypasses RLS, so there is no session user to return.
+CREATE OR REPLACE FUNCTION auth.uid()
+RETURNS UUID AS $$
+    SELECT NULL::UUID;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,99 @@
+import { config } from 'dotenv';
+import pg from 'pg';
+import {
+  baselineMigrations,
+  getMigrationStatus,
+  Migration,
+  MigrationError,
+  migrateDown,
+  migrateUp
+} from './runner.js';
+import { parseMigrateArgs } from './args.js';
+
+/**
+ * Job: Apply, undo or list schema migrations (see runner.ts)
+ *
+ * Usage: npm run migrate -- [command] [--dry-run]
+ *   up [--to NNN]     Apply pending migrations, or those up to NNN (the default command)
+ *   down [--steps N]  Undo the latest N migrations (default 1)
+ *   status            List every migration and whether it is applied
+ *   baseline NNN      Record migrations up to NNN as applied without running them, for a
+ *                     database set up by running the SQL files by hand
+ *   --dry-run         Show what up, down or baseline would do without changing anything
+ *
+ * Connects to DATABASE_URL; on Supabase, use the project's database connection string.
+ * With STORAGE_DRIVER=postgres, local/000_auth_schema.sql runs first.
+ */
+
+config();
+
+function list(migrations: Migration[]): string {
+  return migrations.map(migration => `  ${migration.version}_${migration.name}`).join('\n');
+}
+
+async function run(client: pg.Client, args: string[]) {
+  const { command, operands, to, steps, dryRun } = parseMigrateArgs(args);
+  const options = { dryRun, includeLocal: process.env.STORAGE_DRIVER === 'postgres' };
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp(client, { ...options, to });
+      console.log(applied.length === 0
+        ? '[MIGRATE] Database is up to date'
+        : `[MIGRATE] ${options.dryRun ? 'Would apply' : 'Applied'} ${applied.length} migration(s):\n${list(applied)}`);
+      break;
+    }
+    case 'down': {
+      const undone = await migrateDown(client, { ...options, steps: Number(steps ?? 1) });
+      console.log(undone.length === 0
+        ? '[MIGRATE] No migrations to undo'
+        : `[MIGRATE] ${options.dryRun ? 'Would undo' : 'Undid'} ${undone.length} migration(s):\n${list(undone)}`);
+      break;
+    }
+    case 'status': {
+      const statuses = await getMigrationStatus(client, options);
+      for (const status of statuses) {
+        const appliedAt = status.appliedAt ? ` ${status.appliedAt}` : '';
+        const down = status.reversible ? '' : ' (no down)';
+        console.log(`${status.state.padEnd(8)} ${status.version}_${status.name}${appliedAt}${down}`);
+      }
+      const pending = statuses.filter(status => status.state === 'pending').length;
+      console.log(`[MIGRATE] ${pending} pending migration(s)`);
+      break;
+    }
+    case 'baseline': {
+      const [version] = operands;
+      if (!version) {
+        throw new MigrationError('Usage: npm run migrate -- baseline NNN');
+      }
+      const recorded = await baselineMigrations(client, version, options);
+      console.log(`[MIGRATE] ${options.dryRun ? 'Would record' : 'Recorded'} ${recorded.length} migration(s) as applied:\n${list(recorded)}`);
+      break;
+    }
+    default:
+      throw new MigrationError(`Unknown command "${command}" (expected up, down, status or baseline)`);
+  }
+}
+
+async function main() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    console.error('[MIGRATE] Missing DATABASE_URL');
+    process.exit(1);
+  }
+
+  // One connection, so each migration's BEGIN and COMMIT apply to it
+  const client = new pg.Client({ connectionString: databaseUrl });
+  try {
+    await client.connect();
+    await run(client, process.argv.slice(2));
+    await client.end();
+    process.exit(0);
+  } catch (error) {
+    console.error('[MIGRATE]', error instanceof MigrationError ? error.message : error);
+    await client.end().catch(() => {});
+    process.exit(1);
+  }
+}
+
+main();
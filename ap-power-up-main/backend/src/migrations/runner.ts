@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SqlClient } from '../storage/postgres.js';
+
+// Versioned schema migrations. Each NNN_name.sql in this directory is applied once, in
+// version order, inside a transaction, and recorded in schema_migrations with a checksum
+// of its SQL. An NNN_name.down.sql next to it undoes it; migrations without one can't be
+// rolled back.
+//
+// The client must run several statements in one query (node-postgres does when there are
+// no parameters) and be a single connection, so BEGIN and COMMIT apply to the migration.
+
+export const MIGRATIONS_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+const MIGRATION_FILE = /^(\d{3})_(.+?)(\.down)?\.sql$/;
+
+// Held while migrating so two runners can't apply the same migration
+const LOCK_KEY = 4206001;
+
+export interface Migration {
+  version: string;
+  name: string;
+  checksum: string;
+  up: string;
+  down: string | null;
+}
+
+export interface MigrationOptions {
+  dir?: string;
+  // Also run local/ first: the auth schema Supabase provides, for a plain Postgres database
+  includeLocal?: boolean;
+  dryRun?: boolean;
+}
+
+// pending: not applied yet; changed: applied, but its file has been edited since;
+// missing: applied, but its file is gone
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt: string | null;
+  reversible: boolean;
+}
+
+interface AppliedRow {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: string | Date;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, MigrationError.prototype);
+  }
+}
+
+// Line endings are normalized so a checkout on Windows doesn't change the checksum
+function checksumOf(sql: string): string {
+  return crypto.createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+function readMigrationDir(dir: string): Migration[] {
+  const ups = new Map<string, { name: string; file: string }>();
+  const downs = new Map<string, string>();
+
+  for (const file of readdirSync(dir).sort()) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      continue;
+    }
+    const [, version, name, isDown] = match;
+    if (isDown) {
+      downs.set(version, file);
+      continue;
+    }
+    const existing = ups.get(version);
+    if (existing) {
+      throw new MigrationError(`Two migrations are numbered ${version}: ${existing.file} and ${file}`);
+    }
+    ups.set(version, { name, file });
+  }
+
+  for (const [version, file] of downs) {
+    if (!ups.has(version)) {
+      throw new MigrationError(`${file} has no migration to undo`);
+    }
+  }
+
+  return [...ups].map(([version, { name, file }]) => {
+    const up = readFileSync(path.join(dir, file), 'utf-8');
+    const downFile = downs.get(version);
+    return {
+      version,
+      name,
+      checksum: checksumOf(up),
+      up,
+      down: downFile ? readFileSync(path.join(dir, downFile), 'utf-8') : null
+    };
+  });
+}
+
+/**
+ * Read the migrations in version order
+ * @throws MigrationError when two migrations share a version or a down file has no migration
+ */
+export function loadMigrations({ dir = MIGRATIONS_DIR, includeLocal = false }: MigrationOptions = {}): Migration[] {
+  const local = includeLocal && existsSync(path.join(dir, 'local')) ? readMigrationDir(path.join(dir, 'local')) : [];
+  const migrations = [...local, ...readMigrationDir(dir)].sort((a, b) => a.version.localeCompare(b.version));
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new MigrationError(`Two migrations are numbered ${migrations[i].version}`);
+    }
+  }
+  return migrations;
+}
+
+async function hasMigrationsTable(client: SqlClient): Promise<boolean> {
+  const { rows } = await client.query(`SELECT to_regclass('public.schema_migrations') IS NOT NULL AS exists`);
+  return rows[0]?.exists === true;
+}
+
+async function getApplied(client: SqlClient): Promise<AppliedRow[]> {
+  if (!(await hasMigrationsTable(client))) {
+    return [];
+  }
+  const { rows } = await client.query(`SELECT version, name, checksum, applied_at FROM public.schema_migrations ORDER BY version`);
+  return rows as unknown as AppliedRow[];
+}
+
+async function ensureMigrationsTable(client: SqlClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS public.schema_migrations (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+function toStatus(migrations: Migration[], applied: AppliedRow[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const row = appliedByVersion.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'changed',
+      appliedAt: row ? new Date(row.applied_at).toISOString() : null,
+      reversible: migration.down !== null
+    };
+  });
+
+  const known = new Set(migrations.map(migration => migration.version));
+  for (const row of applied) {
+    if (!known.has(row.version)) {
+      statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: new Date(row.applied_at).toISOString(), reversible: false });
+    }
+  }
+  return statuses.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+// Applied migrations must still match their files before anything else runs
+function verifyChecksums(statuses: MigrationStatus[]): void {
+  const problems = statuses.filter(status => status.state === 'changed' || status.state === 'missing');
+  if (problems.length > 0) {
+    const list = problems.map(status => `${status.version}_${status.name} (${status.state})`).join(', ');
+    throw new MigrationError(`Applied migrations no longer match their files: ${list}. Restore the files, or add a new migration instead of editing one`);
+  }
+}
+
+async function withLock<T>(client: SqlClient, run: () => Promise<T>): Promise<T> {
+  await client.query(`SELECT pg_advisory_lock(${LOCK_KEY})`);
+  try {
+    return await run();
+  } finally {
+    await client.query(`SELECT pg_advisory_unlock(${LOCK_KEY})`);
+  }
+}
+
+async function inTransaction(client: SqlClient, run: () => Promise<void>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await run();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+function describe(migration: Pick<Migration, 'version' | 'name'>): string {
+  return `${migration.version}_${migration.name}`;
+}
+
+export async function getMigrationStatus(client: SqlClient, options: MigrationOptions = {}): Promise<MigrationStatus[]> {
+  return toStatus(loadMigrations(options), await getApplied(client));
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction. A failed migration is
+ * rolled back and stops the run; the ones before it stay applied.
+ * @param to Last version to apply (default: all)
+ * @returns The migrations applied, or that would be with dryRun
+ * @throws MigrationError when an applied migration's file was edited or removed
+ */
+export async function migrateUp(client: SqlClient, { to, ...options }: MigrationOptions & { to?: string } = {}): Promise<Migration[]> {
+  const migrations = loadMigrations(options);
+  if (to !== undefined && !migrations.some(migration => migration.version === to)) {
+    throw new MigrationError(`No migration is numbered ${to}`);
+  }
+
+  const run = async () => {
+    const statuses = toStatus(migrations, await getApplied(client));
+    verifyChecksums(statuses);
+
+    const pendingVersions = new Set(statuses.filter(status => status.state === 'pending').map(status => status.version));
+    const pending = migrations.filter(migration => pendingVersions.has(migration.version) && (to === undefined || migration.version <= to));
+    if (options.dryRun) {
+      return pending;
+    }
+
+    await ensureMigrationsTable(client);
+    for (const migration of pending) {
+      try {
+        await inTransaction(client, async () => {
+          await client.query(migration.up);
+          await client.query(
+            'INSERT INTO public.schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, migration.checksum]
+          );
+        });
+      } catch (error) {
+        throw new MigrationError(`${describe(migration)} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return pending;
+  };
+
+  return options.dryRun ? run() : withLock(client, run);
+}
+
+/**
+ * Undo the latest applied migrations, newest first, each in its own transaction
+ * @param steps How many migrations to undo (default 1)
+ * @returns The migrations undone, or that would be with dryRun
+ * @throws MigrationError when one of them has no down file, before anything is undone
+ */
+export async function migrateDown(client: SqlClient, { steps = 1, ...options }: MigrationOptions & { steps?: number } = {}): Promise<Migration[]> {
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new MigrationError('steps must be a whole number of at least 1');
+  }
+  const migrations = loadMigrations(options);
+
+  const run = async () => {
+    const statuses = toStatus(migrations, await getApplied(client));
+    verifyChecksums(statuses);
+
+    const appliedVersions = statuses.filter(status => status.state === 'applied').map(status => status.version);
+    const targets = appliedVersions.slice(-steps).reverse()
+      .map(version => migrations.find(migration => migration.version === version)!);
+    const irreversible = targets.filter(migration => migration.down === null);
+    if (irreversible.length > 0) {
+      throw new MigrationError(`No down migration for ${irreversible.map(describe).join(', ')}`);
+    }
+    if (options.dryRun) {
+      return targets;
+    }
+
+    for (const migration of targets) {
+      try {
+        await inTransaction(client, async () => {
+          await client.query(migration.down!);
+          await client.query('DELETE FROM public.schema_migrations WHERE version = $1', [migration.version]);
+        });
+      } catch (error) {
+        throw new MigrationError(`Undoing ${describe(migration)} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return targets;
+  };
+
+  return options.dryRun ? run() : withLock(client, run);
+}
+
+/**
+ * Record every migration up to a version as applied without running it, for databases
+ * whose schema was set up by running the SQL files by hand
+ * @returns The migrations recorded, or that would be with dryRun
+ */
+export async function baselineMigrations(client: SqlClient, version: string, options: MigrationOptions = {}): Promise<Migration[]> {
+  const migrations = loadMigrations(options);
+  if (!migrations.some(migration => migration.version === version)) {
+    throw new MigrationError(`No migration is numbered ${version}`);
+  }
+
+  const run = async () => {
+    const applied = new Set((await getApplied(client)).map(row => row.version));
+    const targets = migrations.filter(migration => migration.version <= version && !applied.has(migration.version));
+    if (options.dryRun) {
+      return targets;
+    }
+
+    await ensureMigrationsTable(client);
+    for (const migration of targets) {
+      await client.query(
+        'INSERT INTO public.schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, migration.checksum]
+      );
+    }
+    return targets;
+  };
+
+  return options.dryRun ? run() : withLock(client, run);
+}
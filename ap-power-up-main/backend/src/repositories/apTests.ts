@@ -0,0 +1,86 @@
+import { StorageDriver, Where } from '../storage/types.js';
+import { selectAll, selectIn } from './selectIn.js';
+import { APTestAttemptRow, APTestQuestionRow, APTestSessionRow } from './types.js';
+
+export function createAPTestRepository(driver: StorageDriver) {
+  return {
+    async listApClasses(): Promise<string[]> {
+      const rows = await driver.select<{ ap_class: string }>('ap_test_questions', {}, { columns: ['ap_class'] });
+      return [...new Set(rows.map(row => row.ap_class))];
+    },
+
+    // Distinct test ids for a class, in order
+    async listTestIds(apClass: string): Promise<string[]> {
+      const rows = await driver.select<{ test_id: string }>('ap_test_questions', { ap_class: apClass }, {
+        columns: ['test_id'],
+        orderBy: { column: 'test_id' }
+      });
+      return [...new Set(rows.map(row => row.test_id))];
+    },
+
+    async countQuestions(apClass: string, testId: string): Promise<number> {
+      return driver.count('ap_test_questions', { ap_class: apClass, test_id: testId });
+    },
+
+    async listQuestions(apClass: string, testId: string): Promise<APTestQuestionRow[]> {
+      return driver.select<APTestQuestionRow>('ap_test_questions', { ap_class: apClass, test_id: testId }, {
+        orderBy: { column: 'question_order' }
+      });
+    },
+
+    async createAttempt(values: Partial<APTestAttemptRow>): Promise<APTestAttemptRow> {
+      const [attempt] = await driver.insert<APTestAttemptRow>('ap_test_attempts', values);
+      return attempt;
+    },
+
+    // Most recently started first
+    async listAttempts(userId: string, apClass?: string): Promise<APTestAttemptRow[]> {
+      const where: Where = { user_id: userId };
+      if (apClass) where.ap_class = apClass;
+      return driver.select<APTestAttemptRow>('ap_test_attempts', where, {
+        orderBy: { column: 'start_timestamp', ascending: false }
+      });
+    },
+
+    // Every attempt in a class, oldest finish first
+    async listAttemptsForClass(apClass: string): Promise<APTestAttemptRow[]> {
+      const attempts = await selectAll<APTestAttemptRow>(driver, 'ap_test_attempts', { ap_class: apClass });
+      return attempts.sort((a, b) => a.end_timestamp.localeCompare(b.end_timestamp));
+    },
+
+    // Attempts of several students in one class, oldest finish first
+    async listAttemptsForUsers(apClass: string, userIds: string[]): Promise<APTestAttemptRow[]> {
+      const attempts = await selectIn<APTestAttemptRow>(driver, 'ap_test_attempts', 'user_id', userIds, { ap_class: apClass });
+      return attempts.sort((a, b) => a.end_timestamp.localeCompare(b.end_timestamp));
+    },
+
+    async findSession(userId: string, apClass: string, testId: string): Promise<APTestSessionRow | null> {
+      return driver.selectOne<APTestSessionRow>('ap_test_sessions', { user_id: userId, ap_class: apClass, test_id: testId });
+    },
+
+    // Most recently saved first
+    async listSessions(userId: string, apClass?: string): Promise<APTestSessionRow[]> {
+      const where: Where = { user_id: userId };
+      if (apClass) where.ap_class = apClass;
+      return driver.select<APTestSessionRow>('ap_test_sessions', where, {
+        orderBy: { column: 'updated_at', ascending: false }
+      });
+    },
+
+    // One session per user and test; saving again overwrites it
+    async saveSession(values: Partial<APTestSessionRow>): Promise<APTestSessionRow> {
+      const [session] = await driver.upsert<APTestSessionRow>(
+        'ap_test_sessions',
+        { ...values, updated_at: new Date().toISOString() },
+        ['user_id', 'ap_class', 'test_id']
+      );
+      return session;
+    },
+
+    async clearSession(userId: string, apClass: string, testId: string): Promise<void> {
+      await driver.delete('ap_test_sessions', { user_id: userId, ap_class: apClass, test_id: testId });
+    }
+  };
+}
+
+export type APTestRepository = ReturnType<typeof createAPTestRepository>;
@@ -0,0 +1,51 @@
+import { StorageDriver, Where } from '../storage/types.js';
+import { AssignmentRow, SubmissionRow } from './types.js';
+
+// Class assignments and each student's first submission
+export function createAssignmentRepository(driver: StorageDriver) {
+  return {
+    // Soonest due first
+    async list(classId: string): Promise<AssignmentRow[]> {
+      return driver.select<AssignmentRow>('class_assignments', { class_id: classId }, { orderBy: { column: 'due_at' } });
+    },
+
+    async find(classId: string, assignmentId: string): Promise<AssignmentRow | null> {
+      return driver.selectOne<AssignmentRow>('class_assignments', { id: assignmentId, class_id: classId });
+    },
+
+    async findById(assignmentId: string): Promise<AssignmentRow | null> {
+      return driver.selectOne<AssignmentRow>('class_assignments', { id: assignmentId });
+    },
+
+    async create(values: Partial<AssignmentRow>): Promise<AssignmentRow> {
+      const [assignment] = await driver.insert<AssignmentRow>('class_assignments', values);
+      return assignment;
+    },
+
+    // Submissions are removed with the assignment (ON DELETE CASCADE)
+    async delete(assignmentId: string): Promise<void> {
+      await driver.delete('class_assignments', { id: assignmentId });
+    },
+
+    // Submissions to the given assignments, optionally for one student
+    async listSubmissions(assignmentIds: string[], studentId?: string): Promise<SubmissionRow[]> {
+      if (assignmentIds.length === 0) {
+        return [];
+      }
+      const where: Where = { assignment_id: { in: assignmentIds } };
+      if (studentId) where.student_id = studentId;
+      return driver.select<SubmissionRow>('assignment_submissions', where);
+    },
+
+    async findSubmission(assignmentId: string, studentId: string): Promise<SubmissionRow | null> {
+      return driver.selectOne<SubmissionRow>('assignment_submissions', { assignment_id: assignmentId, student_id: studentId });
+    },
+
+    async createSubmission(values: SubmissionRow): Promise<SubmissionRow> {
+      const [submission] = await driver.insert<SubmissionRow>('assignment_submissions', { ...values });
+      return submission;
+    }
+  };
+}
+
+export type AssignmentRepository = ReturnType<typeof createAssignmentRepository>;
@@ -0,0 +1,79 @@
+import { StorageDriver, Where } from '../storage/types.js';
+import { selectAll, selectAllIn, selectIn } from './selectIn.js';
+import { DueReviewRow, QuestionAttemptRow, QuestionRow } from './types.js';
+
+type QuestionClassRow = Pick<QuestionRow, 'id' | 'ap_class' | 'unit_name' | 'subtopic_name'>;
+
+export function createAttemptRepository(driver: StorageDriver) {
+  // Questions among `questionIds` that belong to `apClass`, keyed by id
+  async function getClassQuestions(apClass: string, questionIds: string[]): Promise<Map<string, QuestionClassRow>> {
+    const rows = await selectIn<QuestionClassRow>(driver, 'questions', 'id', [...new Set(questionIds)], { ap_class: apClass }, {
+      columns: ['id', 'ap_class', 'unit_name', 'subtopic_name']
+    });
+    return new Map(rows.map(row => [row.id, row]));
+  }
+
+  return {
+    async find(userId: string, questionId: string): Promise<QuestionAttemptRow | null> {
+      return driver.selectOne<QuestionAttemptRow>('question_attempts', { user_id: userId, question_id: questionId });
+    },
+
+    async listForUser(userId: string, questionId?: string): Promise<QuestionAttemptRow[]> {
+      const where: Where = { user_id: userId };
+      if (questionId) where.question_id = questionId;
+      return selectAll<QuestionAttemptRow>(driver, 'question_attempts', where);
+    },
+
+    async listForQuestions(questionIds: string[]): Promise<QuestionAttemptRow[]> {
+      return selectAllIn<QuestionAttemptRow>(driver, 'question_attempts', 'question_id', [...new Set(questionIds)]);
+    },
+
+    async listForUsers(userIds: string[]): Promise<QuestionAttemptRow[]> {
+      return selectIn<QuestionAttemptRow>(driver, 'question_attempts', 'user_id', [...new Set(userIds)]);
+    },
+
+    // The user's attempts at the given questions; there is one per question at most
+    async listForUserQuestions(userId: string, questionIds: string[]): Promise<QuestionAttemptRow[]> {
+      return selectIn<QuestionAttemptRow>(driver, 'question_attempts', 'question_id', [...new Set(questionIds)], { user_id: userId });
+    },
+
+    // The user's attempts at the given questions, limited to questions in `apClass`
+    async listForQuestionsInClass(userId: string, apClass: string, questionIds: string[]): Promise<QuestionAttemptRow[]> {
+      if (questionIds.length === 0) {
+        return [];
+      }
+      const questions = await getClassQuestions(apClass, questionIds);
+      return selectIn<QuestionAttemptRow>(driver, 'question_attempts', 'question_id', [...questions.keys()], { user_id: userId });
+    },
+
+    // Attempts in `apClass` whose next review is due by `dueBy`, oldest due date first
+    async listDueReviews(userId: string, apClass: string, dueBy: string, limit: number): Promise<DueReviewRow[]> {
+      const due = await driver.select<QuestionAttemptRow>(
+        'question_attempts',
+        { user_id: userId, review_due_at: { lte: dueBy } },
+        { orderBy: { column: 'review_due_at' } }
+      );
+      const questions = await getClassQuestions(apClass, due.map(attempt => attempt.question_id));
+
+      return due
+        .filter(attempt => questions.has(attempt.question_id))
+        .slice(0, limit)
+        .map(attempt => {
+          const { ap_class, unit_name, subtopic_name } = questions.get(attempt.question_id)!;
+          return { ...attempt, question: { ap_class, unit_name, subtopic_name } };
+        });
+    },
+
+    async create(values: Partial<QuestionAttemptRow>): Promise<QuestionAttemptRow> {
+      const [attempt] = await driver.insert<QuestionAttemptRow>('question_attempts', values);
+      return attempt;
+    },
+
+    async update(id: string, values: Partial<QuestionAttemptRow>): Promise<QuestionAttemptRow | null> {
+      const [attempt] = await driver.update<QuestionAttemptRow>('question_attempts', { id }, values);
+      return attempt ?? null;
+    }
+  };
+}
+
+export type AttemptRepository = ReturnType<typeof createAttemptRepository>;
@@ -0,0 +1,21 @@
+import { StorageDriver } from '../storage/types.js';
+import { ItemCalibrationRow } from './types.js';
+
+// Fitted item difficulties for ability estimates (item_calibrations)
+export function createCalibrationRepository(driver: StorageDriver) {
+  return {
+    async listForClass(apClass: string): Promise<ItemCalibrationRow[]> {
+      return driver.select<ItemCalibrationRow>('item_calibrations', { ap_class: apClass });
+    },
+
+    async save(rows: Omit<ItemCalibrationRow, 'calibrated_at'>[]): Promise<void> {
+      if (rows.length === 0) {
+        return;
+      }
+      const calibratedAt = new Date().toISOString();
+      await driver.upsert('item_calibrations', rows.map(row => ({ ...row, calibrated_at: calibratedAt })), ['item_key']);
+    }
+  };
+}
+
+export type CalibrationRepository = ReturnType<typeof createCalibrationRepository>;
@@ -0,0 +1,66 @@
+import { StorageDriver } from '../storage/types.js';
+import { selectIn } from './selectIn.js';
+import { ClassRow, ClassStudent, StudentProfile, UserRow } from './types.js';
+
+const PROFILE_COLUMNS = ['id', 'username', 'first_name', 'last_name', 'nickname', 'display_preference'];
+
+// Teacher-created classes and their rosters (class_students)
+export function createClassRepository(driver: StorageDriver) {
+  async function listStudentIds(classId: string): Promise<string[]> {
+    const rows = await driver.select<{ student_id: string }>('class_students', { class_id: classId }, { columns: ['student_id'] });
+    return rows.map(row => row.student_id);
+  }
+
+  return {
+    async findByCode(code: string): Promise<ClassRow | null> {
+      return driver.selectOne<ClassRow>('classes', { class_code: code });
+    },
+
+    async isCodeTaken(code: string): Promise<boolean> {
+      return !!(await driver.selectOne('classes', { class_code: code }, { columns: ['id'] }));
+    },
+
+    async create(values: Partial<ClassRow>): Promise<ClassRow> {
+      const [created] = await driver.insert<ClassRow>('classes', values);
+      return created;
+    },
+
+    // Newest first
+    async listForTeacher(teacherId: string): Promise<ClassRow[]> {
+      return driver.select<ClassRow>('classes', { teacher_id: teacherId }, { orderBy: { column: 'created_at', ascending: false } });
+    },
+
+    async listForStudent(studentId: string): Promise<ClassRow[]> {
+      const enrollments = await driver.select<{ class_id: string }>('class_students', { student_id: studentId }, { columns: ['class_id'] });
+      return selectIn<ClassRow>(driver, 'classes', 'id', enrollments.map(row => row.class_id));
+    },
+
+    async isEnrolled(classId: string, studentId: string | undefined): Promise<boolean> {
+      if (!studentId) {
+        return false;
+      }
+      return !!(await driver.selectOne('class_students', { class_id: classId, student_id: studentId }));
+    },
+
+    async enroll(classId: string, studentId: string): Promise<void> {
+      await driver.insert('class_students', { class_id: classId, student_id: studentId });
+    },
+
+    listStudentIds,
+
+    async countStudents(classId: string): Promise<number> {
+      return driver.count('class_students', { class_id: classId });
+    },
+
+    // Enrolled students with the profile fields used to name them
+    async listStudents(classId: string): Promise<ClassStudent[]> {
+      const studentIds = await listStudentIds(classId);
+      const profiles = await selectIn<StudentProfile & Pick<UserRow, 'id'>>(driver, 'users', 'id', studentIds, {}, {
+        columns: PROFILE_COLUMNS
+      });
+      return profiles.map(({ id, ...profile }) => ({ student_id: id, profile }));
+    }
+  };
+}
+
+export type ClassRepository = ReturnType<typeof createClassRepository>;
@@ -0,0 +1,26 @@
+import { StorageDriver } from '../storage/types.js';
+import { ClientRequestRow } from './types.js';
+
+// Idempotency keys for writes replayed from the offline outbox
+export function createClientRequestRepository(driver: StorageDriver) {
+  return {
+    // Throws a StorageError with code UNIQUE_VIOLATION when the id was already claimed
+    async claim(clientId: string, userId: string, kind: string): Promise<void> {
+      await driver.insert('client_requests', { client_id: clientId, user_id: userId, kind });
+    },
+
+    async find(clientId: string): Promise<ClientRequestRow | null> {
+      return driver.selectOne<ClientRequestRow>('client_requests', { client_id: clientId });
+    },
+
+    async saveResponse(clientId: string, response: unknown): Promise<void> {
+      await driver.update('client_requests', { client_id: clientId }, { response });
+    },
+
+    async release(clientId: string): Promise<void> {
+      await driver.delete('client_requests', { client_id: clientId });
+    }
+  };
+}
+
+export type ClientRequestRepository = ReturnType<typeof createClientRequestRepository>;
@@ -0,0 +1,54 @@
+import { StorageDriver, Where } from '../storage/types.js';
+import { selectIn } from './selectIn.js';
+import { FreeResponseRow } from './types.js';
+
+export interface FreeResponseFilters {
+  questionId?: string;
+  apTestAttemptId?: string;
+}
+
+// Answers to free-response questions (frq_responses)
+export function createFreeResponseRepository(driver: StorageDriver) {
+  return {
+    async findById(id: string): Promise<FreeResponseRow | null> {
+      return driver.selectOne<FreeResponseRow>('frq_responses', { id });
+    },
+
+    async create(rows: Partial<FreeResponseRow>[]): Promise<FreeResponseRow[]> {
+      return rows.length > 0 ? driver.insert<FreeResponseRow>('frq_responses', rows) : [];
+    },
+
+    async update(id: string, values: Partial<FreeResponseRow>): Promise<FreeResponseRow | null> {
+      const [row] = await driver.update<FreeResponseRow>('frq_responses', { id }, values);
+      return row || null;
+    },
+
+    // Newest first
+    async listForUser(userId: string, filters: FreeResponseFilters = {}): Promise<FreeResponseRow[]> {
+      const where: Where = { user_id: userId };
+      if (filters.questionId) where.question_id = filters.questionId;
+      if (filters.apTestAttemptId) where.ap_test_attempt_id = filters.apTestAttemptId;
+      return driver.select<FreeResponseRow>('frq_responses', where, {
+        orderBy: { column: 'submitted_at', ascending: false }
+      });
+    },
+
+    async listForAttempts(attemptIds: string[]): Promise<FreeResponseRow[]> {
+      return selectIn<FreeResponseRow>(driver, 'frq_responses', 'ap_test_attempt_id', attemptIds);
+    },
+
+    // Oldest first, so the grading queue is worked through in order
+    async listForUsers(userIds: string[], ungradedOnly: boolean): Promise<FreeResponseRow[]> {
+      const rows = await selectIn<FreeResponseRow>(
+        driver,
+        'frq_responses',
+        'user_id',
+        userIds,
+        ungradedOnly ? { graded_at: null } : {}
+      );
+      return rows.sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
+    }
+  };
+}
+
+export type FreeResponseRepository = ReturnType<typeof createFreeResponseRepository>;
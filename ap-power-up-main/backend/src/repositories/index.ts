@@ -0,0 +1,42 @@
+import { storage } from '../config/storage.js';
+import { StorageDriver } from '../storage/types.js';
+import { createAPTestRepository } from './apTests.js';
+import { createAssignmentRepository } from './assignments.js';
+import { createAttemptRepository } from './attempts.js';
+import { createCalibrationRepository } from './calibrations.js';
+import { createClassRepository } from './classes.js';
+import { createClientRequestRepository } from './clientRequests.js';
+import { createFreeResponseRepository } from './freeResponses.js';
+import { createLeaderboardRepository } from './leaderboard.js';
+import { createQuestionRepository } from './questions.js';
+import { createQuizRepository } from './quizzes.js';
+import { createScoreRepository } from './scores.js';
+import { createStreakRepository } from './streaks.js';
+import { createUserRepository } from './users.js';
+
+export * from './types.js';
+export { EARNED_POINTS_SOURCES } from './scores.js';
+export type { NewPointsEntry } from './scores.js';
+
+export function createRepositories(driver: StorageDriver) {
+  return {
+    users: createUserRepository(driver),
+    scores: createScoreRepository(driver),
+    streaks: createStreakRepository(driver),
+    questions: createQuestionRepository(driver),
+    attempts: createAttemptRepository(driver),
+    freeResponses: createFreeResponseRepository(driver),
+    calibrations: createCalibrationRepository(driver),
+    quizzes: createQuizRepository(driver),
+    classes: createClassRepository(driver),
+    assignments: createAssignmentRepository(driver),
+    apTests: createAPTestRepository(driver),
+    leaderboard: createLeaderboardRepository(driver),
+    clientRequests: createClientRequestRepository(driver)
+  };
+}
+
+export type Repositories = ReturnType<typeof createRepositories>;
+
+// Repositories on the driver selected by STORAGE_DRIVER
+export const db = createRepositories(storage);
@@ -0,0 +1,76 @@
+import { StorageDriver } from '../storage/types.js';
+import { selectIn } from './selectIn.js';
+import { EARNED_POINTS_SOURCES } from './scores.js';
+import { ClassScoreRow, LeaderboardEntry } from './types.js';
+
+type LeaderboardUser = LeaderboardEntry['user'];
+
+const USER_COLUMNS = ['id', 'username', 'first_name', 'last_name', 'nickname', 'display_preference', 'streak', 'show_rank_publicly'];
+
+export function createLeaderboardRepository(driver: StorageDriver) {
+  function getStudents(userIds: string[]): Promise<LeaderboardUser[]> {
+    return selectIn<LeaderboardUser>(driver, 'users', 'id', userIds, { role: 'student' }, { columns: USER_COLUMNS });
+  }
+
+  // Pair scores with their students, highest score first; teachers are left out
+  async function toEntries(scores: ClassScoreRow[]): Promise<LeaderboardEntry[]> {
+    if (scores.length === 0) {
+      return [];
+    }
+    const students = new Map((await getStudents(scores.map(score => score.user_id))).map(user => [user.id, user]));
+    return scores
+      .filter(score => students.has(score.user_id))
+      .map(score => ({ user: students.get(score.user_id)!, score: score.score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Each student's points earned in apClass on or after `since` (a points date), summed
+  // in the database (class_points_since), highest first
+  async function sumPointsSince(
+    apClass: string,
+    since: string,
+    options: { userIds?: string[]; limit?: number }
+  ): Promise<ClassScoreRow[]> {
+    const totals = await driver.rpc<Pick<ClassScoreRow, 'user_id' | 'score'>>('class_points_since', {
+      p_ap_class: apClass,
+      p_since: since,
+      p_sources: EARNED_POINTS_SOURCES,
+      p_user_ids: options.userIds,
+      p_limit: options.limit
+    });
+    return totals.map(({ user_id, score }) => ({ user_id, ap_class: apClass, score }));
+  }
+
+  return {
+    // Students only, picked in the database (class_top_scores) so teachers don't take up places
+    async listTop(apClass: string, limit: number): Promise<LeaderboardEntry[]> {
+      const scores = await driver.rpc<Pick<ClassScoreRow, 'user_id' | 'score'>>('class_top_scores', {
+        p_ap_class: apClass,
+        p_limit: limit
+      });
+      return toEntries(scores.map(({ user_id, score }) => ({ user_id, ap_class: apClass, score })));
+    },
+
+    async listForUsers(apClass: string, userIds: string[]): Promise<LeaderboardEntry[]> {
+      const scores = await selectIn<ClassScoreRow>(driver, 'user_class_scores', 'user_id', userIds, { ap_class: apClass }, {
+        columns: ['user_id', 'ap_class', 'score']
+      });
+      return toEntries(scores);
+    },
+
+    // Rank by the points earned in apClass on or after `since` (a points date); decay
+    // and adjustments only change all-time scores
+    async listTopSince(apClass: string, since: string, limit: number): Promise<LeaderboardEntry[]> {
+      return toEntries(await sumPointsSince(apClass, since, { limit }));
+    },
+
+    async listForUsersSince(apClass: string, userIds: string[], since: string): Promise<LeaderboardEntry[]> {
+      if (userIds.length === 0) {
+        return [];
+      }
+      return toEntries(await sumPointsSince(apClass, since, { userIds }));
+    }
+  };
+}
+
+export type LeaderboardRepository = ReturnType<typeof createLeaderboardRepository>;
@@ -0,0 +1,109 @@
+import { StorageDriver, Where } from '../storage/types.js';
+import { selectIn } from './selectIn.js';
+import { QuestionRevisionRow, QuestionRow } from './types.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface QuestionFilters {
+  apClass?: string;
+  unit?: string;
+  subtopic?: string;
+}
+
+export function createQuestionRepository(driver: StorageDriver) {
+  return {
+    async list(filters: QuestionFilters = {}): Promise<QuestionRow[]> {
+      const where: Where = {};
+      if (filters.apClass) where.ap_class = filters.apClass;
+      if (filters.unit) where.unit_name = filters.unit;
+      if (filters.subtopic) where.subtopic_name = filters.subtopic;
+
+      return driver.select<QuestionRow>('questions', where, { orderBy: { column: 'created_at' } });
+    },
+
+    // A class's question bank grouped by unit, for exports
+    async listForExport(apClass: string): Promise<QuestionRow[]> {
+      return driver.select<QuestionRow>('questions', { ap_class: apClass }, {
+        orderBy: [{ column: 'unit_name' }, { column: 'created_at' }]
+      });
+    },
+
+    // Ids of the questions in a class, optionally narrowed to units and subtopics
+    async listApClasses(): Promise<string[]> {
+      const rows = await driver.select<{ ap_class: string }>('questions', {}, { columns: ['ap_class'] });
+      return [...new Set(rows.map(row => row.ap_class))];
+    },
+
+    async listIds(apClass: string, units: string[] = [], subtopics: string[] = []): Promise<string[]> {
+      const where: Where = { ap_class: apClass };
+      if (units.length > 0) where.unit_name = { in: units };
+      if (subtopics.length > 0) where.subtopic_name = { in: subtopics };
+
+      const rows = await driver.select<{ id: string }>('questions', where, { columns: ['id'] });
+      return rows.map(row => row.id);
+    },
+
+    async findById(id: string): Promise<QuestionRow | null> {
+      return driver.selectOne<QuestionRow>('questions', { id });
+    },
+
+    // Ids of questions from public/data are not UUIDs, and match none
+    async findByIds(ids: string[]): Promise<QuestionRow[]> {
+      return selectIn<QuestionRow>(driver, 'questions', 'id', ids.filter(id => UUID_PATTERN.test(id)));
+    },
+
+    async findBySourceIds(sourceIds: string[]): Promise<QuestionRow[]> {
+      return selectIn<QuestionRow>(driver, 'questions', 'source_id', sourceIds);
+    },
+
+    async create(values: Partial<QuestionRow>): Promise<QuestionRow> {
+      const [question] = await driver.insert<QuestionRow>('questions', values);
+      return question;
+    },
+
+    async update(id: string, values: Partial<QuestionRow>): Promise<QuestionRow | null> {
+      const [question] = await driver.update<QuestionRow>('questions', { id }, {
+        ...values,
+        updated_at: new Date().toISOString()
+      });
+      return question ?? null;
+    },
+
+    // Insert new questions and overwrite existing ones with the same source_id
+    async upsertBySourceId(rows: Partial<QuestionRow>[]): Promise<QuestionRow[]> {
+      return driver.upsert<QuestionRow>(
+        'questions',
+        rows.map(row => ({ ...row, updated_at: new Date().toISOString() })),
+        ['source_id']
+      );
+    },
+
+    async listRevisions(questionId: string): Promise<QuestionRevisionRow[]> {
+      return driver.select<QuestionRevisionRow>('question_revisions', { question_id: questionId }, {
+        orderBy: { column: 'revision_number', ascending: false }
+      });
+    },
+
+    async findRevision(questionId: string, revisionNumber: number): Promise<QuestionRevisionRow | null> {
+      return driver.selectOne<QuestionRevisionRow>('question_revisions', {
+        question_id: questionId,
+        revision_number: revisionNumber
+      });
+    },
+
+    async getLatestRevisionNumber(questionId: string): Promise<number> {
+      const latest = await driver.selectOne<Pick<QuestionRevisionRow, 'revision_number'>>(
+        'question_revisions',
+        { question_id: questionId },
+        { columns: ['revision_number'], orderBy: { column: 'revision_number', ascending: false } }
+      );
+      return latest?.revision_number || 0;
+    },
+
+    async addRevisions(rows: Partial<QuestionRevisionRow>[]): Promise<QuestionRevisionRow[]> {
+      return driver.insert<QuestionRevisionRow>('question_revisions', rows);
+    }
+  };
+}
+
+export type QuestionRepository = ReturnType<typeof createQuestionRepository>;
@@ -0,0 +1,41 @@
+import { StorageDriver, Where } from '../storage/types.js';
+import { selectIn } from './selectIn.js';
+import { QuizProgressRow, QuizResultRow } from './types.js';
+
+export function createQuizRepository(driver: StorageDriver) {
+  return {
+    async createResult(values: Partial<QuizResultRow>): Promise<QuizResultRow> {
+      const [result] = await driver.insert<QuizResultRow>('quiz_results', values);
+      return result;
+    },
+
+    // Newest first
+    async listResults(userId: string, apClass?: string): Promise<QuizResultRow[]> {
+      const where: Where = { user_id: userId };
+      if (apClass) where.ap_class = apClass;
+      return driver.select<QuizResultRow>('quiz_results', where, { orderBy: { column: 'timestamp', ascending: false } });
+    },
+
+    // Results of several students in one class, oldest first
+    async listResultsForUsers(apClass: string, userIds: string[]): Promise<QuizResultRow[]> {
+      const results = await selectIn<QuizResultRow>(driver, 'quiz_results', 'user_id', userIds, { ap_class: apClass });
+      return results.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    },
+
+    async findProgress(userId: string, apClass: string, unit: string): Promise<QuizProgressRow | null> {
+      return driver.selectOne<QuizProgressRow>('quiz_progress', { user_id: userId, ap_class: apClass, unit });
+    },
+
+    // One in-progress quiz per user, class and unit
+    async saveProgress(values: Partial<QuizProgressRow>): Promise<QuizProgressRow> {
+      const [progress] = await driver.upsert<QuizProgressRow>('quiz_progress', values, ['user_id', 'ap_class', 'unit']);
+      return progress;
+    },
+
+    async clearProgress(userId: string, apClass: string, unit: string): Promise<void> {
+      await driver.delete('quiz_progress', { user_id: userId, ap_class: apClass, unit });
+    }
+  };
+}
+
+export type QuizRepository = ReturnType<typeof createQuizRepository>;
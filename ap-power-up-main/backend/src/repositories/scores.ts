@@ -0,0 +1,100 @@
+import { StorageDriver } from '../storage/types.js';
+import { ClassScoreRow, PointsEntryRow, PointsSource } from './types.js';
+
+// Sources that count as points earned, for the daily cap and the windowed leaderboards
+export const EARNED_POINTS_SOURCES: PointsSource[] = ['attempt', 'session_bonus', 'legacy'];
+
+export interface NewPointsEntry {
+  userId: string;
+  apClass: string;
+  date: string;
+  points: number;
+  source: PointsSource;
+  details?: Record<string, unknown>;
+  note?: string;
+  createdBy?: string;
+}
+
+// Per-class scores (user_class_scores) and the points ledger behind them (daily_points),
+// which also feeds the daily cap and the windowed leaderboards
+export function createScoreRepository(driver: StorageDriver) {
+  return {
+    async getClassScore(userId: string, apClass: string): Promise<number | null> {
+      const row = await driver.selectOne<ClassScoreRow>('user_class_scores', { user_id: userId, ap_class: apClass });
+      return row ? row.score : null;
+    },
+
+    async listClassScores(userId: string): Promise<ClassScoreRow[]> {
+      return driver.select<ClassScoreRow>('user_class_scores', { user_id: userId }, {
+        columns: ['user_id', 'ap_class', 'score']
+      });
+    },
+
+    async setClassScore(userId: string, apClass: string, score: number): Promise<void> {
+      await driver.upsert('user_class_scores', {
+        user_id: userId,
+        ap_class: apClass,
+        score,
+        updated_at: new Date().toISOString()
+      }, ['user_id', 'ap_class']);
+    },
+
+    // Start classes at 0 points, leaving existing scores alone
+    async initClassScores(userId: string, apClasses: string[]): Promise<void> {
+      if (apClasses.length === 0) {
+        return;
+      }
+      const existing = await driver.select<ClassScoreRow>(
+        'user_class_scores',
+        { user_id: userId, ap_class: { in: apClasses } },
+        { columns: ['ap_class'] }
+      );
+      const scored = new Set(existing.map(row => row.ap_class));
+      await driver.insert('user_class_scores', apClasses
+        .filter(apClass => !scored.has(apClass))
+        .map(apClass => ({ user_id: userId, ap_class: apClass, score: 0 })));
+    },
+
+    async getDailyPoints(userId: string, date: string): Promise<number> {
+      const rows = await driver.select<{ points: number }>('daily_points', {
+        user_id: userId,
+        date,
+        source: { in: EARNED_POINTS_SOURCES }
+      }, { columns: ['points'] });
+      return rows.reduce((sum, row) => sum + row.points, 0);
+    },
+
+    async addEntry(entry: NewPointsEntry): Promise<PointsEntryRow> {
+      const [row] = await driver.insert<PointsEntryRow>('daily_points', {
+        user_id: entry.userId,
+        ap_class: entry.apClass,
+        date: entry.date,
+        points: entry.points,
+        source: entry.source,
+        details: entry.details ?? null,
+        note: entry.note ?? null,
+        created_by: entry.createdBy ?? null
+      });
+      return row;
+    },
+
+    // Newest first
+    async listEntries(userId: string, options: { apClass?: string; limit: number }): Promise<PointsEntryRow[]> {
+      return driver.select<PointsEntryRow>('daily_points', {
+        user_id: userId,
+        ...(options.apClass ? { ap_class: options.apClass } : {})
+      }, {
+        orderBy: { column: 'created_at', ascending: false },
+        limit: options.limit
+      });
+    },
+
+    // Sum of a user's entries per class, for rebuilding their scores; summed in the
+    // database (class_point_totals)
+    async sumClassEntries(userId: string): Promise<{ ap_class: string; points: number }[]> {
+      return driver.rpc<{ ap_class: string; points: number }>('class_point_totals', { p_user_id: userId });
+    }
+  };
+}
+
+export type ScoreRepository = ReturnType<typeof createScoreRepository>;
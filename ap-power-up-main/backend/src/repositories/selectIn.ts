@@ -0,0 +1,67 @@
+import { SelectOptions, StorageDriver, Where } from '../storage/types.js';
+
+// PostgREST puts `in` filters in the URL, so long id lists are looked up in chunks.
+// Rows come back in chunk order; callers that need a global order sort afterwards.
+const IN_CHUNK_SIZE = 200;
+// PostgREST also returns at most 1000 rows per request, so reads that can return more
+// are fetched a page at a time
+const PAGE_SIZE = 500;
+
+export async function selectIn<T>(
+  driver: StorageDriver,
+  table: string,
+  column: string,
+  values: readonly unknown[],
+  where: Where = {},
+  options: SelectOptions = {}
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < values.length; i += IN_CHUNK_SIZE) {
+    rows.push(...await driver.select<T>(table, { ...where, [column]: { in: values.slice(i, i + IN_CHUNK_SIZE) } }, options));
+  }
+  return rows;
+}
+
+/**
+ * Every row matching `where`, read a page at a time in id order
+ * @param pageSize - Rows read per query
+ */
+export async function selectAll<T extends { id: string }>(
+  driver: StorageDriver,
+  table: string,
+  where: Where = {},
+  options: Pick<SelectOptions, 'columns'> = {},
+  pageSize: number = PAGE_SIZE
+): Promise<T[]> {
+  const rows: T[] = [];
+  let afterId: string | null = null;
+  for (;;) {
+    const page: T[] = await driver.select<T>(table, afterId ? { ...where, id: { gt: afterId } } : where, {
+      ...options,
+      orderBy: { column: 'id' },
+      limit: pageSize
+    });
+    rows.push(...page);
+    if (page.length < pageSize) {
+      return rows;
+    }
+    afterId = page[page.length - 1].id;
+  }
+}
+
+// selectIn for lookups that can match more rows than one request returns
+export async function selectAllIn<T extends { id: string }>(
+  driver: StorageDriver,
+  table: string,
+  column: string,
+  values: readonly unknown[],
+  where: Where = {},
+  options: Pick<SelectOptions, 'columns'> = {},
+  pageSize: number = PAGE_SIZE
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < values.length; i += IN_CHUNK_SIZE) {
+    rows.push(...await selectAll<T>(driver, table, { ...where, [column]: { in: values.slice(i, i + IN_CHUNK_SIZE) } }, options, pageSize));
+  }
+  return rows;
+}
@@ -0,0 +1,38 @@
+import { StorageDriver } from '../storage/types.js';
+import { StreakDayRow } from './types.js';
+
+// The days each user practiced or used a streak freeze (streak_days)
+export function createStreakRepository(driver: StorageDriver) {
+  return {
+    async findLastDay(userId: string): Promise<StreakDayRow | null> {
+      return driver.selectOne<StreakDayRow>('streak_days', { user_id: userId }, {
+        orderBy: { column: 'day', ascending: false },
+        limit: 1
+      });
+    },
+
+    async recordPractice(userId: string, day: string, questionsAnswered: number): Promise<void> {
+      await driver.upsert('streak_days', {
+        user_id: userId,
+        day,
+        questions_answered: questionsAnswered,
+        frozen: false
+      }, ['user_id', 'day']);
+    },
+
+    async recordFreezes(userId: string, days: string[]): Promise<void> {
+      if (days.length > 0) {
+        await driver.insert('streak_days', days.map(day => ({ user_id: userId, day, frozen: true })));
+      }
+    },
+
+    // Days from `since` (inclusive), oldest first
+    async listDays(userId: string, since: string): Promise<StreakDayRow[]> {
+      return driver.select<StreakDayRow>('streak_days', { user_id: userId, day: { gte: since } }, {
+        orderBy: { column: 'day', ascending: true }
+      });
+    }
+  };
+}
+
+export type StreakRepository = ReturnType<typeof createStreakRepository>;
@@ -0,0 +1,289 @@
+// Row shapes of the tables in src/migrations, as both storage drivers return them
+
+import { FreeResponsePart, RubricScores } from '../../../shared/freeResponse.js';
+import { AnswerKey, QuestionType } from '../../../shared/itemTypes.js';
+
+export type UserRole = 'student' | 'teacher';
+export type DisplayPreference = 'realName' | 'nickname';
+
+export interface UserRow {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  nickname: string | null;
+  display_preference: DisplayPreference;
+  role: UserRole;
+  streak: number;
+  longest_streak: number;
+  streak_freezes: number;
+  timezone: string;
+  last_quiz_date: string | null;
+  last_decay_timestamp: string | null;
+  show_leaderboard: boolean;
+  show_rank: boolean;
+  show_rank_publicly: boolean;
+  track_confidence: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A user with the AP classes and per-class scores the API returns alongside the profile
+export interface UserProfile extends UserRow {
+  apClasses: string[];
+  classScores: Record<string, number>;
+}
+
+export interface QuestionOption {
+  id: string;
+  content: string;
+}
+
+export interface QuestionRow {
+  id: string;
+  source_id: string | null;
+  question_type: QuestionType;
+  question_text: string;
+  options: QuestionOption[]; // Empty for numeric and free response
+  correct_answer_id: string; // Multiple choice only; empty otherwise
+  answer_key: AnswerKey | null; // Multi-select, numeric, ordering and matching only
+  parts: FreeResponsePart[] | null; // Free response only
+  explanation: string | null;
+  ap_class: string;
+  unit_name: string;
+  subtopic_name: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+// The editable part of a questions row, as stored in question_revisions.snapshot
+export interface QuestionSnapshot {
+  question_type: QuestionType;
+  question_text: string;
+  options: QuestionOption[];
+  correct_answer_id: string;
+  answer_key: AnswerKey | null;
+  parts: FreeResponsePart[] | null;
+  explanation: string | null;
+  unit_name: string;
+  subtopic_name: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface QuestionRevisionRow {
+  id: string;
+  question_id: string;
+  revision_number: number;
+  snapshot: QuestionSnapshot;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface QuestionAttemptRow {
+  id: string;
+  user_id: string;
+  question_id: string;
+  attempts: number;
+  correct_attempts: number;
+  streak: number;
+  last_attempt_timestamp: number | null;
+  time_spent_seconds: number;
+  status: 'unanswered' | 'correct' | 'incorrect';
+  is_correct: boolean;
+  credit: number | null; // Of the latest answer, from 0 to 1; null before partial credit
+  confidence: number | null;
+  last_practiced_at: string | null;
+  metadata: Record<string, unknown> | null;
+  review_ease_factor: number;
+  review_interval_days: number;
+  review_repetitions: number;
+  review_due_at: string | null;
+}
+
+// A due review with the question fields the review queue groups by
+export interface DueReviewRow extends QuestionAttemptRow {
+  question: Pick<QuestionRow, 'ap_class' | 'unit_name' | 'subtopic_name'>;
+}
+
+// An answer to a free-response question with its self-score and teacher grade
+export interface FreeResponseRow {
+  id: string;
+  user_id: string;
+  question_id: string;
+  ap_test_attempt_id: string | null;
+  answers: Record<string, string>;
+  time_spent_seconds: number | null;
+  points_possible: number;
+  self_scores: RubricScores | null;
+  self_points: number | null;
+  teacher_scores: RubricScores | null;
+  teacher_points: number | null;
+  feedback: string | null;
+  graded_by: string | null;
+  graded_at: string | null;
+  submitted_at: string;
+}
+
+export interface QuizResultRow {
+  id: string;
+  user_id: string;
+  ap_class: string;
+  unit: string;
+  score: number;
+  total_questions: number;
+  points_earned: number | null;
+  timestamp: string;
+}
+
+export interface QuizProgressRow {
+  id: string;
+  user_id: string;
+  ap_class: string;
+  unit: string;
+  current_index: number;
+  correct_answers: number;
+  answered_questions: number[];
+  points_earned: number;
+  session_correct_answers: number;
+  session_total_answered: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClassRow {
+  id: string;
+  class_code: string;
+  teacher_id: string;
+  ap_class_name: string;
+  leaderboard_enabled: boolean;
+  created_at: string;
+}
+
+export type StudentProfile = Pick<UserRow, 'username' | 'first_name' | 'last_name' | 'nickname' | 'display_preference'>;
+
+export interface ClassStudent {
+  student_id: string;
+  profile: StudentProfile;
+}
+
+export interface ClassScoreRow {
+  user_id: string;
+  ap_class: string;
+  score: number;
+}
+
+// What changed a class score. 'legacy' rows are daily totals from before awards were
+// itemized, 'opening_balance' rows the scores earned before the ledger was complete
+export type PointsSource = 'attempt' | 'session_bonus' | 'decay' | 'adjustment' | 'opening_balance' | 'legacy';
+
+// One entry of the points ledger (daily_points)
+export interface PointsEntryRow {
+  id: string;
+  user_id: string;
+  ap_class: string | null;
+  date: string;
+  points: number;
+  source: PointsSource;
+  details: Record<string, unknown> | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A day in a user's streak calendar, in their own time zone
+export interface StreakDayRow {
+  user_id: string;
+  day: string;
+  questions_answered: number;
+  frozen: boolean;
+}
+
+export interface LeaderboardEntry {
+  user: Pick<UserRow, 'id' | 'username' | 'first_name' | 'last_name' | 'nickname' | 'display_preference' | 'streak' | 'show_rank_publicly'>;
+  score: number;
+}
+
+export interface APTestQuestionRow {
+  id: string;
+  test_id: string;
+  ap_class: string;
+  question_text: string;
+  options: unknown;
+  correct_answer: string;
+  skill_type: string | null;
+  difficulty: string | null;
+  estimated_time_seconds: number | null;
+  tags: string[];
+  question_order: number;
+  created_at: string;
+}
+
+// A fitted item difficulty (item_calibrations)
+export interface ItemCalibrationRow {
+  item_key: string;
+  ap_class: string;
+  difficulty: number;
+  responses: number;
+  calibrated_at: string;
+}
+
+export interface APTestAttemptRow {
+  id: string;
+  user_id: string;
+  ap_class: string;
+  test_id: string;
+  start_timestamp: string;
+  end_timestamp: string;
+  total_time_used_seconds: number;
+  responses: unknown[];
+  summary: Record<string, unknown>;
+  created_at: string;
+}
+
+// An AP test in progress; `state` is the test interface's state as the client saved it
+export interface APTestSessionRow {
+  id: string;
+  user_id: string;
+  ap_class: string;
+  test_id: string;
+  assignment_id: string | null;
+  allow_pause: boolean;
+  start_timestamp: string;
+  state: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AssignmentRow {
+  id: string;
+  class_id: string;
+  title: string;
+  assignment_type: 'practice' | 'ap_test';
+  units: string[] | null;
+  subtopics: string[] | null;
+  question_ids: string[] | null;
+  question_count: number | null;
+  ap_test_id: number | null;
+  allow_pause: boolean; // AP tests only; false for proctored runs
+  due_at: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface SubmissionRow {
+  assignment_id: string;
+  student_id: string;
+  score: number;
+  total_questions: number;
+  completed_at: string;
+}
+
+export interface ClientRequestRow {
+  client_id: string;
+  user_id: string;
+  kind: string;
+  response: unknown;
+  created_at: string;
+}
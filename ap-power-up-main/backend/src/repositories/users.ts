@@ -0,0 +1,120 @@
+import { StorageDriver } from '../storage/types.js';
+import { UserProfile, UserRole, UserRow } from './types.js';
+
+export function createUserRepository(driver: StorageDriver) {
+  async function findById(id: string): Promise<UserRow | null> {
+    return driver.selectOne<UserRow>('users', { id });
+  }
+
+  async function getApClasses(userId: string): Promise<string[]> {
+    const rows = await driver.select<{ ap_class: string }>('user_ap_classes', { user_id: userId }, { columns: ['ap_class'] });
+    return rows.map(row => row.ap_class);
+  }
+
+  async function getClassScores(userId: string): Promise<Record<string, number>> {
+    const rows = await driver.select<{ ap_class: string; score: number }>(
+      'user_class_scores',
+      { user_id: userId },
+      { columns: ['ap_class', 'score'] }
+    );
+    const scores: Record<string, number> = {};
+    rows.forEach(row => {
+      scores[row.ap_class] = row.score;
+    });
+    return scores;
+  }
+
+  return {
+    findById,
+
+    // One page of user ids in id order, starting after afterId (see listDecayTimestamps)
+    async listIds(afterId: string | null, limit: number): Promise<string[]> {
+      const rows = await driver.select<Pick<UserRow, 'id'>>('users', afterId ? { id: { gt: afterId } } : {}, {
+        columns: ['id'],
+        orderBy: { column: 'id' },
+        limit
+      });
+      return rows.map(row => row.id);
+    },
+
+    // One page of users in id order, starting after afterId; PostgREST caps a response
+    // at 1000 rows, so callers page through every user
+    async listDecayTimestamps(
+      afterId: string | null,
+      limit: number
+    ): Promise<Pick<UserRow, 'id' | 'created_at' | 'last_decay_timestamp'>[]> {
+      return driver.select('users', afterId ? { id: { gt: afterId } } : {}, {
+        columns: ['id', 'created_at', 'last_decay_timestamp'],
+        orderBy: { column: 'id' },
+        limit
+      });
+    },
+
+    // Move last_decay_timestamp on only if it is still `from`, so one of several
+    // concurrent decay runs wins; returns whether this caller did
+    async claimDecay(id: string, from: string | null, to: string): Promise<boolean> {
+      const rows = await driver.update('users', { id, last_decay_timestamp: from }, { last_decay_timestamp: to });
+      return rows.length > 0;
+    },
+
+    async findByUsername(username: string): Promise<UserRow | null> {
+      return driver.selectOne<UserRow>('users', { username });
+    },
+
+    async isNicknameTaken(nickname: string): Promise<boolean> {
+      return !!(await driver.selectOne('users', { nickname }, { columns: ['id'] }));
+    },
+
+    async getRole(id: string | undefined): Promise<UserRole | null> {
+      if (!id) {
+        return null;
+      }
+      const row = await driver.selectOne<Pick<UserRow, 'role'>>('users', { id }, { columns: ['role'] });
+      return row?.role ?? null;
+    },
+
+    async create(values: Partial<UserRow>): Promise<UserRow> {
+      const [user] = await driver.insert<UserRow>('users', values);
+      return user;
+    },
+
+    async update(id: string, values: Partial<UserRow>): Promise<UserRow | null> {
+      const [user] = await driver.update<UserRow>('users', { id }, values);
+      return user ?? null;
+    },
+
+    getApClasses,
+
+    async hasApClass(userId: string, apClass: string): Promise<boolean> {
+      return !!(await driver.selectOne('user_ap_classes', { user_id: userId, ap_class: apClass }));
+    },
+
+    async addApClasses(userId: string, apClasses: string[]): Promise<void> {
+      await driver.upsert(
+        'user_ap_classes',
+        apClasses.map(apClass => ({ user_id: userId, ap_class: apClass })),
+        ['user_id', 'ap_class']
+      );
+    },
+
+    async removeApClasses(userId: string, apClasses: string[]): Promise<void> {
+      if (apClasses.length > 0) {
+        await driver.delete('user_ap_classes', { user_id: userId, ap_class: { in: apClasses } });
+      }
+    },
+
+    getClassScores,
+
+    // The user row with AP classes and class scores, as the API returns it
+    async getProfile(id: string): Promise<UserProfile | null> {
+      const [user, apClasses, classScores] = await Promise.all([
+        findById(id),
+        getApClasses(id),
+        getClassScores(id)
+      ]);
+      return user ? { ...user, apClasses, classScores } : null;
+    }
+  };
+}
+
+export type UserRepository = ReturnType<typeof createUserRepository>;
@@ -1,44 +1,50 @@
 import express from 'express';
-import { supabaseAdmin } from '../config/supabase.js';
-import { AppError } from '../utils/errors.js';
-import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { db, APTestSessionRow } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { authenticate, identify, AuthRequest } from '../middleware/auth.js';
+import { runOnce } from '../services/idempotency.js';
+import { gradeAPTest, gradeAPTestResponses, hideAPTestAnswerKey, summarizeAPTestAttempt } from '../services/grading.js';
+import {
+  attachFreeResponseSummaries,
+  buildAPTestFreeResponses,
+  saveAPTestFreeResponses
+} from '../services/freeResponses.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import {
+  ApClassFilterQuery,
+  ApClassFilterQuerySchema,
+  APTestAttemptBody,
+  APTestAttemptBodySchema,
+  APTestAttemptSchema,
+  APTestGradeSchema,
+  APTestListingSchema,
+  APTestQuestionSchema,
+  APTestSessionBody,
+  APTestSessionBodySchema,
+  APTestSessionSchema,
+  GradeAnswersBody,
+  GradeAnswersBodySchema,
+  SuccessSchema
+} from '../../../shared/apiSchemas.js';
 
 const router = express.Router();
 
 // Get available AP tests for a class
-router.get('/:apClass', async (req, res, next) => {
+router.get('/:apClass', operation({ name: 'getTests', response: APTestListingSchema.array() }), async (req, res, next) => {
   try {
     const { apClass } = req.params;
 
     // Get distinct test IDs for this class
-    const { data: tests, error } = await supabaseAdmin
-      .from('ap_test_questions')
-      .select('test_id')
-      .eq('ap_class', apClass)
-      .order('test_id', { ascending: true });
-
-    if (error) {
-      throw new AppError(400, `Failed to fetch AP tests: ${error.message}`);
-    }
-
-    // Get unique test IDs
-    const uniqueTestIds = [...new Set(tests?.map(t => t.test_id) || [])];
+    const testIds = await db.apTests.listTestIds(apClass).catch(failWith('Failed to fetch AP tests'));
 
     // Get question count for each test
     const testData = await Promise.all(
-      uniqueTestIds.map(async (testId) => {
-        const { count } = await supabaseAdmin
-          .from('ap_test_questions')
-          .select('*', { count: 'exact', head: true })
-          .eq('test_id', testId)
-          .eq('ap_class', apClass);
-
-        return {
-          test_id: testId,
-          ap_class: apClass,
-          question_count: count || 0
-        };
-      })
+      testIds.map(async (testId) => ({
+        test_id: testId,
+        ap_class: apClass,
+        question_count: await db.apTests.countQuestions(apClass, testId)
+      }))
     );
 
     res.json(testData);
@@ -47,66 +53,115 @@ router.get('/:apClass', async (req, res, next) => {
   }
 });
 
-// Get AP test questions
-router.get('/:apClass/:testId/questions', async (req, res, next) => {
+// Get AP test questions. Answer keys are only sent to teachers; students get
+// them from the grade endpoint once they have submitted the test.
+router.get('/:apClass/:testId/questions', operation({ name: 'getTestQuestions', response: APTestQuestionSchema.array() }), identify, async (req: AuthRequest, res, next) => {
+  try {
+    const { apClass, testId } = req.params;
+
+    const questions = await db.apTests
+      .listQuestions(apClass, testId)
+      .catch(failWith('Failed to fetch AP test questions'));
+
+    const isTeacher = req.userId !== undefined && (await db.users.getRole(req.userId)) === 'teacher';
+    res.json(isTeacher ? questions : questions.map(hideAPTestAnswerKey));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Grade a submitted AP test and reveal its answer key. Students can only grade a test
+// once they have submitted it (POST /api/ap-tests/attempts).
+// Body: { answers: [{ questionId: question number, selectedOptionId }] }
+router.post('/:apClass/:testId/grade', operation({ name: 'gradeTest', response: APTestGradeSchema }), authenticate, validate({ body: GradeAnswersBodySchema }), async (req: AuthRequest, res, next) => {
   try {
     const { apClass, testId } = req.params;
+    const { answers }: GradeAnswersBody = req.body;
 
-    const { data: questions, error } = await supabaseAdmin
-      .from('ap_test_questions')
-      .select('*')
-      .eq('ap_class', apClass)
-      .eq('test_id', testId)
-      .order('question_order', { ascending: true });
+    const questions = await db.apTests
+      .listQuestions(apClass, testId)
+      .catch(failWith('Failed to fetch AP test questions'));
+
+    if (questions.length === 0) {
+      throw new AppError(404, 'AP test not found');
+    }
+
+    if ((await db.users.getRole(req.userId!)) !== 'teacher') {
+      const attempts = await db.apTests
+        .listAttempts(req.userId!, apClass)
+        .catch(failWith('Failed to fetch AP test attempts'));
+      if (!attempts.some(attempt => attempt.test_id === testId)) {
+        throw new AppError(403, 'Submit the test before grading it');
+      }
+    }
 
-    if (error) {
-      throw new AppError(400, `Failed to fetch AP test questions: ${error.message}`);
+    const answersByNumber: Record<number, string | null> = {};
+    for (const { questionId, selectedOptionId } of answers) {
+      answersByNumber[Number(questionId)] = selectedOptionId ?? null;
     }
 
-    res.json(questions || []);
+    const grades = gradeAPTest(questions, answersByNumber);
+
+    res.json({
+      correctAnswers: grades.filter(grade => grade.isCorrect).length,
+      totalQuestions: grades.length,
+      questions: grades
+    });
   } catch (error) {
     next(error);
   }
 });
 
 // Save AP test attempt
-router.post('/attempts', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/attempts', operation({ name: 'saveAttempt', response: APTestAttemptSchema, status: 201 }), authenticate, validate({ body: APTestAttemptBodySchema }), async (req: AuthRequest, res, next) => {
   try {
-    const attempt = req.body;
+    const attempt: APTestAttemptBody = req.body;
 
     // Verify user can only save their own attempts
     if (attempt.userId !== req.userId) {
       throw new AppError(403, 'Forbidden');
     }
 
-    const { data: savedAttempt, error } = await supabaseAdmin
-      .from('ap_test_attempts')
-      .insert({
-        id: attempt.id,
-        user_id: attempt.userId,
-        ap_class: attempt.apClass,
-        test_id: attempt.testId,
-        start_timestamp: attempt.startTimestamp,
-        end_timestamp: attempt.endTimestamp,
-        total_time_used_seconds: attempt.totalTimeUsedSeconds,
-        responses: attempt.responses,
-        summary: attempt.summary
-      })
-      .select()
-      .single();
+    // Free-response answers are kept for self-scoring and the teacher's grading queue
+    const freeResponses = await buildAPTestFreeResponses(attempt.userId, attempt.responses);
 
-    if (error || !savedAttempt) {
-      throw new AppError(400, `Failed to save AP test attempt: ${error?.message}`);
-    }
+    // The server grades what it holds keys for, so the client never needs them first
+    const [testQuestions, bankQuestions] = await Promise.all([
+      db.apTests.listQuestions(attempt.apClass, String(attempt.testId)),
+      db.questions.findByIds([...new Set(attempt.responses.flatMap(response => response.sourceQuestionId ?? []))])
+    ]).catch(failWith('Failed to fetch AP test questions'));
+    const graded = gradeAPTestResponses(attempt.responses, testQuestions, bankQuestions);
+
+    const { response } = await runOnce(attempt.userId, attempt.clientId, 'ap_test_attempt', async () => {
+      const saved = await db.apTests
+        .createAttempt({
+          id: attempt.id,
+          user_id: attempt.userId,
+          ap_class: attempt.apClass,
+          test_id: String(attempt.testId),
+          start_timestamp: attempt.startTimestamp,
+          end_timestamp: attempt.endTimestamp,
+          total_time_used_seconds: attempt.totalTimeUsedSeconds,
+          responses: graded ?? attempt.responses,
+          summary: graded ? summarizeAPTestAttempt(attempt, graded) : attempt.summary
+        })
+        .catch(failWith('Failed to save AP test attempt'));
+      await saveAPTestFreeResponses(saved.id, freeResponses);
+      // The test is finished, so it can no longer be resumed
+      await db.apTests
+        .clearSession(attempt.userId, attempt.apClass, String(attempt.testId))
+        .catch(failWith('Failed to clear AP test session'));
+      return saved;
+    });
 
-    res.status(201).json(savedAttempt);
+    res.status(201).json(response);
   } catch (error) {
     next(error);
   }
 });
 
-// Get user's AP test attempts
-router.get('/attempts/:userId', authenticate, async (req: AuthRequest, res, next) => {
+// Get user's AP test attempts, with free-response points in their summaries
+router.get('/attempts/:userId', operation({ name: 'getAttempts', response: APTestAttemptSchema.array() }), authenticate, validate({ query: ApClassFilterQuerySchema }), async (req: AuthRequest, res, next) => {
   try {
     const { userId } = req.params;
 
@@ -115,25 +170,121 @@ router.get('/attempts/:userId', authenticate, async (req: AuthRequest, res, next
       throw new AppError(403, 'Forbidden');
     }
 
-    const { apClass } = req.query;
+    const { apClass } = req.query as ApClassFilterQuery;
 
-    let query = supabaseAdmin
-      .from('ap_test_attempts')
-      .select('*')
-      .eq('user_id', userId)
-      .order('start_timestamp', { ascending: false });
+    const attempts = await db.apTests
+      .listAttempts(userId, apClass)
+      .catch(failWith('Failed to fetch AP test attempts'));
 
-    if (apClass) {
-      query = query.eq('ap_class', apClass as string);
+    res.json(await attachFreeResponseSummaries(attempts));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Seconds since the session was last saved, which proctored sessions count against the clock
+function withAwaySeconds(session: APTestSessionRow) {
+  return {
+    ...session,
+    away_seconds: Math.max(0, Math.floor((Date.now() - Date.parse(session.updated_at)) / 1000))
+  };
+}
+
+// Autosave an AP test in progress. Whether it can be paused is fixed when it starts:
+// AP test assignments a teacher proctors (allowPause off) keep their clock running, and
+// cannot be restarted until they are submitted.
+// Body: { userId, attemptId, apClass, testId, assignmentId?, startTimestamp, state }
+router.post('/sessions', operation({ name: 'saveSession', response: APTestSessionSchema }), authenticate, validate({ body: APTestSessionBodySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const session: APTestSessionBody = req.body;
+
+    // Verify user can only save their own sessions
+    if (session.userId !== req.userId) {
+      throw new AppError(403, 'Forbidden');
     }
 
-    const { data: attempts, error } = await query;
+    const testId = String(session.testId);
+    const existing = await db.apTests
+      .findSession(session.userId, session.apClass, testId)
+      .catch(failWith('Failed to fetch AP test session'));
+    // Saving under the same attempt id continues the session; another id starts the test over
+    const continuing = existing?.id === session.attemptId ? existing : null;
+
+    if (existing && !continuing && !existing.allow_pause) {
+      throw new AppError(409, 'This proctored AP test is already in progress. Resume it instead.');
+    }
 
-    if (error) {
-      throw new AppError(400, `Failed to fetch AP test attempts: ${error.message}`);
+    let allowPause = continuing ? continuing.allow_pause : true;
+    if (!continuing && session.assignmentId) {
+      const assignment = await db.assignments.findById(session.assignmentId);
+      if (!assignment || !(await db.classes.isEnrolled(assignment.class_id, req.userId))) {
+        throw new AppError(404, 'Assignment not found');
+      }
+      allowPause = assignment.allow_pause;
     }
 
-    res.json(attempts || []);
+    const saved = await db.apTests
+      .saveSession({
+        id: session.attemptId,
+        user_id: session.userId,
+        ap_class: session.apClass,
+        test_id: testId,
+        assignment_id: continuing ? continuing.assignment_id : session.assignmentId || null,
+        allow_pause: allowPause,
+        start_timestamp: continuing ? continuing.start_timestamp : session.startTimestamp || new Date().toISOString(),
+        state: session.state
+      })
+      .catch(failWith('Failed to save AP test session'));
+
+    res.json(withAwaySeconds(saved));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get user's AP tests in progress, most recently saved first
+router.get('/sessions/:userId', operation({ name: 'getSessions', response: APTestSessionSchema.array() }), authenticate, validate({ query: ApClassFilterQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { userId } = req.params;
+
+    // Verify user can only get their own sessions
+    if (userId !== req.userId) {
+      throw new AppError(403, 'Forbidden');
+    }
+
+    const { apClass } = req.query as ApClassFilterQuery;
+
+    const sessions = await db.apTests
+      .listSessions(userId, apClass)
+      .catch(failWith('Failed to fetch AP test sessions'));
+
+    res.json(sessions.map(withAwaySeconds));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Discard an AP test in progress to start it over. Proctored sessions can only end by
+// being submitted.
+router.delete('/sessions/:userId/:apClass/:testId', operation({ name: 'clearSession', response: SuccessSchema }), authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { userId, apClass, testId } = req.params;
+
+    // Verify user can only delete their own sessions
+    if (userId !== req.userId) {
+      throw new AppError(403, 'Forbidden');
+    }
+
+    const session = await db.apTests
+      .findSession(userId, apClass, testId)
+      .catch(failWith('Failed to fetch AP test session'));
+    if (session && !session.allow_pause) {
+      throw new AppError(403, 'Proctored AP tests cannot be restarted');
+    }
+
+    await db.apTests.clearSession(userId, apClass, testId).catch(failWith('Failed to clear AP test session'));
+
+    res.json({ success: true, message: 'AP test session cleared' });
   } catch (error) {
     next(error);
   }
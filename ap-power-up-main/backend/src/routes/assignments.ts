@@ -0,0 +1,292 @@
+import express from 'express';
+import { db, AssignmentRow, ClassRow, SubmissionRow } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requestLog } from '../middleware/requestLogger.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import { getAssignmentStatus, isSubmissionLate, pickAssignmentQuestions } from '../../../shared/assignments.js';
+import {
+  Assignment,
+  AssignmentProgress,
+  AssignmentProgressSchema,
+  AssignmentSchema,
+  AssignmentSubmission,
+  AssignmentSubmissionSchema,
+  NewAssignment,
+  NewAssignmentSchema,
+  SubmitAssignmentBody,
+  SubmitAssignmentBodySchema,
+  SuccessSchema
+} from '../../../shared/apiSchemas.js';
+
+// Mounted at /api/classes/:code/assignments
+const router = express.Router({ mergeParams: true });
+
+interface ClassAccess {
+  classData: ClassRow;
+  isTeacher: boolean;
+}
+
+// Resolve the class and check that the caller teaches it or is enrolled in it
+async function getClassAccess(code: string, userId: string | undefined): Promise<ClassAccess> {
+  const classData = await db.classes.findByCode(code);
+
+  if (!classData) {
+    throw new AppError(404, 'Class not found');
+  }
+
+  if (classData.teacher_id === userId) {
+    return { classData, isTeacher: true };
+  }
+
+  if (!(await db.classes.isEnrolled(classData.id, userId))) {
+    throw new AppError(403, 'You are not a member of this class');
+  }
+
+  return { classData, isTeacher: false };
+}
+
+async function getAssignment(classId: string, assignmentId: string): Promise<AssignmentRow> {
+  const assignment = await db.assignments.find(classId, assignmentId);
+
+  if (!assignment) {
+    throw new AppError(404, 'Assignment not found');
+  }
+
+  return assignment;
+}
+
+function formatSubmission(submission: SubmissionRow, dueAt: string): AssignmentSubmission {
+  return {
+    assignmentId: submission.assignment_id,
+    studentId: submission.student_id,
+    score: submission.score,
+    totalQuestions: submission.total_questions,
+    completedAt: submission.completed_at,
+    isLate: isSubmissionLate(dueAt, submission.completed_at)
+  };
+}
+
+function formatAssignment(assignment: AssignmentRow, classData: ClassAccess['classData']): Assignment {
+  return {
+    id: assignment.id,
+    classCode: classData.class_code,
+    apClassName: classData.ap_class_name,
+    title: assignment.title,
+    assignmentType: assignment.assignment_type,
+    units: assignment.units || [],
+    subtopics: assignment.subtopics || [],
+    questionIds: assignment.question_ids || [],
+    questionCount: assignment.question_count,
+    apTestId: assignment.ap_test_id,
+    allowPause: assignment.allow_pause,
+    dueAt: assignment.due_at,
+    createdBy: assignment.created_by,
+    createdAt: assignment.created_at
+  };
+}
+
+// List assignments for a class, soonest due first. Teachers get completion
+// counts, students get their own submission.
+router.get('/', operation({ name: 'getAssignments', response: AssignmentSchema.array() }), authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { classData, isTeacher } = await getClassAccess(req.params.code, req.userId);
+
+    const assignments = await db.assignments
+      .list(classData.id)
+      .catch(failWith('Failed to fetch assignments'));
+
+    // Teachers see every submission, students only their own
+    const submissions = await db.assignments
+      .listSubmissions(assignments.map(a => a.id), isTeacher ? undefined : req.userId)
+      .catch(failWith('Failed to fetch submissions'));
+
+    const studentCount = isTeacher ? await db.classes.countStudents(classData.id) : 0;
+
+    res.json(assignments.map((assignment) => {
+      const assignmentSubmissions = submissions.filter(s => s.assignment_id === assignment.id);
+      if (isTeacher) {
+        return {
+          ...formatAssignment(assignment, classData),
+          completedCount: assignmentSubmissions.length,
+          studentCount
+        };
+      }
+      const own = assignmentSubmissions[0];
+      return {
+        ...formatAssignment(assignment, classData),
+        submission: own ? formatSubmission(own, assignment.due_at) : null,
+        status: getAssignmentStatus(assignment.due_at, own?.completed_at)
+      };
+    }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create an assignment (class teacher only)
+router.post('/', operation({ name: 'createAssignment', response: AssignmentSchema, status: 201 }), authenticate, validate({ body: NewAssignmentSchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { classData, isTeacher } = await getClassAccess(req.params.code, req.userId);
+
+    if (!isTeacher) {
+      throw new AppError(403, 'Only the class teacher can create assignments');
+    }
+
+    const {
+      title,
+      assignmentType = 'practice',
+      units = [],
+      subtopics = [],
+      questionCount,
+      apTestId,
+      dueAt,
+      allowPause = true
+    }: NewAssignment = req.body;
+
+    // The schema requires questionCount for practice and apTestId for AP tests
+    let questionIds: string[] = [];
+    let count: number | null = null;
+    let testId: number | null = null;
+
+    if (assignmentType === 'practice') {
+      const matchingIds = await db.questions
+        .listIds(classData.ap_class_name, units, subtopics)
+        .catch(failWith('Failed to fetch questions'));
+      if (matchingIds.length === 0) {
+        throw new AppError(400, 'No questions match the selected units and subtopics');
+      }
+
+      questionIds = pickAssignmentQuestions(matchingIds, questionCount!);
+      count = questionIds.length;
+    } else {
+      testId = apTestId!;
+    }
+
+    const assignment = await db.assignments
+      .create({
+        class_id: classData.id,
+        title,
+        assignment_type: assignmentType,
+        units,
+        subtopics,
+        question_ids: questionIds,
+        question_count: count,
+        ap_test_id: testId,
+        // Proctored AP tests keep their clock running; practice has no clock to pause
+        allow_pause: assignmentType === 'ap_test' ? allowPause : true,
+        due_at: new Date(dueAt).toISOString(),
+        created_by: req.userId
+      })
+      .catch(failWith('Failed to create assignment'));
+
+    requestLog(res).info('assignment.created', { classCode: classData.class_code, assignmentId: assignment.id, type: assignmentType });
+
+    res.status(201).json(formatAssignment(assignment, classData));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Per-student completion, score and late status (class teacher only)
+router.get('/:assignmentId/progress', operation({ name: 'getProgress', response: AssignmentProgressSchema }), authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { classData, isTeacher } = await getClassAccess(req.params.code, req.userId);
+
+    if (!isTeacher) {
+      throw new AppError(403, 'Only the class teacher can view assignment progress');
+    }
+
+    const assignment = await getAssignment(classData.id, req.params.assignmentId);
+
+    const [students, submissions] = await Promise.all([
+      db.classes.listStudents(classData.id).catch(failWith('Failed to fetch class students')),
+      db.assignments.listSubmissions([assignment.id]).catch(failWith('Failed to fetch submissions'))
+    ]);
+
+    const now = Date.now();
+    const progress = students.map(({ student_id, profile }) => {
+      const displayName = profile.display_preference === 'realName'
+        ? `${profile.first_name} ${profile.last_name}`.trim() || profile.username
+        : profile.nickname || profile.username;
+      const submission = submissions.find((s: SubmissionRow) => s.student_id === student_id);
+
+      return {
+        studentId: student_id,
+        displayName,
+        status: getAssignmentStatus(assignment.due_at, submission?.completed_at, now),
+        score: submission?.score ?? null,
+        totalQuestions: submission?.total_questions ?? null,
+        completedAt: submission?.completed_at ?? null
+      };
+    }).sort((a, b) => (a.displayName || '').localeCompare(b.displayName || ''));
+
+    const response: AssignmentProgress = {
+      assignment: formatAssignment(assignment, classData),
+      students: progress
+    };
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Record a student's completion. Only the first submission counts; repeats
+// return the stored one so retried requests are harmless.
+router.post('/:assignmentId/submit', operation({ name: 'submit', response: AssignmentSubmissionSchema, status: 201 }), authenticate, validate({ body: SubmitAssignmentBodySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { classData, isTeacher } = await getClassAccess(req.params.code, req.userId);
+
+    if (isTeacher) {
+      throw new AppError(403, 'Only students can submit assignments');
+    }
+
+    const assignment = await getAssignment(classData.id, req.params.assignmentId);
+    const { score, totalQuestions }: SubmitAssignmentBody = req.body;
+
+    const existing = await db.assignments.findSubmission(assignment.id, req.userId!);
+
+    if (existing) {
+      res.json(formatSubmission(existing, assignment.due_at));
+      return;
+    }
+
+    const submission = await db.assignments
+      .createSubmission({
+        assignment_id: assignment.id,
+        student_id: req.userId!,
+        score,
+        total_questions: totalQuestions,
+        completed_at: new Date().toISOString()
+      })
+      .catch(failWith('Failed to submit assignment'));
+
+    requestLog(res).info('assignment.submitted', { assignmentId: assignment.id, studentId: req.userId, score, totalQuestions });
+
+    res.status(201).json(formatSubmission(submission, assignment.due_at));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete an assignment and its submissions (class teacher only)
+router.delete('/:assignmentId', operation({ name: 'deleteAssignment', response: SuccessSchema }), authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { classData, isTeacher } = await getClassAccess(req.params.code, req.userId);
+
+    if (!isTeacher) {
+      throw new AppError(403, 'Only the class teacher can delete assignments');
+    }
+
+    const assignment = await getAssignment(classData.id, req.params.assignmentId);
+
+    await db.assignments.delete(assignment.id).catch(failWith('Failed to delete assignment'));
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
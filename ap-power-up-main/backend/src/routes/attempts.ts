@@ -1,167 +1,202 @@
 import express from 'express';
-import { supabaseAdmin } from '../config/supabase.js';
-import { AppError } from '../utils/errors.js';
+import { db, QuestionAttemptRow } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { AnswerEvent, applyPoints, scoreAttempt } from '../services/scoring.js';
+import { getNextReviewColumns } from '../services/review.js';
+import { runOnce } from '../services/idempotency.js';
+import { getCredit, gradeQuestion } from '../services/grading.js';
+import { requestLog } from '../middleware/requestLogger.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import { isKeyedQuestionType, ItemAnswer } from '../../../shared/itemTypes.js';
+import {
+  AttemptsQuery,
+  AttemptsQuerySchema,
+  QuestionAttemptSchema,
+  RecordAttemptBody,
+  RecordAttemptBodySchema,
+  RecordedAttemptSchema
+} from '../../../shared/apiSchemas.js';
+import { recordPracticeDay } from '../services/streaks.js';
 
 const router = express.Router();
 
-// Record question attempt
-router.post('/', authenticate, async (req: AuthRequest, res, next) => {
+// Record question attempt and award points for it. The response carries the question's
+// key and explanation, which students only get once their answer is recorded.
+router.post('/', operation({ name: 'recordAttempt', response: RecordedAttemptSchema }), authenticate, validate({ body: RecordAttemptBodySchema }), async (req: AuthRequest, res, next) => {
   try {
     const {
       userId,
       questionId,
-      isCorrect,
       timeSpentSeconds,
       selectedOptionId,
+      answer,
       confidence,
-      timestamp
-    } = req.body;
+      timestamp,
+      clientId
+    }: RecordAttemptBody = req.body;
 
     // Verify user can only record their own attempts
     if (userId !== req.userId) {
       throw new AppError(403, 'Forbidden');
     }
 
-    // Get existing attempt
-    const { data: existing, error: fetchError } = await supabaseAdmin
-      .from('question_attempts')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('question_id', questionId)
-      .single();
-    
-    // Log for debugging
-    console.log(`[ATTEMPTS] Recording attempt - userId: ${userId}, questionId: ${questionId}, existing: ${existing ? 'yes' : 'no'}, fetchError: ${fetchError?.code || 'none'}`);
-
-    const now = Date.now();
-    const attemptTimestamp = timestamp ? new Date(timestamp).toISOString() : new Date().toISOString();
-
-    // Round time_spent_seconds to integer (database column is INTEGER)
-    const roundedTimeSpent = Math.round(timeSpentSeconds || 0);
-
-    let result;
-    if (existing) {
-      // Update existing attempt
-      const newAttempts = existing.attempts + 1;
-      const newCorrectAttempts = isCorrect 
-        ? existing.correct_attempts + 1 
-        : existing.correct_attempts;
-      const newStreak = isCorrect 
-        ? existing.streak + 1 
-        : 0;
-
-      // Update metadata (answer events)
-      const metadata = existing.metadata || {};
-      const answerEvents = metadata.answer_events || [];
-      answerEvents.push({
-        timestamp: attemptTimestamp,
-        optionId: selectedOptionId,
-        confidence: confidence ?? undefined
-      });
+    // Replays from the offline outbox must not count the attempt (or its points) twice
+    const { response } = await runOnce(userId, clientId, 'question_attempt', async () => {
+      // Points are credited to the question's class, never to a client-supplied one
+      const question = await db.questions.findById(questionId);
 
-      const { data, error } = await supabaseAdmin
-        .from('question_attempts')
-        .update({
-          attempts: newAttempts,
-          correct_attempts: newCorrectAttempts,
-          streak: newStreak,
-          last_attempt_timestamp: now,
-          time_spent_seconds: (existing.time_spent_seconds || 0) + roundedTimeSpent,
-          status: isCorrect ? 'correct' : 'incorrect',
-          is_correct: isCorrect,
-          confidence: confidence ?? null,
-          last_practiced_at: attemptTimestamp,
-          metadata: {
-            ...metadata,
-            answer_events: answerEvents
-          }
-        })
-        .eq('id', existing.id)
-        .select()
-        .single();
-
-      if (error || !data) {
-        console.error(`[ATTEMPTS] Failed to update attempt:`, error);
-        throw new AppError(400, `Failed to update question attempt: ${error?.message}`);
-      }
-      result = data;
-      console.log(`[ATTEMPTS] Successfully updated attempt - userId: ${userId}, questionId: ${questionId}, attempts: ${result.attempts}`);
-    } else {
-      // Create new attempt
-      const { data, error } = await supabaseAdmin
-        .from('question_attempts')
-        .insert({
-          user_id: userId,
-          question_id: questionId,
-          attempts: 1,
-          correct_attempts: isCorrect ? 1 : 0,
-          streak: isCorrect ? 1 : 0,
-          last_attempt_timestamp: now,
-          time_spent_seconds: roundedTimeSpent,
-          status: isCorrect ? 'correct' : 'incorrect',
-          is_correct: isCorrect,
-          confidence: confidence ?? null,
-          last_practiced_at: attemptTimestamp,
-          metadata: {
-            answer_events: selectedOptionId ? [{
-              timestamp: attemptTimestamp,
-              optionId: selectedOptionId,
-              confidence: confidence ?? undefined
-            }] : []
-          }
-        })
-        .select()
-        .single();
-
-      if (error || !data) {
-        console.error(`[ATTEMPTS] Failed to record new attempt:`, error);
-        throw new AppError(400, `Failed to record question attempt: ${error?.message}`);
+      if (!question) {
+        throw new AppError(404, 'Question not found');
       }
-      result = data;
-      console.log(`[ATTEMPTS] Successfully recorded new attempt - userId: ${userId}, questionId: ${questionId}, attempts: ${result.attempts}`);
-    }
 
-    // After recording an attempt, update the user's DAILY streak based on answering any question
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('last_quiz_date, streak')
-      .eq('id', userId)
-      .single();
-
-    if (user) {
-      const today = new Date().toDateString();
-      const lastQuizDay = user.last_quiz_date ? new Date(user.last_quiz_date).toDateString() : null;
-      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toDateString();
-
-      let newStreak = user.streak || 0;
-      if (lastQuizDay === yesterday) {
-        // Continuing streak
-        newStreak += 1;
-      } else if (lastQuizDay !== today) {
-        // New streak (gap or first question of the day)
-        newStreak = 1;
+      // The answer key decides: an attempt without an answer (or chosen option) earns
+      // no credit, and only full credit counts as correct
+      const submitted: ItemAnswer | undefined = answer !== undefined
+        ? answer
+        : typeof selectedOptionId === 'string' ? selectedOptionId : undefined;
+      const credit = getCredit(question, submitted);
+      const isCorrect = credit === 1;
+      const isKeyed = isKeyedQuestionType(question.question_type);
+
+      // Get existing attempt
+      const existing = await db.attempts.find(userId, questionId);
+
+      const now = Date.now();
+      const attemptTimestamp = timestamp ? new Date(timestamp).toISOString() : new Date(now).toISOString();
+
+      // Round time_spent_seconds to integer (database column is INTEGER)
+      const roundedTimeSpent = Math.round(timeSpentSeconds || 0);
+
+      // Count today towards the user's streak before scoring, so today's answer
+      // counts towards the streak multiplier
+      const user = await db.users.findById(userId);
+
+      if (user) {
+        await recordPracticeDay(user, now);
       }
-      await supabaseAdmin
-        .from('users')
-        .update({
-          last_quiz_date: new Date().toISOString(),
-          streak: newStreak
-        })
-        .eq('id', userId);
-    }
 
-    res.json({
-      attemptNumber: result.attempts,
-      ...result
+      const metadata = existing?.metadata || {};
+      const previousCorrectTimestamps = (metadata.correct_timestamps as string[] | undefined) || [];
+      const attemptNumber = existing ? existing.attempts + 1 : 1;
+
+      const scoring = await scoreAttempt({
+        userId,
+        isCorrect,
+        credit,
+        attemptNumber,
+        timeSpentSeconds: timeSpentSeconds || 0,
+        previousCorrectTimestamps,
+        now
+      });
+
+      const answerEvent: AnswerEvent = {
+        timestamp: attemptTimestamp,
+        optionId: isKeyed ? undefined : typeof submitted === 'string' ? submitted : selectedOptionId ?? undefined,
+        ...(isKeyed && { answer: submitted ?? null }),
+        timeSpentSeconds: roundedTimeSpent,
+        confidence: confidence ?? undefined,
+        isCorrect,
+        credit,
+        questionPoints: scoring.question.finalQuestionPoints,
+        pointsAwarded: scoring.award.finalAttemptPoints
+      };
+      const answerEvents: AnswerEvent[] = [...((metadata.answer_events as AnswerEvent[] | undefined) || []), answerEvent];
+      const correctTimestamps = isCorrect
+        ? [...previousCorrectTimestamps, attemptTimestamp]
+        : previousCorrectTimestamps;
+
+      // Confidence feeds the SM-2 ease factor for the next review date
+      const reviewColumns = getNextReviewColumns(existing, isCorrect, confidence, now);
+
+      let result: QuestionAttemptRow;
+      if (existing) {
+        // Update existing attempt
+        const newCorrectAttempts = isCorrect 
+          ? existing.correct_attempts + 1 
+          : existing.correct_attempts;
+        const newStreak = isCorrect 
+          ? existing.streak + 1 
+          : 0;
+
+        const updated = await db.attempts
+          .update(existing.id, {
+            attempts: attemptNumber,
+            correct_attempts: newCorrectAttempts,
+            streak: newStreak,
+            last_attempt_timestamp: now,
+            time_spent_seconds: (existing.time_spent_seconds || 0) + roundedTimeSpent,
+            status: isCorrect ? 'correct' : 'incorrect',
+            is_correct: isCorrect,
+            credit,
+            confidence: confidence ?? null,
+            last_practiced_at: attemptTimestamp,
+            ...reviewColumns,
+            metadata: {
+              ...metadata,
+              answer_events: answerEvents,
+              correct_timestamps: correctTimestamps
+            }
+          })
+          .catch(failWith('Failed to update question attempt'));
+
+        if (!updated) {
+          throw new AppError(400, 'Failed to update question attempt: attempt not found');
+        }
+        result = updated;
+      } else {
+        // Create new attempt
+        result = await db.attempts
+          .create({
+            user_id: userId,
+            question_id: questionId,
+            attempts: 1,
+            correct_attempts: isCorrect ? 1 : 0,
+            streak: isCorrect ? 1 : 0,
+            last_attempt_timestamp: now,
+            time_spent_seconds: roundedTimeSpent,
+            status: isCorrect ? 'correct' : 'incorrect',
+            is_correct: isCorrect,
+            credit,
+            confidence: confidence ?? null,
+            last_practiced_at: attemptTimestamp,
+            ...reviewColumns,
+            metadata: {
+              answer_events: answerEvents,
+              correct_timestamps: correctTimestamps
+            }
+          })
+          .catch(failWith('Failed to record question attempt'));
+      }
+      requestLog(res).debug('attempt.recorded', { userId, questionId, attempts: result.attempts, credit });
+
+      const newScore = await applyPoints(userId, question.ap_class, {
+        source: 'attempt',
+        details: { questionId, question: scoring.question, award: scoring.award }
+      }, scoring.date);
+
+      return {
+        attemptNumber: result.attempts,
+        ...result,
+        scoring: {
+          question: scoring.question,
+          award: scoring.award,
+          apClass: question.ap_class,
+          newScore
+        },
+        grade: gradeQuestion(question, submitted)
+      };
     });
+
+    res.json(response);
   } catch (error) {
     next(error);
   }
 });
 
 // Get all attempts for user
-router.get('/:userId', authenticate, async (req: AuthRequest, res, next) => {
+router.get('/:userId', operation({ name: 'getAttempts', response: QuestionAttemptSchema.array() }), authenticate, validate({ query: AttemptsQuerySchema }), async (req: AuthRequest, res, next) => {
   try {
     const { userId } = req.params;
 
@@ -170,34 +205,20 @@ router.get('/:userId', authenticate, async (req: AuthRequest, res, next) => {
       throw new AppError(403, 'Forbidden');
     }
 
-    const { questionId } = req.query;
-
-    let query = supabaseAdmin
-      .from('question_attempts')
-      .select('*')
-      .eq('user_id', userId);
-
-    if (questionId) {
-      query = query.eq('question_id', questionId as string);
-    }
+    const { questionId } = req.query as AttemptsQuery;
 
-    const { data: attempts, error } = await query;
+    const attempts = await db.attempts
+      .listForUser(userId, questionId)
+      .catch(failWith('Failed to fetch question attempts'));
 
-    if (error) {
-      throw new AppError(400, `Failed to fetch question attempts: ${error.message}`);
-    }
-
-    // Log for debugging
-    console.log(`[ATTEMPTS] Fetching attempts - userId: ${userId}, found: ${attempts?.length || 0} attempts`);
-
-    res.json(attempts || []);
+    res.json(attempts);
   } catch (error) {
     next(error);
   }
 });
 
 // Get attempts for specific question
-router.get('/:userId/:questionId', authenticate, async (req: AuthRequest, res, next) => {
+router.get('/:userId/:questionId', operation({ name: 'getAttempt', response: QuestionAttemptSchema.nullable() }), authenticate, async (req: AuthRequest, res, next) => {
   try {
     const { userId, questionId } = req.params;
 
@@ -206,20 +227,10 @@ router.get('/:userId/:questionId', authenticate, async (req: AuthRequest, res, n
       throw new AppError(403, 'Forbidden');
     }
 
-    const { data: attempt, error } = await supabaseAdmin
-      .from('question_attempts')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('question_id', questionId)
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        // No attempt found
-        return res.json(null);
-      }
-      throw new AppError(400, `Failed to fetch question attempt: ${error.message}`);
-    }
+    // null when the question has not been attempted
+    const attempt = await db.attempts
+      .find(userId, questionId)
+      .catch(failWith('Failed to fetch question attempt'));
 
     res.json(attempt);
   } catch (error) {
@@ -1,7 +1,21 @@
 import express from 'express';
-import { supabaseAdmin } from '../config/supabase.js';
+import { authProvider } from '../config/storage.js';
+import { db, UserRow } from '../repositories/index.js';
 import { AppError } from '../utils/errors.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { isValidTimeZone } from '../services/streaks.js';
+import { requestLog } from '../middleware/requestLogger.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import {
+  AuthResultSchema,
+  LoginBody,
+  LoginBodySchema,
+  RegisterBody,
+  RegisterBodySchema,
+  SuccessSchema,
+  UserProfileSchema
+} from '../../../shared/apiSchemas.js';
 
 const router = express.Router();
 
@@ -22,80 +36,39 @@ function generateRandomNickname(): string {
 }
 
 // Register new user
-router.post('/register', async (req, res, next) => {
+router.post('/register', operation({ name: 'register', response: AuthResultSchema, status: 201 }), validate({ body: RegisterBodySchema }), async (req, res, next) => {
   try {
-    const { username, password, role, apClasses, firstName, lastName, email } = req.body;
-
-    // #region agent log
+    const { username, password, role, apClasses, firstName, lastName, email, timezone }: RegisterBody = req.body;
     const registrationEmail = email || `${username}@example.com`;
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'auth.ts:25',message:'Register entry',data:{username:username?.toLowerCase(),email:registrationEmail,hasEmail:!!email},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C,D,E'})}).catch(()=>{});
-    // #endregion
-
-    if (!username || !password || !role) {
-      throw new AppError(400, 'Missing required fields');
-    }
 
     // Check if username exists
-    const { data: existingUser } = await supabaseAdmin
-      .from('users')
-      .select('id')
-      .eq('username', username.toLowerCase())
-      .single();
-
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'auth.ts:40',message:'Username check result',data:{username:username?.toLowerCase(),usernameExists:!!existingUser},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-    // #endregion
+    const existingUser = await db.users.findByUsername(username.toLowerCase());
 
     if (existingUser) {
       throw new AppError(400, 'Username already exists');
     }
 
-    // #region agent log
-    const { data: existingAuthUsers } = await supabaseAdmin.auth.admin.listUsers();
-    const existingAuthUser = existingAuthUsers?.users?.find(u => u.email === registrationEmail);
-    const emailExists = !!existingAuthUser;
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'auth.ts:45',message:'Email check before create',data:{email:registrationEmail,emailExistsInAuth:emailExists,authUsersCount:existingAuthUsers?.users?.length,orphanedAuthUserId:existingAuthUser?.id},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A,C'})}).catch(()=>{});
-    // #endregion
-
     // If email exists in Auth but username doesn't exist in users table, it's an orphaned auth user
     // Delete it before creating a new account
-    if (emailExists && existingAuthUser && !existingUser) {
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'auth.ts:59',message:'Cleaning up orphaned auth user',data:{orphanedAuthUserId:existingAuthUser.id,email:registrationEmail},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-      // #endregion
-      
-      const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(existingAuthUser.id);
-      
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'auth.ts:64',message:'Orphaned auth user delete result',data:{orphanedAuthUserId:existingAuthUser.id,error:deleteError?.message,success:!deleteError},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-      // #endregion
-      
+    const existingAuthUser = await authProvider.findUserByEmail(registrationEmail);
+    if (existingAuthUser) {
+      const deleteError = await authProvider.deleteUser(existingAuthUser.id).then(() => null, (error: Error) => error);
       if (deleteError) {
-        console.warn(`Failed to delete orphaned auth user ${existingAuthUser.id}:`, deleteError);
         // Continue anyway - might still work if it was already deleted
+        requestLog(res).warn('auth.orphan_delete_failed', { authUserId: existingAuthUser.id, error: deleteError });
       }
     }
 
-    // Create user in Supabase Auth
-    const { data: authData, error: authError } = await supabaseAdmin.auth.admin.createUser({
-      email: registrationEmail,
-      password,
-      email_confirm: true,
-      user_metadata: {
-        username,
-        role
-      }
-    });
-
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'auth.ts:76',message:'Auth create result',data:{email:registrationEmail,error:authError?.message,errorCode:authError?.status,success:!authError,userId:authData?.user?.id},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A,C,E'})}).catch(()=>{});
-    // #endregion
+    // Create the account with the auth provider
+    const authResult = await authProvider.createUser(registrationEmail, password, { username, role })
+      .then(user => ({ user, error: null }), (error: Error) => ({ user: null, error }));
+    const authError = authResult.error;
 
-    if (authError || !authData.user) {
+    if (authError || !authResult.user) {
       throw new AppError(400, `Failed to create user: ${authError?.message}`);
     }
 
-    const userId = authData.user.id;
+    const userId = authResult.user.id;
 
     // Generate nickname for students
     let nickname: string | undefined;
@@ -105,13 +78,7 @@ router.post('/register', async (req, res, next) => {
       let attempts = 0;
       while (!isUnique && attempts < 100) {
         nickname = generateRandomNickname();
-        const { data: existingNickname } = await supabaseAdmin
-          .from('users')
-          .select('id')
-          .eq('nickname', nickname)
-          .single();
-        
-        if (!existingNickname) {
+        if (!(await db.users.isNicknameTaken(nickname))) {
           isUnique = true;
         }
         attempts++;
@@ -123,7 +90,7 @@ router.post('/register', async (req, res, next) => {
 
     // Create user profile
     // Build insert data
-    const userInsertData: any = {
+    const userInsertData: Partial<UserRow> = {
       id: userId,
       username: username.toLowerCase(),
       first_name: firstName || '',
@@ -134,71 +101,38 @@ router.post('/register', async (req, res, next) => {
       streak: 0
     };
 
-    // Conditionally add fields that might not exist in schema
+    // Streak days follow the browser's time zone; an unknown one keeps the UTC default
+    if (isValidTimeZone(timezone)) {
+      userInsertData.timezone = timezone;
+    }
+
     if (role === 'student') {
       userInsertData.show_leaderboard = true;
       userInsertData.show_rank = true;
-      // Only include show_rank_publicly if column exists (will retry without it if needed)
       userInsertData.show_rank_publicly = true;
     }
 
-    let { data: user, error: userError } = await supabaseAdmin
-      .from('users')
-      .insert(userInsertData)
-      .select()
-      .single();
-
-    // If error is about show_rank_publicly column not existing, retry without it
-    if (userError && userError.message?.includes('show_rank_publicly')) {
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'auth.ts:143',message:'Retrying user insert without show_rank_publicly',data:{userId},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'schema'})}).catch(()=>{});
-      // #endregion
-      
-      const retryData = { ...userInsertData };
-      delete retryData.show_rank_publicly;
-      
-      const retryResult = await supabaseAdmin
-        .from('users')
-        .insert(retryData)
-        .select()
-        .single();
-      
-      user = retryResult.data;
-      userError = retryResult.error;
-    }
+    const { user, error: userError } = await db.users.create(userInsertData)
+      .then(user => ({ user, error: null }), (error: Error) => ({ user: null, error }));
 
     if (userError || !user) {
       // Clean up auth user if profile creation fails
-      await supabaseAdmin.auth.admin.deleteUser(userId);
+      await authProvider.deleteUser(userId);
       throw new AppError(400, `Failed to create user profile: ${userError?.message}`);
     }
 
     // Add AP classes
-    if (apClasses && Array.isArray(apClasses) && apClasses.length > 0) {
-      await supabaseAdmin
-        .from('user_ap_classes')
-        .insert(apClasses.map((apClass: string) => ({
-          user_id: userId,
-          ap_class: apClass
-        })));
+    if (apClasses && apClasses.length > 0) {
+      await db.users.addApClasses(userId, apClasses);
 
       // Initialize class scores
-      await supabaseAdmin
-        .from('user_class_scores')
-        .insert(apClasses.map((apClass: string) => ({
-          user_id: userId,
-          ap_class: apClass,
-          score: 0
-        })));
+      await db.scores.initClassScores(userId, apClasses);
     }
 
     // Get session token
-    const { data: sessionData, error: sessionError } = await supabaseAdmin.auth.signInWithPassword({
-      email: email || `${username}@example.com`,
-      password
-    });
+    const token = await authProvider.signIn(registrationEmail, password);
 
-    if (sessionError || !sessionData.session) {
+    if (!token) {
       // User created but session failed - still return user
       return res.status(201).json({
         success: true,
@@ -217,7 +151,7 @@ router.post('/register', async (req, res, next) => {
         ...user,
         apClasses: apClasses || []
       },
-      token: sessionData.session.access_token
+      token
     });
   } catch (error) {
     next(error);
@@ -225,55 +159,41 @@ router.post('/register', async (req, res, next) => {
 });
 
 // Login user
-router.post('/login', async (req, res, next) => {
+router.post('/login', operation({ name: 'login', response: AuthResultSchema }), validate({ body: LoginBodySchema }), async (req, res, next) => {
   try {
-    const { username, password } = req.body;
-
-    if (!username || !password) {
-      throw new AppError(400, 'Username and password required');
-    }
+    const { username, password }: LoginBody = req.body;
 
     // Find user by username
-    const { data: userData, error: userError } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('username', username.toLowerCase())
-      .single();
+    const userData = await db.users.findByUsername(username.toLowerCase());
 
-    if (userError || !userData) {
+    if (!userData) {
       throw new AppError(401, 'Invalid username or password');
     }
 
     // Get user's email from auth
-    const { data: authUser } = await supabaseAdmin.auth.admin.getUserById(userData.id);
-    if (!authUser.user?.email) {
+    const authUser = await authProvider.getUser(userData.id);
+    if (!authUser?.email) {
       throw new AppError(401, 'User email not found');
     }
 
     // Sign in with email
-    const { data: sessionData, error: sessionError } = await supabaseAdmin.auth.signInWithPassword({
-      email: authUser.user.email,
-      password
-    });
+    const token = await authProvider.signIn(authUser.email, password);
 
-    if (sessionError || !sessionData.session) {
+    if (!token) {
       throw new AppError(401, 'Invalid username or password');
     }
 
     // Get user's AP classes
-    const { data: apClasses } = await supabaseAdmin
-      .from('user_ap_classes')
-      .select('ap_class')
-      .eq('user_id', userData.id);
+    const apClasses = await db.users.getApClasses(userData.id);
 
     res.json({
       success: true,
       message: 'Login successful',
       user: {
         ...userData,
-        apClasses: apClasses?.map(c => c.ap_class) || []
+        apClasses
       },
-      token: sessionData.session.access_token
+      token
     });
   } catch (error) {
     next(error);
@@ -281,47 +201,23 @@ router.post('/login', async (req, res, next) => {
 });
 
 // Get current user
-router.get('/me', authenticate, async (req: AuthRequest, res, next) => {
+router.get('/me', operation({ name: 'getCurrentUser', response: UserProfileSchema }), authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const { data: user, error } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', req.userId)
-      .single();
+    // User row with AP classes and class scores
+    const user = await db.users.getProfile(req.userId!);
 
-    if (error || !user) {
+    if (!user) {
       throw new AppError(404, 'User not found');
     }
 
-    // Get user's AP classes
-    const { data: apClasses } = await supabaseAdmin
-      .from('user_ap_classes')
-      .select('ap_class')
-      .eq('user_id', req.userId);
-
-    // Get class scores
-    const { data: classScores } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('ap_class, score')
-      .eq('user_id', req.userId);
-
-    const scores: Record<string, number> = {};
-    classScores?.forEach(cs => {
-      scores[cs.ap_class] = cs.score;
-    });
-
-    res.json({
-      ...user,
-      apClasses: apClasses?.map(c => c.ap_class) || [],
-      classScores: scores
-    });
+    res.json(user);
   } catch (error) {
     next(error);
   }
 });
 
 // Logout (mainly client-side, but we can invalidate if needed)
-router.post('/logout', authenticate, async (req: AuthRequest, res) => {
+router.post('/logout', operation({ name: 'logout', response: SuccessSchema }), authenticate, async (req: AuthRequest, res) => {
   res.json({ success: true, message: 'Logged out successfully' });
 });
 
@@ -1,7 +1,16 @@
 import express from 'express';
-import { supabaseAdmin } from '../config/supabase.js';
-import { AppError } from '../utils/errors.js';
+import { db } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import {
+  ClassSchema,
+  CreateClassBody,
+  CreateClassBodySchema,
+  CreateClassResultSchema,
+  JoinClassResultSchema
+} from '../../../shared/apiSchemas.js';
 
 const router = express.Router();
 
@@ -16,24 +25,14 @@ function generateClassCode(): string {
 }
 
 // Create class (teacher only)
-router.post('/', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/', operation({ name: 'createClass', response: CreateClassResultSchema, status: 201 }), authenticate, validate({ body: CreateClassBodySchema }), async (req: AuthRequest, res, next) => {
   try {
     // Verify user is a teacher
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('role')
-      .eq('id', req.userId)
-      .single();
-
-    if (user?.role !== 'teacher') {
+    if ((await db.users.getRole(req.userId)) !== 'teacher') {
       throw new AppError(403, 'Only teachers can create classes');
     }
 
-    const { apClassName } = req.body;
-
-    if (!apClassName) {
-      throw new AppError(400, 'AP class name is required');
-    }
+    const { apClassName }: CreateClassBody = req.body;
 
     // Generate unique class code
     let classCode: string;
@@ -42,13 +41,7 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
 
     while (!isUnique && attempts < 100) {
       classCode = generateClassCode();
-      const { data: existing } = await supabaseAdmin
-        .from('classes')
-        .select('id')
-        .eq('class_code', classCode)
-        .single();
-
-      if (!existing) {
+      if (!(await db.classes.isCodeTaken(classCode))) {
         isUnique = true;
       }
       attempts++;
@@ -58,20 +51,14 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
       throw new AppError(500, 'Failed to generate unique class code');
     }
 
-    const { data: newClass, error } = await supabaseAdmin
-      .from('classes')
-      .insert({
+    const newClass = await db.classes
+      .create({
         class_code: classCode!,
         teacher_id: req.userId,
         ap_class_name: apClassName,
         leaderboard_enabled: true
       })
-      .select()
-      .single();
-
-    if (error || !newClass) {
-      throw new AppError(400, `Failed to create class: ${error?.message}`);
-    }
+      .catch(failWith('Failed to create class'));
 
     res.status(201).json({
       success: true,
@@ -85,17 +72,13 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
 });
 
 // Get class by code
-router.get('/:code', authenticate, async (req, res, next) => {
+router.get('/:code', operation({ name: 'getClassByCode', response: ClassSchema }), authenticate, async (req, res, next) => {
   try {
     const { code } = req.params;
 
-    const { data: classData, error } = await supabaseAdmin
-      .from('classes')
-      .select('*')
-      .eq('class_code', code)
-      .single();
+    const classData = await db.classes.findByCode(code);
 
-    if (error || !classData) {
+    if (!classData) {
       throw new AppError(404, 'Class not found');
     }
 
@@ -106,80 +89,36 @@ router.get('/:code', authenticate, async (req, res, next) => {
 });
 
 // Join class by code
-router.post('/:code/join', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/:code/join', operation({ name: 'joinClass', response: JoinClassResultSchema }), authenticate, async (req: AuthRequest, res, next) => {
   try {
     const { code } = req.params;
 
     // Verify user is a student
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('role')
-      .eq('id', req.userId)
-      .single();
-
-    if (user?.role !== 'student') {
+    if ((await db.users.getRole(req.userId)) !== 'student') {
       throw new AppError(403, 'Only students can join classes');
     }
 
     // Get class
-    const { data: classData, error: classError } = await supabaseAdmin
-      .from('classes')
-      .select('*')
-      .eq('class_code', code)
-      .single();
+    const classData = await db.classes.findByCode(code);
 
-    if (classError || !classData) {
+    if (!classData) {
       throw new AppError(404, 'Invalid class code');
     }
 
     // Check if already joined
-    const { data: existing } = await supabaseAdmin
-      .from('class_students')
-      .select('student_id')
-      .eq('class_id', classData.id)
-      .eq('student_id', req.userId)
-      .single();
-
-    if (existing) {
+    if (await db.classes.isEnrolled(classData.id, req.userId)) {
       throw new AppError(400, 'You are already in this class');
     }
 
     // Add student to class
-    const { error: joinError } = await supabaseAdmin
-      .from('class_students')
-      .insert({
-        class_id: classData.id,
-        student_id: req.userId
-      });
-
-    if (joinError) {
-      throw new AppError(400, `Failed to join class: ${joinError.message}`);
-    }
+    await db.classes.enroll(classData.id, req.userId!).catch(failWith('Failed to join class'));
 
     // Add AP class to student if not already there
-    const { data: existingApClass } = await supabaseAdmin
-      .from('user_ap_classes')
-      .select('ap_class')
-      .eq('user_id', req.userId)
-      .eq('ap_class', classData.ap_class_name)
-      .single();
-
-    if (!existingApClass) {
-      await supabaseAdmin
-        .from('user_ap_classes')
-        .insert({
-          user_id: req.userId,
-          ap_class: classData.ap_class_name
-        });
+    if (!(await db.users.hasApClass(req.userId!, classData.ap_class_name))) {
+      await db.users.addApClasses(req.userId!, [classData.ap_class_name]);
 
       // Initialize class score
-      await supabaseAdmin
-        .from('user_class_scores')
-        .insert({
-          user_id: req.userId,
-          ap_class: classData.ap_class_name,
-          score: 0
-        });
+      await db.scores.initClassScores(req.userId!, [classData.ap_class_name]);
     }
 
     res.json({
@@ -193,34 +132,41 @@ router.post('/:code/join', authenticate, async (req: AuthRequest, res, next) =>
 });
 
 // Get teacher's classes
-router.get('/teacher/:teacherId', authenticate, async (req: AuthRequest, res, next) => {
+router.get('/teacher/:teacherId', operation({ name: 'getTeacherClasses', response: ClassSchema.array() }), authenticate, async (req: AuthRequest, res, next) => {
   try {
     const { teacherId } = req.params;
 
     // Verify user is requesting their own classes or is a teacher
     if (teacherId !== req.userId) {
-      const { data: user } = await supabaseAdmin
-        .from('users')
-        .select('role')
-        .eq('id', req.userId)
-        .single();
-
-      if (user?.role !== 'teacher') {
+      if ((await db.users.getRole(req.userId)) !== 'teacher') {
         throw new AppError(403, 'Forbidden');
       }
     }
 
-    const { data: classes, error } = await supabaseAdmin
-      .from('classes')
-      .select('*')
-      .eq('teacher_id', teacherId)
-      .order('created_at', { ascending: false });
+    const classes = await db.classes
+      .listForTeacher(teacherId)
+      .catch(failWith('Failed to fetch classes'));
 
-    if (error) {
-      throw new AppError(400, `Failed to fetch classes: ${error.message}`);
+    res.json(classes);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get classes a student has joined
+router.get('/student/:studentId', operation({ name: 'getStudentClasses', response: ClassSchema.array() }), authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { studentId } = req.params;
+
+    if (studentId !== req.userId) {
+      throw new AppError(403, 'Forbidden');
     }
 
-    res.json(classes || []);
+    const classes = await db.classes
+      .listForStudent(studentId)
+      .catch(failWith('Failed to fetch classes'));
+
+    res.json(classes);
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,11 @@
+import express from 'express';
+import { getOpenApiDocument } from '../services/openapi.js';
+
+const router = express.Router();
+
+// The API's OpenAPI 3.1 document
+router.get('/', (req, res) => {
+  res.json(getOpenApiDocument());
+});
+
+export default router;
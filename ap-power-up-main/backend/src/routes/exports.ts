@@ -0,0 +1,142 @@
+import express, { Response } from 'express';
+import { db, StudentProfile } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { CsvValue, toCsv, questionsToCsv, buildQtiPackage } from '../services/exportFormats.js';
+import { requestLog } from '../middleware/requestLogger.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import { ExportQuestionsQuery, ExportQuestionsQuerySchema } from '../../../shared/apiSchemas.js';
+
+const router = express.Router();
+
+// Resolve a class the caller teaches
+async function getTeacherClass(code: string, userId: string | undefined) {
+  const classData = await db.classes.findByCode(code);
+
+  if (!classData) {
+    throw new AppError(404, 'Class not found');
+  }
+
+  if (classData.teacher_id !== userId) {
+    throw new AppError(403, 'Only the class teacher can export class data');
+  }
+
+  return classData;
+}
+
+// Enrolled students keyed by id, for naming rows in result exports
+async function getClassStudents(classId: string): Promise<Map<string, StudentProfile>> {
+  const students = await db.classes.listStudents(classId).catch(failWith('Failed to fetch class students'));
+  return new Map(students.map(student => [student.student_id, student.profile]));
+}
+
+function toFileName(...parts: string[]): string {
+  return parts.join('_').replace(/[^A-Za-z0-9_-]+/g, '_');
+}
+
+function sendFile(res: Response, fileName: string, contentType: string, body: string | Buffer) {
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(body);
+}
+
+// Export a class's question bank as CSV or an IMS QTI 2.1 package (teacher only)
+router.get('/questions', operation({ name: 'downloadQuestions', download: ['text/csv', 'application/zip'] }), authenticate, validate({ query: ExportQuestionsQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    if ((await db.users.getRole(req.userId)) !== 'teacher') {
+      throw new AppError(403, 'Only teachers can export questions');
+    }
+
+    const { apClass, format = 'csv' } = req.query as ExportQuestionsQuery;
+
+    // Both formats are written for single-answer multiple choice, so other item types are left out
+    const questions = (await db.questions.listForExport(apClass).catch(failWith('Failed to fetch questions')))
+      .filter(question => question.question_type === 'multiple_choice');
+
+    requestLog(res).info('questions.exported', { apClass, format, count: questions.length });
+
+    if (format === 'qti') {
+      sendFile(res, `${toFileName(apClass, 'qti')}.zip`, 'application/zip', buildQtiPackage(apClass, questions));
+    } else {
+      sendFile(res, `${toFileName(apClass, 'questions')}.csv`, 'text/csv; charset=utf-8', questionsToCsv(questions));
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Export quiz results for every student in a class as CSV
+router.get('/classes/:code/quiz-results', operation({ name: 'downloadQuizResults', download: ['text/csv'] }), authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const classData = await getTeacherClass(req.params.code, req.userId);
+    const students = await getClassStudents(classData.id);
+
+    const results = await db.quizzes
+      .listResultsForUsers(classData.ap_class_name, [...students.keys()])
+      .catch(failWith('Failed to fetch quiz results'));
+
+    const csv = toCsv(
+      ['username', 'first_name', 'last_name', 'unit', 'score', 'total_questions', 'percent', 'points_earned', 'completed_at'],
+      results.map((result) => {
+        const student = students.get(result.user_id);
+        return [
+          student?.username,
+          student?.first_name,
+          student?.last_name,
+          result.unit,
+          result.score,
+          result.total_questions,
+          result.total_questions > 0 ? Math.round((result.score / result.total_questions) * 100) : 0,
+          result.points_earned ?? 0,
+          result.timestamp
+        ];
+      })
+    );
+
+    sendFile(res, `${toFileName(classData.class_code, 'quiz_results')}.csv`, 'text/csv; charset=utf-8', csv);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Export AP practice test attempts for every student in a class as CSV
+router.get('/classes/:code/ap-test-attempts', operation({ name: 'downloadAPTestAttempts', download: ['text/csv'] }), authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const classData = await getTeacherClass(req.params.code, req.userId);
+    const students = await getClassStudents(classData.id);
+
+    const attempts = await db.apTests
+      .listAttemptsForUsers(classData.ap_class_name, [...students.keys()])
+      .catch(failWith('Failed to fetch AP test attempts'));
+
+    const csv = toCsv(
+      ['username', 'first_name', 'last_name', 'test_id', 'started_at', 'finished_at', 'time_used_seconds', 'total_questions', 'correct', 'incorrect', 'unanswered', 'accuracy_percent', 'predicted_ap_score'],
+      attempts.map((attempt) => {
+        const student = students.get(attempt.user_id);
+        const summary = (attempt.summary || {}) as Record<string, CsvValue>;
+        return [
+          student?.username,
+          student?.first_name,
+          student?.last_name,
+          attempt.test_id,
+          attempt.start_timestamp,
+          attempt.end_timestamp,
+          attempt.total_time_used_seconds,
+          summary.totalQuestions,
+          summary.correctAnswers,
+          summary.incorrectAnswers,
+          summary.unansweredQuestions,
+          typeof summary.overallAccuracy === 'number' ? Math.round(summary.overallAccuracy * 100) : '',
+          summary.predictedAPScore
+        ];
+      })
+    );
+
+    sendFile(res, `${toFileName(classData.class_code, 'ap_test_attempts')}.csv`, 'text/csv; charset=utf-8', csv);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
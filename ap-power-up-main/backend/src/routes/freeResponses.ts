@@ -0,0 +1,96 @@
+import express from 'express';
+import { db } from '../repositories/index.js';
+import { AppError } from '../utils/errors.js';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import {
+  getGradingQueue,
+  gradeFreeResponse,
+  listOwnFreeResponses,
+  selfScoreFreeResponse,
+  submitFreeResponse
+} from '../services/freeResponses.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import {
+  FreeResponseSchema,
+  FreeResponsesQuery,
+  FreeResponsesQuerySchema,
+  GradeFreeResponseBody,
+  GradeFreeResponseBodySchema,
+  GradingQueueItemSchema,
+  GradingQueueQuery,
+  GradingQueueQuerySchema,
+  SelfScoreBody,
+  SelfScoreBodySchema,
+  SubmitFreeResponseBody,
+  SubmitFreeResponseBodySchema
+} from '../../../shared/apiSchemas.js';
+
+const router = express.Router();
+
+async function requireTeacher(userId: string | undefined, message: string): Promise<void> {
+  if (userId === undefined || (await db.users.getRole(userId)) !== 'teacher') {
+    throw new AppError(403, message);
+  }
+}
+
+// Answer a free-response question in practice. The response comes back with the
+// question's rubric so the student can score themselves.
+// Body: { questionId, answers: { [partId]: text }, timeSpentSeconds? }
+router.post('/', operation({ name: 'submit', response: FreeResponseSchema, status: 201 }), authenticate, validate({ body: SubmitFreeResponseBodySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { questionId, answers, timeSpentSeconds }: SubmitFreeResponseBody = req.body;
+
+    res.status(201).json(await submitFreeResponse(req.userId!, questionId, answers, timeSpentSeconds ?? null));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The caller's own responses, newest first. Query: questionId, apTestAttemptId
+router.get('/', operation({ name: 'getResponses', response: FreeResponseSchema.array() }), authenticate, validate({ query: FreeResponsesQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    res.json(await listOwnFreeResponses(req.userId!, req.query as FreeResponsesQuery));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Responses of the teacher's students to a class's free-response questions, oldest
+// first (teacher only). Query: apClass, status (ungraded by default, or all)
+router.get('/queue', operation({ name: 'getQueue', response: GradingQueueItemSchema.array() }), authenticate, validate({ query: GradingQueueQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    await requireTeacher(req.userId, 'Only teachers can grade free responses');
+    const { apClass, status } = req.query as GradingQueueQuery;
+
+    res.json(await getGradingQueue(req.userId!, apClass, status !== 'all'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Score your own response against the rubric. Body: { scores: { [criterionId]: points } }
+router.post('/:id/self-score', operation({ name: 'selfScore', response: FreeResponseSchema }), authenticate, validate({ body: SelfScoreBodySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { scores }: SelfScoreBody = req.body;
+
+    res.json(await selfScoreFreeResponse(req.userId!, req.params.id, scores));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Grade a student's response (a teacher of theirs). Regrading replaces the grade.
+// Body: { scores: { [criterionId]: points }, feedback? }
+router.post('/:id/grade', operation({ name: 'grade', response: FreeResponseSchema }), authenticate, validate({ body: GradeFreeResponseBodySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    await requireTeacher(req.userId, 'Only teachers can grade free responses');
+    const { scores, feedback }: GradeFreeResponseBody = req.body;
+
+    res.json(await gradeFreeResponse(req.userId!, req.params.id, scores, feedback));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import authRoutes from './auth.js';
+import userRoutes from './users.js';
+import questionRoutes from './questions.js';
+import quizRoutes from './quizzes.js';
+import attemptRoutes from './attempts.js';
+import leaderboardRoutes from './leaderboard.js';
+import classRoutes from './classes.js';
+import apTestRoutes from './ap-tests.js';
+import reviewRoutes from './review.js';
+import exportRoutes from './exports.js';
+import assignmentRoutes from './assignments.js';
+import freeResponseRoutes from './freeResponses.js';
+
+export interface ApiRoutes {
+  path: string; // Under /api
+  router: Router;
+  tag: string; // OpenAPI tag; the generated client has an `${tag}Api` object per tag
+}
+
+// Mounted in this order, so the assignments of a class match before the class routes
+export const apiRoutes: ApiRoutes[] = [
+  { path: '/auth', router: authRoutes, tag: 'auth' },
+  { path: '/users', router: userRoutes, tag: 'user' },
+  { path: '/questions', router: questionRoutes, tag: 'question' },
+  { path: '/quizzes', router: quizRoutes, tag: 'quiz' },
+  { path: '/attempts', router: attemptRoutes, tag: 'attempt' },
+  { path: '/leaderboard', router: leaderboardRoutes, tag: 'leaderboard' },
+  { path: '/classes/:code/assignments', router: assignmentRoutes, tag: 'assignment' },
+  { path: '/classes', router: classRoutes, tag: 'class' },
+  { path: '/ap-tests', router: apTestRoutes, tag: 'apTest' },
+  { path: '/review', router: reviewRoutes, tag: 'review' },
+  { path: '/exports', router: exportRoutes, tag: 'export' },
+  { path: '/free-responses', router: freeResponseRoutes, tag: 'freeResponse' }
+];
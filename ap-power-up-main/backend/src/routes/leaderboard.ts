@@ -1,144 +1,72 @@
 import express from 'express';
-import { supabaseAdmin } from '../config/supabase.js';
-import { AppError } from '../utils/errors.js';
+import { db, LeaderboardEntry } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { getWindowStart } from '../services/leaderboardWindow.js';
+import { requestLog } from '../middleware/requestLogger.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import {
+  LeaderboardEntrySchema,
+  LeaderboardQuery,
+  LeaderboardQuerySchema
+} from '../../../shared/apiSchemas.js';
 
 const router = express.Router();
 
+const GLOBAL_LEADERBOARD_SIZE = 100;
+
+function formatEntry({ user, score }: LeaderboardEntry, apClass: string) {
+  return {
+    id: user.id,
+    username: user.username,
+    firstName: user.first_name,
+    lastName: user.last_name,
+    nickname: user.nickname,
+    displayPreference: user.display_preference,
+    streak: user.streak,
+    showRankPublicly: user.show_rank_publicly,
+    classScores: {
+      [apClass]: score
+    }
+  };
+}
+
 // Get global leaderboard for a class
-router.get('/:apClass', authenticate, async (req: AuthRequest, res, next) => {
+// Query: window = 'all' (default, class scores) | 'week' | 'month' | 'term' (points earned in that window)
+router.get('/:apClass', operation({ name: 'getLeaderboard', response: LeaderboardEntrySchema.array() }), authenticate, validate({ query: LeaderboardQuerySchema }), async (req: AuthRequest, res, next) => {
   try {
     const { apClass } = req.params;
     const decodedClass = decodeURIComponent(apClass);
-    console.log(`[LEADERBOARD] Fetching for class: "${decodedClass}" (encoded: "${apClass}")`);
-
-    // Get all students in this class with their scores
-    const { data: scores, error: scoresError } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('user_id, score, ap_class')
-      .eq('ap_class', decodedClass)
-      .order('score', { ascending: false })
-      .limit(100);
-
-    console.log(`[LEADERBOARD] Query executed - found ${scores?.length || 0} scores for "${decodedClass}"`);
-    if (scoresError) {
-      console.error(`[LEADERBOARD] Query error:`, scoresError);
-    }
-    if (scores && scores.length > 0) {
-      console.log(`[LEADERBOARD] Sample scores:`, scores.slice(0, 3).map(s => ({ userId: s.user_id, score: s.score, ap_class: s.ap_class })));
-    }
-
-    if (scoresError) {
-      console.error('[LEADERBOARD] Error fetching scores:', scoresError);
-      throw new AppError(400, `Failed to fetch leaderboard: ${scoresError.message}`);
-    }
-
-    // Get user details for each score
-    const userIds = scores?.map(s => s.user_id) || [];
-    if (userIds.length === 0) {
-      console.log(`[LEADERBOARD] No scores found for class: ${apClass}`);
-      return res.json([]);
-    }
+    const { window = 'all' } = req.query as LeaderboardQuery;
+    const since = getWindowStart(window);
 
-    // Try to select show_rank_publicly, but handle if column doesn't exist
-    const { data: users, error: usersError } = await supabaseAdmin
-      .from('users')
-      .select('id, username, first_name, last_name, nickname, display_preference, streak, role, show_rank_publicly')
-      .in('id', userIds)
-      .eq('role', 'student');
-
-    if (usersError) {
-      // If error is about missing column, try without it
-      if (usersError.message.includes('show_rank_publicly')) {
-        const { data: usersRetry, error: retryError } = await supabaseAdmin
-          .from('users')
-          .select('id, username, first_name, last_name, nickname, display_preference, streak, role')
-          .in('id', userIds)
-          .eq('role', 'student');
-        
-        if (retryError) {
-          throw new AppError(400, `Failed to fetch users: ${retryError.message}`);
-        }
-        
-        // Use retry data and set show_rank_publicly to default
-        const usersWithDefaults = usersRetry?.map(u => ({ ...u, show_rank_publicly: true })) || [];
-        const leaderboard = scores
-          ?.map(score => {
-            const user = usersWithDefaults?.find(u => u.id === score.user_id);
-            if (!user) return null;
-
-            return {
-              id: user.id,
-              username: user.username,
-              firstName: user.first_name,
-              lastName: user.last_name,
-              nickname: user.nickname,
-              displayPreference: user.display_preference,
-              streak: user.streak,
-              showRankPublicly: true,
-              classScores: {
-                [decodedClass]: score.score
-              }
-            };
-          })
-          .filter(Boolean)
-          .sort((a, b) => (b?.classScores[decodedClass] || 0) - (a?.classScores[decodedClass] || 0));
-        
-        return res.json(leaderboard);
-      }
-      throw new AppError(400, `Failed to fetch users: ${usersError.message}`);
-    }
+    // Top scores in this class with their students
+    const entries = await (since
+      ? db.leaderboard.listTopSince(decodedClass, since, GLOBAL_LEADERBOARD_SIZE)
+      : db.leaderboard.listTop(decodedClass, GLOBAL_LEADERBOARD_SIZE))
+      .catch(failWith('Failed to fetch leaderboard'));
+    requestLog(res).debug('leaderboard.fetched', { apClass: decodedClass, since, entries: entries.length });
 
-    // Add default show_rank_publicly if not present
-    const usersWithDefaults = users?.map(u => ({ 
-      ...u, 
-      show_rank_publicly: u.show_rank_publicly ?? true 
-    })) || [];
-
-    // Combine scores with user data
-    const leaderboard = scores
-      ?.map(score => {
-        const user = usersWithDefaults?.find(u => u.id === score.user_id);
-        if (!user) return null;
-
-        return {
-          id: user.id,
-          username: user.username,
-          firstName: user.first_name,
-          lastName: user.last_name,
-          nickname: user.nickname,
-          displayPreference: user.display_preference,
-          streak: user.streak,
-          showRankPublicly: user.show_rank_publicly ?? true,
-          classScores: {
-            [decodedClass]: score.score
-          }
-        };
-      })
-      .filter(Boolean)
-      .sort((a, b) => (b?.classScores[decodedClass] || 0) - (a?.classScores[decodedClass] || 0));
-
-    res.json(leaderboard);
+    res.json(entries.map(entry => formatEntry(entry, decodedClass)));
   } catch (error) {
     next(error);
   }
 });
 
 // Get class-specific leaderboard (students who joined via class code)
-router.get('/:apClass/class/:classCode', authenticate, async (req: AuthRequest, res, next) => {
+// Query: window, as for the global leaderboard
+router.get('/:apClass/class/:classCode', operation({ name: 'getClassLeaderboard', response: LeaderboardEntrySchema.array() }), authenticate, validate({ query: LeaderboardQuerySchema }), async (req: AuthRequest, res, next) => {
   try {
     const { apClass, classCode } = req.params;
     const decodedApClass = decodeURIComponent(apClass);
+    const { window = 'all' } = req.query as LeaderboardQuery;
+    const since = getWindowStart(window);
 
     // Get class
-    const { data: classData, error: classError } = await supabaseAdmin
-      .from('classes')
-      .select('id, leaderboard_enabled')
-      .eq('class_code', classCode)
-      .eq('ap_class_name', decodedApClass)
-      .single();
+    const classData = await db.classes.findByCode(classCode);
 
-    if (classError || !classData) {
+    if (!classData || classData.ap_class_name !== decodedApClass) {
       throw new AppError(404, 'Class not found');
     }
 
@@ -147,111 +75,21 @@ router.get('/:apClass/class/:classCode', authenticate, async (req: AuthRequest,
     }
 
     // Get students in this class
-    const { data: classStudents, error: studentsError } = await supabaseAdmin
-      .from('class_students')
-      .select('student_id')
-      .eq('class_id', classData.id);
+    const studentIds = await db.classes
+      .listStudentIds(classData.id)
+      .catch(failWith('Failed to fetch class students'));
 
-    if (studentsError) {
-      throw new AppError(400, `Failed to fetch class students: ${studentsError.message}`);
-    }
-
-    const studentIds = classStudents?.map(cs => cs.student_id) || [];
     if (studentIds.length === 0) {
       return res.json([]);
     }
-    
-    // Get scores for these students in this AP class
-    const { data: scores, error: scoresError } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('user_id, score')
-      .eq('ap_class', decodedApClass)
-      .in('user_id', studentIds)
-      .order('score', { ascending: false });
-
-    if (scoresError) {
-      throw new AppError(400, `Failed to fetch scores: ${scoresError.message}`);
-    }
-
-    // Get user details - handle missing show_rank_publicly column
-    const { data: users, error: usersError } = await supabaseAdmin
-      .from('users')
-      .select('id, username, first_name, last_name, nickname, display_preference, streak, show_rank_publicly')
-      .in('id', studentIds)
-      .eq('role', 'student');
-
-    if (usersError) {
-      // If error is about missing column, try without it
-      if (usersError.message.includes('show_rank_publicly')) {
-        const { data: usersRetry, error: retryError } = await supabaseAdmin
-          .from('users')
-          .select('id, username, first_name, last_name, nickname, display_preference, streak')
-          .in('id', studentIds)
-          .eq('role', 'student');
-        
-        if (retryError) {
-          throw new AppError(400, `Failed to fetch users: ${retryError.message}`);
-        }
-        
-        // Use retry data and set show_rank_publicly to default
-        const usersWithDefaults = usersRetry?.map(u => ({ ...u, show_rank_publicly: true })) || [];
-        const leaderboard = scores
-          ?.map(score => {
-            const user = usersWithDefaults?.find(u => u.id === score.user_id);
-            if (!user) return null;
-
-            return {
-              id: user.id,
-              username: user.username,
-              firstName: user.first_name,
-              lastName: user.last_name,
-              nickname: user.nickname,
-              displayPreference: user.display_preference,
-              streak: user.streak,
-              showRankPublicly: true,
-              classScores: {
-                [decodedApClass]: score.score
-              }
-            };
-          })
-          .filter(Boolean)
-          .sort((a, b) => (b?.classScores[decodedApClass] || 0) - (a?.classScores[decodedApClass] || 0));
-        
-        return res.json(leaderboard);
-      }
-      throw new AppError(400, `Failed to fetch users: ${usersError.message}`);
-    }
-
-    // Add default show_rank_publicly if not present
-    const usersWithDefaults = users?.map(u => ({ 
-      ...u, 
-      show_rank_publicly: u.show_rank_publicly ?? true 
-    })) || [];
-
-    // Combine scores with user data
-    const leaderboard = scores
-      ?.map(score => {
-        const user = usersWithDefaults?.find(u => u.id === score.user_id);
-        if (!user) return null;
 
-        return {
-          id: user.id,
-          username: user.username,
-          firstName: user.first_name,
-          lastName: user.last_name,
-          nickname: user.nickname,
-          displayPreference: user.display_preference,
-          streak: user.streak,
-          showRankPublicly: user.show_rank_publicly ?? true,
-          classScores: {
-            [decodedApClass]: score.score
-          }
-        };
-      })
-      .filter(Boolean)
-      .sort((a, b) => (b?.classScores[decodedApClass] || 0) - (a?.classScores[decodedApClass] || 0));
+    // Scores for these students in this AP class
+    const entries = await (since
+      ? db.leaderboard.listForUsersSince(decodedApClass, studentIds, since)
+      : db.leaderboard.listForUsers(decodedApClass, studentIds))
+      .catch(failWith('Failed to fetch scores'));
 
-    res.json(leaderboard);
+    res.json(entries.map(entry => formatEntry(entry, decodedApClass)));
   } catch (error) {
     next(error);
   }
@@ -1,98 +1,192 @@
 import express from 'express';
-import { supabaseAdmin } from '../config/supabase.js';
-import { AppError } from '../utils/errors.js';
-import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { db, QuestionRow } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { authenticate, identify, AuthRequest } from '../middleware/auth.js';
+import {
+  QuestionSnapshot,
+  toQuestionSnapshot,
+  validateQuestionSnapshot,
+  formatRevision,
+  recordRevision
+} from '../services/questionRevisions.js';
+import { importClassData } from '../services/questionImport.js';
+import { gradeQuestion, hideAnswerKey } from '../services/grading.js';
+import { getClassItemStats, getQuestionStats } from '../services/itemAnalysis.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import {
+  ApClassQuery,
+  ApClassQuerySchema,
+  CreateQuestionBody,
+  CreateQuestionBodySchema,
+  GradeAnswersBody,
+  GradeAnswersBodySchema,
+  ImportQuestionsBody,
+  ImportQuestionsBodySchema,
+  ImportQuestionsQuery,
+  ImportQuestionsQuerySchema,
+  ItemStatsSchema,
+  QuestionFiltersQuery,
+  QuestionFiltersQuerySchema,
+  QuestionGradeSchema,
+  QuestionImportReportSchema,
+  QuestionRecordSchema,
+  QuestionRevisionSchema,
+  RevisionParamsSchema,
+  RollbackResultSchema,
+  UpdateQuestionBody,
+  UpdateQuestionBodySchema
+} from '../../../shared/apiSchemas.js';
 
 const router = express.Router();
 
-// Get questions with filters
-router.get('/', async (req, res, next) => {
-  try {
-    const { apClass, unit, subtopic } = req.query;
+async function isTeacher(userId: string | undefined): Promise<boolean> {
+  return userId !== undefined && (await db.users.getRole(userId)) === 'teacher';
+}
 
-    let query = supabaseAdmin
-      .from('questions')
-      .select('*');
+async function requireTeacher(userId: string | undefined, message: string): Promise<void> {
+  if (!(await isTeacher(userId))) {
+    throw new AppError(403, message);
+  }
+}
+
+// Whether a student has answered every one of the questions: in practice, or in a
+// submitted AP test built from them
+async function hasAnswered(userId: string, questionIds: string[]): Promise<boolean> {
+  const attempts = await db.attempts.listForUserQuestions(userId, questionIds).catch(failWith('Failed to fetch question attempts'));
+  const attempted = new Set(attempts.map(attempt => attempt.question_id));
+  const unanswered = questionIds.filter(questionId => !attempted.has(questionId));
+  if (unanswered.length === 0) {
+    return true;
+  }
 
-    if (apClass) {
-      query = query.eq('ap_class', apClass as string);
-    }
+  const apTestAttempts = await db.apTests.listAttempts(userId).catch(failWith('Failed to fetch AP test attempts'));
+  const inTests = new Set(apTestAttempts.flatMap(attempt =>
+    (attempt.responses as { sourceQuestionId?: string }[]).map(response => response.sourceQuestionId)
+  ));
+  return unanswered.every(questionId => inTests.has(questionId));
+}
 
-    if (unit) {
-      query = query.eq('unit_name', unit as string);
-    }
+// Get questions with filters. Answer keys, explanations and rubrics are only sent to
+// teachers; students get them back when they record an attempt (POST /api/attempts).
+router.get('/', operation({ name: 'getQuestions', response: QuestionRecordSchema.array() }), identify, validate({ query: QuestionFiltersQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { apClass, unit, subtopic } = req.query as QuestionFiltersQuery;
 
-    if (subtopic) {
-      query = query.eq('subtopic_name', subtopic as string);
-    }
+    const questions = await db.questions
+      .list({ apClass, unit, subtopic })
+      .catch(failWith('Failed to fetch questions'));
 
-    const { data: questions, error } = await query.order('created_at', { ascending: true });
+    res.json((await isTeacher(req.userId)) ? questions : questions.map(hideAnswerKey));
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (error) {
-      throw new AppError(400, `Failed to fetch questions: ${error.message}`);
-    }
+// Item analysis of a class's questions: difficulty, discrimination, option choice
+// rates and median time, with likely mis-keyed questions flagged (teacher only).
+// Query: apClass
+router.get('/stats', operation({ name: 'getItemStats', response: ItemStatsSchema.array() }), authenticate, validate({ query: ApClassQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    await requireTeacher(req.userId, 'Only teachers can view item analysis');
+    const { apClass } = req.query as ApClassQuery;
 
-    res.json(questions || []);
+    res.json(await getClassItemStats(apClass));
   } catch (error) {
     next(error);
   }
 });
 
-// Get question by ID
-router.get('/:id', async (req, res, next) => {
+// Get question by ID (answer key for teachers only)
+router.get('/:id', operation({ name: 'getQuestionById', response: QuestionRecordSchema }), identify, async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
 
-    const { data: question, error } = await supabaseAdmin
-      .from('questions')
-      .select('*')
-      .eq('id', id)
-      .single();
+    const question = await db.questions.findById(id);
 
-    if (error || !question) {
+    if (!question) {
       throw new AppError(404, 'Question not found');
     }
 
-    res.json(question);
+    res.json((await isTeacher(req.userId)) ? question : hideAnswerKey(question));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Item analysis of one question (teacher only)
+router.get('/:id/stats', operation({ name: 'getQuestionStats', response: ItemStatsSchema }), authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    await requireTeacher(req.userId, 'Only teachers can view item analysis');
+
+    res.json(await getQuestionStats(req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Grade answers and reveal their keys and explanations. Students can only grade questions
+// they have already answered, so a key is never seen before the answer counts.
+// Body: { answers: [{ questionId, selectedOptionId }] }, or { questionId, answer } for any
+// item type; keyed items are graded with partial credit
+router.post('/grade', operation({ name: 'gradeAnswers', response: QuestionGradeSchema.array() }), authenticate, validate({ body: GradeAnswersBodySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const answers = (req.body as GradeAnswersBody).answers.map(answer => ({ ...answer, questionId: String(answer.questionId) }));
+
+    const questions = await db.questions
+      .findByIds([...new Set(answers.map(answer => answer.questionId))])
+      .catch(failWith('Failed to fetch questions'));
+    const questionsById = new Map(questions.map(question => [question.id, question]));
+
+    const grades = answers.map(({ questionId, selectedOptionId, answer }) => {
+      const question = questionsById.get(questionId);
+      if (!question) {
+        throw new AppError(404, `Question not found: ${questionId}`);
+      }
+      if (question.question_type === 'free_response') {
+        throw new AppError(400, `Question ${questionId} is free-response; submit it to /api/free-responses`);
+      }
+      return gradeQuestion(question, answer !== undefined ? answer : selectedOptionId ?? null);
+    });
+
+    if (!(await isTeacher(req.userId)) && !(await hasAnswered(req.userId!, questions.map(question => question.id)))) {
+      throw new AppError(403, 'Answer a question before grading it');
+    }
+
+    res.json(grades);
   } catch (error) {
     next(error);
   }
 });
 
 // Create question (admin only)
-router.post('/', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/', operation({ name: 'createQuestion', response: QuestionRecordSchema, status: 201 }), authenticate, validate({ body: CreateQuestionBodySchema }), async (req: AuthRequest, res, next) => {
   try {
     // Check if user is admin/teacher
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('role')
-      .eq('id', req.userId)
-      .single();
-
-    if (user?.role !== 'teacher') {
-      throw new AppError(403, 'Only teachers can create questions');
-    }
+    await requireTeacher(req.userId, 'Only teachers can create questions');
+
+    const questionData: CreateQuestionBody = req.body;
+    const apClass = (questionData.apClass || questionData.ap_class) as string;
+
+    const snapshot = toQuestionSnapshot({
+      question_type: questionData.questionType || questionData.question_type,
+      question_text: questionData.questionText || questionData.question_text || '',
+      options: questionData.options,
+      correct_answer_id: questionData.correctAnswerId || questionData.correctOptionId || questionData.correct_answer_id || '',
+      answer_key: questionData.answerKey || questionData.answer_key,
+      parts: questionData.parts,
+      explanation: questionData.explanation,
+      unit_name: questionData.unitName || questionData.unit_name || '',
+      subtopic_name: questionData.subtopicName || questionData.subtopic_name,
+      metadata: questionData.metadata
+    });
+    validateQuestionSnapshot(snapshot);
 
-    const questionData = req.body;
-
-    const { data: question, error } = await supabaseAdmin
-      .from('questions')
-      .insert({
-        question_text: questionData.questionText || questionData.question_text,
-        options: questionData.options,
-        correct_answer_id: questionData.correctAnswerId || questionData.correctOptionId || questionData.correct_answer_id || '',
-        explanation: questionData.explanation,
-        ap_class: questionData.apClass || questionData.ap_class,
-        unit_name: questionData.unitName || questionData.unit_name,
-        subtopic_name: questionData.subtopicName || questionData.subtopic_name,
-        metadata: questionData.metadata || {}
-      })
-      .select()
-      .single();
-
-    if (error || !question) {
-      throw new AppError(400, `Failed to create question: ${error?.message}`);
-    }
+    const question = await db.questions
+      .create({ ...snapshot, ap_class: apClass })
+      .catch(failWith('Failed to create question'));
+
+    await recordRevision(question.id, question, req.userId, questionData.changeNote || 'Created');
 
     res.status(201).json(question);
   } catch (error) {
@@ -101,113 +195,120 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
 });
 
 // Update question (admin only)
-router.patch('/:id', authenticate, async (req: AuthRequest, res, next) => {
+router.patch('/:id', operation({ name: 'updateQuestion', response: QuestionRecordSchema }), authenticate, validate({ body: UpdateQuestionBodySchema }), async (req: AuthRequest, res, next) => {
   try {
     // Check if user is admin/teacher
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('role')
-      .eq('id', req.userId)
-      .single();
-
-    if (user?.role !== 'teacher') {
-      throw new AppError(403, 'Only teachers can update questions');
-    }
+    await requireTeacher(req.userId, 'Only teachers can update questions');
 
     const { id } = req.params;
-    const updates = req.body;
+    const updates: UpdateQuestionBody = req.body;
 
-    const updateData: any = {};
+    const updateData: Partial<QuestionRow> = {};
+    if (updates.questionType !== undefined) updateData.question_type = updates.questionType;
     if (updates.questionText !== undefined) updateData.question_text = updates.questionText;
     if (updates.question_text !== undefined) updateData.question_text = updates.question_text;
     if (updates.options !== undefined) updateData.options = updates.options;
     if (updates.correctAnswerId !== undefined) updateData.correct_answer_id = updates.correctAnswerId;
     if (updates.correctOptionId !== undefined) updateData.correct_answer_id = updates.correctOptionId;
     if (updates.correct_answer_id !== undefined) updateData.correct_answer_id = updates.correct_answer_id;
+    if (updates.answerKey !== undefined) updateData.answer_key = updates.answerKey;
+    if (updates.parts !== undefined) updateData.parts = updates.parts;
     if (updates.explanation !== undefined) updateData.explanation = updates.explanation;
     if (updates.metadata !== undefined) updateData.metadata = updates.metadata;
+    if (updates.unitName !== undefined) updateData.unit_name = updates.unitName;
+    if (updates.subtopicName !== undefined) updateData.subtopic_name = updates.subtopicName;
 
-    const { data: question, error } = await supabaseAdmin
-      .from('questions')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+    const current = await db.questions.findById(id);
 
-    if (error || !question) {
-      throw new AppError(400, `Failed to update question: ${error?.message}`);
+    if (!current) {
+      throw new AppError(404, 'Question not found');
     }
 
+    // Validate the question as it will look after the edit, not just the changed fields
+    validateQuestionSnapshot(toQuestionSnapshot({ ...current, ...updateData }));
+
+    const question = await db.questions.update(id, updateData).catch(failWith('Failed to update question'));
+
+    if (!question) {
+      throw new AppError(404, 'Question not found');
+    }
+
+    // Every saved edit becomes a new revision so it can be diffed and rolled back
+    await recordRevision(question.id, question, req.userId, updates.changeNote || null);
+
     res.json(question);
   } catch (error) {
     next(error);
   }
 });
 
-// Bulk import questions from JSON
-router.post('/import', authenticate, async (req: AuthRequest, res, next) => {
+// Get a question's revision history, newest first (teacher only)
+router.get('/:id/revisions', operation({ name: 'getRevisions', response: QuestionRevisionSchema.array() }), authenticate, async (req: AuthRequest, res, next) => {
   try {
-    // Check if user is admin/teacher
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('role')
-      .eq('id', req.userId)
-      .single();
-
-    if (user?.role !== 'teacher') {
-      throw new AppError(403, 'Only teachers can import questions');
-    }
+    await requireTeacher(req.userId, 'Only teachers can view question history');
+
+    const revisions = await db.questions
+      .listRevisions(req.params.id)
+      .catch(failWith('Failed to fetch question revisions'));
+
+    res.json(revisions.map(formatRevision));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Restore an earlier revision. History is append-only, so the rollback is
+// itself recorded as a new revision.
+router.post('/:id/revisions/:revision/rollback', operation({ name: 'rollback', response: RollbackResultSchema }), authenticate, validate({ params: RevisionParamsSchema }), async (req: AuthRequest, res, next) => {
+  try {
+    await requireTeacher(req.userId, 'Only teachers can roll back questions');
+
+    const { id } = req.params;
+    const revisionNumber = parseInt(req.params.revision, 10);
 
-    const { questions: questionsData } = req.body;
+    const revision = await db.questions.findRevision(id, revisionNumber);
 
-    if (!Array.isArray(questionsData)) {
-      throw new AppError(400, 'Questions must be an array');
+    if (!revision) {
+      throw new AppError(404, 'Revision not found');
     }
 
-    // Transform and insert questions
-    const questionsToInsert = questionsData.map((q: any) => ({
-      question_text: q.questionText || q.question_text || q.question,
-      options: Array.isArray(q.options) 
-        ? q.options.map((opt: any, idx: number) => {
-            if (typeof opt === 'string') {
-              return {
-                id: String.fromCharCode(65 + idx),
-                content: opt
-              };
-            }
-            return {
-              id: opt.id || String.fromCharCode(65 + idx),
-              content: opt.content || opt
-            };
-          })
-        : q.options,
-      correct_answer_id: q.correctAnswerId || q.correctOptionId || q.correct_answer_id || q.answer || q.correctAnswer || '',
-      explanation: q.explanation || '',
-      ap_class: q.apClass || q.ap_class,
-      unit_name: q.unitName || q.unit_name || q.unit,
-      subtopic_name: q.subtopicName || q.subtopic_name || q.subtopic || null,
-      metadata: q.metadata || {}
-    }));
-
-    const { data: inserted, error } = await supabaseAdmin
-      .from('questions')
-      .insert(questionsToInsert)
-      .select();
-
-    if (error) {
-      throw new AppError(400, `Failed to import questions: ${error.message}`);
+    const snapshot: QuestionSnapshot = toQuestionSnapshot(revision.snapshot);
+
+    const question = await db.questions.update(id, snapshot).catch(failWith('Failed to roll back question'));
+
+    if (!question) {
+      throw new AppError(404, 'Question not found');
     }
 
-    res.status(201).json({
-      success: true,
-      message: `Imported ${inserted?.length || 0} questions`,
-      count: inserted?.length || 0,
-      questions: inserted
+    const newRevision = await recordRevision(id, question, req.userId, `Rolled back to revision ${revisionNumber}`);
+
+    res.json({
+      question,
+      revision: formatRevision(newRevision)
     });
   } catch (error) {
     next(error);
   }
 });
 
+// Import a question file in the public/data ClassData format (teacher only).
+// With dryRun the file is only validated; otherwise questions are upserted by their stable id.
+router.post('/import', operation({ name: 'importQuestions', response: QuestionImportReportSchema }), authenticate, validate({ body: ImportQuestionsBodySchema, query: ImportQuestionsQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    await requireTeacher(req.userId, 'Only teachers can import questions');
+
+    const { classData, dryRun }: ImportQuestionsBody = req.body;
+
+    const report = await importClassData(classData, {
+      dryRun: dryRun === true || (req.query as ImportQuestionsQuery).dryRun === 'true',
+      userId: req.userId
+    });
+
+    res.status(report.dryRun ? 200 : 201).json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
 
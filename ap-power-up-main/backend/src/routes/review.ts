@@ -0,0 +1,47 @@
+import express from 'express';
+import { db } from '../repositories/index.js';
+import { failWith } from '../utils/errors.js';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { requestLog } from '../middleware/requestLogger.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import {
+  DueReview,
+  DueReviewSchema,
+  DueReviewsQuery,
+  DueReviewsQuerySchema
+} from '../../../shared/apiSchemas.js';
+
+const router = express.Router();
+
+const DEFAULT_DUE_LIMIT = 20;
+const MAX_DUE_LIMIT = 100;
+
+// Get questions due for spaced-repetition review, oldest due date first
+router.get('/due', operation({ name: 'getDue', response: DueReviewSchema.array() }), authenticate, validate({ query: DueReviewsQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { apClass, limit = DEFAULT_DUE_LIMIT } = req.query as unknown as DueReviewsQuery;
+    const dueLimit = Math.min(limit, MAX_DUE_LIMIT);
+
+    const dueAttempts = await db.attempts
+      .listDueReviews(req.userId!, apClass, new Date().toISOString(), dueLimit)
+      .catch(failWith('Failed to fetch due reviews'));
+
+    requestLog(res).debug('review.due', { userId: req.userId, apClass, found: dueAttempts.length });
+
+    res.json(dueAttempts.map((attempt): DueReview => ({
+      questionId: attempt.question_id,
+      apClass: attempt.question.ap_class,
+      unitName: attempt.question.unit_name,
+      subtopicName: attempt.question.subtopic_name || null,
+      dueAt: attempt.review_due_at as string, // Only attempts with a due date are listed
+      easeFactor: attempt.review_ease_factor,
+      intervalDays: attempt.review_interval_days,
+      repetitions: attempt.review_repetitions
+    })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,12 +1,60 @@
 import express from 'express';
-import { supabaseAdmin } from '../config/supabase.js';
-import { AppError } from '../utils/errors.js';
+import { authProvider } from '../config/storage.js';
+import { db, UserRow } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { addPointsEntry, toHistoryEntry } from '../services/pointsLedger.js';
+import { getAbilityReport } from '../services/ability.js';
+import { getPointsDate } from '../services/scoring.js';
+import { getStreakCalendar, isValidTimeZone } from '../services/streaks.js';
+import { requestLog } from '../middleware/requestLogger.js';
+import { validate } from '../middleware/validate.js';
+import { operation } from '../middleware/operation.js';
+import {
+  AbilityReportSchema,
+  AddApClassBody,
+  AddApClassBodySchema,
+  ApClassChangeResultSchema,
+  ApClassQuery,
+  ApClassQuerySchema,
+  PointsAdjustmentBody,
+  PointsAdjustmentBodySchema,
+  PointsAdjustmentResultSchema,
+  PointsHistoryEntrySchema,
+  PointsHistoryQuery,
+  PointsHistoryQuerySchema,
+  StreakCalendarSchema,
+  StreakQuery,
+  StreakQuerySchema,
+  SuccessSchema,
+  UpdateUserBody,
+  UpdateUserBodySchema,
+  UserProfileSchema
+} from '../../../shared/apiSchemas.js';
 
 const router = express.Router();
 
+const DEFAULT_HISTORY_SIZE = 50;
+const MAX_HISTORY_SIZE = 200;
+const DEFAULT_STREAK_DAYS = 84; // 12 weeks
+const MAX_STREAK_DAYS = 371; // 53 weeks
+
+// Whether a teacher has the student in one of their classes for apClass
+async function teachesStudent(teacherId: string | undefined, studentId: string, apClass: string): Promise<boolean> {
+  if (!teacherId) {
+    return false;
+  }
+  const classes = await db.classes.listForTeacher(teacherId).catch(failWith('Failed to fetch classes'));
+  for (const classData of classes.filter(c => c.ap_class_name === apClass)) {
+    if (await db.classes.isEnrolled(classData.id, studentId)) {
+      return true;
+    }
+  }
+  return false;
+}
+
 // Get user by ID
-router.get('/:id', authenticate, async (req, res, next) => {
+router.get('/:id', operation({ name: 'getUser', response: UserProfileSchema }), authenticate, async (req, res, next) => {
   try {
     const { id } = req.params;
     
@@ -15,48 +63,24 @@ router.get('/:id', authenticate, async (req, res, next) => {
       throw new AppError(403, 'Forbidden');
     }
 
-    const { data: user, error } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', id)
-      .single();
+    // User row with AP classes and class scores
+    const user = await db.users.getProfile(id);
 
-    if (error || !user) {
+    if (!user) {
       throw new AppError(404, 'User not found');
     }
 
-    // Get user's AP classes
-    const { data: apClasses } = await supabaseAdmin
-      .from('user_ap_classes')
-      .select('ap_class')
-      .eq('user_id', id);
-
-    // Get class scores
-    const { data: classScores } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('ap_class, score')
-      .eq('user_id', id);
-
-    const scores: Record<string, number> = {};
-    classScores?.forEach(cs => {
-      scores[cs.ap_class] = cs.score;
-    });
-
-    res.json({
-      ...user,
-      apClasses: apClasses?.map(c => c.ap_class) || [],
-      classScores: scores
-    });
+    res.json(user);
   } catch (error) {
     next(error);
   }
 });
 
 // Update user profile
-router.patch('/:id', authenticate, async (req: AuthRequest, res, next) => {
+router.patch('/:id', operation({ name: 'updateProfile', response: UserProfileSchema }), authenticate, validate({ body: UpdateUserBodySchema }), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
+    const updates: UpdateUserBody = req.body;
 
     // Users can only update their own data
     if (id !== req.userId) {
@@ -64,7 +88,7 @@ router.patch('/:id', authenticate, async (req: AuthRequest, res, next) => {
     }
 
     // Build update object
-    const updateData: any = {};
+    const updateData: Partial<UserRow> = {};
     if (updates.firstName !== undefined) updateData.first_name = updates.firstName;
     if (updates.lastName !== undefined) updateData.last_name = updates.lastName;
     if (updates.displayPreference !== undefined) {
@@ -76,268 +100,193 @@ router.patch('/:id', authenticate, async (req: AuthRequest, res, next) => {
     if (updates.showLeaderboard !== undefined) updateData.show_leaderboard = updates.showLeaderboard;
     if (updates.showRank !== undefined) updateData.show_rank = updates.showRank;
     if (updates.showRankPublicly !== undefined) updateData.show_rank_publicly = updates.showRankPublicly;
+    if (updates.track_confidence !== undefined) updateData.track_confidence = updates.track_confidence;
+    if (updates.timezone !== undefined) {
+      if (!isValidTimeZone(updates.timezone)) {
+        throw new AppError(400, 'timezone must be an IANA time zone, e.g. America/New_York');
+      }
+      updateData.timezone = updates.timezone;
+    }
 
-    const { data: user, error } = await supabaseAdmin
-      .from('users')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+    const user = await db.users.update(id, updateData).catch(failWith('Failed to update user'));
 
-    if (error || !user) {
-      throw new AppError(400, `Failed to update user: ${error?.message}`);
+    if (!user) {
+      throw new AppError(400, 'Failed to update user: user not found');
     }
 
     // Handle AP classes update if provided
-    if (updates.ap_classes !== undefined && Array.isArray(updates.ap_classes)) {
+    if (updates.ap_classes !== undefined) {
       // Get current classes
-      const { data: currentClasses } = await supabaseAdmin
-        .from('user_ap_classes')
-        .select('ap_class')
-        .eq('user_id', id);
+      const currentClasses = await db.users.getApClasses(id);
 
-      const currentClassSet = new Set(currentClasses?.map(c => c.ap_class) || []);
-      const newClassSet = new Set(updates.ap_classes);
+      const currentClassSet = new Set(currentClasses);
+      const newClassSet = new Set<string>(updates.ap_classes);
 
       // Find classes to add
-      const toAdd = updates.ap_classes.filter(c => !currentClassSet.has(c));
+      const toAdd = [...newClassSet].filter(c => !currentClassSet.has(c));
       // Find classes to remove
-      const toRemove = (currentClasses?.map(c => c.ap_class) || []).filter(c => !newClassSet.has(c));
+      const toRemove = currentClasses.filter(c => !newClassSet.has(c));
 
       // Add new classes
       if (toAdd.length > 0) {
-        await supabaseAdmin
-          .from('user_ap_classes')
-          .insert(toAdd.map(apClass => ({ user_id: id, ap_class: apClass })));
+        await db.users.addApClasses(id, toAdd);
 
         // Initialize scores for new classes
-        await supabaseAdmin
-          .from('user_class_scores')
-          .upsert(
-            toAdd.map(apClass => ({
-              user_id: id,
-              ap_class: apClass,
-              score: 0
-            })),
-            { onConflict: 'user_id,ap_class' }
-          );
+        await db.scores.initClassScores(id, toAdd);
       }
 
       // Remove classes
-      if (toRemove.length > 0) {
-        await supabaseAdmin
-          .from('user_ap_classes')
-          .delete()
-          .eq('user_id', id)
-          .in('ap_class', toRemove);
-      }
+      await db.users.removeApClasses(id, toRemove);
     }
 
-    // Get updated AP classes
-    const { data: apClasses } = await supabaseAdmin
-      .from('user_ap_classes')
-      .select('ap_class')
-      .eq('user_id', id);
-
-    // Get class scores
-    const { data: classScores } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('ap_class, score')
-      .eq('user_id', id);
-
-    const scores: Record<string, number> = {};
-    classScores?.forEach(cs => {
-      scores[cs.ap_class] = cs.score;
-    });
-
-    res.json({
-      ...user,
-      apClasses: apClasses?.map(c => c.ap_class) || [],
-      classScores: scores
-    });
+    // Updated user with AP classes and class scores
+    res.json(await db.users.getProfile(id));
   } catch (error) {
     next(error);
   }
 });
 
-// Update class score (incremental)
-router.post('/:id/score', authenticate, async (req: AuthRequest, res, next) => {
+// Class scores are awarded server-side by POST /api/attempts and
+// POST /api/quizzes/results; client-supplied point deltas are rejected.
+router.post('/:id/score', operation({ name: 'updateScore', status: 410, deprecated: true }), authenticate, async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const { pointsToAdd, apClass } = req.body;
 
     // Verify user can only update their own score
     if (id !== req.userId) {
       throw new AppError(403, 'Forbidden');
     }
 
-    if (!pointsToAdd || pointsToAdd <= 0) {
-      return res.json({ success: true, message: 'No points to add' });
+    throw new AppError(410, 'Score updates are calculated by the server when attempts are recorded');
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the points ledger entries behind a user's class scores, newest first.
+// Students see their own; teachers see a class's entries for students they teach.
+// Query: apClass (required for teachers), limit
+router.get('/:id/points-history', operation({ name: 'getPointsHistory', response: PointsHistoryEntrySchema.array() }), authenticate, validate({ query: PointsHistoryQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const query = req.query as unknown as PointsHistoryQuery;
+    const apClass = query.apClass || undefined;
+    const limit = Math.min(query.limit ?? DEFAULT_HISTORY_SIZE, MAX_HISTORY_SIZE);
+
+    if (id !== req.userId && !(apClass && await teachesStudent(req.userId, id, apClass))) {
+      throw new AppError(403, 'Forbidden');
     }
 
-    if (!apClass) {
-      throw new AppError(400, 'apClass is required');
+    const entries = await db.scores
+      .listEntries(id, { apClass, limit })
+      .catch(failWith('Failed to fetch points history'));
+
+    res.json(entries.map(toHistoryEntry));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a user's streak, streak freezes and the days they practiced, for the streak calendar.
+// Query: days (how far back, counting today)
+router.get('/:id/streak', operation({ name: 'getStreak', response: StreakCalendarSchema }), authenticate, validate({ query: StreakQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { days = DEFAULT_STREAK_DAYS } = req.query as unknown as StreakQuery;
+
+    if (id !== req.userId) {
+      throw new AppError(403, 'Forbidden');
     }
 
-    // Get existing score
-    const { data: existingScore, error: fetchScoreError } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('score')
-      .eq('user_id', id)
-      .eq('ap_class', apClass)
-      .single();
+    res.json(await getStreakCalendar(id, Math.min(days, MAX_STREAK_DAYS)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a student's Rasch ability in an AP class, with its confidence interval and the
+// AP score it predicts. Students see their own; teachers see students they teach.
+// Query: apClass
+router.get('/:id/ability', operation({ name: 'getAbility', response: AbilityReportSchema }), authenticate, validate({ query: ApClassQuerySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { apClass } = req.query as ApClassQuery;
 
-    if (fetchScoreError && fetchScoreError.code !== 'PGRST116') {
-      console.error('[SCORE UPDATE] Error fetching existing score:', fetchScoreError);
+    if (id !== req.userId && !(await teachesStudent(req.userId, id, apClass))) {
+      throw new AppError(403, 'Forbidden');
     }
 
-    const currentScore = existingScore?.score || 0;
-    const newScore = currentScore + pointsToAdd;
-
-    console.log(`[SCORE UPDATE] Adding ${pointsToAdd} points - userId: ${id}, apClass: ${apClass}, current: ${currentScore}, new: ${newScore}`);
-
-    // Update or insert score
-    const { error: scoreError } = await supabaseAdmin
-      .from('user_class_scores')
-      .upsert({
-        user_id: id,
-        ap_class: apClass,
-        score: newScore,
-        updated_at: new Date().toISOString()
-      }, {
-        onConflict: 'user_id,ap_class'
-      });
+    res.json(await getAbilityReport(id, apClass));
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (scoreError) {
-      console.error('[SCORE UPDATE] Failed to update score:', scoreError);
-      throw new AppError(400, `Failed to update score: ${scoreError.message}`);
+// Adjust a student's class score, recorded in the points ledger with the reason.
+// Only a teacher of the student's class can adjust it.
+// Body: { apClass, points (positive or negative whole number), note }
+router.post('/:id/points-adjustments', operation({ name: 'adjustPoints', response: PointsAdjustmentResultSchema, status: 201 }), authenticate, validate({ body: PointsAdjustmentBodySchema }), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { apClass, points, note }: PointsAdjustmentBody = req.body;
+
+    if (!(await teachesStudent(req.userId, id, apClass))) {
+      throw new AppError(403, 'Only a teacher of this student can adjust their points');
     }
 
-    console.log(`[SCORE UPDATE] Successfully updated score to ${newScore}`);
-    res.json({ success: true, newScore });
+    const currentScore = (await db.scores.getClassScore(id, apClass)) || 0;
+    if (currentScore + points < 0) {
+      throw new AppError(400, `Adjustment would make the score negative (current score: ${currentScore})`);
+    }
+
+    const newScore = await addPointsEntry({
+      userId: id,
+      apClass,
+      date: getPointsDate(),
+      points,
+      source: 'adjustment',
+      note,
+      createdBy: req.userId
+    });
+
+    requestLog(res).info('points.adjusted', { userId: id, apClass, points, by: req.userId, newScore });
+    res.status(201).json({ apClass, points, newScore });
   } catch (error) {
     next(error);
   }
 });
 
 // Add AP class to user
-router.post('/:id/classes', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/:id/classes', operation({ name: 'addClass', response: ApClassChangeResultSchema }), authenticate, validate({ body: AddApClassBodySchema }), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const { apClass } = req.body;
+    const { apClass }: AddApClassBody = req.body;
 
     // Users can only add classes to their own account
     if (id !== req.userId) {
       throw new AppError(403, 'Forbidden');
     }
 
-    if (!apClass) {
-      throw new AppError(400, 'apClass is required');
-    }
-
     // Check if class already exists
-    const { data: existingClass } = await supabaseAdmin
-      .from('user_ap_classes')
-      .select('ap_class')
-      .eq('user_id', id)
-      .eq('ap_class', apClass)
-      .single();
-
-    if (existingClass) {
+    if (await db.users.hasApClass(id, apClass)) {
       // Class already exists, just return success
-      // Get updated user data
-      const { data: user } = await supabaseAdmin
-        .from('users')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      const { data: apClasses } = await supabaseAdmin
-        .from('user_ap_classes')
-        .select('ap_class')
-        .eq('user_id', id);
-
-      const { data: classScores } = await supabaseAdmin
-        .from('user_class_scores')
-        .select('ap_class, score')
-        .eq('user_id', id);
-
-      const scores: Record<string, number> = {};
-      classScores?.forEach(cs => {
-        scores[cs.ap_class] = cs.score;
-      });
-
       return res.json({
         success: true,
         message: 'Class already exists',
-        user: {
-          ...user,
-          apClasses: apClasses?.map(c => c.ap_class) || [],
-          classScores: scores
-        }
+        user: await db.users.getProfile(id)
       });
     }
 
     // Insert new class
-    const { error: insertError } = await supabaseAdmin
-      .from('user_ap_classes')
-      .insert({
-        user_id: id,
-        ap_class: apClass
-      });
-
-    if (insertError) {
-      throw new AppError(400, `Failed to add class: ${insertError.message}`);
-    }
+    await db.users.addApClasses(id, [apClass]).catch(failWith('Failed to add class'));
 
     // Initialize class score if it doesn't exist
-    const { data: existingScore } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('score')
-      .eq('user_id', id)
-      .eq('ap_class', apClass)
-      .single();
-
-    if (!existingScore) {
-      await supabaseAdmin
-        .from('user_class_scores')
-        .insert({
-          user_id: id,
-          ap_class: apClass,
-          score: 0
-        });
-    }
-
-    // Get updated user data
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', id)
-      .single();
-
-    const { data: apClasses } = await supabaseAdmin
-      .from('user_ap_classes')
-      .select('ap_class')
-      .eq('user_id', id);
-
-    const { data: classScores } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('ap_class, score')
-      .eq('user_id', id);
-
-    const scores: Record<string, number> = {};
-    classScores?.forEach(cs => {
-      scores[cs.ap_class] = cs.score;
-    });
+    await db.scores.initClassScores(id, [apClass]);
 
     res.json({
       success: true,
       message: 'Class added successfully',
-      user: {
-        ...user,
-        apClasses: apClasses?.map(c => c.ap_class) || [],
-        classScores: scores
-      }
+      user: await db.users.getProfile(id)
     });
   } catch (error) {
     next(error);
@@ -345,7 +294,7 @@ router.post('/:id/classes', authenticate, async (req: AuthRequest, res, next) =>
 });
 
 // Remove AP class from user
-router.delete('/:id/classes/:apClass', authenticate, async (req: AuthRequest, res, next) => {
+router.delete('/:id/classes/:apClass', operation({ name: 'removeClass', response: ApClassChangeResultSchema }), authenticate, async (req: AuthRequest, res, next) => {
   try {
     const { id, apClass } = req.params;
 
@@ -357,46 +306,12 @@ router.delete('/:id/classes/:apClass', authenticate, async (req: AuthRequest, re
     const decodedApClass = decodeURIComponent(apClass);
 
     // Delete the class
-    const { error: deleteError } = await supabaseAdmin
-      .from('user_ap_classes')
-      .delete()
-      .eq('user_id', id)
-      .eq('ap_class', decodedApClass);
-
-    if (deleteError) {
-      throw new AppError(400, `Failed to remove class: ${deleteError.message}`);
-    }
-
-    // Get updated user data
-    const { data: user } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', id)
-      .single();
-
-    const { data: apClasses } = await supabaseAdmin
-      .from('user_ap_classes')
-      .select('ap_class')
-      .eq('user_id', id);
-
-    const { data: classScores } = await supabaseAdmin
-      .from('user_class_scores')
-      .select('ap_class, score')
-      .eq('user_id', id);
-
-    const scores: Record<string, number> = {};
-    classScores?.forEach(cs => {
-      scores[cs.ap_class] = cs.score;
-    });
+    await db.users.removeApClasses(id, [decodedApClass]).catch(failWith('Failed to remove class'));
 
     res.json({
       success: true,
       message: 'Class removed successfully',
-      user: {
-        ...user,
-        apClasses: apClasses?.map(c => c.ap_class) || [],
-        classScores: scores
-      }
+      user: await db.users.getProfile(id)
     });
   } catch (error) {
     next(error);
@@ -404,47 +319,24 @@ router.delete('/:id/classes/:apClass', authenticate, async (req: AuthRequest, re
 });
 
 // Delete user account
-router.delete('/:id', authenticate, async (req: AuthRequest, res, next) => {
+router.delete('/:id', operation({ name: 'deleteAccount', response: SuccessSchema }), authenticate, async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
 
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'users.ts:167',message:'Delete account entry',data:{userId:id,requestUserId:req.userId},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A,B'})}).catch(()=>{});
-    // #endregion
-
     // Users can only delete their own account
     if (id !== req.userId) {
       throw new AppError(403, 'Forbidden');
     }
 
-    // #region agent log
-    const { data: userBeforeDelete } = await supabaseAdmin.from('users').select('username,first_name,last_name').eq('id',id).single();
-    const { data: authUserBeforeDelete } = await supabaseAdmin.auth.admin.getUserById(id);
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'users.ts:177',message:'Before delete - user data',data:{userId:id,username:userBeforeDelete?.username,email:authUserBeforeDelete?.user?.email,userExists:!!userBeforeDelete,authUserExists:!!authUserBeforeDelete?.user},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A,B'})}).catch(()=>{});
-    // #endregion
-
     // Delete user (this will cascade delete related records due to foreign keys)
-    const { error } = await supabaseAdmin.auth.admin.deleteUser(id);
-
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'users.ts:179',message:'After auth delete',data:{userId:id,error:error?.message,success:!error},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-    // #endregion
+    const error = await authProvider.deleteUser(id).then(() => null, (deleteError: Error) => deleteError);
 
     if (error) {
       throw new AppError(400, `Failed to delete user: ${error.message}`);
     }
 
-    // #region agent log
-    const { data: userAfterDelete } = await supabaseAdmin.from('users').select('id').eq('id',id).single();
-    const { data: authUserAfterDelete } = await supabaseAdmin.auth.admin.getUserById(id).catch(()=>({data:null}));
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'users.ts:186',message:'After delete - verify removal',data:{userId:id,userStillExists:!!userAfterDelete,authUserStillExists:!!authUserAfterDelete?.user,authUserEmail:authUserAfterDelete?.user?.email},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A,B'})}).catch(()=>{});
-    // #endregion
-
     res.json({ success: true, message: 'Account deleted successfully' });
   } catch (error) {
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'users.ts:190',message:'Delete error',data:{userId:req.params.id,error:(error as any)?.message},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A,B'})}).catch(()=>{});
-    // #endregion
     next(error);
   }
 });
@@ -0,0 +1,135 @@
+import { APTestAttemptRow, db, QuestionAttemptRow } from '../repositories/index.js';
+import { failWith } from '../utils/errors.js';
+import { getFirstResponse } from './itemAnalysis.js';
+import { calibrateItems, estimateAbility, expectedAccuracy, ItemResponse } from './irt.js';
+import { calculatePredictedAPScoreWithTier } from '../../../shared/apScore.js';
+import { AbilityReport } from '../../../shared/apiSchemas.js';
+
+// Ability estimates per student and AP class, from their first answer to each
+// practice question and AP test question, scored against item difficulties fitted
+// by `npm run calibrate-items`. Items that have not been calibrated yet count as
+// average difficulty.
+
+// Adaptive AP tests are saved with this test id (ADAPTIVE_TEST_ID in the frontend);
+// their questions are identified by the bank question they came from
+const ADAPTIVE_TEST_ID = '0';
+
+interface APTestResponse {
+  questionId: number;
+  isCorrect?: boolean;
+  credit?: number;
+  sourceQuestionId?: string;
+  freeResponse?: Record<string, string>;
+}
+
+function getAPTestItemKey(attempt: APTestAttemptRow, response: APTestResponse): string | null {
+  if (response.sourceQuestionId) {
+    return `question:${response.sourceQuestionId}`;
+  }
+  return attempt.test_id === ADAPTIVE_TEST_ID ? null : `ap_test:${attempt.test_id}:${response.questionId}`;
+}
+
+// Each student's first answer to each item of a class
+async function collectResponses(apClass: string, userId?: string): Promise<ItemResponse[]> {
+  const questions = await db.questions.list({ apClass }).catch(failWith('Failed to fetch questions'));
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+
+  const [attempts, apTestAttempts] = await Promise.all([
+    userId
+      ? db.attempts.listForUser(userId).then(rows => rows.filter(row => questionsById.has(row.question_id)))
+      : db.attempts.listForQuestions([...questionsById.keys()]),
+    userId ? db.apTests.listAttempts(userId, apClass) : db.apTests.listAttemptsForClass(apClass)
+  ]).catch(failWith('Failed to fetch attempts'));
+
+  const responses: ItemResponse[] = [];
+  const answered = new Set<string>();
+  const add = (response: ItemResponse) => {
+    const key = `${response.userId}|${response.itemKey}`;
+    if (!answered.has(key)) {
+      answered.add(key);
+      responses.push(response);
+    }
+  };
+
+  attempts.forEach((attempt: QuestionAttemptRow) => {
+    const first = getFirstResponse(attempt, questionsById.get(attempt.question_id)!);
+    if (first) {
+      add({ userId: attempt.user_id, itemKey: `question:${attempt.question_id}`, correct: first.isCorrect, credit: first.credit });
+    }
+  });
+
+  // Oldest attempt first, so a retaken test counts its first sitting
+  [...apTestAttempts]
+    .sort((a, b) => a.end_timestamp.localeCompare(b.end_timestamp))
+    .forEach(attempt => {
+      // Free responses are scored with a rubric, not right or wrong
+      for (const response of (attempt.responses as APTestResponse[]).filter(response => !response.freeResponse)) {
+        const itemKey = getAPTestItemKey(attempt, response);
+        if (itemKey) {
+          add({ userId: attempt.user_id, itemKey, correct: !!response.isCorrect, credit: response.credit });
+        }
+      }
+    });
+
+  return responses;
+}
+
+// Fit and save the difficulty of every answered item of a class; returns how many
+export async function calibrateClass(apClass: string): Promise<number> {
+  const difficulties = calibrateItems(await collectResponses(apClass));
+  await db.calibrations
+    .save([...difficulties].map(([itemKey, { difficulty, responses }]) => ({
+      item_key: itemKey,
+      ap_class: apClass,
+      difficulty,
+      responses
+    })))
+    .catch(failWith('Failed to save item calibrations'));
+  return difficulties.size;
+}
+
+export async function calibrateAllClasses(): Promise<Record<string, number>> {
+  const classes = await Promise.all([db.questions.listApClasses(), db.apTests.listApClasses()])
+    .catch(failWith('Failed to fetch AP classes'));
+  const calibrated: Record<string, number> = {};
+  for (const apClass of [...new Set(classes.flat())]) {
+    calibrated[apClass] = await calibrateClass(apClass);
+  }
+  return calibrated;
+}
+
+function predictScore(ability: number, difficulties: number[]) {
+  const accuracy = expectedAccuracy(ability, difficulties);
+  return { ...calculatePredictedAPScoreWithTier(accuracy), expectedAccuracy: accuracy };
+}
+
+/**
+ * A student's ability in an AP class and the AP score it predicts
+ * on an exam made of the class's calibrated AP test questions
+ */
+export async function getAbilityReport(userId: string, apClass: string): Promise<AbilityReport> {
+  const [responses, calibrations] = await Promise.all([
+    collectResponses(apClass, userId),
+    db.calibrations.listForClass(apClass).catch(failWith('Failed to fetch item calibrations'))
+  ]);
+
+  const difficulties = new Map(calibrations.map(row => [row.item_key, row.difficulty]));
+  const estimate = estimateAbility(responses.map(response => ({
+    difficulty: difficulties.get(response.itemKey) ?? 0,
+    correct: response.correct,
+    credit: response.credit
+  })));
+
+  // The exam is the class's AP test questions, or every item before any are calibrated
+  const examItems = calibrations.filter(row => row.item_key.startsWith('ap_test:'));
+  const examDifficulties = (examItems.length > 0 ? examItems : calibrations).map(row => row.difficulty);
+  const [low, high] = estimate.confidenceInterval;
+
+  return {
+    apClass,
+    ...estimate,
+    calibratedItems: calibrations.length,
+    predictedScore: predictScore(estimate.ability, examDifficulties),
+    scoreRange: [predictScore(low, examDifficulties).score, predictScore(high, examDifficulties).score]
+  };
+}
@@ -0,0 +1,216 @@
+// Types only: importing openapi.ts loads the routes, and with them the storage
+import type { HttpMethod, JsonSchema, OpenApiDocument, OpenApiOperation, OpenApiParameter } from './openapi.js';
+
+// Writes the frontend's API client (src/lib/generatedApi.ts) from the OpenAPI document.
+// Request and response types are the shared ones of shared/apiSchemas.ts, found by the
+// component names; responses come back with the keys of stored rows in camelCase. The
+// keys to convert are listed per response, so answers, rubric scores and other data
+// keyed by id are left as they are.
+
+const COMPONENTS_PATH = '#/components/schemas/';
+
+const HEADER = `// Generated by \`npm run generate-client\` in backend/ from the OpenAPI document served at
+// /api/docs. Do not edit: change the routes or shared/apiSchemas.ts and generate it again.`;
+
+interface ClientMethod {
+  tag: string;
+  name: string;
+  method: HttpMethod;
+  path: string;
+  operation: OpenApiOperation;
+}
+
+function componentName(schema: JsonSchema): string | null {
+  return schema.$ref?.startsWith(COMPONENTS_PATH) ? schema.$ref.slice(COMPONENTS_PATH.length) : null;
+}
+
+// The schema of a nullable value, or null for anything else
+function withoutNull(schema: JsonSchema): JsonSchema | null {
+  const members = schema.anyOf?.filter(member => member.type !== 'null');
+  return members && members.length === 1 && members.length < schema.anyOf!.length ? members[0] : null;
+}
+
+function needsCamelCase(key: string): boolean {
+  return key.includes('_');
+}
+
+function isIdentifier(key: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(key);
+}
+
+/**
+ * The key plans (see camelize in src/lib/apiClient.ts) of the components, emitted as
+ * one constant per component before the constants that use them
+ */
+class KeyPlans {
+  private readonly plans = new Map<string, string | null>();
+  readonly declarations: string[] = [];
+
+  constructor(private readonly components: Record<string, JsonSchema>) {}
+
+  // The plan of a schema as TypeScript, or null when none of its keys change
+  planOf(schema: JsonSchema): string | null {
+    const name = componentName(schema);
+    if (name) {
+      return this.componentPlan(name);
+    }
+    if (schema.items) {
+      return this.planOf(schema.items);
+    }
+    const members = schema.anyOf ?? schema.allOf;
+    if (members) {
+      const plans = members.map(member => this.planOf(member)).filter((plan): plan is string => plan !== null);
+      return plans.length === 0 ? null : plans.length === 1 ? plans[0] : `{ ${plans.map(plan => `...${plan}`).join(', ')} }`;
+    }
+
+    const entries = Object.entries(schema.properties ?? {}).flatMap(([key, property]) => {
+      const plan = this.planOf(property);
+      return plan !== null || needsCamelCase(key) ? [`${isIdentifier(key) ? key : `'${key}'`}: ${plan ?? 0}`] : [];
+    });
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : null;
+  }
+
+  private componentPlan(name: string): string | null {
+    if (!this.plans.has(name)) {
+      const schema = this.components[name];
+      if (!schema) {
+        throw new Error(`Unknown component ${name}`);
+      }
+      const plan = this.planOf(schema);
+      const constant = `${name}Keys`;
+      if (plan !== null) {
+        this.declarations.push(`const ${constant}: KeyPlan = ${plan};`);
+      }
+      this.plans.set(name, plan === null ? null : constant);
+    }
+    return this.plans.get(name)!;
+  }
+}
+
+// The type of a response, built from named components: X, X[] or X | null
+function responseType(schema: JsonSchema, prefix: string): string {
+  const name = componentName(schema);
+  if (name) {
+    return `${prefix}${name}`;
+  }
+  if (schema.type === 'array' && schema.items) {
+    return `${responseType(schema.items, prefix)}[]`;
+  }
+  const nonNull = withoutNull(schema);
+  if (nonNull) {
+    return `${responseType(nonNull, prefix)} | null`;
+  }
+  throw new Error('Response schemas must be exported from shared/apiSchemas.ts');
+}
+
+// Components a schema refers to, directly or through other components
+function collectComponents(schema: unknown, components: Record<string, JsonSchema>, found: Set<string>): void {
+  if (Array.isArray(schema)) {
+    schema.forEach(item => collectComponents(item, components, found));
+  } else if (typeof schema === 'object' && schema !== null) {
+    const name = componentName(schema as JsonSchema);
+    if (name && !found.has(name)) {
+      found.add(name);
+      collectComponents(components[name], components, found);
+    }
+    Object.values(schema).forEach(value => collectComponents(value, components, found));
+  }
+}
+
+// Query parameters as an inline type; they are plain values
+function parameterType(schema: JsonSchema): string {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map(value => JSON.stringify(value).replaceAll('"', "'")).join(' | ');
+  }
+  if (schema.anyOf) {
+    return schema.anyOf.map(parameterType).join(' | ');
+  }
+  switch (schema.type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+}
+
+function queryType(parameters: OpenApiParameter[]): string {
+  return `{ ${parameters.map(param => `${param.name}${param.required ? '' : '?'}: ${parameterType(param.schema)}`).join('; ')} }`;
+}
+
+function jsonSchemaOf(content: Record<string, { schema: JsonSchema }> | undefined): JsonSchema | null {
+  return content?.['application/json']?.schema ?? null;
+}
+
+function successContent(operation: OpenApiOperation): Record<string, { schema: JsonSchema }> {
+  const success = Object.entries(operation.responses).find(([status]) => status.startsWith('2'))?.[1];
+  if (!success?.content) {
+    throw new Error(`${operation.operationId} has no successful response`);
+  }
+  return success.content;
+}
+
+function renderMethod({ name, method, path, operation }: ClientMethod, plans: KeyPlans): string {
+  const pathParams = operation.parameters.filter(param => param.in === 'path');
+  const queryParams = operation.parameters.filter(param => param.in === 'query');
+  const bodySchema = jsonSchemaOf(operation.requestBody?.content);
+
+  const args = pathParams.map(param => `${param.name}: string`);
+  if (bodySchema) {
+    args.push(`body: ${responseType(bodySchema, 'S.')}`);
+  }
+  if (queryParams.length > 0) {
+    args.push(`query${queryParams.some(param => param.required) ? '' : '?'}: ${queryType(queryParams)}`);
+  }
+
+  const template = path.replace(/\{(\w+)\}/g, '${encodeURIComponent($1)}') + (queryParams.length > 0 ? '${queryString(query)}' : '');
+  const url = template.includes('${') ? `\`${template}\`` : `'${template}'`;
+  let call: string;
+  const responseSchema = jsonSchemaOf(successContent(operation));
+  if (!responseSchema) {
+    call = `api.download(${url})`;
+  } else {
+    const plan = plans.planOf(responseSchema);
+    const requestArgs = [url, ...(bodySchema ? ['body'] : [])].join(', ');
+    call = plan
+      ? `api.${method}<${responseType(responseSchema, 'S.')}>(${requestArgs}).then(data => camelize(data, ${plan}))`
+      : `api.${method}<${responseType(responseSchema, '')}>(${requestArgs})`;
+  }
+
+  return `  // ${method.toUpperCase()} ${path}\n  ${name}: (${args.join(', ')}) =>\n    ${call},`;
+}
+
+export function generateClient(document: OpenApiDocument): string {
+  const { schemas: components } = document.components;
+  const methods: ClientMethod[] = [];
+  for (const [path, pathItem] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(pathItem) as [HttpMethod, OpenApiOperation][]) {
+      if (operation.deprecated) {
+        continue;
+      }
+      const [tag, name] = operation.operationId.split('.');
+      methods.push({ tag, name, method, path, operation });
+    }
+  }
+
+  const responses = new Set<string>();
+  methods.forEach(({ operation }) => collectComponents(successContent(operation), components, responses));
+  const types = [...responses].sort((a, b) => a.localeCompare(b)).map(name => `export type ${name} = CamelCased<S.${name}>;`);
+
+  const plans = new KeyPlans(components);
+  const apis = document.tags.map(({ name: tag }) => {
+    const rendered = methods.filter(method => method.tag === tag).map(method => renderMethod(method, plans));
+    return `export const ${tag}Api = {\n${rendered.join('\n\n')}\n};`;
+  });
+
+  return [
+    HEADER,
+    `import api, { camelize, queryString, type CamelCased, type KeyPlan } from './apiClient';\nimport type * as S from './apiSchemas';`,
+    `// Responses, with the keys of stored rows in camelCase\n${types.join('\n')}`,
+    `// Keys of each response to turn into camelCase\n${plans.declarations.join('\n')}`,
+    ...apis,
+    `export default {\n${document.tags.map(({ name }) => `  ${name}: ${name}Api,`).join('\n')}\n};`
+  ].join('\n\n') + '\n';
+}
@@ -0,0 +1,124 @@
+import { db } from '../repositories/index.js';
+import { failWith } from '../utils/errors.js';
+import { addPointsEntry } from './pointsLedger.js';
+import { getPointsDate } from './scoring.js';
+import { logger } from '../utils/logger.js';
+import { applyLeaderboardDecay, DAILY_DECAY_RATE } from '../../../shared/scoring.js';
+
+// Leaderboard decay runs on the server for every user, whether or not they have
+// been active. A user decays once per UTC day: the run moves last_decay_timestamp
+// to today before touching scores, so repeated or overlapping runs on the same
+// day find nothing left to do.
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+// Users are read a page at a time, below PostgREST's 1000-row limit
+const USER_PAGE_SIZE = 500;
+
+export interface DecayRunSummary {
+  date: string;
+  usersDecayed: number;
+  entriesWritten: number;
+  pointsRemoved: number;
+}
+
+interface DecayUser {
+  id: string;
+  created_at: string;
+  last_decay_timestamp: string | null;
+}
+
+// Decay one user's class scores for each whole day since they last decayed
+async function decayUser(
+  user: DecayUser,
+  date: string,
+  now: number
+): Promise<{ entries: number; points: number } | null> {
+  // Users who never decayed start counting from when they signed up
+  const lastDecayDate = getPointsDate(new Date(user.last_decay_timestamp ?? user.created_at).getTime());
+  if (lastDecayDate >= date) {
+    return null;
+  }
+
+  const claimed = await db.users
+    .claimDecay(user.id, user.last_decay_timestamp, new Date(now).toISOString())
+    .catch(failWith('Failed to update decay timestamp'));
+  if (!claimed) {
+    return null;
+  }
+
+  const scores = await db.scores.listClassScores(user.id).catch(failWith('Failed to fetch class scores'));
+  let entries = 0;
+  let points = 0;
+  for (const { ap_class: apClass, score } of scores) {
+    const { newScore, daysSinceDecay } = applyLeaderboardDecay(
+      score,
+      `${lastDecayDate}T00:00:00.000Z`,
+      new Date(`${date}T00:00:00.000Z`).getTime()
+    );
+    if (newScore === score) {
+      continue;
+    }
+    await addPointsEntry({
+      userId: user.id,
+      apClass,
+      date,
+      points: newScore - score,
+      source: 'decay',
+      details: { days: daysSinceDecay, dailyRate: DAILY_DECAY_RATE, previousScore: score }
+    });
+    entries++;
+    points += score - newScore;
+  }
+  return { entries, points };
+}
+
+/**
+ * Apply leaderboard decay to every user's class scores
+ * @param now - Time of the run; decay is counted in whole UTC days up to its date
+ * @param pageSize - Users read per query
+ * @returns How many users were decayed and the ledger entries written
+ */
+export async function runDecay(now: number = Date.now(), pageSize: number = USER_PAGE_SIZE): Promise<DecayRunSummary> {
+  const date = getPointsDate(now);
+  const summary: DecayRunSummary = { date, usersDecayed: 0, entriesWritten: 0, pointsRemoved: 0 };
+
+  let afterId: string | null = null;
+  for (;;) {
+    const users: DecayUser[] = await db.users
+      .listDecayTimestamps(afterId, pageSize)
+      .catch(failWith('Failed to fetch users'));
+    for (const user of users) {
+      const result = await decayUser(user, date, now);
+      if (result) {
+        summary.usersDecayed++;
+        summary.entriesWritten += result.entries;
+        summary.pointsRemoved += result.points;
+      }
+    }
+    if (users.length < pageSize) {
+      return summary;
+    }
+    afterId = users[users.length - 1].id;
+  }
+}
+
+/**
+ * Run decay now and then every hour; only the first run of each day does any work.
+ * @returns A function that stops the scheduler
+ */
+export function startDecayScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS): () => void {
+  const tick = async () => {
+    try {
+      const summary = await runDecay();
+      if (summary.usersDecayed > 0) {
+        logger.info('decay.applied', { date: summary.date, usersDecayed: summary.usersDecayed, pointsRemoved: summary.pointsRemoved });
+      }
+    } catch (error) {
+      logger.error('decay.failed', { error });
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
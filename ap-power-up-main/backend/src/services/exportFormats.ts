@@ -0,0 +1,251 @@
+// Renderers for teacher exports: CSV for spreadsheets and an IMS QTI 2.1
+// content package so questions can be moved into an LMS.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface ExportQuestion {
+  id: string;
+  source_id?: string | null;
+  question_text: string;
+  options: { id: string; content: string }[];
+  correct_answer_id: string;
+  explanation: string | null;
+  ap_class: string;
+  unit_name: string;
+  subtopic_name: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+interface ZipEntry {
+  name: string;
+  content: string;
+}
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  // Quote anything that would break the row, and neutralise spreadsheet formulas
+  const safe = typeof value === 'string' && /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+export function questionsToCsv(questions: ExportQuestion[]): string {
+  const maxOptions = Math.max(0, ...questions.map(q => q.options?.length || 0));
+  const optionHeaders = Array.from({ length: maxOptions }, (_, idx) => `option_${String.fromCharCode(65 + idx)}`);
+
+  return toCsv(
+    ['id', 'source_id', 'ap_class', 'unit', 'subtopic', 'question', ...optionHeaders, 'correct_answer', 'explanation', 'difficulty', 'cognitive_level', 'skill_tags'],
+    questions.map(q => {
+      const metadata = q.metadata || {};
+      const options = Array.from({ length: maxOptions }, (_, idx) => q.options?.[idx]?.content ?? '');
+      return [
+        q.id,
+        q.source_id,
+        q.ap_class,
+        q.unit_name,
+        q.subtopic_name,
+        q.question_text,
+        ...options,
+        q.correct_answer_id,
+        q.explanation,
+        metadata.difficulty as string | undefined,
+        metadata.cognitiveLevel as string | undefined,
+        Array.isArray(metadata.skillTags) ? metadata.skillTags.join(';') : ''
+      ];
+    })
+  );
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// QTI identifiers must start with a letter or underscore
+function toQtiIdentifier(id: string): string {
+  const cleaned = id.replace(/[^A-Za-z0-9_.-]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `Q_${cleaned}`;
+}
+
+// Text and tables are kept in the item body; graphs are described by their data since QTI has no chart type
+function renderStimulus(metadata: Record<string, unknown>): string {
+  const stimulus = Array.isArray(metadata.stimulus) ? metadata.stimulus : [];
+  return stimulus.map((item) => {
+    const label = item.label ? `<p><strong>${escapeXml(String(item.label))}</strong></p>` : '';
+    if (item.type === 'text') {
+      return `${label}<p>${escapeXml(String(item.content ?? ''))}</p>`;
+    }
+    if (item.type === 'table') {
+      const header = (item.columns || []).map((col: unknown) => `<th>${escapeXml(String(col))}</th>`).join('');
+      const rows = (item.rows || [])
+        .map((row: unknown[]) => `<tr>${row.map(cell => `<td>${escapeXml(String(cell))}</td>`).join('')}</tr>`)
+        .join('');
+      return `${label}<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+    }
+    if (item.type === 'graph') {
+      const points = (item.data || [])
+        .map((point: { x: number; y: number }) => `<tr><td>${point.x}</td><td>${point.y}</td></tr>`)
+        .join('');
+      return `${label}<table><thead><tr><th>${escapeXml(String(item.xLabel ?? 'x'))}</th><th>${escapeXml(String(item.yLabel ?? 'y'))}</th></tr></thead><tbody>${points}</tbody></table>`;
+    }
+    return '';
+  }).join('\n      ');
+}
+
+export function questionToQtiItem(question: ExportQuestion): string {
+  const identifier = toQtiIdentifier(question.source_id || question.id);
+  const metadata = question.metadata || {};
+  const choices = (question.options || [])
+    .map(option => `        <simpleChoice identifier="${escapeXml(toQtiIdentifier(option.id))}">${escapeXml(option.content)}</simpleChoice>`)
+    .join('\n');
+  const feedback = question.explanation
+    ? `
+  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${escapeXml(question.explanation)}</modalFeedback>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"
+  identifier="${escapeXml(identifier)}" title="${escapeXml(`${question.unit_name} - ${identifier}`)}"
+  adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse>
+      <value>${escapeXml(toQtiIdentifier(question.correct_answer_id))}</value>
+    </correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+    <div>
+      ${renderStimulus(metadata)}
+      <p>${escapeXml(question.question_text)}</p>
+    </div>
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+${choices}
+    </choiceInteraction>
+  </itemBody>
+  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>${feedback}
+</assessmentItem>
+`;
+}
+
+function buildManifest(apClass: string, items: { identifier: string; href: string }[]): string {
+  const resources = items.map(item => `    <resource identifier="RES_${escapeXml(item.identifier)}" type="imsqti_item_xmlv2p1" href="${escapeXml(item.href)}">
+      <file href="${escapeXml(item.href)}"/>
+    </resource>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd"
+  identifier="MANIFEST_${escapeXml(toQtiIdentifier(apClass))}">
+  <metadata>
+    <schema>IMS Content</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources}
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * Build an IMS QTI 2.1 content package (zip with imsmanifest.xml and one file per item)
+ */
+export function buildQtiPackage(apClass: string, questions: ExportQuestion[]): Buffer {
+  const items = questions.map(question => {
+    const identifier = toQtiIdentifier(question.source_id || question.id);
+    return { identifier, href: `items/${identifier}.xml`, xml: questionToQtiItem(question) };
+  });
+
+  return createZip([
+    { name: 'imsmanifest.xml', content: buildManifest(apClass, items) },
+    ...items.map(item => ({ name: item.href, content: item.xml }))
+  ]);
+}
+
+// Minimal zip writer (stored, no compression) - enough for QTI packages without a new dependency
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const data = Buffer.from(entry.content, 'utf-8');
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // local file header signature
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(0, 8); // stored
+    local.writeUInt32LE(0, 10); // time/date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // central directory signature
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(0, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42); // local header offset
+
+    localParts.push(local, name, data);
+    centralParts.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // end of central directory signature
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -0,0 +1,288 @@
+import { APTestAttemptRow, db, FreeResponseRow, QuestionRow, StudentProfile } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { FreeResponse, GradingQueueItem } from '../../../shared/apiSchemas.js';
+import {
+  FreeResponsePart,
+  FreeResponseSummary,
+  getTotalPoints,
+  RubricScores,
+  scoreRubric,
+  validateRubricScores
+} from '../../../shared/freeResponse.js';
+
+// Free-response answers are scored against the question's rubric by the student right
+// after answering (self-score) and by a teacher of theirs from the grading queue. The
+// teacher's grade counts once there is one.
+
+export const MAX_ANSWER_LENGTH = 20000;
+
+type FreeResponseQuestion = QuestionRow & { parts: FreeResponsePart[] };
+
+// An AP test response to a free-response question, as the frontend saves it
+interface APTestFreeResponse {
+  sourceQuestionId?: string;
+  timeSpentSeconds?: number;
+  freeResponse?: Record<string, string>;
+}
+
+export function getAwardedPoints(row: FreeResponseRow): number | null {
+  return row.teacher_points ?? row.self_points;
+}
+
+function toFreeResponseQuestion(question: QuestionRow | null | undefined, questionId: string): FreeResponseQuestion {
+  if (!question) {
+    throw new AppError(404, `Question not found: ${questionId}`);
+  }
+  if (question.question_type !== 'free_response' || !question.parts) {
+    throw new AppError(400, `Question ${questionId} is not a free-response question`);
+  }
+  return question as FreeResponseQuestion;
+}
+
+// Answer text per part id; parts left out are unanswered
+function parseAnswers(parts: FreeResponsePart[], value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new AppError(400, 'answers must be an object of answer text per part id');
+  }
+
+  const partIds = new Set(parts.map(part => part.id));
+  for (const [partId, text] of Object.entries(value as Record<string, unknown>)) {
+    if (!partIds.has(partId)) {
+      throw new AppError(400, `Unknown part: ${partId}`);
+    }
+    if (typeof text !== 'string') {
+      throw new AppError(400, `answers.${partId} must be a string`);
+    }
+    if (text.length > MAX_ANSWER_LENGTH) {
+      throw new AppError(400, `answers.${partId} is longer than ${MAX_ANSWER_LENGTH} characters`);
+    }
+  }
+  return value as Record<string, string>;
+}
+
+function parseScores(parts: FreeResponsePart[], value: unknown): RubricScores {
+  const error = validateRubricScores(parts, value);
+  if (error) {
+    throw new AppError(400, error);
+  }
+  return value as RubricScores;
+}
+
+function getDisplayName(profile: StudentProfile): string {
+  return profile.display_preference === 'realName'
+    ? `${profile.first_name} ${profile.last_name}`.trim() || profile.username
+    : profile.nickname || profile.username;
+}
+
+function formatFreeResponse(row: FreeResponseRow) {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    questionId: row.question_id,
+    apTestAttemptId: row.ap_test_attempt_id,
+    answers: row.answers,
+    timeSpentSeconds: row.time_spent_seconds,
+    pointsPossible: row.points_possible,
+    selfScores: row.self_scores,
+    selfPoints: row.self_points,
+    teacherScores: row.teacher_scores,
+    teacherPoints: row.teacher_points,
+    feedback: row.feedback,
+    gradedBy: row.graded_by,
+    gradedAt: row.graded_at,
+    submittedAt: row.submitted_at
+  };
+}
+
+// A response with its question and rubric, which the student may see once they answered
+function formatWithQuestion(row: FreeResponseRow, question: QuestionRow): FreeResponse {
+  return {
+    ...formatFreeResponse(row),
+    question: {
+      id: question.id,
+      apClass: question.ap_class,
+      unitName: question.unit_name,
+      questionText: question.question_text,
+      parts: question.parts || [],
+      explanation: question.explanation
+    }
+  };
+}
+
+async function withQuestions(rows: FreeResponseRow[]) {
+  const questions = await db.questions
+    .findByIds([...new Set(rows.map(row => row.question_id))])
+    .catch(failWith('Failed to fetch questions'));
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+  return rows.map(row => formatWithQuestion(row, questionsById.get(row.question_id)!));
+}
+
+export function summarizeFreeResponses(rows: FreeResponseRow[]): FreeResponseSummary {
+  const scored = rows.filter(row => getAwardedPoints(row) !== null);
+  return {
+    questions: rows.length,
+    pointsPossible: rows.reduce((sum, row) => sum + row.points_possible, 0),
+    pointsEarned: scored.reduce((sum, row) => sum + getAwardedPoints(row)!, 0),
+    scored: scored.length,
+    graded: rows.filter(row => row.graded_at !== null).length
+  };
+}
+
+/**
+ * Save a practice answer to a free-response question
+ * @returns The response with the question's rubric, for self-scoring
+ */
+export async function submitFreeResponse(
+  userId: string,
+  questionId: string,
+  answers: unknown,
+  timeSpentSeconds: number | null
+) {
+  const question = toFreeResponseQuestion(
+    await db.questions.findById(questionId).catch(failWith('Failed to fetch question')),
+    questionId
+  );
+
+  const [row] = await db.freeResponses
+    .create([{
+      user_id: userId,
+      question_id: questionId,
+      answers: parseAnswers(question.parts, answers),
+      time_spent_seconds: timeSpentSeconds === null ? null : Math.round(timeSpentSeconds),
+      points_possible: getTotalPoints(question.parts)
+    }])
+    .catch(failWith('Failed to save free response'));
+
+  logger.info('free_response.submitted', { userId, questionId, responseId: row.id });
+  return formatWithQuestion(row, question);
+}
+
+/**
+ * Check the free-response answers of an AP test before its attempt is saved. Only
+ * answers to bank questions are kept; the frontend sends their text as `freeResponse`.
+ * @returns Rows for saveAPTestFreeResponses
+ */
+export async function buildAPTestFreeResponses(userId: string, responses: unknown): Promise<Partial<FreeResponseRow>[]> {
+  const freeResponses = (Array.isArray(responses) ? responses as APTestFreeResponse[] : []).filter(
+    response => response?.freeResponse && response.sourceQuestionId
+  );
+  if (freeResponses.length === 0) {
+    return [];
+  }
+
+  const questions = await db.questions
+    .findByIds([...new Set(freeResponses.map(response => response.sourceQuestionId!))])
+    .catch(failWith('Failed to fetch questions'));
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+
+  return freeResponses.map(response => {
+    const question = toFreeResponseQuestion(questionsById.get(response.sourceQuestionId!), response.sourceQuestionId!);
+    return {
+      user_id: userId,
+      question_id: question.id,
+      answers: parseAnswers(question.parts, response.freeResponse),
+      time_spent_seconds: typeof response.timeSpentSeconds === 'number' ? Math.round(response.timeSpentSeconds) : null,
+      points_possible: getTotalPoints(question.parts)
+    };
+  });
+}
+
+export async function saveAPTestFreeResponses(attemptId: string, rows: Partial<FreeResponseRow>[]): Promise<void> {
+  await db.freeResponses
+    .create(rows.map(row => ({ ...row, ap_test_attempt_id: attemptId })))
+    .catch(failWith('Failed to save free responses'));
+}
+
+// Report free-response points in the summaries of AP test attempts that had any
+export async function attachFreeResponseSummaries(attempts: APTestAttemptRow[]): Promise<APTestAttemptRow[]> {
+  const rows = await db.freeResponses
+    .listForAttempts(attempts.map(attempt => attempt.id))
+    .catch(failWith('Failed to fetch free responses'));
+  if (rows.length === 0) {
+    return attempts;
+  }
+
+  return attempts.map(attempt => {
+    const attemptRows = rows.filter(row => row.ap_test_attempt_id === attempt.id);
+    return attemptRows.length > 0
+      ? { ...attempt, summary: { ...attempt.summary, freeResponse: summarizeFreeResponses(attemptRows) } }
+      : attempt;
+  });
+}
+
+// A student's own responses, newest first, with the rubrics
+export async function listOwnFreeResponses(userId: string, filters: { questionId?: string; apTestAttemptId?: string }) {
+  const rows = await db.freeResponses.listForUser(userId, filters).catch(failWith('Failed to fetch free responses'));
+  return withQuestions(rows);
+}
+
+export async function selfScoreFreeResponse(userId: string, responseId: string, scores: unknown) {
+  const row = await db.freeResponses.findById(responseId).catch(failWith('Failed to fetch free response'));
+  if (!row || row.user_id !== userId) {
+    throw new AppError(404, 'Free response not found');
+  }
+
+  const question = toFreeResponseQuestion(await db.questions.findById(row.question_id), row.question_id);
+  const selfScores = parseScores(question.parts, scores);
+
+  const updated = await db.freeResponses
+    .update(responseId, { self_scores: selfScores, self_points: scoreRubric(question.parts, selfScores) })
+    .catch(failWith('Failed to save self-score'));
+  return formatWithQuestion(updated!, question);
+}
+
+// The students a teacher teaches in an AP class, with the names the teacher sees
+async function getTeacherStudents(teacherId: string, apClass: string): Promise<Map<string, string>> {
+  const classes = await db.classes.listForTeacher(teacherId).catch(failWith('Failed to fetch classes'));
+  const students = new Map<string, string>();
+  for (const classData of classes.filter(c => c.ap_class_name === apClass)) {
+    const enrolled = await db.classes.listStudents(classData.id).catch(failWith('Failed to fetch class students'));
+    enrolled.forEach(({ student_id, profile }) => students.set(student_id, getDisplayName(profile)));
+  }
+  return students;
+}
+
+/**
+ * Responses to a class's free-response questions by the teacher's students, oldest first
+ * @param ungradedOnly - Leave out responses the teacher (or another) already graded
+ */
+export async function getGradingQueue(teacherId: string, apClass: string, ungradedOnly: boolean): Promise<GradingQueueItem[]> {
+  const students = await getTeacherStudents(teacherId, apClass);
+  const rows = await db.freeResponses
+    .listForUsers([...students.keys()], ungradedOnly)
+    .catch(failWith('Failed to fetch free responses'));
+
+  return (await withQuestions(rows))
+    .filter(response => response.question.apClass === apClass)
+    .map(response => ({ ...response, studentName: students.get(response.userId)! }));
+}
+
+export async function gradeFreeResponse(teacherId: string, responseId: string, scores: unknown, feedback: unknown) {
+  const row = await db.freeResponses.findById(responseId).catch(failWith('Failed to fetch free response'));
+  if (!row) {
+    throw new AppError(404, 'Free response not found');
+  }
+
+  const question = toFreeResponseQuestion(await db.questions.findById(row.question_id), row.question_id);
+  if (!(await getTeacherStudents(teacherId, question.ap_class)).has(row.user_id)) {
+    throw new AppError(403, 'Only a teacher of this student can grade their responses');
+  }
+  if (feedback !== undefined && feedback !== null && typeof feedback !== 'string') {
+    throw new AppError(400, 'feedback must be a string');
+  }
+
+  const teacherScores = parseScores(question.parts, scores);
+  const updated = await db.freeResponses
+    .update(responseId, {
+      teacher_scores: teacherScores,
+      teacher_points: scoreRubric(question.parts, teacherScores),
+      feedback: typeof feedback === 'string' && feedback.trim() ? feedback.trim() : null,
+      graded_by: teacherId,
+      graded_at: new Date().toISOString()
+    })
+    .catch(failWith('Failed to save grade'));
+
+  logger.info('free_response.graded', { responseId, points: updated!.teacher_points, pointsPossible: row.points_possible });
+  return formatWithQuestion(updated!, question);
+}
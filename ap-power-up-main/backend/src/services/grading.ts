@@ -0,0 +1,132 @@
+import { APTestQuestionRow, QuestionRow } from '../repositories/index.js';
+import { PublicFreeResponsePart, toPublicParts } from '../../../shared/freeResponse.js';
+import { gradeItem, isKeyedQuestionType, ItemAnswer, ItemFormat, toItemFormat } from '../../../shared/itemTypes.js';
+import { APTestAttemptBody, APTestGrade, QuestionGrade } from '../../../shared/apiSchemas.js';
+import { APTestSummary, calculateAPTestSummary } from '../../../shared/apTestSummary.js';
+
+// Students get questions without their answer keys, explanations and rubrics; they are
+// only sent back once an answer has been recorded or a test submitted. Teachers see everything.
+// Answers earn credit from 0 to 1 (see shared/itemTypes.ts); only full credit is correct.
+
+export type PublicQuestion = Omit<QuestionRow, 'correct_answer_id' | 'answer_key' | 'explanation' | 'parts'> & {
+  parts: PublicFreeResponsePart[] | null;
+  item_format: ItemFormat | null; // Units of numeric questions, prompts of matching ones
+};
+export type PublicAPTestQuestion = Omit<APTestQuestionRow, 'correct_answer'>;
+
+type APTestQuestionGrade = APTestGrade['questions'][number];
+type APTestResponse = APTestAttemptBody['responses'][number];
+
+export function hideAnswerKey({ correct_answer_id, answer_key, explanation, parts, ...question }: QuestionRow): PublicQuestion {
+  return {
+    ...question,
+    parts: parts && toPublicParts(parts),
+    item_format: toItemFormat(question.question_type, answer_key)
+  };
+}
+
+export function hideAPTestAnswerKey({ correct_answer, ...question }: APTestQuestionRow): PublicAPTestQuestion {
+  return question;
+}
+
+// Credit for an answer to a multiple-choice or keyed question
+export function getCredit(question: QuestionRow, answer: ItemAnswer | undefined): number {
+  if (isKeyedQuestionType(question.question_type)) {
+    return question.answer_key ? gradeItem(question.question_type, question.answer_key, answer) : 0;
+  }
+  return typeof answer === 'string' && answer === question.correct_answer_id ? 1 : 0;
+}
+
+export function gradeQuestion(question: QuestionRow, answer: ItemAnswer | undefined): QuestionGrade {
+  const credit = getCredit(question, answer);
+  const grade: QuestionGrade = {
+    questionId: question.id,
+    selectedOptionId: typeof answer === 'string' ? answer : null,
+    isCorrect: credit === 1,
+    correctAnswerId: question.correct_answer_id,
+    explanation: question.explanation
+  };
+  return isKeyedQuestionType(question.question_type)
+    ? { ...grade, answer: answer ?? null, credit, answerKey: question.answer_key }
+    : grade;
+}
+
+// Grades every question of an AP test; unanswered questions count as wrong
+export function gradeAPTest(
+  questions: APTestQuestionRow[],
+  answers: Record<number, string | null>
+): APTestQuestionGrade[] {
+  return questions.map(question => {
+    const selectedOptionId = answers[question.question_order] ?? null;
+    return {
+      questionNumber: question.question_order,
+      selectedOptionId,
+      isCorrect: selectedOptionId !== null && selectedOptionId === question.correct_answer,
+      correctAnswer: question.correct_answer
+    };
+  });
+}
+
+/**
+ * Grades the responses of a submitted AP test with the keys the server holds: fixed tests
+ * by question number, adaptive ones by the bank question each came from. Returns null
+ * when it holds none of them (tests only in public/data), so the client's grading stands.
+ */
+export function gradeAPTestResponses(
+  responses: APTestResponse[],
+  testQuestions: APTestQuestionRow[],
+  bankQuestions: QuestionRow[]
+): APTestResponse[] | null {
+  const testQuestionsByNumber = new Map(testQuestions.map(question => [question.question_order, question]));
+  const bankQuestionsById = new Map(bankQuestions.map(question => [question.id, question]));
+  let graded = false;
+
+  const gradedResponses = responses.map(response => {
+    // Free responses are scored against their rubric instead
+    if (response.freeResponse) {
+      return response;
+    }
+    const bankQuestion = response.sourceQuestionId ? bankQuestionsById.get(response.sourceQuestionId) : undefined;
+    if (bankQuestion) {
+      graded = true;
+      const credit = getCredit(bankQuestion, response.answer !== undefined ? response.answer : response.userAnswer ?? undefined);
+      return isKeyedQuestionType(bankQuestion.question_type)
+        ? { ...response, isCorrect: credit === 1, credit }
+        : { ...response, isCorrect: credit === 1 };
+    }
+    const testQuestion = response.sourceQuestionId ? undefined : testQuestionsByNumber.get(Number(response.questionId));
+    if (testQuestion) {
+      graded = true;
+      return { ...response, isCorrect: typeof response.userAnswer === 'string' && response.userAnswer === testQuestion.correct_answer };
+    }
+    return response;
+  });
+
+  return graded ? gradedResponses : null;
+}
+
+// The summary of a graded attempt, in the sections the client's summary lists
+export function summarizeAPTestAttempt(attempt: APTestAttemptBody, responses: APTestResponse[]): APTestSummary {
+  const sections = attempt.summary.sections;
+  return calculateAPTestSummary(
+    responses.map(response => ({
+      ...response,
+      questionId: Number(response.questionId),
+      userAnswer: response.userAnswer ?? null,
+      isCorrect: response.isCorrect ?? false,
+      timeSpentSeconds: response.timeSpentSeconds ?? 0,
+      skillType: response.skillType ?? '',
+      tags: response.tags ?? [],
+      estimatedTimeSeconds: response.estimatedTimeSeconds ?? 0
+    })),
+    Date.parse(attempt.startTimestamp),
+    Date.parse(attempt.endTimestamp),
+    sections?.map(section => ({
+      id: section.sectionId,
+      name: section.name,
+      time_limit_minutes: section.timeLimitSeconds / 60,
+      question_ids: section.questionIds ?? []
+    })),
+    sections
+  );
+}
@@ -0,0 +1,77 @@
+import { db } from '../repositories/index.js';
+import { StorageError, UNIQUE_VIOLATION } from '../storage/types.js';
+import { AppError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { REQUEST_IN_PROGRESS_ERROR } from '../../../shared/apiSchemas.js';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type ClientRequestKind = 'question_attempt' | 'quiz_progress' | 'quiz_result' | 'ap_test_attempt';
+
+export interface IdempotentResult<T> {
+  response: T;
+  replayed: boolean;
+}
+
+/**
+ * Run a write at most once per client-generated id.
+ * The offline outbox resends writes until it sees a response, so a request that already
+ * succeeded returns its stored response instead of being applied again. Requests without
+ * a clientId (older clients) run normally.
+ */
+export async function runOnce<T>(
+  userId: string,
+  clientId: unknown,
+  kind: ClientRequestKind,
+  handler: () => Promise<T>
+): Promise<IdempotentResult<T>> {
+  if (clientId === undefined || clientId === null) {
+    return { response: await handler(), replayed: false };
+  }
+  if (typeof clientId !== 'string' || !UUID_PATTERN.test(clientId)) {
+    throw new AppError(400, 'clientId must be a UUID');
+  }
+
+  // Claim the id before doing the work so two concurrent replays cannot both apply it
+  try {
+    await db.clientRequests.claim(clientId, userId, kind);
+  } catch (claimError) {
+    if (!(claimError instanceof StorageError) || claimError.code !== UNIQUE_VIOLATION) {
+      throw new AppError(400, `Failed to record request: ${claimError instanceof Error ? claimError.message : claimError}`);
+    }
+
+    // The client id was already used
+    const existing = await db.clientRequests.find(clientId);
+
+    if (!existing || existing.user_id !== userId || existing.kind !== kind) {
+      throw new AppError(409, 'clientId was already used for a different request');
+    }
+    if (existing.response === null) {
+      throw new AppError(409, REQUEST_IN_PROGRESS_ERROR);
+    }
+
+    logger.info('sync.replayed', { kind, userId, clientId });
+    return { response: existing.response as T, replayed: true };
+  }
+
+  let response: T;
+  try {
+    response = await handler();
+  } catch (error) {
+    // Release the id so the client can retry after a failure
+    await db.clientRequests.release(clientId);
+    throw error;
+  }
+
+  try {
+    await db.clientRequests.saveResponse(clientId, response);
+  } catch (error) {
+    logger.error('sync.store_failed', { clientId, error });
+    // A claim without a response answers every replay with 409, so the client could never
+    // finish the write. Releasing it lets a replay run the write again instead.
+    await db.clientRequests.release(clientId).catch(releaseError => {
+      logger.error('sync.release_failed', { clientId, error: releaseError });
+    });
+  }
+
+  return { response, replayed: false };
+}
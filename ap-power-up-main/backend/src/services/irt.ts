@@ -0,0 +1,139 @@
+// Rasch (1PL) item response model: a student with ability θ answers an item of
+// difficulty b correctly with probability 1 / (1 + e^-(θ - b)). Both are on the same
+// logit scale, so a student answers an item of their own ability half the time.
+//
+// Abilities and difficulties get normal priors (MAP estimates), which keeps them
+// finite for all-correct or all-wrong answers and pulls estimates from only a few
+// answers towards the middle. The 2PL discrimination parameter needs far more answers
+// per item than practice data usually has, so it is not fitted.
+//
+// Partly right answers count as that share of a correct answer (the residual uses the
+// credit instead of 0 or 1), which keeps the estimating equations of the model.
+
+const ABILITY_PRIOR_SD = 1;
+const DIFFICULTY_PRIOR_SD = 2;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-4;
+const Z_95 = 1.96;
+
+export interface ItemResponse {
+  userId: string;
+  itemKey: string;
+  correct: boolean;
+  credit?: number; // From 0 to 1 for items with partial credit
+}
+
+// Observed score of an answer: its credit, or 1 or 0
+function getScore(answer: { correct: boolean; credit?: number }): number {
+  return answer.credit ?? (answer.correct ? 1 : 0);
+}
+
+export interface ItemDifficulty {
+  difficulty: number;
+  responses: number;
+}
+
+export interface AbilityEstimate {
+  ability: number;
+  standardError: number;
+  confidenceInterval: [number, number];
+  responses: number;
+}
+
+export function probabilityCorrect(ability: number, difficulty: number): number {
+  return 1 / (1 + Math.exp(difficulty - ability));
+}
+
+// One Newton step towards the MAP estimate of a parameter with a N(0, priorSd²) prior.
+// `sign` is 1 for abilities (more correct answers raise them) and -1 for difficulties.
+function newtonStep(value: number, residual: number, information: number, priorSd: number, sign: 1 | -1): number {
+  const precision = 1 / (priorSd * priorSd);
+  return value + (sign * residual - value * precision) / (information + precision);
+}
+
+/**
+ * Fit item difficulties from everyone's answers (joint MAP estimation)
+ * @returns Difficulty and answer count per item key
+ */
+export function calibrateItems(responses: ItemResponse[]): Map<string, ItemDifficulty> {
+  const abilities = new Map<string, number>();
+  const difficulties = new Map<string, number>();
+  for (const response of responses) {
+    abilities.set(response.userId, 0);
+    difficulties.set(response.itemKey, 0);
+  }
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const residuals = { users: new Map<string, number>(), items: new Map<string, number>() };
+    const information = { users: new Map<string, number>(), items: new Map<string, number>() };
+    for (const response of responses) {
+      const p = probabilityCorrect(abilities.get(response.userId)!, difficulties.get(response.itemKey)!);
+      const residual = getScore(response) - p;
+      residuals.users.set(response.userId, (residuals.users.get(response.userId) || 0) + residual);
+      residuals.items.set(response.itemKey, (residuals.items.get(response.itemKey) || 0) + residual);
+      information.users.set(response.userId, (information.users.get(response.userId) || 0) + p * (1 - p));
+      information.items.set(response.itemKey, (information.items.get(response.itemKey) || 0) + p * (1 - p));
+    }
+
+    let largestChange = 0;
+    for (const [userId, ability] of abilities) {
+      const next = newtonStep(ability, residuals.users.get(userId)!, information.users.get(userId)!, ABILITY_PRIOR_SD, 1);
+      largestChange = Math.max(largestChange, Math.abs(next - ability));
+      abilities.set(userId, next);
+    }
+    for (const [itemKey, difficulty] of difficulties) {
+      const next = newtonStep(difficulty, residuals.items.get(itemKey)!, information.items.get(itemKey)!, DIFFICULTY_PRIOR_SD, -1);
+      largestChange = Math.max(largestChange, Math.abs(next - difficulty));
+      difficulties.set(itemKey, next);
+    }
+    if (largestChange < TOLERANCE) {
+      break;
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const response of responses) {
+    counts.set(response.itemKey, (counts.get(response.itemKey) || 0) + 1);
+  }
+  return new Map([...difficulties].map(([itemKey, difficulty]) => [itemKey, { difficulty, responses: counts.get(itemKey)! }]));
+}
+
+/**
+ * Estimate a student's ability from their answers to items of known difficulty
+ * @returns MAP ability with its standard error and 95% confidence interval
+ */
+export function estimateAbility(answers: { difficulty: number; correct: boolean; credit?: number }[]): AbilityEstimate {
+  let ability = 0;
+  let information = 0;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let residual = 0;
+    information = 0;
+    for (const answer of answers) {
+      const p = probabilityCorrect(ability, answer.difficulty);
+      residual += getScore(answer) - p;
+      information += p * (1 - p);
+    }
+    const next = newtonStep(ability, residual, information, ABILITY_PRIOR_SD, 1);
+    const change = Math.abs(next - ability);
+    ability = next;
+    if (change < TOLERANCE) {
+      break;
+    }
+  }
+
+  const standardError = 1 / Math.sqrt(information + 1 / (ABILITY_PRIOR_SD * ABILITY_PRIOR_SD));
+  return {
+    ability,
+    standardError,
+    confidenceInterval: [ability - Z_95 * standardError, ability + Z_95 * standardError],
+    responses: answers.length
+  };
+}
+
+// Expected share of correct answers on a set of items (an exam of the class's items)
+export function expectedAccuracy(ability: number, difficulties: number[]): number {
+  if (difficulties.length === 0) {
+    return probabilityCorrect(ability, 0);
+  }
+  return difficulties.reduce((sum, difficulty) => sum + probabilityCorrect(ability, difficulty), 0) / difficulties.length;
+}
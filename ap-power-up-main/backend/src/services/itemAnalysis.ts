@@ -0,0 +1,205 @@
+import { db, QuestionAttemptRow, QuestionRow } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { AnswerEvent } from './scoring.js';
+import { getCredit } from './grading.js';
+import { ItemFlag, ItemStats } from '../../../shared/apiSchemas.js';
+
+// Classical item analysis of the question bank. Each student counts once per question,
+// with their first answer to it, graded against the current key so a corrected key
+// shows up straight away. Discrimination compares that answer with the student's
+// first answers to the other questions of the class. Items with partial credit count
+// by their credit: difficulty is the mean credit and discrimination its correlation
+// with the rest score.
+
+// Fewer responses than this are too noisy to flag a question
+export const MIN_RESPONSES_TO_FLAG = 5;
+
+type OptionStats = ItemStats['options'][number];
+
+export interface FirstResponse {
+  userId: string;
+  optionId: string | null;
+  isCorrect: boolean;
+  credit: number; // From 0 to 1
+  timeSpentSeconds: number | null;
+}
+
+// A student's first answer to a question. Rows without answer events (from before
+// they were recorded) only count when the question was answered once.
+export function getFirstResponse(attempt: QuestionAttemptRow, question: QuestionRow): FirstResponse | null {
+  const [first] = (attempt.metadata?.answer_events as AnswerEvent[] | undefined) || [];
+  if (first) {
+    const optionId = first.optionId ?? null;
+    const submitted = first.answer !== undefined ? first.answer : optionId;
+    const credit = submitted !== null
+      ? getCredit(question, submitted)
+      : first.credit ?? (first.isCorrect ? 1 : 0);
+    return {
+      userId: attempt.user_id,
+      optionId,
+      isCorrect: credit === 1,
+      credit,
+      timeSpentSeconds: first.timeSpentSeconds ?? null
+    };
+  }
+  if (attempt.attempts !== 1) {
+    return null;
+  }
+  return {
+    userId: attempt.user_id,
+    optionId: null,
+    isCorrect: attempt.is_correct,
+    credit: attempt.credit ?? (attempt.is_correct ? 1 : 0),
+    timeSpentSeconds: attempt.time_spent_seconds
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Correlation between the credit for this question and each student's rest score
+// (share of the credit for their other questions). For right-or-wrong answers this
+// is the point-biserial correlation.
+function getPointBiserial(responses: FirstResponse[], restScores: Map<string, number>): number | null {
+  const scored = responses.filter(response => restScores.has(response.userId));
+  if (scored.length === 0) {
+    return null;
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const credits = scored.map(response => response.credit);
+  const rest = scored.map(response => restScores.get(response.userId)!);
+  const creditMean = mean(credits);
+  const restMean = mean(rest);
+  const creditSd = Math.sqrt(mean(credits.map(value => (value - creditMean) ** 2)));
+  const restSd = Math.sqrt(mean(rest.map(value => (value - restMean) ** 2)));
+  if (creditSd === 0 || restSd === 0) {
+    return null;
+  }
+
+  const covariance = mean(credits.map((credit, index) => (credit - creditMean) * (rest[index] - restMean)));
+  return round(covariance / (creditSd * restSd));
+}
+
+/**
+ * Item statistics for each question from the attempts at the class's questions
+ * @param questions - Every question of the class, for the rest scores
+ * @param attempts - Attempts at those questions (others are ignored)
+ */
+export function analyzeItems(questions: QuestionRow[], attempts: QuestionAttemptRow[]): ItemStats[] {
+  const byId = new Map(questions.map(question => [question.id, question]));
+  const responses = new Map<string, FirstResponse[]>(questions.map(question => [question.id, []]));
+  for (const attempt of attempts) {
+    const question = byId.get(attempt.question_id);
+    const response = question && getFirstResponse(attempt, question);
+    if (response) {
+      responses.get(question.id)!.push(response);
+    }
+  }
+
+  // Credit and answered counts per student across the class
+  const totals = new Map<string, { credit: number; answered: number }>();
+  for (const questionResponses of responses.values()) {
+    for (const response of questionResponses) {
+      const total = totals.get(response.userId) || { credit: 0, answered: 0 };
+      total.credit += response.credit;
+      total.answered += 1;
+      totals.set(response.userId, total);
+    }
+  }
+
+  return questions.map(question => {
+    const questionResponses = responses.get(question.id)!;
+    const restScores = new Map<string, number>();
+    for (const response of questionResponses) {
+      const total = totals.get(response.userId)!;
+      if (total.answered > 1) {
+        restScores.set(response.userId, (total.credit - response.credit) / (total.answered - 1));
+      }
+    }
+
+    // Keyed item types have no single chosen option to count
+    const chosen = questionResponses.filter(response => response.optionId !== null);
+    const options: OptionStats[] = question.question_type !== 'multiple_choice' ? [] : question.options.map(option => {
+      const count = chosen.filter(response => response.optionId === option.id).length;
+      return {
+        optionId: option.id,
+        isKey: option.id === question.correct_answer_id,
+        count,
+        rate: chosen.length > 0 ? round(count / chosen.length) : 0
+      };
+    });
+
+    const pValue = questionResponses.length > 0
+      ? round(questionResponses.reduce((sum, response) => sum + response.credit, 0) / questionResponses.length)
+      : null;
+    const pointBiserial = getPointBiserial(questionResponses, restScores);
+
+    const flags: ItemFlag[] = [];
+    if (options.length > 0 && chosen.length >= MIN_RESPONSES_TO_FLAG) {
+      const keyCount = options.find(option => option.isKey)?.count ?? 0;
+      if (options.some(option => !option.isKey && option.count > keyCount)) {
+        flags.push('distractor_chosen_more_than_key');
+      }
+    }
+    if (questionResponses.length >= MIN_RESPONSES_TO_FLAG && pointBiserial !== null && pointBiserial < 0) {
+      flags.push('negative_discrimination');
+    }
+
+    return {
+      questionId: question.id,
+      apClass: question.ap_class,
+      unitName: question.unit_name,
+      questionType: question.question_type,
+      questionText: question.question_text,
+      correctAnswerId: question.correct_answer_id,
+      responses: questionResponses.length,
+      pValue,
+      pointBiserial,
+      medianTimeSeconds: median(questionResponses
+        .map(response => response.timeSpentSeconds)
+        .filter((time): time is number => time !== null)),
+      options,
+      flags
+    };
+  });
+}
+
+// Item statistics for every auto-graded question of a class
+export async function getClassItemStats(apClass: string): Promise<ItemStats[]> {
+  const questions = (await db.questions.list({ apClass }).catch(failWith('Failed to fetch questions')))
+    .filter(question => question.question_type !== 'free_response');
+  const attempts = await db.attempts
+    .listForQuestions(questions.map(question => question.id))
+    .catch(failWith('Failed to fetch attempts'));
+  return analyzeItems(questions, attempts);
+}
+
+// Item statistics for one question, with rest scores from the rest of its class
+export async function getQuestionStats(questionId: string): Promise<ItemStats> {
+  const question = await db.questions.findById(questionId).catch(failWith('Failed to fetch question'));
+  if (!question) {
+    throw new AppError(404, 'Question not found');
+  }
+
+  const [questions, questionAttempts] = await Promise.all([
+    db.questions.list({ apClass: question.ap_class }),
+    db.attempts.listForQuestions([questionId])
+  ]).catch(failWith('Failed to fetch attempts'));
+  // Only the students who answered this question matter for its statistics
+  const attempts = await db.attempts
+    .listForUsers(questionAttempts.map(attempt => attempt.user_id))
+    .catch(failWith('Failed to fetch attempts'));
+
+  return analyzeItems(questions, attempts).find(stats => stats.questionId === questionId)!;
+}
@@ -0,0 +1,24 @@
+import { getPointsDate } from './scoring.js';
+import { LeaderboardWindow } from '../../../shared/apiSchemas.js';
+
+// Leaderboards rank all-time class scores, or the points earned in the current week
+// (from Monday), month or school term (August-December, January-July), by UTC date
+// First points date counted by a window, or null for all-time
+export function getWindowStart(window: LeaderboardWindow, now: number = Date.now()): string | null {
+  const today = new Date(now);
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+
+  switch (window) {
+    case 'week': {
+      const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+      return getPointsDate(Date.UTC(year, month, today.getUTCDate() - daysSinceMonday));
+    }
+    case 'month':
+      return getPointsDate(Date.UTC(year, month, 1));
+    case 'term':
+      return getPointsDate(Date.UTC(year, month >= 7 ? 7 : 0, 1));
+    case 'all':
+      return null;
+  }
+}
@@ -0,0 +1,227 @@
+import { STATUS_CODES } from 'http';
+import { z } from 'zod/v4';
+import * as apiSchemas from '../../../shared/apiSchemas.js';
+import { apiRoutes } from '../routes/index.js';
+import { authenticate, identify } from '../middleware/auth.js';
+import { OperationInfo } from '../middleware/operation.js';
+import { RequestSchemas } from '../middleware/validate.js';
+
+// The OpenAPI document served at /api/docs, built from the routes in routes/index.ts:
+// their paths, the operation() each one starts with, the schemas they validate
+// requests with and whether they authenticate. Schemas exported from
+// shared/apiSchemas.ts become components named without their Schema suffix, which the
+// generated frontend client (services/clientGenerator.ts) maps back to the shared types.
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface OpenApiContent {
+  [contentType: string]: { schema: JsonSchema };
+}
+
+export interface OpenApiOperation {
+  operationId: string; // `${tag}.${name}`
+  tags: [string];
+  deprecated?: boolean;
+  security?: Record<string, string[]>[];
+  parameters: OpenApiParameter[];
+  requestBody?: { required: true; content: OpenApiContent };
+  responses: Record<string, { description: string; content?: OpenApiContent }>;
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string };
+  servers: { url: string }[];
+  tags: { name: string }[];
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, { type: 'http'; scheme: 'bearer' }>;
+  };
+}
+
+const COMPONENTS_PATH = '#/components/schemas/';
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+// An operation() or validate() middleware, which carry what they describe
+type Handler = (...args: never[]) => unknown;
+type DescribedHandler = Handler & { operation?: OperationInfo; schemas?: RequestSchemas };
+
+function isZodSchema(value: unknown): value is z.ZodType {
+  return typeof value === 'object' && value !== null && '_zod' in value;
+}
+
+// Every exported schema, by its component name
+const registry = z.registry<{ id: string }>();
+for (const [exportName, value] of Object.entries(apiSchemas)) {
+  if (exportName.endsWith('Schema') && isZodSchema(value)) {
+    registry.add(value, { id: exportName.slice(0, -'Schema'.length) });
+  }
+}
+
+/**
+ * Converts zod schemas to JSON Schema, collecting the exported schemas they use as
+ * components and referring to them by name
+ */
+class SchemaConverter {
+  readonly components: Record<string, JsonSchema> = {};
+
+  toJsonSchema(schema: z.ZodType): JsonSchema {
+    const converted = z.toJSONSchema(schema, { metadata: registry, unrepresentable: 'any', io: 'input' });
+    // Definitions are referred to as #/$defs/<id>
+    const { $schema, $defs, id, ...json } = JSON.parse(
+      JSON.stringify(converted).replaceAll('"#/$defs/', `"${COMPONENTS_PATH}`)
+    ) as JsonSchema & { $defs?: Record<string, JsonSchema> };
+
+    for (const [name, { id: definitionId, ...definition }] of Object.entries($defs ?? {})) {
+      this.components[name] = definition;
+    }
+    // An exported schema itself comes back inlined, with its id
+    if (typeof id === 'string') {
+      this.components[id] = json;
+      return { $ref: `${COMPONENTS_PATH}${id}` };
+    }
+    return json;
+  }
+}
+
+// Params and query strings are listed field by field, so they are converted inline
+function toParameters(schema: z.ZodType | undefined, location: OpenApiParameter['in']): OpenApiParameter[] {
+  if (!schema) {
+    return [];
+  }
+  const { properties = {}, required = [] } = z.toJSONSchema(schema, { unrepresentable: 'any', io: 'input' }) as JsonSchema;
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema: propertySchema
+  }));
+}
+
+// /classes/:code/assignments + /:assignmentId -> /classes/{code}/assignments/{assignmentId}
+function toOpenApiPath(mountPath: string, routePath: string): string {
+  return `${mountPath}${routePath === '/' ? '' : routePath}`.replace(/:(\w+)/g, '{$1}');
+}
+
+function jsonContent(schema: JsonSchema): OpenApiContent {
+  return { 'application/json': { schema } };
+}
+
+function buildOperation(
+  converter: SchemaConverter,
+  tag: string,
+  path: string,
+  handlers: DescribedHandler[]
+): OpenApiOperation {
+  const info = handlers.find(handler => handler.operation)?.operation;
+  if (!info) {
+    throw new Error(`Route ${path} does not start with an operation()`);
+  }
+  const request = handlers.find(handler => handler.schemas)?.schemas ?? {};
+
+  // Path params without a schema are plain text
+  const pathParams = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+  const validatedParams = toParameters(request.params, 'path');
+  const parameters = [
+    ...pathParams.map(name => validatedParams.find(param => param.name === name)
+      ?? { name, in: 'path' as const, required: true, schema: { type: 'string' } }),
+    ...toParameters(request.query, 'query')
+  ];
+
+  const status = info.status ?? 200;
+  const success = info.download
+    ? Object.fromEntries(info.download.map(contentType => [contentType, { schema: { type: 'string', format: 'binary' } }]))
+    : info.response && jsonContent(converter.toJsonSchema(info.response));
+  const error = { content: jsonContent(converter.toJsonSchema(apiSchemas.ApiErrorSchema)) };
+
+  const operation: OpenApiOperation = {
+    operationId: `${tag}.${info.name}`,
+    tags: [tag],
+    parameters,
+    responses: {
+      [status]: { description: STATUS_CODES[status] ?? 'Success', ...(success && { content: success }) },
+      ...((request.params || request.query || request.body) && { 400: { description: 'Invalid request', ...error } }),
+      default: { description: 'Error', ...error }
+    }
+  };
+  if (info.deprecated) {
+    operation.deprecated = true;
+  }
+  if (handlers.includes(authenticate)) {
+    operation.security = [{ bearerAuth: [] }];
+  } else if (handlers.includes(identify)) {
+    operation.security = [{ bearerAuth: [] }, {}]; // Signed in or not; teachers see more
+  }
+  if (request.body) {
+    operation.requestBody = { required: true, content: jsonContent(converter.toJsonSchema(request.body)) };
+  }
+  return operation;
+}
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  const converter = new SchemaConverter();
+  const paths: OpenApiDocument['paths'] = {};
+  const operationIds = new Set<string>();
+
+  for (const { path: mountPath, router, tag } of apiRoutes) {
+    for (const { route } of router.stack) {
+      if (!route) {
+        continue;
+      }
+      const path = toOpenApiPath(mountPath, route.path);
+      const handlers = route.stack.map(layer => layer.handle as DescribedHandler);
+      const operation = buildOperation(converter, tag, path, handlers);
+      if (operationIds.has(operation.operationId)) {
+        throw new Error(`Duplicate operation ${operation.operationId}`);
+      }
+      operationIds.add(operation.operationId);
+
+      for (const method of new Set(route.stack.map(layer => layer.method))) {
+        if (!HTTP_METHODS.includes(method as HttpMethod)) {
+          throw new Error(`Unsupported method ${method} on ${path}`);
+        }
+        paths[path] = { ...paths[path], [method]: operation };
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'AP Quiz Platform API', version: '1.0.0' },
+    servers: [{ url: '/api' }],
+    tags: [...new Set(apiRoutes.map(({ tag }) => tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(converter.components).sort(([a], [b]) => a.localeCompare(b))),
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } }
+    }
+  };
+}
+
+let document: OpenApiDocument | null = null;
+
+// Built on first request; the routes don't change while the server runs
+export function getOpenApiDocument(): OpenApiDocument {
+  document ??= buildOpenApiDocument();
+  return document;
+}
@@ -0,0 +1,83 @@
+import { db, NewPointsEntry, PointsEntryRow } from '../repositories/index.js';
+import { failWith } from '../utils/errors.js';
+import { PointsHistoryEntry } from '../../../shared/apiSchemas.js';
+
+// Class scores only change through the points ledger (daily_points). Each change is
+// appended before the score moves, so the entries of a class add up to its score
+// and a score that drifted can be rebuilt from them.
+
+// Users are read a page at a time, below PostgREST's 1000-row limit
+const USER_PAGE_SIZE = 500;
+
+export interface ScoreCorrection {
+  userId: string;
+  apClass: string;
+  previousScore: number | null;
+  score: number;
+}
+
+// Append an entry and move the class score by its points; returns the new score
+export async function addPointsEntry(entry: NewPointsEntry): Promise<number> {
+  await db.scores.addEntry(entry).catch(failWith('Failed to record points'));
+
+  const currentScore = (await db.scores.getClassScore(entry.userId, entry.apClass)) || 0;
+  const newScore = currentScore + entry.points;
+  // The entry is already recorded, so a failure here is fixed by recomputing
+  await db.scores.setClassScore(entry.userId, entry.apClass, newScore).catch(failWith('Failed to update score'));
+
+  return newScore;
+}
+
+// Rebuild a user's class scores from their ledger entries; returns the scores that changed
+export async function recomputeClassScores(userId: string): Promise<ScoreCorrection[]> {
+  const [totalsByClass, scores] = await Promise.all([
+    db.scores.sumClassEntries(userId),
+    db.scores.listClassScores(userId)
+  ]);
+
+  const current = new Map(scores.map(row => [row.ap_class, row.score]));
+  const totals = new Map(scores.map(row => [row.ap_class, 0]));
+  for (const { ap_class: apClass, points } of totalsByClass) {
+    totals.set(apClass, points);
+  }
+
+  const corrections: ScoreCorrection[] = [];
+  for (const [apClass, score] of totals) {
+    const previousScore = current.get(apClass) ?? null;
+    if (previousScore === score) {
+      continue;
+    }
+    await db.scores.setClassScore(userId, apClass, score).catch(failWith('Failed to update score'));
+    corrections.push({ userId, apClass, previousScore, score });
+  }
+  return corrections;
+}
+
+// Rebuild the class scores of every user, reading users a page at a time
+export async function recomputeAllClassScores(pageSize: number = USER_PAGE_SIZE): Promise<ScoreCorrection[]> {
+  const corrections: ScoreCorrection[] = [];
+  let afterId: string | null = null;
+  for (;;) {
+    const userIds: string[] = await db.users.listIds(afterId, pageSize).catch(failWith('Failed to fetch users'));
+    for (const userId of userIds) {
+      corrections.push(...await recomputeClassScores(userId));
+    }
+    if (userIds.length < pageSize) {
+      return corrections;
+    }
+    afterId = userIds[userIds.length - 1];
+  }
+}
+
+export function toHistoryEntry(row: PointsEntryRow): PointsHistoryEntry {
+  return {
+    id: row.id,
+    apClass: row.ap_class,
+    date: row.date,
+    points: row.points,
+    source: row.source,
+    details: row.details as PointsHistoryEntry['details'], // A PointsAward's details (services/scoring.ts)
+    note: row.note,
+    createdAt: row.created_at
+  };
+}
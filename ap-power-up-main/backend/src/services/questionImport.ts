@@ -0,0 +1,352 @@
+import { z } from 'zod';
+import { db } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { QuestionSnapshot, toQuestionSnapshot, recordRevision, recordInitialRevisions } from './questionRevisions.js';
+import { logger } from '../utils/logger.js';
+import { ImportAction, QuestionImportReport, QuestionImportResult } from '../../../shared/apiSchemas.js';
+
+// Schemas for the ClassData → Unit → Subtopic → Question format in public/data/*.json.
+// Questions are validated one at a time so a single bad question is reported, not fatal.
+
+const OptionSchema = z.object({
+  id: z.string().min(1, 'Option id is required'),
+  content: z.string()
+});
+
+const StimulusSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    label: z.string().default(''),
+    content: z.string()
+  }),
+  z.object({
+    type: z.literal('table'),
+    label: z.string().default(''),
+    columns: z.array(z.string()),
+    rows: z.array(z.array(z.union([z.string(), z.number()])))
+  }),
+  z.object({
+    type: z.literal('graph'),
+    label: z.string().default(''),
+    graphType: z.enum(['line', 'bar', 'scatter']),
+    xLabel: z.string().default(''),
+    yLabel: z.string().default(''),
+    data: z.array(z.object({ x: z.number(), y: z.number() }))
+  })
+]);
+
+const QuestionSchema = z.object({
+  id: z.string().trim().min(1, 'Question id is required'),
+  questionText: z.string().trim().min(1, 'Question text is required'),
+  // Older files list options as plain strings; they are lettered A, B, C...
+  options: z.array(z.union([z.string(), OptionSchema])).min(2, 'Questions need at least two options'),
+  correctOptionId: z.string().optional(),
+  correctAnswerId: z.string().optional(),
+  explanation: z.string().optional(),
+  commonMistakePatterns: z.array(z.string()).optional(),
+  metadata: z.object({
+    difficulty: z.string().optional(),
+    cognitiveLevel: z.string().optional(),
+    skillTags: z.array(z.string()).optional()
+  }).passthrough().optional(),
+  stimulus: z.array(StimulusSchema).nullable().optional(),
+  stimulusMeta: z.record(z.unknown()).nullable().optional()
+});
+
+const SubtopicSchema = z.object({
+  subtopicName: z.string().trim().min(1, 'Subtopic name is required'),
+  questions: z.array(z.unknown())
+});
+
+const UnitSchema = z.object({
+  unitName: z.string().trim().min(1, 'Unit name is required'),
+  subtopics: z.array(z.unknown())
+});
+
+const ClassDataSchema = z.object({
+  className: z.string().trim().min(1, 'className is required'),
+  units: z.array(z.unknown()).min(1, 'At least one unit is required')
+});
+
+type ImportQuestion = z.infer<typeof QuestionSchema>;
+
+interface PreparedQuestion {
+  sourceId: string;
+  snapshot: QuestionSnapshot;
+  result: QuestionImportResult;
+}
+
+const WRITE_BATCH_SIZE = 100;
+
+function formatIssues(error: z.ZodError, prefix = ''): string[] {
+  return error.issues.map(issue => {
+    const path = [prefix, ...issue.path.map(String)].filter(Boolean).join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+/**
+ * Find math delimiters MathText would fail to pair up.
+ * Escaped dollars (\$) are literal and are ignored.
+ */
+export function findUnbalancedLatex(text: string): string[] {
+  const problems: string[] = [];
+  const unescaped = text.replace(/\\\$/g, '');
+
+  const displayCount = (unescaped.match(/\$\$/g) || []).length;
+  if (displayCount % 2 !== 0) {
+    problems.push('unmatched $$');
+  }
+  const inlineCount = (unescaped.replace(/\$\$/g, '').match(/\$/g) || []).length;
+  if (inlineCount % 2 !== 0) {
+    problems.push('unmatched $');
+  }
+  if ((text.match(/\\\(/g) || []).length !== (text.match(/\\\)/g) || []).length) {
+    problems.push('unmatched \\( \\)');
+  }
+  if ((text.match(/\\\[/g) || []).length !== (text.match(/\\\]/g) || []).length) {
+    problems.push('unmatched \\[ \\]');
+  }
+  return problems;
+}
+
+function checkLatex(question: ImportQuestion, options: { id: string; content: string }[]): string[] {
+  const fields: [string, string | undefined][] = [
+    ['questionText', question.questionText],
+    ['explanation', question.explanation],
+    ...options.map((option): [string, string] => [`option ${option.id}`, option.content])
+  ];
+
+  return fields.flatMap(([field, text]) =>
+    findUnbalancedLatex(text || '').map(problem => `Unbalanced LaTeX in ${field}: ${problem}`)
+  );
+}
+
+function normalizeOptions(options: ImportQuestion['options']): { id: string; content: string }[] {
+  return options.map((option, idx) =>
+    typeof option === 'string'
+      ? { id: String.fromCharCode(65 + idx), content: option }
+      : { id: option.id, content: option.content }
+  );
+}
+
+// Validate one question and build the row it would become
+function prepareQuestion(
+  raw: unknown,
+  unitName: string,
+  subtopicName: string | null,
+  path: string,
+  seenIds: Set<string>
+): PreparedQuestion | QuestionImportResult {
+  const rawId = typeof (raw as { id?: unknown })?.id === 'string' ? (raw as { id: string }).id : null;
+  const result: QuestionImportResult = {
+    questionId: rawId,
+    unitName,
+    subtopicName,
+    action: 'skip',
+    errors: [],
+    warnings: []
+  };
+
+  const parsed = QuestionSchema.safeParse(raw);
+  if (!parsed.success) {
+    result.errors.push(...formatIssues(parsed.error, path));
+    return result;
+  }
+
+  const question = parsed.data;
+  const options = normalizeOptions(question.options);
+  const correctAnswerId = question.correctOptionId || question.correctAnswerId || '';
+  const optionIds = options.map(option => option.id);
+
+  if (seenIds.has(question.id)) {
+    result.errors.push(`Duplicate question id ${question.id}`);
+  }
+  seenIds.add(question.id);
+
+  if (!correctAnswerId) {
+    result.errors.push('Missing correct answer');
+  } else if (!optionIds.includes(correctAnswerId)) {
+    result.errors.push(`Correct answer "${correctAnswerId}" is not one of the options (${optionIds.join(', ')})`);
+  }
+  if (new Set(optionIds).size !== optionIds.length) {
+    result.errors.push('Duplicate option ids');
+  }
+  if (options.some(option => !option.content.trim())) {
+    result.errors.push('Every option needs content');
+  }
+
+  if (!question.explanation?.trim()) {
+    result.warnings.push('Missing explanation');
+  }
+  if (!question.metadata?.difficulty || !question.metadata?.skillTags?.length) {
+    result.warnings.push('Missing difficulty or skill tags');
+  }
+  result.warnings.push(...checkLatex(question, options));
+
+  if (result.errors.length > 0) {
+    return result;
+  }
+
+  return {
+    sourceId: question.id,
+    result,
+    snapshot: {
+      question_type: 'multiple_choice',
+      question_text: question.questionText,
+      options,
+      correct_answer_id: correctAnswerId,
+      answer_key: null,
+      parts: null,
+      explanation: question.explanation || null,
+      unit_name: unitName,
+      subtopic_name: subtopicName,
+      // Same metadata layout as the original importer, which jsonLoader reads from
+      metadata: {
+        ...(question.metadata || {}),
+        originalQuestionId: question.id,
+        commonMistakePatterns: question.commonMistakePatterns || [],
+        stimulus: question.stimulus || null,
+        stimulusMeta: question.stimulusMeta || null
+      }
+    }
+  };
+}
+
+function isPrepared(value: PreparedQuestion | QuestionImportResult): value is PreparedQuestion {
+  return 'snapshot' in value;
+}
+
+async function getExistingQuestions(sourceIds: string[]) {
+  const existing = new Map<string, QuestionSnapshot & { id: string }>();
+  const rows = await db.questions.findBySourceIds(sourceIds).catch(failWith('Failed to look up existing questions'));
+  rows.forEach(row => existing.set(row.source_id!, row));
+  return existing;
+}
+
+// JSONB does not keep key order, so compare with sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB));
+    return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function isSameSnapshot(a: QuestionSnapshot, b: QuestionSnapshot): boolean {
+  return stableStringify(toQuestionSnapshot(a)) === stableStringify(toQuestionSnapshot(b));
+}
+
+/**
+ * Validate a ClassData file and, unless dryRun is set, upsert its questions by their stable id.
+ * Invalid questions are skipped and reported; valid ones are still imported.
+ */
+export async function importClassData(
+  input: unknown,
+  options: { dryRun: boolean; userId: string | undefined }
+): Promise<QuestionImportReport> {
+  // Files exported from the app are sometimes wrapped in a one-element array
+  const rawData = Array.isArray(input) ? input[0] : input;
+  const classData = ClassDataSchema.safeParse(rawData);
+  if (!classData.success) {
+    throw new AppError(400, `Invalid question file: ${formatIssues(classData.error).join('; ')}`);
+  }
+
+  const className = classData.data.className;
+  const fileErrors: string[] = [];
+  const prepared: (PreparedQuestion | QuestionImportResult)[] = [];
+  const seenIds = new Set<string>();
+
+  classData.data.units.forEach((rawUnit, unitIdx) => {
+    const unit = UnitSchema.safeParse(rawUnit);
+    if (!unit.success) {
+      fileErrors.push(...formatIssues(unit.error, `units[${unitIdx}]`));
+      return;
+    }
+
+    unit.data.subtopics.forEach((rawSubtopic, subtopicIdx) => {
+      const subtopicPath = `units[${unitIdx}].subtopics[${subtopicIdx}]`;
+      const subtopic = SubtopicSchema.safeParse(rawSubtopic);
+      if (!subtopic.success) {
+        fileErrors.push(...formatIssues(subtopic.error, subtopicPath));
+        return;
+      }
+
+      // jsonLoader groups questions without a subtopic under "General"
+      const subtopicName = subtopic.data.subtopicName === 'General' ? null : subtopic.data.subtopicName;
+      subtopic.data.questions.forEach((rawQuestion, questionIdx) => {
+        prepared.push(prepareQuestion(
+          rawQuestion,
+          unit.data.unitName,
+          subtopicName,
+          `${subtopicPath}.questions[${questionIdx}]`,
+          seenIds
+        ));
+      });
+    });
+  });
+
+  const valid = prepared.filter(isPrepared);
+  const existing = await getExistingQuestions(valid.map(question => question.sourceId));
+
+  valid.forEach(question => {
+    const current = existing.get(question.sourceId);
+    question.result.action = !current ? 'create' : isSameSnapshot(current, question.snapshot) ? 'unchanged' : 'update';
+  });
+
+  if (!options.dryRun) {
+    await writeQuestions(className, valid.filter(q => q.result.action !== 'unchanged'), existing, options.userId);
+  }
+
+  const results = prepared.map(item => (isPrepared(item) ? item.result : item));
+  const count = (action: ImportAction) => results.filter(r => r.action === action).length;
+
+  logger.info('questions.imported', { apClass: className, dryRun: !!options.dryRun, questions: results.length, skipped: count('skip') });
+
+  return {
+    dryRun: options.dryRun,
+    className,
+    fileErrors,
+    summary: {
+      total: results.length,
+      create: count('create'),
+      update: count('update'),
+      unchanged: count('unchanged'),
+      skip: count('skip'),
+      warnings: results.filter(r => r.warnings.length > 0).length
+    },
+    results
+  };
+}
+
+async function writeQuestions(
+  className: string,
+  questions: PreparedQuestion[],
+  existing: Map<string, QuestionSnapshot & { id: string }>,
+  userId: string | undefined
+): Promise<void> {
+  for (let i = 0; i < questions.length; i += WRITE_BATCH_SIZE) {
+    const batch = questions.slice(i, i + WRITE_BATCH_SIZE);
+
+    const saved = await db.questions
+      .upsertBySourceId(batch.map(question => ({
+        ...question.snapshot,
+        ap_class: className,
+        source_id: question.sourceId
+      })))
+      .catch(failWith('Failed to import questions'));
+
+    const created = saved.filter(row => !existing.has(row.source_id!));
+    await recordInitialRevisions(created, userId, 'Imported');
+
+    // Re-imports that change a question go into its history like any other edit
+    for (const row of saved.filter(row => existing.has(row.source_id!))) {
+      await recordRevision(row.id, row, userId, 'Re-imported');
+    }
+  }
+}
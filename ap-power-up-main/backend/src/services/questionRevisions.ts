@@ -0,0 +1,158 @@
+import { db, QuestionRevisionRow, QuestionSnapshot } from '../repositories/index.js';
+import { StorageError, UNIQUE_VIOLATION } from '../storage/types.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { validateFreeResponseParts } from '../../../shared/freeResponse.js';
+import { isKeyedQuestionType, QUESTION_TYPES, QUESTION_TYPE_LABELS, validateAnswerKey } from '../../../shared/itemTypes.js';
+import { QuestionRevision } from '../../../shared/apiSchemas.js';
+
+export type { QuestionSnapshot };
+
+// The editable part of a questions row; ap_class and ids are not versioned.
+// Revisions from before free-response questions have no type or parts, and those from
+// before the other item types no answer key.
+export function toQuestionSnapshot(
+  row: Pick<QuestionSnapshot, 'question_text' | 'correct_answer_id' | 'unit_name'> & Partial<QuestionSnapshot>
+): QuestionSnapshot {
+  return {
+    question_type: row.question_type ?? 'multiple_choice',
+    question_text: row.question_text,
+    options: row.options ?? [],
+    correct_answer_id: row.correct_answer_id,
+    answer_key: row.answer_key ?? null,
+    parts: row.parts ?? null,
+    explanation: row.explanation ?? null,
+    unit_name: row.unit_name,
+    subtopic_name: row.subtopic_name ?? null,
+    metadata: row.metadata || {}
+  };
+}
+
+// Reject snapshots the quiz UI cannot render or grade
+export function validateQuestionSnapshot(snapshot: QuestionSnapshot): void {
+  if (!snapshot.question_text || !snapshot.question_text.trim()) {
+    throw new AppError(400, 'Question text is required');
+  }
+  if (!snapshot.unit_name) {
+    throw new AppError(400, 'Unit is required');
+  }
+  if (!QUESTION_TYPES.includes(snapshot.question_type)) {
+    throw new AppError(400, `questionType must be one of: ${QUESTION_TYPES.join(', ')}`);
+  }
+
+  // Free-response questions are scored with the rubric in their parts
+  if (snapshot.question_type === 'free_response') {
+    const error = validateFreeResponseParts(snapshot.parts);
+    if (error) {
+      throw new AppError(400, error);
+    }
+    if (snapshot.options.length > 0 || snapshot.correct_answer_id || snapshot.answer_key !== null) {
+      throw new AppError(400, 'Free-response questions have no options, correctAnswerId or answerKey');
+    }
+    return;
+  }
+
+  if (snapshot.parts !== null) {
+    throw new AppError(400, 'Only free-response questions have parts');
+  }
+  if (!Array.isArray(snapshot.options)) {
+    throw new AppError(400, 'options must be an array');
+  }
+  if (snapshot.question_type !== 'numeric' && snapshot.options.length < 2) {
+    throw new AppError(400, 'Questions need at least two options');
+  }
+
+  const optionIds = snapshot.options.map(option => option?.id);
+  if (snapshot.options.some(option => typeof option?.id !== 'string' || typeof option?.content !== 'string' || !option.content.trim())) {
+    throw new AppError(400, 'Every option needs an id and content');
+  }
+  if (new Set(optionIds).size !== optionIds.length) {
+    throw new AppError(400, 'Option ids must be unique');
+  }
+
+  // The other objective item types are graded against their answer key
+  if (isKeyedQuestionType(snapshot.question_type)) {
+    const error = validateAnswerKey(snapshot.question_type, snapshot.answer_key, snapshot.options);
+    if (error) {
+      throw new AppError(400, error);
+    }
+    if (snapshot.correct_answer_id) {
+      throw new AppError(400, `${QUESTION_TYPE_LABELS[snapshot.question_type]} questions are graded by answerKey, not correctAnswerId`);
+    }
+    return;
+  }
+
+  if (snapshot.answer_key !== null) {
+    throw new AppError(400, 'Multiple-choice questions are graded by correctAnswerId, not answerKey');
+  }
+  if (!optionIds.includes(snapshot.correct_answer_id)) {
+    throw new AppError(400, 'correctAnswerId must match one of the option ids');
+  }
+}
+
+export function formatRevision(row: QuestionRevisionRow): QuestionRevision {
+  return {
+    id: row.id,
+    questionId: row.question_id,
+    revisionNumber: row.revision_number,
+    snapshot: row.snapshot,
+    changeNote: row.change_note,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+export async function getLatestRevisionNumber(questionId: string): Promise<number> {
+  return db.questions.getLatestRevisionNumber(questionId);
+}
+
+// Append a snapshot of the question as it now stands
+export async function recordRevision(
+  questionId: string,
+  snapshot: QuestionSnapshot,
+  userId: string | undefined,
+  changeNote: string | null
+): Promise<QuestionRevisionRow> {
+  const revisionNumber = (await getLatestRevisionNumber(questionId)) + 1;
+
+  let revision: QuestionRevisionRow;
+  try {
+    [revision] = await db.questions.addRevisions([{
+      question_id: questionId,
+      revision_number: revisionNumber,
+      snapshot: toQuestionSnapshot(snapshot),
+      change_note: changeNote,
+      created_by: userId || null
+    }]);
+  } catch (error) {
+    // Two edits raced for the same revision number
+    if (error instanceof StorageError && error.code === UNIQUE_VIOLATION) {
+      throw new AppError(409, 'This question was edited at the same time - reload it and try again');
+    }
+    throw new AppError(400, `Failed to record question revision: ${error instanceof Error ? error.message : error}`);
+  }
+
+  logger.info('question.revised', { questionId, revisionNumber });
+  return revision;
+}
+
+// First revision for freshly inserted questions
+export async function recordInitialRevisions(
+  questions: (QuestionSnapshot & { id: string })[],
+  userId: string | undefined,
+  changeNote: string
+): Promise<void> {
+  if (questions.length === 0) {
+    return;
+  }
+
+  await db.questions
+    .addRevisions(questions.map(question => ({
+      question_id: question.id,
+      revision_number: 1,
+      snapshot: toQuestionSnapshot(question),
+      change_note: changeNote,
+      created_by: userId || null
+    })))
+    .catch(failWith('Failed to record question revisions'));
+}
@@ -0,0 +1,42 @@
+import { DEFAULT_EASE_FACTOR, ReviewSchedule, getReviewQuality, scheduleReview } from '../../../shared/review.js';
+
+export interface ReviewColumns {
+  review_ease_factor: number;
+  review_interval_days: number;
+  review_repetitions: number;
+  review_due_at: string;
+}
+
+// Review columns as read back from a question_attempts row
+type StoredReviewColumns = { [Column in keyof ReviewColumns]?: ReviewColumns[Column] | null };
+
+// Read the stored schedule from a question_attempts row (null if never scheduled)
+export function getStoredSchedule(row: StoredReviewColumns | null | undefined): ReviewSchedule | null {
+  if (!row?.review_due_at) {
+    return null;
+  }
+
+  return {
+    easeFactor: row.review_ease_factor ?? DEFAULT_EASE_FACTOR,
+    intervalDays: row.review_interval_days ?? 0,
+    repetitions: row.review_repetitions ?? 0,
+    dueAt: row.review_due_at
+  };
+}
+
+// Schedule the next review for an answer and return the columns to write
+export function getNextReviewColumns(
+  row: StoredReviewColumns | null | undefined,
+  isCorrect: boolean,
+  confidence: number | null | undefined,
+  now: number = Date.now()
+): ReviewColumns {
+  const schedule = scheduleReview(getStoredSchedule(row), getReviewQuality(isCorrect, confidence), now);
+
+  return {
+    review_ease_factor: schedule.easeFactor,
+    review_interval_days: schedule.intervalDays,
+    review_repetitions: schedule.repetitions,
+    review_due_at: schedule.dueAt
+  };
+}
@@ -0,0 +1,177 @@
+import { db } from '../repositories/index.js';
+import { failWith } from '../utils/errors.js';
+import { addPointsEntry } from './pointsLedger.js';
+import { logger } from '../utils/logger.js';
+import {
+  calculateAttemptAward,
+  calculateQuestionPoints,
+  calculateAccuracyBonus,
+  AttemptAwardResult,
+  QuestionScoringResult,
+  SessionScoringResult
+} from '../../../shared/scoring.js';
+import { ItemAnswer } from '../../../shared/itemTypes.js';
+import { SessionScoring } from '../../../shared/apiSchemas.js';
+
+export interface AnswerEvent {
+  timestamp: string;
+  optionId?: string;
+  answer?: ItemAnswer; // Answers to keyed item types, which have no single option id
+  timeSpentSeconds?: number;
+  confidence?: number;
+  isCorrect?: boolean;
+  credit?: number; // From 0 to 1; events from before partial credit only have isCorrect
+  questionPoints?: number;
+  pointsAwarded?: number;
+  bonusClaimed?: boolean;
+}
+
+export interface AttemptScoring {
+  question: QuestionScoringResult;
+  award: AttemptAwardResult;
+  date: string;
+}
+
+// What an award was for, stored with its ledger entry
+export type PointsAward =
+  | { source: 'attempt'; details: { questionId: string; question: QuestionScoringResult; award: AttemptAwardResult } }
+  | { source: 'session_bonus'; details: { session: SessionScoringResult; award: AttemptAwardResult } };
+
+// daily_points rows are keyed by UTC calendar date
+export function getPointsDate(now: number = Date.now()): string {
+  return new Date(now).toISOString().split('T')[0];
+}
+
+export async function getDailyPointsEarned(userId: string, date: string = getPointsDate()): Promise<number> {
+  try {
+    return await db.scores.getDailyPoints(userId, date);
+  } catch (error) {
+    logger.error('scoring.daily_points_failed', { userId, date, error });
+    return 0;
+  }
+}
+
+export async function getUserStreak(userId: string): Promise<number> {
+  const user = await db.users.findById(userId);
+  return user?.streak || 0;
+}
+
+// Credit an award to the user's class score through the points ledger. An award the
+// daily cap clipped to nothing is still recorded, so the ledger shows why it earned 0.
+// Returns the new score, or null when nothing was awarded.
+export async function applyPoints(
+  userId: string,
+  apClass: string,
+  award: PointsAward,
+  date: string = getPointsDate()
+): Promise<number | null> {
+  const points = award.details.award.finalAttemptPoints;
+  if (points <= 0 && !award.details.award.dailyCapApplied) {
+    return null;
+  }
+
+  const newScore = await addPointsEntry({ userId, apClass, date, points, source: award.source, details: { ...award.details } });
+
+  logger.info('points.awarded', { userId, apClass, points, source: award.source, newScore });
+  return points > 0 ? newScore : null;
+}
+
+// Score an attempt before it is recorded; the caller credits
+// `award.finalAttemptPoints` with applyPoints once the attempt is saved.
+// `previousCorrectTimestamps` must not include the attempt being scored.
+// `credit` scales the points of partly right answers (full credit when correct).
+export async function scoreAttempt(params: {
+  userId: string;
+  isCorrect: boolean;
+  credit?: number;
+  attemptNumber: number;
+  timeSpentSeconds: number;
+  previousCorrectTimestamps: string[];
+  now?: number;
+}): Promise<AttemptScoring> {
+  const now = params.now ?? Date.now();
+  const question = calculateQuestionPoints(
+    params.isCorrect,
+    params.attemptNumber,
+    params.timeSpentSeconds,
+    params.previousCorrectTimestamps,
+    now,
+    params.credit
+  );
+
+  const date = getPointsDate(now);
+  const [streakDays, dailyPointsSoFar] = await Promise.all([
+    getUserStreak(params.userId),
+    getDailyPointsEarned(params.userId, date)
+  ]);
+
+  const award = calculateAttemptAward(question.finalQuestionPoints, streakDays, dailyPointsSoFar);
+  return { question, award, date };
+}
+
+// Score and credit the accuracy bonus for a finished quiz session. Only the
+// latest answer event per question in `apClass` is considered, and events are
+// marked as claimed so the same answers cannot earn a second bonus.
+export async function scoreSessionBonus(userId: string, apClass: string, questionIds: string[]): Promise<SessionScoring> {
+  const attempts = await db.attempts
+    .listForQuestionsInClass(userId, apClass, questionIds)
+    .catch(failWith('Failed to fetch question attempts'));
+
+  let questionPoints = 0;
+  let attemptPoints = 0;
+  let correctAnswers = 0;
+  let totalAnswered = 0;
+  const claimed: { id: string; metadata: Record<string, unknown> }[] = [];
+
+  for (const attempt of attempts) {
+    const metadata = attempt.metadata || {};
+    const answerEvents = (metadata.answer_events as AnswerEvent[] | undefined) || [];
+    const latest = answerEvents[answerEvents.length - 1];
+
+    // Events recorded before server-side scoring have no isCorrect flag
+    if (!latest || latest.bonusClaimed || latest.isCorrect === undefined) {
+      continue;
+    }
+
+    totalAnswered += 1;
+    correctAnswers += latest.credit ?? (latest.isCorrect ? 1 : 0);
+    questionPoints += latest.questionPoints || 0;
+    attemptPoints += latest.pointsAwarded || 0;
+
+    latest.bonusClaimed = true;
+    claimed.push({ id: attempt.id, metadata: { ...metadata, answer_events: answerEvents } });
+  }
+
+  const accuracyBonus = calculateAccuracyBonus(questionPoints, correctAnswers, totalAnswered);
+  const date = getPointsDate();
+  const [streakDays, dailyPointsSoFar] = await Promise.all([
+    getUserStreak(userId),
+    getDailyPointsEarned(userId, date)
+  ]);
+
+  const award = calculateAttemptAward(accuracyBonus, streakDays, dailyPointsSoFar);
+
+  for (const { id, metadata } of claimed) {
+    await db.attempts.update(id, { metadata }).catch(failWith('Failed to update question attempt'));
+  }
+
+  const session: SessionScoringResult = {
+    questionPoints,
+    accuracyBonus,
+    streakMultiplier: award.streakMultiplier,
+    totalBeforeCap: award.totalBeforeCap,
+    dailyCapApplied: award.dailyCapApplied,
+    finalSessionPoints: award.finalAttemptPoints
+  };
+  const newScore = await applyPoints(userId, apClass, { source: 'session_bonus', details: { session, award } }, date);
+
+  return {
+    questionPoints,
+    attemptPoints,
+    accuracyBonus,
+    correctAnswers,
+    totalAnswered,
+    award,
+    newScore
+  };
+}
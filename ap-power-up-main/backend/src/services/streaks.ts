@@ -0,0 +1,148 @@
+import { db, StreakDayRow, UserRow } from '../repositories/index.js';
+import { AppError, failWith } from '../utils/errors.js';
+import { StreakCalendar } from '../../../shared/apiSchemas.js';
+
+// A streak day is a calendar date in the user's own time zone (users.timezone,
+// UTC until the client sets it), so practicing late in the evening counts for the
+// day the student sees. Keeping a streak going earns streak freezes; a freeze
+// covers one missed day and is spent automatically when the student comes back.
+
+export const STREAK_FREEZE_EARN_DAYS = 7; // One freeze for every 7 days of streak
+export const MAX_STREAK_FREEZES = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakUpdate {
+  streak: number;
+  freezesUsed: number;
+  freezeEarned: boolean;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The calendar date (YYYY-MM-DD) at `now` in a time zone
+export function getLocalDate(now: number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(new Date(now));
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00.000Z`).getTime() - new Date(`${from}T00:00:00.000Z`).getTime()) / DAY_MS);
+}
+
+// The last day the user practiced or had frozen; older users may only have last_quiz_date
+async function findLastDay(user: UserRow): Promise<StreakDayRow | { day: string; questions_answered: number } | null> {
+  const last = await db.streaks.findLastDay(user.id).catch(failWith('Failed to fetch streak'));
+  if (last) {
+    return last;
+  }
+  return user.last_quiz_date
+    ? { day: getLocalDate(new Date(user.last_quiz_date).getTime(), user.timezone), questions_answered: 0 }
+    : null;
+}
+
+/**
+ * Count a practiced question towards the user's streak. The first question of a day
+ * extends the streak if they practiced yesterday, or if their freezes cover every
+ * day missed since; otherwise the streak starts again at 1.
+ */
+export async function recordPracticeDay(user: UserRow, now: number = Date.now()): Promise<StreakUpdate> {
+  const today = getLocalDate(now, user.timezone);
+  const last = await findLastDay(user);
+
+  let streak = user.streak || 0;
+  let freezes = user.streak_freezes || 0;
+  let missedDays: string[] = [];
+
+  if (last && last.day >= today) {
+    // Already practiced today (or earlier today in a time zone further east)
+    streak = Math.max(streak, 1);
+  } else {
+    const missed = last ? daysBetween(last.day, today) - 1 : Infinity;
+    if (missed === 0) {
+      streak += 1;
+    } else if (streak > 0 && missed <= freezes) {
+      missedDays = Array.from({ length: missed }, (_, index) => addDays(last!.day, index + 1));
+      freezes -= missed;
+      streak += 1;
+    } else {
+      streak = 1;
+    }
+  }
+
+  const freezeEarned = streak > (user.streak || 0) && streak % STREAK_FREEZE_EARN_DAYS === 0 && freezes < MAX_STREAK_FREEZES;
+  if (freezeEarned) {
+    freezes += 1;
+  }
+
+  await db.streaks.recordFreezes(user.id, missedDays).catch(failWith('Failed to record streak freeze'));
+  await db.streaks
+    .recordPractice(user.id, today, last?.day === today ? last.questions_answered + 1 : 1)
+    .catch(failWith('Failed to record streak'));
+  await db.users.update(user.id, {
+    streak,
+    longest_streak: Math.max(user.longest_streak || 0, streak),
+    streak_freezes: freezes,
+    last_quiz_date: new Date(now).toISOString()
+  }).catch(failWith('Failed to update streak'));
+
+  return { streak, freezesUsed: missedDays.length, freezeEarned };
+}
+
+// The streak a user still has today: it lapses once they have missed more days
+// than their freezes can cover
+function getCurrentStreak(user: UserRow, lastDay: string | null, today: string): number {
+  if (!lastDay) {
+    return 0;
+  }
+  const missed = daysBetween(lastDay, today) - 1;
+  return missed <= (user.streak_freezes || 0) ? user.streak || 0 : 0;
+}
+
+/**
+ * The user's streak and the days they practiced or froze, for the streak calendar
+ * @param days - How many days back to include, counting today
+ */
+export async function getStreakCalendar(userId: string, days: number, now: number = Date.now()): Promise<StreakCalendar> {
+  const user = await db.users.findById(userId).catch(failWith('Failed to fetch user'));
+  if (!user) {
+    throw new AppError(404, 'User not found');
+  }
+
+  const today = getLocalDate(now, user.timezone);
+  const [last, rows] = await Promise.all([
+    findLastDay(user),
+    db.streaks.listDays(userId, addDays(today, 1 - days)).catch(failWith('Failed to fetch streak'))
+  ]);
+
+  return {
+    timezone: user.timezone,
+    today,
+    streak: getCurrentStreak(user, last?.day ?? null, today),
+    longestStreak: user.longest_streak || 0,
+    freezes: user.streak_freezes || 0,
+    maxFreezes: MAX_STREAK_FREEZES,
+    freezeEarnDays: STREAK_FREEZE_EARN_DAYS,
+    days: rows.map(row => ({ date: row.day, questionsAnswered: row.questions_answered, frozen: row.frozen }))
+  };
+}
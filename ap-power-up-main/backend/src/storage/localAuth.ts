@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { AuthProvider, AuthUser, StorageDriver } from './types.js';
+
+// Accounts for the plain Postgres driver. Rows live in auth.users like Supabase's,
+// so public.users keeps its foreign key; passwords are scrypt hashes and access
+// tokens are HS256 JWTs signed with LOCAL_AUTH_SECRET.
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const AUTH_TABLE = 'auth.users';
+const KEY_LENGTH = 64;
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface AuthUserRow {
+  id: string;
+  email: string | null;
+  encrypted_password: string;
+}
+
+interface TokenPayload {
+  sub: string;
+  email: string | null;
+  exp: number;
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function createToken(user: AuthUser, secret: string): string {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload: TokenPayload = {
+    sub: user.id,
+    email: user.email,
+    exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS
+  };
+  const body = `${header}.${base64url(JSON.stringify(payload))}`;
+  return `${body}.${sign(body, secret)}`;
+}
+
+function readToken(token: string, secret: string): TokenPayload | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as TokenPayload;
+    return decoded.exp > Date.now() / 1000 ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createLocalAuth(driver: StorageDriver, secret: string): AuthProvider {
+  async function getUser(id: string): Promise<AuthUser | null> {
+    const row = await driver.selectOne<AuthUserRow>(AUTH_TABLE, { id }, { columns: ['id', 'email'] });
+    return row ? { id: row.id, email: row.email } : null;
+  }
+
+  return {
+    async createUser(email, password, metadata) {
+      const [row] = await driver.insert<AuthUserRow>(AUTH_TABLE, {
+        email,
+        encrypted_password: await hashPassword(password),
+        raw_user_meta_data: metadata
+      });
+      return { id: row.id, email: row.email };
+    },
+
+    async signIn(email, password) {
+      const row = await driver.selectOne<AuthUserRow>(AUTH_TABLE, { email });
+      if (!row || !(await verifyPassword(password, row.encrypted_password))) {
+        return null;
+      }
+      return createToken({ id: row.id, email: row.email }, secret);
+    },
+
+    async verifyToken(token) {
+      const payload = readToken(token, secret);
+      // Tokens of deleted accounts stop working straight away
+      return payload ? getUser(payload.sub) : null;
+    },
+
+    getUser,
+
+    async findUserByEmail(email) {
+      const row = await driver.selectOne<AuthUserRow>(AUTH_TABLE, { email }, { columns: ['id', 'email'] });
+      return row ? { id: row.id, email: row.email } : null;
+    },
+
+    async deleteUser(id) {
+      await driver.delete(AUTH_TABLE, { id });
+    }
+  };
+}
@@ -0,0 +1,230 @@
+import {
+  Row,
+  SelectOptions,
+  StorageDriver,
+  StorageError,
+  Where,
+  toCondition,
+  toOrderList
+} from './types.js';
+
+// Anything with node-postgres' query signature: a pg Pool, or an in-process
+// Postgres for tests
+export interface SqlClient {
+  query(text: string, params?: unknown[]): Promise<{
+    rows: Row[];
+    fields?: { name: string; dataTypeID: number }[];
+  }>;
+}
+
+// Postgres type oids whose values are converted to match what PostgREST returns
+const INT8_OID = 20;
+const NUMERIC_OID = 1700;
+const DATE_OID = 1082;
+const TIMESTAMP_OID = 1114;
+const TIMESTAMPTZ_OID = 1184;
+
+const SQL_OPERATORS = { eq: '=', neq: '<>', lt: '<', lte: '<=', gt: '>', gte: '>=' } as const;
+
+function quoteIdentifier(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new StorageError(`Invalid identifier: ${name}`);
+  }
+  return `"${name}"`;
+}
+
+// Tables default to the public schema; "auth.users" is schema-qualified
+function quoteTable(table: string): string {
+  return table.split('.').map(quoteIdentifier).join('.');
+}
+
+function toDateString(value: Date): string {
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+function normalizeValue(value: unknown, dataTypeID: number): unknown {
+  if (value === null || value === undefined) {
+    return value ?? null;
+  }
+  switch (dataTypeID) {
+    case INT8_OID:
+    case NUMERIC_OID:
+      return Number(value);
+    case DATE_OID:
+      // node-postgres parses dates as local midnight
+      return value instanceof Date ? toDateString(value) : value;
+    case TIMESTAMP_OID:
+    case TIMESTAMPTZ_OID:
+      return new Date(value as string | Date).toISOString();
+    default:
+      return value;
+  }
+}
+
+export function createPostgresDriver(client: SqlClient): StorageDriver {
+  // JSON columns are written with JSON.stringify; arrays anywhere else are Postgres arrays
+  const jsonColumns = new Map<string, Promise<Set<string>>>();
+
+  function getJsonColumns(table: string): Promise<Set<string>> {
+    if (!jsonColumns.has(table)) {
+      const [schema, name] = table.includes('.') ? table.split('.') : ['public', table];
+      jsonColumns.set(table, client.query(
+        `SELECT column_name FROM information_schema.columns
+         WHERE table_schema = $1 AND table_name = $2 AND data_type IN ('json', 'jsonb')`,
+        [schema, name]
+      ).then(result => new Set(result.rows.map(row => String(row.column_name)))));
+    }
+    return jsonColumns.get(table)!;
+  }
+
+  async function run<T>(text: string, params: unknown[]): Promise<T[]> {
+    try {
+      const result = await client.query(text, params);
+      const fields = result.fields || [];
+      return result.rows.map(row => {
+        for (const field of fields) {
+          row[field.name] = normalizeValue(row[field.name], field.dataTypeID);
+        }
+        return row as T;
+      });
+    } catch (error) {
+      const { message, code } = error as { message?: string; code?: string };
+      throw new StorageError(message || String(error), code);
+    }
+  }
+
+  function buildWhere(where: Where = {}, params: unknown[]): string {
+    const clauses = Object.entries(where).map(([column, value]) => {
+      const condition = toCondition(value);
+      const quoted = quoteIdentifier(column);
+      if (condition.op === 'is') {
+        return `${quoted} IS NULL`;
+      }
+      params.push(condition.value);
+      if (condition.op === 'in') {
+        return `${quoted} = ANY($${params.length})`;
+      }
+      return `${quoted} ${SQL_OPERATORS[condition.op]} $${params.length}`;
+    });
+    return clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '';
+  }
+
+  function buildOrder(options: SelectOptions): string {
+    const orders = toOrderList(options.orderBy)
+      .map(order => `${quoteIdentifier(order.column)} ${order.ascending === false ? 'DESC' : 'ASC'}`);
+    return orders.length > 0 ? ` ORDER BY ${orders.join(', ')}` : '';
+  }
+
+  async function toParam(table: string, column: string, value: unknown): Promise<unknown> {
+    const json = await getJsonColumns(table);
+    return json.has(column) && value !== null && value !== undefined ? JSON.stringify(value) : value;
+  }
+
+  // INSERT ... VALUES for rows that may not all set the same columns
+  async function buildInsert(table: string, rows: Row[], params: unknown[]): Promise<{ sql: string; columns: string[] }> {
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row).filter(key => row[key] !== undefined)))];
+    const values: string[] = [];
+    for (const row of rows) {
+      const placeholders: string[] = [];
+      for (const column of columns) {
+        if (row[column] === undefined) {
+          placeholders.push('DEFAULT');
+        } else {
+          params.push(await toParam(table, column, row[column]));
+          placeholders.push(`$${params.length}`);
+        }
+      }
+      values.push(`(${placeholders.join(', ')})`);
+    }
+    return {
+      sql: `INSERT INTO ${quoteTable(table)} (${columns.map(quoteIdentifier).join(', ')}) VALUES ${values.join(', ')}`,
+      columns
+    };
+  }
+
+  async function select<T>(table: string, where?: Where, options: SelectOptions = {}): Promise<T[]> {
+    const params: unknown[] = [];
+    const columns = options.columns?.map(quoteIdentifier).join(', ') || '*';
+    const limit = options.limit ? ` LIMIT ${Math.floor(options.limit)}` : '';
+    return run<T>(`SELECT ${columns} FROM ${quoteTable(table)}${buildWhere(where, params)}${buildOrder(options)}${limit}`, params);
+  }
+
+  return {
+    name: 'postgres',
+
+    select,
+
+    async selectOne<T>(table: string, where: Where, options: SelectOptions = {}) {
+      const rows = await select<T>(table, where, { ...options, limit: 1 });
+      return rows[0] ?? null;
+    },
+
+    async count(table, where) {
+      const params: unknown[] = [];
+      const rows = await run<{ count: number }>(`SELECT COUNT(*)::int AS count FROM ${quoteTable(table)}${buildWhere(where, params)}`, params);
+      return rows[0]?.count || 0;
+    },
+
+    async insert<T>(table: string, rows: Row | Row[]) {
+      const list = Array.isArray(rows) ? rows : [rows];
+      if (list.length === 0) {
+        return [];
+      }
+      const params: unknown[] = [];
+      const { sql } = await buildInsert(table, list, params);
+      return run<T>(`${sql} RETURNING *`, params);
+    },
+
+    async update<T>(table: string, where: Where, values: Row) {
+      if (Object.keys(where).length === 0) {
+        throw new StorageError(`Refusing to update every row of ${table}`);
+      }
+      const params: unknown[] = [];
+      const assignments: string[] = [];
+      for (const [column, value] of Object.entries(values)) {
+        if (value === undefined) continue;
+        params.push(await toParam(table, column, value));
+        assignments.push(`${quoteIdentifier(column)} = $${params.length}`);
+      }
+      if (assignments.length === 0) {
+        return select<T>(table, where);
+      }
+      return run<T>(`UPDATE ${quoteTable(table)} SET ${assignments.join(', ')}${buildWhere(where, params)} RETURNING *`, params);
+    },
+
+    async upsert<T>(table: string, rows: Row | Row[], onConflict: string[]) {
+      const list = Array.isArray(rows) ? rows : [rows];
+      if (list.length === 0) {
+        return [];
+      }
+      const params: unknown[] = [];
+      const { sql, columns } = await buildInsert(table, list, params);
+      const updates = columns
+        .filter(column => !onConflict.includes(column))
+        .map(column => `${quoteIdentifier(column)} = EXCLUDED.${quoteIdentifier(column)}`);
+      const conflict = `ON CONFLICT (${onConflict.map(quoteIdentifier).join(', ')})`;
+      const action = updates.length > 0 ? `DO UPDATE SET ${updates.join(', ')}` : 'DO NOTHING';
+      return run<T>(`${sql} ${conflict} ${action} RETURNING *`, params);
+    },
+
+    async delete(table, where) {
+      if (Object.keys(where).length === 0) {
+        throw new StorageError(`Refusing to delete every row of ${table}`);
+      }
+      const params: unknown[] = [];
+      await run(`DELETE FROM ${quoteTable(table)}${buildWhere(where, params)}`, params);
+    },
+
+    async rpc<T>(fn: string, args: Row) {
+      const params: unknown[] = [];
+      const named = Object.entries(args)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => {
+          params.push(value);
+          return `${quoteIdentifier(name)} => $${params.length}`;
+        });
+      return run<T>(`SELECT * FROM ${quoteTable(fn)}(${named.join(', ')})`, params);
+    }
+  };
+}
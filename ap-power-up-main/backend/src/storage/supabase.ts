@@ -0,0 +1,189 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AuthProvider,
+  AuthUser,
+  Row,
+  SelectOptions,
+  StorageDriver,
+  StorageError,
+  Where,
+  toCondition,
+  toOrderList
+} from './types.js';
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+// The part of the PostgREST builder used here. supabase-js infers row types from
+// the select string, which is too deep for dynamic table names, so queries are
+// narrowed to this shape.
+interface QueryBuilder extends PromiseLike<QueryResult> {
+  eq(column: string, value: unknown): QueryBuilder;
+  neq(column: string, value: unknown): QueryBuilder;
+  lt(column: string, value: unknown): QueryBuilder;
+  lte(column: string, value: unknown): QueryBuilder;
+  gt(column: string, value: unknown): QueryBuilder;
+  gte(column: string, value: unknown): QueryBuilder;
+  in(column: string, values: readonly unknown[]): QueryBuilder;
+  is(column: string, value: null): QueryBuilder;
+  order(column: string, options: { ascending: boolean }): QueryBuilder;
+  limit(count: number): QueryBuilder;
+  select(columns?: string): QueryBuilder;
+}
+
+function applyWhere(builder: unknown, where: Where = {}): QueryBuilder {
+  const query = builder as QueryBuilder;
+  return Object.entries(where).reduce((filtered, [column, value]) => {
+    const condition = toCondition(value);
+    switch (condition.op) {
+      case 'is':
+        return filtered.is(column, null);
+      case 'in':
+        return filtered.in(column, condition.value as readonly unknown[]);
+      case 'eq':
+        return filtered.eq(column, condition.value);
+      default:
+        return filtered[condition.op](column, condition.value);
+    }
+  }, query);
+}
+
+function toStorageError(error: { message: string; code?: string }): StorageError {
+  return new StorageError(error.message, error.code);
+}
+
+export function createSupabaseDriver(client: SupabaseClient): StorageDriver {
+  async function select<T>(table: string, where?: Where, options: SelectOptions = {}): Promise<T[]> {
+    let query = applyWhere(client.from(table).select(options.columns?.join(', ') || '*'), where);
+    for (const order of toOrderList(options.orderBy)) {
+      query = query.order(order.column, { ascending: order.ascending ?? true });
+    }
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw toStorageError(error);
+    }
+    return (data || []) as T[];
+  }
+
+  return {
+    name: 'supabase',
+
+    select,
+
+    async selectOne<T>(table: string, where: Where, options: SelectOptions = {}) {
+      const rows = await select<T>(table, where, { ...options, limit: 1 });
+      return rows[0] ?? null;
+    },
+
+    async count(table, where) {
+      const { count, error } = await applyWhere(client.from(table).select('*', { count: 'exact', head: true }), where);
+      if (error) {
+        throw toStorageError(error);
+      }
+      return count || 0;
+    },
+
+    async insert<T>(table: string, rows: Row | Row[]) {
+      const { data, error } = await client.from(table).insert(rows).select();
+      if (error) {
+        throw toStorageError(error);
+      }
+      return (data || []) as T[];
+    },
+
+    async update<T>(table: string, where: Where, values: Row) {
+      if (Object.keys(where).length === 0) {
+        throw new StorageError(`Refusing to update every row of ${table}`);
+      }
+      const { data, error } = await applyWhere(client.from(table).update(values), where).select();
+      if (error) {
+        throw toStorageError(error);
+      }
+      return (data || []) as T[];
+    },
+
+    async upsert<T>(table: string, rows: Row | Row[], onConflict: string[]) {
+      const { data, error } = await client.from(table).upsert(rows, { onConflict: onConflict.join(',') }).select();
+      if (error) {
+        throw toStorageError(error);
+      }
+      return (data || []) as T[];
+    },
+
+    async delete(table, where) {
+      if (Object.keys(where).length === 0) {
+        throw new StorageError(`Refusing to delete every row of ${table}`);
+      }
+      const { error } = await applyWhere(client.from(table).delete(), where);
+      if (error) {
+        throw toStorageError(error);
+      }
+    },
+
+    async rpc<T>(fn: string, args: Row) {
+      const { data, error } = await client.rpc(fn, args);
+      if (error) {
+        throw toStorageError(error);
+      }
+      return (data || []) as T[];
+    }
+  };
+}
+
+function toAuthUser(user: { id: string; email?: string | null } | null | undefined): AuthUser | null {
+  return user ? { id: user.id, email: user.email ?? null } : null;
+}
+
+export function createSupabaseAuth(client: SupabaseClient): AuthProvider {
+  return {
+    async createUser(email, password, metadata) {
+      const { data, error } = await client.auth.admin.createUser({
+        email,
+        password,
+        email_confirm: true,
+        user_metadata: metadata
+      });
+      if (error || !data.user) {
+        throw new StorageError(error?.message || 'No user returned', error?.code);
+      }
+      return { id: data.user.id, email: data.user.email ?? null };
+    },
+
+    async signIn(email, password) {
+      const { data, error } = await client.auth.signInWithPassword({ email, password });
+      if (error || !data.session) {
+        return null;
+      }
+      return data.session.access_token;
+    },
+
+    async verifyToken(token) {
+      const { data, error } = await client.auth.getUser(token);
+      return error ? null : toAuthUser(data.user);
+    },
+
+    async getUser(id) {
+      const { data, error } = await client.auth.admin.getUserById(id);
+      return error ? null : toAuthUser(data.user);
+    },
+
+    async findUserByEmail(email) {
+      const { data } = await client.auth.admin.listUsers();
+      return toAuthUser(data?.users?.find(user => user.email === email));
+    },
+
+    async deleteUser(id) {
+      const { error } = await client.auth.admin.deleteUser(id);
+      if (error) {
+        throw new StorageError(error.message, error.code);
+      }
+    }
+  };
+}
@@ -0,0 +1,94 @@
+// Storage drivers run the table-level reads and writes behind the repositories,
+// so the API can use Supabase or a plain Postgres database (STORAGE_DRIVER).
+
+export type Row = Record<string, unknown>;
+
+// A where value is matched with `=`, null with `IS NULL`, and a single-key
+// object with its operator, e.g. { in: [...] } or { lte: date }
+export type Condition =
+  | { in: readonly unknown[] }
+  | { neq: unknown }
+  | { lt: unknown }
+  | { lte: unknown }
+  | { gt: unknown }
+  | { gte: unknown };
+
+export type Where = Record<string, unknown>;
+
+export interface OrderBy {
+  column: string;
+  ascending?: boolean;
+}
+
+export interface SelectOptions {
+  columns?: string[];
+  orderBy?: OrderBy | OrderBy[];
+  limit?: number;
+}
+
+export interface StorageDriver {
+  name: 'supabase' | 'postgres';
+  select<T = Row>(table: string, where?: Where, options?: SelectOptions): Promise<T[]>;
+  selectOne<T = Row>(table: string, where: Where, options?: SelectOptions): Promise<T | null>;
+  count(table: string, where?: Where): Promise<number>;
+  insert<T = Row>(table: string, rows: Row | Row[]): Promise<T[]>;
+  update<T = Row>(table: string, where: Where, values: Row): Promise<T[]>;
+  upsert<T = Row>(table: string, rows: Row | Row[], onConflict: string[]): Promise<T[]>;
+  delete(table: string, where: Where): Promise<void>;
+  // Call a SQL function (a PostgREST RPC) with named arguments and return its rows
+  rpc<T = Row>(fn: string, args: Row): Promise<T[]>;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+// Account and session handling; Supabase Auth in production, local password hashes otherwise
+export interface AuthProvider {
+  createUser(email: string, password: string, metadata: Row): Promise<AuthUser>;
+  // Returns an access token, or null when the credentials are wrong
+  signIn(email: string, password: string): Promise<string | null>;
+  verifyToken(token: string): Promise<AuthUser | null>;
+  getUser(id: string): Promise<AuthUser | null>;
+  findUserByEmail(email: string): Promise<AuthUser | null>;
+  // Profile rows are removed by the ON DELETE CASCADE from auth.users
+  deleteUser(id: string): Promise<void>;
+}
+
+// Postgres unique_violation, for callers that treat a duplicate key as a conflict
+export const UNIQUE_VIOLATION = '23505';
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, StorageError.prototype);
+  }
+}
+
+const OPERATORS = ['in', 'neq', 'lt', 'lte', 'gt', 'gte'] as const;
+export type Operator = typeof OPERATORS[number];
+
+// Split a where value into its operator and operand
+export function toCondition(value: unknown): { op: Operator | 'eq' | 'is'; value: unknown } {
+  if (value === null) {
+    return { op: 'is', value: null };
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && (OPERATORS as readonly string[]).includes(keys[0])) {
+      return { op: keys[0] as Operator, value: (value as Row)[keys[0]] };
+    }
+  }
+  return { op: 'eq', value };
+}
+
+export function toOrderList(orderBy: SelectOptions['orderBy']): OrderBy[] {
+  if (!orderBy) {
+    return [];
+  }
+  return Array.isArray(orderBy) ? orderBy : [orderBy];
+}
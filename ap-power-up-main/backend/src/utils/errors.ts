@@ -1,4 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
+import { getRequestContext } from '../middleware/requestLogger.js';
+import { logger } from './logger.js';
+import type { FieldError } from '../../../shared/apiSchemas.js';
 
 export class AppError extends Error {
   constructor(
@@ -11,23 +14,57 @@ export class AppError extends Error {
   }
 }
 
+// A request that failed its schema (see middleware/validate.ts); every invalid field is listed
+export class ValidationError extends AppError {
+  constructor(public fields: FieldError[]) {
+    super(400, fields.map(field => field.path ? `${field.path}: ${field.message}` : field.message).join('; '));
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+// Report a failed storage call as an AppError with context, e.g.
+// `await db.questions.create(row).catch(failWith('Failed to create question'))`
+export function failWith(message: string, statusCode = 400) {
+  return (error: unknown): never => {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError(statusCode, `${message}: ${error instanceof Error ? error.message : String(error)}`);
+  };
+}
+
 export const errorHandler = (
   err: Error | AppError,
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
+  const context = getRequestContext(req, res);
+
+  // Expected failures (bad input, missing rows) are logged without their stack
+  if (err instanceof AppError && err.statusCode < 500) {
+    logger.warn('error', { ...context, status: err.statusCode, message: err.message });
+    return res.status(err.statusCode).json({
+      error: err.message,
+      statusCode: err.statusCode,
+      ...(err instanceof ValidationError && { fields: err.fields })
+    });
+  }
+
+  logger.error('error', { ...context, status: err instanceof AppError ? err.statusCode : 500, error: err });
   if (err instanceof AppError) {
     return res.status(err.statusCode).json({
       error: err.message,
-      statusCode: err.statusCode
+      statusCode: err.statusCode,
+      requestId: context.requestId
     });
   }
 
-  console.error('Unexpected error:', err);
+  // The request id lets a report of the failure be matched to its log entries
   res.status(500).json({
     error: 'Internal server error',
-    statusCode: 500
+    statusCode: 500,
+    requestId: context.requestId
   });
 };
 
@@ -0,0 +1,156 @@
+import { config } from 'dotenv';
+import { createWriteStream, mkdirSync } from 'fs';
+import path from 'path';
+
+// LOG_SINKS and LOG_LEVEL can come from .env
+config();
+
+// Structured logging: every entry is one JSON object with a time, level and event name,
+// e.g. {"time":"…","level":"info","event":"request","status":200,"durationMs":12}.
+// Entries go to each sink in LOG_SINKS (stdout, file or none; default stdout), with
+// passwords, tokens and other secrets redacted first.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogEntry extends LogFields {
+  time: string;
+  level: LogLevel;
+  event: string;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface Logger {
+  debug(event: string, fields?: LogFields): void;
+  info(event: string, fields?: LogFields): void;
+  warn(event: string, fields?: LogFields): void;
+  error(event: string, fields?: LogFields): void;
+  // A logger that adds these fields to every entry, e.g. the request id
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const SECRET_KEY = /password|passwd|token|secret|authorization|cookie|api[-_]?key/i;
+const BEARER_TOKEN = /\bBearer\s+\S+/gi;
+export const REDACTED = '[REDACTED]';
+
+// One JSON line per entry
+export function stdoutSink(): LogSink {
+  return (entry) => {
+    process.stdout.write(`${JSON.stringify(entry)}\n`);
+  };
+}
+
+// Appends JSON lines to a file, creating its directory if needed
+export function fileSink(file: string): LogSink {
+  mkdirSync(path.dirname(file), { recursive: true });
+  const stream = createWriteStream(file, { flags: 'a' });
+  return (entry) => {
+    stream.write(`${JSON.stringify(entry)}\n`);
+  };
+}
+
+/**
+ * Copy a value with secrets replaced by [REDACTED]: values under keys such as password,
+ * token or authorization, and bearer tokens inside strings. Errors become their name,
+ * message and stack.
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return value.replace(BEARER_TOKEN, `Bearer ${REDACTED}`);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message), stack: value.stack && redact(value.stack) };
+  }
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, seen));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_KEY.test(key) && item !== null && item !== undefined ? REDACTED : redact(item, seen)
+  ]));
+}
+
+export function createLogger({ level = 'info', sinks, context = {} }: { level?: LogLevel; sinks: LogSink[]; context?: LogFields }): Logger {
+  const write = (entryLevel: LogLevel, event: string, fields: LogFields = {}) => {
+    if (LEVELS[entryLevel] < LEVELS[level] || sinks.length === 0) {
+      return;
+    }
+    const entry = {
+      time: new Date().toISOString(),
+      level: entryLevel,
+      event,
+      ...(redact({ ...context, ...fields }) as LogFields)
+    };
+    for (const sink of sinks) {
+      try {
+        sink(entry);
+      } catch (error) {
+        // A broken sink must not take the request down with it
+        process.stderr.write(`Log sink failed: ${error instanceof Error ? error.message : String(error)}\n`);
+      }
+    }
+  };
+
+  return {
+    debug: (event, fields) => write('debug', event, fields),
+    info: (event, fields) => write('info', event, fields),
+    warn: (event, fields) => write('warn', event, fields),
+    error: (event, fields) => write('error', event, fields),
+    child: (fields) => createLogger({ level, sinks, context: { ...context, ...fields } })
+  };
+}
+
+// LOG_SINKS is a comma-separated list; the file sink writes to LOG_FILE (default logs/api.log)
+function sinksFromEnv(): LogSink[] {
+  const names = (process.env.LOG_SINKS || 'stdout').split(',').map(name => name.trim()).filter(Boolean);
+  return names.flatMap((name): LogSink[] => {
+    switch (name) {
+      case 'stdout':
+        return [stdoutSink()];
+      case 'file':
+        return [fileSink(process.env.LOG_FILE || 'logs/api.log')];
+      case 'none':
+        return [];
+      default:
+        throw new Error(`Unknown log sink "${name}" (expected stdout, file or none)`);
+    }
+  });
+}
+
+function levelFromEnv(): LogLevel {
+  const level = process.env.LOG_LEVEL || 'info';
+  if (!(level in LEVELS)) {
+    throw new Error(`Unknown LOG_LEVEL "${level}" (expected debug, info, warn or error)`);
+  }
+  return level as LogLevel;
+}
+
+// Sinks are shared with child loggers, so one added later (e.g. by a test) sees every entry
+const sinks = sinksFromEnv();
+
+export const logger = createLogger({ level: levelFromEnv(), sinks });
+
+/**
+ * Send entries to another sink as well
+ * @returns A function that removes the sink again
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.push(sink);
+  return () => {
+    const index = sinks.indexOf(sink);
+    if (index !== -1) {
+      sinks.splice(index, 1);
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { answer, api, authHeader, createQuestion, register, TestUser } from './support/api.js';
+import { calibrateClass } from '../src/services/ability.js';
+import { calibrateItems, estimateAbility } from '../src/services/irt.js';
+
+async function abilityOf(student: TestUser, viewer: TestUser = student) {
+  const res = await api.get(`/api/users/${student.id}/ability?apClass=AP%20Biology`).set(authHeader(viewer)).expect(200);
+  return res.body;
+}
+
+function saveAPTest(student: TestUser, correct: boolean[]) {
+  return api
+    .post('/api/ap-tests/attempts')
+    .set(authHeader(student))
+    .send({
+      userId: student.id,
+      apClass: 'AP Biology',
+      testId: 1,
+      startTimestamp: '2026-03-01T15:00:00.000Z',
+      endTimestamp: '2026-03-01T15:30:00.000Z',
+      totalTimeUsedSeconds: 1800,
+      responses: correct.map((isCorrect, index) => ({ questionId: index + 1, userAnswer: 'A', isCorrect })),
+      summary: {}
+    })
+    .expect(201);
+}
+
+describe('Rasch model', () => {
+  it('makes items answered correctly less often more difficult', () => {
+    const responses = ['u1', 'u2', 'u3', 'u4'].flatMap((userId, index) => [
+      { userId, itemKey: 'easy', correct: true },
+      { userId, itemKey: 'medium', correct: index < 2 },
+      { userId, itemKey: 'hard', correct: index === 0 }
+    ]);
+    const items = calibrateItems(responses);
+
+    expect(items.get('easy')!.difficulty).toBeLessThan(items.get('medium')!.difficulty);
+    expect(items.get('medium')!.difficulty).toBeLessThan(items.get('hard')!.difficulty);
+    expect(items.get('hard')!.responses).toBe(4);
+  });
+
+  it('narrows the confidence interval with more answers', () => {
+    const few = estimateAbility([{ difficulty: 0, correct: true }, { difficulty: 0, correct: false }]);
+    const many = estimateAbility(Array.from({ length: 40 }, (_, index) => ({ difficulty: 0, correct: index % 2 === 0 })));
+
+    expect(few.ability).toBeCloseTo(0);
+    expect(many.standardError).toBeLessThan(few.standardError);
+    expect(many.confidenceInterval[0]).toBeLessThan(many.ability);
+    expect(many.confidenceInterval[1]).toBeGreaterThan(many.ability);
+  });
+});
+
+describe('ability estimates', () => {
+  it('credits answers to harder questions more', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const easy = await createQuestion(teacher, 'AP Biology');
+    const hard = await createQuestion(teacher, 'AP Biology');
+    for (let index = 0; index < 6; index++) {
+      const student = await register(`student${index}`, { apClasses: ['AP Biology'] });
+      await answer(student, easy, true).expect(200);
+      await answer(student, hard, false).expect(200);
+    }
+
+    const strong = await register('ada', { apClasses: ['AP Biology'] });
+    const weak = await register('grace', { apClasses: ['AP Biology'] });
+    await answer(strong, hard, true).expect(200);
+    await answer(weak, easy, true).expect(200);
+    expect(await calibrateClass('AP Biology')).toBe(2);
+
+    const [strongAbility, weakAbility] = [await abilityOf(strong), await abilityOf(weak)];
+    expect(strongAbility).toMatchObject({ apClass: 'AP Biology', responses: 1, calibratedItems: 2 });
+    expect(strongAbility.ability).toBeGreaterThan(weakAbility.ability);
+    expect(strongAbility.predictedScore.expectedAccuracy).toBeGreaterThan(weakAbility.predictedScore.expectedAccuracy);
+  });
+
+  it('includes AP test answers and predicts a score range', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    await saveAPTest(student, [true, true, true, true, true, true, true, false]);
+    const others = await Promise.all([register('grace'), register('alan')]);
+    for (const other of others) {
+      await saveAPTest(other, [true, true, false, false, false, false, false, false]);
+    }
+    expect(await calibrateClass('AP Biology')).toBe(8);
+
+    const report = await abilityOf(student);
+    expect(report.responses).toBe(8);
+    expect(report.ability).toBeGreaterThan(0);
+    expect(report.predictedScore).toMatchObject({ score: expect.any(Number), tier: expect.any(String) });
+    expect(report.scoreRange[0]).toBeLessThanOrEqual(report.predictedScore.score);
+    expect(report.scoreRange[1]).toBeGreaterThanOrEqual(report.predictedScore.score);
+  });
+
+  it('is private to the student and their teachers', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const other = await register('grace', { apClasses: ['AP Biology'] });
+    const teacher = await register('teach', { role: 'teacher', apClasses: ['AP Biology'] });
+    const created = await api.post('/api/classes').set(authHeader(teacher)).send({ apClassName: 'AP Biology' }).expect(201);
+    await api.post(`/api/classes/${created.body.classCode}/join`).set(authHeader(student)).expect(200);
+
+    await api.get(`/api/users/${student.id}/ability?apClass=AP%20Biology`).set(authHeader(other)).expect(403);
+    await api.get(`/api/users/${student.id}/ability`).set(authHeader(student)).expect(400);
+    expect(await abilityOf(student, teacher)).toMatchObject({ responses: 0, ability: 0 });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { api, authHeader, register, TestUser } from './support/api.js';
+
+const ATTEMPT_ID = '7d1f6a4e-2b8c-4f3a-9e51-0c6d2a7b8e90';
+const OTHER_ATTEMPT_ID = '3c9e2f7a-5d1b-4a86-b0e4-9f2a6c1d7e35';
+
+const STATE = {
+  currentQuestionIndex: 2,
+  responses: { 0: { questionId: 1, userAnswer: 'A' } },
+  flaggedQuestions: [1],
+  answerChanges: { 0: 1 },
+  clock: { sectionIndex: 0, timeRemaining: 2400, breakRemaining: null, timings: [] }
+};
+
+function save(student: TestUser, values: Record<string, unknown> = {}) {
+  return api
+    .post('/api/ap-tests/sessions')
+    .set(authHeader(student))
+    .send({
+      userId: student.id,
+      attemptId: ATTEMPT_ID,
+      apClass: 'AP Biology',
+      testId: 1,
+      startTimestamp: '2026-03-01T15:00:00.000Z',
+      state: STATE,
+      ...values
+    });
+}
+
+// An AP test assignment in a class the student joined
+async function assignTest(student: TestUser, allowPause: boolean): Promise<string> {
+  const teacher = await register('teach', { role: 'teacher' });
+  const created = await api.post('/api/classes').set(authHeader(teacher)).send({ apClassName: 'AP Biology' }).expect(201);
+  const { classCode } = created.body;
+  await api.post(`/api/classes/${classCode}/join`).set(authHeader(student)).expect(200);
+
+  const assignment = await api
+    .post(`/api/classes/${classCode}/assignments`)
+    .set(authHeader(teacher))
+    .send({ title: 'Proctored test', assignmentType: 'ap_test', apTestId: 1, dueAt: '2026-04-01T00:00:00.000Z', allowPause })
+    .expect(201);
+  expect(assignment.body.allowPause).toBe(allowPause);
+  return assignment.body.id;
+}
+
+describe('AP test sessions', () => {
+  it('autosaves a test in progress and clears it when the attempt is saved', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+
+    const saved = await save(student).expect(200);
+    expect(saved.body).toMatchObject({ id: ATTEMPT_ID, test_id: '1', allow_pause: true, state: STATE });
+
+    const later = { ...STATE, clock: { ...STATE.clock, timeRemaining: 2395 } };
+    await save(student, { state: later, startTimestamp: '2026-03-02T15:00:00.000Z' }).expect(200);
+
+    const sessions = await api.get(`/api/ap-tests/sessions/${student.id}`).set(authHeader(student)).expect(200);
+    expect(sessions.body).toHaveLength(1);
+    expect(sessions.body[0]).toMatchObject({ state: later, away_seconds: expect.any(Number) });
+    expect(Date.parse(sessions.body[0].start_timestamp)).toBe(Date.parse('2026-03-01T15:00:00.000Z'));
+
+    await api
+      .post('/api/ap-tests/attempts')
+      .set(authHeader(student))
+      .send({
+        id: ATTEMPT_ID,
+        userId: student.id,
+        apClass: 'AP Biology',
+        testId: 1,
+        startTimestamp: '2026-03-01T15:00:00.000Z',
+        endTimestamp: '2026-03-01T15:45:00.000Z',
+        totalTimeUsedSeconds: 2700,
+        responses: [],
+        summary: {}
+      })
+      .expect(201);
+
+    const after = await api.get(`/api/ap-tests/sessions/${student.id}`).set(authHeader(student)).expect(200);
+    expect(after.body).toEqual([]);
+  });
+
+  it('lets students discard a paused test to start over', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    await save(student).expect(200);
+
+    await save(student, { attemptId: OTHER_ATTEMPT_ID }).expect(200);
+    await api.delete(`/api/ap-tests/sessions/${student.id}/AP%20Biology/1`).set(authHeader(student)).expect(200);
+
+    const sessions = await api.get(`/api/ap-tests/sessions/${student.id}`).set(authHeader(student)).expect(200);
+    expect(sessions.body).toEqual([]);
+  });
+
+  it('keeps proctored assignments from being paused or restarted', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const assignmentId = await assignTest(student, false);
+
+    const saved = await save(student, { assignmentId }).expect(200);
+    expect(saved.body).toMatchObject({ assignment_id: assignmentId, allow_pause: false });
+
+    await save(student, { attemptId: OTHER_ATTEMPT_ID }).expect(409);
+    await api.delete(`/api/ap-tests/sessions/${student.id}/AP%20Biology/1`).set(authHeader(student)).expect(403);
+    // Continuing the same session keeps it proctored
+    const continued = await save(student).expect(200);
+    expect(continued.body).toMatchObject({ assignment_id: assignmentId, allow_pause: false });
+  });
+
+  it('keeps sessions private to their student', async () => {
+    const student = await register('ada');
+    const other = await register('grace');
+
+    await save(other, { userId: student.id }).expect(403);
+    await save(student, { state: [] }).expect(400);
+    await save(student, { assignmentId: '00000000-0000-4000-8000-000000000000' }).expect(404);
+    await api.get(`/api/ap-tests/sessions/${student.id}`).set(authHeader(other)).expect(403);
+    await api.delete(`/api/ap-tests/sessions/${student.id}/AP%20Biology/1`).set(authHeader(other)).expect(403);
+  });
+});
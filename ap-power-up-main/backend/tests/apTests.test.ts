@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { storage } from './support/store.js';
+import { api, authHeader, register, TestUser } from './support/api.js';
+
+function attemptFor(student: TestUser, startTimestamp: string, apClass = 'AP Biology') {
+  return {
+    userId: student.id,
+    apClass,
+    testId: 'AP_Biology_Test_1',
+    startTimestamp,
+    endTimestamp: new Date(Date.parse(startTimestamp) + 30 * 60 * 1000).toISOString(),
+    totalTimeUsedSeconds: 1800,
+    responses: [{ questionId: 'q1', selectedOptionId: 'a', isCorrect: true }],
+    summary: { correct: 1, total: 1, percentage: 100 }
+  };
+}
+
+describe('AP tests', () => {
+  it('lists tests and their questions in order', async () => {
+    await storage.insert('ap_test_questions', [2, 1].map(order => ({
+      test_id: 'AP_Biology_Test_1',
+      ap_class: 'AP Biology',
+      question_text: `Question ${order}`,
+      options: [{ id: 'a', content: 'A' }, { id: 'b', content: 'B' }],
+      correct_answer: 'a',
+      question_order: order
+    })));
+
+    const tests = await api.get('/api/ap-tests/AP%20Biology').expect(200);
+    expect(tests.body).toEqual([{ test_id: 'AP_Biology_Test_1', ap_class: 'AP Biology', question_count: 2 }]);
+
+    const questions = await api.get('/api/ap-tests/AP%20Biology/AP_Biology_Test_1/questions').expect(200);
+    expect(questions.body.map((q: { question_text: string }) => q.question_text)).toEqual(['Question 1', 'Question 2']);
+  });
+
+  it('saves attempts and lists them back, newest first', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+
+    const saved = await api
+      .post('/api/ap-tests/attempts')
+      .set(authHeader(student))
+      .send(attemptFor(student, '2026-03-01T15:00:00.000Z'))
+      .expect(201);
+    expect(saved.body).toMatchObject({
+      user_id: student.id,
+      test_id: 'AP_Biology_Test_1',
+      total_time_used_seconds: 1800,
+      summary: { correct: 1, total: 1, percentage: 100 }
+    });
+
+    await api.post('/api/ap-tests/attempts').set(authHeader(student)).send(attemptFor(student, '2026-03-08T15:00:00.000Z')).expect(201);
+    await api
+      .post('/api/ap-tests/attempts')
+      .set(authHeader(student))
+      .send(attemptFor(student, '2026-03-09T15:00:00.000Z', 'AP Chemistry'))
+      .expect(201);
+
+    const res = await api.get(`/api/ap-tests/attempts/${student.id}?apClass=AP%20Biology`).set(authHeader(student)).expect(200);
+    expect(res.body.map((a: { start_timestamp: string }) => Date.parse(a.start_timestamp))).toEqual([
+      Date.parse('2026-03-08T15:00:00.000Z'),
+      Date.parse('2026-03-01T15:00:00.000Z')
+    ]);
+    expect(res.body[1].responses).toEqual(saved.body.responses);
+  });
+
+  it('keeps attempts private to their student', async () => {
+    const student = await register('ada');
+    const other = await register('grace');
+
+    await api.post('/api/ap-tests/attempts').set(authHeader(other)).send(attemptFor(student, '2026-03-01T15:00:00.000Z')).expect(403);
+    await api.get(`/api/ap-tests/attempts/${student.id}`).set(authHeader(other)).expect(403);
+  });
+});
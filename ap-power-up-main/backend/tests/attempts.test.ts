@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { db } from '../src/repositories/index.js';
+import { answer, api, authHeader, createQuestion, register } from './support/api.js';
+
+describe('attempts and scoring', () => {
+  it('records a first attempt and credits the question\'s class', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    const res = await answer(student, questionId, true).expect(200);
+
+    expect(res.body).toMatchObject({
+      attemptNumber: 1,
+      attempts: 1,
+      correct_attempts: 1,
+      status: 'correct',
+      scoring: { apClass: 'AP Biology' }
+    });
+    const points = res.body.scoring.award.finalAttemptPoints;
+    expect(points).toBeGreaterThan(0);
+    expect(res.body.scoring.newScore).toBe(points);
+
+    const me = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+    expect(me.body.classScores['AP Biology']).toBe(points);
+    expect(me.body.streak).toBe(1);
+  });
+
+  it('updates the same attempt row on later answers', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    const first = await answer(student, questionId, true).expect(200);
+    const second = await answer(student, questionId, false).expect(200);
+
+    expect(second.body).toMatchObject({
+      id: first.body.id,
+      attempts: 2,
+      correct_attempts: 1,
+      streak: 0,
+      status: 'incorrect'
+    });
+    expect(second.body.scoring.award.finalAttemptPoints).toBe(0);
+    expect(second.body.metadata.answer_events).toHaveLength(2);
+
+    const stored = await api.get(`/api/attempts/${student.id}/${questionId}`).set(authHeader(student)).expect(200);
+    expect(stored.body).toMatchObject({ id: first.body.id, attempts: 2 });
+  });
+
+  it('does not award points twice when a client id is replayed', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+    const clientId = '0f6d6a52-2f1b-4f60-9a43-6b1d8c2f7e10';
+
+    const first = await answer(student, questionId, true, { clientId }).expect(200);
+    const replay = await answer(student, questionId, true, { clientId }).expect(200);
+
+    expect(replay.body).toEqual(first.body);
+    const me = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+    expect(me.body.classScores['AP Biology']).toBe(first.body.scoring.newScore);
+  });
+
+  it('lets a client id be replayed when its response could not be stored', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+    const clientId = '3c1e8f0a-5b7d-4e2a-9c61-0d4f2b8a7e93';
+    vi.spyOn(db.clientRequests, 'saveResponse').mockRejectedValueOnce(new Error('connection reset'));
+
+    await answer(student, questionId, true, { clientId }).expect(200);
+    const replay = await answer(student, questionId, true, { clientId }).expect(200);
+
+    expect(replay.body.attemptNumber).toBe(2);
+  });
+
+  it('only lets students record their own attempts', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada');
+    const other = await register('grace');
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    await api
+      .post('/api/attempts')
+      .set(authHeader(other))
+      .send({ userId: student.id, questionId, selectedOptionId: 'a' })
+      .expect(403);
+  });
+
+  it('returns 404 for an unknown question', async () => {
+    const student = await register('ada');
+
+    await answer(student, '00000000-0000-4000-8000-000000000000', true).expect(404);
+  });
+
+  it('rejects client-supplied score deltas', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+
+    await api
+      .post(`/api/users/${student.id}/score`)
+      .set(authHeader(student))
+      .send({ apClass: 'AP Biology', points: 1000 })
+      .expect(410);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { api, authHeader, PASSWORD, register } from './support/api.js';
+
+describe('auth', () => {
+  it('registers a student and returns their profile from /me', async () => {
+    const student = await register('Ada', { apClasses: ['AP Biology'] });
+
+    expect(student.username).toBe('ada');
+    expect(student.token).toBeTruthy();
+
+    const res = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+    expect(res.body).toMatchObject({
+      id: student.id,
+      username: 'ada',
+      role: 'student',
+      apClasses: ['AP Biology'],
+      classScores: { 'AP Biology': 0 }
+    });
+  });
+
+  it('rejects a username that is already taken', async () => {
+    await register('ada');
+
+    const res = await api
+      .post('/api/auth/register')
+      .send({ username: 'ADA', password: PASSWORD, role: 'student' })
+      .expect(400);
+    expect(res.body.error).toBe('Username already exists');
+  });
+
+  it('requires username, password and role', async () => {
+    await api.post('/api/auth/register').send({ username: 'ada', password: PASSWORD }).expect(400);
+  });
+
+  it('logs in by username, ignoring case', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+
+    const res = await api.post('/api/auth/login').send({ username: 'Ada', password: PASSWORD }).expect(200);
+    expect(res.body.user).toMatchObject({ id: student.id, apClasses: ['AP Biology'] });
+
+    await api.get('/api/auth/me').set('Authorization', `Bearer ${res.body.token}`).expect(200);
+  });
+
+  it('rejects a wrong password or unknown username', async () => {
+    await register('ada');
+
+    await api.post('/api/auth/login').send({ username: 'ada', password: 'wrong' }).expect(401);
+    await api.post('/api/auth/login').send({ username: 'grace', password: PASSWORD }).expect(401);
+  });
+
+  it('rejects requests without a valid token', async () => {
+    await api.get('/api/auth/me').expect(401);
+    await api.get('/api/auth/me').set('Authorization', 'Bearer not-a-token').expect(401);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { api, authHeader, register, TestUser } from './support/api.js';
+
+async function createClass(teacher: TestUser, apClassName = 'AP Biology'): Promise<string> {
+  const res = await api.post('/api/classes').set(authHeader(teacher)).send({ apClassName }).expect(201);
+  expect(res.body.classCode).toMatch(/^[A-Z0-9]{6}$/);
+  return res.body.classCode;
+}
+
+describe('classes', () => {
+  it('lets a student join by code and adds the AP class to their profile', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada');
+    const classCode = await createClass(teacher);
+
+    const res = await api.post(`/api/classes/${classCode}/join`).set(authHeader(student)).expect(200);
+    expect(res.body.class).toMatchObject({ class_code: classCode, ap_class_name: 'AP Biology' });
+
+    const me = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+    expect(me.body.apClasses).toEqual(['AP Biology']);
+    expect(me.body.classScores).toEqual({ 'AP Biology': 0 });
+
+    const joined = await api.get(`/api/classes/student/${student.id}`).set(authHeader(student)).expect(200);
+    expect(joined.body.map((c: { class_code: string }) => c.class_code)).toEqual([classCode]);
+
+    const taught = await api.get(`/api/classes/teacher/${teacher.id}`).set(authHeader(teacher)).expect(200);
+    expect(taught.body).toHaveLength(1);
+    expect(taught.body[0]).toMatchObject({ class_code: classCode });
+  });
+
+  it('does not add an AP class the student already has', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const classCode = await createClass(teacher);
+
+    await api.post(`/api/classes/${classCode}/join`).set(authHeader(student)).expect(200);
+
+    const me = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+    expect(me.body.apClasses).toEqual(['AP Biology']);
+  });
+
+  it('rejects joining the same class twice', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada');
+    const classCode = await createClass(teacher);
+
+    await api.post(`/api/classes/${classCode}/join`).set(authHeader(student)).expect(200);
+    await api.post(`/api/classes/${classCode}/join`).set(authHeader(student)).expect(400);
+  });
+
+  it('rejects unknown codes', async () => {
+    const student = await register('ada');
+
+    await api.post('/api/classes/NOPE00/join').set(authHeader(student)).expect(404);
+  });
+
+  it('only lets teachers create classes and students join them', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada');
+
+    await api.post('/api/classes').set(authHeader(student)).send({ apClassName: 'AP Biology' }).expect(403);
+
+    const classCode = await createClass(teacher);
+    await api.post(`/api/classes/${classCode}/join`).set(authHeader(teacher)).expect(403);
+  });
+});
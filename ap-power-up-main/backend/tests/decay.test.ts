@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { api, authHeader, register, TestUser } from './support/api.js';
+import { storage } from './support/store.js';
+import { addPointsEntry } from '../src/services/pointsLedger.js';
+import { runDecay } from '../src/services/decay.js';
+import { getPointsDate } from '../src/services/scoring.js';
+import { DAILY_DECAY_RATE } from '../../shared/scoring.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function studentWithScore(username: string, score: number): Promise<TestUser> {
+  const student = await register(username, { apClasses: ['AP Biology'] });
+  await addPointsEntry({ userId: student.id, apClass: 'AP Biology', date: getPointsDate(), points: score, source: 'adjustment', note: 'Starting score' });
+  return student;
+}
+
+async function classScore(student: TestUser): Promise<number> {
+  const me = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+  return me.body.classScores['AP Biology'];
+}
+
+describe('leaderboard decay', () => {
+  it('decays every user by the whole days since they signed up', async () => {
+    const active = await studentWithScore('ada', 10000);
+    const inactive = await studentWithScore('grace', 5000);
+    const now = Date.now() + 3 * DAY_MS;
+
+    const summary = await runDecay(now);
+    expect(summary).toMatchObject({ date: getPointsDate(now), usersDecayed: 2, entriesWritten: 2 });
+
+    const factor = Math.pow(1 - DAILY_DECAY_RATE, 3);
+    expect(await classScore(active)).toBe(Math.round(10000 * factor));
+    expect(await classScore(inactive)).toBe(Math.round(5000 * factor));
+
+    const user = await storage.selectOne<{ last_decay_timestamp: string }>('users', { id: inactive.id });
+    expect(user?.last_decay_timestamp).toBe(new Date(now).toISOString());
+  });
+
+  it('pages through every user', async () => {
+    const students = await Promise.all(['ada', 'grace', 'alan'].map(name => studentWithScore(name, 10000)));
+    const now = Date.now() + DAY_MS;
+
+    const summary = await runDecay(now, 2);
+    expect(summary.usersDecayed).toBe(3);
+    for (const student of students) {
+      expect(await classScore(student)).toBe(Math.round(10000 * (1 - DAILY_DECAY_RATE)));
+    }
+  });
+
+  it('writes a decay entry to the points ledger', async () => {
+    const student = await studentWithScore('ada', 10000);
+    await runDecay(Date.now() + 2 * DAY_MS);
+
+    const res = await api.get(`/api/users/${student.id}/points-history`).set(authHeader(student)).expect(200);
+    const [decay] = res.body;
+    expect(decay).toMatchObject({
+      source: 'decay',
+      points: Math.round(10000 * Math.pow(1 - DAILY_DECAY_RATE, 2)) - 10000,
+      details: { days: 2, previousScore: 10000 }
+    });
+    expect(decay.points + 10000).toBe(await classScore(student));
+  });
+
+  it('decays each user at most once a day', async () => {
+    const student = await studentWithScore('ada', 10000);
+    const now = Date.now() + DAY_MS;
+
+    await runDecay(now);
+    const score = await classScore(student);
+    expect(await runDecay(now + 60 * 60 * 1000)).toMatchObject({ usersDecayed: 0, entriesWritten: 0 });
+    expect(await classScore(student)).toBe(score);
+
+    await runDecay(now + DAY_MS);
+    expect(await classScore(student)).toBe(Math.round(score * (1 - DAILY_DECAY_RATE)));
+  });
+
+  it('leaves users who signed up today alone', async () => {
+    const student = await studentWithScore('ada', 10000);
+
+    expect(await runDecay()).toMatchObject({ usersDecayed: 0 });
+    expect(await classScore(student)).toBe(10000);
+  });
+});
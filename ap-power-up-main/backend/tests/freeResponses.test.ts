@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { api, authHeader, register, TestUser } from './support/api.js';
+
+const PARTS = [
+  {
+    id: 'a',
+    prompt: 'Describe the role of ATP synthase.',
+    rubric: [
+      { id: 'a1', description: 'Names the proton gradient', points: 1 },
+      { id: 'a2', description: 'Explains chemiosmosis', points: 2 }
+    ]
+  },
+  {
+    id: 'b',
+    prompt: 'Predict the effect of an uncoupler.',
+    rubric: [{ id: 'b1', description: 'Less ATP is made', points: 1 }]
+  }
+];
+
+async function createFreeResponseQuestion(teacher: TestUser): Promise<string> {
+  const res = await api
+    .post('/api/questions')
+    .set(authHeader(teacher))
+    .send({
+      apClass: 'AP Biology',
+      unitName: 'Unit 3',
+      questionText: 'Cellular respiration',
+      questionType: 'free_response',
+      parts: PARTS,
+      explanation: 'See the chemiosmosis notes.'
+    })
+    .expect(201);
+  return res.body.id;
+}
+
+// A teacher with a class of AP Biology that the student joined
+async function teacherOf(student: TestUser): Promise<TestUser> {
+  const teacher = await register('teach', { role: 'teacher' });
+  const created = await api.post('/api/classes').set(authHeader(teacher)).send({ apClassName: 'AP Biology' }).expect(201);
+  await api.post(`/api/classes/${created.body.classCode}/join`).set(authHeader(student)).expect(200);
+  return teacher;
+}
+
+function submit(student: TestUser, questionId: string, answers: Record<string, unknown>) {
+  return api.post('/api/free-responses').set(authHeader(student)).send({ questionId, answers, timeSpentSeconds: 300 });
+}
+
+describe('free-response questions', () => {
+  it('shows students the parts and their points but not the rubric', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createFreeResponseQuestion(teacher);
+
+    const res = await api.get(`/api/questions/${questionId}`).set(authHeader(student)).expect(200);
+    expect(res.body).toMatchObject({ question_type: 'free_response', options: [] });
+    expect(res.body.parts).toEqual([
+      { id: 'a', prompt: 'Describe the role of ATP synthase.', points: 3 },
+      { id: 'b', prompt: 'Predict the effect of an uncoupler.', points: 1 }
+    ]);
+
+    const asTeacher = await api.get(`/api/questions/${questionId}`).set(authHeader(teacher)).expect(200);
+    expect(asTeacher.body.parts).toEqual(PARTS);
+  });
+
+  it('rejects free-response questions without a valid rubric', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const base = { apClass: 'AP Biology', unitName: 'Unit 3', questionText: 'Respiration', questionType: 'free_response' };
+
+    await api.post('/api/questions').set(authHeader(teacher)).send(base).expect(400);
+    await api
+      .post('/api/questions')
+      .set(authHeader(teacher))
+      .send({ ...base, parts: [{ id: 'a', prompt: 'Explain.', rubric: [{ id: 'a1', description: 'Anything', points: 0 }] }] })
+      .expect(400);
+  });
+
+  it('saves answers and lets the student score them against the rubric', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createFreeResponseQuestion(teacher);
+
+    const submitted = await submit(student, questionId, { a: 'It uses the $H^+$ gradient.', b: 'Less ATP.' }).expect(201);
+    expect(submitted.body).toMatchObject({ questionId, pointsPossible: 4, selfPoints: null, timeSpentSeconds: 300 });
+    expect(submitted.body.question.parts).toEqual(PARTS);
+
+    const id = submitted.body.id;
+    await api.post(`/api/free-responses/${id}/self-score`).set(authHeader(student)).send({ scores: { a2: 3 } }).expect(400);
+    await api.post(`/api/free-responses/${id}/self-score`).set(authHeader(student)).send({ scores: { c1: 1 } }).expect(400);
+    const scored = await api
+      .post(`/api/free-responses/${id}/self-score`)
+      .set(authHeader(student))
+      .send({ scores: { a1: 1, a2: 1, b1: 1 } })
+      .expect(200);
+    expect(scored.body).toMatchObject({ selfScores: { a1: 1, a2: 1, b1: 1 }, selfPoints: 3 });
+
+    const other = await register('grace', { apClasses: ['AP Biology'] });
+    await api.post(`/api/free-responses/${id}/self-score`).set(authHeader(other)).send({ scores: {} }).expect(404);
+
+    const own = await api.get(`/api/free-responses?questionId=${questionId}`).set(authHeader(student)).expect(200);
+    expect(own.body.map((response: { id: string }) => response.id)).toEqual([id]);
+  });
+
+  it('rejects answers to unknown parts and multiple-choice grading of free responses', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createFreeResponseQuestion(teacher);
+
+    await submit(student, questionId, { c: 'No such part' }).expect(400);
+    await api
+      .post('/api/questions/grade')
+      .set(authHeader(student))
+      .send({ answers: [{ questionId, selectedOptionId: 'a' }] })
+      .expect(400);
+  });
+
+  it('queues ungraded responses for the student\'s teacher to grade', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const teacher = await teacherOf(student);
+    const questionId = await createFreeResponseQuestion(teacher);
+    const submitted = await submit(student, questionId, { a: 'Gradient', b: 'Less ATP' }).expect(201);
+
+    const queue = await api.get('/api/free-responses/queue?apClass=AP%20Biology').set(authHeader(teacher)).expect(200);
+    expect(queue.body).toHaveLength(1);
+    expect(queue.body[0]).toMatchObject({ id: submitted.body.id, studentName: expect.any(String), answers: { a: 'Gradient', b: 'Less ATP' } });
+
+    const otherTeacher = await register('other', { role: 'teacher' });
+    await api
+      .post(`/api/free-responses/${submitted.body.id}/grade`)
+      .set(authHeader(otherTeacher))
+      .send({ scores: { a1: 1 } })
+      .expect(403);
+    await api.post(`/api/free-responses/${submitted.body.id}/grade`).set(authHeader(student)).send({ scores: { a1: 1 } }).expect(403);
+
+    const graded = await api
+      .post(`/api/free-responses/${submitted.body.id}/grade`)
+      .set(authHeader(teacher))
+      .send({ scores: { a1: 1, b1: 1 }, feedback: '  Explain chemiosmosis.  ' })
+      .expect(200);
+    expect(graded.body).toMatchObject({ teacherPoints: 2, feedback: 'Explain chemiosmosis.', gradedBy: teacher.id });
+
+    const empty = await api.get('/api/free-responses/queue?apClass=AP%20Biology').set(authHeader(teacher)).expect(200);
+    expect(empty.body).toEqual([]);
+    const all = await api.get('/api/free-responses/queue?apClass=AP%20Biology&status=all').set(authHeader(teacher)).expect(200);
+    expect(all.body).toHaveLength(1);
+  });
+
+  it('counts free-response points in AP test summaries', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const teacher = await teacherOf(student);
+    const questionId = await createFreeResponseQuestion(teacher);
+
+    const saved = await api
+      .post('/api/ap-tests/attempts')
+      .set(authHeader(student))
+      .send({
+        userId: student.id,
+        apClass: 'AP Biology',
+        testId: 'adaptive-1',
+        startTimestamp: '2026-03-01T15:00:00.000Z',
+        endTimestamp: '2026-03-01T15:30:00.000Z',
+        totalTimeUsedSeconds: 1800,
+        responses: [
+          { questionId: 1, selectedOptionId: 'a', isCorrect: true },
+          { questionId: 2, sourceQuestionId: questionId, freeResponse: { a: 'Gradient' }, timeSpentSeconds: 600 }
+        ],
+        summary: { correct: 1, total: 1, percentage: 100 }
+      })
+      .expect(201);
+
+    const [response] = (await api.get(`/api/free-responses?apTestAttemptId=${saved.body.id}`).set(authHeader(student)).expect(200)).body;
+    expect(response).toMatchObject({ questionId, answers: { a: 'Gradient' }, timeSpentSeconds: 600 });
+    await api.post(`/api/free-responses/${response.id}/self-score`).set(authHeader(student)).send({ scores: { a1: 1, a2: 2 } }).expect(200);
+
+    const attempts = await api.get(`/api/ap-tests/attempts/${student.id}`).set(authHeader(student)).expect(200);
+    expect(attempts.body[0].summary).toEqual({
+      correct: 1,
+      total: 1,
+      percentage: 100,
+      freeResponse: { questions: 1, pointsPossible: 4, pointsEarned: 3, scored: 1, graded: 0 }
+    });
+  });
+});
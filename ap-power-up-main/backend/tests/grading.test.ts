@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { storage } from './support/store.js';
+import { answer, api, authHeader, createQuestion, register, TestUser } from './support/api.js';
+
+describe('question answer keys', () => {
+  it('hides keys and explanations from students and anonymous requests', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada');
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    for (const headers of [authHeader(student), {}]) {
+      const list = await api.get('/api/questions?apClass=AP%20Biology').set(headers).expect(200);
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0]).not.toHaveProperty('correct_answer_id');
+      expect(list.body[0]).not.toHaveProperty('explanation');
+      expect(list.body[0].options).toHaveLength(2);
+
+      const single = await api.get(`/api/questions/${questionId}`).set(headers).expect(200);
+      expect(single.body).not.toHaveProperty('correct_answer_id');
+    }
+  });
+
+  it('sends keys to teachers', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    const res = await api.get(`/api/questions/${questionId}`).set(authHeader(teacher)).expect(200);
+    expect(res.body).toMatchObject({ correct_answer_id: 'a', explanation: expect.any(String) });
+  });
+
+  it('reveals the key with the explanation once an answer is recorded', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    const recorded = await answer(student, questionId, false).expect(200);
+    expect(recorded.body.grade).toEqual({
+      questionId,
+      selectedOptionId: 'b',
+      isCorrect: false,
+      correctAnswerId: 'a',
+      explanation: 'Cellular respiration happens in the mitochondria.'
+    });
+  });
+
+  it('grades answers to questions the student has answered', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+    const grade = { answers: [{ questionId, selectedOptionId: 'b' }, { questionId, selectedOptionId: 'a' }] };
+
+    await api.post('/api/questions/grade').set(authHeader(student)).send(grade).expect(403);
+    await api.post('/api/questions/grade').set(authHeader(teacher)).send(grade).expect(200);
+    await answer(student, questionId, false).expect(200);
+
+    const res = await api
+      .post('/api/questions/grade')
+      .set(authHeader(student))
+      .send(grade)
+      .expect(200);
+
+    expect(res.body).toEqual([
+      {
+        questionId,
+        selectedOptionId: 'b',
+        isCorrect: false,
+        correctAnswerId: 'a',
+        explanation: 'Cellular respiration happens in the mitochondria.'
+      },
+      expect.objectContaining({ selectedOptionId: 'a', isCorrect: true })
+    ]);
+  });
+
+  it('rejects malformed or unknown answers', async () => {
+    const student = await register('ada');
+
+    await api.post('/api/questions/grade').set(authHeader(student)).send({ answers: [] }).expect(400);
+    await api.post('/api/questions/grade').set(authHeader(student)).send({ answers: [{ selectedOptionId: 'a' }] }).expect(400);
+    await api
+      .post('/api/questions/grade')
+      .set(authHeader(student))
+      .send({ answers: [{ questionId: '00000000-0000-4000-8000-000000000000', selectedOptionId: 'a' }] })
+      .expect(404);
+    await api.post('/api/questions/grade').send({ answers: [] }).expect(401);
+  });
+
+  it('grades recorded attempts with the answer key instead of the client', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    const res = await api
+      .post('/api/attempts')
+      .set(authHeader(student))
+      .send({ userId: student.id, questionId, isCorrect: true, selectedOptionId: 'b', timeSpentSeconds: 10 })
+      .expect(200);
+
+    expect(res.body).toMatchObject({ is_correct: false, correct_attempts: 0 });
+    expect(res.body.scoring.award.finalAttemptPoints).toBe(0);
+
+    const me = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+    expect(me.body.classScores['AP Biology']).toBe(0);
+  });
+
+  it('requires an answer and gives no credit without one', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    await api
+      .post('/api/attempts')
+      .set(authHeader(student))
+      .send({ userId: student.id, questionId, isCorrect: true, timeSpentSeconds: 10 })
+      .expect(400);
+
+    const res = await api
+      .post('/api/attempts')
+      .set(authHeader(student))
+      .send({ userId: student.id, questionId, isCorrect: true, selectedOptionId: null, timeSpentSeconds: 10 })
+      .expect(200);
+
+    expect(res.body).toMatchObject({ is_correct: false, credit: 0 });
+    expect(res.body.scoring.award.finalAttemptPoints).toBe(0);
+  });
+});
+
+describe('AP test answer keys', () => {
+  async function seedTest() {
+    await storage.insert('ap_test_questions', ['A', 'C', 'D'].map((correct_answer, index) => ({
+      test_id: '1',
+      ap_class: 'AP Biology',
+      question_text: `Question ${index + 1}`,
+      options: ['A', 'B', 'C', 'D'].map(id => ({ id, content: `Option ${id}` })),
+      correct_answer,
+      question_order: index + 1
+    })));
+  }
+
+  function submit(student: TestUser) {
+    return api
+      .post('/api/ap-tests/attempts')
+      .set(authHeader(student))
+      .send({
+        userId: student.id,
+        apClass: 'AP Biology',
+        testId: 1,
+        startTimestamp: '2026-03-01T15:00:00.000Z',
+        endTimestamp: '2026-03-01T15:30:00.000Z',
+        totalTimeUsedSeconds: 1800,
+        responses: [
+          { questionId: 1, userAnswer: 'A', isCorrect: false, timeSpentSeconds: 60 },
+          { questionId: 2, userAnswer: 'B', isCorrect: true, timeSpentSeconds: 60 },
+          { questionId: 3, userAnswer: null, isCorrect: true, timeSpentSeconds: 0 }
+        ],
+        summary: { correctAnswers: 2, totalQuestions: 3 }
+      });
+  }
+
+  it('hides keys from students until the test is submitted', async () => {
+    await seedTest();
+    const student = await register('ada');
+    const grade = { answers: [{ questionId: 1, selectedOptionId: 'A' }, { questionId: 2, selectedOptionId: 'B' }] };
+
+    const questions = await api.get('/api/ap-tests/AP%20Biology/1/questions').set(authHeader(student)).expect(200);
+    expect(questions.body).toHaveLength(3);
+    questions.body.forEach((question: object) => expect(question).not.toHaveProperty('correct_answer'));
+
+    await api.post('/api/ap-tests/AP%20Biology/1/grade').set(authHeader(student)).send(grade).expect(403);
+    await submit(student).expect(201);
+
+    const res = await api
+      .post('/api/ap-tests/AP%20Biology/1/grade')
+      .set(authHeader(student))
+      .send(grade)
+      .expect(200);
+
+    expect(res.body).toEqual({
+      correctAnswers: 1,
+      totalQuestions: 3,
+      questions: [
+        { questionNumber: 1, selectedOptionId: 'A', isCorrect: true, correctAnswer: 'A' },
+        { questionNumber: 2, selectedOptionId: 'B', isCorrect: false, correctAnswer: 'C' },
+        { questionNumber: 3, selectedOptionId: null, isCorrect: false, correctAnswer: 'D' }
+      ]
+    });
+  });
+
+  it('grades submitted attempts with the answer key instead of the client', async () => {
+    await seedTest();
+    const student = await register('ada');
+
+    const res = await submit(student).expect(201);
+    expect(res.body.responses.map((response: { isCorrect: boolean }) => response.isCorrect)).toEqual([true, false, false]);
+    expect(res.body.summary).toMatchObject({ correctAnswers: 1, incorrectAnswers: 1, unansweredQuestions: 1, totalQuestions: 3 });
+  });
+
+  it('returns 404 when grading a test that does not exist', async () => {
+    const student = await register('ada');
+
+    await api
+      .post('/api/ap-tests/AP%20Biology/9/grade')
+      .set(authHeader(student))
+      .send({ answers: [{ questionId: 1, selectedOptionId: 'A' }] })
+      .expect(404);
+  });
+});
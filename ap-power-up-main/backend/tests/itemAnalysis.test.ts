@@ -0,0 +1,93 @@
+import { randomUUID } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { answer, api, authHeader, createQuestion, register, TestUser } from './support/api.js';
+import { storage } from './support/store.js';
+import { selectAllIn } from '../src/repositories/selectIn.js';
+
+// Five students: the first three answer every question correctly, the last two
+// every question wrong, except where `answers` says otherwise
+async function answerAll(questionIds: string[], answers: Record<string, boolean[]> = {}): Promise<TestUser[]> {
+  const students: TestUser[] = [];
+  for (let index = 0; index < 5; index++) {
+    const student = await register(`student${index}`, { apClasses: ['AP Biology'] });
+    for (const questionId of questionIds) {
+      const isCorrect = answers[questionId]?.[index] ?? index < 3;
+      await answer(student, questionId, isCorrect, { timeSpentSeconds: 10 * (index + 1) }).expect(200);
+    }
+    students.push(student);
+  }
+  return students;
+}
+
+describe('item analysis', () => {
+  it('reports difficulty, discrimination, option rates and median time', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const questionIds = [
+      await createQuestion(teacher, 'AP Biology'),
+      await createQuestion(teacher, 'AP Biology'),
+      await createQuestion(teacher, 'AP Biology')
+    ];
+    await answerAll(questionIds);
+
+    const res = await api.get(`/api/questions/${questionIds[0]}/stats`).set(authHeader(teacher)).expect(200);
+    expect(res.body).toMatchObject({
+      questionId: questionIds[0],
+      correctAnswerId: 'a',
+      responses: 5,
+      pValue: 0.6,
+      pointBiserial: 1,
+      medianTimeSeconds: 30,
+      options: [
+        { optionId: 'a', isKey: true, count: 3, rate: 0.6 },
+        { optionId: 'b', isKey: false, count: 2, rate: 0.4 }
+      ],
+      flags: []
+    });
+  });
+
+  it('counts each student\'s first answer only', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+    const [student] = await answerAll([questionId]);
+    await answer(student, questionId, false).expect(200);
+
+    const res = await api.get(`/api/questions/${questionId}/stats`).set(authHeader(teacher)).expect(200);
+    expect(res.body).toMatchObject({ responses: 5, pValue: 0.6 });
+  });
+
+  it('flags questions whose key is chosen less than a distractor', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const good = await createQuestion(teacher, 'AP Biology');
+    const alsoGood = await createQuestion(teacher, 'AP Biology');
+    const miskeyed = await createQuestion(teacher, 'AP Biology');
+    await answerAll([good, alsoGood, miskeyed], { [miskeyed]: [false, false, false, false, true] });
+
+    const res = await api.get('/api/questions/stats?apClass=AP%20Biology').set(authHeader(teacher)).expect(200);
+    const flags = Object.fromEntries(res.body.map((stats: { questionId: string; flags: string[] }) => [stats.questionId, stats.flags]));
+    expect(flags).toEqual({
+      [good]: [],
+      [alsoGood]: [],
+      [miskeyed]: ['distractor_chosen_more_than_key', 'negative_discrimination']
+    });
+  });
+
+  it('is only available to teachers', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada');
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    await api.get(`/api/questions/${questionId}/stats`).set(authHeader(student)).expect(403);
+    await api.get('/api/questions/stats?apClass=AP%20Biology').set(authHeader(student)).expect(403);
+    await api.get('/api/questions/stats').set(authHeader(teacher)).expect(400);
+    await api.get(`/api/questions/${randomUUID()}/stats`).set(authHeader(teacher)).expect(404);
+  });
+
+  it('reads every attempt at a question, a page at a time', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+    await answerAll([questionId]);
+
+    const attempts = await selectAllIn<{ id: string }>(storage, 'question_attempts', 'question_id', [questionId], {}, {}, 2);
+    expect(new Set(attempts.map(attempt => attempt.id)).size).toBe(5);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { api, authHeader, register, TestUser } from './support/api.js';
+
+const OPTIONS = [
+  { id: 'a', content: 'Glycolysis' },
+  { id: 'b', content: 'Krebs cycle' },
+  { id: 'c', content: 'Electron transport chain' },
+  { id: 'd', content: 'Photosynthesis' }
+];
+
+function createItem(teacher: TestUser, item: Record<string, unknown>) {
+  return api
+    .post('/api/questions')
+    .set(authHeader(teacher))
+    .send({ apClass: 'AP Biology', unitName: 'Unit 3', questionText: 'Cellular respiration', options: OPTIONS, ...item });
+}
+
+async function createItems(teacher: TestUser) {
+  const multiSelect = await createItem(teacher, {
+    questionType: 'multi_select',
+    answerKey: { correctOptionIds: ['a', 'b', 'c'] }
+  }).expect(201);
+  const numeric = await createItem(teacher, {
+    questionType: 'numeric',
+    options: [],
+    answerKey: { value: 9.8, tolerance: 0.05, units: 'm/s^2' }
+  }).expect(201);
+  const ordering = await createItem(teacher, {
+    questionType: 'ordering',
+    options: OPTIONS.slice(0, 3),
+    answerKey: { order: ['a', 'b', 'c'] }
+  }).expect(201);
+  const matching = await createItem(teacher, {
+    questionType: 'matching',
+    answerKey: {
+      prompts: [{ id: 'p1', content: 'Cytoplasm' }, { id: 'p2', content: 'Mitochondrial matrix' }],
+      matches: { p1: 'a', p2: 'b' }
+    }
+  }).expect(201);
+  return { multiSelect: multiSelect.body.id, numeric: numeric.body.id, ordering: ordering.body.id, matching: matching.body.id };
+}
+
+describe('objective item types', () => {
+  it('rejects answer keys that do not fit the options', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+
+    await createItem(teacher, { questionType: 'multi_select' }).expect(400);
+    await createItem(teacher, { questionType: 'multi_select', answerKey: { correctOptionIds: ['z'] } }).expect(400);
+    await createItem(teacher, { questionType: 'numeric', answerKey: { value: 1, tolerance: 0 } }).expect(400);
+    await createItem(teacher, { questionType: 'ordering', answerKey: { order: ['a', 'b'] } }).expect(400);
+    await createItem(teacher, {
+      questionType: 'matching',
+      answerKey: { prompts: [{ id: 'p1', content: 'One' }, { id: 'p2', content: 'Two' }], matches: { p1: 'a' } }
+    }).expect(400);
+    await createItem(teacher, { answerKey: { correctOptionIds: ['a'] }, correctAnswerId: 'a' }).expect(400);
+  });
+
+  it('shows students units and prompts but not the keys', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada');
+    const ids = await createItems(teacher);
+
+    const numeric = await api.get(`/api/questions/${ids.numeric}`).set(authHeader(student)).expect(200);
+    expect(numeric.body).not.toHaveProperty('answer_key');
+    expect(numeric.body).toMatchObject({ question_type: 'numeric', item_format: { units: 'm/s^2' } });
+
+    const matching = await api.get(`/api/questions/${ids.matching}`).set(authHeader(student)).expect(200);
+    expect(matching.body.item_format.prompts).toHaveLength(2);
+    expect(matching.body).not.toHaveProperty('answer_key');
+
+    const asTeacher = await api.get(`/api/questions/${ids.numeric}`).set(authHeader(teacher)).expect(200);
+    expect(asTeacher.body.answer_key).toEqual({ value: 9.8, tolerance: 0.05, units: 'm/s^2' });
+  });
+
+  it('grades answers with partial credit', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const ids = await createItems(teacher);
+
+    const res = await api
+      .post('/api/questions/grade')
+      .set(authHeader(teacher))
+      .send({
+        answers: [
+          { questionId: ids.multiSelect, answer: ['a', 'b', 'c'] },
+          { questionId: ids.multiSelect, answer: ['a', 'b', 'd'] }, // 2 right, 1 wrong of 3
+          { questionId: ids.numeric, answer: 9.83 },
+          { questionId: ids.numeric, answer: '9.9' },
+          { questionId: ids.ordering, answer: ['a', 'c', 'b'] }, // 2 of 3 pairs in order
+          { questionId: ids.matching, answer: { p1: 'a', p2: 'c' } },
+          { questionId: ids.matching, answer: 'a' } // Wrong shape
+        ]
+      })
+      .expect(200);
+
+    expect(res.body.map((grade: { credit: number }) => grade.credit)).toEqual([1, 1 / 3, 1, 0, 2 / 3, 0.5, 0]);
+    expect(res.body.map((grade: { isCorrect: boolean }) => grade.isCorrect)).toEqual([true, false, true, false, false, false, false]);
+    expect(res.body[0].answerKey).toEqual({ correctOptionIds: ['a', 'b', 'c'] });
+  });
+
+  it('scales attempt points by credit and only counts full credit as correct', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const other = await register('bob', { apClasses: ['AP Biology'] });
+    const { matching } = await createItems(teacher);
+
+    const record = (user: TestUser, answer: unknown) => api
+      .post('/api/attempts')
+      .set(authHeader(user))
+      .send({ userId: user.id, questionId: matching, isCorrect: true, answer, timeSpentSeconds: 60 });
+
+    const partial = await record(student, { p1: 'a', p2: 'c' }).expect(200);
+    expect(partial.body).toMatchObject({ is_correct: false, credit: 0.5, status: 'incorrect', correct_attempts: 0 });
+    expect(partial.body.metadata.answer_events[0]).toMatchObject({ answer: { p1: 'a', p2: 'c' }, credit: 0.5 });
+    expect(partial.body.scoring.question.finalQuestionPoints).toBe(5);
+
+    const full = await record(other, { p1: 'a', p2: 'b' }).expect(200);
+    expect(full.body).toMatchObject({ is_correct: true, credit: 1, correct_attempts: 1 });
+    expect(full.body.scoring.question.finalQuestionPoints).toBe(10);
+
+    await record(student, ['a']).expect(200);
+    await record(student, 5).expect(200);
+    await api
+      .post('/api/attempts')
+      .set(authHeader(student))
+      .send({ userId: student.id, questionId: matching, answer: { p1: 1 } })
+      .expect(400);
+
+    const stats = await api.get(`/api/questions/${matching}/stats`).set(authHeader(teacher)).expect(200);
+    expect(stats.body).toMatchObject({ questionType: 'matching', responses: 2, pValue: 0.75, options: [] });
+  });
+});
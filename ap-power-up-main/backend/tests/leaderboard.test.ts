@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { answer, api, authHeader, createQuestion, register, TestUser } from './support/api.js';
+import { storage } from './support/store.js';
+import { db } from '../src/repositories/index.js';
+import { getWindowStart } from '../src/services/leaderboardWindow.js';
+
+async function earnPoints(student: TestUser, questionIds: string[]): Promise<number> {
+  let score = 0;
+  for (const questionId of questionIds) {
+    const res = await answer(student, questionId, true).expect(200);
+    score = res.body.scoring.newScore;
+  }
+  return score;
+}
+
+describe('leaderboard', () => {
+  it('ranks students by class score and leaves teachers out', async () => {
+    const teacher = await register('teach', { role: 'teacher', apClasses: ['AP Biology'] });
+    const ada = await register('ada', { apClasses: ['AP Biology'] });
+    const grace = await register('grace', { apClasses: ['AP Biology'] });
+    const questions = [
+      await createQuestion(teacher, 'AP Biology'),
+      await createQuestion(teacher, 'AP Biology')
+    ];
+
+    const adaScore = await earnPoints(ada, questions.slice(0, 1));
+    const graceScore = await earnPoints(grace, questions);
+    expect(graceScore).toBeGreaterThan(adaScore);
+
+    const res = await api.get('/api/leaderboard/AP%20Biology').set(authHeader(ada)).expect(200);
+    expect(res.body.map((entry: { id: string }) => entry.id)).toEqual([grace.id, ada.id]);
+    expect(res.body[0].classScores).toEqual({ 'AP Biology': graceScore });
+  });
+
+  it('fills the top places with students when teachers score higher', async () => {
+    const teacher = await register('teach', { role: 'teacher', apClasses: ['AP Biology'] });
+    const ada = await register('ada', { apClasses: ['AP Biology'] });
+    const grace = await register('grace', { apClasses: ['AP Biology'] });
+    await storage.update('user_class_scores', { user_id: teacher.id, ap_class: 'AP Biology' }, { score: 90 });
+    await storage.update('user_class_scores', { user_id: ada.id, ap_class: 'AP Biology' }, { score: 10 });
+    await storage.update('user_class_scores', { user_id: grace.id, ap_class: 'AP Biology' }, { score: 20 });
+
+    const top = await db.leaderboard.listTop('AP Biology', 2);
+    expect(top.map(entry => [entry.user.id, entry.score])).toEqual([[grace.id, 20], [ada.id, 10]]);
+  });
+
+  it('only counts scores in the requested class', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const ada = await register('ada', { apClasses: ['AP Biology', 'AP Chemistry'] });
+    await earnPoints(ada, [await createQuestion(teacher, 'AP Chemistry')]);
+
+    const res = await api.get('/api/leaderboard/AP%20Biology').set(authHeader(ada)).expect(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0].classScores).toEqual({ 'AP Biology': 0 });
+  });
+
+  it('reports students who hide their rank', async () => {
+    const ada = await register('ada', { apClasses: ['AP Biology'] });
+    const grace = await register('grace', { apClasses: ['AP Biology'] });
+
+    await api.patch(`/api/users/${ada.id}`).set(authHeader(ada)).send({ showRankPublicly: false }).expect(200);
+
+    const res = await api.get('/api/leaderboard/AP%20Biology').set(authHeader(grace)).expect(200);
+    const privacy = Object.fromEntries(res.body.map((entry: { id: string; showRankPublicly: boolean }) => [entry.id, entry.showRankPublicly]));
+    expect(privacy).toEqual({ [ada.id]: false, [grace.id]: true });
+  });
+
+  it('limits a class leaderboard to enrolled students', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const ada = await register('ada', { apClasses: ['AP Biology'] });
+    await register('grace', { apClasses: ['AP Biology'] });
+
+    const created = await api.post('/api/classes').set(authHeader(teacher)).send({ apClassName: 'AP Biology' }).expect(201);
+    const { classCode } = created.body;
+    await api.post(`/api/classes/${classCode}/join`).set(authHeader(ada)).expect(200);
+
+    const res = await api.get(`/api/leaderboard/AP%20Biology/class/${classCode}`).set(authHeader(ada)).expect(200);
+    expect(res.body.map((entry: { id: string }) => entry.id)).toEqual([ada.id]);
+
+    await api.get(`/api/leaderboard/AP%20Chemistry/class/${classCode}`).set(authHeader(ada)).expect(404);
+  });
+
+  it('records each award in the points ledger', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const ada = await register('ada', { apClasses: ['AP Biology'] });
+    const score = await earnPoints(ada, [await createQuestion(teacher, 'AP Biology'), await createQuestion(teacher, 'AP Biology')]);
+
+    const awards = await storage.select<{ ap_class: string; points: number; source: string }>('daily_points', { user_id: ada.id });
+    expect(awards).toHaveLength(2);
+    expect(awards.every(award => award.ap_class === 'AP Biology' && award.source === 'attempt')).toBe(true);
+    expect(awards.reduce((sum, award) => sum + award.points, 0)).toBe(score);
+  });
+
+  it('ranks by the points earned in a window', async () => {
+    const ada = await register('ada', { apClasses: ['AP Biology'] });
+    const grace = await register('grace', { apClasses: ['AP Biology'] });
+
+    // Ada earned more long ago, Grace more this week
+    await storage.insert('daily_points', [
+      { user_id: ada.id, ap_class: 'AP Biology', date: '2020-01-06', points: 500, source: 'attempt' },
+      { user_id: ada.id, ap_class: 'AP Biology', date: getWindowStart('week')!, points: 10, source: 'attempt' },
+      { user_id: grace.id, ap_class: 'AP Biology', date: getWindowStart('week')!, points: 30, source: 'session_bonus' },
+      { user_id: grace.id, ap_class: 'AP Chemistry', date: getWindowStart('week')!, points: 100, source: 'attempt' }
+    ]);
+
+    const weekly = await api.get('/api/leaderboard/AP%20Biology?window=week').set(authHeader(ada)).expect(200);
+    expect(weekly.body.map((entry: { id: string; classScores: Record<string, number> }) => [entry.id, entry.classScores['AP Biology']]))
+      .toEqual([[grace.id, 30], [ada.id, 10]]);
+
+    await api.get('/api/leaderboard/AP%20Biology?window=decade').set(authHeader(ada)).expect(400);
+  });
+
+  it('keeps the top students of a window, leaving teachers out', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const ada = await register('ada', { apClasses: ['AP Biology'] });
+    const grace = await register('grace', { apClasses: ['AP Biology'] });
+    const since = getWindowStart('term')!;
+
+    await storage.insert('daily_points', [
+      { user_id: teacher.id, ap_class: 'AP Biology', date: since, points: 90, source: 'attempt' },
+      { user_id: ada.id, ap_class: 'AP Biology', date: since, points: 10, source: 'attempt' },
+      { user_id: grace.id, ap_class: 'AP Biology', date: since, points: 15, source: 'attempt' },
+      { user_id: ada.id, ap_class: 'AP Biology', date: since, points: 20, source: 'session_bonus' },
+      { user_id: grace.id, ap_class: 'AP Biology', date: since, points: 40, source: 'decay' }
+    ]);
+
+    const top = await db.leaderboard.listTopSince('AP Biology', since, 1);
+    expect(top.map(entry => [entry.user.id, entry.score])).toEqual([[ada.id, 30]]);
+  });
+
+  it('windows a class leaderboard', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const ada = await register('ada', { apClasses: ['AP Biology'] });
+    const grace = await register('grace', { apClasses: ['AP Biology'] });
+
+    const created = await api.post('/api/classes').set(authHeader(teacher)).send({ apClassName: 'AP Biology' }).expect(201);
+    const { classCode } = created.body;
+    await api.post(`/api/classes/${classCode}/join`).set(authHeader(ada)).expect(200);
+    await api.post(`/api/classes/${classCode}/join`).set(authHeader(grace)).expect(200);
+
+    await storage.insert('daily_points', [
+      { user_id: ada.id, ap_class: 'AP Biology', date: getWindowStart('month')!, points: 20, source: 'attempt' },
+      { user_id: grace.id, ap_class: 'AP Biology', date: '2020-01-06', points: 50, source: 'attempt' }
+    ]);
+
+    const res = await api.get(`/api/leaderboard/AP%20Biology/class/${classCode}?window=month`).set(authHeader(ada)).expect(200);
+    expect(res.body.map((entry: { id: string }) => entry.id)).toEqual([ada.id]);
+    expect(res.body[0].classScores).toEqual({ 'AP Biology': 20 });
+  });
+});
+
+describe('leaderboard windows', () => {
+  // Wednesday 2024-10-16
+  const now = Date.UTC(2024, 9, 16, 12);
+
+  it('starts weeks on Monday, months on the 1st and terms in August or January', () => {
+    expect(getWindowStart('week', now)).toBe('2024-10-14');
+    expect(getWindowStart('week', Date.UTC(2024, 9, 13))).toBe('2024-10-07');
+    expect(getWindowStart('month', now)).toBe('2024-10-01');
+    expect(getWindowStart('term', now)).toBe('2024-08-01');
+    expect(getWindowStart('term', Date.UTC(2025, 2, 3))).toBe('2025-01-01');
+    expect(getWindowStart('all', now)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '../src/repositories/index.js';
+import { addLogSink, createLogger, LogEntry, REDACTED } from '../src/utils/logger.js';
+import { api, authHeader, register } from './support/api.js';
+
+let entries: LogEntry[];
+let removeSink: () => void;
+
+beforeEach(() => {
+  entries = [];
+  removeSink = addLogSink(entry => entries.push(entry));
+});
+
+afterEach(() => {
+  removeSink();
+  vi.restoreAllMocks();
+});
+
+describe('request logging', () => {
+  it('logs each request with its id, route, user, status and latency', async () => {
+    const ada = await register('ada');
+
+    const res = await api.get(`/api/users/${ada.id}`).set(authHeader(ada)).set('X-Request-Id', 'req-42').expect(200);
+    expect(res.headers['x-request-id']).toBe('req-42');
+
+    const request = entries.find(entry => entry.event === 'request' && entry.requestId === 'req-42');
+    expect(request).toMatchObject({
+      level: 'info',
+      method: 'GET',
+      path: `/api/users/${ada.id}`,
+      route: '/api/users/:id',
+      userId: ada.id,
+      status: 200
+    });
+    expect(request!.durationMs).toBeGreaterThanOrEqual(0);
+
+    const generated = await api.get('/health').set('X-Request-Id', 'not an id!').expect(200);
+    expect(generated.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('logs unexpected errors with their stack and returns the request id', async () => {
+    const ada = await register('ada');
+    vi.spyOn(db.users, 'getProfile').mockRejectedValueOnce(new Error('connection reset'));
+
+    const res = await api.get(`/api/users/${ada.id}`).set(authHeader(ada)).expect(500);
+    expect(res.body).toEqual({ error: 'Internal server error', statusCode: 500, requestId: res.headers['x-request-id'] });
+
+    const error = entries.find(entry => entry.event === 'error');
+    expect(error).toMatchObject({
+      level: 'error',
+      requestId: res.headers['x-request-id'],
+      route: '/api/users/:id',
+      userId: ada.id,
+      status: 500,
+      error: { name: 'Error', message: 'connection reset' }
+    });
+    expect((error!.error as { stack: string }).stack).toContain('connection reset');
+    const request = entries.find(entry => entry.event === 'request' && entry.requestId === res.headers['x-request-id']);
+    expect(request).toMatchObject({ level: 'error', status: 500 });
+  });
+
+  it('logs expected failures as warnings without a stack', async () => {
+    const ada = await register('ada');
+    const bob = await register('bob');
+
+    await api.patch(`/api/users/${bob.id}`).set(authHeader(ada)).send({ firstName: 'Eve' }).expect(403);
+
+    const error = entries.find(entry => entry.event === 'error');
+    expect(error).toMatchObject({ level: 'warn', status: 403, message: 'Forbidden', route: '/api/users/:id', userId: ada.id });
+    expect(error).not.toHaveProperty('error');
+  });
+
+  it('redacts passwords and tokens', async () => {
+    const logged: LogEntry[] = [];
+    const log = createLogger({ sinks: [entry => logged.push(entry)] }).child({ apiKey: 'k-123' });
+
+    log.info('login', {
+      username: 'ada',
+      password: 'correct-horse',
+      headers: { Authorization: 'Bearer abc.def', accept: 'application/json' },
+      session: { access_token: 'abc', refresh_token: null },
+      note: 'retried with Bearer abc.def',
+      error: new Error('Invalid token Bearer abc.def')
+    });
+    log.debug('ignored below the level');
+
+    expect(logged).toHaveLength(1);
+    expect(logged[0]).toMatchObject({
+      event: 'login',
+      apiKey: REDACTED,
+      username: 'ada',
+      password: REDACTED,
+      headers: { Authorization: REDACTED, accept: 'application/json' },
+      session: { access_token: REDACTED, refresh_token: null },
+      note: `retried with Bearer ${REDACTED}`,
+      error: { message: `Invalid token Bearer ${REDACTED}` }
+    });
+    expect(JSON.stringify(logged)).not.toContain('abc.def');
+  });
+});
@@ -0,0 +1,164 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { parseMigrateArgs } from '../src/migrations/args.js';
+import {
+  baselineMigrations,
+  getMigrationStatus,
+  loadMigrations,
+  migrateDown,
+  migrateUp
+} from '../src/migrations/runner.js';
+import { SqlClient } from '../src/storage/postgres.js';
+import { storage, toMigrationClient } from './support/store.js';
+
+let dir: string;
+let pglite: PGlite;
+let client: SqlClient;
+
+function write(file: string, sql: string) {
+  writeFileSync(path.join(dir, file), sql);
+}
+
+async function tables(): Promise<string[]> {
+  const { rows } = await client.query(
+    `SELECT table_name FROM information_schema.tables WHERE table_schema = 'public' AND table_name LIKE 'widget%' ORDER BY table_name`
+  );
+  return rows.map(row => row.table_name as string);
+}
+
+beforeEach(async () => {
+  dir = mkdtempSync(path.join(tmpdir(), 'migrations-'));
+  write('001_create_widgets.sql', 'CREATE TABLE widgets (id INT PRIMARY KEY);');
+  write('001_create_widgets.down.sql', 'DROP TABLE widgets;');
+  write('002_create_widget_parts.sql', 'CREATE TABLE widget_parts (id INT PRIMARY KEY);\nCREATE INDEX widget_parts_id ON widget_parts(id);');
+  write('002_create_widget_parts.down.sql', 'DROP TABLE widget_parts;');
+  pglite = await PGlite.create();
+  client = toMigrationClient(pglite);
+});
+
+afterEach(async () => {
+  await pglite.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('migration runner', () => {
+  it('applies pending migrations once, in order', async () => {
+    expect((await migrateUp(client, { dir, dryRun: true })).map(m => m.version)).toEqual(['001', '002']);
+    expect(await tables()).toEqual([]);
+
+    expect((await migrateUp(client, { dir, to: '001' })).map(m => m.version)).toEqual(['001']);
+    expect(await tables()).toEqual(['widgets']);
+
+    write('003_create_widget_tags.sql', 'CREATE TABLE widget_tags (id INT);');
+    expect((await migrateUp(client, { dir })).map(m => m.version)).toEqual(['002', '003']);
+    expect(await migrateUp(client, { dir })).toEqual([]);
+
+    const status = await getMigrationStatus(client, { dir });
+    expect(status.map(s => [s.version, s.state, s.reversible])).toEqual([
+      ['001', 'applied', true],
+      ['002', 'applied', true],
+      ['003', 'applied', false]
+    ]);
+  });
+
+  it('rolls back a failed migration and stops', async () => {
+    write('002_create_widget_parts.sql', 'CREATE TABLE widget_parts (id INT);\nSELECT * FROM no_such_table;');
+    write('003_create_widget_tags.sql', 'CREATE TABLE widget_tags (id INT);');
+
+    await expect(migrateUp(client, { dir })).rejects.toThrow(/002_create_widget_parts failed/);
+    expect(await tables()).toEqual(['widgets']);
+    expect((await getMigrationStatus(client, { dir })).map(s => s.state)).toEqual(['applied', 'pending', 'pending']);
+  });
+
+  it('refuses to run when an applied migration was edited or removed', async () => {
+    await migrateUp(client, { dir });
+
+    write('001_create_widgets.sql', 'CREATE TABLE widgets (id BIGINT PRIMARY KEY);');
+    write('003_create_widget_tags.sql', 'CREATE TABLE widget_tags (id INT);');
+    expect((await getMigrationStatus(client, { dir })).map(s => s.state)).toEqual(['changed', 'applied', 'pending']);
+    await expect(migrateUp(client, { dir })).rejects.toThrow(/001_create_widgets \(changed\)/);
+    await expect(migrateDown(client, { dir })).rejects.toThrow(/no longer match/);
+    expect(await tables()).toEqual(['widget_parts', 'widgets']);
+
+    write('001_create_widgets.sql', 'CREATE TABLE widgets (id INT PRIMARY KEY);');
+    rmSync(path.join(dir, '002_create_widget_parts.sql'));
+    rmSync(path.join(dir, '002_create_widget_parts.down.sql'));
+    await expect(migrateUp(client, { dir })).rejects.toThrow(/002_create_widget_parts \(missing\)/);
+  });
+
+  it('undoes the latest migrations with their down files', async () => {
+    await migrateUp(client, { dir });
+
+    expect((await migrateDown(client, { dir, steps: 2, dryRun: true })).map(m => m.version)).toEqual(['002', '001']);
+    expect(await tables()).toEqual(['widget_parts', 'widgets']);
+
+    expect((await migrateDown(client, { dir })).map(m => m.version)).toEqual(['002']);
+    expect(await tables()).toEqual(['widgets']);
+    expect((await getMigrationStatus(client, { dir })).map(s => s.state)).toEqual(['applied', 'pending']);
+
+    write('002_create_widget_parts.sql', 'CREATE TABLE widget_parts (id INT);');
+    rmSync(path.join(dir, '002_create_widget_parts.down.sql'));
+    await migrateUp(client, { dir });
+    await expect(migrateDown(client, { dir, steps: 2 })).rejects.toThrow('No down migration for 002_create_widget_parts');
+    expect(await tables()).toEqual(['widget_parts', 'widgets']);
+  });
+
+  it('records a hand-built schema as applied without running it', async () => {
+    await client.query('CREATE TABLE widgets (id INT PRIMARY KEY);');
+
+    expect((await baselineMigrations(client, '001', { dir })).map(m => m.version)).toEqual(['001']);
+    expect((await migrateUp(client, { dir })).map(m => m.version)).toEqual(['002']);
+    await expect(baselineMigrations(client, '009', { dir })).rejects.toThrow('No migration is numbered 009');
+  });
+
+  it('rejects two migrations with the same number', () => {
+    write('002_import_more_widgets.sql', 'SELECT 1;');
+    expect(() => loadMigrations({ dir })).toThrow('Two migrations are numbered 002');
+  });
+
+  it('has applied every migration in src/migrations to the test database', async () => {
+    const migrations = loadMigrations({ includeLocal: true });
+    const applied = await storage.select<{ version: string }>('schema_migrations', {}, { orderBy: { column: 'version' } });
+    expect(applied.map(row => row.version)).toEqual(migrations.map(migration => migration.version));
+  });
+
+  it('baselines the SQL migrations only, without the importers that used to be numbered 002 to 004', async () => {
+    const recorded = await baselineMigrations(client, '016', { dryRun: true });
+    expect(recorded.map(m => m.version)).toEqual(['001', '005', '006', '007', '008', '009', '010', '011', '012', '013', '014', '015', '016']);
+  });
+
+  it('can undo and reapply every migration after the initial schema', async () => {
+    const database = await PGlite.create({ extensions: { uuid_ossp } });
+    try {
+      const real = toMigrationClient(database);
+      const migrations = await migrateUp(real, { includeLocal: true });
+      const later = migrations.filter(migration => migration.version > '001');
+      expect(later.filter(migration => migration.down === null).map(migration => migration.name)).toEqual([]);
+
+      expect((await migrateDown(real, { includeLocal: true, steps: later.length })).map(m => m.version))
+        .toEqual(later.map(m => m.version).reverse());
+      expect((await migrateUp(real, { includeLocal: true })).map(m => m.version)).toEqual(later.map(m => m.version));
+    } finally {
+      await database.close();
+    }
+  });
+});
+
+describe('migrate command line', () => {
+  it('reads flags with their values wherever they appear', () => {
+    expect(parseMigrateArgs(['--to', '012'])).toEqual({ command: 'up', operands: [], to: '012', steps: undefined, dryRun: false });
+    expect(parseMigrateArgs(['--to', '012', 'up', '--dry-run'])).toMatchObject({ command: 'up', to: '012', dryRun: true });
+    expect(parseMigrateArgs(['--steps', '2', 'down'])).toMatchObject({ command: 'down', steps: '2' });
+    expect(parseMigrateArgs(['--dry-run', 'baseline', '016'])).toMatchObject({ command: 'baseline', operands: ['016'], dryRun: true });
+  });
+
+  it('rejects unknown flags and flags without a value', () => {
+    expect(() => parseMigrateArgs(['up', '--to'])).toThrow('--to needs a value');
+    expect(() => parseMigrateArgs(['--steps', '--dry-run', 'down'])).toThrow('--steps needs a value');
+    expect(() => parseMigrateArgs(['up', '--force'])).toThrow('Unknown option --force');
+  });
+});
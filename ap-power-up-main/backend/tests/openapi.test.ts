@@ -0,0 +1,51 @@
+import { readFile } from 'fs/promises';
+import { describe, expect, it } from 'vitest';
+import { api } from './support/api.js';
+import { apiRoutes } from '../src/routes/index.js';
+import { buildOpenApiDocument, OpenApiDocument } from '../src/services/openapi.js';
+import { generateClient } from '../src/services/clientGenerator.js';
+
+const CLIENT_PATH = new URL('../../src/lib/generatedApi.ts', import.meta.url);
+
+describe('OpenAPI document', () => {
+  it('serves an operation for every route at /api/docs', async () => {
+    const res = await api.get('/api/docs').expect(200);
+    const document = res.body as OpenApiDocument;
+
+    expect(document.openapi).toBe('3.1.0');
+    const operations = Object.values(document.paths).flatMap(pathItem => Object.values(pathItem));
+    const routes = apiRoutes.flatMap(({ router }) => router.stack.filter(layer => layer.route));
+    expect(operations).toHaveLength(routes.length);
+    expect(new Set(operations.map(operation => operation.operationId)).size).toBe(operations.length);
+
+    expect(document.paths['/users/{id}/points-history'].get).toMatchObject({
+      operationId: 'user.getPointsHistory',
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: 'id', in: 'path', required: true },
+        { name: 'apClass', in: 'query', required: false },
+        { name: 'limit', in: 'query', required: false }
+      ],
+      responses: {
+        200: { content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/PointsHistoryEntry' } } } } }
+      }
+    });
+    expect(document.paths['/auth/register'].post?.requestBody?.content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/RegisterBody' });
+  });
+
+  it('refers only to components it defines', () => {
+    const document = buildOpenApiDocument();
+    const refs = JSON.stringify(document).match(/"#\/components\/schemas\/\w+"/g) ?? [];
+
+    for (const ref of new Set(refs)) {
+      expect(document.components.schemas).toHaveProperty(ref.slice('"#/components/schemas/'.length, -1));
+    }
+  });
+
+  it('matches the generated frontend client', async () => {
+    // Run `npm run generate-client` against a running backend when this fails
+    const client = await readFile(CLIENT_PATH, 'utf8');
+    expect(client).toBe(generateClient(buildOpenApiDocument()));
+  });
+});
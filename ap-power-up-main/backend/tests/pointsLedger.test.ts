@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { answer, api, authHeader, createQuestion, register, TestUser } from './support/api.js';
+import { storage } from './support/store.js';
+import { recomputeAllClassScores, recomputeClassScores } from '../src/services/pointsLedger.js';
+
+async function classScore(student: TestUser, apClass = 'AP Biology'): Promise<number> {
+  const me = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+  return me.body.classScores[apClass];
+}
+
+// A teacher with a class for AP Biology that the student has joined
+async function teacherOf(student: TestUser): Promise<TestUser> {
+  const teacher = await register('teach', { role: 'teacher', apClasses: ['AP Biology'] });
+  const created = await api.post('/api/classes').set(authHeader(teacher)).send({ apClassName: 'AP Biology' }).expect(201);
+  await api.post(`/api/classes/${created.body.classCode}/join`).set(authHeader(student)).expect(200);
+  return teacher;
+}
+
+describe('points history', () => {
+  it('lists each award with its scoring breakdown, newest first', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    const attempt = await answer(student, questionId, true).expect(200);
+    await api
+      .post('/api/quizzes/results')
+      .set(authHeader(student))
+      .send({ userId: student.id, apClass: 'AP Biology', unit: 'Unit 1', score: 1, totalQuestions: 1, questionIds: [questionId] })
+      .expect(201);
+
+    const res = await api.get(`/api/users/${student.id}/points-history`).set(authHeader(student)).expect(200);
+    expect(res.body.map((entry: { source: string }) => entry.source)).toEqual(['session_bonus', 'attempt']);
+
+    const [bonus, award] = res.body;
+    expect(award).toMatchObject({
+      apClass: 'AP Biology',
+      points: attempt.body.scoring.award.finalAttemptPoints,
+      details: { questionId, question: attempt.body.scoring.question, award: attempt.body.scoring.award }
+    });
+    expect(bonus.details.session).toMatchObject({ questionPoints: award.details.question.finalQuestionPoints, finalSessionPoints: bonus.points });
+    expect(bonus.points + award.points).toBe(await classScore(student));
+  });
+
+  it('is private to the student and their teachers', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const other = await register('grace', { apClasses: ['AP Biology'] });
+    const teacher = await teacherOf(student);
+
+    await api.get(`/api/users/${student.id}/points-history`).set(authHeader(other)).expect(403);
+    await api.get(`/api/users/${student.id}/points-history`).set(authHeader(teacher)).expect(403);
+    await api.get(`/api/users/${student.id}/points-history?apClass=AP%20Biology`).set(authHeader(teacher)).expect(200);
+  });
+});
+
+describe('points adjustments', () => {
+  it('lets a teacher adjust a student score with a reason', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const teacher = await teacherOf(student);
+    const adjust = (points: number, note = 'Extra credit') =>
+      api
+        .post(`/api/users/${student.id}/points-adjustments`)
+        .set(authHeader(teacher))
+        .send({ apClass: 'AP Biology', points, note });
+
+    const added = await adjust(25).expect(201);
+    expect(added.body).toEqual({ apClass: 'AP Biology', points: 25, newScore: 25 });
+    await adjust(-10, 'Duplicate credit').expect(201);
+    expect(await classScore(student)).toBe(15);
+
+    await adjust(-20).expect(400);
+    await adjust(5, ' ').expect(400);
+    await adjust(2.5).expect(400);
+
+    const res = await api.get(`/api/users/${student.id}/points-history`).set(authHeader(student)).expect(200);
+    expect(res.body.map((entry: { points: number; note: string }) => [entry.points, entry.note]))
+      .toEqual([[-10, 'Duplicate credit'], [25, 'Extra credit']]);
+  });
+
+  it('only lets the student\'s teachers adjust points', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const otherTeacher = await register('other', { role: 'teacher' });
+
+    for (const user of [student, otherTeacher]) {
+      await api
+        .post(`/api/users/${student.id}/points-adjustments`)
+        .set(authHeader(user))
+        .send({ apClass: 'AP Biology', points: 100, note: 'Please' })
+        .expect(403);
+    }
+  });
+
+  it('does not count toward the daily cap or the windowed leaderboards', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const teacher = await teacherOf(student);
+    await api
+      .post(`/api/users/${student.id}/points-adjustments`)
+      .set(authHeader(teacher))
+      .send({ apClass: 'AP Biology', points: 5000, note: 'Transferred from old platform' })
+      .expect(201);
+
+    const attempt = await answer(student, await createQuestion(teacher, 'AP Biology'), true).expect(200);
+    expect(attempt.body.scoring.award.dailyCapApplied).toBe(false);
+
+    const weekly = await api.get('/api/leaderboard/AP%20Biology?window=week').set(authHeader(student)).expect(200);
+    expect(weekly.body[0].classScores['AP Biology']).toBe(attempt.body.scoring.award.finalAttemptPoints);
+  });
+});
+
+describe('score recomputation', () => {
+  it('rebuilds class scores from the ledger', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    await answer(student, await createQuestion(teacher, 'AP Biology'), true).expect(200);
+    const score = await classScore(student);
+
+    expect(await recomputeClassScores(student.id)).toEqual([]);
+
+    await storage.update('user_class_scores', { user_id: student.id, ap_class: 'AP Biology' }, { score: 999 });
+    expect(await recomputeClassScores(student.id)).toEqual([
+      { userId: student.id, apClass: 'AP Biology', previousScore: 999, score }
+    ]);
+    expect(await classScore(student)).toBe(score);
+  });
+
+  it('pages through every user', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+    const students = [await register('ada', { apClasses: ['AP Biology'] }), await register('grace', { apClasses: ['AP Biology'] })];
+    for (const student of students) {
+      await answer(student, questionId, true).expect(200);
+      await storage.update('user_class_scores', { user_id: student.id, ap_class: 'AP Biology' }, { score: 999 });
+    }
+
+    const corrections = await recomputeAllClassScores(1);
+    expect(corrections.map(correction => correction.userId).sort()).toEqual(students.map(student => student.id).sort());
+    for (const student of students) {
+      expect(await classScore(student)).not.toBe(999);
+    }
+  });
+
+  it('keeps ledger entries append-only', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    await answer(student, await createQuestion(teacher, 'AP Biology'), true).expect(200);
+
+    await expect(storage.update('daily_points', { user_id: student.id }, { points: 1000 })).rejects.toThrow('append-only');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { answer, api, authHeader, createQuestion, register } from './support/api.js';
+
+describe('quiz progress', () => {
+  it('saves, overwrites, reads back and clears progress', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const progressUrl = `/api/quizzes/progress/${student.id}/AP%20Biology/Unit%201`;
+    const save = (currentIndex: number, answeredQuestions: number[]) =>
+      api
+        .post('/api/quizzes/progress')
+        .set(authHeader(student))
+        .send({
+          userId: student.id,
+          apClass: 'AP Biology',
+          unit: 'Unit 1',
+          currentIndex,
+          correctAnswers: answeredQuestions.length,
+          answeredQuestions
+        })
+        .expect(200);
+
+    await api.get(progressUrl).set(authHeader(student)).expect(200, 'null');
+
+    const first = await save(2, [0, 1]);
+    const second = await save(3, [0, 1, 2]);
+    expect(second.body.id).toBe(first.body.id);
+
+    const stored = await api.get(progressUrl).set(authHeader(student)).expect(200);
+    expect(stored.body).toMatchObject({
+      current_index: 3,
+      correct_answers: 3,
+      answered_questions: [0, 1, 2]
+    });
+
+    await api.delete(progressUrl).set(authHeader(student)).expect(200);
+    await api.get(progressUrl).set(authHeader(student)).expect(200, 'null');
+  });
+
+  it('keeps progress private to its student', async () => {
+    const student = await register('ada');
+    const other = await register('grace');
+
+    await api
+      .post('/api/quizzes/progress')
+      .set(authHeader(other))
+      .send({ userId: student.id, apClass: 'AP Biology', unit: 'Unit 1', currentIndex: 0, correctAnswers: 0 })
+      .expect(403);
+    await api.get(`/api/quizzes/progress/${student.id}/AP%20Biology/Unit%201`).set(authHeader(other)).expect(403);
+  });
+});
+
+describe('quiz results', () => {
+  it('saves a result and awards the accuracy bonus only once per answer', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+    const attempt = await answer(student, questionId, true).expect(200);
+    const result = {
+      userId: student.id,
+      apClass: 'AP Biology',
+      unit: 'Unit 1',
+      score: 1,
+      totalQuestions: 1,
+      questionIds: [questionId]
+    };
+
+    const first = await api.post('/api/quizzes/results').set(authHeader(student)).send(result).expect(201);
+    expect(first.body).toMatchObject({ ap_class: 'AP Biology', score: 1, total_questions: 1 });
+    expect(first.body.scoring).toMatchObject({ correctAnswers: 1, totalAnswered: 1 });
+    const bonus = first.body.scoring.award.finalAttemptPoints;
+    expect(bonus).toBeGreaterThan(0);
+
+    const second = await api.post('/api/quizzes/results').set(authHeader(student)).send(result).expect(201);
+    expect(second.body.scoring.award.finalAttemptPoints).toBe(0);
+
+    const me = await api.get('/api/auth/me').set(authHeader(student)).expect(200);
+    expect(me.body.classScores['AP Biology']).toBe(attempt.body.scoring.newScore + bonus);
+
+    const history = await api.get(`/api/quizzes/results/${student.id}`).set(authHeader(student)).expect(200);
+    expect(history.body).toHaveLength(2);
+  });
+});
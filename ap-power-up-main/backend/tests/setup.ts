@@ -0,0 +1,9 @@
+import { beforeEach, vi } from 'vitest';
+
+// Route handlers get the in-memory store and fake auth instead of Supabase
+vi.mock('../src/config/storage.js', () => import('./support/store.js'));
+
+beforeEach(async () => {
+  const { resetStore } = await import('./support/store.js');
+  await resetStore();
+});
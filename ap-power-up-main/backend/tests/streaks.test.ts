@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { answer, api, authHeader, createQuestion, register, TestUser } from './support/api.js';
+import { db } from '../src/repositories/index.js';
+import { getLocalDate, getStreakCalendar, recordPracticeDay } from '../src/services/streaks.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.parse('2026-03-02T15:00:00Z');
+
+// Practice once on each of the given days after START
+async function practice(student: TestUser, days: number[]): Promise<void> {
+  for (const day of days) {
+    const user = await db.users.findById(student.id);
+    await recordPracticeDay(user!, START + day * DAY_MS);
+  }
+}
+
+function setTimezone(student: TestUser, timezone: string) {
+  return api.patch(`/api/users/${student.id}`).set(authHeader(student)).send({ timezone });
+}
+
+describe('streaks', () => {
+  it('counts an answered question towards today\'s streak', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+    await answer(student, questionId, true).expect(200);
+    await answer(student, questionId, false).expect(200);
+
+    const res = await api.get(`/api/users/${student.id}/streak`).set(authHeader(student)).expect(200);
+    expect(res.body).toMatchObject({ timezone: 'UTC', streak: 1, longestStreak: 1, freezes: 0 });
+    expect(res.body.days).toEqual([{ date: res.body.today, questionsAnswered: 2, frozen: false }]);
+  });
+
+  it('counts days in the user\'s time zone', async () => {
+    const student = await register('ada');
+    await setTimezone(student, 'America/Los_Angeles').expect(200);
+    await setTimezone(student, 'Mars/Olympus_Mons').expect(400);
+
+    // 11pm and 1am Pacific, both on the same UTC day
+    const evening = Date.parse('2026-03-03T07:00:00Z');
+    const nextMorning = evening + 2 * 60 * 60 * 1000;
+    expect(getLocalDate(evening, 'America/Los_Angeles')).toBe('2026-03-02');
+    await recordPracticeDay((await db.users.findById(student.id))!, evening);
+    await recordPracticeDay((await db.users.findById(student.id))!, nextMorning);
+
+    const calendar = await getStreakCalendar(student.id, 7, nextMorning);
+    expect(calendar.days.map(day => day.date)).toEqual(['2026-03-02', '2026-03-03']);
+    expect(calendar.streak).toBe(2);
+  });
+
+  it('restarts the streak after a missed day', async () => {
+    const student = await register('ada');
+    await practice(student, [0, 1, 2, 4]);
+
+    const calendar = await getStreakCalendar(student.id, 7, START + 4 * DAY_MS);
+    expect(calendar).toMatchObject({ streak: 1, longestStreak: 3 });
+    expect(await getStreakCalendar(student.id, 7, START + 6 * DAY_MS)).toMatchObject({ streak: 0 });
+  });
+
+  it('earns a freeze every 7 days and spends it on a missed day', async () => {
+    const student = await register('ada');
+    await practice(student, [0, 1, 2, 3, 4, 5, 6]);
+    expect(await getStreakCalendar(student.id, 7, START + 6 * DAY_MS)).toMatchObject({ streak: 7, freezes: 1 });
+
+    // Day 7 is missed; the streak survives while the freeze can cover it
+    expect(await getStreakCalendar(student.id, 7, START + 8 * DAY_MS)).toMatchObject({ streak: 7 });
+    await practice(student, [8]);
+
+    const calendar = await getStreakCalendar(student.id, 3, START + 8 * DAY_MS);
+    expect(calendar).toMatchObject({ streak: 8, freezes: 0 });
+    expect(calendar.days).toEqual([
+      { date: '2026-03-08', questionsAnswered: 1, frozen: false },
+      { date: '2026-03-09', questionsAnswered: 0, frozen: true },
+      { date: '2026-03-10', questionsAnswered: 1, frozen: false }
+    ]);
+  });
+
+  it('is private to the user', async () => {
+    const student = await register('ada');
+    const other = await register('grace');
+
+    await api.get(`/api/users/${student.id}/streak`).set(authHeader(other)).expect(403);
+  });
+});
@@ -0,0 +1,61 @@
+import supertest from 'supertest';
+import { app } from '../../src/app.js';
+
+export const api = supertest(app);
+
+export interface TestUser {
+  id: string;
+  username: string;
+  token: string;
+}
+
+interface RegisterOptions {
+  role?: 'student' | 'teacher';
+  apClasses?: string[];
+}
+
+export const PASSWORD = 'correct-horse';
+
+export async function register(username: string, { role = 'student', apClasses = [] }: RegisterOptions = {}): Promise<TestUser> {
+  const res = await api
+    .post('/api/auth/register')
+    .send({ username, password: PASSWORD, role, apClasses, firstName: username, lastName: 'Test' })
+    .expect(201);
+  return { id: res.body.user.id, username: res.body.user.username, token: res.body.token };
+}
+
+export function authHeader(user: TestUser): { Authorization: string } {
+  return { Authorization: `Bearer ${user.token}` };
+}
+
+export async function createQuestion(teacher: TestUser, apClass: string, unitName = 'Unit 1'): Promise<string> {
+  const res = await api
+    .post('/api/questions')
+    .set(authHeader(teacher))
+    .send({
+      apClass,
+      unitName,
+      questionText: 'Which organelle makes ATP?',
+      options: [
+        { id: 'a', content: 'Mitochondrion' },
+        { id: 'b', content: 'Ribosome' }
+      ],
+      correctAnswerId: 'a',
+      explanation: 'Cellular respiration happens in the mitochondria.'
+    })
+    .expect(201);
+  return res.body.id;
+}
+
+export function answer(student: TestUser, questionId: string, isCorrect: boolean, extra: Record<string, unknown> = {}) {
+  return api
+    .post('/api/attempts')
+    .set(authHeader(student))
+    .send({
+      userId: student.id,
+      questionId,
+      selectedOptionId: isCorrect ? 'a' : 'b',
+      timeSpentSeconds: 20,
+      ...extra
+    });
+}
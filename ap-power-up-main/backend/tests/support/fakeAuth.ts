@@ -0,0 +1,57 @@
+import { AuthProvider, AuthUser, StorageDriver } from '../../src/storage/types.js';
+
+// Stands in for Supabase Auth. Accounts are still rows in auth.users, so the
+// foreign key from public.users holds, but passwords are kept as given and a
+// token is just the user id behind a fixed prefix.
+
+const AUTH_TABLE = 'auth.users';
+const TOKEN_PREFIX = 'test-token:';
+
+interface FakeAuthRow {
+  id: string;
+  email: string | null;
+  encrypted_password: string;
+}
+
+export function tokenFor(userId: string): string {
+  return `${TOKEN_PREFIX}${userId}`;
+}
+
+export function createFakeAuth(driver: StorageDriver): AuthProvider {
+  async function findBy(where: Partial<FakeAuthRow>): Promise<AuthUser | null> {
+    const row = await driver.selectOne<FakeAuthRow>(AUTH_TABLE, where);
+    return row ? { id: row.id, email: row.email } : null;
+  }
+
+  return {
+    async createUser(email, password, metadata) {
+      const [row] = await driver.insert<FakeAuthRow>(AUTH_TABLE, {
+        email,
+        encrypted_password: password,
+        raw_user_meta_data: metadata
+      });
+      return { id: row.id, email: row.email };
+    },
+
+    async signIn(email, password) {
+      const row = await driver.selectOne<FakeAuthRow>(AUTH_TABLE, { email });
+      return row && row.encrypted_password === password ? tokenFor(row.id) : null;
+    },
+
+    async verifyToken(token) {
+      return token.startsWith(TOKEN_PREFIX) ? findBy({ id: token.slice(TOKEN_PREFIX.length) }) : null;
+    },
+
+    getUser(id) {
+      return findBy({ id });
+    },
+
+    findUserByEmail(email) {
+      return findBy({ email });
+    },
+
+    async deleteUser(id) {
+      await driver.delete(AUTH_TABLE, { id });
+    }
+  };
+}
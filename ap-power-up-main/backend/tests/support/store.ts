@@ -0,0 +1,36 @@
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { migrateUp } from '../../src/migrations/runner.js';
+import { createPostgresDriver, SqlClient } from '../../src/storage/postgres.js';
+import { createFakeAuth } from './fakeAuth.js';
+
+// Replaces src/config/storage.ts in tests (see tests/setup.ts): an in-memory
+// Postgres with every migration applied, behind the same driver the API uses
+// with STORAGE_DRIVER=postgres.
+
+// PGlite's query runs a single statement, so queries without parameters (whole
+// migration files among them) go through exec, as node-postgres would run them
+export function toMigrationClient(pglite: PGlite): SqlClient {
+  return {
+    query: async (text, params) => params
+      ? pglite.query(text, params)
+      : (await pglite.exec(text)).at(-1) ?? { rows: [] }
+  };
+}
+
+const database = await PGlite.create({ extensions: { uuid_ossp } });
+
+await migrateUp(toMigrationClient(database), { includeLocal: true });
+
+export const storage = createPostgresDriver(database);
+export const authProvider = createFakeAuth(storage);
+
+// Empties every table so each test starts from a fresh database
+export async function resetStore(): Promise<void> {
+  const { rows } = await database.query<{ name: string }>(
+    `SELECT quote_ident(table_schema) || '.' || quote_ident(table_name) AS name
+     FROM information_schema.tables
+     WHERE table_schema IN ('public', 'auth') AND table_type = 'BASE TABLE' AND table_name <> 'schema_migrations'`
+  );
+  await database.exec(`TRUNCATE ${rows.map(row => row.name).join(', ')} CASCADE`);
+}
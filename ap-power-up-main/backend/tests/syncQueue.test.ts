@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ApiError } from '../../src/lib/apiClient';
+import { replayEntries } from '../../src/lib/syncQueue';
+import { REQUEST_IN_PROGRESS_ERROR } from '../../shared/apiSchemas.js';
+
+// The frontend's offline outbox (src/lib/syncQueue.ts): which failed writes it drops
+// and which it keeps for the next flush. The API calls themselves are not made.
+vi.mock('../../src/lib/api', () => ({ attemptApi: {}, quizApi: {}, apTestApi: {} }));
+
+interface Entry {
+  kind: string;
+  clientId: string;
+}
+
+const entries: Entry[] = ['first', 'second', 'third'].map(clientId => ({ kind: 'questionAttempt', clientId }));
+
+// Replay the entries with the first one failing with `error`; returns the ids sent and removed
+async function replayFailingFirst(error: Error) {
+  const sent: string[] = [];
+  const removed: string[] = [];
+  const lastError = await replayEntries(
+    entries,
+    async entry => {
+      sent.push(entry.clientId);
+      if (entry.clientId === 'first') {
+        throw error;
+      }
+    },
+    async entry => {
+      removed.push(entry.clientId);
+    }
+  );
+  return { sent, removed, lastError };
+}
+
+describe('offline outbox replay', () => {
+  it('drops a write the server rejects for good and sends the ones after it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    for (const error of [
+      new ApiError('Question not found', 404),
+      new ApiError('Not allowed', 403),
+      new ApiError('clientId was already used for a different request', 409),
+      new ApiError('Invalid answer', 400)
+    ]) {
+      expect(await replayFailingFirst(error)).toEqual({
+        sent: ['first', 'second', 'third'],
+        removed: ['first', 'second', 'third'],
+        lastError: error.message
+      });
+    }
+  });
+
+  it('keeps a write that can succeed later, and everything after it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    for (const error of [
+      new Error('Network error: Cannot connect'),
+      new ApiError('Session expired', 401),
+      new ApiError(REQUEST_IN_PROGRESS_ERROR, 409),
+      new ApiError('Too many requests', 429),
+      new ApiError('Internal server error', 500)
+    ]) {
+      const { sent, removed } = await replayFailingFirst(error);
+      expect(sent).toEqual(['first']);
+      expect(removed).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { answer, api, authHeader, createQuestion, register } from './support/api.js';
+import { formatPath } from '../src/middleware/validate.js';
+
+describe('request validation', () => {
+  it('rejects a negative or impossible time spent on an attempt', async () => {
+    const teacher = await register('teach', { role: 'teacher' });
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const questionId = await createQuestion(teacher, 'AP Biology');
+
+    const negative = await answer(student, questionId, true, { timeSpentSeconds: -5 }).expect(400);
+    expect(negative.body).toMatchObject({
+      statusCode: 400,
+      fields: [{ location: 'body', path: 'timeSpentSeconds', message: expect.any(String) }]
+    });
+    expect(negative.body.error).toMatch(/^timeSpentSeconds: /);
+
+    await answer(student, questionId, true, { timeSpentSeconds: 365 * 24 * 60 * 60 }).expect(400);
+
+    const attempts = await api.get(`/api/attempts/${student.id}`).set(authHeader(student)).expect(200);
+    expect(attempts.body).toHaveLength(0);
+  });
+
+  it('lists every invalid field of quiz progress', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+
+    const res = await api
+      .post('/api/quizzes/progress')
+      .set(authHeader(student))
+      .send({ userId: student.id, apClass: 'AP Biology', unit: 'Unit 1', currentIndex: -1, answeredQuestions: [0, 'one'] })
+      .expect(400);
+
+    expect(res.body.fields.map((field: { path: string }) => field.path)).toEqual([
+      'currentIndex',
+      'correctAnswers',
+      'answeredQuestions[1]'
+    ]);
+  });
+
+  it('checks AP test attempt bodies before saving them', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+    const attempt = {
+      userId: student.id,
+      apClass: 'AP Biology',
+      testId: 1,
+      startTimestamp: '2026-03-01T15:00:00.000Z',
+      endTimestamp: '2026-03-01T15:30:00.000Z',
+      totalTimeUsedSeconds: 1800,
+      responses: [{ questionId: 1, userAnswer: 'a', isCorrect: true, timeSpentSeconds: 30 }],
+      summary: {}
+    };
+
+    const res = await api
+      .post('/api/ap-tests/attempts')
+      .set(authHeader(student))
+      .send({
+        ...attempt,
+        endTimestamp: 'yesterday',
+        totalTimeUsedSeconds: -1,
+        responses: [{ questionId: 1, timeSpentSeconds: 'slow' }]
+      })
+      .expect(400);
+    expect(res.body.fields.map((field: { path: string }) => field.path)).toEqual([
+      'endTimestamp',
+      'totalTimeUsedSeconds',
+      'responses[0].timeSpentSeconds'
+    ]);
+
+    // Fields the schema does not list are stored as sent
+    const saved = await api.post('/api/ap-tests/attempts').set(authHeader(student)).send(attempt).expect(201);
+    expect(saved.body.responses).toEqual(attempt.responses);
+  });
+
+  it('validates query strings and coerces their numbers', async () => {
+    const student = await register('ada', { apClasses: ['AP Biology'] });
+
+    const missing = await api.get('/api/review/due').set(authHeader(student)).expect(400);
+    expect(missing.body.fields).toEqual([{ location: 'query', path: 'apClass', message: expect.any(String) }]);
+
+    await api.get('/api/review/due?apClass=AP%20Biology&limit=ten').set(authHeader(student)).expect(400);
+    await api.get('/api/review/due?apClass=AP%20Biology&limit=10').set(authHeader(student)).expect(200);
+  });
+
+  it('formats issue paths with array indices', () => {
+    expect(formatPath(['answers', 0, 'questionId'])).toBe('answers[0].questionId');
+    expect(formatPath(['timeSpentSeconds'])).toBe('timeSpentSeconds');
+    expect(formatPath([])).toBe('');
+  });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // Tests that check log entries add their own sink (tests/logging.test.ts). Every
+    // response is checked against its schema (middleware/operation.ts).
+    env: { LOG_SINKS: 'none', CHECK_RESPONSES: 'true' },
+    // Each test file boots its own database and runs every migration
+    hookTimeout: 60000,
+    testTimeout: 20000
+  }
+});
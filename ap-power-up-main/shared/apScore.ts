@@ -0,0 +1,75 @@
+// Predicted AP scores from multiple-choice accuracy
+// Shared by the frontend (test results) and the backend (ability-based predictions)
+
+// Helper function to calculate predicted AP score from accuracy with tier information
+export interface PredictedAPScoreInfo {
+  score: number;
+  tier: 'Borderline' | 'On Track' | 'Secure';
+  percentage: number;
+  range: string;
+}
+
+export function calculatePredictedAPScore(accuracy: number): number {
+  // AP scoring is typically:
+  // 5: 75-100% (typically 80%+)
+  // 4: 60-74% (typically 65-79%)
+  // 3: 45-59% (typically 50-64%)
+  // 2: 30-44%
+  // 1: 0-29%
+  if (accuracy >= 0.80) return 5;
+  if (accuracy >= 0.65) return 4;
+  if (accuracy >= 0.50) return 3;
+  if (accuracy >= 0.30) return 2;
+  return 1;
+}
+
+export function calculatePredictedAPScoreWithTier(accuracy: number): PredictedAPScoreInfo {
+  const percentage = Math.round(accuracy * 100);
+  
+  // Score 5: 80-100%
+  if (percentage >= 80) {
+    if (percentage >= 90) {
+      return { score: 5, tier: 'Secure', percentage, range: '90-100%' };
+    } else if (percentage >= 85) {
+      return { score: 5, tier: 'On Track', percentage, range: '85-89%' };
+    } else {
+      return { score: 5, tier: 'Borderline', percentage, range: '80-84%' };
+    }
+  }
+  
+  // Score 4: 65-79%
+  if (percentage >= 65) {
+    if (percentage >= 74) {
+      return { score: 4, tier: 'Secure', percentage, range: '74-79%' };
+    } else if (percentage >= 70) {
+      return { score: 4, tier: 'On Track', percentage, range: '70-73%' };
+    } else {
+      return { score: 4, tier: 'Borderline', percentage, range: '65-69%' };
+    }
+  }
+  
+  // Score 3: 50-64%
+  if (percentage >= 50) {
+    if (percentage >= 58) {
+      return { score: 3, tier: 'Secure', percentage, range: '58-64%' };
+    } else if (percentage >= 54) {
+      return { score: 3, tier: 'On Track', percentage, range: '54-57%' };
+    } else {
+      return { score: 3, tier: 'Borderline', percentage, range: '50-53%' };
+    }
+  }
+  
+  // Score 2: 30-49%
+  if (percentage >= 30) {
+    if (percentage >= 40) {
+      return { score: 2, tier: 'Secure', percentage, range: '40-49%' };
+    } else if (percentage >= 35) {
+      return { score: 2, tier: 'On Track', percentage, range: '35-39%' };
+    } else {
+      return { score: 2, tier: 'Borderline', percentage, range: '30-34%' };
+    }
+  }
+  
+  // Score 1: 0-29%
+  return { score: 1, tier: 'Borderline', percentage, range: '0-29%' };
+}
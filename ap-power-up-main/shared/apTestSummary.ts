@@ -0,0 +1,180 @@
+// AP test summaries: scores by skill, tag and section, and time management.
+// Shared by the frontend (test results) and the backend (which summarizes the attempts
+// it grades).
+
+import { calculatePredictedAPScore } from './apScore.js';
+import { ItemAnswer } from './itemTypes.js';
+
+// The fields of a response that its test's summary is built from
+export interface APTestSummaryResponse {
+  questionId: number;
+  userAnswer: string | null;
+  answer?: ItemAnswer; // Keyed questions, in place of userAnswer
+  credit?: number; // Keyed questions: 0-1, where isCorrect means full credit
+  isCorrect: boolean;
+  timeSpentSeconds: number;
+  skillType: string;
+  tags: string[];
+  estimatedTimeSeconds: number;
+  freeResponse?: Record<string, string>; // Answer text per part; set for every free-response question
+}
+
+// The part of a test section its summary needs (APExamSection in the frontend)
+export interface APTestSummarySection {
+  id: string;
+  name: string;
+  time_limit_minutes: number;
+  question_ids: number[];
+}
+
+// How long a student spent on a section, recorded when the section ends
+export interface APExamSectionTiming {
+  sectionId: string;
+  timeUsedSeconds: number;
+  timedOut: boolean; // The section ended because its time ran out
+}
+
+// Score and timing of one section. Free-response questions are scored after the test,
+// so they are left out of the section's questions and accuracy.
+export interface APExamSectionSummary {
+  sectionId: string;
+  name: string;
+  questionIds: number[]; // Every question of the section, so it can be summarized again
+  totalQuestions: number;
+  correctAnswers: number;
+  accuracy: number; // 0-1, counting partial credit
+  timeLimitSeconds: number;
+  timeUsedSeconds: number;
+  timedOut: boolean;
+}
+
+// A type rather than an interface, so it can be stored as JSON (Record<string, unknown>)
+export type APTestSummary = {
+  totalQuestions: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  unansweredQuestions: number;
+  overallAccuracy: number; // 0-1
+  accuracyBySkillType: Record<string, { correct: number; total: number; accuracy: number }>;
+  accuracyByTag: Record<string, { correct: number; total: number; accuracy: number }>;
+  timeManagement: {
+    totalEstimatedTime: number;
+    totalActualTime: number;
+    averageTimePerQuestion: number;
+    questionsOverTime: number; // Questions that took longer than estimated
+    questionsUnderTime: number; // Questions that took less than estimated
+  };
+  predictedAPScore: number; // 1-5 scale (multiple choice only)
+  sections?: APExamSectionSummary[]; // Tests taken in sections, in the order they were taken
+};
+
+// Multi-select, numeric, ordering and matching answers are kept in `answer`
+export function isAPTestResponseAnswered(response: Pick<APTestSummaryResponse, 'answer' | 'userAnswer'>): boolean {
+  return response.answer !== undefined ? response.answer !== null : response.userAnswer !== null;
+}
+
+// Credit earned by a response: partial for keyed questions, otherwise all or nothing
+export function getAPTestResponseCredit(response: Pick<APTestSummaryResponse, 'credit' | 'isCorrect'>): number {
+  return response.credit ?? (response.isCorrect ? 1 : 0);
+}
+
+// Score and timing of each section a sectioned test was taken in
+function summarizeSections(
+  responses: APTestSummaryResponse[],
+  sections: APTestSummarySection[],
+  timings: APExamSectionTiming[]
+): APExamSectionSummary[] {
+  return sections.map(section => {
+    const sectionResponses = responses.filter(r => section.question_ids.includes(r.questionId));
+    const credit = sectionResponses.reduce((sum, r) => sum + getAPTestResponseCredit(r), 0);
+    const timing = timings.find(t => t.sectionId === section.id);
+    return {
+      sectionId: section.id,
+      name: section.name,
+      questionIds: section.question_ids,
+      totalQuestions: sectionResponses.length,
+      correctAnswers: sectionResponses.filter(r => r.isCorrect).length,
+      accuracy: sectionResponses.length > 0 ? credit / sectionResponses.length : 0,
+      timeLimitSeconds: section.time_limit_minutes * 60,
+      timeUsedSeconds: timing?.timeUsedSeconds ?? 0,
+      timedOut: timing?.timedOut ?? false,
+    };
+  });
+}
+
+// Accuracy counts partly right answers by their credit; correctAnswers only counts full credit.
+// Free-response answers are left out: they are scored against a rubric after the test,
+// and the backend adds their points to the summary (summary.freeResponse)
+export function calculateAPTestSummary(
+  allResponses: APTestSummaryResponse[],
+  startTime: number,
+  endTime: number,
+  sections?: APTestSummarySection[],
+  sectionTimings: APExamSectionTiming[] = []
+): APTestSummary {
+  const responses = allResponses.filter(r => !r.freeResponse);
+  const totalQuestions = responses.length;
+  const correctAnswers = responses.filter(r => r.isCorrect).length;
+  const incorrectAnswers = responses.filter(r => !r.isCorrect && isAPTestResponseAnswered(r)).length;
+  const unansweredQuestions = responses.filter(r => !isAPTestResponseAnswered(r)).length;
+  const credit = responses.reduce((sum, r) => sum + getAPTestResponseCredit(r), 0);
+  const overallAccuracy = totalQuestions > 0 ? credit / totalQuestions : 0;
+
+  // Calculate accuracy by skill type
+  const accuracyBySkillType: Record<string, { correct: number; total: number; accuracy: number }> = {};
+  responses.forEach(response => {
+    if (!accuracyBySkillType[response.skillType]) {
+      accuracyBySkillType[response.skillType] = { correct: 0, total: 0, accuracy: 0 };
+    }
+    accuracyBySkillType[response.skillType].total++;
+    accuracyBySkillType[response.skillType].correct += getAPTestResponseCredit(response);
+  });
+  Object.keys(accuracyBySkillType).forEach(skillType => {
+    const data = accuracyBySkillType[skillType];
+    data.accuracy = data.total > 0 ? data.correct / data.total : 0;
+  });
+
+  // Calculate accuracy by tag
+  const accuracyByTag: Record<string, { correct: number; total: number; accuracy: number }> = {};
+  responses.forEach(response => {
+    response.tags.forEach(tag => {
+      if (!accuracyByTag[tag]) {
+        accuracyByTag[tag] = { correct: 0, total: 0, accuracy: 0 };
+      }
+      accuracyByTag[tag].total++;
+      accuracyByTag[tag].correct += getAPTestResponseCredit(response);
+    });
+  });
+  Object.keys(accuracyByTag).forEach(tag => {
+    const data = accuracyByTag[tag];
+    data.accuracy = data.total > 0 ? data.correct / data.total : 0;
+  });
+
+  // Time management analysis
+  const totalEstimatedTime = responses.reduce((sum, r) => sum + r.estimatedTimeSeconds, 0);
+  const totalActualTime = responses.reduce((sum, r) => sum + r.timeSpentSeconds, 0);
+  const averageTimePerQuestion = totalQuestions > 0 ? totalActualTime / totalQuestions : 0;
+  const questionsOverTime = responses.filter(r => r.timeSpentSeconds > r.estimatedTimeSeconds).length;
+  const questionsUnderTime = responses.filter(r => r.timeSpentSeconds < r.estimatedTimeSeconds).length;
+
+  const predictedAPScore = calculatePredictedAPScore(overallAccuracy);
+
+  return {
+    totalQuestions,
+    correctAnswers,
+    incorrectAnswers,
+    unansweredQuestions,
+    overallAccuracy,
+    accuracyBySkillType,
+    accuracyByTag,
+    timeManagement: {
+      totalEstimatedTime,
+      totalActualTime,
+      averageTimePerQuestion,
+      questionsOverTime,
+      questionsUnderTime,
+    },
+    predictedAPScore,
+    sections: sections ? summarizeSections(responses, sections, sectionTimings) : undefined,
+  };
+}
@@ -0,0 +1,1007 @@
+// Request and response schemas of the backend API. The backend validates requests with
+// them (middleware/validate.ts), its OpenAPI document is built from them
+// (services/openapi.ts), and the frontend's generated client (src/lib/generatedApi.ts)
+// sends and receives the types inferred from them, so a change to a request's or a
+// response's shape breaks the build on both sides at once.
+//
+// Responses that return stored rows keep their column names; the generated client
+// turns the keys it finds here into camelCase.
+
+import { z } from 'zod/v4';
+import { PredictedAPScoreInfo } from './apScore.js';
+import { ASSIGNMENT_TYPES, MAX_ASSIGNMENT_QUESTIONS, MIN_ASSIGNMENT_QUESTIONS } from './assignments.js';
+import { FreeResponsePart, FreeResponseSummary } from './freeResponse.js';
+import { AnswerKey, ItemFormat, QUESTION_TYPES } from './itemTypes.js';
+import { AttemptAwardResult, QuestionScoringResult, SessionScoringResult } from './scoring.js';
+
+// Longest a question or an AP test can take; anything longer is a clock error
+export const MAX_TIME_SPENT_SECONDS = 24 * 60 * 60;
+
+const MIN_CONFIDENCE = 1;
+const MAX_CONFIDENCE = 5;
+
+// A non-blank string; the value is trimmed
+const requiredText = () => z.string({ error: 'Required' }).trim().min(1, 'Required');
+
+const wholeNumber = () => z.number().int('Must be a whole number');
+
+const timestamp = () => z.iso.datetime({ offset: true, error: 'Must be an ISO 8601 date and time' });
+
+const timeSpentSeconds = () => z.number().min(0).max(MAX_TIME_SPENT_SECONDS);
+
+// A client-generated UUID that makes a write safe to replay (see services/idempotency.ts)
+const clientId = () => z.uuid().optional();
+
+const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON the API stores as sent, such as AP test responses and saved test state. The fields
+// listed are checked; any others are kept as they are.
+const storedJson = <T extends z.ZodRawShape>(shape: T) => z.object(shape).catchall(z.any());
+
+// Query string values; numbers arrive as text
+const queryText = () => z.string().optional();
+const queryCount = () => z.coerce.number().int('Must be a whole number').min(1).optional();
+
+// An option id, option ids, a number, an option id per prompt, or null (shared/itemTypes.ts)
+export const ItemAnswerSchema = z.union([
+  z.string(),
+  z.number(),
+  z.array(z.string()),
+  z.record(z.string(), z.string()),
+  z.null()
+], { error: 'Must be an option id, option ids, a number or option ids per prompt' });
+export type ItemAnswer = z.infer<typeof ItemAnswerSchema>;
+
+export const LeaderboardWindowSchema = z.enum(['week', 'month', 'term', 'all']);
+export type LeaderboardWindow = z.infer<typeof LeaderboardWindowSchema>;
+
+const QuestionOptionSchema = z.object({
+  id: z.string(),
+  content: z.string()
+});
+
+const answerKey = () => z.custom<AnswerKey>(isObject, 'Must be an object').nullable();
+
+// Points breakdowns of shared/scoring.ts
+const QuestionScoringSchema: z.ZodType<QuestionScoringResult> = z.object({
+  basePoints: z.number(),
+  attemptMultiplier: z.number(),
+  speedBonus: z.number(),
+  masteryPenalty: z.number(),
+  finalQuestionPoints: z.number()
+});
+
+const AttemptAwardSchema: z.ZodType<AttemptAwardResult> = z.object({
+  questionPoints: z.number(),
+  streakMultiplier: z.number(),
+  totalBeforeCap: z.number(),
+  dailyCapApplied: z.boolean(),
+  finalAttemptPoints: z.number()
+});
+
+const SessionScoringResultSchema: z.ZodType<SessionScoringResult> = z.object({
+  questionPoints: z.number(),
+  accuracyBonus: z.number(),
+  streakMultiplier: z.number(),
+  totalBeforeCap: z.number(),
+  dailyCapApplied: z.boolean(),
+  finalSessionPoints: z.number()
+});
+
+// A write that sends nothing else back
+export const SuccessSchema = z.object({
+  success: z.boolean(),
+  message: z.string().optional()
+});
+export type Success = z.infer<typeof SuccessSchema>;
+
+// Errors
+
+export const FieldErrorSchema = z.object({
+  location: z.enum(['body', 'query', 'params']),
+  path: z.string(), // e.g. answers[0].questionId; empty for the whole body
+  message: z.string()
+});
+export type FieldError = z.infer<typeof FieldErrorSchema>;
+
+// The 409 for a replayed write whose first request has not finished yet. Unlike other
+// conflicts it clears up on its own, so the offline outbox retries it.
+export const REQUEST_IN_PROGRESS_ERROR = 'This request is still being processed';
+
+// Every error response. Requests that fail validation list each invalid field.
+export const ApiErrorSchema = z.object({
+  error: z.string(),
+  statusCode: z.number(),
+  fields: z.array(FieldErrorSchema).optional(),
+  requestId: z.string().optional() // 5xx only
+});
+export type ApiError = z.infer<typeof ApiErrorSchema>;
+
+// Auth
+
+export const RegisterBodySchema = z.object({
+  username: requiredText(),
+  password: z.string({ error: 'Required' }).min(1, 'Required'),
+  role: z.enum(['student', 'teacher']),
+  apClasses: z.array(z.string()).optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  email: z.string().optional(),
+  timezone: z.string().optional() // An unknown time zone keeps the UTC default
+});
+export type RegisterBody = z.infer<typeof RegisterBodySchema>;
+
+export const LoginBodySchema = z.object({
+  username: requiredText(),
+  password: z.string({ error: 'Required' }).min(1, 'Required')
+});
+export type LoginBody = z.infer<typeof LoginBodySchema>;
+
+// A users row
+export const UserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  nickname: z.string().nullable(),
+  display_preference: z.enum(['realName', 'nickname']),
+  role: z.enum(['student', 'teacher']),
+  streak: z.number(),
+  longest_streak: z.number(),
+  streak_freezes: z.number(),
+  timezone: z.string(),
+  last_quiz_date: z.string().nullable(),
+  last_decay_timestamp: z.string().nullable(),
+  show_leaderboard: z.boolean(),
+  show_rank: z.boolean(),
+  show_rank_publicly: z.boolean(),
+  track_confidence: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+export type User = z.infer<typeof UserSchema>;
+
+// The token is missing when the account was created but signing in failed
+export const AuthResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  user: UserSchema.extend({ apClasses: z.array(z.string()) }),
+  token: z.string().optional()
+});
+export type AuthResult = z.infer<typeof AuthResultSchema>;
+
+// Users
+
+export const UpdateUserBodySchema = z.object({
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  displayPreference: z.enum(['realName', 'nickname', 'username']).optional(), // username is stored as nickname
+  showLeaderboard: z.boolean().optional(),
+  showRank: z.boolean().optional(),
+  showRankPublicly: z.boolean().optional(),
+  track_confidence: z.boolean().optional(),
+  timezone: z.string().optional(),
+  ap_classes: z.array(z.string()).optional()
+});
+export type UpdateUserBody = z.infer<typeof UpdateUserBodySchema>;
+
+// A user with their AP classes and class scores
+export const UserProfileSchema = UserSchema.extend({
+  apClasses: z.array(z.string()),
+  classScores: z.record(z.string(), z.number())
+});
+export type UserProfile = z.infer<typeof UserProfileSchema>;
+
+export const PointsHistoryQuerySchema = z.object({
+  apClass: queryText(), // Required for teachers
+  limit: queryCount()
+});
+export type PointsHistoryQuery = z.infer<typeof PointsHistoryQuerySchema>;
+
+// An entry of the points ledger behind a class score
+export const PointsHistoryEntrySchema = z.object({
+  id: z.string(),
+  apClass: z.string().nullable(),
+  date: z.string(),
+  points: z.number(),
+  source: z.enum(['attempt', 'session_bonus', 'decay', 'adjustment', 'opening_balance', 'legacy']),
+  // Scoring breakdown of an award
+  details: storedJson({
+    questionId: z.string().optional(),
+    question: QuestionScoringSchema.optional(),
+    session: SessionScoringResultSchema.optional(),
+    award: AttemptAwardSchema.optional()
+  }).nullable(),
+  note: z.string().nullable(),
+  createdAt: z.string()
+});
+export type PointsHistoryEntry = z.infer<typeof PointsHistoryEntrySchema>;
+
+export const StreakQuerySchema = z.object({
+  days: queryCount()
+});
+export type StreakQuery = z.infer<typeof StreakQuerySchema>;
+
+// A user's streak and the days they practiced. Dates are calendar days in the user's
+// time zone.
+export const StreakCalendarSchema = z.object({
+  timezone: z.string(),
+  today: z.string(),
+  streak: z.number(),
+  longestStreak: z.number(),
+  freezes: z.number(),
+  maxFreezes: z.number(),
+  freezeEarnDays: z.number(),
+  days: z.array(z.object({
+    date: z.string(),
+    questionsAnswered: z.number(),
+    frozen: z.boolean()
+  }))
+});
+export type StreakCalendar = z.infer<typeof StreakCalendarSchema>;
+
+export const ApClassQuerySchema = z.object({
+  apClass: requiredText()
+});
+export type ApClassQuery = z.infer<typeof ApClassQuerySchema>;
+
+const PredictedScoreSchema: z.ZodType<PredictedAPScoreInfo> = z.object({
+  score: z.number(),
+  tier: z.enum(['Borderline', 'On Track', 'Secure']),
+  percentage: z.number(),
+  range: z.string()
+});
+
+const scoreInterval = () => z.tuple([z.number(), z.number()]);
+
+// A student's Rasch ability in an AP class
+export const AbilityReportSchema = z.object({
+  apClass: z.string(),
+  ability: z.number(),
+  standardError: z.number(),
+  confidenceInterval: scoreInterval(),
+  responses: z.number(),
+  calibratedItems: z.number(),
+  // Predicted AP score at the ability, with the accuracy it expects on the class's AP test items
+  predictedScore: z.intersection(PredictedScoreSchema, z.object({ expectedAccuracy: z.number() })),
+  scoreRange: scoreInterval() // Predicted scores at the ends of the confidence interval
+});
+export type AbilityReport = z.infer<typeof AbilityReportSchema>;
+
+export const PointsAdjustmentBodySchema = z.object({
+  apClass: requiredText(),
+  points: wholeNumber().refine(points => points !== 0, 'Must not be 0'),
+  note: requiredText()
+});
+export type PointsAdjustmentBody = z.infer<typeof PointsAdjustmentBodySchema>;
+
+export const PointsAdjustmentResultSchema = z.object({
+  apClass: z.string(),
+  points: z.number(),
+  newScore: z.number()
+});
+export type PointsAdjustmentResult = z.infer<typeof PointsAdjustmentResultSchema>;
+
+export const AddApClassBodySchema = z.object({
+  apClass: requiredText()
+});
+export type AddApClassBody = z.infer<typeof AddApClassBodySchema>;
+
+// Adding or removing an AP class
+export const ApClassChangeResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  user: UserProfileSchema.nullable()
+});
+export type ApClassChangeResult = z.infer<typeof ApClassChangeResultSchema>;
+
+// Questions
+
+export const QuestionFiltersQuerySchema = z.object({
+  apClass: queryText(),
+  unit: queryText(),
+  subtopic: queryText()
+});
+export type QuestionFiltersQuery = z.infer<typeof QuestionFiltersQuerySchema>;
+
+// The fields of a question a teacher can set. Whether they fit together (an answer key
+// that matches the options, a rubric for free response) is checked by
+// services/questionRevisions.ts, which also accepts the snake_case names.
+const QuestionTypeSchema = z.enum(QUESTION_TYPES);
+
+const questionFields = {
+  questionType: QuestionTypeSchema.optional(),
+  questionText: z.string().optional(),
+  options: z.array(QuestionOptionSchema).optional(),
+  correctAnswerId: z.string().optional(),
+  correctOptionId: z.string().optional(),
+  answerKey: answerKey().optional(),
+  parts: z.custom<FreeResponsePart[]>(Array.isArray, 'Must be an array').nullable().optional(),
+  explanation: z.string().nullable().optional(),
+  unitName: z.string().optional(),
+  subtopicName: z.string().nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  changeNote: z.string().optional(),
+  question_type: QuestionTypeSchema.optional(),
+  question_text: z.string().optional(),
+  correct_answer_id: z.string().optional(),
+  answer_key: answerKey().optional(),
+  unit_name: z.string().optional(),
+  subtopic_name: z.string().nullable().optional()
+};
+
+export const CreateQuestionBodySchema = z.object({
+  ...questionFields,
+  apClass: z.string().optional(),
+  ap_class: z.string().optional()
+}).refine(question => Boolean(question.apClass || question.ap_class), { message: 'Required', path: ['apClass'] });
+export type CreateQuestionBody = z.infer<typeof CreateQuestionBodySchema>;
+
+export const UpdateQuestionBodySchema = z.object(questionFields);
+export type UpdateQuestionBody = z.infer<typeof UpdateQuestionBodySchema>;
+
+const freeResponseParts = () => z.custom<FreeResponsePart[]>(Array.isArray, 'Must be an array').nullable();
+
+// A questions row. Students get it without its answer key, explanation and rubrics
+// (services/grading.ts); keyed items come with their item_format instead.
+export const QuestionRecordSchema = z.object({
+  id: z.string(),
+  source_id: z.string().nullable(), // Id in the imported question bank
+  question_type: QuestionTypeSchema,
+  question_text: z.string(),
+  options: z.array(QuestionOptionSchema), // Empty for numeric and free response
+  correct_answer_id: z.string().optional(), // Multiple choice only; empty otherwise
+  answer_key: answerKey().optional(), // Multi-select, numeric, ordering and matching only
+  item_format: z.custom<ItemFormat>(isObject).nullable().optional(),
+  parts: freeResponseParts(), // Free response only
+  explanation: z.string().nullable().optional(),
+  ap_class: z.string(),
+  unit_name: z.string(),
+  subtopic_name: z.string().nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+export type QuestionRecord = z.infer<typeof QuestionRecordSchema>;
+
+// The versioned part of a question, saved with every revision
+export const QuestionSnapshotSchema = z.object({
+  question_type: QuestionTypeSchema,
+  question_text: z.string(),
+  options: z.array(QuestionOptionSchema),
+  correct_answer_id: z.string(),
+  answer_key: answerKey(),
+  parts: freeResponseParts(),
+  explanation: z.string().nullable(),
+  unit_name: z.string(),
+  subtopic_name: z.string().nullable(),
+  metadata: z.record(z.string(), z.unknown())
+});
+export type QuestionSnapshot = z.infer<typeof QuestionSnapshotSchema>;
+
+export const QuestionRevisionSchema = z.object({
+  id: z.string(),
+  questionId: z.string(),
+  revisionNumber: z.number(),
+  snapshot: QuestionSnapshotSchema,
+  changeNote: z.string().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: z.string()
+});
+export type QuestionRevision = z.infer<typeof QuestionRevisionSchema>;
+
+export const RollbackResultSchema = z.object({
+  question: QuestionRecordSchema,
+  revision: QuestionRevisionSchema
+});
+export type RollbackResult = z.infer<typeof RollbackResultSchema>;
+
+const ItemFlagSchema = z.enum([
+  'distractor_chosen_more_than_key', // Likely mis-keyed
+  'negative_discrimination' // Stronger students get it wrong more often
+]);
+
+// Item analysis of a question. Each student counts once, with their first answer.
+export const ItemStatsSchema = z.object({
+  questionId: z.string(),
+  apClass: z.string(),
+  unitName: z.string(),
+  questionType: QuestionTypeSchema,
+  questionText: z.string(),
+  correctAnswerId: z.string(), // Empty for keyed item types
+  responses: z.number(),
+  pValue: z.number().nullable(), // Mean credit; the share answering correctly for multiple choice
+  pointBiserial: z.number().nullable(), // Discrimination
+  medianTimeSeconds: z.number().nullable(),
+  options: z.array(z.object({ // Multiple choice only
+    optionId: z.string(),
+    isKey: z.boolean(),
+    count: z.number(),
+    rate: z.number()
+  })),
+  flags: z.array(ItemFlagSchema)
+});
+export type ItemStats = z.infer<typeof ItemStatsSchema>;
+export type ItemFlag = z.infer<typeof ItemFlagSchema>;
+
+export const RevisionParamsSchema = z.object({
+  id: z.string(),
+  revision: z.string().regex(/^\d+$/, 'Must be a revision number')
+});
+
+export const ImportQuestionsBodySchema = z.object({
+  classData: z.unknown().refine(value => value !== undefined && value !== null, 'Required'), // Checked by services/questionImport.ts
+  dryRun: z.boolean().optional()
+});
+export type ImportQuestionsBody = z.infer<typeof ImportQuestionsBodySchema>;
+
+export const ImportQuestionsQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional()
+});
+export type ImportQuestionsQuery = z.infer<typeof ImportQuestionsQuerySchema>;
+
+const ImportActionSchema = z.enum(['create', 'update', 'unchanged', 'skip']);
+export type ImportAction = z.infer<typeof ImportActionSchema>;
+
+export const QuestionImportResultSchema = z.object({
+  questionId: z.string().nullable(),
+  unitName: z.string(),
+  subtopicName: z.string().nullable(),
+  action: ImportActionSchema,
+  errors: z.array(z.string()),
+  warnings: z.array(z.string())
+});
+export type QuestionImportResult = z.infer<typeof QuestionImportResultSchema>;
+
+export const QuestionImportReportSchema = z.object({
+  dryRun: z.boolean(),
+  className: z.string(),
+  fileErrors: z.array(z.string()),
+  summary: z.object({
+    create: z.number(),
+    update: z.number(),
+    unchanged: z.number(),
+    skip: z.number(),
+    total: z.number(),
+    warnings: z.number()
+  }),
+  results: z.array(QuestionImportResultSchema)
+});
+export type QuestionImportReport = z.infer<typeof QuestionImportReportSchema>;
+
+// An answer sent for grading; AP test questions are identified by their number
+export const SubmittedAnswerSchema = z.object({
+  questionId: z.union([requiredText(), z.number()]),
+  selectedOptionId: z.string().nullable().optional(),
+  answer: ItemAnswerSchema.optional() // For keyed item types, in place of selectedOptionId
+});
+export type SubmittedAnswer = z.infer<typeof SubmittedAnswerSchema>;
+
+export const GradeAnswersBodySchema = z.object({
+  answers: z.array(SubmittedAnswerSchema).min(1, 'Must list at least one answer')
+});
+export type GradeAnswersBody = z.infer<typeof GradeAnswersBodySchema>;
+
+// A graded answer with the question's key
+export const QuestionGradeSchema = z.object({
+  questionId: z.string(),
+  selectedOptionId: z.string().nullable(),
+  isCorrect: z.boolean(), // Full credit
+  correctAnswerId: z.string(),
+  explanation: z.string().nullable(),
+  // Keyed item types only
+  answer: ItemAnswerSchema.optional(),
+  credit: z.number().optional(), // 0-1
+  answerKey: answerKey().optional()
+});
+export type QuestionGrade = z.infer<typeof QuestionGradeSchema>;
+
+// Quizzes
+
+export const QuizResultBodySchema = z.object({
+  userId: z.string(),
+  apClass: requiredText(),
+  unit: z.string(),
+  score: wholeNumber().min(0),
+  totalQuestions: wholeNumber().min(0),
+  questionIds: z.array(z.string()).optional(), // The session's questions, for the accuracy bonus
+  clientId: clientId()
+}).refine(result => result.score <= result.totalQuestions, { message: 'Must not be more than totalQuestions', path: ['score'] });
+export type QuizResultBody = z.infer<typeof QuizResultBodySchema>;
+
+export const QuizResultSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  ap_class: z.string(),
+  unit: z.string(),
+  score: z.number(),
+  total_questions: z.number(),
+  points_earned: z.number().nullable(),
+  timestamp: z.string()
+});
+export type QuizResult = z.infer<typeof QuizResultSchema>;
+
+// The accuracy bonus awarded when a quiz result is saved
+export const SessionScoringSchema = z.object({
+  questionPoints: z.number(),
+  attemptPoints: z.number(),
+  accuracyBonus: z.number(),
+  correctAnswers: z.number(),
+  totalAnswered: z.number(),
+  award: AttemptAwardSchema,
+  newScore: z.number().nullable()
+});
+export type SessionScoring = z.infer<typeof SessionScoringSchema>;
+
+export const ScoredQuizResultSchema = QuizResultSchema.extend({
+  scoring: SessionScoringSchema
+});
+export type ScoredQuizResult = z.infer<typeof ScoredQuizResultSchema>;
+
+export const QuizProgressBodySchema = z.object({
+  userId: z.string(),
+  apClass: requiredText(),
+  unit: z.string(),
+  currentIndex: wholeNumber().min(0),
+  correctAnswers: wholeNumber().min(0),
+  answeredQuestions: z.array(wholeNumber().min(0)).optional(), // Indices of answered questions
+  pointsEarned: z.number().min(0).optional(),
+  questionStartTime: z.number().optional(),
+  sessionCorrectAnswers: wholeNumber().min(0).optional(),
+  sessionTotalAnswered: wholeNumber().min(0).optional(),
+  clientId: clientId()
+});
+export type QuizProgressBody = z.infer<typeof QuizProgressBodySchema>;
+
+export const QuizProgressSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  ap_class: z.string(),
+  unit: z.string(),
+  current_index: z.number(),
+  correct_answers: z.number(),
+  answered_questions: z.array(z.number()),
+  points_earned: z.number(),
+  session_correct_answers: z.number(),
+  session_total_answered: z.number(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+export type QuizProgress = z.infer<typeof QuizProgressSchema>;
+
+export const ApClassFilterQuerySchema = z.object({
+  apClass: queryText()
+});
+export type ApClassFilterQuery = z.infer<typeof ApClassFilterQuerySchema>;
+
+// Attempts
+
+export const RecordAttemptBodySchema = z.object({
+  userId: z.string(),
+  questionId: requiredText(),
+  timeSpentSeconds: timeSpentSeconds().optional(),
+  selectedOptionId: z.string().nullable().optional(), // null when no option was chosen
+  answer: ItemAnswerSchema.optional(), // Graded on the server for keyed item types
+  confidence: wholeNumber().min(MIN_CONFIDENCE).max(MAX_CONFIDENCE).nullable().optional(),
+  timestamp: timestamp().optional(),
+  clientId: clientId()
+}).refine(attempt => attempt.answer !== undefined || attempt.selectedOptionId !== undefined, {
+  message: 'Send selectedOptionId or answer',
+  path: ['selectedOptionId']
+});
+export type RecordAttemptBody = z.infer<typeof RecordAttemptBodySchema>;
+
+export const AttemptsQuerySchema = z.object({
+  questionId: queryText()
+});
+export type AttemptsQuery = z.infer<typeof AttemptsQuerySchema>;
+
+// question_attempts.metadata: every answer to the question and when it was answered correctly
+const AttemptMetadataSchema = storedJson({
+  answer_events: z.array(storedJson({
+    timestamp: z.string(),
+    optionId: z.string().optional(),
+    confidence: z.number().optional(),
+    isCorrect: z.boolean().optional(),
+    pointsAwarded: z.number().optional()
+  })).optional(),
+  correct_timestamps: z.array(z.string()).optional()
+});
+
+export const QuestionAttemptSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  question_id: z.string(),
+  attempts: z.number(),
+  correct_attempts: z.number(),
+  streak: z.number(),
+  last_attempt_timestamp: z.number().nullable(),
+  time_spent_seconds: z.number(),
+  status: z.enum(['unanswered', 'correct', 'incorrect']),
+  is_correct: z.boolean(),
+  credit: z.number().nullable(), // Of the latest answer, from 0 to 1; null before partial credit
+  confidence: z.number().nullable(),
+  last_practiced_at: z.string().nullable(),
+  metadata: AttemptMetadataSchema.nullable(),
+  review_ease_factor: z.number(),
+  review_interval_days: z.number(),
+  review_repetitions: z.number(),
+  review_due_at: z.string().nullable()
+});
+export type QuestionAttempt = z.infer<typeof QuestionAttemptSchema>;
+
+// Points awarded when an attempt is recorded
+export const AttemptScoringSchema = z.object({
+  question: QuestionScoringSchema,
+  award: AttemptAwardSchema,
+  apClass: z.string(),
+  newScore: z.number().nullable()
+});
+export type AttemptScoring = z.infer<typeof AttemptScoringSchema>;
+
+export const RecordedAttemptSchema = QuestionAttemptSchema.extend({
+  attemptNumber: z.number(),
+  scoring: AttemptScoringSchema,
+  grade: QuestionGradeSchema // The key and explanation, sent once the answer is recorded
+});
+export type RecordedAttempt = z.infer<typeof RecordedAttemptSchema>;
+
+// Review
+
+export const DueReviewsQuerySchema = z.object({
+  apClass: requiredText(),
+  limit: queryCount()
+});
+export type DueReviewsQuery = z.infer<typeof DueReviewsQuerySchema>;
+
+// A question due for spaced-repetition review
+export const DueReviewSchema = z.object({
+  questionId: z.string(),
+  apClass: z.string(),
+  unitName: z.string(),
+  subtopicName: z.string().nullable(),
+  dueAt: z.string(),
+  easeFactor: z.number(),
+  intervalDays: z.number(),
+  repetitions: z.number()
+});
+export type DueReview = z.infer<typeof DueReviewSchema>;
+
+// Leaderboard
+
+export const LeaderboardQuerySchema = z.object({
+  window: LeaderboardWindowSchema.optional() // all by default
+});
+export type LeaderboardQuery = z.infer<typeof LeaderboardQuerySchema>;
+
+export const LeaderboardEntrySchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  nickname: z.string().nullable(),
+  displayPreference: z.enum(['realName', 'nickname']),
+  streak: z.number(),
+  showRankPublicly: z.boolean(),
+  classScores: z.record(z.string(), z.number()) // Only the ranked class
+});
+export type LeaderboardEntry = z.infer<typeof LeaderboardEntrySchema>;
+
+// Classes
+
+export const CreateClassBodySchema = z.object({
+  apClassName: requiredText()
+});
+export type CreateClassBody = z.infer<typeof CreateClassBodySchema>;
+
+export const ClassSchema = z.object({
+  id: z.string(),
+  class_code: z.string(),
+  teacher_id: z.string(),
+  ap_class_name: z.string(),
+  leaderboard_enabled: z.boolean(),
+  created_at: z.string()
+});
+export type Class = z.infer<typeof ClassSchema>;
+
+export const CreateClassResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  class: ClassSchema,
+  classCode: z.string()
+});
+export type CreateClassResult = z.infer<typeof CreateClassResultSchema>;
+
+export const JoinClassResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  class: ClassSchema
+});
+export type JoinClassResult = z.infer<typeof JoinClassResultSchema>;
+
+// Assignments
+
+const AssignmentTypeSchema = z.enum(ASSIGNMENT_TYPES);
+const AssignmentStatusSchema = z.enum(['completed', 'late', 'pending', 'missing']);
+
+export const NewAssignmentSchema = z.object({
+  title: requiredText(),
+  assignmentType: AssignmentTypeSchema.optional(), // practice by default
+  units: z.array(z.string()).optional(), // Empty means every unit
+  subtopics: z.array(z.string()).optional(), // Empty means every subtopic
+  questionCount: wholeNumber().min(MIN_ASSIGNMENT_QUESTIONS).max(MAX_ASSIGNMENT_QUESTIONS).optional(), // Practice only
+  apTestId: wholeNumber().min(1).optional(), // AP test only
+  allowPause: z.boolean().optional(), // AP test only; defaults to true
+  dueAt: timestamp()
+}).superRefine((assignment, ctx) => {
+  if ((assignment.assignmentType ?? 'practice') === 'practice' && assignment.questionCount === undefined) {
+    ctx.addIssue({ code: 'custom', message: 'Required for practice assignments', path: ['questionCount'] });
+  }
+  if (assignment.assignmentType === 'ap_test' && assignment.apTestId === undefined) {
+    ctx.addIssue({ code: 'custom', message: 'Required for AP test assignments', path: ['apTestId'] });
+  }
+});
+export type NewAssignment = z.infer<typeof NewAssignmentSchema>;
+
+export const SubmitAssignmentBodySchema = z.object({
+  score: wholeNumber().min(0),
+  totalQuestions: wholeNumber().min(1)
+}).refine(submission => submission.score <= submission.totalQuestions, { message: 'Must not be more than totalQuestions', path: ['score'] });
+export type SubmitAssignmentBody = z.infer<typeof SubmitAssignmentBodySchema>;
+
+export const AssignmentSubmissionSchema = z.object({
+  assignmentId: z.string(),
+  studentId: z.string(),
+  score: z.number(),
+  totalQuestions: z.number(),
+  completedAt: z.string(),
+  isLate: z.boolean()
+});
+export type AssignmentSubmission = z.infer<typeof AssignmentSubmissionSchema>;
+
+export const AssignmentSchema = z.object({
+  id: z.string(),
+  classCode: z.string(),
+  apClassName: z.string(),
+  title: z.string(),
+  assignmentType: AssignmentTypeSchema,
+  units: z.array(z.string()), // Empty means every unit
+  subtopics: z.array(z.string()), // Empty means every subtopic
+  questionIds: z.array(z.string()), // Picked when the assignment is created (practice only)
+  questionCount: z.number().nullable(), // Practice only
+  apTestId: z.number().nullable(), // AP test only
+  allowPause: z.boolean(), // AP test only; off for proctored runs
+  dueAt: z.string(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  completedCount: z.number().optional(), // Teacher view
+  studentCount: z.number().optional(), // Teacher view
+  submission: AssignmentSubmissionSchema.nullable().optional(), // Student view
+  status: AssignmentStatusSchema.optional() // Student view
+});
+export type Assignment = z.infer<typeof AssignmentSchema>;
+
+export const AssignmentStudentProgressSchema = z.object({
+  studentId: z.string(),
+  displayName: z.string(),
+  status: AssignmentStatusSchema,
+  score: z.number().nullable(),
+  totalQuestions: z.number().nullable(),
+  completedAt: z.string().nullable()
+});
+export type AssignmentStudentProgress = z.infer<typeof AssignmentStudentProgressSchema>;
+
+export const AssignmentProgressSchema = z.object({
+  assignment: AssignmentSchema,
+  students: z.array(AssignmentStudentProgressSchema)
+});
+export type AssignmentProgress = z.infer<typeof AssignmentProgressSchema>;
+
+// AP tests
+
+// Ids of fixed tests are numbers; adaptive tests have text ids
+const apTestId = () => z.union([requiredText(), z.number()]);
+
+// A fixed AP test of a class
+export const APTestListingSchema = z.object({
+  test_id: z.string(),
+  ap_class: z.string(),
+  question_count: z.number()
+});
+export type APTestListing = z.infer<typeof APTestListingSchema>;
+
+// An ap_test_questions row; correct_answer is left out for students
+export const APTestQuestionSchema = z.object({
+  id: z.string(),
+  test_id: z.string(),
+  ap_class: z.string(),
+  question_text: z.string(),
+  options: z.array(QuestionOptionSchema),
+  correct_answer: z.string().optional(),
+  skill_type: z.string().nullable(),
+  difficulty: z.string().nullable(),
+  estimated_time_seconds: z.number().nullable(),
+  tags: z.array(z.string()),
+  question_order: z.number(),
+  created_at: z.string()
+});
+export type APTestQuestion = z.infer<typeof APTestQuestionSchema>;
+
+export const APTestAttemptBodySchema = z.object({
+  id: z.uuid().optional(), // The session's attempt id, when the test was autosaved
+  userId: z.string(),
+  apClass: requiredText(),
+  testId: apTestId(),
+  startTimestamp: timestamp(),
+  endTimestamp: timestamp(),
+  totalTimeUsedSeconds: timeSpentSeconds(),
+  // Graded and summarized on the server when it holds the test's keys
+  responses: z.array(storedJson({
+    userAnswer: z.string().nullable().optional(), // Multiple choice
+    answer: ItemAnswerSchema.optional(), // Keyed questions
+    isCorrect: z.boolean().optional(),
+    timeSpentSeconds: timeSpentSeconds().optional(),
+    skillType: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    estimatedTimeSeconds: z.number().optional(),
+    sourceQuestionId: z.string().optional(), // Bank question of an adaptive test question
+    freeResponse: z.record(z.string(), z.string()).optional() // Answer text per part
+  })),
+  summary: storedJson({
+    sections: z.array(storedJson({
+      sectionId: z.string(),
+      name: z.string(),
+      questionIds: z.array(z.number()).optional(),
+      timeLimitSeconds: z.number(),
+      timeUsedSeconds: z.number(),
+      timedOut: z.boolean()
+    })).optional()
+  }),
+  clientId: clientId()
+}).refine(attempt => Date.parse(attempt.endTimestamp) >= Date.parse(attempt.startTimestamp), {
+  message: 'Must not be before startTimestamp',
+  path: ['endTimestamp']
+});
+export type APTestAttemptBody = z.infer<typeof APTestAttemptBodySchema>;
+
+const FreeResponseSummarySchema: z.ZodType<FreeResponseSummary> = z.object({
+  questions: z.number(),
+  pointsPossible: z.number(),
+  pointsEarned: z.number(),
+  scored: z.number(),
+  graded: z.number()
+});
+
+// A saved AP test attempt; responses and summary are returned as they were sent
+export const APTestAttemptSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  ap_class: z.string(),
+  test_id: z.string(),
+  start_timestamp: z.string(),
+  end_timestamp: z.string(),
+  total_time_used_seconds: z.number(),
+  responses: z.array(storedJson({})),
+  summary: storedJson({
+    freeResponse: FreeResponseSummarySchema.optional() // Added when the test had free-response questions
+  }),
+  created_at: z.string()
+});
+export type APTestAttempt = z.infer<typeof APTestAttemptSchema>;
+
+export const APTestSessionBodySchema = z.object({
+  userId: z.string(),
+  attemptId: z.uuid(),
+  apClass: requiredText(),
+  testId: apTestId(),
+  assignmentId: z.uuid().nullable().optional(),
+  startTimestamp: timestamp().optional(),
+  state: storedJson({}) // Answers, flags and clock, restored when the test is resumed
+});
+export type APTestSessionBody = z.infer<typeof APTestSessionBodySchema>;
+
+// An AP test in progress
+export const APTestSessionSchema = z.object({
+  id: z.string(), // The attempt id
+  user_id: z.string(),
+  ap_class: z.string(),
+  test_id: z.string(),
+  assignment_id: z.string().nullable(),
+  allow_pause: z.boolean(),
+  start_timestamp: z.string(),
+  state: storedJson({}), // As the client saved it
+  created_at: z.string(),
+  updated_at: z.string(),
+  away_seconds: z.number() // Since the session was last saved
+});
+export type APTestSession = z.infer<typeof APTestSessionSchema>;
+
+// A graded fixed AP test
+export const APTestGradeSchema = z.object({
+  correctAnswers: z.number(),
+  totalQuestions: z.number(),
+  questions: z.array(z.object({
+    questionNumber: z.number(),
+    selectedOptionId: z.string().nullable(),
+    isCorrect: z.boolean(),
+    correctAnswer: z.string()
+  }))
+});
+export type APTestGrade = z.infer<typeof APTestGradeSchema>;
+
+// Free responses
+
+export const SubmitFreeResponseBodySchema = z.object({
+  questionId: requiredText(),
+  answers: z.record(z.string(), z.string()), // Answer text per part id
+  timeSpentSeconds: timeSpentSeconds().optional()
+});
+export type SubmitFreeResponseBody = z.infer<typeof SubmitFreeResponseBodySchema>;
+
+export const FreeResponsesQuerySchema = z.object({
+  questionId: queryText(),
+  apTestAttemptId: queryText()
+});
+export type FreeResponsesQuery = z.infer<typeof FreeResponsesQuerySchema>;
+
+export const GradingQueueQuerySchema = z.object({
+  apClass: requiredText(),
+  status: z.enum(['ungraded', 'all']).optional() // ungraded by default
+});
+export type GradingQueueQuery = z.infer<typeof GradingQueueQuerySchema>;
+
+// Points per rubric criterion id; checked against the rubric by services/freeResponses.ts
+const RubricScoresSchema = z.record(z.string(), z.number());
+
+export const SelfScoreBodySchema = z.object({
+  scores: RubricScoresSchema
+});
+export type SelfScoreBody = z.infer<typeof SelfScoreBodySchema>;
+
+export const GradeFreeResponseBodySchema = z.object({
+  scores: RubricScoresSchema,
+  feedback: z.string().nullable().optional()
+});
+export type GradeFreeResponseBody = z.infer<typeof GradeFreeResponseBodySchema>;
+
+// An answer to a free-response question, with the question's rubric for scoring
+export const FreeResponseSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  questionId: z.string(),
+  apTestAttemptId: z.string().nullable(),
+  answers: z.record(z.string(), z.string()), // Answer text per part id
+  timeSpentSeconds: z.number().nullable(),
+  pointsPossible: z.number(),
+  selfScores: RubricScoresSchema.nullable(),
+  selfPoints: z.number().nullable(),
+  teacherScores: RubricScoresSchema.nullable(),
+  teacherPoints: z.number().nullable(),
+  feedback: z.string().nullable(),
+  gradedBy: z.string().nullable(),
+  gradedAt: z.string().nullable(),
+  submittedAt: z.string(),
+  question: z.object({
+    id: z.string(),
+    apClass: z.string(),
+    unitName: z.string(),
+    questionText: z.string(),
+    parts: z.custom<FreeResponsePart[]>(Array.isArray),
+    explanation: z.string().nullable()
+  })
+});
+export type FreeResponse = z.infer<typeof FreeResponseSchema>;
+
+// A response in a teacher's grading queue
+export const GradingQueueItemSchema = FreeResponseSchema.extend({
+  studentName: z.string()
+});
+export type GradingQueueItem = z.infer<typeof GradingQueueItemSchema>;
+
+// Exports
+
+export const ExportQuestionsQuerySchema = z.object({
+  apClass: requiredText(),
+  format: z.enum(['csv', 'qti']).optional() // csv by default
+});
+export type ExportQuestionsQuery = z.infer<typeof ExportQuestionsQuerySchema>;
@@ -0,0 +1,37 @@
+// Class assignment rules for Ascendly
+// Shared by the backend (teacher progress view) and the frontend (offline fallback)
+
+export type AssignmentType = 'practice' | 'ap_test';
+
+// completed: submitted by the due date, late: submitted after it,
+// pending: not submitted and still open, missing: not submitted and past due
+export type AssignmentStatus = 'completed' | 'late' | 'pending' | 'missing';
+
+export const ASSIGNMENT_TYPES: AssignmentType[] = ['practice', 'ap_test'];
+export const MIN_ASSIGNMENT_QUESTIONS = 1;
+export const MAX_ASSIGNMENT_QUESTIONS = 100;
+
+export function isSubmissionLate(dueAt: string, completedAt: string): boolean {
+  return new Date(completedAt).getTime() > new Date(dueAt).getTime();
+}
+
+export function getAssignmentStatus(
+  dueAt: string,
+  completedAt: string | null | undefined,
+  now: number = Date.now()
+): AssignmentStatus {
+  if (completedAt) {
+    return isSubmissionLate(dueAt, completedAt) ? 'late' : 'completed';
+  }
+  return now > new Date(dueAt).getTime() ? 'missing' : 'pending';
+}
+
+// Pick `count` questions without replacement so every student gets the same set
+export function pickAssignmentQuestions<T>(questions: T[], count: number, random: () => number = Math.random): T[] {
+  const pool = [...questions];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
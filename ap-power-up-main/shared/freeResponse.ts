@@ -0,0 +1,117 @@
+// Free-response questions: a multi-part prompt scored against a point rubric.
+// Shared by the backend (which validates and stores scores) and the frontend (which
+// renders the rubric and totals self-scores).
+
+export interface RubricCriterion {
+  id: string;
+  description: string; // What earns the points; can contain LaTeX
+  points: number;
+}
+
+export interface FreeResponsePart {
+  id: string; // "a", "b", ...
+  prompt: string; // Can contain LaTeX
+  rubric: RubricCriterion[];
+}
+
+// What students see before answering: the prompts and their points, not the rubric
+export interface PublicFreeResponsePart {
+  id: string;
+  prompt: string;
+  points: number;
+}
+
+// Points awarded per rubric criterion id
+export type RubricScores = Record<string, number>;
+
+// Free-response points of an AP test attempt, reported with its summary
+export interface FreeResponseSummary {
+  questions: number;
+  pointsPossible: number;
+  pointsEarned: number; // Of the scored responses
+  scored: number; // Self-scored or graded
+  graded: number;
+}
+
+export const MAX_CRITERION_POINTS = 10;
+
+export function getPartPoints(part: FreeResponsePart): number {
+  return part.rubric.reduce((sum, criterion) => sum + criterion.points, 0);
+}
+
+export function getTotalPoints(parts: FreeResponsePart[]): number {
+  return parts.reduce((sum, part) => sum + getPartPoints(part), 0);
+}
+
+export function toPublicParts(parts: FreeResponsePart[]): PublicFreeResponsePart[] {
+  return parts.map(part => ({ id: part.id, prompt: part.prompt, points: getPartPoints(part) }));
+}
+
+/**
+ * Check that parts can be answered and scored
+ * @returns An error message, or null when the parts are valid
+ */
+export function validateFreeResponseParts(parts: unknown): string | null {
+  if (!Array.isArray(parts) || parts.length === 0) {
+    return 'Free-response questions need at least one part';
+  }
+
+  const partIds = new Set<string>();
+  const criterionIds = new Set<string>();
+  for (const part of parts as FreeResponsePart[]) {
+    if (typeof part?.id !== 'string' || !part.id || partIds.has(part.id)) {
+      return 'Every part needs a unique id';
+    }
+    partIds.add(part.id);
+    if (typeof part.prompt !== 'string' || !part.prompt.trim()) {
+      return `Part ${part.id} needs a prompt`;
+    }
+    if (!Array.isArray(part.rubric) || part.rubric.length === 0) {
+      return `Part ${part.id} needs at least one rubric criterion`;
+    }
+    for (const criterion of part.rubric) {
+      if (typeof criterion?.id !== 'string' || !criterion.id || criterionIds.has(criterion.id)) {
+        return `Every rubric criterion needs a unique id (part ${part.id})`;
+      }
+      criterionIds.add(criterion.id);
+      if (typeof criterion.description !== 'string' || !criterion.description.trim()) {
+        return `Rubric criterion ${criterion.id} needs a description`;
+      }
+      if (!Number.isInteger(criterion.points) || criterion.points < 1 || criterion.points > MAX_CRITERION_POINTS) {
+        return `Rubric criterion ${criterion.id} must be worth 1 to ${MAX_CRITERION_POINTS} points`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check scores against a rubric: whole points, from 0 up to each criterion's points,
+ * for criteria of the question only. Criteria left out score 0.
+ * @returns An error message, or null when the scores are valid
+ */
+export function validateRubricScores(parts: FreeResponsePart[], scores: unknown): string | null {
+  if (!scores || typeof scores !== 'object' || Array.isArray(scores)) {
+    return 'scores must be an object of points per rubric criterion';
+  }
+
+  const criteria = new Map(parts.flatMap(part => part.rubric.map(criterion => [criterion.id, criterion] as const)));
+  for (const [criterionId, points] of Object.entries(scores as Record<string, unknown>)) {
+    const criterion = criteria.get(criterionId);
+    if (!criterion) {
+      return `Unknown rubric criterion: ${criterionId}`;
+    }
+    if (typeof points !== 'number' || !Number.isInteger(points) || points < 0 || points > criterion.points) {
+      return `Rubric criterion ${criterionId} is worth 0 to ${criterion.points} points`;
+    }
+  }
+  return null;
+}
+
+// Total points of valid scores
+export function scoreRubric(parts: FreeResponsePart[], scores: RubricScores): number {
+  return parts.reduce(
+    (sum, part) => sum + part.rubric.reduce((partSum, criterion) => partSum + (scores[criterion.id] || 0), 0),
+    0
+  );
+}
@@ -0,0 +1,229 @@
+// Question types, and the objective item types beyond single-answer multiple choice:
+// select all that apply, numeric entry, ordering and matching. Their answer keys are
+// stored in questions.answer_key. Shared by the backend (which grades answers) and the
+// frontend (which renders the items and grades them when it has the key).
+//
+// Answers earn credit from 0 to 1 so that a partly right answer counts partly; only
+// full credit counts as correct.
+
+export type QuestionType = 'multiple_choice' | 'multi_select' | 'numeric' | 'ordering' | 'matching' | 'free_response';
+
+export const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'multi_select', 'numeric', 'ordering', 'matching', 'free_response'];
+
+// Item types graded against answer_key rather than correct_answer_id
+export type KeyedQuestionType = 'multi_select' | 'numeric' | 'ordering' | 'matching';
+
+export const KEYED_QUESTION_TYPES: KeyedQuestionType[] = ['multi_select', 'numeric', 'ordering', 'matching'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  multi_select: 'Select all that apply',
+  numeric: 'Numeric entry',
+  ordering: 'Ordering',
+  matching: 'Matching',
+  free_response: 'Free response'
+};
+
+export interface MultiSelectKey {
+  correctOptionIds: string[];
+}
+
+// Answers within `tolerance` of `value` are correct. Students answer in `units`.
+export interface NumericKey {
+  value: number;
+  tolerance: number;
+  units: string | null;
+}
+
+export interface OrderingKey {
+  order: string[]; // Option ids, first to last
+}
+
+// Each prompt is matched to one of the question's options; options can be left over
+export interface MatchingKey {
+  prompts: MatchingPrompt[];
+  matches: Record<string, string>; // Option id per prompt id
+}
+
+export interface MatchingPrompt {
+  id: string;
+  content: string; // Can contain LaTeX
+}
+
+export type AnswerKey = MultiSelectKey | NumericKey | OrderingKey | MatchingKey;
+
+// What students see of a key before answering: the units to answer in and the
+// prompts to match
+export interface ItemFormat {
+  units?: string | null;
+  prompts?: MatchingPrompt[];
+}
+
+// An answer to any objective item: an option id (multiple choice), option ids
+// (multi-select, and ordering first to last), a number, or an option id per prompt
+export type ItemAnswer = string | number | string[] | Record<string, string> | null;
+
+export function isKeyedQuestionType(type: string | undefined | null): type is KeyedQuestionType {
+  return KEYED_QUESTION_TYPES.includes(type as KeyedQuestionType);
+}
+
+export function toItemFormat(type: QuestionType, key: AnswerKey | null): ItemFormat | null {
+  if (!key) {
+    return null;
+  }
+  if (type === 'numeric') {
+    return { units: (key as NumericKey).units ?? null };
+  }
+  if (type === 'matching') {
+    return { prompts: (key as MatchingKey).prompts };
+  }
+  return null;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(item => typeof item === 'string');
+}
+
+// Numbers can be typed with spaces or thousands separators
+export function parseNumericAnswer(answer: ItemAnswer | undefined): number | null {
+  if (typeof answer === 'number') {
+    return Number.isFinite(answer) ? answer : null;
+  }
+  if (typeof answer !== 'string' || !answer.trim()) {
+    return null;
+  }
+  const value = Number(answer.replace(/[\s,]/g, ''));
+  return Number.isFinite(value) ? value : null;
+}
+
+// Share of pairs of items the answer puts in the same relative order as the key
+function getOrderingCredit(order: string[], answer: string[]): number {
+  if (answer.length !== order.length || new Set(answer).size !== answer.length || answer.some(id => !order.includes(id))) {
+    return 0;
+  }
+  if (order.length < 2) {
+    return 1;
+  }
+
+  const position = new Map(answer.map((id, index) => [id, index]));
+  let inOrder = 0;
+  let pairs = 0;
+  for (let i = 0; i < order.length; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      pairs += 1;
+      if (position.get(order[i])! < position.get(order[j])!) {
+        inOrder += 1;
+      }
+    }
+  }
+  return inOrder / pairs;
+}
+
+/**
+ * Credit earned by an answer to an item graded against its answer key. Answers of the
+ * wrong shape earn nothing.
+ * - multi_select: correct picks minus wrong picks, over the number of correct options (at least 0)
+ * - numeric: all or nothing, within the tolerance
+ * - ordering: share of pairs in the right relative order
+ * - matching: share of prompts matched correctly
+ * @returns Credit from 0 to 1
+ */
+export function gradeItem(type: KeyedQuestionType, key: AnswerKey, answer: ItemAnswer | undefined): number {
+  switch (type) {
+    case 'multi_select': {
+      const { correctOptionIds } = key as MultiSelectKey;
+      if (!isStringArray(answer) || correctOptionIds.length === 0) {
+        return 0;
+      }
+      const picks = [...new Set(answer)];
+      const right = picks.filter(id => correctOptionIds.includes(id)).length;
+      return Math.max(0, (right - (picks.length - right)) / correctOptionIds.length);
+    }
+    case 'numeric': {
+      const { value, tolerance } = key as NumericKey;
+      const number = parseNumericAnswer(answer);
+      // Allow for floating-point error in answers exactly at the tolerance
+      return number !== null && Math.abs(number - value) <= tolerance + 1e-9 ? 1 : 0;
+    }
+    case 'ordering':
+      return isStringArray(answer) ? getOrderingCredit((key as OrderingKey).order, answer) : 0;
+    case 'matching': {
+      const { prompts, matches } = key as MatchingKey;
+      if (!isStringRecord(answer) || prompts.length === 0) {
+        return 0;
+      }
+      return prompts.filter(prompt => answer[prompt.id] === matches[prompt.id]).length / prompts.length;
+    }
+  }
+}
+
+/**
+ * Check that an answer key can be graded against the question's options
+ * @returns An error message, or null when the key is valid
+ */
+export function validateAnswerKey(type: KeyedQuestionType, key: unknown, options: { id: string }[]): string | null {
+  if (!key || typeof key !== 'object' || Array.isArray(key)) {
+    return `${QUESTION_TYPE_LABELS[type]} questions need an answerKey`;
+  }
+  const optionIds = options.map(option => option.id);
+
+  switch (type) {
+    case 'multi_select': {
+      const { correctOptionIds } = key as MultiSelectKey;
+      if (!isStringArray(correctOptionIds) || correctOptionIds.length === 0) {
+        return 'answerKey.correctOptionIds must list at least one option id';
+      }
+      if (new Set(correctOptionIds).size !== correctOptionIds.length || correctOptionIds.some(id => !optionIds.includes(id))) {
+        return 'answerKey.correctOptionIds must be distinct option ids';
+      }
+      return null;
+    }
+    case 'numeric': {
+      const { value, tolerance, units } = key as NumericKey;
+      if (optionIds.length > 0) {
+        return 'Numeric questions have no options';
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'answerKey.value must be a number';
+      }
+      if (typeof tolerance !== 'number' || !Number.isFinite(tolerance) || tolerance < 0) {
+        return 'answerKey.tolerance must be a number of at least 0';
+      }
+      if (units !== undefined && units !== null && typeof units !== 'string') {
+        return 'answerKey.units must be a string';
+      }
+      return null;
+    }
+    case 'ordering': {
+      const { order } = key as OrderingKey;
+      if (!isStringArray(order) || order.length !== optionIds.length || new Set(order).size !== order.length
+        || order.some(id => !optionIds.includes(id))) {
+        return 'answerKey.order must list every option id once';
+      }
+      return null;
+    }
+    case 'matching': {
+      const { prompts, matches } = key as MatchingKey;
+      if (!Array.isArray(prompts) || prompts.length < 2) {
+        return 'answerKey.prompts must have at least two prompts';
+      }
+      const promptIds = prompts.map(prompt => prompt?.id);
+      if (prompts.some(prompt => typeof prompt?.id !== 'string' || !prompt.id || typeof prompt.content !== 'string' || !prompt.content.trim())) {
+        return 'Every prompt needs an id and content';
+      }
+      if (new Set(promptIds).size !== promptIds.length) {
+        return 'Prompt ids must be unique';
+      }
+      if (!isStringRecord(matches) || promptIds.some(id => !optionIds.includes(matches[id]))) {
+        return 'answerKey.matches must give an option id for every prompt';
+      }
+      return null;
+    }
+  }
+}
+
@@ -0,0 +1,80 @@
+// Spaced-repetition scheduling (SM-2) for Ascendly
+// Shared by the backend (which stores the schedule) and the frontend (offline fallback)
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+export const FIRST_INTERVAL_DAYS = 1;
+export const SECOND_INTERVAL_DAYS = 6;
+export const PASSING_QUALITY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: string; // ISO timestamp
+}
+
+// Map an answer to an SM-2 recall quality (0-5). Confidence comes from the
+// 1-5 slider; being sure and wrong is the worst outcome, being sure and
+// right the best. Without a confidence rating we assume a middling answer.
+export function getReviewQuality(isCorrect: boolean, confidence?: number | null): number {
+  const hasConfidence = confidence !== null && confidence !== undefined;
+
+  if (!isCorrect) {
+    if (!hasConfidence) return 1;
+    if (confidence >= 4) return 0;
+    if (confidence === 3) return 1;
+    return 2;
+  }
+
+  if (!hasConfidence) return 4;
+  if (confidence <= 2) return 3;
+  if (confidence <= 4) return 4;
+  return 5;
+}
+
+// Calculate the next schedule after answering with the given quality
+export function scheduleReview(
+  previous: ReviewSchedule | null,
+  quality: number,
+  now: number = Date.now()
+): ReviewSchedule {
+  const easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+  const q = Math.max(0, Math.min(5, quality));
+
+  let repetitions: number;
+  let intervalDays: number;
+
+  if (q < PASSING_QUALITY) {
+    // Lapse - start over, review again tomorrow
+    repetitions = 0;
+    intervalDays = FIRST_INTERVAL_DAYS;
+  } else {
+    repetitions = (previous?.repetitions ?? 0) + 1;
+    if (repetitions === 1) {
+      intervalDays = FIRST_INTERVAL_DAYS;
+    } else if (repetitions === 2) {
+      intervalDays = SECOND_INTERVAL_DAYS;
+    } else {
+      intervalDays = Math.round((previous?.intervalDays ?? SECOND_INTERVAL_DAYS) * easeFactor);
+    }
+  }
+
+  const newEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  return {
+    easeFactor: Math.round(newEaseFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now + intervalDays * DAY_MS).toISOString()
+  };
+}
+
+export function isReviewDue(schedule: ReviewSchedule | null | undefined, now: number = Date.now()): boolean {
+  return !!schedule && new Date(schedule.dueAt).getTime() <= now;
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { FreeResponseSelfScore } from "@/components/FreeResponseSelfScore";
+import { FreeResponse, freeResponseApi } from "@/lib/api";
+import { getAwardedPoints } from "@/lib/freeResponse";
+import { Loader2, PenLine } from "lucide-react";
+
+interface Props {
+  attemptId: string;
+}
+
+// Free-response answers of an AP test, to score against the rubric after the test.
+// They are saved with the attempt, so there are none if it could not be saved online.
+export function APTestFreeResponses({ attemptId }: Props) {
+  const [responses, setResponses] = useState<FreeResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    freeResponseApi
+      .getResponses({ apTestAttemptId: attemptId })
+      .then(setResponses)
+      .catch((error) => {
+        console.error("Failed to load free responses:", error);
+        setResponses([]);
+      })
+      .finally(() => setLoading(false));
+  }, [attemptId]);
+
+  const replace = (scored: FreeResponse) => {
+    setResponses((prev) => prev.map((response) => (response.id === scored.id ? scored : response)));
+  };
+
+  const scored = responses.filter((response) => getAwardedPoints(response) !== null);
+  const pointsPossible = responses.reduce((sum, response) => sum + response.pointsPossible, 0);
+  const pointsEarned = scored.reduce((sum, response) => sum + getAwardedPoints(response)!, 0);
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <CardTitle className="text-2xl flex items-center gap-2">
+          <PenLine className="w-6 h-6 text-primary" />
+          Free Response
+        </CardTitle>
+        <CardDescription className="text-base">
+          {responses.length === 0
+            ? "Score your free-response answers against the rubric once your test is saved."
+            : `${pointsEarned}/${pointsPossible} points · ${scored.length} of ${responses.length} scored. ` +
+              "Score each answer against the rubric; your teacher's grade replaces your score once they grade it."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          responses.map((response) => (
+            <FreeResponseSelfScore key={response.id} response={response} onScored={replace} />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,33 +1,110 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Grid3X3, CheckCircle, XCircle, Clock, AlertTriangle, ChevronLeft, ChevronRight, Eye, EyeOff, Flag } from "lucide-react";
-import { APTestData, APTestQuestion, APTestQuestionResponse } from "@/lib/apTestData";
+import { Grid3X3, CheckCircle, XCircle, Clock, AlertTriangle, ChevronLeft, ChevronRight, Eye, EyeOff, Flag, Calculator, Coffee, Pause } from "lucide-react";
+import {
+  APExamSectionTiming,
+  APTestClock,
+  APTestData,
+  APTestQuestionResponse,
+  APTestSessionState,
+  getAPTestSections,
+} from "@/lib/apTestData";
+import { APTestSession } from "@/lib/database";
 import { MathText } from "@/components/Latex";
 import { StimulusRenderer } from "@/components/StimulusRenderer";
+import { FreeResponseAnswer } from "@/components/FreeResponseAnswer";
+import { ObjectiveItemInput } from "@/components/ObjectiveItemInput";
 import { StimulusPerformance } from "@/lib/questionData";
+import { calculateStruggleScore } from "@/lib/grading";
+import { getInitialAnswer, gradeItem, isItemAnswered, ItemAnswer, ObjectiveItem, toObjectiveItem } from "@/lib/itemTypes";
 import { toast } from "sonner";
 
-// Calculate struggle score (0-1) based on correctness and time spent
-function calculateStruggleScore(
-  isCorrect: boolean,
-  timeSpentSeconds: number,
-  maxExpectedTime: number = 120
-): number {
-  const correctnessComponent = isCorrect ? 0 : 1;
-  const normalizedTime = Math.min(timeSpentSeconds / maxExpectedTime, 2.0) / 2.0;
-  const struggleScore = correctnessComponent * 0.7 + normalizedTime * 0.3;
-  return Math.max(0, Math.min(1, struggleScore));
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+// Hand the submitted test back; under secure delivery it is graded once saved
+function submitResponses(
+  testData: APTestData,
+  submitted: APTestQuestionResponse[],
+  onComplete: APTestInterfaceProps['onComplete'],
+  sectionTimings: APExamSectionTiming[]
+) {
+  // Adaptive test answers are calibrated with the bank questions they came from
+  const sourceQuestionIds = new Map(testData.questions.map(question => [question.id, question.sourceQuestionId]));
+  const responses = submitted.map(response => ({ ...response, sourceQuestionId: sourceQuestionIds.get(response.questionId) }));
+  onComplete(responses, sectionTimings);
+}
+
+// The sections of a test with the positions of their questions in testData.questions
+function getSectionLayout(testData: APTestData) {
+  return getAPTestSections(testData).map(section => ({
+    section,
+    questionIndexes: section.question_ids.map(id => testData.questions.findIndex(question => question.id === id)),
+  }));
+}
+
+type SectionLayout = ReturnType<typeof getSectionLayout>;
+
+function startSection(layout: SectionLayout, sectionIndex: number, timings: APExamSectionTiming[]): APTestClock {
+  return { sectionIndex, timeRemaining: layout[sectionIndex].section.time_limit_minutes * 60, breakRemaining: null, timings };
+}
+
+// Timings of the finished sections and the current one
+function timeSection(clock: APTestClock, layout: SectionLayout, timedOut: boolean): APExamSectionTiming[] {
+  const { section } = layout[clock.sectionIndex];
+  return [
+    ...clock.timings,
+    { sectionId: section.id, timeUsedSeconds: section.time_limit_minutes * 60 - clock.timeRemaining, timedOut },
+  ];
+}
+
+// End a section before the last: its break starts if it has one, otherwise the next section does
+function endSection(clock: APTestClock, layout: SectionLayout, timedOut: boolean): APTestClock {
+  const timings = timeSection(clock, layout, timedOut);
+  const breakMinutes = layout[clock.sectionIndex].section.break_minutes_after;
+  return breakMinutes
+    ? { ...clock, timeRemaining: 0, breakRemaining: breakMinutes * 60, timings }
+    : startSection(layout, clock.sectionIndex + 1, timings);
+}
+
+// One second of the clock. When a break or a section before the last runs out, the next
+// section starts; the last section stops at 0 for the test to be submitted.
+function tickClock(clock: APTestClock, layout: SectionLayout): APTestClock {
+  if (clock.breakRemaining !== null) {
+    return clock.breakRemaining <= 1
+      ? startSection(layout, clock.sectionIndex + 1, clock.timings)
+      : { ...clock, breakRemaining: clock.breakRemaining - 1 };
+  }
+  if (clock.timeRemaining > 1 || clock.sectionIndex === layout.length - 1) {
+    return { ...clock, timeRemaining: Math.max(0, clock.timeRemaining - 1) };
+  }
+  return endSection(clock, layout, true);
+}
+
+// The clock after time away from a proctored test, which keeps running while the
+// student is gone
+function advanceClock(clock: APTestClock, layout: SectionLayout, seconds: number): APTestClock {
+  let advanced = clock;
+  for (let i = 0; i < seconds && (advanced.breakRemaining !== null || advanced.timeRemaining > 0); i++) {
+    advanced = tickClock(advanced, layout);
+  }
+  return advanced;
 }
 
 interface APTestInterfaceProps {
   testData: APTestData;
-  onComplete: (responses: APTestQuestionResponse[]) => void;
+  session?: APTestSession | null; // A paused test to resume
+  // Questions are passed back with their answer keys, which secure delivery only has after grading
+  onComplete: (responses: APTestQuestionResponse[], sectionTimings: APExamSectionTiming[]) => void;
+  onSave: (state: APTestSessionState) => void; // Called every few seconds
+  onPause?: (state: APTestSessionState) => void; // Left out when the test cannot be paused
   onExit: () => void;
 }
 
-export function APTestInterface({ testData, onComplete, onExit }: APTestInterfaceProps) {
+export function APTestInterface(props: APTestInterfaceProps) {
+  const { testData, onExit } = props;
+
   // Validate testData
   if (!testData || !testData.questions || testData.questions.length === 0) {
     console.error('[APTestInterface] Invalid testData:', testData);
@@ -50,44 +127,48 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
     );
   }
 
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<"A" | "B" | "C" | "D" | null>(null);
-  const [timeRemaining, setTimeRemaining] = useState(testData.time_limit_minutes * 60); // in seconds
-  const [responses, setResponses] = useState<Record<number, APTestQuestionResponse>>({});
-  const [questionStartTimes, setQuestionStartTimes] = useState<Record<number, number>>({});
-  const [answerChanges, setAnswerChanges] = useState<Record<number, number>>({});
+  return <APTestRunner {...props} />;
+}
+
+// The test itself, once its data is known to be valid
+function APTestRunner({ testData, session, onComplete, onSave, onPause, onExit }: APTestInterfaceProps) {
+  const resumed = session?.state;
+  // Paused time does not count toward time on questions; proctored tests never pause
+  const pausedMs = session?.allowPause ? session.awaySeconds * 1000 : 0;
+
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(resumed?.currentQuestionIndex ?? 0);
+  const [selectedAnswer, setSelectedAnswer] = useState<"A" | "B" | "C" | "D" | null>(
+    resumed?.responses[resumed.currentQuestionIndex]?.userAnswer ?? null
+  );
+  const [clock, setClock] = useState<APTestClock>(() => {
+    const layout = getSectionLayout(testData);
+    if (!session) {
+      return startSection(layout, 0, []);
+    }
+    return session.allowPause ? session.state.clock : advanceClock(session.state.clock, layout, session.awaySeconds);
+  });
+  const [responses, setResponses] = useState<Record<number, APTestQuestionResponse>>(resumed?.responses ?? {});
+  const [questionStartTimes, setQuestionStartTimes] = useState<Record<number, number>>(() => Object.fromEntries(
+    Object.entries(resumed?.questionStartTimes ?? {}).map(([index, startTime]) => [index, startTime + pausedMs])
+  ));
+  const [answerChanges, setAnswerChanges] = useState<Record<number, number>>(resumed?.answerChanges ?? {});
   const [showTimeBar, setShowTimeBar] = useState(true);
-  const [flaggedQuestions, setFlaggedQuestions] = useState<Set<number>>(new Set());
+  const [flaggedQuestions, setFlaggedQuestions] = useState<Set<number>>(new Set(resumed?.flaggedQuestions));
 
-  const currentQuestion = testData.questions[currentQuestionIndex];
-  const currentResponse = responses[currentQuestionIndex];
+  const layout = getSectionLayout(testData);
+  const { section, questionIndexes: sectionQuestionIndexes } = layout[clock.sectionIndex];
+  const isLastSection = clock.sectionIndex === layout.length - 1;
+  const timeRemaining = clock.timeRemaining; // in seconds
 
-  // Additional safety check
-  if (!currentQuestion) {
-    console.error('[APTestInterface] Current question is undefined:', {
-      currentQuestionIndex,
-      questionsLength: testData.questions.length,
-      testData
-    });
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
-        <Card variant="elevated" className="max-w-md">
-          <CardHeader>
-            <CardTitle className="text-destructive">Error Loading Question</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-muted-foreground mb-4">
-              Question {currentQuestionIndex + 1} could not be loaded.
-            </p>
-            <Button onClick={onExit} variant="default">
-              Go Back
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
+  // Each section starts at its first question; questions of other sections are locked
+  if (clock.breakRemaining === null && !sectionQuestionIndexes.includes(currentQuestionIndex)) {
+    setCurrentQuestionIndex(sectionQuestionIndexes[0]);
+    setSelectedAnswer(null);
   }
 
+  const currentQuestion = testData.questions[currentQuestionIndex];
+  const currentResponse = responses[currentQuestionIndex];
+
   // Define handleAutoSubmit before it's used in useEffect
   const handleAutoSubmit = useCallback(() => {
     // Save all current responses and submit
@@ -127,13 +208,14 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
           startTime,
           endTime: Date.now(),
           stimulusPerformance,
+          freeResponse: question.type === "free_response" ? {} : undefined,
         });
       }
     });
 
     toast.error("Time limit reached! Test submitted automatically.");
-    onComplete(allResponses);
-  }, [responses, questionStartTimes, answerChanges, testData.questions, onComplete]);
+    submitResponses(testData, allResponses, onComplete, timeSection(clock, getSectionLayout(testData), true));
+  }, [responses, questionStartTimes, answerChanges, testData, onComplete, clock]);
 
   // Initialize question start time when navigating to a question
   useEffect(() => {
@@ -145,31 +227,22 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
     }
   }, [currentQuestionIndex, questionStartTimes]);
 
-  // Timer countdown
+  // Section and break countdown; the test is submitted when the last section runs out
   useEffect(() => {
-    if (timeRemaining <= 0) {
+    if (clock.breakRemaining === null && clock.timeRemaining <= 0) {
       handleAutoSubmit();
       return;
     }
 
     const interval = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
-          handleAutoSubmit();
-          return 0;
-        }
-        return prev - 1;
-      });
+      setClock(prev => tickClock(prev, getSectionLayout(testData)));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [timeRemaining, handleAutoSubmit]);
+  }, [clock, handleAutoSubmit, testData]);
 
   // Track answer changes
   useEffect(() => {
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:172',message:'selectedAnswer useEffect triggered',data:{selectedAnswer,currentQuestionIndex,currentResponseUserAnswer:currentResponse?.userAnswer},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-    // #endregion
     if (selectedAnswer && selectedAnswer !== currentResponse?.userAnswer) {
       setAnswerChanges(prev => ({
         ...prev,
@@ -180,9 +253,6 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
   
   // Auto-save answer when selectedAnswer changes (for immediate UI update)
   useEffect(() => {
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:auto-save',message:'Auto-save useEffect triggered',data:{selectedAnswer,currentQuestionIndex,responsesKeys:Object.keys(responses),currentResponseUserAnswer:responses[currentQuestionIndex]?.userAnswer},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-    // #endregion
     if (selectedAnswer && currentQuestion) {
       try {
         // Use functional update to avoid stale closure issues
@@ -190,16 +260,9 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
           const existingResponse = prev[currentQuestionIndex];
           // Check if answer actually changed to avoid unnecessary updates
           if (existingResponse && existingResponse.userAnswer === selectedAnswer) {
-            // #region agent log
-            fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:auto-save',message:'Answer unchanged, skipping update',data:{selectedAnswer,currentQuestionIndex},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-            // #endregion
             return prev; // Return same object reference if no change
           }
           
-          // #region agent log
-          fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:auto-save',message:'Saving/updating answer to responses immediately',data:{selectedAnswer,currentQuestionIndex,isUpdate:!!existingResponse},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-          // #endregion
-          
           // Use functional updates for other state to avoid stale closures
           const startTime = existingResponse?.startTime || questionStartTimes[currentQuestionIndex] || Date.now();
           const isCorrect = selectedAnswer === currentQuestion.correct_answer;
@@ -232,29 +295,71 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
             stimulusPerformance,
           };
           
-          // #region agent log
-          fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:auto-save',message:'Updating responses state',data:{currentQuestionIndex,selectedAnswer,prevResponsesCount:Object.keys(prev).length,newResponseUserAnswer:response.userAnswer},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-          // #endregion
-          
           // Create new object to ensure React detects the change
           const newResponses = { ...prev, [currentQuestionIndex]: response };
           
           return newResponses;
         });
       } catch (error) {
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:auto-save',message:'Error in auto-save useEffect',data:{error:error?.toString(),selectedAnswer,currentQuestionIndex},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'F'})}).catch(()=>{});
-        // #endregion
         console.error('[APTestInterface] Error in auto-save useEffect:', error);
         // Don't throw - just log the error to prevent navigation issues
       }
     }
   }, [selectedAnswer, currentQuestionIndex, currentQuestion, questionStartTimes, answerChanges]);
 
+  const buildSessionState = (): APTestSessionState => ({
+    currentQuestionIndex,
+    responses,
+    flaggedQuestions: [...flaggedQuestions],
+    answerChanges,
+    questionStartTimes,
+    clock,
+  });
+
+  // Latest state for the autosave interval, which outlives renders
+  const latestState = useRef<APTestSessionState | null>(null);
+  useEffect(() => {
+    latestState.current = buildSessionState();
+  });
+
+  // Save the test in progress every few seconds so it can be resumed after the tab closes
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (latestState.current) {
+        onSave(latestState.current);
+      }
+    }, AUTOSAVE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [onSave]);
+
+  // Additional safety check
+  if (!currentQuestion) {
+    console.error('[APTestInterface] Current question is undefined:', {
+      currentQuestionIndex,
+      questionsLength: testData.questions.length,
+      testData
+    });
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card variant="elevated" className="max-w-md">
+          <CardHeader>
+            <CardTitle className="text-destructive">Error Loading Question</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-muted-foreground mb-4">
+              Question {currentQuestionIndex + 1} could not be loaded.
+            </p>
+            <Button onClick={onExit} variant="default">
+              Go Back
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   const handleAnswerSelect = (answer: "A" | "B" | "C" | "D") => {
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:275',message:'handleAnswerSelect called',data:{answer,currentQuestionIndex,hasResponse:!!responses[currentQuestionIndex],correctAnswer:currentQuestion?.correct_answer},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-    // #endregion
     setSelectedAnswer(answer);
     
     // Immediately save the answer and update colors
@@ -292,16 +397,74 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
       
       // Update responses immediately
       setResponses(prev => {
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:handleAnswerSelect',message:'Saving answer immediately in handleAnswerSelect',data:{currentQuestionIndex,answer,isCorrect,prevResponsesCount:Object.keys(prev).length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
         return { ...prev, [currentQuestionIndex]: response };
       });
     }
-    
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'APTestInterface.tsx:handleAnswerSelect',message:'selectedAnswer state updated and answer saved',data:{answer,currentQuestionIndex},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-    // #endregion
+  };
+
+  // Free-response answers are kept as text per part; they are scored after the test
+  const handleFreeResponseChange = (partId: string, text: string) => {
+    setResponses(prev => {
+      const existingResponse = prev[currentQuestionIndex];
+      const startTime = existingResponse?.startTime || questionStartTimes[currentQuestionIndex] || Date.now();
+      const response: APTestQuestionResponse = {
+        questionId: currentQuestion.id,
+        userAnswer: null,
+        isCorrect: false,
+        timeSpentSeconds: (Date.now() - startTime) / 1000,
+        answerChanges: 0,
+        skillType: currentQuestion.skill_type,
+        difficulty: currentQuestion.difficulty,
+        tags: currentQuestion.tags,
+        estimatedTimeSeconds: currentQuestion.estimated_time_seconds,
+        startTime,
+        endTime: Date.now(),
+        freeResponse: { ...existingResponse?.freeResponse, [partId]: text },
+      };
+      return { ...prev, [currentQuestionIndex]: response };
+    });
+  };
+
+  // Multi-select, numeric, ordering and matching answers are saved as they change and
+  // credited against the key when the client has it; clearing an answer unanswers the question
+  const handleItemAnswerChange = (item: ObjectiveItem, answer: ItemAnswer) => {
+    setResponses(prev => {
+      const existingResponse = prev[currentQuestionIndex];
+      if (!isItemAnswered(item, answer)) {
+        const rest = { ...prev };
+        delete rest[currentQuestionIndex];
+        return rest;
+      }
+
+      const startTime = existingResponse?.startTime || questionStartTimes[currentQuestionIndex] || Date.now();
+      const timeSpent = (Date.now() - startTime) / 1000;
+      const credit = item.answerKey ? gradeItem(item.type, item.answerKey, answer) : 0;
+      const isCorrect = credit === 1;
+      const stimulusPerformance = currentQuestion.stimulusMeta?.hasStimulus ? {
+        attemptCount: 1,
+        timeSpentSeconds: timeSpent,
+        wasCorrect: isCorrect,
+        struggleScore: calculateStruggleScore(isCorrect, timeSpent, currentQuestion.estimated_time_seconds),
+      } : undefined;
+
+      const response: APTestQuestionResponse = {
+        questionId: currentQuestion.id,
+        userAnswer: null,
+        answer,
+        credit,
+        isCorrect,
+        timeSpentSeconds: timeSpent,
+        answerChanges: existingResponse ? existingResponse.answerChanges + 1 : 0,
+        skillType: currentQuestion.skill_type,
+        difficulty: currentQuestion.difficulty,
+        tags: currentQuestion.tags,
+        estimatedTimeSeconds: currentQuestion.estimated_time_seconds,
+        startTime,
+        endTime: Date.now(),
+        stimulusPerformance,
+      };
+      return { ...prev, [currentQuestionIndex]: response };
+    });
   };
 
   // Auto-save answer when navigating away (handled in jumpToQuestion)
@@ -395,11 +558,30 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
           startTime,
           endTime: Date.now(),
           stimulusPerformance,
+          freeResponse: question.type === "free_response" ? {} : undefined,
         });
       }
     });
 
-    onComplete(allResponses);
+    submitResponses(testData, allResponses, onComplete, timeSection(clock, layout, false));
+  };
+
+  // Ending a section locks it; ending the last one submits the test
+  const handleSubmitSection = () => {
+    if (isLastSection) {
+      handleSubmitTest();
+      return;
+    }
+
+    const unanswered = sectionQuestionIndexes.filter(index => !responses[index]).length;
+    if (unanswered > 0) {
+      const confirm = window.confirm(
+        `You have ${unanswered} unanswered questions in ${section.name}. ` +
+        `You cannot return to this section once it ends. Are you sure you want to continue?`
+      );
+      if (!confirm) return;
+    }
+    setClock(prev => endSection(prev, layout, false));
   };
 
   const formatTime = (seconds: number): string => {
@@ -410,6 +592,40 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
 
   const answeredCount = Object.keys(responses).length;
   const isTimeLow = timeRemaining < 300; // Less than 5 minutes
+  const currentItem = toObjectiveItem(currentQuestion);
+  const sectionPosition = sectionQuestionIndexes.indexOf(currentQuestionIndex);
+  const sectionAnswered = sectionQuestionIndexes.filter(index => responses[index]).length;
+  const isSectioned = layout.length > 1;
+
+  if (clock.breakRemaining !== null) {
+    const nextSection = layout[clock.sectionIndex + 1].section;
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card variant="elevated" className="max-w-lg w-full">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Coffee className="w-6 h-6" />
+              Break
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6 text-center">
+            <div className="text-5xl font-bold">{formatTime(clock.breakRemaining)}</div>
+            <p className="text-muted-foreground">
+              {section.name} is finished and locked. {nextSection.name} starts when the break ends.
+            </p>
+            <Button
+              variant="default"
+              size="lg"
+              className="w-full"
+              onClick={() => setClock(prev => startSection(layout, prev.sectionIndex + 1, prev.timings))}
+            >
+              Start {nextSection.name} Now
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-background">
@@ -420,7 +636,19 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
               <span className="font-bold text-xl">{testData.ap_class}</span>
               <span className="mx-2 opacity-50">•</span>
               <span className="opacity-80">Practice {testData.test_id}</span>
+              {isSectioned && (
+                <>
+                  <span className="mx-2 opacity-50">•</span>
+                  <span className="opacity-80">{section.name}</span>
+                </>
+              )}
             </div>
+            {section.calculator_allowed !== undefined && (
+              <Badge variant="outline" className="gap-1 border-secondary-foreground/30 text-secondary-foreground">
+                <Calculator className="w-4 h-4" />
+                {section.calculator_allowed ? "Calculator allowed" : "No calculator"}
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-4">
             <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${
@@ -429,6 +657,18 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
               <Clock className="w-5 h-5" />
               <span className="font-bold text-xl md:text-2xl">{formatTime(timeRemaining)}</span>
             </div>
+            {onPause && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onPause(buildSessionState())}
+                className="text-secondary-foreground hover:bg-secondary-foreground/10"
+                title="Pause and resume later"
+              >
+                <Pause className="w-4 h-4 mr-1" />
+                Pause
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -454,7 +694,7 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
                     timeRemaining < 600 ? 'bg-orange-500' :
                     'bg-secondary-foreground'
                   }`}
-                  style={{ width: `${(timeRemaining / (testData.time_limit_minutes * 60)) * 100}%` }}
+                  style={{ width: `${(timeRemaining / (section.time_limit_minutes * 60)) * 100}%` }}
                 />
               </div>
             </div>
@@ -554,7 +794,21 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
                 </div>
               </CardHeader>
               <CardContent className="space-y-5 px-8 pb-8">
-                {Object.entries(currentQuestion.options).map(([key, value]) => {
+                {currentQuestion.type === "free_response" && (
+                  <FreeResponseAnswer
+                    parts={currentQuestion.parts || []}
+                    answers={currentResponse?.freeResponse || {}}
+                    onChange={handleFreeResponseChange}
+                  />
+                )}
+                {currentItem && (
+                  <ObjectiveItemInput
+                    item={currentItem}
+                    answer={currentResponse?.answer ?? getInitialAnswer(currentItem)}
+                    onChange={(answer) => handleItemAnswerChange(currentItem, answer)}
+                  />
+                )}
+                {Object.entries(currentQuestion.options || {}).map(([key, value]) => {
                   const optionKey = key as "A" | "B" | "C" | "D";
                   const isSelected = selectedAnswer === optionKey;
 
@@ -592,11 +846,11 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
                       variant="outline"
                       size="lg"
                       onClick={() => {
-                        if (currentQuestionIndex > 0) {
-                          jumpToQuestion(currentQuestionIndex - 1);
+                        if (sectionPosition > 0) {
+                          jumpToQuestion(sectionQuestionIndexes[sectionPosition - 1]);
                         }
                       }}
-                      disabled={currentQuestionIndex === 0}
+                      disabled={sectionPosition === 0}
                       className="flex-shrink-0 px-8 py-6 text-lg font-semibold"
                     >
                       <ChevronLeft className="w-6 h-6 mr-2" />
@@ -604,18 +858,18 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
                     </Button>
                     
                     <div className="text-lg font-medium text-foreground px-6 py-2 bg-muted/50 rounded-lg">
-                      Question {currentQuestionIndex + 1} of {testData.questions.length}
+                      Question {sectionPosition + 1} of {sectionQuestionIndexes.length}
                     </div>
                     
                     <Button
                       variant="outline"
                       size="lg"
                       onClick={() => {
-                        if (currentQuestionIndex < testData.questions.length - 1) {
-                          jumpToQuestion(currentQuestionIndex + 1);
+                        if (sectionPosition < sectionQuestionIndexes.length - 1) {
+                          jumpToQuestion(sectionQuestionIndexes[sectionPosition + 1]);
                         }
                       }}
-                      disabled={currentQuestionIndex === testData.questions.length - 1}
+                      disabled={sectionPosition === sectionQuestionIndexes.length - 1}
                       className="flex-shrink-0 px-8 py-6 text-lg font-semibold"
                     >
                       Next
@@ -623,15 +877,16 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
                     </Button>
                   </div>
 
-                  {/* Submit Test Button */}
-                  {answeredCount === testData.questions.length && (
+                  {/* Submit Section Button - sectioned tests can end a section from its last question */}
+                  {(sectionAnswered === sectionQuestionIndexes.length
+                    || (isSectioned && sectionPosition === sectionQuestionIndexes.length - 1)) && (
                     <Button
                       variant="default"
                       size="lg"
                       className="w-full py-6 text-xl font-bold"
-                      onClick={handleSubmitTest}
+                      onClick={handleSubmitSection}
                     >
-                      Submit Test
+                      {isLastSection ? "Submit Test" : `End ${section.name}`}
                     </Button>
                   )}
                 </div>
@@ -642,7 +897,7 @@ export function APTestInterface({ testData, onComplete, onExit }: APTestInterfac
           <div className="mt-4 p-4 rounded-lg bg-destructive/10 border border-destructive/20 flex items-center gap-3">
             <AlertTriangle className="w-5 h-5 text-destructive" />
             <p className="text-sm text-destructive font-medium">
-              Less than 5 minutes remaining! Consider reviewing your answers and submitting soon.
+              Less than 5 minutes remaining{isSectioned ? " in this section" : ""}! Consider reviewing your answers and submitting soon.
             </p>
           </div>
         )}
@@ -5,10 +5,15 @@ import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from "recharts";
-import { Trophy, Clock, Target, TrendingUp, TrendingDown, CheckCircle, XCircle, ArrowRight, ChevronDown, ChevronUp, BookOpen } from "lucide-react";
+import { Trophy, Clock, Target, TrendingUp, TrendingDown, CheckCircle, XCircle, ArrowRight, ChevronDown, ChevronUp, BookOpen, Layers } from "lucide-react";
 import { APTestAttempt, APTestData, calculatePredictedAPScoreWithTier } from "@/lib/apTestData";
 import { MathText } from "@/components/Latex";
 import { formatTag } from "@/lib/utils";
+import { AbilityEstimate } from "@/components/AbilityEstimate";
+import { APTestFreeResponses } from "@/components/APTestFreeResponses";
+import { ObjectiveItemInput } from "@/components/ObjectiveItemInput";
+import { isAPTestResponseAnswered } from "@/lib/apTestAnalytics";
+import { formatCredit, getInitialAnswer, toObjectiveItem } from "@/lib/itemTypes";
 
 interface APTestResultsProps {
   attempt: APTestAttempt;
@@ -29,7 +34,7 @@ export function APTestResults({ attempt, testData, onViewAnalytics, onRetake }:
   
   // Get incorrect questions with full details
   const incorrectQuestions = attempt.responses
-    .filter(r => !r.isCorrect && r.userAnswer !== null)
+    .filter(r => !r.isCorrect && isAPTestResponseAnswered(r))
     .map(response => {
       const question = testData?.questions.find(q => q.id === response.questionId);
       return {
@@ -148,6 +153,12 @@ export function APTestResults({ attempt, testData, onViewAnalytics, onRetake }:
           </CardContent>
         </Card>
 
+        {/* Prediction from the student's ability across all their answers in the class */}
+        <AbilityEstimate userId={attempt.userId} apClasses={[attempt.apClass]} />
+
+        {/* Free-response answers, scored against their rubrics */}
+        {attempt.responses.some(r => r.freeResponse) && <APTestFreeResponses attemptId={attempt.id} />}
+
         {/* Incorrect Questions List */}
         {incorrectQuestions.length > 0 && (
           <Card variant="elevated">
@@ -179,6 +190,7 @@ export function APTestResults({ attempt, testData, onViewAnalytics, onRetake }:
                       {incorrectQuestions.map((item, index) => {
                         const { question, response } = item;
                         if (!question) return null;
+                        const objectiveItem = toObjectiveItem(question);
                         
                         return (
                           <div key={response.questionId} className="p-6 rounded-lg border-2 border-destructive/20 bg-destructive/5">
@@ -204,28 +216,45 @@ export function APTestResults({ attempt, testData, onViewAnalytics, onRetake }:
                               </p>
                             </div>
                             
-                            <div className="grid md:grid-cols-2 gap-4 mt-4">
-                              <div className="p-4 rounded-lg bg-red-50 border border-red-200">
-                                <div className="text-sm font-medium text-red-900 mb-2">Your Answer</div>
-                                <div className="text-lg font-bold text-red-700">
-                                  {response.userAnswer || 'No answer'}
-                                </div>
-                                {response.userAnswer && (
-                                  <div className="text-sm text-red-600 mt-1">
-                                    {question.options[response.userAnswer as "A" | "B" | "C" | "D"]}
-                                  </div>
+                            {objectiveItem ? (
+                              <div className="mt-4 space-y-3">
+                                {response.credit !== undefined && response.credit > 0 && (
+                                  <Badge variant="outline" className="text-base">Partial credit: {formatCredit(response.credit)}</Badge>
                                 )}
+                                <ObjectiveItemInput
+                                  item={objectiveItem}
+                                  answer={response.answer ?? getInitialAnswer(objectiveItem)}
+                                  onChange={() => {}}
+                                  disabled
+                                  showKey
+                                />
                               </div>
-                              <div className="p-4 rounded-lg bg-green-50 border border-green-200">
-                                <div className="text-sm font-medium text-green-900 mb-2">Correct Answer</div>
-                                <div className="text-lg font-bold text-green-700">
-                                  {question.correct_answer}
+                            ) : (
+                              <div className="grid md:grid-cols-2 gap-4 mt-4">
+                                <div className="p-4 rounded-lg bg-red-50 border border-red-200">
+                                  <div className="text-sm font-medium text-red-900 mb-2">Your Answer</div>
+                                  <div className="text-lg font-bold text-red-700">
+                                    {response.userAnswer || 'No answer'}
+                                  </div>
+                                  {response.userAnswer && (
+                                    <div className="text-sm text-red-600 mt-1">
+                                      {question.options?.[response.userAnswer as "A" | "B" | "C" | "D"]}
+                                    </div>
+                                  )}
                                 </div>
-                                <div className="text-sm text-green-600 mt-1">
-                                  {question.options[question.correct_answer]}
+                                <div className="p-4 rounded-lg bg-green-50 border border-green-200">
+                                  <div className="text-sm font-medium text-green-900 mb-2">Correct Answer</div>
+                                  <div className="text-lg font-bold text-green-700">
+                                    {question.correct_answer ?? 'Unavailable'}
+                                  </div>
+                                  {question.correct_answer && (
+                                    <div className="text-sm text-green-600 mt-1">
+                                      {question.options?.[question.correct_answer]}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
-                            </div>
+                            )}
                             
                             <div className="mt-4 text-sm text-muted-foreground">
                               Time spent: {Math.round(response.timeSpentSeconds)}s 
@@ -332,6 +361,46 @@ export function APTestResults({ attempt, testData, onViewAnalytics, onRetake }:
           </Card>
         )}
 
+        {/* Sections */}
+        {summary.sections && summary.sections.length > 0 && (
+          <Card variant="elevated">
+            <CardHeader>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                <Layers className="w-6 h-6" />
+                Sections
+              </CardTitle>
+              <CardDescription>Your score and time in each section of the test</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {summary.sections.map((section) => (
+                  <div key={section.sectionId} className="p-4 rounded-xl bg-muted/50 flex flex-col md:flex-row md:items-center gap-3">
+                    <div className="flex-1">
+                      <div className="font-semibold text-lg">{section.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {formatTime(section.timeUsedSeconds)} of {formatTime(section.timeLimitSeconds)}
+                        {section.timedOut && " · ran out of time"}
+                      </div>
+                    </div>
+                    {section.totalQuestions > 0 ? (
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-muted-foreground">
+                          {section.correctAnswers}/{section.totalQuestions} correct
+                        </span>
+                        <Badge variant={section.accuracy >= 0.7 ? "default" : section.accuracy >= 0.5 ? "secondary" : "destructive"}>
+                          {Math.round(section.accuracy * 100)}%
+                        </Badge>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Free response, scored with the rubric</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Time Management */}
         <Card variant="elevated">
           <CardHeader>
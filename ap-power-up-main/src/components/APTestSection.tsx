@@ -2,9 +2,11 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Clock, FileText, Play, AlertCircle } from "lucide-react";
+import { Clock, FileText, Play, AlertCircle, RotateCcw, Trash2 } from "lucide-react";
 import { loadAPTestData, getAvailableAPTestClasses, getAvailableTestsForClass } from "@/lib/apTestLoader";
 import { APTestData } from "@/lib/apTestData";
+import { ADAPTIVE_TEST_ID } from "@/lib/adaptiveAPTest";
+import { APTestSession, clearAPTestSession, getAPTestSessions } from "@/lib/database";
 import { toast } from "sonner";
 
 interface ClassTestInfo {
@@ -13,14 +15,26 @@ interface ClassTestInfo {
 }
 
 interface APTestSectionProps {
+  userId: string;
   userClasses: string[];
   onStartTest: (testData: APTestData) => void;
+  onResumeTest: (session: APTestSession) => void;
 }
 
-export function APTestSection({ userClasses, onStartTest }: APTestSectionProps) {
+const getSessionTitle = (session: APTestSession) =>
+  `${session.apClass} - ${session.testId === ADAPTIVE_TEST_ID ? "Adaptive Test" : `Practice ${session.testId}`}`;
+
+export function APTestSection({ userId, userClasses, onStartTest, onResumeTest }: APTestSectionProps) {
   const [availableClassTests, setAvailableClassTests] = useState<ClassTestInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [testDataCache, setTestDataCache] = useState<Record<string, APTestData>>({});
+  const [sessions, setSessions] = useState<APTestSession[]>([]);
+
+  useEffect(() => {
+    getAPTestSessions(userId)
+      .then(setSessions)
+      .catch(error => console.error('[APTestSection] Error loading paused tests:', error));
+  }, [userId]);
 
   useEffect(() => {
     async function loadTests() {
@@ -94,7 +108,26 @@ export function APTestSection({ userClasses, onStartTest }: APTestSectionProps)
     }
   }, [userClasses]);
 
+  const findSession = (className: string, testId: number) =>
+    sessions.find(session => session.apClass === className && session.testId === testId);
+
+  const handleDiscardSession = async (session: APTestSession) => {
+    try {
+      await clearAPTestSession(userId, session.apClass, session.testId);
+      setSessions(prev => prev.filter(s => s.attemptId !== session.attemptId));
+      toast.success("Paused test discarded");
+    } catch (error) {
+      console.error('[APTestSection] Error discarding paused test:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to discard paused test");
+    }
+  };
+
   const handleStartTest = async (className: string, testId: number) => {
+    const session = findSession(className, testId);
+    if (session) {
+      onResumeTest(session);
+      return;
+    }
     try {
       const cacheKey = `${className}:${testId}`;
       let testData = testDataCache[cacheKey];
@@ -200,6 +233,50 @@ export function APTestSection({ userClasses, onStartTest }: APTestSectionProps)
         </div>
       </CardHeader>
       <CardContent className="space-y-6 px-8 pb-6">
+        {sessions.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-2xl md:text-3xl font-bold">In progress</h3>
+            {sessions.map((session) => (
+              <div
+                key={session.attemptId}
+                className="flex items-center justify-between p-6 rounded-xl border-2 border-secondary/50 bg-secondary/5"
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-2">
+                    <h4 className="text-xl md:text-2xl font-semibold">{getSessionTitle(session)}</h4>
+                    {!session.allowPause && (
+                      <Badge variant="outline" className="text-base px-3 py-1">Proctored</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-6 text-lg md:text-xl text-muted-foreground">
+                    <span>{Object.keys(session.state.responses).length} answered</span>
+                    <div className="flex items-center gap-2">
+                      <Clock className="w-5 h-5" />
+                      <span>{Math.ceil(session.state.clock.timeRemaining / 60)} minutes left in section</span>
+                    </div>
+                  </div>
+                  {!session.allowPause && (
+                    <p className="text-base text-muted-foreground mt-2">
+                      The clock kept running while you were away
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 ml-6">
+                  {session.allowPause && (
+                    <Button variant="outline" size="lg" className="h-16 text-lg" onClick={() => handleDiscardSession(session)}>
+                      <Trash2 className="w-5 h-5 mr-2" />
+                      Discard
+                    </Button>
+                  )}
+                  <Button variant="student" size="lg" className="h-16 text-xl font-bold px-8" onClick={() => onResumeTest(session)}>
+                    <RotateCcw className="w-6 h-6 mr-2" />
+                    Resume
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
         {availableClassTests.map(({ className, testIds }) => (
           <div key={className} className="space-y-4">
             <h3 className="text-2xl md:text-3xl font-bold">{className}</h3>
@@ -242,7 +319,7 @@ export function APTestSection({ userClasses, onStartTest }: APTestSectionProps)
                       onClick={() => handleStartTest(className, testId)}
                     >
                       <Play className="w-6 h-6 mr-2" />
-                      Start Test
+                      {findSession(className, testId) ? "Resume Test" : "Start Test"}
                     </Button>
                   </div>
                 );
@@ -252,7 +329,8 @@ export function APTestSection({ userClasses, onStartTest }: APTestSectionProps)
         ))}
         <div className="mt-4 p-4 rounded-lg bg-muted/30 border border-border">
           <p className="text-base md:text-lg text-muted-foreground">
-            <strong>Note:</strong> AP tests are timed and must be completed in one session. 
+            <strong>Note:</strong> AP tests are timed and saved as you go. Pausing stops the clock, 
+            except on proctored tests your teacher assigns. 
             Your performance will be tracked for detailed analytics including accuracy by skill type, 
             topic tags, time management, and predicted AP score.
           </p>
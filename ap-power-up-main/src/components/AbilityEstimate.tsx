@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getAbilityReport } from "@/lib/database";
+import { AbilityReport } from "@/lib/api";
+import { Gauge, Loader2 } from "lucide-react";
+
+interface Props {
+  userId: string;
+  apClasses: string[];
+}
+
+const TIER_COLORS: Record<AbilityReport["predictedScore"]["tier"], string> = {
+  Secure: "text-green-600",
+  "On Track": "text-blue-600",
+  Borderline: "text-yellow-600",
+};
+
+function formatScoreRange([low, high]: AbilityReport['scoreRange']): string {
+  return low === high ? `${low}` : `${low}–${high}`;
+}
+
+// Predicted AP score from the student's ability estimate, which weighs each answer
+// by how hard the question is for everyone else
+export function AbilityEstimate({ userId, apClasses }: Props) {
+  const [selectedClass, setSelectedClass] = useState(apClasses[0] || "");
+  const [report, setReport] = useState<AbilityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!selectedClass) return;
+    setLoading(true);
+    getAbilityReport(userId, selectedClass)
+      .then(setReport)
+      .finally(() => setLoading(false));
+  }, [userId, selectedClass]);
+
+  if (apClasses.length === 0 || (!loading && !report)) return null;
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-2xl">
+              <Gauge className="w-6 h-6 text-primary" />
+              Calibrated Prediction
+            </CardTitle>
+            <CardDescription>Your predicted AP score, weighing each answer by how hard the question is</CardDescription>
+          </div>
+          {apClasses.length > 1 && (
+            <Select value={selectedClass} onValueChange={setSelectedClass}>
+              <SelectTrigger className="w-full md:w-64">
+                <SelectValue placeholder="Select class" />
+              </SelectTrigger>
+              <SelectContent>
+                {apClasses.map((className) => (
+                  <SelectItem key={className} value={className}>
+                    {className}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading || !report ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : report.responses === 0 ? (
+          <p className="text-center text-muted-foreground py-6">Answer some {selectedClass} questions to get a prediction.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-4">
+              <span className="text-4xl font-bold">{report.predictedScore.score}</span>
+              <Badge variant="outline" className={`text-base px-3 py-1 ${TIER_COLORS[report.predictedScore.tier]}`}>
+                {report.predictedScore.tier} {report.predictedScore.score}
+              </Badge>
+              <span className="text-muted-foreground">Likely range: {formatScoreRange(report.scoreRange)}</span>
+            </div>
+            <p className="text-muted-foreground">
+              Expected accuracy on {selectedClass} AP questions: {Math.round(report.predictedScore.expectedAccuracy * 100)}%
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Ability {report.ability.toFixed(2)} (95% interval {report.confidenceInterval[0].toFixed(2)} to{" "}
+              {report.confidenceInterval[1].toFixed(2)}) from {report.responses} answer{report.responses === 1 ? "" : "s"}.
+              {report.calibratedItems === 0 && " Question difficulties have not been calibrated yet, so every question counts as average."}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
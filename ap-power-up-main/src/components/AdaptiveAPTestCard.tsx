@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Sparkles, Loader2 } from "lucide-react";
+import { buildAdaptiveAPTest } from "@/lib/adaptiveAPTest";
+import { APTestData } from "@/lib/apTestData";
+import { toast } from "sonner";
+
+interface Props {
+  userId: string;
+  userClasses: string[];
+  selectedClass: string;
+  onStartTest: (testData: APTestData) => void;
+}
+
+export function AdaptiveAPTestCard({ userId, userClasses, selectedClass, onStartTest }: Props) {
+  const [building, setBuilding] = useState(false);
+  // Use selectedClass if available, otherwise default to first class
+  const testClass = selectedClass || userClasses[0] || "";
+
+  const handleStart = async () => {
+    setBuilding(true);
+    try {
+      const testData = await buildAdaptiveAPTest(userId, testClass);
+      if (!testData || testData.questions.length === 0) {
+        toast.error(`Not enough questions to build an adaptive test for ${testClass}`);
+        return;
+      }
+      onStartTest(testData);
+    } catch (error) {
+      console.error("Error building adaptive AP test:", error);
+      toast.error("Failed to build adaptive AP test");
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  if (userClasses.length === 0) return null;
+
+  return (
+    <Card variant="elevated">
+      <CardHeader className="pb-5 px-8 pt-6">
+        <CardTitle className="flex items-center gap-4 text-3xl md:text-4xl lg:text-5xl font-bold">
+          <Sparkles className="w-8 h-8 md:w-9 md:h-9 text-secondary" />
+          Adaptive AP Test
+        </CardTitle>
+        <CardDescription className="text-xl md:text-2xl mt-3">
+          A timed {testClass} test built from the question bank, focused on your weakest skills
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 px-8 pb-6">
+        <Button
+          variant="student"
+          size="lg"
+          className="w-full h-16 text-xl font-bold"
+          onClick={handleStart}
+          disabled={building || !testClass}
+        >
+          {building ? (
+            <>
+              <Loader2 className="w-6 h-6 mr-3 animate-spin" />
+              Building test...
+            </>
+          ) : (
+            <>
+              <Sparkles className="w-6 h-6 mr-3" />
+              Start Adaptive Test
+            </>
+          )}
+        </Button>
+        <p className="text-base md:text-lg text-muted-foreground">
+          Questions follow the difficulty and skill mix of a real AP exam. Results appear in your AP test analytics.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
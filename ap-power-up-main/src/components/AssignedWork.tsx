@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { getStudentAssignments, Assignment } from "@/lib/database";
+import { AssignmentStatus } from "@/lib/assignments";
+import { ClipboardList, Loader2, Play, CheckCircle } from "lucide-react";
+
+interface Props {
+  userId: string;
+  refreshKey?: number | string | boolean;
+  onStartAssignment: (assignment: Assignment) => void;
+}
+
+const STATUS_LABELS: Record<AssignmentStatus, string> = {
+  completed: "Completed",
+  late: "Turned in late",
+  pending: "Due",
+  missing: "Past due",
+};
+
+const STATUS_VARIANTS: Record<AssignmentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "secondary",
+  late: "outline",
+  pending: "default",
+  missing: "destructive",
+};
+
+export function AssignedWork({ userId, refreshKey, onStartAssignment }: Props) {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    getStudentAssignments(userId)
+      .then(setAssignments)
+      .catch((error) => {
+        console.error("Failed to load assignments:", error);
+        setAssignments([]);
+      })
+      .finally(() => setLoading(false));
+  }, [userId, refreshKey]);
+
+  // Students who are not in a teacher's class have nothing to show
+  if (!loading && assignments.length === 0) return null;
+
+  const openCount = assignments.filter(a => !a.submission).length;
+
+  return (
+    <Card variant="elevated" className="border-2 border-primary/20 shadow-lg">
+      <CardHeader className="pb-8 pt-8 px-8">
+        <CardTitle className="flex items-center gap-4 text-3xl md:text-4xl font-bold">
+          <ClipboardList className="w-8 h-8 text-primary" />
+          Assigned Work
+        </CardTitle>
+        <CardDescription className="text-lg md:text-xl mt-3">
+          {openCount > 0
+            ? `${openCount} assignment${openCount !== 1 ? 's' : ''} to complete`
+            : "All caught up - every assignment is turned in"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-4 pb-8 px-8">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-6 h-6 mr-3 animate-spin" />
+            Loading assignments...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {assignments.map((assignment) => {
+              const status = assignment.status || "pending";
+              return (
+                <div
+                  key={assignment.id}
+                  className="flex flex-col md:flex-row md:items-center gap-4 p-5 rounded-xl bg-muted/40"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 flex-wrap">
+                      <span className="text-xl font-bold">{assignment.title}</span>
+                      <Badge variant={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>
+                    </div>
+                    <div className="text-base text-muted-foreground mt-1">
+                      {assignment.apClassName} • {assignment.assignmentType === "ap_test"
+                        ? `AP Practice Test ${assignment.apTestId}`
+                        : `${assignment.questionCount} questions`}
+                      {" • "}Due {new Date(assignment.dueAt).toLocaleString()}
+                    </div>
+                  </div>
+                  {assignment.submission ? (
+                    <div className="flex items-center gap-2 text-lg font-semibold text-secondary">
+                      <CheckCircle className="w-5 h-5" />
+                      {assignment.submission.score}/{assignment.submission.totalQuestions}
+                    </div>
+                  ) : (
+                    <Button
+                      variant="student"
+                      size="lg"
+                      className="h-12 text-lg font-bold"
+                      onClick={() => onStartAssignment(assignment)}
+                    >
+                      <Play className="w-5 h-5 mr-2" />
+                      Start
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
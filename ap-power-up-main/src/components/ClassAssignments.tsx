@@ -0,0 +1,379 @@
+import { useEffect, useState } from "react";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Assignment,
+  AssignmentProgress,
+  getClassAssignments,
+  createAssignment,
+  deleteAssignment,
+  getAssignmentProgress,
+} from "@/lib/database";
+import { AssignmentType, AssignmentStatus, MAX_ASSIGNMENT_QUESTIONS } from "@/lib/assignments";
+import { loadClassData } from "@/lib/jsonLoader";
+import { getAvailableTestsForClass } from "@/lib/apTestLoader";
+import { CalendarClock, Plus, Trash2, ArrowLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  teacherId: string;
+  classCode: string | null;
+  apClassName: string;
+}
+
+const DEFAULT_QUESTION_COUNT = 10;
+
+const STATUS_LABELS: Record<AssignmentStatus, string> = {
+  completed: "Completed",
+  late: "Late",
+  pending: "Not started",
+  missing: "Missing",
+};
+
+const STATUS_VARIANTS: Record<AssignmentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "secondary",
+  late: "outline",
+  pending: "default",
+  missing: "destructive",
+};
+
+export function ClassAssignments({ teacherId, classCode, apClassName }: Props) {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [progress, setProgress] = useState<AssignmentProgress | null>(null);
+  const [unitSubtopics, setUnitSubtopics] = useState<Record<string, string[]>>({});
+  const [testIds, setTestIds] = useState<number[]>([]);
+
+  // New assignment form
+  const [title, setTitle] = useState("");
+  const [assignmentType, setAssignmentType] = useState<AssignmentType>("practice");
+  const [selectedUnits, setSelectedUnits] = useState<string[]>([]);
+  const [selectedSubtopics, setSelectedSubtopics] = useState<string[]>([]);
+  const [questionCount, setQuestionCount] = useState(String(DEFAULT_QUESTION_COUNT));
+  const [apTestId, setApTestId] = useState<string>("");
+  const [allowPause, setAllowPause] = useState(true);
+  const [dueAt, setDueAt] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    setProgress(null);
+    if (!classCode) return;
+    setLoading(true);
+    getClassAssignments(classCode)
+      .then(setAssignments)
+      .catch((error) => {
+        console.error("Failed to load assignments:", error);
+        setAssignments([]);
+      })
+      .finally(() => setLoading(false));
+  }, [classCode, reloadKey]);
+
+  const refreshAssignments = () => setReloadKey(key => key + 1);
+
+  useEffect(() => {
+    setSelectedUnits([]);
+    setSelectedSubtopics([]);
+    loadClassData(apClassName).then((classData) => {
+      const subtopicsByUnit: Record<string, string[]> = {};
+      classData?.units.forEach(unit => {
+        subtopicsByUnit[unit.unitName] = unit.subtopics.map(s => s.subtopicName);
+      });
+      setUnitSubtopics(subtopicsByUnit);
+    });
+    getAvailableTestsForClass(apClassName).then(setTestIds);
+  }, [apClassName]);
+
+  if (!classCode) {
+    return (
+      <CardContent>
+        <div className="text-center py-12 text-muted-foreground">
+          <CalendarClock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>No class code for {apClassName} yet.</p>
+          <p className="text-sm">Create a class to start assigning work.</p>
+        </div>
+      </CardContent>
+    );
+  }
+
+  const toggleUnit = (unitName: string, checked: boolean) => {
+    setSelectedUnits(prev => checked ? [...prev, unitName] : prev.filter(u => u !== unitName));
+    if (!checked) {
+      const unitTopics = unitSubtopics[unitName] || [];
+      setSelectedSubtopics(prev => prev.filter(s => !unitTopics.includes(s)));
+    }
+  };
+
+  const toggleSubtopic = (subtopicName: string, checked: boolean) => {
+    setSelectedSubtopics(prev => checked ? [...prev, subtopicName] : prev.filter(s => s !== subtopicName));
+  };
+
+  const handleCreate = async () => {
+    if (!title.trim()) {
+      toast.error("Please enter a title");
+      return;
+    }
+    if (!dueAt) {
+      toast.error("Please pick a due date");
+      return;
+    }
+    const count = parseInt(questionCount, 10);
+    if (assignmentType === "practice" && (Number.isNaN(count) || count < 1 || count > MAX_ASSIGNMENT_QUESTIONS)) {
+      toast.error(`Question count must be between 1 and ${MAX_ASSIGNMENT_QUESTIONS}`);
+      return;
+    }
+    if (assignmentType === "ap_test" && !apTestId) {
+      toast.error("Please choose an AP test");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      await createAssignment(teacherId, classCode, {
+        title: title.trim(),
+        assignmentType,
+        units: assignmentType === "practice" ? selectedUnits : [],
+        subtopics: assignmentType === "practice" ? selectedSubtopics : [],
+        questionCount: assignmentType === "practice" ? count : undefined,
+        apTestId: assignmentType === "ap_test" ? parseInt(apTestId, 10) : undefined,
+        allowPause: assignmentType === "ap_test" ? allowPause : undefined,
+        dueAt: new Date(dueAt).toISOString(),
+      });
+      toast.success("Assignment created");
+      setTitle("");
+      setDueAt("");
+      refreshAssignments();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create assignment");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (assignment: Assignment) => {
+    await deleteAssignment(classCode, assignment.id);
+    toast.success(`Deleted "${assignment.title}"`);
+    refreshAssignments();
+  };
+
+  const openProgress = async (assignment: Assignment) => {
+    const result = await getAssignmentProgress(classCode, assignment.id);
+    if (!result) {
+      toast.error("Failed to load assignment progress");
+      return;
+    }
+    setProgress(result);
+  };
+
+  if (progress) {
+    return (
+      <>
+        <CardHeader>
+          <Button variant="ghost" size="sm" className="w-fit -ml-2 mb-2" onClick={() => setProgress(null)}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            All assignments
+          </Button>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            {progress.assignment.title}
+          </CardTitle>
+          <CardDescription>Due {new Date(progress.assignment.dueAt).toLocaleString()}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {progress.students.length > 0 ? (
+            <div className="rounded-xl border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead>Student</TableHead>
+                    <TableHead className="text-center">Status</TableHead>
+                    <TableHead className="text-center">Score</TableHead>
+                    <TableHead className="text-right">Turned In</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {progress.students.map((student) => (
+                    <TableRow key={student.studentId}>
+                      <TableCell className="font-medium">{student.displayName}</TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant={STATUS_VARIANTS[student.status]}>{STATUS_LABELS[student.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {student.score !== null ? `${student.score}/${student.totalQuestions}` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {student.completedAt ? new Date(student.completedAt).toLocaleString() : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-12 text-muted-foreground">
+              <p>No students enrolled yet.</p>
+            </div>
+          )}
+        </CardContent>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-primary" />
+          Assignments
+        </CardTitle>
+        <CardDescription>Assign practice or AP tests to {apClassName} (class code {classCode})</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* New Assignment */}
+        <div className="space-y-4 p-4 rounded-xl border">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Title</Label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g., Unit 2 review" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Due</Label>
+              <Input type="datetime-local" value={dueAt} onChange={(e) => setDueAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Type</Label>
+              <Select value={assignmentType} onValueChange={(v) => setAssignmentType(v as AssignmentType)}>
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="practice">Practice questions</SelectItem>
+                  <SelectItem value="ap_test" disabled={testIds.length === 0}>AP practice test</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {assignmentType === "practice" ? (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Questions</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_ASSIGNMENT_QUESTIONS}
+                  value={questionCount}
+                  onChange={(e) => setQuestionCount(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">AP Test</Label>
+                <Select value={apTestId} onValueChange={setApTestId}>
+                  <SelectTrigger className="h-10">
+                    <SelectValue placeholder="Choose a test" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {testIds.map((testId) => (
+                      <SelectItem key={testId} value={String(testId)}>
+                        Practice Test {testId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {assignmentType === "ap_test" && (
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={allowPause} onCheckedChange={(checked) => setAllowPause(checked === true)} />
+              Allow pausing (leave unchecked for a proctored test whose clock keeps running)
+            </label>
+          )}
+
+          {assignmentType === "practice" && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Units and subtopics (leave empty for all)</Label>
+              <div className="max-h-56 overflow-y-auto space-y-2 pr-2">
+                {Object.entries(unitSubtopics).map(([unitName, subtopics]) => (
+                  <div key={unitName} className="space-y-1">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Checkbox
+                        checked={selectedUnits.includes(unitName)}
+                        onCheckedChange={(checked) => toggleUnit(unitName, checked === true)}
+                      />
+                      {unitName}
+                    </label>
+                    {selectedUnits.includes(unitName) && subtopics.map((subtopicName) => (
+                      <label key={subtopicName} className="flex items-center gap-2 text-sm text-muted-foreground pl-6">
+                        <Checkbox
+                          checked={selectedSubtopics.includes(subtopicName)}
+                          onCheckedChange={(checked) => toggleSubtopic(subtopicName, checked === true)}
+                        />
+                        {subtopicName}
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Button variant="teacher" className="w-full" onClick={handleCreate} disabled={creating}>
+            {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Create Assignment
+          </Button>
+        </div>
+
+        {/* Existing Assignments */}
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading assignments...
+          </div>
+        ) : assignments.length > 0 ? (
+          <div className="space-y-3">
+            {assignments.map((assignment) => (
+              <div
+                key={assignment.id}
+                className="flex items-center gap-4 p-4 rounded-xl bg-muted/30 hover:bg-muted/50 cursor-pointer transition-all"
+                onClick={() => openProgress(assignment)}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">{assignment.title}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {assignment.assignmentType === "ap_test"
+                      ? `AP Practice Test ${assignment.apTestId}${assignment.allowPause ? "" : " (proctored)"}`
+                      : `${assignment.questionCount} questions`}
+                    {" • "}Due {new Date(assignment.dueAt).toLocaleString()}
+                  </div>
+                </div>
+                <div className="text-sm font-medium">
+                  {assignment.completedCount ?? 0}/{assignment.studentCount ?? 0} done
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(assignment);
+                  }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>No assignments yet.</p>
+          </div>
+        )}
+      </CardContent>
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { exportApi } from "@/lib/api";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  apClassName: string;
+  classCode: string | null;
+}
+
+type ExportKind = "questions_csv" | "questions_qti" | "quiz_results" | "ap_test_attempts";
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function toFileName(...parts: string[]): string {
+  return parts.join("_").replace(/[^A-Za-z0-9_-]+/g, "_");
+}
+
+export function ClassExports({ apClassName, classCode }: Props) {
+  const [downloading, setDownloading] = useState<ExportKind | null>(null);
+
+  const runExport = async (kind: ExportKind) => {
+    setDownloading(kind);
+    try {
+      if (kind === "questions_csv") {
+        saveBlob(await exportApi.downloadQuestions({ apClass: apClassName, format: "csv" }), `${toFileName(apClassName, "questions")}.csv`);
+      } else if (kind === "questions_qti") {
+        saveBlob(await exportApi.downloadQuestions({ apClass: apClassName, format: "qti" }), `${toFileName(apClassName, "qti")}.zip`);
+      } else if (kind === "quiz_results" && classCode) {
+        saveBlob(await exportApi.downloadQuizResults(classCode), `${toFileName(classCode, "quiz_results")}.csv`);
+      } else if (kind === "ap_test_attempts" && classCode) {
+        saveBlob(await exportApi.downloadAPTestAttempts(classCode), `${toFileName(classCode, "ap_test_attempts")}.csv`);
+      }
+    } catch (error) {
+      console.error("Export failed:", error);
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const exports: { kind: ExportKind; label: string; needsClass: boolean }[] = [
+    { kind: "questions_csv", label: "Questions (CSV)", needsClass: false },
+    { kind: "questions_qti", label: "Questions (QTI 2.1 for LMS)", needsClass: false },
+    { kind: "quiz_results", label: "Quiz results (CSV)", needsClass: true },
+    { kind: "ap_test_attempts", label: "AP test attempts (CSV)", needsClass: true },
+  ];
+
+  return (
+    <Card variant="elevated" className="animate-fade-in" style={{ animationDelay: '0.45s' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="w-5 h-5 text-primary" />
+          Export Data
+        </CardTitle>
+        <CardDescription>
+          {classCode ? `Download ${apClassName} data` : `Create a class for ${apClassName} to export student results`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {exports.map(({ kind, label, needsClass }) => (
+          <Button
+            key={kind}
+            variant="outline"
+            className="w-full justify-start"
+            onClick={() => runExport(kind)}
+            disabled={!apClassName || downloading !== null || (needsClass && !classCode)}
+          >
+            {downloading === kind ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            {label}
+          </Button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
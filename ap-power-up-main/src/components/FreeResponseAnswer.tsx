@@ -0,0 +1,56 @@
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { MathText } from "@/components/Latex";
+import { PublicFreeResponsePart } from "@/lib/freeResponse";
+
+interface Props {
+  parts: PublicFreeResponsePart[];
+  answers: Record<string, string>;
+  onChange: (partId: string, text: string) => void;
+  disabled?: boolean;
+}
+
+// Answers containing math get a rendered preview under the text box
+function hasMath(text: string): boolean {
+  return /\$|\\\(|\\\[/.test(text);
+}
+
+// Text boxes for the parts of a free-response question; answers can contain LaTeX
+export function FreeResponseAnswer({ parts, answers, onChange, disabled = false }: Props) {
+  return (
+    <div className="space-y-6">
+      {parts.map((part) => {
+        const answer = answers[part.id] || "";
+        return (
+          <div key={part.id} className="space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="text-lg leading-relaxed">
+                <span className="font-bold mr-2">({part.id})</span>
+                <MathText text={part.prompt} />
+              </div>
+              <Badge variant="outline" className="flex-shrink-0">
+                {part.points} {part.points === 1 ? "point" : "points"}
+              </Badge>
+            </div>
+            <Textarea
+              value={answer}
+              onChange={(e) => onChange(part.id, e.target.value)}
+              disabled={disabled}
+              rows={6}
+              placeholder="Write your answer. Use $...$ for math, e.g. $\frac{dy}{dx} = 2x$"
+              className="text-base"
+            />
+            {hasMath(answer) && (
+              <div className="p-3 rounded-lg bg-muted/50 text-sm">
+                <div className="text-xs font-medium text-muted-foreground mb-1">Preview</div>
+                <div className="whitespace-pre-wrap">
+                  <MathText text={answer} />
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MathText } from "@/components/Latex";
+import { loadClassData } from "@/lib/jsonLoader";
+import { questionApi } from "@/lib/api";
+import { FreeResponsePart, getPartPoints, getTotalPoints, MAX_CRITERION_POINTS, validateFreeResponseParts } from "@/lib/freeResponse";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  apClassName: string;
+  onSaved?: () => void;
+}
+
+function getPartId(index: number): string {
+  return String.fromCharCode(97 + index); // a, b, c, ...
+}
+
+// Criterion ids are unique across the question: a1, a2, b1, ...
+function renumber(parts: FreeResponsePart[]): FreeResponsePart[] {
+  return parts.map((part, partIndex) => {
+    const id = getPartId(partIndex);
+    return { ...part, id, rubric: part.rubric.map((criterion, index) => ({ ...criterion, id: `${id}${index + 1}` })) };
+  });
+}
+
+function createPart(index: number): FreeResponsePart {
+  const id = getPartId(index);
+  return { id, prompt: "", rubric: [{ id: `${id}1`, description: "", points: 1 }] };
+}
+
+// Write a multi-part free-response question with a point rubric per part
+export function FreeResponseEditor({ open, onOpenChange, apClassName, onSaved }: Props) {
+  const [units, setUnits] = useState<string[]>([]);
+  const [unitName, setUnitName] = useState("");
+  const [questionText, setQuestionText] = useState("");
+  const [explanation, setExplanation] = useState("");
+  const [parts, setParts] = useState<FreeResponsePart[]>([createPart(0)]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setUnitName("");
+    setQuestionText("");
+    setExplanation("");
+    setParts([createPart(0)]);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !apClassName) return;
+    loadClassData(apClassName).then((classData) => setUnits(classData?.units.map(unit => unit.unitName) || []));
+  }, [open, apClassName]);
+
+  const updatePart = (index: number, changes: Partial<FreeResponsePart>) => {
+    setParts(prev => prev.map((part, i) => (i === index ? { ...part, ...changes } : part)));
+  };
+
+  const updateCriterion = (partIndex: number, criterionIndex: number, changes: { description?: string; points?: number }) => {
+    const part = parts[partIndex];
+    updatePart(partIndex, {
+      rubric: part.rubric.map((criterion, i) => (i === criterionIndex ? { ...criterion, ...changes } : criterion)),
+    });
+  };
+
+  const addCriterion = (partIndex: number) => {
+    const part = parts[partIndex];
+    setParts(prev => renumber(prev.map((p, i) => (
+      i === partIndex ? { ...p, rubric: [...part.rubric, { id: "", description: "", points: 1 }] } : p
+    ))));
+  };
+
+  const removeCriterion = (partIndex: number, criterionIndex: number) => {
+    setParts(prev => renumber(prev.map((part, i) => (
+      i === partIndex ? { ...part, rubric: part.rubric.filter((_, j) => j !== criterionIndex) } : part
+    ))));
+  };
+
+  const handleSave = async () => {
+    if (!unitName) {
+      toast.error("Please choose a unit");
+      return;
+    }
+    if (!questionText.trim()) {
+      toast.error("Please enter the question text");
+      return;
+    }
+    const error = validateFreeResponseParts(parts);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await questionApi.createQuestion({
+        questionType: "free_response",
+        questionText: questionText.trim(),
+        options: [],
+        correctAnswerId: "",
+        explanation: explanation.trim(),
+        apClass: apClassName,
+        unitName,
+        subtopicName: null,
+        metadata: {},
+        parts: parts.map(part => ({
+          ...part,
+          prompt: part.prompt.trim(),
+          rubric: part.rubric.map(criterion => ({ ...criterion, description: criterion.description.trim() })),
+        })),
+      });
+      toast.success("Free-response question created");
+      onOpenChange(false);
+      onSaved?.();
+    } catch (err) {
+      console.error("Failed to save free-response question:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save question");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Free-Response Question</DialogTitle>
+          <DialogDescription>
+            {apClassName} • Students answer each part in writing and are scored against its rubric. Use $...$ for math.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Unit</Label>
+            <Select value={unitName} onValueChange={setUnitName}>
+              <SelectTrigger className="h-10">
+                <SelectValue placeholder="Choose a unit" />
+              </SelectTrigger>
+              <SelectContent>
+                {units.map(unit => (
+                  <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Question (shared setup for all parts)</Label>
+            <Textarea rows={4} value={questionText} onChange={(e) => setQuestionText(e.target.value)} />
+            {questionText && (
+              <div className="p-3 rounded-lg bg-muted/50 text-sm">
+                <MathText text={questionText} />
+              </div>
+            )}
+          </div>
+
+          {parts.map((part, partIndex) => (
+            <div key={part.id} className="rounded-xl border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="font-semibold">Part ({part.id}) • {getPartPoints(part)} points</Label>
+                {parts.length > 1 && (
+                  <Button variant="ghost" size="sm" onClick={() => setParts(prev => renumber(prev.filter((_, i) => i !== partIndex)))}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                rows={3}
+                placeholder="Prompt"
+                value={part.prompt}
+                onChange={(e) => updatePart(partIndex, { prompt: e.target.value })}
+              />
+              <Label className="text-xs text-muted-foreground">Rubric</Label>
+              {part.rubric.map((criterion, criterionIndex) => (
+                <div key={criterion.id} className="flex items-center gap-2">
+                  <Input
+                    placeholder="What earns the points"
+                    value={criterion.description}
+                    onChange={(e) => updateCriterion(partIndex, criterionIndex, { description: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_CRITERION_POINTS}
+                    value={criterion.points}
+                    onChange={(e) => updateCriterion(partIndex, criterionIndex, { points: Number(e.target.value) })}
+                    className="w-20"
+                    title="Points"
+                  />
+                  {part.rubric.length > 1 && (
+                    <Button variant="ghost" size="sm" onClick={() => removeCriterion(partIndex, criterionIndex)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => addCriterion(partIndex)}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add criterion
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setParts(prev => [...prev, createPart(prev.length)])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add part
+          </Button>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Explanation (shown after answering)</Label>
+            <Textarea rows={3} value={explanation} onChange={(e) => setExplanation(e.target.value)} />
+          </div>
+
+          <Button variant="teacher" className="w-full" onClick={handleSave} disabled={saving}>
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Create Question ({getTotalPoints(parts)} points)
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
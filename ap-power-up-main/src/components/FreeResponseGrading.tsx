@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { MathText } from "@/components/Latex";
+import { RubricScorer } from "@/components/RubricScorer";
+import { FreeResponseEditor } from "@/components/FreeResponseEditor";
+import { freeResponseApi, GradingQueueItem } from "@/lib/api";
+import { RubricScores } from "@/lib/freeResponse";
+import { ArrowLeft, Loader2, PenLine, Plus, Save } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  apClassName: string;
+}
+
+// Grading queue of students' free-response answers, oldest first, and where teachers
+// write new free-response questions
+export function FreeResponseGrading({ apClassName }: Props) {
+  const [items, setItems] = useState<GradingQueueItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [showGraded, setShowGraded] = useState(false);
+  const [grading, setGrading] = useState<GradingQueueItem | null>(null);
+  const [scores, setScores] = useState<RubricScores>({});
+  const [feedback, setFeedback] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  useEffect(() => {
+    if (!apClassName) return;
+    setLoading(true);
+    setGrading(null);
+    freeResponseApi
+      .getQueue({ apClass: apClassName, status: showGraded ? "all" : "ungraded" })
+      .then(setItems)
+      .catch((error) => {
+        console.error("Failed to load grading queue:", error);
+        toast.error("Failed to load free responses");
+        setItems([]);
+      })
+      .finally(() => setLoading(false));
+  }, [apClassName, showGraded]);
+
+  // Start from an earlier grade, or else from the student's own score
+  const startGrading = (item: GradingQueueItem) => {
+    setGrading(item);
+    setScores(item.teacherScores || item.selfScores || {});
+    setFeedback(item.feedback || "");
+  };
+
+  const handleSave = async () => {
+    if (!grading) return;
+    setSaving(true);
+    try {
+      const graded = await freeResponseApi.grade(grading.id, { scores, feedback });
+      toast.success(`Graded ${graded.teacherPoints}/${graded.pointsPossible} for ${grading.studentName}`);
+      setItems(prev => showGraded
+        ? prev.map(item => (item.id === graded.id ? { ...item, ...graded } : item))
+        : prev.filter(item => item.id !== graded.id));
+      setGrading(null);
+    } catch (error) {
+      console.error("Failed to save grade:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save grade");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <PenLine className="w-5 h-5 text-primary" />
+              Free Response
+            </CardTitle>
+            <CardDescription>
+              Grade your students' {apClassName} free-response answers against the rubric. Your grade replaces their self-score.
+            </CardDescription>
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <Button variant="teacher" size="sm" onClick={() => setEditorOpen(true)} disabled={!apClassName}>
+              <Plus className="w-4 h-4 mr-1" />
+              New question
+            </Button>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground whitespace-nowrap">
+              <Switch checked={showGraded} onCheckedChange={setShowGraded} />
+              Include graded
+            </label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : grading ? (
+          <div className="space-y-5">
+            <Button variant="ghost" onClick={() => setGrading(null)}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to queue
+            </Button>
+            <div>
+              <div className="font-semibold">{grading.studentName}</div>
+              <div className="text-sm text-muted-foreground">
+                {grading.question.unitName} • submitted {new Date(grading.submittedAt).toLocaleString()}
+                {grading.apTestAttemptId && " • AP test"}
+                {grading.selfPoints !== null && ` • self-scored ${grading.selfPoints}/${grading.pointsPossible}`}
+              </div>
+            </div>
+            <div className="text-lg font-medium">
+              <MathText text={grading.question.questionText} />
+            </div>
+            <RubricScorer parts={grading.question.parts} answers={grading.answers} scores={scores} onChange={setScores} disabled={saving} />
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Feedback for the student</Label>
+              <Textarea rows={3} value={feedback} onChange={(e) => setFeedback(e.target.value)} />
+            </div>
+            <Button variant="teacher" className="w-full" onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save grade
+            </Button>
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {showGraded ? "No free-response answers yet." : "Nothing to grade right now."}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-4 p-4 rounded-xl bg-muted/30">
+                <div className="min-w-0">
+                  <div className="font-medium">{item.studentName}</div>
+                  <div className="text-sm text-muted-foreground truncate">{item.question.questionText}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {new Date(item.submittedAt).toLocaleDateString()}
+                    {item.apTestAttemptId && " • AP test"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {item.teacherPoints !== null ? (
+                    <Badge>Graded {item.teacherPoints}/{item.pointsPossible}</Badge>
+                  ) : item.selfPoints !== null ? (
+                    <Badge variant="outline">Self {item.selfPoints}/{item.pointsPossible}</Badge>
+                  ) : null}
+                  <Button variant="outline" size="sm" onClick={() => startGrading(item)}>
+                    {item.teacherPoints !== null ? "Regrade" : "Grade"}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <FreeResponseEditor open={editorOpen} onOpenChange={setEditorOpen} apClassName={apClassName} />
+    </>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MathText } from "@/components/Latex";
+import { FreeResponseAnswer } from "@/components/FreeResponseAnswer";
+import { FreeResponseSelfScore } from "@/components/FreeResponseSelfScore";
+import { FreeResponse, FreeResponseQuestionRecord, freeResponseApi } from "@/lib/api";
+import { getAwardedPoints, getFreeResponseQuestions } from "@/lib/freeResponse";
+import { ArrowLeft, Loader2, PenLine } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  userClasses: string[];
+  selectedClass: string;
+}
+
+// Free-response practice: answer a question's parts, then score the answer against
+// the rubric. Teachers grade the same answers from their queue.
+export function FreeResponsePractice({ userClasses, selectedClass }: Props) {
+  const [questions, setQuestions] = useState<FreeResponseQuestionRecord[]>([]);
+  const [responses, setResponses] = useState<FreeResponse[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [answering, setAnswering] = useState<FreeResponseQuestionRecord | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [startedAt, setStartedAt] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [scoring, setScoring] = useState<FreeResponse | null>(null);
+  // Use selectedClass if available, otherwise default to first class
+  const practiceClass = selectedClass || userClasses[0] || "";
+
+  useEffect(() => {
+    if (!practiceClass) return;
+    setLoading(true);
+    setAnswering(null);
+    setScoring(null);
+    Promise.all([getFreeResponseQuestions(practiceClass), freeResponseApi.getResponses()])
+      .then(([classQuestions, ownResponses]) => {
+        setQuestions(classQuestions);
+        setResponses(ownResponses);
+      })
+      .catch((error) => {
+        console.error("Failed to load free-response questions:", error);
+        setQuestions([]);
+        setResponses([]);
+      })
+      .finally(() => setLoading(false));
+  }, [practiceClass]);
+
+  if (userClasses.length === 0 || (!loading && questions.length === 0)) return null;
+
+  const startAnswering = (question: FreeResponseQuestionRecord) => {
+    setAnswering(question);
+    setAnswers({});
+    setStartedAt(Date.now());
+  };
+
+  const handleSubmit = async () => {
+    if (!answering) return;
+    setSubmitting(true);
+    try {
+      const response = await freeResponseApi.submit({
+        questionId: answering.id,
+        answers,
+        timeSpentSeconds: (Date.now() - startedAt) / 1000,
+      });
+      setResponses((prev) => [response, ...prev]);
+      setAnswering(null);
+      setScoring(response);
+    } catch (error) {
+      console.error("Failed to submit free response:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit your answer");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleScored = (scored: FreeResponse) => {
+    setResponses((prev) => prev.map((response) => (response.id === scored.id ? scored : response)));
+    setScoring(scored);
+  };
+
+  // The newest response to each question
+  const latestResponses = new Map<string, FreeResponse>();
+  responses.forEach((response) => {
+    if (!latestResponses.has(response.questionId)) {
+      latestResponses.set(response.questionId, response);
+    }
+  });
+
+  const backButton = (
+    <Button variant="ghost" onClick={() => { setAnswering(null); setScoring(null); }}>
+      <ArrowLeft className="w-4 h-4 mr-2" />
+      All questions
+    </Button>
+  );
+
+  return (
+    <Card variant="elevated" className="border-2 border-secondary/20 shadow-lg">
+      <CardHeader className="pb-8 pt-8 px-8">
+        <CardTitle className="flex items-center gap-4 text-3xl md:text-4xl font-bold">
+          <PenLine className="w-8 h-8 text-secondary" />
+          Free Response
+        </CardTitle>
+        <CardDescription className="text-lg md:text-xl mt-3">
+          Write out multi-part answers for {practiceClass}, then score them against the rubric
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-4 pb-8 px-8">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : scoring ? (
+          <div className="space-y-6">
+            {backButton}
+            <FreeResponseSelfScore key={scoring.id} response={scoring} onScored={handleScored} />
+          </div>
+        ) : answering ? (
+          <div className="space-y-6">
+            {backButton}
+            <div className="text-xl font-medium leading-relaxed">
+              <MathText text={answering.questionText} />
+            </div>
+            <FreeResponseAnswer
+              parts={answering.parts}
+              answers={answers}
+              onChange={(partId, text) => setAnswers((prev) => ({ ...prev, [partId]: text }))}
+              disabled={submitting}
+            />
+            <Button
+              size="lg"
+              className="w-full"
+              onClick={handleSubmit}
+              disabled={submitting || Object.values(answers).every((text) => !text.trim())}
+            >
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Submit and see the rubric
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {questions.map((question) => {
+              const latest = latestResponses.get(question.id);
+              const points = latest ? getAwardedPoints(latest) : null;
+              return (
+                <div key={question.id} className="flex items-center justify-between gap-4 p-4 rounded-xl bg-muted/30">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{question.questionText}</div>
+                    <div className="text-sm text-muted-foreground flex items-center gap-2 mt-1">
+                      {question.unitName}
+                      <span>·</span>
+                      {question.parts.reduce((sum, part) => sum + part.points, 0)} points
+                      {latest && (
+                        <Badge variant={latest.gradedAt ? "default" : "outline"}>
+                          {points === null
+                            ? "Not scored"
+                            : `${latest.gradedAt ? "Graded" : "Self-scored"} ${points}/${latest.pointsPossible}`}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {latest && (
+                      <Button variant="outline" onClick={() => setScoring(latest)}>
+                        Review
+                      </Button>
+                    )}
+                    <Button variant="secondary" onClick={() => startAnswering(question)}>
+                      {latest ? "Try again" : "Answer"}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MathText } from "@/components/Latex";
+import { RubricScorer } from "@/components/RubricScorer";
+import { FreeResponse, freeResponseApi } from "@/lib/api";
+import { RubricScores } from "@/lib/freeResponse";
+import { Loader2, MessageSquare } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  response: FreeResponse;
+  onScored: (response: FreeResponse) => void;
+}
+
+// A student's answer with its rubric: they score it themselves, and see their
+// teacher's grade and feedback once there is one
+export function FreeResponseSelfScore({ response, onScored }: Props) {
+  const [scores, setScores] = useState<RubricScores>(response.selfScores || {});
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const scored = await freeResponseApi.selfScore(response.id, { scores });
+      onScored(scored);
+      toast.success(`Scored ${scored.selfPoints}/${scored.pointsPossible} points`);
+    } catch (error) {
+      console.error("Failed to save self-score:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save your score");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-lg font-medium leading-relaxed">
+          <MathText text={response.question.questionText} />
+        </div>
+        <div className="flex flex-col items-end gap-1 flex-shrink-0">
+          {response.selfPoints !== null && (
+            <Badge variant="outline">Self-score {response.selfPoints}/{response.pointsPossible}</Badge>
+          )}
+          {response.teacherPoints !== null && (
+            <Badge>Teacher grade {response.teacherPoints}/{response.pointsPossible}</Badge>
+          )}
+        </div>
+      </div>
+
+      <RubricScorer parts={response.question.parts} answers={response.answers} scores={scores} onChange={setScores} />
+
+      {response.feedback && (
+        <div className="p-3 rounded-lg border bg-primary/5 text-sm flex gap-2">
+          <MessageSquare className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+          <div className="whitespace-pre-wrap">{response.feedback}</div>
+        </div>
+      )}
+      {response.question.explanation && (
+        <div className="p-3 rounded-lg bg-muted/50 text-sm">
+          <div className="text-xs font-medium text-muted-foreground mb-1">Explanation</div>
+          <MathText text={response.question.explanation} />
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {response.selfPoints === null ? "Save my score" : "Update my score"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ItemStats, questionApi } from "@/lib/api";
+import { QUESTION_TYPE_LABELS } from "@/lib/itemTypes";
+import { AlertTriangle, BarChart3, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  apClassName: string;
+}
+
+const FLAG_LABELS: Record<ItemStats["flags"][number], string> = {
+  distractor_chosen_more_than_key: "Check the key",
+  negative_discrimination: "Negative discrimination",
+};
+
+const FLAG_DESCRIPTIONS: Record<ItemStats["flags"][number], string> = {
+  distractor_chosen_more_than_key: "A wrong option is chosen more often than the keyed answer, so the question may be mis-keyed",
+  negative_discrimination: "Students who do well elsewhere get this question wrong more often",
+};
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+// Flagged questions first, then the most answered
+function compareItems(a: ItemStats, b: ItemStats): number {
+  return b.flags.length - a.flags.length || b.responses - a.responses;
+}
+
+export function ItemAnalysis({ apClassName }: Props) {
+  const [items, setItems] = useState<ItemStats[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  useEffect(() => {
+    if (!apClassName) return;
+    setLoading(true);
+    questionApi
+      .getItemStats({ apClass: apClassName })
+      .then(setItems)
+      .catch((error) => {
+        console.error("Failed to load item analysis:", error);
+        toast.error("Failed to load item analysis");
+        setItems([]);
+      })
+      .finally(() => setLoading(false));
+  }, [apClassName]);
+
+  const flaggedCount = items.filter((item) => item.flags.length > 0).length;
+  const visible = items
+    .filter((item) => item.responses > 0 && (!flaggedOnly || item.flags.length > 0))
+    .sort(compareItems);
+
+  return (
+    <>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="w-5 h-5 text-primary" />
+              Item Analysis
+            </CardTitle>
+            <CardDescription>
+              How students answer each {apClassName} question, from their first attempt.
+              {flaggedCount > 0 && ` ${flaggedCount} question${flaggedCount === 1 ? " needs" : "s need"} a look.`}
+            </CardDescription>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground whitespace-nowrap">
+            <Switch checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+            Flagged only
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {flaggedOnly ? "No questions are flagged." : "No questions have been answered yet."}
+          </p>
+        ) : (
+          <div className="rounded-xl border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead className="text-right">Answers</TableHead>
+                  <TableHead className="text-right" title="Share of students answering correctly, or mean credit for partial-credit questions">Difficulty (p)</TableHead>
+                  <TableHead className="text-right" title="Point-biserial correlation with the rest of the class's questions">Discrimination</TableHead>
+                  <TableHead className="text-right">Median time</TableHead>
+                  <TableHead>Options chosen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((item) => (
+                  <TableRow key={item.questionId}>
+                    <TableCell className="max-w-sm">
+                      <div className="truncate font-medium" title={item.questionText}>{item.questionText}</div>
+                      <div className="text-xs text-muted-foreground">{item.unitName}</div>
+                      {item.flags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {item.flags.map((flag) => (
+                            <Badge key={flag} variant="destructive" className="gap-1" title={FLAG_DESCRIPTIONS[flag]}>
+                              <AlertTriangle className="w-3 h-3" />
+                              {FLAG_LABELS[flag]}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{item.responses}</TableCell>
+                    <TableCell className="text-right">{formatPercent(item.pValue)}</TableCell>
+                    <TableCell className={`text-right ${item.pointBiserial !== null && item.pointBiserial < 0 ? "text-destructive" : ""}`}>
+                      {item.pointBiserial === null ? "—" : item.pointBiserial.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.medianTimeSeconds === null ? "—" : `${Math.round(item.medianTimeSeconds)}s`}
+                    </TableCell>
+                    <TableCell>
+                      {/* Only multiple-choice answers are a single option */}
+                      {item.options.length === 0 && (
+                        <span className="text-xs text-muted-foreground">{QUESTION_TYPE_LABELS[item.questionType]}</span>
+                      )}
+                      <div className="flex flex-wrap gap-1">
+                        {item.options.map((option) => (
+                          <Badge key={option.optionId} variant={option.isKey ? "default" : "outline"}>
+                            {option.optionId.toUpperCase()} {formatPercent(option.rate)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </>
+  );
+}
@@ -0,0 +1,194 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MathText } from "@/components/Latex";
+import {
+  getInitialAnswer,
+  getKeyAnswer,
+  gradeItem,
+  ItemAnswer,
+  MatchingKey,
+  NumericKey,
+  ObjectiveItem,
+  QUESTION_TYPE_LABELS,
+} from "@/lib/itemTypes";
+import { ArrowDown, ArrowUp, CheckCircle, XCircle } from "lucide-react";
+
+interface Props {
+  item: ObjectiveItem;
+  answer: ItemAnswer;
+  onChange: (answer: ItemAnswer) => void;
+  disabled?: boolean;
+  // Mark the answer against the key once it is graded
+  showKey?: boolean;
+}
+
+// Answer input for multi-select, numeric, ordering and matching items. Multiple-choice
+// questions keep their own option buttons in the quiz and AP test.
+export function ObjectiveItemInput({ item, answer, onChange, disabled = false, showKey = false }: Props) {
+  const key = showKey && item.answerKey ? getKeyAnswer(item.type, item.answerKey) : null;
+  const optionContent = (optionId: string) => item.options.find(option => option.id === optionId)?.content ?? optionId;
+
+  const mark = (isRight: boolean) => isRight
+    ? <CheckCircle className="w-6 h-6 text-success flex-shrink-0" />
+    : <XCircle className="w-6 h-6 text-destructive flex-shrink-0" />;
+
+  const optionLabel = (optionId: string, tone: string, size = "w-12 h-12 text-lg") => (
+    <span className={`${size} rounded-xl flex items-center justify-center font-extrabold flex-shrink-0 ${tone}`}>
+      {optionId}
+    </span>
+  );
+
+  const renderInput = () => {
+    switch (item.type) {
+      case "multi_select": {
+        const selected = Array.isArray(answer) ? answer : [];
+        const correct = Array.isArray(key) ? key : null;
+        const toggle = (optionId: string) => {
+          onChange(selected.includes(optionId) ? selected.filter(id => id !== optionId) : [...selected, optionId]);
+        };
+        return item.options.map((option) => {
+          const isSelected = selected.includes(option.id);
+          const isKey = correct?.includes(option.id) ?? false;
+          const tone = correct
+            ? isKey ? "border-success bg-success/10" : isSelected ? "border-destructive bg-destructive/10" : "border-border bg-card"
+            : isSelected ? "border-secondary bg-secondary/15 ring-2 ring-secondary/20" : "border-border bg-card hover:border-secondary/50";
+          return (
+            <label
+              key={option.id}
+              className={`w-full p-5 rounded-2xl border-2 flex items-center gap-4 transition-all ${tone} ${disabled ? "" : "cursor-pointer"}`}
+            >
+              <Checkbox checked={isSelected} onCheckedChange={() => toggle(option.id)} disabled={disabled} className="h-6 w-6" />
+              {optionLabel(option.id, isSelected ? "bg-secondary text-secondary-foreground" : "bg-muted text-muted-foreground")}
+              <div className="flex-1 font-medium text-lg md:text-xl leading-relaxed">
+                <MathText text={option.content} />
+              </div>
+              {correct && (isSelected || isKey) && mark(isSelected === isKey)}
+            </label>
+          );
+        });
+      }
+
+      case "numeric": {
+        const numericKey = key !== null ? (item.answerKey as NumericKey) : null;
+        const units = item.format?.units ?? numericKey?.units;
+        return (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <Input
+                inputMode="decimal"
+                value={answer === null ? "" : String(answer)}
+                onChange={(e) => onChange(e.target.value === "" ? null : e.target.value)}
+                disabled={disabled}
+                placeholder="Your answer"
+                className="h-14 text-xl max-w-xs"
+              />
+              {units && <span className="text-xl font-medium"><MathText text={`$${units}$`} /></span>}
+              {numericKey && mark(gradeItem("numeric", numericKey, answer) === 1)}
+            </div>
+            {numericKey && (
+              <div className="text-base text-muted-foreground">
+                Accepted: {numericKey.value}
+                {numericKey.tolerance > 0 && ` ± ${numericKey.tolerance}`}
+                {units && ` ${units}`}
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case "ordering": {
+        const order = Array.isArray(answer) ? answer : (getInitialAnswer(item) as string[]);
+        const correct = Array.isArray(key) ? key : null;
+        const move = (index: number, offset: number) => {
+          const next = [...order];
+          [next[index], next[index + offset]] = [next[index + offset], next[index]];
+          onChange(next);
+        };
+        return (
+          <div className="space-y-3">
+            {order.map((optionId, index) => (
+              <div key={optionId} className="w-full p-4 rounded-2xl border-2 border-border bg-card flex items-center gap-4">
+                <span className="w-8 text-center font-bold text-muted-foreground">{index + 1}.</span>
+                <div className="flex-1 font-medium text-lg md:text-xl leading-relaxed">
+                  <MathText text={optionContent(optionId)} />
+                </div>
+                {correct ? mark(correct[index] === optionId) : (
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button type="button" variant="outline" size="sm" onClick={() => move(index, -1)} disabled={disabled || index === 0} title="Move up">
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => move(index, 1)} disabled={disabled || index === order.length - 1} title="Move down">
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+            {correct && (
+              <div className="text-base text-muted-foreground">
+                Correct order: {correct.map((optionId, index) => `${index + 1}. ${optionContent(optionId)}`).join("   ")}
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case "matching": {
+        const prompts = item.format?.prompts ?? (item.answerKey as MatchingKey | null | undefined)?.prompts ?? [];
+        const matches = answer && typeof answer === "object" && !Array.isArray(answer) ? answer : {};
+        const correct = key && typeof key === "object" && !Array.isArray(key) ? key : null;
+        return (
+          <div className="space-y-3">
+            {prompts.map((prompt) => (
+              <div key={prompt.id} className="w-full p-4 rounded-2xl border-2 border-border bg-card flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1 font-medium text-lg md:text-xl leading-relaxed">
+                  <MathText text={prompt.content} />
+                </div>
+                <div className="flex items-center gap-3">
+                  <Select
+                    value={matches[prompt.id] ?? ""}
+                    onValueChange={(optionId) => onChange({ ...matches, [prompt.id]: optionId })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="h-12 w-64">
+                      <SelectValue placeholder="Choose a match" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {item.options.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.id}. {option.content}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {correct && mark(matches[prompt.id] === correct[prompt.id])}
+                </div>
+                {correct && matches[prompt.id] !== correct[prompt.id] && (
+                  <div className="text-sm text-muted-foreground">Answer: {correct[prompt.id]}</div>
+                )}
+              </div>
+            ))}
+            {/* Options are listed once so their LaTeX renders; the selects only show their ids and text */}
+            <div className="grid md:grid-cols-2 gap-2 pt-2">
+              {item.options.map((option) => (
+                <div key={option.id} className="flex items-start gap-3 p-3 rounded-lg bg-muted/40">
+                  {optionLabel(option.id, "bg-muted text-muted-foreground", "w-9 h-9 text-base")}
+                  <div className="flex-1 pt-1"><MathText text={option.content} /></div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm font-medium text-muted-foreground uppercase tracking-wide">{QUESTION_TYPE_LABELS[item.type]}</div>
+      {renderInput()}
+    </div>
+  );
+}
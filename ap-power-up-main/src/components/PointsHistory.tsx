@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getPointsHistory } from "@/lib/database";
+import { PointsHistoryEntry } from "@/lib/api";
+import { formatPointsBreakdown, formatSessionBreakdown } from "@/lib/scoring";
+import { History, Loader2 } from "lucide-react";
+
+interface Props {
+  userId: string;
+  userClasses: string[];
+}
+
+const SOURCE_LABELS: Record<PointsHistoryEntry["source"], string> = {
+  attempt: "Question answered",
+  session_bonus: "Quiz accuracy bonus",
+  decay: "Leaderboard decay",
+  adjustment: "Adjusted by your teacher",
+  opening_balance: "Points from before history was kept",
+  legacy: "Earlier points",
+};
+
+// How an entry's points were worked out, from its scoring breakdown or note
+function describeEntry(entry: PointsHistoryEntry): string | null {
+  if (entry.details?.question) return formatPointsBreakdown(entry.details.question);
+  if (entry.details?.session) return formatSessionBreakdown(entry.details.session);
+  return entry.note;
+}
+
+export function PointsHistory({ userId, userClasses }: Props) {
+  const [selectedClass, setSelectedClass] = useState(userClasses[0] || "");
+  const [entries, setEntries] = useState<PointsHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!selectedClass) return;
+    setLoading(true);
+    getPointsHistory(userId, selectedClass)
+      .then(setEntries)
+      .finally(() => setLoading(false));
+  }, [userId, selectedClass]);
+
+  if (userClasses.length === 0) return null;
+
+  return (
+    <Card variant="elevated">
+      <CardHeader className="pb-5 px-8 pt-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-3 text-[30px] md:text-[37.5px] font-bold">
+              <History className="w-8 h-8 text-secondary" />
+              Points History
+            </CardTitle>
+            <CardDescription className="text-[20px] md:text-[22.5px] mt-2">How your score was earned, newest first</CardDescription>
+          </div>
+          {userClasses.length > 1 && (
+            <Select value={selectedClass} onValueChange={setSelectedClass}>
+              <SelectTrigger className="w-full md:w-72 h-14 text-[20px]">
+                <SelectValue placeholder="Select class" />
+              </SelectTrigger>
+              <SelectContent>
+                {userClasses.map((className) => (
+                  <SelectItem key={className} value={className} className="text-[20px]">
+                    {className}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="px-8 pb-8">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-muted-foreground text-[20px] py-8">No points earned in {selectedClass} yet</p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => {
+              const breakdown = describeEntry(entry);
+              const streakMultiplier = entry.details?.award?.streakMultiplier ?? 1;
+
+              return (
+                <div key={entry.id} className="flex items-center gap-4 p-4 rounded-xl bg-muted/50">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold text-[20px]">{SOURCE_LABELS[entry.source]}</div>
+                    {breakdown && <div className="text-[17.5px] text-muted-foreground truncate">{breakdown}</div>}
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      <span className="text-[15px] text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</span>
+                      {entry.source === "attempt" && streakMultiplier > 1 && (
+                        <Badge variant="outline">× {streakMultiplier.toFixed(2)} streak</Badge>
+                      )}
+                      {entry.source === "attempt" && entry.details?.award?.dailyCapApplied && (
+                        <Badge variant="outline">Daily cap reached</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <span className={`font-bold text-[22.5px] ${entry.points < 0 ? "text-destructive" : "text-success"}`}>
+                    {entry.points > 0 ? "+" : ""}{entry.points}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
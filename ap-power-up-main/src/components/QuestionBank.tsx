@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QuestionEditor } from "./QuestionEditor";
+import { QuestionHistory } from "./QuestionHistory";
+import { QuestionImport } from "./QuestionImport";
+import { Question, Unit } from "@/lib/questionData";
+import { loadClassData } from "@/lib/jsonLoader";
+import { QuestionDraft, questionToDraft, isEditableQuestion } from "@/lib/questionAuthoring";
+import { FileText, History, Loader2, Pencil, Plus, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  apClassName: string;
+  refreshKey?: number;
+}
+
+interface BankEntry {
+  question: Question;
+  unitName: string;
+  subtopicName: string | null;
+}
+
+const ALL_UNITS = "all";
+
+export function QuestionBank({ apClassName, refreshKey }: Props) {
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [unitFilter, setUnitFilter] = useState(ALL_UNITS);
+  const [search, setSearch] = useState("");
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingDraft, setEditingDraft] = useState<QuestionDraft | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+
+  useEffect(() => {
+    setUnitFilter(ALL_UNITS);
+  }, [apClassName]);
+
+  useEffect(() => {
+    if (!apClassName) return;
+    setLoading(true);
+    loadClassData(apClassName)
+      .then((classData) => setUnits(classData?.units || []))
+      .finally(() => setLoading(false));
+  }, [apClassName, refreshKey, reloadKey]);
+
+  const refreshQuestions = () => setReloadKey(key => key + 1);
+
+  const entries: BankEntry[] = units
+    .filter(unit => unitFilter === ALL_UNITS || unit.unitName === unitFilter)
+    .flatMap(unit => unit.subtopics.flatMap(subtopic => subtopic.questions.map(question => ({
+      question,
+      unitName: unit.unitName,
+      // Questions without a subtopic are grouped under "General" by the loader
+      subtopicName: subtopic.subtopicName === "General" ? null : subtopic.subtopicName,
+    }))))
+    .filter(entry => !search.trim() || entry.question.questionText.toLowerCase().includes(search.trim().toLowerCase()));
+
+  const ensureEditable = (question: Question) => {
+    if (isEditableQuestion(question.id)) return true;
+    toast.error("This question comes from the bundled question bank", {
+      description: "Import the class's questions into the database to edit them.",
+    });
+    return false;
+  };
+
+  const openNew = () => {
+    setEditingId(null);
+    setEditingDraft(null);
+    setEditorOpen(true);
+  };
+
+  const openEdit = (entry: BankEntry) => {
+    if (!ensureEditable(entry.question)) return;
+    setEditingId(entry.question.id);
+    setEditingDraft(questionToDraft(entry.question, entry.unitName, entry.subtopicName));
+    setEditorOpen(true);
+  };
+
+  const openHistory = (entry: BankEntry) => {
+    if (!ensureEditable(entry.question)) return;
+    setHistoryId(entry.question.id);
+  };
+
+  return (
+    <>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5 text-primary" />
+              Question Bank
+            </CardTitle>
+            <CardDescription>Edit {apClassName} questions. Every save is kept as a revision.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            <Button variant="teacher" size="sm" onClick={openNew}>
+              <Plus className="w-4 h-4 mr-1" />
+              New Question
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-3">
+          <Select value={unitFilter} onValueChange={setUnitFilter}>
+            <SelectTrigger className="h-10 md:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_UNITS}>All units</SelectItem>
+              {units.map((unit) => (
+                <SelectItem key={unit.unitName} value={unit.unitName}>{unit.unitName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Search questions..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-10"
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading questions...
+          </div>
+        ) : entries.length > 0 ? (
+          <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2">
+            {entries.map((entry) => (
+              <div key={entry.question.id} className="flex items-center gap-4 p-4 rounded-xl bg-muted/30">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium line-clamp-2">{entry.question.questionText}</div>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1 flex-wrap">
+                    <span>{entry.unitName}{entry.subtopicName ? ` • ${entry.subtopicName}` : ""}</span>
+                    {entry.question.metadata?.difficulty && (
+                      <Badge variant="outline">{entry.question.metadata.difficulty}</Badge>
+                    )}
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => openEdit(entry)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => openHistory(entry)}>
+                  <History className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>No questions found.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <QuestionEditor
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        apClassName={apClassName}
+        questionId={editingId}
+        initialDraft={editingDraft}
+        onSaved={refreshQuestions}
+      />
+      <QuestionHistory
+        open={historyId !== null}
+        onOpenChange={(open) => !open && setHistoryId(null)}
+        questionId={historyId}
+        onRolledBack={refreshQuestions}
+      />
+      <QuestionImport open={importOpen} onOpenChange={setImportOpen} onImported={refreshQuestions} />
+    </>
+  );
+}
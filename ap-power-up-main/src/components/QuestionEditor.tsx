@@ -0,0 +1,726 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MathText } from "@/components/Latex";
+import { StimulusRenderer } from "@/components/StimulusRenderer";
+import { ObjectiveItemInput } from "@/components/ObjectiveItemInput";
+import { StimulusItem, QuestionMetadata, GraphStimulus } from "@/lib/questionData";
+import { loadClassData } from "@/lib/jsonLoader";
+import { getKeyAnswer, MatchingKey, MultiSelectKey, NumericKey, QUESTION_TYPE_LABELS } from "@/lib/itemTypes";
+import {
+  QuestionDraft,
+  ObjectiveQuestionType,
+  DIFFICULTIES,
+  COGNITIVE_LEVELS,
+  MIN_OPTIONS,
+  MAX_OPTIONS,
+  createAnswerKey,
+  createEmptyDraft,
+  getDraftAnswerKey,
+  getOptionId,
+  validateDraft,
+  saveQuestionDraft,
+} from "@/lib/questionAuthoring";
+import { ArrowUp, Check, Plus, Trash2, Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  apClassName: string;
+  questionId?: string | null; // Editing an existing question when set
+  initialDraft?: QuestionDraft | null;
+  onSaved?: () => void;
+}
+
+// Tables and graphs are edited as text so half-typed rows are not lost
+interface StimulusForm {
+  type: StimulusItem["type"];
+  label: string;
+  content: string;
+  columnsText: string;
+  rowsText: string;
+  graphType: GraphStimulus["graphType"];
+  xLabel: string;
+  yLabel: string;
+  dataText: string;
+}
+
+const GENERAL_SUBTOPIC = "General";
+
+const QUESTION_TYPES: ObjectiveQuestionType[] = ["multiple_choice", "multi_select", "numeric", "ordering", "matching"];
+
+const OPTIONS_HINTS: Record<ObjectiveQuestionType, string> = {
+  multiple_choice: "click a letter to mark it correct",
+  multi_select: "click letters to mark every correct option",
+  numeric: "",
+  ordering: "in the correct order; students see them shuffled",
+  matching: "the choices each prompt is matched to",
+};
+
+function splitCells(line: string): string[] {
+  return line.split("|").map(cell => cell.trim());
+}
+
+function toStimulusForm(item: StimulusItem): StimulusForm {
+  const base: StimulusForm = {
+    type: item.type,
+    label: item.label,
+    content: "",
+    columnsText: "",
+    rowsText: "",
+    graphType: "line",
+    xLabel: "",
+    yLabel: "",
+    dataText: "",
+  };
+  if (item.type === "text") return { ...base, content: item.content };
+  if (item.type === "table") {
+    return {
+      ...base,
+      columnsText: item.columns.join(" | "),
+      rowsText: item.rows.map(row => row.join(" | ")).join("\n"),
+    };
+  }
+  return {
+    ...base,
+    graphType: item.graphType,
+    xLabel: item.xLabel,
+    yLabel: item.yLabel,
+    dataText: item.data.map(point => `${point.x}, ${point.y}`).join("\n"),
+  };
+}
+
+function toStimulusItem(form: StimulusForm): StimulusItem {
+  if (form.type === "text") {
+    return { type: "text", label: form.label, content: form.content };
+  }
+  if (form.type === "table") {
+    const lines = form.rowsText.split("\n").filter(line => line.trim());
+    return {
+      type: "table",
+      label: form.label,
+      columns: splitCells(form.columnsText),
+      rows: lines.map(line => splitCells(line).map(cell => (cell !== "" && !Number.isNaN(Number(cell)) ? Number(cell) : cell))),
+    };
+  }
+  const points = form.dataText.split("\n").filter(line => line.trim());
+  return {
+    type: "graph",
+    label: form.label,
+    graphType: form.graphType,
+    xLabel: form.xLabel,
+    yLabel: form.yLabel,
+    data: points.map(line => {
+      const [x, y] = line.split(",").map(value => parseFloat(value));
+      return { x, y };
+    }),
+  };
+}
+
+export function QuestionEditor({ open, onOpenChange, apClassName, questionId, initialDraft, onSaved }: Props) {
+  const [draft, setDraft] = useState<QuestionDraft>(() => initialDraft || createEmptyDraft("", null));
+  const [stimulusForms, setStimulusForms] = useState<StimulusForm[]>([]);
+  const [skillTagsText, setSkillTagsText] = useState("");
+  const [mistakesText, setMistakesText] = useState("");
+  const [changeNote, setChangeNote] = useState("");
+  const [unitSubtopics, setUnitSubtopics] = useState<Record<string, string[]>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form whenever the dialog opens for a different question
+  useEffect(() => {
+    if (!open) return;
+    const next = initialDraft || createEmptyDraft("", null);
+    setDraft(next);
+    setStimulusForms(next.stimulus.map(toStimulusForm));
+    setSkillTagsText(next.skillTags.join(", "));
+    setMistakesText(next.commonMistakePatterns.join("\n"));
+    setChangeNote("");
+  }, [open, initialDraft]);
+
+  useEffect(() => {
+    if (!open || !apClassName) return;
+    loadClassData(apClassName).then((classData) => {
+      const subtopicsByUnit: Record<string, string[]> = {};
+      classData?.units.forEach(unit => {
+        subtopicsByUnit[unit.unitName] = unit.subtopics.map(s => s.subtopicName);
+      });
+      setUnitSubtopics(subtopicsByUnit);
+    });
+  }, [open, apClassName]);
+
+  const update = (changes: Partial<QuestionDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  // Build the draft that will actually be saved from the free-text fields
+  const buildDraft = (): QuestionDraft => ({
+    ...draft,
+    skillTags: skillTagsText.split(",").map(tag => tag.trim()).filter(Boolean),
+    commonMistakePatterns: mistakesText.split("\n").map(line => line.trim()).filter(Boolean),
+    stimulus: stimulusForms.map(toStimulusItem),
+  });
+
+  const setOptionContent = (index: number, content: string) => {
+    update({ options: draft.options.map((option, i) => (i === index ? { ...option, content } : option)) });
+  };
+
+  const changeType = (questionType: ObjectiveQuestionType) => {
+    update({
+      questionType,
+      answerKey: createAnswerKey(questionType),
+      correctAnswerId: "",
+      // Numeric questions are saved without options; bring blank ones back when switching away
+      options: draft.options.length >= MIN_OPTIONS
+        ? draft.options
+        : [0, 1, 2, 3].map(index => ({ id: getOptionId(index), content: "" })),
+    });
+  };
+
+  const multiSelectKey = draft.questionType === "multi_select" ? (draft.answerKey as MultiSelectKey) : null;
+  const numericKey = draft.questionType === "numeric" ? (draft.answerKey as NumericKey) : null;
+  const matchingKey = draft.questionType === "matching" ? (draft.answerKey as MatchingKey) : null;
+
+  const isKeyOption = (optionId: string) => multiSelectKey
+    ? multiSelectKey.correctOptionIds.includes(optionId)
+    : draft.questionType === "multiple_choice" && draft.correctAnswerId === optionId;
+
+  const toggleKeyOption = (optionId: string) => {
+    if (multiSelectKey) {
+      const { correctOptionIds } = multiSelectKey;
+      update({
+        answerKey: {
+          correctOptionIds: correctOptionIds.includes(optionId)
+            ? correctOptionIds.filter(id => id !== optionId)
+            : [...correctOptionIds, optionId].sort(),
+        },
+      });
+    } else if (draft.questionType === "multiple_choice") {
+      update({ correctAnswerId: optionId });
+    }
+  };
+
+  // Ordering keys follow the option order, so moving an option moves its text
+  const moveOptionUp = (index: number) => {
+    const options = draft.options.map(option => ({ ...option }));
+    [options[index - 1].content, options[index].content] = [options[index].content, options[index - 1].content];
+    update({ options });
+  };
+
+  const updateNumericKey = (changes: Partial<NumericKey>) => {
+    update({ answerKey: { ...numericKey!, ...changes } });
+  };
+
+  const updateMatchingKey = (changes: Partial<MatchingKey>) => {
+    update({ answerKey: { ...matchingKey!, ...changes } });
+  };
+
+  const addPrompt = () => {
+    const ids = matchingKey!.prompts.map(prompt => Number(prompt.id.slice(1)) || 0);
+    updateMatchingKey({ prompts: [...matchingKey!.prompts, { id: `p${Math.max(0, ...ids) + 1}`, content: "" }] });
+  };
+
+  const removePrompt = (promptId: string) => {
+    const matches = { ...matchingKey!.matches };
+    delete matches[promptId];
+    updateMatchingKey({ prompts: matchingKey!.prompts.filter(prompt => prompt.id !== promptId), matches });
+  };
+
+  const addOption = () => {
+    update({ options: [...draft.options, { id: getOptionId(draft.options.length), content: "" }] });
+  };
+
+  // Re-letter the remaining options so ids stay A, B, C... in order
+  const removeOption = (index: number) => {
+    const removedId = draft.options[index].id;
+    const remaining = draft.options.filter((_, i) => i !== index);
+    const relettered = remaining.map((option, i) => ({ ...option, id: getOptionId(i) }));
+    const correctIndex = remaining.findIndex(option => option.id === draft.correctAnswerId);
+    // Keys that name options follow them to their new letters
+    const reletter = (optionId: string) => {
+      const remainingIndex = remaining.findIndex(option => option.id === optionId);
+      return remainingIndex === -1 ? null : getOptionId(remainingIndex);
+    };
+    let answerKey = draft.answerKey;
+    if (multiSelectKey) {
+      answerKey = { correctOptionIds: multiSelectKey.correctOptionIds.map(reletter).filter((id): id is string => id !== null) };
+    } else if (matchingKey) {
+      const matches: Record<string, string> = {};
+      Object.entries(matchingKey.matches).forEach(([promptId, optionId]) => {
+        const newId = reletter(optionId);
+        if (newId) matches[promptId] = newId;
+      });
+      answerKey = { ...matchingKey, matches };
+    }
+    update({
+      options: relettered,
+      correctAnswerId: removedId === draft.correctAnswerId || correctIndex === -1 ? "" : getOptionId(correctIndex),
+      answerKey,
+    });
+  };
+
+  const updateStimulus = (index: number, changes: Partial<StimulusForm>) => {
+    setStimulusForms(prev => prev.map((form, i) => (i === index ? { ...form, ...changes } : form)));
+  };
+
+  const addStimulus = () => {
+    setStimulusForms(prev => [...prev, toStimulusForm({ type: "text", label: "", content: "" })]);
+  };
+
+  const handleSave = async () => {
+    const finalDraft = buildDraft();
+    const error = validateDraft(finalDraft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveQuestionDraft(finalDraft, apClassName, questionId || undefined, changeNote);
+      toast.success(questionId ? "Question updated - new revision saved" : "Question created");
+      onOpenChange(false);
+      onSaved?.();
+    } catch (err) {
+      console.error("Failed to save question:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to save question");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const subtopics = unitSubtopics[draft.unitName] || [];
+  const previewStimulus = stimulusForms.map(toStimulusItem);
+  // Keyed items preview with the key marked, in the editor's option order
+  const previewItem = draft.questionType !== "multiple_choice" ? {
+    type: draft.questionType,
+    options: numericKey ? [] : draft.options.map(option => ({ ...option, content: option.content || `Option ${option.id}` })),
+    answerKey: getDraftAnswerKey(draft)!,
+  } : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{questionId ? "Edit Question" : "New Question"}</DialogTitle>
+          <DialogDescription>
+            {apClassName} • Use $...$ for inline math and $$...$$ for display math
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* Form */}
+          <div className="space-y-5">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Unit</Label>
+                <Select value={draft.unitName} onValueChange={(unitName) => update({ unitName, subtopicName: null })}>
+                  <SelectTrigger className="h-10">
+                    <SelectValue placeholder="Choose a unit" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(unitSubtopics).map((unitName) => (
+                      <SelectItem key={unitName} value={unitName}>{unitName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Subtopic</Label>
+                <Select
+                  value={draft.subtopicName || GENERAL_SUBTOPIC}
+                  onValueChange={(value) => update({ subtopicName: value === GENERAL_SUBTOPIC ? null : value })}
+                  disabled={!draft.unitName}
+                >
+                  <SelectTrigger className="h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={GENERAL_SUBTOPIC}>{GENERAL_SUBTOPIC}</SelectItem>
+                    {subtopics.filter(s => s !== GENERAL_SUBTOPIC).map((subtopicName) => (
+                      <SelectItem key={subtopicName} value={subtopicName}>{subtopicName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Question Type</Label>
+              <Select value={draft.questionType} onValueChange={(v) => changeType(v as ObjectiveQuestionType)}>
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUESTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Question</Label>
+              <Textarea
+                rows={4}
+                placeholder="Enter your question..."
+                value={draft.questionText}
+                onChange={(e) => update({ questionText: e.target.value })}
+              />
+            </div>
+
+            {numericKey && (
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Answer</Label>
+                  <Input
+                    type="number"
+                    value={Number.isNaN(numericKey.value) ? "" : numericKey.value}
+                    onChange={(e) => updateNumericKey({ value: e.target.value === "" ? NaN : Number(e.target.value) })}
+                    className="h-10"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Tolerance (±)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={numericKey.tolerance}
+                    onChange={(e) => updateNumericKey({ tolerance: Number(e.target.value) || 0 })}
+                    className="h-10"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Units (optional)</Label>
+                  <Input
+                    placeholder="e.g., m/s^2"
+                    value={numericKey.units ?? ""}
+                    onChange={(e) => updateNumericKey({ units: e.target.value || null })}
+                    className="h-10"
+                  />
+                </div>
+              </div>
+            )}
+
+            {!numericKey && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Answer Options ({OPTIONS_HINTS[draft.questionType]})</Label>
+                {draft.options.map((option, index) => (
+                  <div key={option.id} className="flex items-center gap-2">
+                    {draft.questionType === "ordering" ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveOptionUp(index)}
+                        disabled={index === 0}
+                        title="Move up"
+                        className="shrink-0"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => toggleKeyOption(option.id)}
+                        disabled={draft.questionType === "matching"}
+                        className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-medium transition-all shrink-0
+                          ${isKeyOption(option.id)
+                            ? 'bg-success text-success-foreground'
+                            : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                          }`}
+                      >
+                        {isKeyOption(option.id) ? <Check className="w-4 h-4" /> : option.id}
+                      </button>
+                    )}
+                    <Input
+                      placeholder={`Option ${option.id}`}
+                      value={option.content}
+                      onChange={(e) => setOptionContent(index, e.target.value)}
+                      className="h-9 text-sm"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeOption(index)}
+                      disabled={draft.options.length <= MIN_OPTIONS}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={addOption} disabled={draft.options.length >= MAX_OPTIONS}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add option
+                </Button>
+              </div>
+            )}
+
+            {matchingKey && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Prompts (match each to an option)</Label>
+                {matchingKey.prompts.map((prompt, index) => (
+                  <div key={prompt.id} className="flex items-center gap-2">
+                    <Input
+                      placeholder={`Prompt ${index + 1}`}
+                      value={prompt.content}
+                      onChange={(e) => updateMatchingKey({
+                        prompts: matchingKey.prompts.map(p => (p.id === prompt.id ? { ...p, content: e.target.value } : p)),
+                      })}
+                      className="h-9 text-sm"
+                    />
+                    <Select
+                      value={matchingKey.matches[prompt.id] ?? ""}
+                      onValueChange={(optionId) => updateMatchingKey({ matches: { ...matchingKey.matches, [prompt.id]: optionId } })}
+                    >
+                      <SelectTrigger className="h-9 w-24 shrink-0">
+                        <SelectValue placeholder="Match" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {draft.options.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>{option.id}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removePrompt(prompt.id)}
+                      disabled={matchingKey.prompts.length <= 2}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={addPrompt}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add prompt
+                </Button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Difficulty</Label>
+                <Select value={draft.difficulty} onValueChange={(v) => update({ difficulty: v as QuestionMetadata["difficulty"] })}>
+                  <SelectTrigger className="h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DIFFICULTIES.map((difficulty) => (
+                      <SelectItem key={difficulty} value={difficulty}>{difficulty}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Cognitive Level</Label>
+                <Select value={draft.cognitiveLevel} onValueChange={(v) => update({ cognitiveLevel: v as QuestionMetadata["cognitiveLevel"] })}>
+                  <SelectTrigger className="h-10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COGNITIVE_LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Skill Tags (comma separated)</Label>
+              <Input
+                placeholder="e.g., chain_rule, derivatives"
+                value={skillTagsText}
+                onChange={(e) => setSkillTagsText(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Explanation</Label>
+              <Textarea
+                rows={3}
+                placeholder="Why the correct answer is correct..."
+                value={draft.explanation}
+                onChange={(e) => update({ explanation: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Common Mistakes (one per line)</Label>
+              <Textarea
+                rows={3}
+                value={mistakesText}
+                onChange={(e) => setMistakesText(e.target.value)}
+              />
+            </div>
+
+            {/* Stimulus */}
+            <div className="space-y-3">
+              <Label className="text-xs text-muted-foreground">Stimulus</Label>
+              {stimulusForms.map((form, index) => (
+                <div key={index} className="space-y-2 p-3 rounded-xl border">
+                  <div className="flex gap-2">
+                    <Select
+                      value={form.type}
+                      onValueChange={(type) => updateStimulus(index, { type: type as StimulusForm["type"] })}
+                    >
+                      <SelectTrigger className="h-9 w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="text">Text</SelectItem>
+                        <SelectItem value="table">Table</SelectItem>
+                        <SelectItem value="graph">Graph</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Label"
+                      value={form.label}
+                      onChange={(e) => updateStimulus(index, { label: e.target.value })}
+                      className="h-9"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setStimulusForms(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  {form.type === "text" && (
+                    <Textarea
+                      rows={3}
+                      placeholder="Passage text"
+                      value={form.content}
+                      onChange={(e) => updateStimulus(index, { content: e.target.value })}
+                    />
+                  )}
+
+                  {form.type === "table" && (
+                    <>
+                      <Input
+                        placeholder="Columns, separated by |"
+                        value={form.columnsText}
+                        onChange={(e) => updateStimulus(index, { columnsText: e.target.value })}
+                        className="h-9"
+                      />
+                      <Textarea
+                        rows={4}
+                        placeholder={"One row per line, cells separated by |"}
+                        value={form.rowsText}
+                        onChange={(e) => updateStimulus(index, { rowsText: e.target.value })}
+                      />
+                    </>
+                  )}
+
+                  {form.type === "graph" && (
+                    <>
+                      <div className="grid grid-cols-3 gap-2">
+                        <Select
+                          value={form.graphType}
+                          onValueChange={(graphType) => updateStimulus(index, { graphType: graphType as StimulusForm["graphType"] })}
+                        >
+                          <SelectTrigger className="h-9">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="line">Line</SelectItem>
+                            <SelectItem value="bar">Bar</SelectItem>
+                            <SelectItem value="scatter">Scatter</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          placeholder="x-axis label"
+                          value={form.xLabel}
+                          onChange={(e) => updateStimulus(index, { xLabel: e.target.value })}
+                          className="h-9"
+                        />
+                        <Input
+                          placeholder="y-axis label"
+                          value={form.yLabel}
+                          onChange={(e) => updateStimulus(index, { yLabel: e.target.value })}
+                          className="h-9"
+                        />
+                      </div>
+                      <Textarea
+                        rows={4}
+                        placeholder={"One point per line: x, y"}
+                        value={form.dataText}
+                        onChange={(e) => updateStimulus(index, { dataText: e.target.value })}
+                      />
+                    </>
+                  )}
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={addStimulus}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add stimulus
+              </Button>
+            </div>
+
+            {questionId && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Change Note</Label>
+                <Input
+                  placeholder="What changed and why (shown in history)"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                />
+              </div>
+            )}
+
+            <Button variant="teacher" className="w-full" onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              {questionId ? "Save Revision" : "Create Question"}
+            </Button>
+          </div>
+
+          {/* Live Preview */}
+          <div className="space-y-4 lg:sticky lg:top-0 self-start">
+            <Label className="text-xs text-muted-foreground">Preview</Label>
+            <div className="rounded-xl border p-4 space-y-4 max-h-[70vh] overflow-y-auto">
+              <div className="origin-top-left scale-50 w-[200%] -mb-[50%]">
+                <StimulusRenderer stimulus={previewStimulus.length > 0 ? previewStimulus : undefined} />
+              </div>
+              <div className="text-lg font-medium">
+                <MathText text={draft.questionText || "Question text"} />
+              </div>
+              {previewItem ? (
+                <ObjectiveItemInput
+                  item={previewItem}
+                  answer={getKeyAnswer(previewItem.type, previewItem.answerKey)}
+                  onChange={() => {}}
+                  disabled
+                  showKey
+                />
+              ) : (
+                <div className="space-y-2">
+                  {draft.options.map((option) => (
+                    <div
+                      key={option.id}
+                      className={`flex items-start gap-3 p-3 rounded-lg border
+                        ${draft.correctAnswerId === option.id ? 'border-success bg-success/10' : ''}`}
+                    >
+                      <span className="font-bold">{option.id}.</span>
+                      <MathText text={option.content || `Option ${option.id}`} />
+                    </div>
+                  ))}
+                </div>
+              )}
+              {draft.explanation && (
+                <div className="p-3 rounded-lg bg-muted/50 text-sm">
+                  <div className="font-medium mb-1">Explanation</div>
+                  <MathText text={draft.explanation} />
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { QuestionRevision } from "@/lib/api";
+import { getQuestionRevisions, rollbackQuestion, snapshotToDraft, diffDrafts, diffLines } from "@/lib/questionAuthoring";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  questionId: string | null;
+  onRolledBack?: () => void;
+}
+
+export function QuestionHistory({ open, onOpenChange, questionId, onRolledBack }: Props) {
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  useEffect(() => {
+    if (!open || !questionId) return;
+    setLoading(true);
+    getQuestionRevisions(questionId)
+      .then((result) => {
+        setRevisions(result);
+        setSelectedNumber(result[0]?.revisionNumber ?? null);
+      })
+      .catch((error) => {
+        console.error("Failed to load question history:", error);
+        toast.error("Failed to load question history");
+        setRevisions([]);
+      })
+      .finally(() => setLoading(false));
+  }, [open, questionId, reloadKey]);
+
+  // Revisions come back newest first, so the previous version is the next entry
+  const selectedIndex = revisions.findIndex(r => r.revisionNumber === selectedNumber);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] : undefined;
+  const changes = selected && previous
+    ? diffDrafts(snapshotToDraft(previous.snapshot), snapshotToDraft(selected.snapshot))
+    : [];
+  const isCurrent = selectedIndex === 0;
+
+  const handleRollback = async () => {
+    if (!questionId || !selected) return;
+    setRollingBack(true);
+    try {
+      await rollbackQuestion(questionId, selected.revisionNumber);
+      toast.success(`Rolled back to revision ${selected.revisionNumber}`);
+      setReloadKey(key => key + 1);
+      onRolledBack?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to roll back question");
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Question History
+          </DialogTitle>
+          <DialogDescription>Every saved edit is kept. Rolling back adds a new revision.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading history...
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>No revisions recorded for this question.</p>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-[220px_1fr] gap-6">
+            {/* Revision List */}
+            <div className="space-y-2 max-h-[65vh] overflow-y-auto pr-2">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelectedNumber(revision.revisionNumber)}
+                  className={`w-full text-left p-3 rounded-lg transition-all
+                    ${revision.revisionNumber === selectedNumber
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted/30 hover:bg-muted/50'
+                    }`}
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    Revision {revision.revisionNumber}
+                    {index === 0 && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <div className="text-xs opacity-80">{new Date(revision.createdAt).toLocaleString()}</div>
+                  {revision.changeNote && <div className="text-xs opacity-80 truncate">{revision.changeNote}</div>}
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            {selected && (
+              <div className="space-y-4 min-w-0">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium">
+                      {previous
+                        ? `Changes from revision ${previous.revisionNumber} to ${selected.revisionNumber}`
+                        : `Revision ${selected.revisionNumber} (first version)`}
+                    </div>
+                    {selected.changeNote && (
+                      <div className="text-sm text-muted-foreground">{selected.changeNote}</div>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRollback}
+                    disabled={isCurrent || rollingBack}
+                  >
+                    {rollingBack ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-1" />}
+                    Roll back to this version
+                  </Button>
+                </div>
+
+                {!previous ? (
+                  <div className="p-3 rounded-lg bg-muted/30 text-sm whitespace-pre-wrap">
+                    {selected.snapshot.questionText}
+                  </div>
+                ) : changes.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">No content changes in this revision.</div>
+                ) : (
+                  changes.map((change) => (
+                    <div key={change.field} className="rounded-xl border overflow-hidden">
+                      <div className="px-3 py-2 bg-muted/50 text-sm font-medium">{change.label}</div>
+                      <div className="font-mono text-xs">
+                        {diffLines(change.before, change.after).map((line, index) => (
+                          <div
+                            key={index}
+                            className={`px-3 py-0.5 whitespace-pre-wrap break-words
+                              ${line.type === 'added' ? 'bg-success/15 text-success' : ''}
+                              ${line.type === 'removed' ? 'bg-destructive/15 text-destructive line-through' : ''}`}
+                          >
+                            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                            {line.text || ' '}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { QuestionImportReport } from "@/lib/api";
+import { importQuestionFile } from "@/lib/questionAuthoring";
+import { AlertTriangle, Loader2, Upload, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+export function QuestionImport({ open, onOpenChange, onImported }: Props) {
+  const [classData, setClassData] = useState<unknown>(null);
+  const [fileName, setFileName] = useState("");
+  const [report, setReport] = useState<QuestionImportReport | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const reset = () => {
+    setClassData(null);
+    setFileName("");
+    setReport(null);
+  };
+
+  const runImport = async (data: unknown, dryRun: boolean) => {
+    setRunning(true);
+    try {
+      const result = await importQuestionFile(data, dryRun);
+      setReport(result);
+      if (!dryRun) {
+        toast.success(`Imported ${result.className}`, {
+          description: `${result.summary.create} created, ${result.summary.update} updated, ${result.summary.skip} skipped`,
+        });
+        onImported?.();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import questions");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // Validate as soon as a file is picked so problems show before anything is written
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text());
+      setClassData(data);
+      setFileName(file.name);
+      await runImport(data, true);
+    } catch {
+      toast.error(`${file.name} is not valid JSON`);
+    }
+  };
+
+  const problems = report?.results.filter(r => r.errors.length > 0 || r.warnings.length > 0) || [];
+  const writeCount = report ? report.summary.create + report.summary.update : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) reset(); onOpenChange(isOpen); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-primary" />
+            Import Questions
+          </DialogTitle>
+          <DialogDescription>
+            Upload a class file in the question bank format. Questions are matched by id, so re-importing updates them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept=".json,application/json" onChange={(e) => handleFile(e.target.files?.[0])} />
+
+        {running && (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Checking {fileName}...
+          </div>
+        )}
+
+        {report && !running && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{report.className}</Badge>
+              <Badge variant="secondary">{report.summary.create} new</Badge>
+              <Badge variant="secondary">{report.summary.update} changed</Badge>
+              <Badge variant="outline">{report.summary.unchanged} unchanged</Badge>
+              {report.summary.skip > 0 && <Badge variant="destructive">{report.summary.skip} invalid</Badge>}
+              {report.summary.warnings > 0 && <Badge variant="outline">{report.summary.warnings} with warnings</Badge>}
+            </div>
+
+            {report.fileErrors.length > 0 && (
+              <div className="p-3 rounded-lg bg-destructive/10 text-sm space-y-1">
+                <div className="font-medium text-destructive">Parts of the file could not be read</div>
+                {report.fileErrors.map((error, index) => (
+                  <div key={index} className="font-mono text-xs">{error}</div>
+                ))}
+              </div>
+            )}
+
+            {problems.length > 0 && (
+              <div className="space-y-2 max-h-80 overflow-y-auto pr-2">
+                {problems.map((result, index) => (
+                  <div key={`${result.questionId}-${index}`} className="p-3 rounded-lg bg-muted/30 text-sm">
+                    <div className="font-medium">
+                      {result.questionId || "Question without id"}
+                      <span className="text-muted-foreground font-normal"> • {result.unitName}</span>
+                    </div>
+                    {result.errors.map((error, i) => (
+                      <div key={`e${i}`} className="flex items-start gap-2 text-destructive">
+                        <XCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                        {error}
+                      </div>
+                    ))}
+                    {result.warnings.map((warning, i) => (
+                      <div key={`w${i}`} className="flex items-start gap-2 text-muted-foreground">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        {warning}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.dryRun ? (
+              <Button
+                variant="teacher"
+                className="w-full"
+                onClick={() => runImport(classData, false)}
+                disabled={writeCount === 0}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {writeCount > 0
+                  ? `Import ${writeCount} question${writeCount !== 1 ? "s" : ""}${report.summary.skip > 0 ? ` (skip ${report.summary.skip} invalid)` : ""}`
+                  : "Nothing to import"}
+              </Button>
+            ) : (
+              <div className="text-center text-sm text-muted-foreground">Import finished.</div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
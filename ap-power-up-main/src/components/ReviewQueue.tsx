@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { getDueReviews } from "@/lib/database";
+import { DueReview } from "@/lib/api";
+import { RotateCcw, Loader2 } from "lucide-react";
+
+interface Props {
+  userId: string;
+  userClasses: string[];
+  selectedClass: string;
+  refreshKey?: number | string | boolean;
+  onStartReview: (apClass: string, questionIds: string[]) => void;
+}
+
+export function ReviewQueue({ userId, userClasses, selectedClass, refreshKey, onStartReview }: Props) {
+  const [dueReviews, setDueReviews] = useState<DueReview[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Use selectedClass if available, otherwise default to first class
+  const reviewClass = selectedClass || userClasses[0] || "";
+
+  useEffect(() => {
+    if (!reviewClass) return;
+    setLoading(true);
+    getDueReviews(userId, reviewClass)
+      .then(setDueReviews)
+      .catch((error) => {
+        console.error("Failed to load due reviews:", error);
+        setDueReviews([]);
+      })
+      .finally(() => setLoading(false));
+  }, [userId, reviewClass, refreshKey]);
+
+  if (userClasses.length === 0) return null;
+
+  // Count due questions per unit so students see what the review covers
+  const unitCounts = dueReviews.reduce<Record<string, number>>((counts, review) => {
+    counts[review.unitName] = (counts[review.unitName] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Card variant="elevated" className="border-2 border-secondary/20 shadow-lg">
+      <CardHeader className="pb-8 pt-8 px-8">
+        <CardTitle className="flex items-center gap-4 text-3xl md:text-4xl font-bold">
+          <RotateCcw className="w-8 h-8 text-secondary" />
+          Review
+        </CardTitle>
+        <CardDescription className="text-lg md:text-xl mt-3">
+          {dueReviews.length > 0
+            ? `${dueReviews.length} question${dueReviews.length !== 1 ? 's' : ''} due for review in ${reviewClass}`
+            : "Nothing due right now - questions come back for review as you practice"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-4 pb-8 px-8">
+        <div className="space-y-8">
+          {Object.keys(unitCounts).length > 0 && (
+            <div className="flex flex-wrap gap-3">
+              {Object.entries(unitCounts).map(([unitName, count]) => (
+                <Badge
+                  key={unitName}
+                  variant="outline"
+                  className="text-xl py-4 px-6"
+                >
+                  {unitName} ({count})
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <Button
+            onClick={() => onStartReview(reviewClass, dueReviews.map(review => review.questionId))}
+            className="w-full h-16 text-xl font-bold"
+            variant="student"
+            size="lg"
+            disabled={dueReviews.length === 0 || loading}
+          >
+            {loading ? (
+              <>
+                <Loader2 className="w-6 h-6 mr-3 animate-spin" />
+                Loading...
+              </>
+            ) : (
+              <>
+                <RotateCcw className="w-6 h-6 mr-3" />
+                Start Review
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
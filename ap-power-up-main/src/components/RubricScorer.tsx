@@ -0,0 +1,70 @@
+import { Button } from "@/components/ui/button";
+import { MathText } from "@/components/Latex";
+import { FreeResponsePart, getPartPoints, getTotalPoints, RubricScores, scoreRubric } from "@/lib/freeResponse";
+
+interface Props {
+  parts: FreeResponsePart[];
+  answers: Record<string, string>;
+  scores: RubricScores;
+  onChange: (scores: RubricScores) => void;
+  disabled?: boolean;
+}
+
+// The answer to each part next to its rubric, with the points to award per criterion.
+// Used by students scoring themselves and by teachers grading.
+export function RubricScorer({ parts, answers, scores, onChange, disabled = false }: Props) {
+  const setPoints = (criterionId: string, points: number) => {
+    onChange({ ...scores, [criterionId]: points });
+  };
+
+  return (
+    <div className="space-y-6">
+      {parts.map((part) => (
+        <div key={part.id} className="rounded-xl border p-4 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div className="leading-relaxed">
+              <span className="font-bold mr-2">({part.id})</span>
+              <MathText text={part.prompt} />
+            </div>
+            <span className="text-sm text-muted-foreground whitespace-nowrap">
+              {scoreRubric([part], scores)}/{getPartPoints(part)}
+            </span>
+          </div>
+
+          <div className="p-3 rounded-lg bg-muted/50 text-sm whitespace-pre-wrap">
+            {answers[part.id]?.trim() ? <MathText text={answers[part.id]} /> : <span className="text-muted-foreground italic">No answer</span>}
+          </div>
+
+          <div className="space-y-3">
+            {part.rubric.map((criterion) => (
+              <div key={criterion.id} className="flex items-start justify-between gap-4">
+                <div className="text-sm leading-relaxed">
+                  <MathText text={criterion.description} />
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  {Array.from({ length: criterion.points + 1 }, (_, points) => (
+                    <Button
+                      key={points}
+                      type="button"
+                      size="sm"
+                      variant={(scores[criterion.id] ?? 0) === points ? "default" : "outline"}
+                      onClick={() => setPoints(criterion.id, points)}
+                      disabled={disabled}
+                      className="w-9"
+                    >
+                      {points}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="text-right font-semibold">
+        Total: {scoreRubric(parts, scores)}/{getTotalPoints(parts)} points
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { getStreakCalendar } from "@/lib/database";
+import { StreakCalendar } from "@/lib/api";
+import { Flame, Loader2, Snowflake } from "lucide-react";
+
+interface Props {
+  userId: string;
+}
+
+interface HeatmapDay {
+  date: string;
+  questionsAnswered: number;
+  frozen: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+}
+
+// Columns of 7 days (Sunday first) ending with the week of `today`, oldest first
+function buildWeeks(calendar: StreakCalendar, weekCount: number): (HeatmapDay | null)[][] {
+  const byDate = new Map(calendar.days.map((day) => [day.date, day]));
+  const todayWeekday = new Date(`${calendar.today}T00:00:00Z`).getUTCDay();
+  const firstDay = addDays(calendar.today, -todayWeekday - (weekCount - 1) * 7);
+
+  return Array.from({ length: weekCount }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const date = addDays(firstDay, week * 7 + weekday);
+      if (date > calendar.today) return null;
+      return byDate.get(date) ?? { date, questionsAnswered: 0, frozen: false };
+    })
+  );
+}
+
+function cellClass(day: HeatmapDay): string {
+  if (day.frozen) return "bg-sky-400";
+  if (day.questionsAnswered >= 20) return "bg-orange-600";
+  if (day.questionsAnswered >= 10) return "bg-orange-500";
+  if (day.questionsAnswered >= 5) return "bg-orange-400";
+  if (day.questionsAnswered > 0) return "bg-orange-300";
+  return "bg-muted";
+}
+
+function describeDay(day: HeatmapDay): string {
+  const date = new Date(`${day.date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC", month: "short", day: "numeric", year: "numeric" });
+  if (day.frozen) return `${date}: streak freeze used`;
+  if (day.questionsAnswered === 0) return `${date}: no practice`;
+  return `${date}: ${day.questionsAnswered} question${day.questionsAnswered === 1 ? "" : "s"}`;
+}
+
+export function StreakHeatmap({ userId }: Props) {
+  const [calendar, setCalendar] = useState<StreakCalendar | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    getStreakCalendar(userId)
+      .then(setCalendar)
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  if (!loading && !calendar) return null;
+
+  return (
+    <Card variant="elevated">
+      <CardHeader className="pb-5 px-8 pt-8">
+        <CardTitle className="flex items-center gap-3 text-[30px] md:text-[37.5px] font-bold">
+          <Flame className="w-8 h-8 text-orange-500" />
+          Practice Streak
+        </CardTitle>
+        <CardDescription className="text-[20px] md:text-[22.5px] mt-2">
+          Practice every day to keep your streak. Every {calendar?.freezeEarnDays ?? 7} days in a row earns a streak freeze, which covers a missed day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-8 pb-8">
+        {loading || !calendar ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-6 text-[20px]">
+              <div className="flex items-center gap-2">
+                <Flame className="w-6 h-6 text-orange-500" />
+                <span className="font-bold">{calendar.streak}</span> day streak
+              </div>
+              <div className="text-muted-foreground">
+                Longest: <span className="font-semibold text-foreground">{calendar.longestStreak}</span> days
+              </div>
+              <div className="flex items-center gap-2">
+                <Snowflake className="w-6 h-6 text-sky-500" />
+                <span className="font-bold">{calendar.freezes}</span> / {calendar.maxFreezes} freezes
+              </div>
+            </div>
+
+            <div className="flex gap-1 overflow-x-auto pb-2">
+              {buildWeeks(calendar, 12).map((week, index) => (
+                <div key={index} className="flex flex-col gap-1">
+                  {week.map((day, weekday) =>
+                    day ? (
+                      <Tooltip key={day.date}>
+                        <TooltipTrigger asChild>
+                          <div className={`w-5 h-5 rounded-sm ${cellClass(day)}`} />
+                        </TooltipTrigger>
+                        <TooltipContent>{describeDay(day)}</TooltipContent>
+                      </Tooltip>
+                    ) : (
+                      <div key={weekday} className="w-5 h-5" />
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <p className="text-[15px] text-muted-foreground">Days are counted in your time zone ({calendar.timezone}).</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -68,6 +68,7 @@ const formatText = (text: string) => {
 };
 import { 
   getLeaderboard,
+  getClassLeaderboard,
   updateScore,
   saveQuizResult,
   User,
@@ -87,10 +88,14 @@ import {
   getDailyPointsEarned,
   addDailyPoints,
   getUserStreak,
+  RecordedAttempt,
   joinClassByCode,
   getStudentsInSameClass,
   getClassCodeForStudent,
   isClassLeaderboardEnabled,
+  Assignment,
+  submitAssignment,
+  getStudentAssignments,
 } from "@/lib/database";
 import { PremiumLoader } from "@/components/ui/premium-loader";
 import { 
@@ -107,12 +112,42 @@ import { toast } from "sonner";
 import { AnalyticsDashboard } from "./AnalyticsDashboard";
 import { computeAdvancedAnalytics } from "@/lib/advancedAnalytics";
 import { WeakSkillsPractice } from "./WeakSkillsPractice";
+import { ReviewQueue } from "./ReviewQueue";
+import { PointsHistory } from "./PointsHistory";
+import { StreakHeatmap } from "./StreakHeatmap";
+import { AbilityEstimate } from "./AbilityEstimate";
+import { AssignedWork } from "./AssignedWork";
+import { SyncStatus } from "./SyncStatus";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
 import { APTestSection } from "./APTestSection";
+import { AdaptiveAPTestCard } from "./AdaptiveAPTestCard";
 import { APTestInterface } from "./APTestInterface";
 import { APTestResults } from "./APTestResults";
-import { APTestData, APTestQuestionResponse, APTestAttempt, generateAPTestAttemptId } from "@/lib/apTestData";
+import { FreeResponsePractice } from "./FreeResponsePractice";
+import { ObjectiveItemInput } from "./ObjectiveItemInput";
+import {
+  APExamSectionTiming,
+  APTestData,
+  APTestQuestionResponse,
+  APTestAttempt,
+  APTestSessionState,
+  generateAPTestAttemptId,
+  getAPTestSections,
+} from "@/lib/apTestData";
+import { gradeAPTestResponses, SECURE_DELIVERY } from "@/lib/grading";
+import { formatCredit, getInitialAnswer, gradeItem, isItemAnswered, ItemAnswer, toQuestionItem } from "@/lib/itemTypes";
+import { LeaderboardWindow } from "@/lib/api";
 import { calculateAPTestSummary } from "@/lib/apTestAnalytics";
-import { saveAPTestAttempt } from "@/lib/database";
+import { APTestSession, getAPTestSessions, saveAPTestAttempt, saveAPTestSession } from "@/lib/database";
+import { loadAPTestData } from "@/lib/apTestLoader";
+import { ADAPTIVE_TEST_ID } from "@/lib/adaptiveAPTest";
+
+const LEADERBOARD_WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  all: "All time",
+  term: "This term",
+  month: "This month",
+  week: "This week",
+};
 
 // Sound utility functions
 const playCorrectSound = () => {
@@ -211,18 +246,24 @@ function PracticeWeakSkillsCard({
 export function StudentDashboard() {
   const navigate = useNavigate();
   const { user, logout, refreshUser, addClass, removeClass, updateProfile } = useAuth();
+  const syncStatus = useSyncStatus(user?.role === "student" ? user.id : undefined);
   const [selectedClass, setSelectedClass] = useState<string>("");
   const [selectedUnit, setSelectedUnit] = useState<string>("");
   const [isQuizActive, setIsQuizActive] = useState(false);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  const [itemAnswer, setItemAnswer] = useState<ItemAnswer>(null); // Multi-select, numeric, ordering and matching questions
+  const [lastCredit, setLastCredit] = useState<number | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [correctAnswers, setCorrectAnswers] = useState(0);
   const [quizComplete, setQuizComplete] = useState(false);
   const [activeQuizClass, setActiveQuizClass] = useState<string>("");
+  const [isReviewMode, setIsReviewMode] = useState(false);
+  const [activeAssignment, setActiveAssignment] = useState<Assignment | null>(null);
   const [isAddClassOpen, setIsAddClassOpen] = useState(false);
   const [leaderboardClass, setLeaderboardClass] = useState<string>("");
+  const [leaderboardWindow, setLeaderboardWindow] = useState<LeaderboardWindow>("all");
   const [classCodeInput, setClassCodeInput] = useState<string>("");
   const [isJoiningClass, setIsJoiningClass] = useState(false);
   const [activeTab, setActiveTab] = useState<string>("practice");
@@ -244,6 +285,9 @@ export function StudentDashboard() {
     timeTaken: number;
     recentCorrects: string[];
     selectedAnswer: string;
+    answer?: ItemAnswer;
+    credit: number;
+    gradedOnServer: boolean; // isCorrect and credit are set once the server has recorded the answer
   } | null>(null);
   const [currentQuestionAttempts, setCurrentQuestionAttempts] = useState<number>(0);
   
@@ -251,6 +295,8 @@ export function StudentDashboard() {
   const [isAPTestActive, setIsAPTestActive] = useState(false);
   const [apTestData, setApTestData] = useState<APTestData | null>(null);
   const [apTestStartTime, setApTestStartTime] = useState<number>(0);
+  const [apTestAttemptId, setApTestAttemptId] = useState<string>("");
+  const [apTestSession, setApTestSession] = useState<APTestSession | null>(null); // The paused test being resumed
   const [apTestAttempt, setApTestAttempt] = useState<APTestAttempt | null>(null);
   const [showAPTestResults, setShowAPTestResults] = useState(false);
   
@@ -279,6 +325,7 @@ export function StudentDashboard() {
   const [profileViewShowRank, setProfileViewShowRank] = useState(true);
   const [unitQuestionCounts, setUnitQuestionCounts] = useState<Record<string, number>>({});
   const [globalLeaderboardData, setGlobalLeaderboardData] = useState<User[]>([]);
+  const [classWindowLeaderboardData, setClassWindowLeaderboardData] = useState<User[]>([]);
   const [studentHistoryData, setStudentHistoryData] = useState<QuizResult[]>([]);
   const [bestRankDisplay, setBestRankDisplay] = useState<string>('-');
   const [unitProgress, setUnitProgress] = useState<Record<string, QuizProgress | null>>({});
@@ -445,25 +492,13 @@ export function StudentDashboard() {
   }, []);
   
   useEffect(() => {
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:448',message:'useEffect triggered for units loading',data:{selectedClass,userId:user?.id,hasSelectedClass:!!selectedClass},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-    // #endregion
     if (selectedClass) {
       // Clear loader cache so we always re-fetch the latest units list from JSON
       clearCache();
       console.log(`[StudentDashboard] Loading units for class: ${selectedClass} from JSON files only`);
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:452',message:'Calling loadClassData',data:{selectedClass},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'B'})}).catch(()=>{});
-      // #endregion
       // Load classData to get exact unit names from dataset
       loadClassData(selectedClass).then(async (classData) => {
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:454',message:'loadClassData promise resolved',data:{selectedClass,hasClassData:!!classData,unitsCount:classData?.units?.length||0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-        // #endregion
         if (!classData) {
-          // #region agent log
-          fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:455',message:'classData is null, setting empty units',data:{selectedClass},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-          // #endregion
           setUnits([]);
           setUnitQuestionCounts({});
           setUnitProgress({});
@@ -471,9 +506,6 @@ export function StudentDashboard() {
         }
         // Use exact unitName from dataset
         const unitNames = classData.units.map(u => u.unitName);
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:462',message:'Setting units state',data:{selectedClass,unitNames,unitsCount:unitNames.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-        // #endregion
         setUnits(unitNames);
         // Fetch question counts per unit for dropdown progress display
         const entries = await Promise.all(
@@ -493,18 +525,12 @@ export function StudentDashboard() {
         );
         setUnitProgress(Object.fromEntries(progressEntries));
       }).catch((error) => {
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:481',message:'loadClassData promise rejected',data:{selectedClass,error:error?.message||String(error)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
         console.error(`[StudentDashboard] Error loading units for ${selectedClass}:`, error);
         setUnits([]);
         setUnitQuestionCounts({});
         setUnitProgress({});
       });
     } else {
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:482',message:'selectedClass is empty, clearing units',data:{selectedClass},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'B'})}).catch(()=>{});
-      // #endregion
       setUnits([]);
       setUnitQuestionCounts({});
       setUnitProgress({});
@@ -544,10 +570,10 @@ export function StudentDashboard() {
     }
   }, [viewingStudent?.id]);
 
-  // Load leaderboard data when class changes or leaderboard tab is active
+  // Load leaderboard data when class or window changes or leaderboard tab is active
   useEffect(() => {
     if (currentLeaderboardClass && showLeaderboard) {
-      getLeaderboard(currentLeaderboardClass)
+      getLeaderboard(currentLeaderboardClass, leaderboardWindow)
         .then((leaderboard) => {
           setGlobalLeaderboardData(leaderboard);
           // Refresh user to ensure header total points are up-to-date
@@ -556,8 +582,14 @@ export function StudentDashboard() {
         .catch((error) => {
           console.error('Failed to load leaderboard:', error);
         });
+
+      // All-time class rankings come from local class data; windowed ones from the API
+      const classCode = getClassCodeForStudent(user.id, currentLeaderboardClass);
+      if (classCode && leaderboardWindow !== "all") {
+        getClassLeaderboard(currentLeaderboardClass, classCode, leaderboardWindow).then(setClassWindowLeaderboardData);
+      }
     }
-  }, [currentLeaderboardClass, showLeaderboard]);
+  }, [currentLeaderboardClass, leaderboardWindow, showLeaderboard, user.id]);
 
   // Calculate and update best rank across all user classes
   // This runs independently of showLeaderboard - rank should be calculated even if leaderboard tab is hidden
@@ -626,8 +658,14 @@ export function StudentDashboard() {
     }
   };
 
-  const startQuiz = async (resumeProgress?: QuizProgress, filteredQuestionIds?: string[]) => {
-    const classToUse = resumeProgress?.apClass || selectedClass;
+  const startQuiz = async (
+    resumeProgress?: QuizProgress,
+    filteredQuestionIds?: string[],
+    quizClass?: string,
+    reviewMode = false,
+    assignment: Assignment | null = null
+  ) => {
+    const classToUse = resumeProgress?.apClass || quizClass || selectedClass;
     const unitToUse = resumeProgress?.unit || selectedUnit;
     
     // Clear cache to ensure we get fresh data from JSON
@@ -683,6 +721,8 @@ export function StudentDashboard() {
     }
     
     setActiveQuizClass(classToUse || userClasses[0] || "");
+    setIsReviewMode(reviewMode);
+    setActiveAssignment(assignment);
     
     // Normalize questions to ensure correctAnswerId is always set (handle both correctAnswerId and correctOptionId)
     const normalizedQuestions = unitQuestions.map((q, idx) => {
@@ -693,7 +733,7 @@ export function StudentDashboard() {
                        (q as any).correctAnswer || 
                        '';
       
-      if (!correctId && q.id) {
+      if (!correctId && q.id && !SECURE_DELIVERY) {
         console.error(`[StudentDashboard] WARNING: Question ${q.id} has no correctAnswerId! Available fields:`, Object.keys(q));
       }
       
@@ -737,6 +777,7 @@ export function StudentDashboard() {
     setIsQuizActive(true);
     setQuizComplete(false);
     setSelectedAnswer(null);
+    setItemAnswer(null);
     setShowResult(false);
   };
 
@@ -749,18 +790,118 @@ export function StudentDashboard() {
     toast.success(`Starting practice quiz with ${questionIds.length} questions targeting your weak skills!`);
   };
 
+  // Review mode serves questions due for spaced repetition across all units of a class
+  const startReview = async (apClass: string, questionIds: string[]) => {
+    if (questionIds.length === 0) {
+      toast.error("No questions due for review");
+      return;
+    }
+    await startQuiz(undefined, questionIds, apClass, true);
+    toast.success(`Reviewing ${questionIds.length} due question${questionIds.length !== 1 ? 's' : ''}`);
+  };
+
+  // Assigned work uses the question set or AP test the teacher picked
+  const startAssignment = async (assignment: Assignment) => {
+    if (assignment.assignmentType === 'ap_test') {
+      const testData = assignment.apTestId !== null
+        ? await loadAPTestData(assignment.apClassName, assignment.apTestId)
+        : null;
+      if (!testData) {
+        toast.error("This AP test is not available right now");
+        return;
+      }
+      // A paused assigned test picks up where it left off
+      const session = (await getAPTestSessions(user.id)).find(s => s.assignmentId === assignment.id);
+      handleStartAPTest(testData, assignment, session ?? null);
+      return;
+    }
+
+    if (assignment.questionIds.length === 0) {
+      toast.error("This assignment has no questions");
+      return;
+    }
+    await startQuiz(undefined, assignment.questionIds, assignment.apClassName, false, assignment);
+  };
+
   const handleAnswerSelect = (answer: string) => {
     if (showResult) return;
     setSelectedAnswer(answer);
   };
 
+  // Show whether the current question was answered correctly
+  const showAnswerResult = (isCorrect: boolean, credit: number, isItem: boolean) => {
+    setQuestionResults(prev => ({ ...prev, [currentQuestionIndex]: isCorrect }));
+    setLastCredit(isItem ? credit : null);
+    setShowResult(true);
+    
+    // Update correct answer count immediately if correct
+    if (isCorrect) {
+      setCorrectAnswers(prev => prev + 1);
+    }
+  };
+
+  const playAnswerSound = (isCorrect: boolean) => {
+    if (isCorrect) {
+      playCorrectSound();
+    } else {
+      playIncorrectSound();
+    }
+  };
+
+  // Record the answer. Answers without a key on the client are graded by the server,
+  // which sends the key back with the recorded attempt; null when that failed.
+  const recordAnswer = async (pending: NonNullable<typeof pendingAnswer>, confidence: number | null) => {
+    const { questionId, timeTaken, selectedAnswer, answer, gradedOnServer } = pending;
+    const currentQuestion = questions[currentQuestionIndex];
+    const stimulusMeta = currentQuestion?.stimulusMeta || null;
+
+    let recorded: RecordedAttempt;
+    try {
+      recorded = await recordQuestionAttempt(
+        user.id,
+        questionId,
+        gradedOnServer ? null : pending.isCorrect,
+        timeTaken,
+        selectedAnswer || undefined,
+        confidence,
+        new Date().toISOString(),
+        stimulusMeta,
+        answer
+      );
+    } catch (error) {
+      console.error('[StudentDashboard] Error grading answer:', error);
+      toast.error("Could not check your answer. Please try again.");
+      return null;
+    }
+    if (!gradedOnServer) {
+      return { recorded, isCorrect: pending.isCorrect, credit: pending.credit };
+    }
+
+    const { grade } = recorded;
+    const credit = grade.credit ?? (grade.isCorrect ? 1 : 0);
+    setQuestions(prev => prev.map((q, idx) => idx === currentQuestionIndex
+      ? {
+          ...q,
+          correctAnswerId: grade.correctAnswerId ?? q.correctAnswerId,
+          answerKey: grade.answerKey ?? q.answerKey,
+          explanation: grade.explanation || q.explanation,
+        }
+      : q
+    ));
+    showAnswerResult(grade.isCorrect, credit, Boolean(answer));
+    playAnswerSound(grade.isCorrect);
+    return { recorded, isCorrect: grade.isCorrect, credit };
+  };
+
   const submitAnswer = async () => {
-    if (!selectedAnswer) {
+    const currentQuestion = questions[currentQuestionIndex];
+    const item = toQuestionItem(currentQuestion);
+    const answer = item ? itemAnswer ?? getInitialAnswer(item) : undefined;
+    if (item ? !isItemAnswered(item, answer) : !selectedAnswer) {
       toast.error("Please select an answer");
       return;
     }
-    
-    const currentQuestion = questions[currentQuestionIndex];
+
     // Debug: Log stimulus data when submitting answer
     if (currentQuestion?.stimulus) {
       console.log('[StudentDashboard] Question stimulus on submit:', currentQuestion.stimulus);
@@ -778,192 +919,143 @@ export function StudentDashboard() {
     // This handles type mismatches (string vs number) by converting both to strings
     const normalizedSelected = String(selectedAnswer).trim();
     const normalizedCorrect = String(correctAnswerId).trim();
-    const isCorrect = normalizedSelected === normalizedCorrect;
+    // Secure delivery questions (and items sent without their key) are graded by the server
+    const gradedOnServer = SECURE_DELIVERY || Boolean(item && !item.answerKey);
+    // Multi-select, numeric, ordering and matching answers earn credit from 0 to 1
+    const credit = item
+      ? (gradedOnServer ? 0 : gradeItem(item.type, item.answerKey, answer!))
+      : normalizedSelected === normalizedCorrect ? 1 : 0;
+    const isCorrect = credit === 1;
 
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:759',message:'submitAnswer called - IMMEDIATE state update',data:{selectedAnswer,normalizedSelected,correctAnswerId,normalizedCorrect,isCorrect,currentQuestionIndex},timestamp:Date.now(),sessionId:'debug-session',runId:'post-fix',hypothesisId:'A'})}).catch(()=>{});
-    // #endregion
 
     // FIX: Update state IMMEDIATELY to show colors right away, before any async operations
     // Previous bug: setShowResult(false) was called first, then async operations happened,
     // then setShowResult(true) was called later, causing a delay in color updates.
     // Solution: Update showResult and questionResults immediately after determining correctness,
     // then do async operations (database saves, score updates) in the background.
-    setQuestionResults(prev => ({ ...prev, [currentQuestionIndex]: isCorrect }));
-    setShowResult(true);
-    
-    // Update correct answer count immediately if correct
-    if (isCorrect) {
-      setCorrectAnswers(prev => prev + 1);
+    // Answers graded by the server are shown once it has recorded them.
+    if (!gradedOnServer) {
+      showAnswerResult(isCorrect, credit, Boolean(item));
     }
     
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:789',message:'AFTER immediate state updates',data:{isCorrect,currentQuestionIndex,showResult:true},timestamp:Date.now(),sessionId:'debug-session',runId:'post-fix',hypothesisId:'E'})}).catch(()=>{});
-    // #endregion
     
     // Calculate time taken (capture before confidence prompt so timing is fair)
     const timeTaken = (Date.now() - questionStartTime) / 1000;
 
     // Get mastery data before recording attempt
     const recentCorrects = await getQuestionCorrectTimestamps(user.id, questionId);
+    const pending = {
+      questionId,
+      isCorrect,
+      timeTaken,
+      recentCorrects,
+      selectedAnswer: selectedAnswer || "",
+      answer,
+      credit,
+      gradedOnServer,
+    };
 
     // Check if confidence tracking is enabled
     if (trackConfidence) {
       // Open confidence prompt and defer saving until student sets confidence
       // Note: Colors are already shown above, this just handles the confidence input
-      setPendingAnswer({
-        questionId,
-        isCorrect,
-        timeTaken,
-        recentCorrects,
-        selectedAnswer: selectedAnswer || "",
-      });
+      setPendingAnswer(pending);
       setPendingConfidence(null);
       setShowConfidencePrompt(true);
     } else {
       // Skip confidence prompt and save with null confidence
-      const currentQuestion = questions[currentQuestionIndex];
-      const stimulusMeta = currentQuestion?.stimulusMeta || null;
-
-      // Play sound effect
-      if (isCorrect) {
-        playCorrectSound();
-      } else {
-        playIncorrectSound();
+      if (!gradedOnServer) {
+        playAnswerSound(isCorrect);
       }
 
       // Async operations happen in background - colors are already shown above
-      const attemptNumber = await recordQuestionAttempt(
-        user.id,
-        questionId,
-        isCorrect,
-        timeTaken,
-        selectedAnswer || "",
-        null, // No confidence when tracking is disabled
-        new Date().toISOString(),
-        stimulusMeta
-      );
-
-      const scoringResult = calculateQuestionPoints(isCorrect, attemptNumber, timeTaken, recentCorrects);
-      
-      // Update session tracking
-      setSessionPointsEarned(prev => prev + scoringResult.finalQuestionPoints);
-      if (isCorrect) {
-        setSessionCorrectAnswers(prev => prev + 1);
+      const result = await recordAnswer(pending, null); // No confidence when tracking is disabled
+      if (!result) {
+        return;
       }
+
+      await applyAttemptScoring(result.recorded, result.isCorrect, timeTaken, recentCorrects, result.credit);
+      // The session bonus counts partly right answers by their credit
+      setSessionCorrectAnswers(prev => prev + result.credit);
       setSessionTotalAnswered(prev => prev + 1);
-      setLastScoringResult(scoringResult);
-
-      // Update leaderboard score if points were earned (async, doesn't affect UI colors)
-      if (isCorrect && scoringResult.finalQuestionPoints > 0) {
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:813',message:'Before updateScore call',data:{userId:user.id,pointsToAdd:scoringResult.finalQuestionPoints,activeQuizClass,currentClassScores:user.classScores,currentTotalScore:getTotalScore(user)},timestamp:Date.now(),sessionId:'debug-session',runId:'post-fix',hypothesisId:'E'})}).catch(()=>{});
-        // #endregion
-        await updateScore(user.id, scoringResult.finalQuestionPoints, activeQuizClass);
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:815',message:'After updateScore, before refreshUser',data:{userId:user.id,pointsAdded:scoringResult.finalQuestionPoints,activeQuizClass},timestamp:Date.now(),sessionId:'debug-session',runId:'post-fix',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-        // Refresh user state to update header total points
-        await refreshUser();
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:817',message:'After refreshUser',data:{userId:user.id,userClassScores:user.classScores,userTotalScore:getTotalScore(user)},timestamp:Date.now(),sessionId:'debug-session',runId:'post-fix',hypothesisId:'D'})}).catch(()=>{});
-        // #endregion
-        // Refresh leaderboard after score update
-        if (activeQuizClass === currentLeaderboardClass && showLeaderboard) {
-          getLeaderboard(activeQuizClass)
-            .then((leaderboard) => {
-              setGlobalLeaderboardData(leaderboard);
-            })
-            .catch((error) => {
-              console.error('Failed to refresh leaderboard:', error);
-            });
-        }
+    }
+  };
+
+  // Points come from the backend when it recorded the attempt; offline, the
+  // shared scoring rules are applied locally instead.
+  const applyAttemptScoring = async (
+    recorded: RecordedAttempt,
+    isCorrect: boolean,
+    timeTaken: number,
+    recentCorrects: string[],
+    credit: number
+  ) => {
+    const scoringResult = recorded.scoring
+      ? recorded.scoring.question
+      : calculateQuestionPoints(isCorrect, recorded.attemptNumber, timeTaken, recentCorrects, Date.now(), credit);
+    const pointsAwarded = recorded.scoring
+      ? recorded.scoring.award.finalAttemptPoints
+      : scoringResult.finalQuestionPoints;
+
+    setLastScoringResult(scoringResult);
+    setSessionPointsEarned(prev => prev + pointsAwarded);
+
+    if (pointsAwarded > 0) {
+      if (!recorded.scoring) {
+        updateScore(user.id, pointsAwarded, activeQuizClass);
+      }
+      // Refresh user state to update header total points
+      await refreshUser();
+      // Refresh leaderboard after score update
+      if (activeQuizClass === currentLeaderboardClass && showLeaderboard) {
+        getLeaderboard(activeQuizClass)
+          .then((leaderboard) => {
+            setGlobalLeaderboardData(leaderboard);
+          })
+          .catch((error) => {
+            console.error('Failed to refresh leaderboard:', error);
+          });
       }
     }
+
+    return { scoringResult, pointsAwarded };
   };
 
   const finalizeAnswer = async (confidenceValue: number) => {
     if (!pendingAnswer) return;
-    const { questionId, isCorrect, timeTaken, recentCorrects, selectedAnswer } = pendingAnswer;
+    const { timeTaken, recentCorrects, gradedOnServer } = pendingAnswer;
 
     // Play sound effect after confidence is provided
-    if (isCorrect) {
-      playCorrectSound();
-    } else {
-      playIncorrectSound();
+    if (!gradedOnServer) {
+      playAnswerSound(pendingAnswer.isCorrect);
     }
 
-    // Get current question to check for stimulus
-    const currentQuestion = questions[currentQuestionIndex];
-    const stimulusMeta = currentQuestion?.stimulusMeta || null;
-
-    const attemptNumber = await recordQuestionAttempt(
-      user.id,
-      questionId,
-      isCorrect,
-      timeTaken,
-      selectedAnswer,
-      confidenceValue,
-      new Date().toISOString(),
-      stimulusMeta
-    );
+    const result = await recordAnswer(pendingAnswer, confidenceValue);
+    if (!result) {
+      setShowConfidencePrompt(false);
+      setPendingAnswer(null);
+      return;
+    }
+    const { recorded, isCorrect, credit } = result;
 
-    const scoringResult = calculateQuestionPoints(isCorrect, attemptNumber, timeTaken, recentCorrects);
-    setLastScoringResult(scoringResult);
+    const { scoringResult, pointsAwarded } = await applyAttemptScoring(recorded, isCorrect, timeTaken, recentCorrects, credit);
 
     setSessionTotalAnswered(prev => prev + 1);
+    setSessionCorrectAnswers(prev => prev + credit);
 
     if (isCorrect) {
       setCorrectAnswers(prev => prev + 1);
-      setSessionCorrectAnswers(prev => prev + 1);
-
-        if (scoringResult.finalQuestionPoints > 0) {
-          setSessionPointsEarned(prev => prev + scoringResult.finalQuestionPoints);
-        
-        // Update leaderboard score immediately after earning points
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:876',message:'Before updateScore call (confidence)',data:{userId:user.id,pointsToAdd:scoringResult.finalQuestionPoints,activeQuizClass,currentClassScores:user.classScores,currentTotalScore:getTotalScore(user)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'E'})}).catch(()=>{});
-        // #endregion
-        await updateScore(user.id, scoringResult.finalQuestionPoints, activeQuizClass);
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:878',message:'After updateScore, before refreshUser (confidence)',data:{userId:user.id,pointsAdded:scoringResult.finalQuestionPoints,activeQuizClass},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-        // Refresh user state to update header total points
-        await refreshUser();
-        // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:880',message:'After refreshUser (confidence)',data:{userId:user.id,userClassScores:user.classScores,userTotalScore:getTotalScore(user)},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-        // #endregion
-        // Refresh leaderboard after score update
-        if (activeQuizClass === currentLeaderboardClass && showLeaderboard) {
-          getLeaderboard(activeQuizClass)
-            .then((leaderboard) => {
-              setGlobalLeaderboardData(leaderboard);
-            })
-            .catch((error) => {
-              console.error('Failed to refresh leaderboard:', error);
-            });
-        }
-      }
 
-      if (scoringResult.finalQuestionPoints > 0) {
+      if (pointsAwarded > 0) {
         const breakdown = formatPointsBreakdown(scoringResult);
-        toast.success(`+${scoringResult.finalQuestionPoints} pts! (${breakdown})`);
-      } else if (attemptNumber > 2) {
+        toast.success(`+${pointsAwarded} pts! (${breakdown})`);
+      } else if (recorded.attemptNumber > 2) {
         toast.success("Correct! (No points - 3rd+ attempt)");
       }
     }
 
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:944',message:'finalizeAnswer - BEFORE setQuestionResults and setShowResult',data:{isCorrect,currentQuestionIndex,selectedAnswer:selectedAnswer},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-    // #endregion
 
-    setQuestionResults(prev => {
-      const newResults = { ...prev, [currentQuestionIndex]: isCorrect };
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:944',message:'finalizeAnswer - INSIDE setQuestionResults updater',data:{currentQuestionIndex,isCorrect,newResultValue:newResults[currentQuestionIndex]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-      // #endregion
-      return newResults;
-    });
+    setQuestionResults(prev => ({ ...prev, [currentQuestionIndex]: isCorrect }));
 
     if (!answeredQuestions.includes(currentQuestionIndex)) {
       setAnsweredQuestions(prev => [...prev, currentQuestionIndex]);
@@ -971,117 +1063,132 @@ export function StudentDashboard() {
 
     setShowResult(true);
     
-    // #region agent log
-    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:950',message:'finalizeAnswer - AFTER setShowResult(true)',data:{isCorrect,currentQuestionIndex},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'E'})}).catch(()=>{});
-    // #endregion
     setShowConfidencePrompt(false);
     setPendingAnswer(null);
     setPendingConfidence(null);
   };
 
 
+  // Shown in the quiz header and saved as the result's unit
+  const quizUnitLabel = isReviewMode ? "Review" : activeAssignment ? activeAssignment.title : selectedUnit;
+
   const nextQuestion = async () => {
     if (currentQuestionIndex < questions.length - 1) {
       const newIndex = currentQuestionIndex + 1;
       setCurrentQuestionIndex(newIndex);
       setSelectedAnswer(null);
+      setItemAnswer(null);
       setShowResult(false);
       setQuestionStartTime(Date.now()); // Reset timer for next question
       setElapsedTime(0);
       
-      // Save progress after each question
-      await saveQuizProgress(user.id, {
-        apClass: activeQuizClass,
-        unit: selectedUnit,
-        currentIndex: newIndex,
-        correctAnswers,
-        answeredQuestions: [...answeredQuestions, currentQuestionIndex],
-        pointsEarned: sessionPointsEarned,
-        sessionCorrectAnswers,
-        sessionTotalAnswered
-      });
+      // Save progress after each question (review and assignment sessions are rebuilt from their question lists instead)
+      if (!isReviewMode && !activeAssignment) {
+        await saveQuizProgress(user.id, {
+          apClass: activeQuizClass,
+          unit: selectedUnit,
+          currentIndex: newIndex,
+          correctAnswers,
+          answeredQuestions: [...answeredQuestions, currentQuestionIndex],
+          pointsEarned: sessionPointsEarned,
+          sessionCorrectAnswers,
+          sessionTotalAnswered
+        });
+      }
     } else {
-      // Quiz complete - calculate session bonuses
-      const dailyPointsSoFar = getDailyPointsEarned(user.id);
-      const currentStreak = user.streak || 0;
-      
+      // Quiz complete - the backend awards the accuracy bonus for this session's answers
+      if (!isReviewMode && !activeAssignment) {
+        await clearQuizProgress(user.id, activeQuizClass, selectedUnit);
+      }
+
+      // Offline preview of the session bonus, only used when the result is saved locally
       const sessionResult = calculateSessionBonus(
         sessionPointsEarned,
         sessionCorrectAnswers,
         sessionTotalAnswered,
-        currentStreak,
-        dailyPointsSoFar
+        user.streak || 0,
+        getDailyPointsEarned(user.id)
       );
       
-      // Apply final session points to leaderboard (scores already updated after each question)
-      if (sessionResult.finalSessionPoints > 0) {
-        addDailyPoints(user.id, sessionResult.finalSessionPoints);
-        // Note: Score was already updated incrementally after each question, so we don't need to update again here
-      }
-      
-      await clearQuizProgress(user.id, activeQuizClass, selectedUnit);
-      
-      // Save quiz result - backend will update class scores and streak automatically
-      await saveQuizResult({
+      const sessionScoring = await saveQuizResult({
         userId: user.id,
         apClass: activeQuizClass,
-        unit: selectedUnit,
+        unit: quizUnitLabel,
         score: correctAnswers,
         totalQuestions: questions.length,
         pointsEarned: sessionResult.finalSessionPoints
-      });
+      }, getSessionQuestionIds());
+
+      let totalSessionPoints: number;
+      if (sessionScoring) {
+        totalSessionPoints = sessionPointsEarned + sessionScoring.award.finalAttemptPoints;
+      } else {
+        totalSessionPoints = sessionResult.finalSessionPoints;
+        if (totalSessionPoints > 0) {
+          addDailyPoints(user.id, totalSessionPoints);
+        }
+      }
       
       // Store session result for display
-      setSessionPointsEarned(sessionResult.finalSessionPoints);
+      setSessionPointsEarned(totalSessionPoints);
+
+      if (activeAssignment) {
+        await turnInAssignment(activeAssignment, correctAnswers, questions.length);
+      }
       
       refreshUser();
       setQuizComplete(true);
       
       if (correctAnswers === questions.length) {
-        toast.success(`Perfect score! +${sessionResult.finalSessionPoints} total pts`);
+        toast.success(`Perfect score! +${totalSessionPoints} total pts`);
       } else if (correctAnswers >= questions.length * 0.7) {
-        toast.success(`Great job! +${sessionResult.finalSessionPoints} total pts`);
+        toast.success(`Great job! +${totalSessionPoints} total pts`);
       }
     }
   };
 
+  const turnInAssignment = async (assignment: Assignment, score: number, totalQuestions: number) => {
+    try {
+      const submission = await submitAssignment(user.id, assignment, score, totalQuestions);
+      toast.success(`Turned in "${assignment.title}"${submission.isLate ? " (late)" : ""}`);
+    } catch (error) {
+      console.error("Failed to submit assignment:", error);
+      toast.error("Failed to turn in assignment");
+    }
+  };
+
+  // Question IDs answered in this session, sent so the backend can score the accuracy bonus
+  const getSessionQuestionIds = (): string[] => {
+    const indices = new Set([...answeredQuestions, currentQuestionIndex]);
+    return Array.from(indices)
+      .map(index => questions[index]?.id)
+      .filter((id): id is string => !!id);
+  };
+
   const exitQuiz = () => {
-    // Save progress before exiting - also apply partial points
+    // Save progress before exiting - question points were already awarded as each answer was recorded
     if (!quizComplete && sessionTotalAnswered > 0) {
-      const dailyPointsSoFar = getDailyPointsEarned(user.id);
-      const currentStreak = user.streak || 0;
-      
-      const sessionResult = calculateSessionBonus(
-        sessionPointsEarned,
-        sessionCorrectAnswers,
-        sessionTotalAnswered,
-        currentStreak,
-        dailyPointsSoFar
-      );
-      
-      // Apply earned points immediately (if exiting mid-quiz, points already updated after each question)
-      if (sessionResult.finalSessionPoints > 0) {
-        addDailyPoints(user.id, sessionResult.finalSessionPoints);
-        // Note: Scores are already updated after each question, so no need to update again here
+      if (!isReviewMode && !activeAssignment) {
+        saveQuizProgress(user.id, {
+          apClass: activeQuizClass,
+          unit: selectedUnit,
+          currentIndex: currentQuestionIndex,
+          correctAnswers,
+          answeredQuestions,
+          pointsEarned: 0, // Reset since we already applied points
+          sessionCorrectAnswers: 0,
+          sessionTotalAnswered: 0
+        });
       }
       
-      saveQuizProgress(user.id, {
-        apClass: activeQuizClass,
-        unit: selectedUnit,
-        currentIndex: currentQuestionIndex,
-        correctAnswers,
-        answeredQuestions,
-        pointsEarned: 0, // Reset since we already applied points
-        sessionCorrectAnswers: 0,
-        sessionTotalAnswered: 0
-      });
-      
-      toast.success(`Progress saved! +${sessionResult.finalSessionPoints} pts earned`);
+      toast.success(`Progress saved! +${sessionPointsEarned} pts earned`);
       refreshUser();
     }
     
     setIsQuizActive(false);
     setQuizComplete(false);
+    setIsReviewMode(false);
+    setActiveAssignment(null);
     setSelectedUnit("");
   };
 
@@ -1111,41 +1218,109 @@ export function StudentDashboard() {
   };
 
   // AP Test handlers
-  const handleStartAPTest = (testData: APTestData) => {
+  const handleStartAPTest = (testData: APTestData, assignment: Assignment | null = null, session: APTestSession | null = null) => {
+    setActiveAssignment(assignment);
     setApTestData(testData);
-    setApTestStartTime(Date.now());
+    setApTestSession(session);
+    // The attempt is saved under the session's id, which ends the session
+    setApTestAttemptId(session?.attemptId ?? generateAPTestAttemptId());
+    setApTestStartTime(session ? Date.parse(session.startTimestamp) : Date.now());
     setIsAPTestActive(true);
     setShowAPTestResults(false);
   };
 
-  const handleAPTestComplete = (responses: APTestQuestionResponse[]) => {
+  // Paused tests are resumed with the assignment they were started from, if any
+  const handleResumeAPTest = async (session: APTestSession) => {
+    const testData = session.state.testData ?? await loadAPTestData(session.apClass, session.testId);
+    if (!testData) {
+      toast.error("This AP test is not available right now");
+      return;
+    }
+    const assignment = session.assignmentId
+      ? (await getStudentAssignments(user.id)).find(a => a.id === session.assignmentId) ?? null
+      : null;
+    handleStartAPTest(testData, assignment, session);
+  };
+
+  const handleAPTestSave = async (state: APTestSessionState) => {
+    if (!apTestData) return;
+    try {
+      await saveAPTestSession(user.id, {
+        attemptId: apTestAttemptId,
+        apClass: apTestData.ap_class,
+        testId: apTestData.test_id,
+        assignmentId: activeAssignment?.id ?? null,
+        startTimestamp: new Date(apTestStartTime).toISOString(),
+        // Adaptive tests are built at random, so they are saved with their questions
+        state: apTestData.test_id === ADAPTIVE_TEST_ID ? { ...state, testData: apTestData } : state,
+      });
+    } catch (error) {
+      console.error('[StudentDashboard] Error saving AP test session:', error);
+    }
+  };
+
+  const handleAPTestPause = async (state: APTestSessionState) => {
+    await handleAPTestSave(state);
+    toast.success("Test paused. Resume it from the AP Test section.");
+    handleAPTestExit();
+  };
+
+  const handleAPTestComplete = async (
+    submitted: APTestQuestionResponse[],
+    sectionTimings: APExamSectionTiming[]
+  ) => {
     if (!apTestData) return;
 
     const endTime = Date.now();
-    const totalTimeUsed = (endTime - apTestStartTime) / 1000;
-    const summary = calculateAPTestSummary(responses, apTestStartTime, endTime);
+    // Time on the clock, so pauses and breaks are left out
+    const totalTimeUsed = sectionTimings.reduce((sum, timing) => sum + timing.timeUsedSeconds, 0);
+    // Per-section scores are only reported for tests taken in sections
+    const sections = apTestData.sections ? getAPTestSections(apTestData) : undefined;
 
     const attempt: APTestAttempt = {
-      id: generateAPTestAttemptId(),
+      id: apTestAttemptId,
       userId: user.id,
       apClass: apTestData.ap_class,
       testId: apTestData.test_id,
       startTimestamp: new Date(apTestStartTime).toISOString(),
       endTimestamp: new Date(endTime).toISOString(),
       totalTimeUsedSeconds: totalTimeUsed,
-      responses,
-      summary,
+      responses: submitted,
+      summary: calculateAPTestSummary(submitted, apTestStartTime, endTime, sections, sectionTimings),
     };
 
-    saveAPTestAttempt(attempt);
-    setApTestAttempt(attempt);
+    // Free-response answers are scored from the saved attempt on the results screen
+    await saveAPTestAttempt(attempt);
+
+    // Under secure delivery the server only sends the key once the attempt is saved
+    let responses = submitted;
+    let questions = apTestData.questions;
+    if (SECURE_DELIVERY) {
+      try {
+        ({ responses, questions } = await gradeAPTestResponses(apTestData, submitted));
+      } catch (error) {
+        console.error('[StudentDashboard] Error grading AP test:', error);
+        toast.error("Your test is saved, but its answer key could not be loaded.");
+      }
+    }
+    const summary = calculateAPTestSummary(responses, apTestStartTime, endTime, sections, sectionTimings);
+
+    if (activeAssignment) {
+      turnInAssignment(activeAssignment, summary.correctAnswers, summary.totalQuestions);
+      setActiveAssignment(null);
+    }
+    setApTestAttempt({ ...attempt, responses, summary });
+    // Keep the graded questions so the results can show the answer key
+    setApTestData({ ...apTestData, questions });
     setIsAPTestActive(false);
     setShowAPTestResults(true);
   };
 
   const handleAPTestExit = () => {
     setIsAPTestActive(false);
+    setActiveAssignment(null);
     setApTestData(null);
+    setApTestSession(null);
     setShowAPTestResults(false);
     setApTestAttempt(null);
   };
@@ -1161,7 +1336,11 @@ export function StudentDashboard() {
     return (
       <APTestInterface
         testData={apTestData}
+        session={apTestSession}
         onComplete={handleAPTestComplete}
+        onSave={handleAPTestSave}
+        // Proctored assignments cannot be paused
+        onPause={(apTestSession?.allowPause ?? activeAssignment?.allowPause ?? true) ? handleAPTestPause : undefined}
         onExit={handleAPTestExit}
       />
     );
@@ -1196,6 +1375,7 @@ export function StudentDashboard() {
   if (isQuizActive && !quizComplete) {
     const currentQuestion = questions[currentQuestionIndex];
     const questionId = currentQuestion?.id || `${activeQuizClass}:${selectedUnit}:${currentQuestionIndex}`;
+    const currentItem = currentQuestion ? toQuestionItem(currentQuestion) : null;
     
     // Log the current question being displayed to verify it's from JSON
     if (currentQuestion) {
@@ -1238,7 +1418,7 @@ export function StudentDashboard() {
               <div>
                 <span className="font-bold text-xl md:text-2xl">{activeQuizClass}</span>
                 <span className="mx-2 opacity-50 text-lg md:text-xl">•</span>
-                <span className="opacity-80 text-lg md:text-xl">{selectedUnit}</span>
+                <span className="opacity-80 text-lg md:text-xl">{quizUnitLabel}</span>
               </div>
             </div>
             <div className="flex items-center gap-4">
@@ -1323,7 +1503,17 @@ export function StudentDashboard() {
                 </div>
               )}
               
-              {currentQuestion.options.map((option) => {
+              {currentItem && (
+                <ObjectiveItemInput
+                  item={currentItem}
+                  answer={itemAnswer ?? getInitialAnswer(currentItem)}
+                  onChange={setItemAnswer}
+                  disabled={showResult}
+                  showKey={showResult}
+                />
+              )}
+
+              {!currentItem && currentQuestion.options.map((option) => {
                 const normalizedOptionId = String(option.id).trim();
                 const normalizedSelected = selectedAnswer ? String(selectedAnswer).trim() : null;
                 // Fix: Use same fallback logic as in submitAnswer
@@ -1337,11 +1527,6 @@ export function StudentDashboard() {
                 const showCorrect = showResult && isCorrectOption;
                 const showWrong = showResult && isSelected && !isCorrectOption;
                 
-                // #region agent log
-                if (showResult) {
-                  fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:1362',message:'Answer option render with showResult=true',data:{optionId:option.id,normalizedOptionId,normalizedSelected,normalizedCorrect,isSelected,isCorrectOption,showCorrect,showWrong,showResult,questionResultsValue:questionResults[currentQuestionIndex]},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-                }
-                // #endregion
 
                 return (
                   <button
@@ -1376,11 +1561,14 @@ export function StudentDashboard() {
                   <div className="flex items-center gap-2 text-base font-semibold">
                     {questionResults[currentQuestionIndex] ? (
                       <span className="text-success">Correct</span>
+                    ) : currentItem && lastCredit ? (
+                      <span className="text-warning">Partially correct ({formatCredit(lastCredit)})</span>
                     ) : (
                       <span className="text-destructive">Incorrect</span>
                     )}
                   </div>
-                  {!questionResults[currentQuestionIndex] && (
+                  {/* Keyed items mark the answer against the key above */}
+                  {!questionResults[currentQuestionIndex] && !currentItem && (
                     <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20">
                       <div className="text-sm font-semibold text-destructive mb-2">Correct Answer:</div>
                       {(() => {
@@ -1420,7 +1608,7 @@ export function StudentDashboard() {
 
               <div className="pt-6">
                 {!showResult ? (
-              <Button variant="student" size="lg" className="w-full font-bold" style={{ paddingTop: '2.5rem', paddingBottom: '2.5rem', fontSize: '1.75rem' }} onClick={submitAnswer} disabled={!selectedAnswer || showConfidencePrompt}>
+              <Button variant="student" size="lg" className="w-full font-bold" style={{ paddingTop: '2.5rem', paddingBottom: '2.5rem', fontSize: '1.75rem' }} onClick={submitAnswer} disabled={(currentItem ? !isItemAnswered(currentItem, itemAnswer ?? getInitialAnswer(currentItem)) : !selectedAnswer) || showConfidencePrompt}>
                     Submit Answer
                   </Button>
                 ) : (
@@ -1543,7 +1731,7 @@ export function StudentDashboard() {
               <Trophy className="w-10 h-10 text-secondary-foreground" />
             </div>
             <CardTitle className="text-3xl">Quiz Complete!</CardTitle>
-            <CardDescription className="text-lg">{activeQuizClass} • {selectedUnit}</CardDescription>
+            <CardDescription className="text-lg">{activeQuizClass} • {quizUnitLabel}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
             <div className="grid grid-cols-2 gap-4">
@@ -1580,9 +1768,11 @@ export function StudentDashboard() {
               <Button variant="outline" size="lg" className="flex-1" onClick={exitQuiz}>
                 Back to Dashboard
               </Button>
-              <Button variant="student" size="lg" className="flex-1" onClick={() => startQuiz()}>
-                Try Again
-              </Button>
+              {!isReviewMode && !activeAssignment && (
+                <Button variant="student" size="lg" className="flex-1" onClick={() => startQuiz()}>
+                  Try Again
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -1611,15 +1801,7 @@ export function StudentDashboard() {
             <div className="hidden sm:flex items-center gap-10 lg:gap-14 xl:gap-20 flex-1 justify-center min-w-0">
               <div className="flex items-center gap-3 whitespace-nowrap">
                 <Star className="w-7 h-7 md:w-8 md:h-8 flex-shrink-0" />
-                <span className="font-bold text-xl md:text-2xl lg:text-3xl">{
-                  // #region agent log
-                  (() => {
-                    const totalScore = getTotalScore(user) ?? 0;
-                    fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:1581',message:'Heading getTotalScore call',data:{totalScore,userId:user?.id,classScores:user?.classScores,classScoresKeys:user?.classScores ? Object.keys(user.classScores) : [],classScoresValues:user?.classScores ? Object.values(user.classScores) : []},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-                    return totalScore;
-                  })()
-                  // #endregion
-                } <span className="text-lg md:text-xl lg:text-2xl">pts</span></span>
+                <span className="font-bold text-xl md:text-2xl lg:text-3xl">{getTotalScore(user) ?? 0} <span className="text-lg md:text-xl lg:text-2xl">pts</span></span>
               </div>
               <div className="flex items-center gap-3 whitespace-nowrap">
                 <Flame className="w-7 h-7 md:w-8 md:h-8 flex-shrink-0" />
@@ -1647,6 +1829,11 @@ export function StudentDashboard() {
               </div>
             </div>
             
+            {/* Offline sync status - only shown while work is waiting to upload */}
+            <div className="flex-shrink-0 ml-6">
+              <SyncStatus status={syncStatus} />
+            </div>
+
             {/* Logout Button - Anchored near right with moderate padding */}
             <Button
               variant="ghost"
@@ -1752,26 +1939,21 @@ export function StudentDashboard() {
                         <SelectValue placeholder={selectedClass ? "Select a unit" : "Select class first"} />
                       </SelectTrigger>
                       <SelectContent>
-                        {(() => {
-                          // #region agent log
-                          fetch('http://127.0.0.1:7242/ingest/ca7e74ef-d8f9-434d-94a2-0f5f654cf3f3',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'StudentDashboard.tsx:1749',message:'Rendering unit dropdown',data:{selectedClass,unitsCount:units.length,units,selectedUnit},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'E'})}).catch(()=>{});
-                          // #endregion
-                          return units.map((unit) => {
-                            const progress = unitProgress[unit];
-                            const total = unitQuestionCounts[unit];
-                            const answered = progress ? progress.answeredQuestions.length : 0;
-                            return (
-                              <SelectItem key={unit} value={unit} className="text-3xl">
-                                {unit}{" "}
-                                {total !== undefined
-                                  ? `(Questions answered: ${answered}/${total})`
-                                  : progress
-                                    ? `(Questions answered: ${answered}/?)`
-                                    : ""}
-                              </SelectItem>
-                            );
-                          });
-                        })()}
+                        {units.map((unit) => {
+                          const progress = unitProgress[unit];
+                          const total = unitQuestionCounts[unit];
+                          const answered = progress ? progress.answeredQuestions.length : 0;
+                          return (
+                            <SelectItem key={unit} value={unit} className="text-3xl">
+                              {unit}{" "}
+                              {total !== undefined
+                                ? `(Questions answered: ${answered}/${total})`
+                                : progress
+                                  ? `(Questions answered: ${answered}/?)`
+                                  : ""}
+                            </SelectItem>
+                          );
+                        })}
                       </SelectContent>
                     </Select>
                   </div>
@@ -1840,6 +2022,22 @@ export function StudentDashboard() {
               </CardContent>
             </Card>
 
+            {/* Assigned Work Section */}
+            <AssignedWork
+              userId={user.id}
+              refreshKey={`${isQuizActive}-${isAPTestActive}`}
+              onStartAssignment={startAssignment}
+            />
+
+            {/* Spaced-Repetition Review Section */}
+            <ReviewQueue
+              userId={user.id}
+              userClasses={userClasses}
+              selectedClass={selectedClass}
+              refreshKey={isQuizActive}
+              onStartReview={startReview}
+            />
+
             {/* Practice Weak Skills Section */}
             <PracticeWeakSkillsCard 
               userId={user.id}
@@ -1848,17 +2046,35 @@ export function StudentDashboard() {
               selectedUnit={selectedUnit}
             />
 
+            {/* Free-Response Practice Section */}
+            <FreeResponsePractice userClasses={userClasses} selectedClass={selectedClass} />
+
             {/* AP Test Section */}
             <APTestSection
+              userId={user.id}
               userClasses={userClasses}
               onStartTest={handleStartAPTest}
+              onResumeTest={handleResumeAPTest}
+            />
+
+            {/* Adaptive AP Test Section */}
+            <AdaptiveAPTestCard
+              userId={user.id}
+              userClasses={userClasses}
+              selectedClass={selectedClass}
+              onStartTest={handleStartAPTest}
             />
           </TabsContent>
 
           {/* Analytics Tab */}
           <TabsContent value="analytics" className="space-y-4 animate-fade-in">
             {user && userClasses.length > 0 ? (
-              <AnalyticsDashboard key={`analytics-${user.id}`} userId={user.id} classNames={userClasses} />
+              <>
+                <AnalyticsDashboard key={`analytics-${user.id}`} userId={user.id} classNames={userClasses} />
+                <StreakHeatmap userId={user.id} />
+                <AbilityEstimate userId={user.id} apClasses={userClasses} />
+                <PointsHistory userId={user.id} userClasses={userClasses} />
+              </>
             ) : (
               <div className="p-4 text-center text-muted-foreground">Loading analytics...</div>
             )}
@@ -1992,20 +2208,34 @@ export function StudentDashboard() {
               </CardContent>
             </Card>
 
-            {userClasses.length > 1 && (
-              <Select value={currentLeaderboardClass} onValueChange={setLeaderboardClass}>
-                <SelectTrigger className="w-full h-16 text-[22.5px]">
-                  <SelectValue placeholder="Select class" />
+            <div className="flex flex-col md:flex-row gap-4">
+              {userClasses.length > 1 && (
+                <Select value={currentLeaderboardClass} onValueChange={setLeaderboardClass}>
+                  <SelectTrigger className="w-full h-16 text-[22.5px]">
+                    <SelectValue placeholder="Select class" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {userClasses.map((className) => (
+                      <SelectItem key={className} value={className} className="text-[22.5px]">
+                        {className}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={leaderboardWindow} onValueChange={(v) => setLeaderboardWindow(v as LeaderboardWindow)}>
+                <SelectTrigger className="w-full md:w-64 h-16 text-[22.5px]">
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {userClasses.map((className) => (
-                    <SelectItem key={className} value={className} className="text-[22.5px]">
-                      {className}
+                  {(Object.keys(LEADERBOARD_WINDOW_LABELS) as LeaderboardWindow[]).map((window) => (
+                    <SelectItem key={window} value={window} className="text-[22.5px]">
+                      {LEADERBOARD_WINDOW_LABELS[window]}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
-            )}
+            </div>
             
             {currentLeaderboardClass && (() => {
                   // Global leaderboard (all students in this AP class)
@@ -2018,10 +2248,11 @@ export function StudentDashboard() {
                   // Class leaderboard (only students who joined via the same class code)
                   const classCode = getClassCodeForStudent(user.id, currentLeaderboardClass);
                   const classLeaderboardEnabled = classCode ? isClassLeaderboardEnabled(classCode) : false;
-                  const classStudents = classCode ? getStudentsInSameClass(user.id, currentLeaderboardClass) : [];
+                  const classStudents = !classCode ? [] : leaderboardWindow === "all"
+                    ? getStudentsInSameClass(user.id, currentLeaderboardClass).filter(s => s.apClasses.includes(currentLeaderboardClass))
+                    : classWindowLeaderboardData;
                   // Filter out users with showRankPublicly = false (except current user)
                   const classLeaderboard = classStudents
-                    .filter(s => s.apClasses.includes(currentLeaderboardClass))
                     .filter(s => s.id === user.id || s.showRankPublicly !== false)
                     .sort((a, b) => (getClassScore(b, currentLeaderboardClass) || 0) - (getClassScore(a, currentLeaderboardClass) || 0));
                   const classUserRank = classLeaderboard.findIndex(u => u.id === user.id) + 1;
@@ -2038,7 +2269,7 @@ export function StudentDashboard() {
                             <span className="text-[20px] md:text-[22.5px] text-muted-foreground">Your rank: <strong className="text-secondary">#{classUserRank}</strong></span>
                       )}
                     </div>
-                        <CardDescription className="text-[22.5px] md:text-[25px] mt-2">Students in your class only</CardDescription>
+                        <CardDescription className="text-[22.5px] md:text-[25px] mt-2">Students in your class only · {LEADERBOARD_WINDOW_LABELS[leaderboardWindow]}</CardDescription>
                   </CardHeader>
                   <CardContent className="px-8 pb-8">
                     <div className="space-y-3">
@@ -2083,7 +2314,7 @@ export function StudentDashboard() {
                           <span className="text-[20px] md:text-[22.5px] text-muted-foreground">Your rank: <strong className="text-secondary">#{globalUserRank}</strong></span>
                         )}
                       </div>
-                      <CardDescription className="text-[22.5px] md:text-[25px] mt-2">All students in {currentLeaderboardClass}</CardDescription>
+                      <CardDescription className="text-[22.5px] md:text-[25px] mt-2">All students in {currentLeaderboardClass} · {LEADERBOARD_WINDOW_LABELS[leaderboardWindow]}</CardDescription>
                     </CardHeader>
                     <CardContent className="px-8 pb-8">
                       <div className="space-y-3">
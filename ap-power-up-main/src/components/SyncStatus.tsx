@@ -0,0 +1,38 @@
+import { SyncStatus as SyncState, flushOutbox } from "@/lib/syncQueue";
+import { CloudOff, Loader2, RefreshCw } from "lucide-react";
+
+interface Props {
+  status: SyncState;
+}
+
+// Header pill shown while student work is waiting to reach the server
+export function SyncStatus({ status }: Props) {
+  const { online, pending, syncing, lastError } = status;
+
+  if (pending === 0 && online && !syncing) return null;
+
+  const label = syncing
+    ? "Syncing..."
+    : pending > 0
+      ? `${pending} answer${pending !== 1 ? "s" : ""} waiting to sync`
+      : "Offline";
+
+  return (
+    <button
+      type="button"
+      onClick={() => flushOutbox()}
+      disabled={syncing || !online}
+      title={lastError || (online ? "Sync now" : "Your work is saved on this device and will sync when you reconnect")}
+      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-secondary-foreground/10 text-sm font-medium whitespace-nowrap disabled:cursor-default"
+    >
+      {syncing ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : online ? (
+        <RefreshCw className="w-4 h-4" />
+      ) : (
+        <CloudOff className="w-4 h-4" />
+      )}
+      {label}
+    </button>
+  );
+}
@@ -4,20 +4,22 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useAuth } from "@/contexts/AuthContext";
-import { addCustomQuestion } from "@/lib/quizData";
-import { getUnitsForClass, loadClassData } from "@/lib/jsonLoader";
 import { getLeaderboard, getClassRoster, User, getClassScore, getTeacherClassStudents, getTeacherClassLeaderboard, getTotalScore, getDisplayName, getUserQuizHistory, getClassByTeacherAndSubject, updateClassLeaderboardSetting, getClassAggregatedAnalytics, ClassAnalytics, QuizResult } from "@/lib/database";
 import { PerformanceAnalytics } from "./PerformanceAnalytics";
+import { ClassAssignments } from "./ClassAssignments";
+import { QuestionBank } from "./QuestionBank";
+import { QuestionEditor } from "./QuestionEditor";
+import { ClassExports } from "./ClassExports";
+import { ItemAnalysis } from "./ItemAnalysis";
+import { FreeResponseGrading } from "./FreeResponseGrading";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { deleteUserAccount } from "@/lib/database";
 import { 
   Users, Trophy, LogOut, BookOpen, Star, Medal, Crown,
-  ClipboardList, Flame, TrendingUp, UserX, Plus, Check, CheckCircle
+  ClipboardList, Flame, TrendingUp, UserX, Plus, CheckCircle, CalendarClock, FileText, BarChart3, PenLine
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -25,15 +27,9 @@ export function TeacherDashboard() {
   const navigate = useNavigate();
   const { user, logout } = useAuth();
   const [selectedClass, setSelectedClass] = useState<string>("");
-  const [questionUnit, setQuestionUnit] = useState<string>("");
-  const [units, setUnits] = useState<string[]>([]);
-  const [newQuestion, setNewQuestion] = useState("");
-  const [optionA, setOptionA] = useState("");
-  const [optionB, setOptionB] = useState("");
-  const [optionC, setOptionC] = useState("");
-  const [optionD, setOptionD] = useState("");
-  const [correctAnswer, setCorrectAnswer] = useState<string>("");
-  const [activeTab, setActiveTab] = useState<'roster' | 'leaderboard' | 'analytics'>('roster');
+  const [questionEditorOpen, setQuestionEditorOpen] = useState(false);
+  const [questionBankVersion, setQuestionBankVersion] = useState(0);
+  const [activeTab, setActiveTab] = useState<'roster' | 'leaderboard' | 'assignments' | 'questions' | 'items' | 'frq' | 'analytics'>('roster');
   const [viewingStudent, setViewingStudent] = useState<User | null>(null);
   const [classAnalytics, setClassAnalytics] = useState<{ studentId: string; analytics: ClassAnalytics }[]>([]);
   const [loadingAnalytics, setLoadingAnalytics] = useState(false);
@@ -68,22 +64,6 @@ export function TeacherDashboard() {
   // Use first class by default if none selected
   const activeClass = selectedClass || user.apClasses[0] || "";
   
-  useEffect(() => {
-    if (activeClass) {
-      // Load classData to get exact unit names from dataset
-      loadClassData(activeClass).then((classData) => {
-        if (classData) {
-          // Use exact unitName from dataset
-          const unitNames = classData.units.map(u => u.unitName);
-          setUnits(unitNames);
-        } else {
-          setUnits([]);
-        }
-      });
-    } else {
-      setUnits([]);
-    }
-  }, [activeClass]);
   // Get students who joined via teacher's class codes
   const roster = activeClass ? getTeacherClassStudents(user.id, activeClass) : [];
   const leaderboard = activeClass ? getTeacherClassLeaderboard(user.id, activeClass) : [];
@@ -107,49 +87,6 @@ export function TeacherDashboard() {
     toast.success("Logged out successfully");
   };
 
-  const handleAddQuestion = () => {
-    if (!questionUnit) {
-      toast.error("Please select a unit first");
-      return;
-    }
-    if (!newQuestion.trim()) {
-      toast.error("Please enter a question");
-      return;
-    }
-    if (!optionA.trim() || !optionB.trim() || !optionC.trim() || !optionD.trim()) {
-      toast.error("Please fill in all four options");
-      return;
-    }
-    if (!correctAnswer) {
-      toast.error("Please select the correct answer");
-      return;
-    }
-
-    const options = [optionA.trim(), optionB.trim(), optionC.trim(), optionD.trim()];
-    const answerText = correctAnswer === 'A' ? optionA.trim() 
-      : correctAnswer === 'B' ? optionB.trim()
-      : correctAnswer === 'C' ? optionC.trim()
-      : optionD.trim();
-
-    addCustomQuestion(activeClass, questionUnit, {
-      question: newQuestion.trim(),
-      options,
-      answer: answerText
-    });
-
-    // Reset form
-    setNewQuestion("");
-    setOptionA("");
-    setOptionB("");
-    setOptionC("");
-    setOptionD("");
-    setCorrectAnswer("");
-
-    toast.success("Question added!", {
-      description: `Added to ${questionUnit} in ${activeClass}`
-    });
-  };
-
   const getRankIcon = (rank: number) => {
     if (rank === 1) return <Crown className="w-5 h-5 text-gold" />;
     if (rank === 2) return <Medal className="w-5 h-5 text-silver" />;
@@ -190,7 +127,7 @@ export function TeacherDashboard() {
         {/* Class Selector */}
         <div className="mb-6">
           <label className="text-sm font-medium text-muted-foreground mb-2 block">Select Class to View</label>
-          <Select value={activeClass} onValueChange={(v) => { setSelectedClass(v); setQuestionUnit(""); }}>
+          <Select value={activeClass} onValueChange={setSelectedClass}>
             <SelectTrigger className="w-full max-w-xs h-12">
               <SelectValue placeholder="Choose a class" />
             </SelectTrigger>
@@ -292,6 +229,54 @@ export function TeacherDashboard() {
                 <Trophy className="w-5 h-5" />
                 Leaderboard
               </button>
+              <button
+                onClick={() => setActiveTab('assignments')}
+                className={`flex-1 flex items-center justify-center gap-2 py-3 px-4 rounded-lg font-medium transition-all
+                  ${activeTab === 'assignments' 
+                    ? 'bg-card text-foreground shadow-md' 
+                    : 'text-muted-foreground hover:text-foreground'
+                  }
+                `}
+              >
+                <CalendarClock className="w-5 h-5" />
+                Assignments
+              </button>
+              <button
+                onClick={() => setActiveTab('questions')}
+                className={`flex-1 flex items-center justify-center gap-2 py-3 px-4 rounded-lg font-medium transition-all
+                  ${activeTab === 'questions' 
+                    ? 'bg-card text-foreground shadow-md' 
+                    : 'text-muted-foreground hover:text-foreground'
+                  }
+                `}
+              >
+                <FileText className="w-5 h-5" />
+                Questions
+              </button>
+              <button
+                onClick={() => setActiveTab('items')}
+                className={`flex-1 flex items-center justify-center gap-2 py-3 px-4 rounded-lg font-medium transition-all
+                  ${activeTab === 'items' 
+                    ? 'bg-card text-foreground shadow-md' 
+                    : 'text-muted-foreground hover:text-foreground'
+                  }
+                `}
+              >
+                <BarChart3 className="w-5 h-5" />
+                Item Analysis
+              </button>
+              <button
+                onClick={() => setActiveTab('frq')}
+                className={`flex-1 flex items-center justify-center gap-2 py-3 px-4 rounded-lg font-medium transition-all
+                  ${activeTab === 'frq' 
+                    ? 'bg-card text-foreground shadow-md' 
+                    : 'text-muted-foreground hover:text-foreground'
+                  }
+                `}
+              >
+                <PenLine className="w-5 h-5" />
+                Free Response
+              </button>
               <button
                 onClick={async () => {
                   setActiveTab('analytics');
@@ -384,6 +369,18 @@ export function TeacherDashboard() {
                     )}
                   </CardContent>
                 </>
+              ) : activeTab === 'assignments' ? (
+                <ClassAssignments
+                  teacherId={user.id}
+                  classCode={classData?.classCode || null}
+                  apClassName={activeClass}
+                />
+              ) : activeTab === 'questions' ? (
+                <QuestionBank apClassName={activeClass} refreshKey={questionBankVersion} />
+              ) : activeTab === 'items' ? (
+                <ItemAnalysis apClassName={activeClass} />
+              ) : activeTab === 'frq' ? (
+                <FreeResponseGrading apClassName={activeClass} />
               ) : activeTab === 'analytics' ? (
                 <CardContent className="p-0">
                   <PerformanceAnalytics
@@ -458,79 +455,24 @@ export function TeacherDashboard() {
                   <Plus className="w-5 h-5 text-accent" />
                   Add Question
                 </CardTitle>
-                <CardDescription>Create a multiple choice question</CardDescription>
+                <CardDescription>Write a question with stimulus, math and skill tags for {activeClass}</CardDescription>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label className="text-xs text-muted-foreground">Select Unit</Label>
-                  <Select value={questionUnit} onValueChange={setQuestionUnit}>
-                    <SelectTrigger className="h-10">
-                      <SelectValue placeholder="Choose a unit" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {units.map((unit) => (
-                        <SelectItem key={unit} value={unit}>
-                          {unit}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div className="space-y-2">
-                  <Label className="text-xs text-muted-foreground">Question</Label>
-                  <Input
-                    placeholder="Enter your question..."
-                    value={newQuestion}
-                    onChange={(e) => setNewQuestion(e.target.value)}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label className="text-xs text-muted-foreground">Answer Options</Label>
-                  <div className="grid grid-cols-1 gap-2">
-                    {[
-                      { label: 'A', value: optionA, setter: setOptionA },
-                      { label: 'B', value: optionB, setter: setOptionB },
-                      { label: 'C', value: optionC, setter: setOptionC },
-                      { label: 'D', value: optionD, setter: setOptionD },
-                    ].map(({ label, value, setter }) => (
-                      <div key={label} className="flex items-center gap-2">
-                        <button
-                          type="button"
-                          onClick={() => setCorrectAnswer(label)}
-                          className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-medium transition-all shrink-0
-                            ${correctAnswer === label 
-                              ? 'bg-success text-success-foreground' 
-                              : 'bg-muted text-muted-foreground hover:bg-muted/80'
-                            }`}
-                        >
-                          {correctAnswer === label ? <Check className="w-4 h-4" /> : label}
-                        </button>
-                        <Input
-                          placeholder={`Option ${label}`}
-                          value={value}
-                          onChange={(e) => setter(e.target.value)}
-                          className="h-8 text-sm"
-                        />
-                      </div>
-                    ))}
-                  </div>
-                  <p className="text-xs text-muted-foreground">Click A/B/C/D to mark as correct answer</p>
-                </div>
-
+              <CardContent>
                 <Button 
                   variant="teacher" 
                   className="w-full"
-                  onClick={handleAddQuestion}
-                  disabled={!questionUnit || !newQuestion || !optionA || !optionB || !optionC || !optionD || !correctAnswer}
+                  onClick={() => setQuestionEditorOpen(true)}
+                  disabled={!activeClass}
                 >
                   <Plus className="w-4 h-4 mr-2" />
-                  Add Question
+                  Open Question Editor
                 </Button>
               </CardContent>
             </Card>
 
+            {/* Export Data */}
+            <ClassExports apClassName={activeClass} classCode={classData?.classCode || null} />
+
             {/* Quick Stats */}
             <Card variant="elevated" className="animate-fade-in" style={{ animationDelay: '0.5s' }}>
               <CardHeader>
@@ -699,6 +641,14 @@ export function TeacherDashboard() {
           })()}
         </DialogContent>
       </Dialog>
+
+      {/* Question Editor */}
+      <QuestionEditor
+        open={questionEditorOpen}
+        onOpenChange={setQuestionEditorOpen}
+        apClassName={activeClass}
+        onSaved={() => setQuestionBankVersion(version => version + 1)}
+      />
     </div>
   );
 }
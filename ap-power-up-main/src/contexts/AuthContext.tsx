@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User } from '@/lib/database';
+import { fromApiUser, User } from '@/lib/database';
 import { authApi, userApi, classApi } from '@/lib/api';
 
 interface AuthContextType {
@@ -24,29 +24,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Try to get current user from API
     authApi.getCurrentUser()
       .then(userData => {
-        // Transform API response to User format
-        const transformedUser: User = {
-          id: userData.id,
-          username: userData.username,
-          password: '', // Never expose password
-          firstName: userData.first_name,
-          lastName: userData.last_name,
-          nickname: userData.nickname,
-          displayPreference: userData.display_preference,
-          role: userData.role,
-          apClasses: userData.apClasses || [],
-          classScores: userData.classScores || {},
-          streak: userData.streak || 0,
-          createdAt: userData.created_at,
-          lastQuizDate: userData.last_quiz_date,
-          lastDecayTimestamp: userData.last_decay_timestamp,
-          dailyPoints: userData.dailyPoints,
-          showLeaderboard: userData.show_leaderboard ?? true,
-          showRank: userData.show_rank ?? true,
-          showRankPublicly: userData.show_rank_publicly ?? true,
-          trackConfidence: userData.track_confidence !== undefined ? userData.track_confidence : (localStorage.getItem('trackConfidence') !== null ? localStorage.getItem('trackConfidence') === 'true' : true)
-        };
-        setUser(transformedUser);
+        setUser(fromApiUser(userData));
       })
       .catch(() => {
         // Not logged in or error
@@ -61,29 +39,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const result = await authApi.login(username, password);
       if (result.success && result.user) {
-        // Transform API response to User format
-        const transformedUser: User = {
-          id: result.user.id,
-          username: result.user.username,
-          password: '',
-          firstName: result.user.first_name,
-          lastName: result.user.last_name,
-          nickname: result.user.nickname,
-          displayPreference: result.user.display_preference,
-          role: result.user.role,
-          apClasses: result.user.apClasses || [],
-          classScores: result.user.classScores || {},
-          streak: result.user.streak || 0,
-          createdAt: result.user.created_at,
-          lastQuizDate: result.user.last_quiz_date,
-          lastDecayTimestamp: result.user.last_decay_timestamp,
-          dailyPoints: result.user.dailyPoints,
-          showLeaderboard: result.user.show_leaderboard ?? true,
-          showRank: result.user.show_rank ?? true,
-          showRankPublicly: result.user.show_rank_publicly ?? true,
-          trackConfidence: result.user.track_confidence !== undefined ? result.user.track_confidence : (localStorage.getItem('trackConfidence') !== null ? localStorage.getItem('trackConfidence') === 'true' : true)
-        };
-        setUser(transformedUser);
+        setUser(fromApiUser(result.user));
       }
       return { success: result.success, message: result.message };
     } catch (error: any) {
@@ -108,7 +64,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         let classCode: string | undefined;
         if (role === 'teacher' && apClasses.length > 0) {
           try {
-            const classResult = await classApi.createClass(apClasses[0]);
+            const classResult = await classApi.createClass({ apClassName: apClasses[0] });
             if (classResult.success && classResult.classCode) {
               classCode = classResult.classCode;
             }
@@ -117,29 +73,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           }
         }
         
-        // Transform API response to User format
-        const transformedUser: User = {
-          id: result.user.id,
-          username: result.user.username,
-          password: '',
-          firstName: result.user.first_name,
-          lastName: result.user.last_name,
-          nickname: result.user.nickname,
-          displayPreference: result.user.display_preference,
-          role: result.user.role,
-          apClasses: result.user.apClasses || [],
-          classScores: result.user.classScores || {},
-          streak: result.user.streak || 0,
-          createdAt: result.user.created_at,
-          lastQuizDate: result.user.last_quiz_date,
-          lastDecayTimestamp: result.user.last_decay_timestamp,
-          dailyPoints: result.user.dailyPoints,
-          showLeaderboard: result.user.show_leaderboard ?? true,
-          showRank: result.user.show_rank ?? true,
-          showRankPublicly: result.user.show_rank_publicly ?? true,
-          trackConfidence: result.user.track_confidence !== undefined ? result.user.track_confidence : (localStorage.getItem('trackConfidence') !== null ? localStorage.getItem('trackConfidence') === 'true' : true)
-        };
-        setUser(transformedUser);
+        setUser(fromApiUser(result.user));
         
         return { success: result.success, message: result.message, classCode };
       }
@@ -162,38 +96,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (!user) return;
     try {
       const userData = await authApi.getCurrentUser();
-      // Preserve current values if API doesn't return them (backend might not include them in /auth/me)
-      // Check localStorage as fallback for trackConfidence preference
-      const storedTrackConfidence = localStorage.getItem('trackConfidence');
-      const trackConfidenceValue = 'track_confidence' in userData && userData.track_confidence !== undefined 
-        ? userData.track_confidence 
-        : (user?.trackConfidence !== undefined ? user.trackConfidence : (storedTrackConfidence !== null ? storedTrackConfidence === 'true' : true));
-      const showRankPubliclyValue = 'show_rank_publicly' in userData && userData.show_rank_publicly !== undefined
-        ? userData.show_rank_publicly
-        : (user.showRankPublicly ?? true);
-      const finalClassScores = userData.classScores || {};
-      const transformedUser: User = {
-        id: userData.id,
-        username: userData.username,
-        password: '',
-        firstName: userData.first_name,
-        lastName: userData.last_name,
-        nickname: userData.nickname,
-        displayPreference: userData.display_preference,
-        role: userData.role,
-        apClasses: userData.apClasses || [],
-        classScores: finalClassScores,
-        streak: userData.streak || 0,
-        createdAt: userData.created_at,
-        lastQuizDate: userData.last_quiz_date,
-        lastDecayTimestamp: userData.last_decay_timestamp,
-        dailyPoints: userData.dailyPoints,
-        showLeaderboard: userData.show_leaderboard,
-        showRank: userData.show_rank,
-        showRankPublicly: showRankPubliclyValue,
-        trackConfidence: trackConfidenceValue
-      };
-      setUser(transformedUser);
+      setUser(fromApiUser(userData));
     } catch (error) {
       console.error('Failed to refresh user:', error);
       setUser(null);
@@ -218,32 +121,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         
         // Try to persist via API - first try the dedicated endpoint
         try {
-          const result = await userApi.addClass(user.id, apClass);
+          const result = await userApi.addClass(user.id, { apClass });
           
           if (result.success && result.user) {
-            // Update with server response
-            const transformedUser: User = {
-              id: result.user.id,
-              username: result.user.username,
-              password: '',
-              firstName: result.user.first_name,
-              lastName: result.user.last_name,
-              nickname: result.user.nickname,
-              displayPreference: result.user.display_preference,
-              role: result.user.role,
-              apClasses: result.user.apClasses || [],
-              classScores: result.user.classScores || {},
-              streak: result.user.streak || 0,
-              createdAt: result.user.created_at,
-              lastQuizDate: result.user.last_quiz_date,
-              lastDecayTimestamp: result.user.last_decay_timestamp,
-              dailyPoints: result.user.dailyPoints,
-              showLeaderboard: result.user.show_leaderboard ?? true,
-              showRank: result.user.show_rank ?? true,
-              showRankPublicly: result.user.show_rank_publicly ?? true,
-              trackConfidence: result.user.track_confidence !== undefined ? result.user.track_confidence : (user.trackConfidence ?? true)
-            };
-            setUser(transformedUser);
+            setUser(fromApiUser(result.user));
             return; // Success, exit early
           }
         } catch (addClassError: any) {
@@ -283,29 +164,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const result = await userApi.removeClass(user.id, apClass);
         
         if (result.success && result.user) {
-          // Update with server response
-          const transformedUser: User = {
-            id: result.user.id,
-            username: result.user.username,
-            password: '',
-            firstName: result.user.first_name,
-            lastName: result.user.last_name,
-            nickname: result.user.nickname,
-            displayPreference: result.user.display_preference,
-            role: result.user.role,
-            apClasses: result.user.apClasses || [],
-            classScores: result.user.classScores || {},
-            streak: result.user.streak || 0,
-            createdAt: result.user.created_at,
-            lastQuizDate: result.user.last_quiz_date,
-            lastDecayTimestamp: result.user.last_decay_timestamp,
-            dailyPoints: result.user.dailyPoints,
-            showLeaderboard: result.user.show_leaderboard ?? true,
-            showRank: result.user.show_rank ?? true,
-            showRankPublicly: result.user.show_rank_publicly ?? true,
-            trackConfidence: result.user.track_confidence !== undefined ? result.user.track_confidence : (user.trackConfidence ?? true)
-          };
-          setUser(transformedUser);
+          setUser(fromApiUser(result.user));
         } else {
           // If API doesn't support it or fails, refresh user to sync
           await refreshUser();
@@ -321,39 +180,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (user) {
       try {
         const updatedUser = await userApi.updateProfile(user.id, updates);
-        // Preserve requested value if API doesn't return it, otherwise use API value
-        const trackConfidenceValue = 'track_confidence' in updatedUser && updatedUser.track_confidence !== undefined
-          ? updatedUser.track_confidence
-          : (updates.trackConfidence !== undefined ? updates.trackConfidence : (user.trackConfidence ?? true));
-        // Save to localStorage as fallback since API doesn't return it
-        if (updates.trackConfidence !== undefined) {
-          localStorage.setItem('trackConfidence', String(updates.trackConfidence));
-        }
-        const showRankPubliclyValue = 'show_rank_publicly' in updatedUser && updatedUser.show_rank_publicly !== undefined
-          ? updatedUser.show_rank_publicly
-          : (updates.showRankPublicly !== undefined ? updates.showRankPublicly : (user.showRankPublicly ?? true));
-        const transformedUser: User = {
-          id: updatedUser.id,
-          username: updatedUser.username,
-          password: '',
-          firstName: updatedUser.first_name,
-          lastName: updatedUser.last_name,
-          nickname: updatedUser.nickname,
-          displayPreference: updatedUser.display_preference,
-          role: updatedUser.role,
-          apClasses: updatedUser.apClasses || [],
-          classScores: updatedUser.classScores || {},
-          streak: updatedUser.streak || 0,
-          createdAt: updatedUser.created_at,
-          lastQuizDate: updatedUser.last_quiz_date,
-          lastDecayTimestamp: updatedUser.last_decay_timestamp,
-        dailyPoints: updatedUser.dailyPoints,
-        showLeaderboard: updatedUser.show_leaderboard,
-        showRank: updatedUser.show_rank,
-        showRankPublicly: showRankPubliclyValue,
-        trackConfidence: trackConfidenceValue
-      };
-        setUser(transformedUser);
+        setUser(fromApiUser(updatedUser));
       } catch (error: any) {
         console.error('Failed to update profile:', error);
         throw error; // Re-throw so caller can handle it
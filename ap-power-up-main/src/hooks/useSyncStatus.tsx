@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { SyncStatus, getSyncStatus, subscribeSyncStatus, startSyncQueue, stopSyncQueue } from "@/lib/syncQueue";
+
+/**
+ * Hook to replay a student's offline outbox while they are signed in and follow its status
+ */
+export function useSyncStatus(userId: string | undefined): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  useEffect(() => {
+    if (!userId) return;
+    const unsubscribe = subscribeSyncStatus(setStatus);
+    startSyncQueue(userId);
+    setStatus(getSyncStatus());
+    return () => {
+      unsubscribe();
+      stopSyncQueue();
+    };
+  }, [userId]);
+
+  return status;
+}
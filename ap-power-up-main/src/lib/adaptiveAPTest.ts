@@ -0,0 +1,351 @@
+// Adaptive AP Test Builder
+// Assembles a timed AP-style test from the unit question bank, weighted toward
+// the student's weak skills and shaped like the class's real AP tests
+
+import { APExamSection, APTestData, APTestQuestion, APTest } from './apTestData';
+import { Question } from './questionData';
+import { loadClassData } from './jsonLoader';
+import { loadAPTestsForClass } from './apTestLoader';
+import { computeAdvancedAnalytics, WeakSkill } from './advancedAnalytics';
+import { SECURE_DELIVERY } from './grading';
+import { getFreeResponseQuestions } from './freeResponse';
+import { FreeResponseQuestionRecord } from './api';
+import { isKeyedQuestionType } from './itemTypes';
+
+// Adaptive attempts are stored with this test_id so they never collide with fixed tests
+export const ADAPTIVE_TEST_ID = 0;
+
+const DEFAULT_QUESTION_COUNT = 40;
+const DEFAULT_SECONDS_PER_QUESTION = 90;
+const WEAK_SKILL_WEIGHT = 3; // Extra weight per weak skill a question covers
+const WEAK_QUESTION_WEIGHT = 2; // Extra weight if the question was flagged for practice
+const MAX_FREE_RESPONSE_QUESTIONS = 2;
+const SECTION_BREAK_MINUTES = 10; // Between the multiple-choice and free-response sections
+const SECONDS_PER_FREE_RESPONSE_POINT = 150;
+
+type Difficulty = APTestQuestion['difficulty'];
+
+export interface APTestBlueprint {
+  totalQuestions: number;
+  secondsPerQuestion: number;
+  // Share of the test for each "difficulty|skill_type" cell, summing to 1
+  distribution: Record<string, number>;
+}
+
+// Used when the class has no fixed AP tests to copy the shape from
+export const DEFAULT_AP_TEST_BLUEPRINT: APTestBlueprint = {
+  totalQuestions: DEFAULT_QUESTION_COUNT,
+  secondsPerQuestion: DEFAULT_SECONDS_PER_QUESTION,
+  distribution: buildDistribution(
+    { Easy: 0.3, Medium: 0.5, Hard: 0.2 },
+    { Conceptual: 0.3, Calculation: 0.2, Analysis: 0.3, Interpretation: 0.2 }
+  ),
+};
+
+interface BankQuestion {
+  question: Question;
+  unitName: string;
+  difficulty: Difficulty;
+  skillType: string;
+  weight: number;
+}
+
+function cellKey(difficulty: string, skillType: string): string {
+  return `${difficulty}|${skillType}`;
+}
+
+function buildDistribution(
+  difficulties: Record<string, number>,
+  skillTypes: Record<string, number>
+): Record<string, number> {
+  const distribution: Record<string, number> = {};
+  Object.entries(difficulties).forEach(([difficulty, pDifficulty]) => {
+    Object.entries(skillTypes).forEach(([skillType, pSkill]) => {
+      distribution[cellKey(difficulty, skillType)] = pDifficulty * pSkill;
+    });
+  });
+  return distribution;
+}
+
+function normalizeDifficulty(difficulty: string | undefined): Difficulty {
+  switch ((difficulty || '').toLowerCase()) {
+    case 'easy':
+      return 'Easy';
+    case 'hard':
+      return 'Hard';
+    default:
+      return 'Medium';
+  }
+}
+
+/**
+ * Map a bank question's cognitive level onto the AP test skill types
+ * ("Conceptual", "Calculation", "Analysis", "Interpretation")
+ */
+export function getSkillTypeForCognitiveLevel(cognitiveLevel: string | undefined): string {
+  const level = (cognitiveLevel || '').toLowerCase();
+  if (level.includes('calculation') || level.includes('application') || level.includes('deduction')) {
+    return 'Calculation';
+  }
+  if (level.includes('interpretation') || level.includes('evaluation') || level.includes('synthesis') || level.includes('prediction')) {
+    return 'Interpretation';
+  }
+  if (level.includes('analysis') || level.includes('mechanism') || level.includes('process')) {
+    return 'Analysis';
+  }
+  return 'Conceptual';
+}
+
+/**
+ * Derive the blueprint from the class's fixed AP tests, falling back to the default
+ */
+export function getAPTestBlueprint(tests: APTest[]): APTestBlueprint {
+  const questions = tests.flatMap(test => test.questions);
+  if (questions.length === 0) {
+    return DEFAULT_AP_TEST_BLUEPRINT;
+  }
+
+  const counts: Record<string, number> = {};
+  questions.forEach(q => {
+    const key = cellKey(normalizeDifficulty(q.difficulty), q.skill_type || 'Conceptual');
+    counts[key] = (counts[key] || 0) + 1;
+  });
+
+  const distribution: Record<string, number> = {};
+  Object.entries(counts).forEach(([key, count]) => {
+    distribution[key] = count / questions.length;
+  });
+
+  const testsWithQuestions = tests.filter(test => test.questions.length > 0);
+  const totalMinutes = testsWithQuestions.reduce((sum, test) => sum + test.time_limit_minutes, 0);
+
+  return {
+    totalQuestions: Math.round(questions.length / testsWithQuestions.length),
+    secondsPerQuestion: Math.round((totalMinutes * 60) / questions.length) || DEFAULT_SECONDS_PER_QUESTION,
+    distribution,
+  };
+}
+
+/**
+ * Weight a question by how many of the student's weak skills it exercises
+ */
+function getQuestionWeight(question: Question, weakSkills: WeakSkill[], weakQuestionIds: Set<string>): number {
+  const skillTags = question.metadata?.skillTags || [];
+  const weakSkillMatches = weakSkills.filter(skill => skillTags.includes(skill.skill)).length;
+  let weight = 1 + weakSkillMatches * WEAK_SKILL_WEIGHT;
+  if (weakQuestionIds.has(question.id)) {
+    weight += WEAK_QUESTION_WEIGHT;
+  }
+  return weight;
+}
+
+/**
+ * Weighted sampling without replacement (Efraimidis-Spirakis)
+ */
+function weightedSample<T extends { weight: number }>(items: T[], count: number, random: () => number): T[] {
+  return items
+    .map(item => ({ item, key: Math.pow(random(), 1 / item.weight) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(({ item }) => item);
+}
+
+/**
+ * Split the test length across blueprint cells, giving rounding leftovers to the largest remainders
+ */
+function allocateCells(blueprint: APTestBlueprint, totalQuestions: number): Record<string, number> {
+  const entries = Object.entries(blueprint.distribution);
+  const exact = entries.map(([key, share]) => ({ key, value: share * totalQuestions }));
+  const allocation: Record<string, number> = {};
+  exact.forEach(({ key, value }) => {
+    allocation[key] = Math.floor(value);
+  });
+
+  let remaining = totalQuestions - Object.values(allocation).reduce((sum, n) => sum + n, 0);
+  exact
+    .sort((a, b) => (b.value % 1) - (a.value % 1))
+    .forEach(({ key }) => {
+      if (remaining > 0) {
+        allocation[key] += 1;
+        remaining -= 1;
+      }
+    });
+
+  return allocation;
+}
+
+/**
+ * Convert a bank question to the AP test format. Multiple-choice questions whose options are
+ * not A-D are skipped; multi-select, numeric, ordering and matching questions keep their options.
+ * Under secure delivery bank questions have no key; the test is graded from sourceQuestionId.
+ */
+function toAPTestQuestion(bankQuestion: BankQuestion, id: number, secondsPerQuestion: number): APTestQuestion | null {
+  const { question } = bankQuestion;
+  const common = {
+    id,
+    question_text: question.questionText,
+    sourceQuestionId: question.id,
+    skill_type: bankQuestion.skillType,
+    difficulty: bankQuestion.difficulty,
+    estimated_time_seconds: secondsPerQuestion,
+    tags: [bankQuestion.unitName, ...(question.metadata?.skillTags || [])],
+    stimulus: question.stimulus,
+    stimulusMeta: question.stimulusMeta,
+  };
+
+  if (isKeyedQuestionType(question.type)) {
+    if (!SECURE_DELIVERY && !question.answerKey) {
+      return null;
+    }
+    return {
+      ...common,
+      type: question.type,
+      choices: question.options,
+      itemFormat: question.itemFormat,
+      answerKey: SECURE_DELIVERY ? undefined : question.answerKey,
+    };
+  }
+
+  const optionContent = (optionId: string) => question.options.find(o => o.id === optionId)?.content;
+  const correct = question.correctAnswerId as APTestQuestion['correct_answer'];
+
+  if (question.options.length !== 4 || (!SECURE_DELIVERY && !['A', 'B', 'C', 'D'].includes(correct!))) {
+    return null;
+  }
+  if (['A', 'B', 'C', 'D'].some(optionId => optionContent(optionId) === undefined)) {
+    return null;
+  }
+
+  return {
+    ...common,
+    options: {
+      A: optionContent('A')!,
+      B: optionContent('B')!,
+      C: optionContent('C')!,
+      D: optionContent('D')!,
+    },
+    correct_answer: SECURE_DELIVERY ? undefined : correct,
+  };
+}
+
+// A free-response bank question, asked after the multiple choice as on the AP exam.
+// Students see the parts and their points; the rubric comes back with their saved answers.
+function toFreeResponseAPTestQuestion(question: FreeResponseQuestionRecord, id: number): APTestQuestion {
+  const points = question.parts.reduce((sum, part) => sum + part.points, 0);
+  return {
+    id,
+    type: 'free_response',
+    question_text: question.questionText,
+    parts: question.parts,
+    sourceQuestionId: question.id,
+    skill_type: 'Free Response',
+    difficulty: normalizeDifficulty(question.metadata?.difficulty as string | undefined),
+    estimated_time_seconds: points * SECONDS_PER_FREE_RESPONSE_POINT,
+    tags: [question.unitName],
+  };
+}
+
+/**
+ * Build an adaptive AP test for a student
+ * @param userId - Student whose weak skills drive question selection
+ * @param className - Name of the AP class (e.g., "AP Biology")
+ * @param random - Random source, injectable for reproducible tests
+ * @returns Promise<APTestData | null> - null if the class has no usable questions
+ */
+export async function buildAdaptiveAPTest(
+  userId: string,
+  className: string,
+  random: () => number = Math.random
+): Promise<APTestData | null> {
+  const [classData, analytics, fixedTests, freeResponseBank] = await Promise.all([
+    loadClassData(className),
+    computeAdvancedAnalytics(userId, className),
+    loadAPTestsForClass(className),
+    // Free-response answers are saved and scored on the backend, so offline tests go without
+    getFreeResponseQuestions(className).catch(() => []),
+  ]);
+
+  if (!classData) {
+    console.error(`[Adaptive AP Test] No question bank found for ${className}`);
+    return null;
+  }
+
+  const weakSkills = analytics?.weakSkills || [];
+  const weakQuestionIds = new Set(weakSkills.flatMap(skill => skill.questionIds));
+  const blueprint = getAPTestBlueprint(fixedTests);
+
+  const bank: BankQuestion[] = classData.units.flatMap(unit =>
+    unit.subtopics.flatMap(subtopic =>
+      subtopic.questions.map(question => ({
+        question,
+        unitName: unit.unitName,
+        difficulty: normalizeDifficulty(question.metadata?.difficulty),
+        skillType: getSkillTypeForCognitiveLevel(question.metadata?.cognitiveLevel),
+        weight: getQuestionWeight(question, weakSkills, weakQuestionIds),
+      }))
+    )
+  ).filter(bankQuestion => toAPTestQuestion(bankQuestion, 0, 0) !== null);
+
+  if (bank.length === 0) {
+    console.error(`[Adaptive AP Test] No A-D multiple choice or other objective questions available for ${className}`);
+    return null;
+  }
+
+  const totalQuestions = Math.min(blueprint.totalQuestions, bank.length);
+  const allocation = allocateCells(blueprint, totalQuestions);
+
+  // Fill each difficulty/skill cell first, then top up from whatever is left
+  const selected: BankQuestion[] = [];
+  const used = new Set<string>();
+  Object.entries(allocation).forEach(([key, count]) => {
+    const cell = bank.filter(q => cellKey(q.difficulty, q.skillType) === key);
+    weightedSample(cell, count, random).forEach(q => {
+      selected.push(q);
+      used.add(q.question.id);
+    });
+  });
+  if (selected.length < totalQuestions) {
+    const remaining = bank.filter(q => !used.has(q.question.id));
+    selected.push(...weightedSample(remaining, totalQuestions - selected.length, random));
+  }
+
+  // Shuffle (uniform weights) so cells are not grouped together on the test
+  const ordered = weightedSample(selected.map(q => ({ ...q, weight: 1 })), selected.length, random);
+  const questions = ordered.map((q, index) => toAPTestQuestion(q, index + 1, blueprint.secondsPerQuestion)!);
+
+  const freeResponses = weightedSample(freeResponseBank.map(question => ({ question, weight: 1 })), MAX_FREE_RESPONSE_QUESTIONS, random)
+    .map(({ question }, index) => toFreeResponseAPTestQuestion(question, questions.length + index + 1));
+  questions.push(...freeResponses);
+
+  console.log(`[Adaptive AP Test] Built ${questions.length}-question test (${freeResponses.length} free response) for ${className} targeting ${weakSkills.length} weak skills`);
+
+  const minutesFor = (part: APTestQuestion[]) => Math.ceil(part.reduce((sum, question) => sum + question.estimated_time_seconds, 0) / 60);
+  const multipleChoice = questions.slice(0, questions.length - freeResponses.length);
+  // Like the real exam, free response is a second section after a break
+  const sections: APExamSection[] | undefined = freeResponses.length > 0 ? [
+    {
+      id: 'multiple-choice',
+      name: 'Section I: Multiple Choice',
+      time_limit_minutes: minutesFor(multipleChoice),
+      question_ids: multipleChoice.map(question => question.id),
+      break_minutes_after: SECTION_BREAK_MINUTES,
+    },
+    {
+      id: 'free-response',
+      name: 'Section II: Free Response',
+      time_limit_minutes: minutesFor(freeResponses),
+      question_ids: freeResponses.map(question => question.id),
+    },
+  ] : undefined;
+
+  return {
+    ap_class: className,
+    test_id: ADAPTIVE_TEST_ID,
+    total_questions: questions.length,
+    time_limit_minutes: sections
+      ? sections.reduce((sum, section) => sum + section.time_limit_minutes, 0)
+      : minutesFor(questions),
+    questions,
+    sections,
+  };
+}
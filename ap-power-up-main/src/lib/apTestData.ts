@@ -1,18 +1,32 @@
 // AP Test Data Types
 // Defines interfaces for AP-style full-length test structure and tracking
 
-import { StimulusItem, StimulusMeta, StimulusPerformance } from "./questionData";
+import { QuestionOption, StimulusItem, StimulusMeta, StimulusPerformance } from "./questionData";
+import { FreeResponseSummary, PublicFreeResponsePart } from "./freeResponse";
+import { AnswerKey, ItemAnswer, ItemFormat, QuestionType } from "./itemTypes";
+import { createClientId } from "./syncQueue";
+import { APExamSectionTiming, APTestSummary } from "../../shared/apTestSummary";
+
+// Predicted score cutoffs live in /shared so the backend predicts with the same ones
+export * from "../../shared/apScore";
+export type { APExamSectionSummary, APExamSectionTiming } from "../../shared/apTestSummary";
 
 export interface APTestQuestion {
   id: number;
+  type?: QuestionType; // Multiple choice when left out
   question_text: string; // Can contain LaTeX
-  options: {
+  options?: { // Multiple choice only
     A: string;
     B: string;
     C: string;
     D: string;
   };
-  correct_answer: "A" | "B" | "C" | "D";
+  choices?: QuestionOption[]; // Options of multi-select, ordering and matching questions
+  itemFormat?: ItemFormat | null; // Units and prompts of keyed questions
+  answerKey?: AnswerKey | null; // Keyed questions; left out by secure delivery until the test is graded
+  parts?: PublicFreeResponsePart[]; // Free response only; scored against the rubric after the test
+  correct_answer?: "A" | "B" | "C" | "D"; // Left out by secure delivery until the test is graded
+  sourceQuestionId?: string; // Bank question an adaptive test question was built from
   skill_type: string; // e.g., "Conceptual", "Calculation", "Analysis", "Interpretation"
   difficulty: "Easy" | "Medium" | "Hard";
   estimated_time_seconds: number;
@@ -33,11 +47,23 @@ export interface APTestQuestion {
   };
 }
 
+// A timed part of an AP exam, e.g. "Section I: Multiple Choice". Sections are taken in
+// order and locked once finished, so students cannot go back to them.
+export interface APExamSection {
+  id: string;
+  name: string;
+  time_limit_minutes: number;
+  question_ids: number[]; // APTestQuestion ids, in the order they are asked
+  calculator_allowed?: boolean; // Shown to the student; left out when the course has no rule
+  break_minutes_after?: number; // Break before the next section starts
+}
+
 export interface APTest {
   test_id: number;
   total_questions: number;
-  time_limit_minutes: number;
+  time_limit_minutes: number; // Sum of the section time limits when the test has sections
   questions: APTestQuestion[];
+  sections?: APExamSection[]; // A single section of every question when left out
 }
 
 export interface APTestData {
@@ -46,6 +72,7 @@ export interface APTestData {
   total_questions: number;
   time_limit_minutes: number;
   questions: APTestQuestion[];
+  sections?: APExamSection[];
 }
 
 export interface APTestClassFile {
@@ -57,6 +84,8 @@ export interface APTestClassFile {
 export interface APTestQuestionResponse {
   questionId: number;
   userAnswer: "A" | "B" | "C" | "D" | null;
+  answer?: ItemAnswer; // Keyed questions, in place of userAnswer
+  credit?: number; // Keyed questions: 0-1, where isCorrect means full credit
   isCorrect: boolean;
   timeSpentSeconds: number;
   answerChanges: number; // Number of times user changed their answer
@@ -67,6 +96,8 @@ export interface APTestQuestionResponse {
   startTime: number; // Timestamp when question was first viewed
   endTime: number; // Timestamp when answer was submitted
   stimulusPerformance?: StimulusPerformance;
+  sourceQuestionId?: string; // Bank question an adaptive test question came from
+  freeResponse?: Record<string, string>; // Answer text per part; set for every free-response question
 }
 
 // Full test attempt with all responses and summary
@@ -79,99 +110,55 @@ export interface APTestAttempt {
   endTimestamp: string; // ISO string
   totalTimeUsedSeconds: number;
   responses: APTestQuestionResponse[];
-  summary: {
-    totalQuestions: number;
-    correctAnswers: number;
-    incorrectAnswers: number;
-    unansweredQuestions: number;
-    overallAccuracy: number; // 0-1
-    accuracyBySkillType: Record<string, { correct: number; total: number; accuracy: number }>;
-    accuracyByTag: Record<string, { correct: number; total: number; accuracy: number }>;
-    timeManagement: {
-      totalEstimatedTime: number;
-      totalActualTime: number;
-      averageTimePerQuestion: number;
-      questionsOverTime: number; // Questions that took longer than estimated
-      questionsUnderTime: number; // Questions that took less than estimated
-    };
-    predictedAPScore: number; // 1-5 scale
+  summary: APTestSummary & {
+    freeResponse?: FreeResponseSummary; // Added by the backend once the attempt is saved
   };
 }
 
-// Helper function to calculate predicted AP score from accuracy with tier information
-export interface PredictedAPScoreInfo {
-  score: number;
-  tier: 'Borderline' | 'On Track' | 'Secure';
-  percentage: number;
-  range: string;
+// The sections of a test, in order. Tests without sections are one section of every
+// question. Each question is asked once, in the first section that lists it; questions
+// no section lists are added to the last section.
+export function getAPTestSections(test: Pick<APTestData, 'questions' | 'time_limit_minutes' | 'sections'>): APExamSection[] {
+  const questionIds = test.questions.map(question => question.id);
+  const assigned = new Set<number>();
+  const sections = (test.sections || [])
+    .map(section => {
+      const ids = section.question_ids.filter(id => questionIds.includes(id) && !assigned.has(id));
+      ids.forEach(id => assigned.add(id));
+      return { ...section, question_ids: ids };
+    })
+    .filter(section => section.question_ids.length > 0);
+  if (sections.length === 0) {
+    return [{ id: 'all', name: 'Full test', time_limit_minutes: test.time_limit_minutes, question_ids: questionIds }];
+  }
+
+  const last = sections[sections.length - 1];
+  last.question_ids = [...last.question_ids, ...questionIds.filter(id => !assigned.has(id))];
+  return sections;
 }
 
-export function calculatePredictedAPScore(accuracy: number): number {
-  // AP scoring is typically:
-  // 5: 75-100% (typically 80%+)
-  // 4: 60-74% (typically 65-79%)
-  // 3: 45-59% (typically 50-64%)
-  // 2: 30-44%
-  // 1: 0-29%
-  if (accuracy >= 0.80) return 5;
-  if (accuracy >= 0.65) return 4;
-  if (accuracy >= 0.50) return 3;
-  if (accuracy >= 0.30) return 2;
-  return 1;
+// The section being taken and its clock, or the break after it. Sections before
+// sectionIndex are finished and locked.
+export interface APTestClock {
+  sectionIndex: number;
+  timeRemaining: number; // Seconds left in the section
+  breakRemaining: number | null; // Seconds left in the break after the section, while it runs
+  timings: APExamSectionTiming[]; // Finished sections
 }
 
-export function calculatePredictedAPScoreWithTier(accuracy: number): PredictedAPScoreInfo {
-  const percentage = Math.round(accuracy * 100);
-  
-  // Score 5: 80-100%
-  if (percentage >= 80) {
-    if (percentage >= 90) {
-      return { score: 5, tier: 'Secure', percentage, range: '90-100%' };
-    } else if (percentage >= 85) {
-      return { score: 5, tier: 'On Track', percentage, range: '85-89%' };
-    } else {
-      return { score: 5, tier: 'Borderline', percentage, range: '80-84%' };
-    }
-  }
-  
-  // Score 4: 65-79%
-  if (percentage >= 65) {
-    if (percentage >= 74) {
-      return { score: 4, tier: 'Secure', percentage, range: '74-79%' };
-    } else if (percentage >= 70) {
-      return { score: 4, tier: 'On Track', percentage, range: '70-73%' };
-    } else {
-      return { score: 4, tier: 'Borderline', percentage, range: '65-69%' };
-    }
-  }
-  
-  // Score 3: 50-64%
-  if (percentage >= 50) {
-    if (percentage >= 58) {
-      return { score: 3, tier: 'Secure', percentage, range: '58-64%' };
-    } else if (percentage >= 54) {
-      return { score: 3, tier: 'On Track', percentage, range: '54-57%' };
-    } else {
-      return { score: 3, tier: 'Borderline', percentage, range: '50-53%' };
-    }
-  }
-  
-  // Score 2: 30-49%
-  if (percentage >= 30) {
-    if (percentage >= 40) {
-      return { score: 2, tier: 'Secure', percentage, range: '40-49%' };
-    } else if (percentage >= 35) {
-      return { score: 2, tier: 'On Track', percentage, range: '35-39%' };
-    } else {
-      return { score: 2, tier: 'Borderline', percentage, range: '30-34%' };
-    }
-  }
-  
-  // Score 1: 0-29%
-  return { score: 1, tier: 'Borderline', percentage, range: '0-29%' };
+// Everything needed to resume a test in progress. Responses, answer changes and start
+// times are keyed by question index.
+export interface APTestSessionState {
+  currentQuestionIndex: number;
+  responses: Record<number, APTestQuestionResponse>;
+  flaggedQuestions: number[];
+  answerChanges: Record<number, number>;
+  questionStartTimes: Record<number, number>;
+  clock: APTestClock;
+  testData?: APTestData; // Adaptive tests only, which cannot be loaded again by id
 }
 
-// Helper function to generate unique attempt ID
+// Attempt ids are UUIDs so the backend can save the attempt under the same id
 export function generateAPTestAttemptId(): string {
-  return `ap-test-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return createClientId();
 }
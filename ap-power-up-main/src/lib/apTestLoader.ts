@@ -1,8 +1,10 @@
 // AP Test JSON Loader
 // Handles loading AP test data from JSON files in /public/data/ap-tests/
 
-import { APTestData, APTestQuestion, APTestClassFile, APTest } from './apTestData';
+import { APExamSection, APTestData, APTestQuestion, APTestClassFile, APTest } from './apTestData';
 import { deriveStimulusMeta, StimulusItem } from './questionData';
+import { apTestApi, APTestQuestion as APTestQuestionRecord } from './api';
+import { SECURE_DELIVERY } from './grading';
 
 // Cache for loaded AP test class files - key: className
 const apTestClassCache: Map<string, APTestClassFile> = new Map();
@@ -19,6 +21,86 @@ function normalizeClassName(className: string): string {
     .join(' ');
 }
 
+/**
+ * Parse the sections of a test in the JSON format. Sections without a time limit or
+ * questions are dropped; a test left with none is taken as a single section.
+ */
+function parseSections(value: unknown): APExamSection[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const sections = value
+    .filter((section): section is Record<string, unknown> => !!section && typeof section === "object")
+    .map((section, index): APExamSection => ({
+      id: typeof section.id === "string" && section.id ? section.id : `section-${index + 1}`,
+      name: typeof section.name === "string" && section.name ? section.name : `Section ${index + 1}`,
+      time_limit_minutes: Number(section.time_limit_minutes) || 0,
+      question_ids: Array.isArray(section.question_ids)
+        ? section.question_ids.filter((id): id is number => typeof id === "number")
+        : [],
+      calculator_allowed: typeof section.calculator_allowed === "boolean" ? section.calculator_allowed : undefined,
+      break_minutes_after: Number(section.break_minutes_after) || undefined,
+    }))
+    .filter(section => section.time_limit_minutes > 0 && section.question_ids.length > 0);
+  return sections.length > 0 ? sections : undefined;
+}
+
+/**
+ * Convert an AP test question from the API. It has no answer key; that comes
+ * back from the grade endpoint once the test is submitted.
+ */
+function fromApiQuestion(q: APTestQuestionRecord): APTestQuestion {
+  const option = (id: string) => q.options.find(o => o.id === id)?.content || "";
+
+  return {
+    id: q.questionOrder,
+    question_text: q.questionText,
+    options: { A: option("A"), B: option("B"), C: option("C"), D: option("D") },
+    skill_type: q.skillType || "Unknown",
+    difficulty: (q.difficulty || "Medium") as "Easy" | "Medium" | "Hard",
+    estimated_time_seconds: q.estimatedTimeSeconds || 90,
+    tags: q.tags || [],
+  };
+}
+
+/**
+ * Load an AP test class from the API (secure delivery)
+ * @param className - Name of the AP class (e.g., "AP Biology")
+ * @returns Promise<APTestClassFile | null>
+ */
+async function loadAPTestClassFromApi(className: string): Promise<APTestClassFile | null> {
+  try {
+    // Only numbered tests; adaptive tests are assembled on the client
+    const available = (await apTestApi.getTests(className)).filter(test => /^\d+$/.test(String(test.testId)));
+
+    const tests: APTest[] = await Promise.all(
+      available.map(async (test) => {
+        const questions = (await apTestApi.getTestQuestions(className, String(test.testId))).map(fromApiQuestion);
+        return {
+          test_id: Number(test.testId),
+          total_questions: questions.length,
+          time_limit_minutes: 90,
+          questions,
+        };
+      })
+    );
+
+    if (tests.length === 0) {
+      console.error(`[AP Test Loader] WARNING: The API has no AP tests for ${className}`);
+      return null;
+    }
+
+    const classFile: APTestClassFile = { ap_class: normalizeClassName(className), tests };
+    apTestClassCache.set(className, classFile);
+    console.log(`[AP Test Loader] Successfully loaded ${tests.length} tests from API for ${className}`);
+    return classFile;
+  } catch (error) {
+    console.error(`[AP Test Loader] Error loading AP test data for ${className} from API:`, error);
+    return null;
+  }
+}
+
 /**
  * Load AP test class file from JSON
  * @param className - Name of the AP class (e.g., "AP Biology")
@@ -32,6 +114,11 @@ async function loadAPTestClassFile(className: string): Promise<APTestClassFile |
     return cached;
   }
 
+  // The JSON files include answer keys, so secure delivery loads tests from the API
+  if (SECURE_DELIVERY) {
+    return loadAPTestClassFromApi(className);
+  }
+
   try {
     // Convert className to filename
     // The files are named like: AP_Biology.json, AP_Calculus_AB.json, etc.
@@ -136,10 +223,14 @@ async function loadAPTestClassFile(className: string): Promise<APTestClassFile |
     if (data.tests && Array.isArray(data.tests)) {
       // New format: tests array
       tests = data.tests.map((test: any) => {
+        const sections = parseSections(test.sections);
         const apTest: APTest = {
           test_id: test.test_id || 0,
           total_questions: test.total_questions || 0,
-          time_limit_minutes: test.time_limit_minutes || 90,
+          time_limit_minutes: sections
+            ? sections.reduce((sum, section) => sum + section.time_limit_minutes, 0)
+            : test.time_limit_minutes || 90,
+          sections,
           questions: (test.questions || []).map((q: any) => {
             const stimulus: StimulusItem[] = q.stimulus || [];
             const stimulusMeta = q.stimulusMeta || deriveStimulusMeta(stimulus);
@@ -276,6 +367,7 @@ export async function loadAPTestData(className: string, testId: number): Promise
     total_questions: test.total_questions,
     time_limit_minutes: test.time_limit_minutes,
     questions: test.questions,
+    sections: test.sections,
   };
 
   console.log(`[AP Test Loader] Successfully loaded test data:`, {
@@ -289,6 +381,20 @@ export async function loadAPTestData(className: string, testId: number): Promise
   return testData;
 }
 
+/**
+ * Load every fixed AP test for a class
+ * @param className - Name of the AP class (e.g., "AP Biology")
+ * @returns Promise<APTest[]> - empty if the class has no test file
+ */
+export async function loadAPTestsForClass(className: string): Promise<APTest[]> {
+  const normalized = normalizeClassName(className);
+  let classFile = await loadAPTestClassFile(normalized);
+  if (!classFile) {
+    classFile = await loadAPTestClassFile(className);
+  }
+  return classFile?.tests || [];
+}
+
 /**
  * Get list of available test IDs for a specific class
  * Returns array of test IDs for the given class
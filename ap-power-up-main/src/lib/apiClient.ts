@@ -33,6 +33,26 @@ function getHeaders(): HeadersInit {
   return headers;
 }
 
+const NETWORK_ERROR_PREFIX = 'Network error:';
+
+// True when a request never reached the backend (offline or server down)
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith(NETWORK_ERROR_PREFIX);
+}
+
+// The backend answered with an error status
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+  return new ApiError(error.error || `HTTP ${response.status}: ${response.statusText}`, response.status);
+}
+
 // API request wrapper
 async function apiRequest<T>(
   endpoint: string,
@@ -50,8 +70,7 @@ async function apiRequest<T>(
     });
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+      throw await toApiError(response);
     }
 
     // Handle empty responses
@@ -67,13 +86,77 @@ async function apiRequest<T>(
     const errorName = error?.name;
     const isNetworkError = errorName === 'TypeError' || errorMessage.includes('fetch') || errorMessage.includes('Failed to fetch');
     
-    if (isNetworkError) {
-      throw new Error(`Network error: Cannot connect to ${url}. Make sure the backend server is running on port 3001.`);
+    if (isNetworkError && !(error instanceof ApiError)) {
+      throw new Error(`${NETWORK_ERROR_PREFIX} Cannot connect to ${url}. Make sure the backend server is running on port 3001.`);
     }
     throw error;
   }
 }
 
+// Download a file response (CSV, zip) instead of parsing JSON
+async function apiDownload(endpoint: string): Promise<Blob> {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, { headers: getHeaders() });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  return response.blob();
+}
+
+// Query string from the values that are set, e.g. '?apClass=AP%20Biology&limit=20'
+export function queryString(params: Record<string, string | number | boolean | undefined> = {}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      search.set(key, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+// snake_case -> snakeCase, for keys of stored rows
+export type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+// A response with its keys in camelCase, at every depth
+export type CamelCased<T> = T extends readonly unknown[]
+  ? { [Index in keyof T]: CamelCased<T[Index]> }
+  : T extends object
+    ? { [Key in keyof T as Key extends string ? CamelCase<Key> : Key]: CamelCased<T[Key]> }
+    : T;
+
+/**
+ * The keys of a response to rename (0) or look into (a nested plan). Keys that are
+ * not listed, like ids in answers or rubric scores, are left as they are.
+ */
+export interface KeyPlan {
+  [key: string]: KeyPlan | 0;
+}
+
+function toCamelCase(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+// Renames the keys in a plan, following it into nested objects and arrays
+export function camelize<T>(value: T, plan: KeyPlan): CamelCased<T> {
+  if (Array.isArray(value)) {
+    return value.map(item => camelize(item, plan)) as CamelCased<T>;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value as CamelCased<T>;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const nested = Object.prototype.hasOwnProperty.call(plan, key) ? plan[key] : undefined;
+    result[nested === undefined ? key : toCamelCase(key)] = nested ? camelize(item, nested) : item;
+  }
+  return result as CamelCased<T>;
+}
+
 // API methods
 export const api = {
   // GET request
@@ -82,7 +165,7 @@ export const api = {
   },
 
   // POST request
-  post: <T>(endpoint: string, data?: any): Promise<T> => {
+  post: <T>(endpoint: string, data?: unknown): Promise<T> => {
     return apiRequest<T>(endpoint, {
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
@@ -90,7 +173,7 @@ export const api = {
   },
 
   // PATCH request
-  patch: <T>(endpoint: string, data?: any): Promise<T> => {
+  patch: <T>(endpoint: string, data?: unknown): Promise<T> => {
     return apiRequest<T>(endpoint, {
       method: 'PATCH',
       body: data ? JSON.stringify(data) : undefined,
@@ -101,6 +184,11 @@ export const api = {
   delete: <T>(endpoint: string): Promise<T> => {
     return apiRequest<T>(endpoint, { method: 'DELETE' });
   },
+
+  // File download
+  download: (endpoint: string): Promise<Blob> => {
+    return apiDownload(endpoint);
+  },
 };
 
 export default api;
@@ -0,0 +1,2 @@
+// Request and response schemas live in /shared so the client sends what the backend validates
+export * from "../../shared/apiSchemas";
@@ -0,0 +1,2 @@
+// Assignment status rules live in /shared so the offline fallback matches the backend
+export * from "../../shared/assignments";
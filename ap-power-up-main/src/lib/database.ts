@@ -2,11 +2,22 @@
 // Uses backend API, with localStorage fallback for compatibility
 
 import { SkillMastery, StimulusPerformance, StimulusMeta } from "./questionData";
-import { APTestAttempt } from "./apTestData";
+import { APTestAttempt, APTestSessionState } from "./apTestData";
+import { ItemAnswer } from "./itemTypes";
+import { ReviewSchedule, getReviewQuality, scheduleReview, isReviewDue } from "./review";
+import { getAssignmentStatus, isSubmissionLate, pickAssignmentQuestions } from "./assignments";
+import { Assignment, AssignmentProgress, AssignmentStudentProgress, AssignmentSubmission, NewAssignment } from "./apiSchemas";
 import { 
   authApi, userApi, questionApi, quizApi, attemptApi, 
-  leaderboardApi, classApi, apTestApi 
+  leaderboardApi, classApi, apTestApi, reviewApi, assignmentApi, AttemptScoring, SessionScoring, DueReview, LeaderboardWindow,
+  PointsHistoryEntry, StreakCalendar, AbilityReport, APTestSession as APTestSessionRecord, AuthResult, LeaderboardEntry, UserProfile,
+  QuestionGrade
 } from "./api";
+import { isNetworkError } from "./apiClient";
+import { createClientId, enqueue } from "./syncQueue";
+
+// Assignment shapes are the API's, so the offline fallback stores what the backend returns
+export type { Assignment, AssignmentProgress, AssignmentStudentProgress, AssignmentSubmission, NewAssignment };
 
 export interface User {
   id: string;
@@ -46,6 +57,7 @@ export interface QuestionAttempt {
   lastPracticedAt?: string | null;
   skillMasterySnapshot?: Record<string, SkillMastery>;
   stimulusPerformance?: StimulusPerformance;
+  review?: ReviewSchedule; // Spaced-repetition schedule (kept locally only when offline)
 }
 
 export interface QuizProgress {
@@ -86,6 +98,9 @@ interface Database {
   questionAttempts: Record<string, QuestionAttempt[]>; // userId -> attempts
   quizProgress: Record<string, QuizProgress | null>; // `${userId}:${apClass}:${unit}` -> progress
   classes: Class[]; // Teacher-created classes with codes
+  assignments: Assignment[]; // Teacher-created class assignments
+  assignmentSubmissions: AssignmentSubmission[];
+  apTestSessions: Record<string, APTestSession>; // `${userId}:${apClass}:${testId}` -> session
 }
 
 const DB_KEY = 'ascendly_db';
@@ -101,9 +116,12 @@ export function getDatabase(): Database {
     if (!db.quizProgress) db.quizProgress = {};
     if (!db.classes) db.classes = [];
     if (!db.apTestAttempts) db.apTestAttempts = {};
+    if (!db.assignments) db.assignments = [];
+    if (!db.assignmentSubmissions) db.assignmentSubmissions = [];
+    if (!db.apTestSessions) db.apTestSessions = {};
     return db;
   }
-  const initial: Database = { users: [], quizResults: [], questionAttempts: {}, quizProgress: {}, classes: [], apTestAttempts: {} };
+  const initial: Database = { users: [], quizResults: [], questionAttempts: {}, quizProgress: {}, classes: [], apTestAttempts: {}, assignments: [], assignmentSubmissions: [], apTestSessions: {} };
   localStorage.setItem(DB_KEY, JSON.stringify(initial));
   return initial;
 }
@@ -144,6 +162,7 @@ export async function deleteUserAccount(userId: string): Promise<{ success: bool
     db.quizResults = db.quizResults.filter(r => r.userId !== userId);
     delete db.questionAttempts[userId];
     delete db.apTestAttempts[userId];
+    db.assignmentSubmissions = db.assignmentSubmissions.filter(s => s.studentId !== userId);
     // Remove quiz progress for this user
     Object.keys(db.quizProgress).forEach(key => {
       if (key.startsWith(userId + ':')) {
@@ -216,6 +235,30 @@ function isUsernameInappropriate(username: string): boolean {
   return inappropriateWords.some(word => lowerUsername.includes(word));
 }
 
+// Transform a user from the API to the User format; the password never leaves the backend
+export function fromApiUser(apiUser: AuthResult['user'] | UserProfile): User {
+  return {
+    id: apiUser.id,
+    username: apiUser.username,
+    password: '',
+    firstName: apiUser.firstName,
+    lastName: apiUser.lastName,
+    nickname: apiUser.nickname ?? undefined,
+    displayPreference: apiUser.displayPreference,
+    role: apiUser.role,
+    apClasses: apiUser.apClasses,
+    classScores: 'classScores' in apiUser ? apiUser.classScores : {},
+    streak: apiUser.streak,
+    createdAt: apiUser.createdAt,
+    lastQuizDate: apiUser.lastQuizDate ?? undefined,
+    lastDecayTimestamp: apiUser.lastDecayTimestamp ?? undefined,
+    showLeaderboard: apiUser.showLeaderboard,
+    showRank: apiUser.showRank,
+    showRankPublicly: apiUser.showRankPublicly,
+    trackConfidence: apiUser.trackConfidence
+  };
+}
+
 // Register new user - now uses API, fallback to localStorage for compatibility
 export async function registerUser(
   username: string,
@@ -243,27 +286,7 @@ export async function registerUser(
     });
     
     if (result.success && result.user) {
-      const user: User = {
-        id: result.user.id,
-        username: result.user.username,
-        password: '',
-        firstName: result.user.first_name,
-        lastName: result.user.last_name,
-        nickname: result.user.nickname,
-        displayPreference: result.user.display_preference,
-        role: result.user.role,
-        apClasses: result.user.apClasses || [],
-        classScores: result.user.classScores || {},
-        streak: result.user.streak || 0,
-        createdAt: result.user.created_at,
-        lastQuizDate: result.user.last_quiz_date,
-        lastDecayTimestamp: result.user.last_decay_timestamp,
-        dailyPoints: result.user.dailyPoints,
-        showLeaderboard: result.user.show_leaderboard,
-        showRank: result.user.show_rank,
-        showRankPublicly: result.user.show_rank_publicly
-      };
-      return { success: true, message: result.message, user };
+      return { success: true, message: result.message, user: fromApiUser(result.user) };
     }
     return { success: false, message: result.message };
   } catch (error: any) {
@@ -307,27 +330,7 @@ export async function loginUser(
   try {
     const result = await authApi.login(username, password);
     if (result.success && result.user) {
-      const user: User = {
-        id: result.user.id,
-        username: result.user.username,
-        password: '',
-        firstName: result.user.first_name,
-        lastName: result.user.last_name,
-        nickname: result.user.nickname,
-        displayPreference: result.user.display_preference,
-        role: result.user.role,
-        apClasses: result.user.apClasses || [],
-        classScores: result.user.classScores || {},
-        streak: result.user.streak || 0,
-        createdAt: result.user.created_at,
-        lastQuizDate: result.user.last_quiz_date,
-        lastDecayTimestamp: result.user.last_decay_timestamp,
-        dailyPoints: result.user.dailyPoints,
-        showLeaderboard: result.user.show_leaderboard,
-        showRank: result.user.show_rank,
-        showRankPublicly: result.user.show_rank_publicly
-      };
-      return { success: true, message: result.message, user };
+      return { success: true, message: result.message, user: fromApiUser(result.user) };
     }
     return { success: false, message: result.message };
   } catch (error: any) {
@@ -509,13 +512,7 @@ export async function getQuestionAttempts(userId: string, questionId: string): P
 export async function getQuestionCorrectTimestamps(userId: string, questionId: string): Promise<string[]> {
   try {
     const attempt = await attemptApi.getAttempt(userId, questionId);
-    if (!attempt) return [];
-    // Extract correct timestamps from metadata if stored there, or from answer_events
-    const metadata = attempt.metadata || {};
-    const answerEvents = metadata.answer_events || [];
-    // Filter correct attempts and extract timestamps
-    // This may need adjustment based on how the API stores this
-    return [];
+    return attempt?.metadata?.correctTimestamps || [];
   } catch (error) {
     // Fallback to localStorage
     const db = getDatabase();
@@ -545,26 +542,35 @@ function calculateStruggleScore(
   return Math.max(0, Math.min(1, struggleScore));
 }
 
+// scoring and grade are the server's award and its grade with the question's key, or
+// null when the attempt was only saved locally
+export interface RecordedAttempt {
+  attemptNumber: number;
+  scoring: AttemptScoring | null;
+  grade: QuestionGrade | null;
+}
+
+/**
+ * Record an answer to a question; the server grades it against the key
+ * @param isCorrect - The answer graded locally, for saving it offline. null when only the
+ *   server holds the key: such answers throw instead of being saved without it
+ */
 export async function recordQuestionAttempt(
   userId: string,
   questionId: string,
-  isCorrect: boolean,
+  isCorrect: boolean | null,
   timeSpentSeconds: number = 0,
   selectedOptionId?: string,
   confidence?: number | null,
   timestamp: string = new Date().toISOString(),
-  stimulusMeta?: StimulusMeta | null
-): Promise<number> {
+  stimulusMeta?: StimulusMeta | null,
+  answer?: ItemAnswer // Keyed item types
+): Promise<RecordedAttempt> {
+  const clientId = createClientId();
+  const payload = { userId, questionId, timeSpentSeconds, selectedOptionId, answer, confidence, timestamp };
   try {
-    const result = await attemptApi.recordAttempt({
-      userId,
-      questionId,
-      isCorrect,
-      timeSpentSeconds,
-      selectedOptionId,
-      confidence,
-      timestamp
-    });
+    const result = await attemptApi.recordAttempt({ ...payload, clientId });
+    const wasCorrect = result.grade.isCorrect;
     
     // Even when using API, we need to store stimulus performance in localStorage
     // because the API doesn't handle stimulus metadata
@@ -574,27 +580,27 @@ export async function recordQuestionAttempt(
         db.questionAttempts[userId] = [];
       }
       const attemptIndex = db.questionAttempts[userId].findIndex(a => a.questionId === questionId);
-      const struggleScore = calculateStruggleScore(isCorrect, timeSpentSeconds);
+      const struggleScore = calculateStruggleScore(wasCorrect, timeSpentSeconds);
       
       if (attemptIndex === -1) {
         // Create new attempt entry for stimulus performance
         db.questionAttempts[userId].push({
           questionId,
           attempts: result.attemptNumber,
-          correctAttempts: isCorrect ? 1 : 0,
-          streak: isCorrect ? 1 : 0,
+          correctAttempts: wasCorrect ? 1 : 0,
+          streak: wasCorrect ? 1 : 0,
           lastAttemptTimestamp: Date.now(),
-          correctTimestamps: isCorrect ? [timestamp] : [],
+          correctTimestamps: wasCorrect ? [timestamp] : [],
           timeSpentSeconds: timeSpentSeconds || 0,
-          status: isCorrect ? "correct" : "incorrect",
-          isCorrect: isCorrect,
+          status: wasCorrect ? "correct" : "incorrect",
+          isCorrect: wasCorrect,
           answerEvents: selectedOptionId ? [{ timestamp, optionId: selectedOptionId, confidence: confidence ?? undefined }] : [],
           confidence: confidence ?? null,
           lastPracticedAt: timestamp,
           stimulusPerformance: {
             attemptCount: 1,
             timeSpentSeconds: timeSpentSeconds || 0,
-            wasCorrect: isCorrect,
+            wasCorrect: wasCorrect,
             struggleScore,
           },
         });
@@ -611,14 +617,20 @@ export async function recordQuestionAttempt(
         }
         attempt.stimulusPerformance.attemptCount += 1;
         attempt.stimulusPerformance.timeSpentSeconds += timeSpentSeconds || 0;
-        attempt.stimulusPerformance.wasCorrect = isCorrect;
+        attempt.stimulusPerformance.wasCorrect = wasCorrect;
         attempt.stimulusPerformance.struggleScore = struggleScore;
       }
       saveDatabase(db);
     }
     
-    return result.attemptNumber;
+    return { attemptNumber: result.attemptNumber, scoring: result.scoring, grade: result.grade };
   } catch (error) {
+    if (isCorrect === null) {
+      throw error;
+    }
+    if (isNetworkError(error)) {
+      await enqueue(clientId, { kind: 'questionAttempt', payload });
+    }
     // Fallback to localStorage
     const db = getDatabase();
     if (!db.questionAttempts[userId]) {
@@ -655,6 +667,7 @@ export async function recordQuestionAttempt(
         confidence: confidence ?? null,
         lastPracticedAt: timestamp,
         stimulusPerformance,
+        review: scheduleReview(null, getReviewQuality(isCorrect, confidence), now),
       });
       newAttemptCount = 1;
     } else {
@@ -665,6 +678,7 @@ export async function recordQuestionAttempt(
       attempt.status = isCorrect ? "correct" : "incorrect";
       attempt.isCorrect = isCorrect;
       attempt.lastPracticedAt = timestamp;
+      attempt.review = scheduleReview(attempt.review || null, getReviewQuality(isCorrect, confidence), now);
       attempt.answerEvents = attempt.answerEvents || [];
       if (selectedOptionId) {
         attempt.answerEvents.push({ timestamp, optionId: selectedOptionId, confidence: confidence ?? undefined });
@@ -704,7 +718,44 @@ export async function recordQuestionAttempt(
       newAttemptCount = attempt.attempts;
     }
     saveDatabase(db);
-    return newAttemptCount;
+    return { attemptNumber: newAttemptCount, scoring: null, grade: null };
+  }
+}
+
+// Questions due for spaced-repetition review in a class - now uses API
+export async function getDueReviews(userId: string, apClass: string): Promise<DueReview[]> {
+  try {
+    return await reviewApi.getDue({ apClass });
+  } catch (error) {
+    // Fallback to localStorage
+    const { loadClassData } = await import('./jsonLoader');
+    const classData = await loadClassData(apClass);
+    if (!classData) return [];
+
+    const questionLocations = new Map<string, { unitName: string; subtopicName: string }>();
+    classData.units.forEach(unit => {
+      unit.subtopics.forEach(subtopic => {
+        subtopic.questions.forEach(q => {
+          questionLocations.set(q.id, { unitName: unit.unitName, subtopicName: subtopic.subtopicName });
+        });
+      });
+    });
+
+    const db = getDatabase();
+    const userAttempts = db.questionAttempts[userId] || [];
+    return userAttempts
+      .filter(a => questionLocations.has(a.questionId) && isReviewDue(a.review))
+      .sort((a, b) => new Date(a.review!.dueAt).getTime() - new Date(b.review!.dueAt).getTime())
+      .map(a => ({
+        questionId: a.questionId,
+        apClass,
+        unitName: questionLocations.get(a.questionId)!.unitName,
+        subtopicName: questionLocations.get(a.questionId)!.subtopicName,
+        dueAt: a.review!.dueAt,
+        easeFactor: a.review!.easeFactor,
+        intervalDays: a.review!.intervalDays,
+        repetitions: a.review!.repetitions,
+      }));
   }
 }
 
@@ -734,23 +785,22 @@ export async function getAllQuestionAnalytics(userId: string): Promise<QuestionA
       }
     });
     
-    return attempts.map((a: any) => {
-      const questionId = a.question_id || a.questionId;
-      const stimulusPerformance = stimulusPerformanceMap.get(questionId);
+    return attempts.map(a => {
+      const stimulusPerformance = stimulusPerformanceMap.get(a.questionId);
       return {
-        questionId, // Support both formats
-        attempts: a.attempts || 0,
-        correctAttempts: a.correct_attempts || a.correctAttempts || 0,
-        streak: a.streak || 0,
-        lastAttemptTimestamp: a.last_attempt_timestamp ? new Date(a.last_attempt_timestamp).getTime() : null,
-        correctTimestamps: a.metadata?.correct_timestamps || a.correctTimestamps || [],
-        timeSpentSeconds: a.time_spent_seconds || a.timeSpentSeconds || 0,
-        status: a.status || 'unanswered',
-        isCorrect: a.is_correct || a.isCorrect || false,
-        answerEvents: a.metadata?.answer_events || a.answerEvents || [],
+        questionId: a.questionId,
+        attempts: a.attempts,
+        correctAttempts: a.correctAttempts,
+        streak: a.streak,
+        lastAttemptTimestamp: a.lastAttemptTimestamp,
+        correctTimestamps: a.metadata?.correctTimestamps || [],
+        timeSpentSeconds: a.timeSpentSeconds,
+        status: a.status,
+        isCorrect: a.isCorrect,
+        answerEvents: (a.metadata?.answerEvents || []) as QuestionAttempt['answerEvents'], // Keyed items have no optionId
         confidence: a.confidence,
-        lastPracticedAt: a.last_practiced_at || a.lastPracticedAt,
-        skillMasterySnapshot: a.metadata?.skill_mastery_snapshot || a.skillMasterySnapshot,
+        lastPracticedAt: a.lastPracticedAt,
+        skillMasterySnapshot: a.metadata?.skill_mastery_snapshot, // Not renamed: the API doesn't list it
         stimulusPerformance // Merge from localStorage
       };
     });
@@ -988,14 +1038,14 @@ export async function getQuizProgress(userId: string, apClass: string, unit: str
     const progress = await quizApi.getProgress(userId, apClass, unit);
     if (!progress) return null;
     return {
-      apClass: progress.ap_class,
+      apClass: progress.apClass,
       unit: progress.unit,
-      currentIndex: progress.current_index,
-      correctAnswers: progress.correct_answers,
-      answeredQuestions: progress.answered_questions || [],
-      pointsEarned: progress.points_earned,
-      sessionCorrectAnswers: progress.session_correct_answers,
-      sessionTotalAnswered: progress.session_total_answered
+      currentIndex: progress.currentIndex,
+      correctAnswers: progress.correctAnswers,
+      answeredQuestions: progress.answeredQuestions,
+      pointsEarned: progress.pointsEarned,
+      sessionCorrectAnswers: progress.sessionCorrectAnswers,
+      sessionTotalAnswered: progress.sessionTotalAnswered
     };
   } catch (error) {
     // Fallback to localStorage
@@ -1006,9 +1056,13 @@ export async function getQuizProgress(userId: string, apClass: string, unit: str
 }
 
 export async function saveQuizProgress(userId: string, progress: QuizProgress): Promise<void> {
+  const clientId = createClientId();
   try {
-    await quizApi.saveProgress({ ...progress, userId });
+    await quizApi.saveProgress({ ...progress, userId, clientId });
   } catch (error) {
+    if (isNetworkError(error)) {
+      await enqueue(clientId, { kind: 'quizProgress', payload: { ...progress, userId } });
+    }
     // Fallback to localStorage
     const db = getDatabase();
     const key = `${userId}:${progress.apClass}:${progress.unit}`;
@@ -1029,66 +1083,58 @@ export async function clearQuizProgress(userId: string, apClass: string, unit: s
   }
 }
 
-// Update user score for a specific class with decay applied - now uses API
-export async function updateScore(userId: string, pointsToAdd: number, apClass: string): Promise<User | null> {
-  try {
-    // Update score via API
-    await userApi.updateScore(userId, pointsToAdd, apClass);
-    // Refresh user to get updated scores (this will be called separately, but we still return the updated user structure)
-    // For now, we'll just update the local state via refreshUser call in the component
-    return null; // Component will refresh user separately
-  } catch (error) {
-    // Fallback to localStorage
-    const db = getDatabase();
-    const userIndex = db.users.findIndex(u => u.id === userId);
-    
-    if (userIndex === -1) return null;
-
-    let user = migrateUser(db.users[userIndex]);
-    const today = new Date().toDateString();
-    const lastQuizDay = user.lastQuizDate ? new Date(user.lastQuizDate).toDateString() : null;
-
-    // Update streak
-    if (lastQuizDay) {
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      if (lastQuizDay === yesterday.toDateString()) {
-        user.streak += 1;
-      } else if (lastQuizDay !== today) {
-        user.streak = 1;
-      }
-    } else {
+// Update user score for a specific class with decay applied.
+// Local fallback only: online, the backend awards points when attempts are recorded.
+export function updateScore(userId: string, pointsToAdd: number, apClass: string): User | null {
+  const db = getDatabase();
+  const userIndex = db.users.findIndex(u => u.id === userId);
+  
+  if (userIndex === -1) return null;
+
+  let user = migrateUser(db.users[userIndex]);
+  const today = new Date().toDateString();
+  const lastQuizDay = user.lastQuizDate ? new Date(user.lastQuizDate).toDateString() : null;
+
+  // Update streak
+  if (lastQuizDay) {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    if (lastQuizDay === yesterday.toDateString()) {
+      user.streak += 1;
+    } else if (lastQuizDay !== today) {
       user.streak = 1;
     }
+  } else {
+    user.streak = 1;
+  }
 
-    // Apply decay before adding points
-    if (user.lastDecayTimestamp && user.classScores[apClass]) {
-      const lastDecay = new Date(user.lastDecayTimestamp).getTime();
-      const now = Date.now();
-      const daysSinceDecay = (now - lastDecay) / (24 * 60 * 60 * 1000);
-      if (daysSinceDecay >= 1) {
-        const dailyDecayRate = 0.02 / 7; // 2% per week
-        const decayFactor = Math.pow(1 - dailyDecayRate, daysSinceDecay);
-        user.classScores[apClass] = Math.round(user.classScores[apClass] * decayFactor);
-      }
+  // Apply decay before adding points
+  if (user.lastDecayTimestamp && user.classScores[apClass]) {
+    const lastDecay = new Date(user.lastDecayTimestamp).getTime();
+    const now = Date.now();
+    const daysSinceDecay = (now - lastDecay) / (24 * 60 * 60 * 1000);
+    if (daysSinceDecay >= 1) {
+      const dailyDecayRate = 0.02 / 7; // 2% per week
+      const decayFactor = Math.pow(1 - dailyDecayRate, daysSinceDecay);
+      user.classScores[apClass] = Math.round(user.classScores[apClass] * decayFactor);
     }
-    user.lastDecayTimestamp = new Date().toISOString();
+  }
+  user.lastDecayTimestamp = new Date().toISOString();
 
-    // Initialize class score if not exists
-    if (!user.classScores[apClass]) {
-      user.classScores[apClass] = 0;
-    }
-    user.classScores[apClass] += pointsToAdd;
-    user.lastQuizDate = new Date().toISOString();
-    
-    db.users[userIndex] = user;
-    saveDatabase(db);
+  // Initialize class score if not exists
+  if (!user.classScores[apClass]) {
+    user.classScores[apClass] = 0;
+  }
+  user.classScores[apClass] += pointsToAdd;
+  user.lastQuizDate = new Date().toISOString();
+  
+  db.users[userIndex] = user;
+  saveDatabase(db);
 
-    // Update session
-    localStorage.setItem(SESSION_KEY, JSON.stringify(user));
+  // Update session
+  localStorage.setItem(SESSION_KEY, JSON.stringify(user));
 
-    return user;
-  }
+  return user;
 }
 
 // Get user's current streak
@@ -1098,11 +1144,21 @@ export function getUserStreak(userId: string): number {
   return user?.streak || 0;
 }
 
-// Save quiz result - now uses API
-export async function saveQuizResult(result: Omit<QuizResult, 'timestamp'>): Promise<void> {
+// Save quiz result - now uses API. The backend calculates pointsEarned itself
+// from the session's recorded attempts; the local value is only kept offline.
+export async function saveQuizResult(
+  result: Omit<QuizResult, 'timestamp'>,
+  questionIds: string[]
+): Promise<SessionScoring | null> {
+  const clientId = createClientId();
+  const { pointsEarned, ...rest } = result;
   try {
-    await quizApi.saveResult(result);
+    const saved = await quizApi.saveResult({ ...rest, questionIds, clientId });
+    return saved.scoring;
   } catch (error) {
+    if (isNetworkError(error)) {
+      await enqueue(clientId, { kind: 'quizResult', payload: { ...rest, questionIds } });
+    }
     // Fallback to localStorage
     const db = getDatabase();
     db.quizResults.push({
@@ -1110,35 +1166,41 @@ export async function saveQuizResult(result: Omit<QuizResult, 'timestamp'>): Pro
       timestamp: new Date().toISOString(),
     });
     saveDatabase(db);
+    return null;
   }
 }
 
+// Convert a leaderboard entry from the API to a User
+function fromLeaderboardEntry(u: LeaderboardEntry): User {
+  return {
+    id: u.id,
+    username: u.username,
+    password: '',
+    firstName: u.firstName,
+    lastName: u.lastName,
+    nickname: u.nickname ?? undefined,
+    displayPreference: u.displayPreference,
+    role: 'student', // Only students are ranked
+    apClasses: [],
+    classScores: u.classScores,
+    streak: u.streak,
+    createdAt: '',
+    showRankPublicly: u.showRankPublicly
+  };
+}
+
 // Get leaderboard for a specific class - now uses API
-export async function getLeaderboard(apClass: string): Promise<User[]> {
+// For windows other than 'all', classScores holds the points earned in that window
+export async function getLeaderboard(apClass: string, window: LeaderboardWindow = 'all'): Promise<User[]> {
   try {
-    const leaderboard = await leaderboardApi.getLeaderboard(apClass);
-    return leaderboard.map((u: any) => ({
-      id: u.id,
-      username: u.username,
-      password: '',
-      firstName: u.firstName || u.first_name,
-      lastName: u.lastName || u.last_name,
-      nickname: u.nickname,
-      displayPreference: u.displayPreference || u.display_preference,
-      role: u.role,
-      apClasses: u.apClasses || [],
-      classScores: u.classScores || {},
-      streak: u.streak || 0,
-      createdAt: u.createdAt || u.created_at,
-      lastQuizDate: u.lastQuizDate || u.last_quiz_date,
-      lastDecayTimestamp: u.lastDecayTimestamp || u.last_decay_timestamp,
-      dailyPoints: u.dailyPoints,
-      showLeaderboard: u.showLeaderboard ?? u.show_leaderboard,
-      showRank: u.showRank ?? u.show_rank,
-      showRankPublicly: u.showRankPublicly ?? u.show_rank_publicly
-    }));
+    const leaderboard = await leaderboardApi.getLeaderboard(apClass, { window });
+    return leaderboard.map(fromLeaderboardEntry);
   } catch (error) {
-    // Fallback to localStorage
+    // Fallback to localStorage, which only has all-time scores
+    if (window !== 'all') {
+      console.error(`Failed to load ${window} leaderboard:`, error);
+      return [];
+    }
     const db = getDatabase();
     return db.users
       .map(u => migrateUser(u))
@@ -1147,6 +1209,54 @@ export async function getLeaderboard(apClass: string): Promise<User[]> {
   }
 }
 
+// Get the leaderboard of students who joined a class code, ranked within a window
+export async function getClassLeaderboard(apClass: string, classCode: string, window: LeaderboardWindow): Promise<User[]> {
+  try {
+    const leaderboard = await leaderboardApi.getClassLeaderboard(apClass, classCode, { window });
+    return leaderboard.map(fromLeaderboardEntry);
+  } catch (error) {
+    console.error(`Failed to load ${window} class leaderboard:`, error);
+    return [];
+  }
+}
+
+// Get the points ledger entries behind a user's class score, newest first.
+// Only the backend keeps a ledger, so there is no localStorage fallback.
+export async function getPointsHistory(userId: string, apClass: string): Promise<PointsHistoryEntry[]> {
+  try {
+    return await userApi.getPointsHistory(userId, { apClass });
+  } catch (error) {
+    console.error('Failed to load points history:', error);
+    return [];
+  }
+}
+
+export async function getAbilityReport(userId: string, apClass: string): Promise<AbilityReport | null> {
+  try {
+    return await userApi.getAbility(userId, { apClass });
+  } catch (error) {
+    console.error('Failed to load ability estimate:', error);
+    return null;
+  }
+}
+
+// Load the user's streak calendar, first moving their streak days to the browser's
+// time zone if it changed (e.g. after travelling)
+export async function getStreakCalendar(userId: string): Promise<StreakCalendar | null> {
+  try {
+    const calendar = await userApi.getStreak(userId);
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (timezone && calendar.timezone !== timezone) {
+      await userApi.updateProfile(userId, { timezone });
+      return await userApi.getStreak(userId);
+    }
+    return calendar;
+  } catch (error) {
+    console.error('Failed to load streak calendar:', error);
+    return null;
+  }
+}
+
 // Helper to get user's score for a specific class
 export function getClassScore(user: User, apClass: string): number {
   return user.classScores?.[apClass] || 0;
@@ -1176,14 +1286,14 @@ export function getClassRoster(apClass: string): User[] {
 export async function getUserQuizHistory(userId: string): Promise<QuizResult[]> {
   try {
     const results = await quizApi.getResults(userId);
-    return results.map((r: any) => ({
-      userId: r.user_id,
-      apClass: r.ap_class,
+    return results.map(r => ({
+      userId: r.userId,
+      apClass: r.apClass,
       unit: r.unit,
       score: r.score,
-      totalQuestions: r.total_questions,
+      totalQuestions: r.totalQuestions,
       timestamp: r.timestamp,
-      pointsEarned: r.points_earned
+      pointsEarned: r.pointsEarned ?? undefined
     }));
   } catch (error) {
     // Fallback to localStorage
@@ -1290,17 +1400,12 @@ export async function joinClassByCode(userId: string, classCode: string): Promis
     const result = await classApi.joinClass(classCode);
     if (result.success && result.class) {
       const classData: Class = {
-        id: result.class.id,
-        classCode: result.class.class_code,
-        teacherId: result.class.teacher_id,
-        apClassName: result.class.ap_class_name,
+        ...result.class,
         studentIds: [], // Not returned by API
-        createdAt: result.class.created_at,
-        leaderboardEnabled: result.class.leaderboard_enabled
       };
       return { success: true, message: result.message, class: classData };
     }
-    return result;
+    return { success: result.success, message: result.message };
   } catch (error: any) {
     // Fallback to localStorage
     const db = getDatabase();
@@ -1423,11 +1528,176 @@ export function getClassByTeacherAndSubject(teacherId: string, apClassName: stri
   return db.classes.find(c => c.teacherId === teacherId && c.apClassName === apClassName) || null;
 }
 
+// Get assignments for a class (teacher view, with completion counts) - now uses API
+export async function getClassAssignments(classCode: string): Promise<Assignment[]> {
+  try {
+    return await assignmentApi.getAssignments(classCode);
+  } catch (error) {
+    // Fallback to localStorage
+    const db = getDatabase();
+    const classData = db.classes.find(c => c.classCode === classCode);
+    return db.assignments
+      .filter(a => a.classCode === classCode)
+      .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime())
+      .map(a => ({
+        ...a,
+        completedCount: db.assignmentSubmissions.filter(s => s.assignmentId === a.id).length,
+        studentCount: classData?.studentIds.length || 0,
+      }));
+  }
+}
+
+// Get assigned work across every class a student has joined - now uses API
+export async function getStudentAssignments(studentId: string): Promise<Assignment[]> {
+  try {
+    const classes = await classApi.getStudentClasses(studentId);
+    const perClass = await Promise.all(classes.map(c => assignmentApi.getAssignments(c.classCode)));
+    return perClass
+      .flat()
+      .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+  } catch (error) {
+    // Fallback to localStorage
+    const db = getDatabase();
+    const classCodes = db.classes.filter(c => c.studentIds.includes(studentId)).map(c => c.classCode);
+    return db.assignments
+      .filter(a => classCodes.includes(a.classCode))
+      .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime())
+      .map(a => {
+        const submission = db.assignmentSubmissions.find(s => s.assignmentId === a.id && s.studentId === studentId) || null;
+        return { ...a, submission, status: getAssignmentStatus(a.dueAt, submission?.completedAt) };
+      });
+  }
+}
+
+// Create an assignment for a class - now uses API
+export async function createAssignment(teacherId: string, classCode: string, newAssignment: NewAssignment): Promise<Assignment> {
+  try {
+    return await assignmentApi.createAssignment(classCode, newAssignment);
+  } catch (error) {
+    // Fallback to localStorage
+    const db = getDatabase();
+    const classData = db.classes.find(c => c.classCode === classCode && c.teacherId === teacherId);
+    if (!classData) {
+      throw error;
+    }
+
+    const units = newAssignment.units || [];
+    const subtopics = newAssignment.subtopics || [];
+    let questionIds: string[] = [];
+    if (newAssignment.assignmentType === 'practice') {
+      const { loadClassData } = await import('./jsonLoader');
+      const classQuestions = await loadClassData(classData.apClassName);
+      const matchingIds = (classQuestions?.units || [])
+        .filter(unit => units.length === 0 || units.includes(unit.unitName))
+        .flatMap(unit => unit.subtopics)
+        .filter(subtopic => subtopics.length === 0 || subtopics.includes(subtopic.subtopicName))
+        .flatMap(subtopic => subtopic.questions.map(q => q.id));
+      if (matchingIds.length === 0) {
+        throw new Error('No questions match the selected units and subtopics');
+      }
+      questionIds = pickAssignmentQuestions(matchingIds, newAssignment.questionCount || 0);
+    }
+
+    const assignment: Assignment = {
+      id: generateId(),
+      classCode,
+      apClassName: classData.apClassName,
+      title: newAssignment.title.trim(),
+      assignmentType: newAssignment.assignmentType,
+      units,
+      subtopics,
+      questionIds,
+      questionCount: newAssignment.assignmentType === 'practice' ? questionIds.length : null,
+      apTestId: newAssignment.assignmentType === 'ap_test' ? newAssignment.apTestId ?? null : null,
+      allowPause: newAssignment.assignmentType === 'ap_test' ? newAssignment.allowPause ?? true : true,
+      dueAt: new Date(newAssignment.dueAt).toISOString(),
+      createdBy: teacherId,
+      createdAt: new Date().toISOString(),
+    };
+    db.assignments.push(assignment);
+    saveDatabase(db);
+    return assignment;
+  }
+}
+
+// Delete an assignment and its submissions - now uses API
+export async function deleteAssignment(classCode: string, assignmentId: string): Promise<void> {
+  try {
+    await assignmentApi.deleteAssignment(classCode, assignmentId);
+  } catch (error) {
+    // Fallback to localStorage
+    const db = getDatabase();
+    db.assignments = db.assignments.filter(a => a.id !== assignmentId);
+    db.assignmentSubmissions = db.assignmentSubmissions.filter(s => s.assignmentId !== assignmentId);
+    saveDatabase(db);
+  }
+}
+
+// Per-student completion, score and late status for an assignment - now uses API
+export async function getAssignmentProgress(classCode: string, assignmentId: string): Promise<AssignmentProgress | null> {
+  try {
+    return await assignmentApi.getProgress(classCode, assignmentId);
+  } catch (error) {
+    // Fallback to localStorage
+    const db = getDatabase();
+    const assignment = db.assignments.find(a => a.id === assignmentId && a.classCode === classCode);
+    if (!assignment) return null;
+
+    const now = Date.now();
+    const students = getClassStudents(classCode).map(student => {
+      const submission = db.assignmentSubmissions.find(s => s.assignmentId === assignmentId && s.studentId === student.id);
+      return {
+        studentId: student.id,
+        displayName: getDisplayName(student),
+        status: getAssignmentStatus(assignment.dueAt, submission?.completedAt, now),
+        score: submission?.score ?? null,
+        totalQuestions: submission?.totalQuestions ?? null,
+        completedAt: submission?.completedAt ?? null,
+      };
+    });
+    return { assignment, students };
+  }
+}
+
+// Record a student's completion of an assignment; only the first submission counts - now uses API
+export async function submitAssignment(
+  studentId: string,
+  assignment: Assignment,
+  score: number,
+  totalQuestions: number
+): Promise<AssignmentSubmission> {
+  try {
+    return await assignmentApi.submit(assignment.classCode, assignment.id, { score, totalQuestions });
+  } catch (error) {
+    // Fallback to localStorage
+    const db = getDatabase();
+    const existing = db.assignmentSubmissions.find(s => s.assignmentId === assignment.id && s.studentId === studentId);
+    if (existing) return existing;
+
+    const completedAt = new Date().toISOString();
+    const submission: AssignmentSubmission = {
+      assignmentId: assignment.id,
+      studentId,
+      score,
+      totalQuestions,
+      completedAt,
+      isLate: isSubmissionLate(assignment.dueAt, completedAt),
+    };
+    db.assignmentSubmissions.push(submission);
+    saveDatabase(db);
+    return submission;
+  }
+}
+
 // Save AP test attempt - now uses API
 export async function saveAPTestAttempt(attempt: APTestAttempt): Promise<void> {
+  const clientId = createClientId();
   try {
-    await apTestApi.saveAttempt(attempt);
+    await apTestApi.saveAttempt({ ...attempt, clientId });
   } catch (error) {
+    if (isNetworkError(error)) {
+      await enqueue(clientId, { kind: 'apTestAttempt', payload: attempt });
+    }
     // Fallback to localStorage
     const db = getDatabase();
     if (!db.apTestAttempts[attempt.userId]) {
@@ -1438,20 +1708,108 @@ export async function saveAPTestAttempt(attempt: APTestAttempt): Promise<void> {
   }
 }
 
+// An AP test in progress, autosaved so it can be resumed after the tab closes
+export interface APTestSession {
+  attemptId: string; // The finished attempt is saved under the same id
+  apClass: string;
+  testId: number;
+  assignmentId: string | null;
+  allowPause: boolean; // Off for proctored assignments: the clock keeps running while away
+  startTimestamp: string;
+  state: APTestSessionState;
+  updatedAt: string;
+  awaySeconds: number; // Since the session was last saved
+}
+
+export type NewAPTestSession = Pick<APTestSession, 'attemptId' | 'apClass' | 'testId' | 'assignmentId' | 'startTimestamp' | 'state'>;
+
+function fromAPTestSessionRecord(session: APTestSessionRecord): APTestSession {
+  return {
+    attemptId: session.id,
+    apClass: session.apClass,
+    testId: Number(session.testId),
+    assignmentId: session.assignmentId,
+    allowPause: session.allowPause,
+    startTimestamp: session.startTimestamp,
+    state: session.state as APTestSessionState, // As it was saved
+    updatedAt: session.updatedAt,
+    awaySeconds: session.awaySeconds,
+  };
+}
+
+// AP tests in progress, most recently saved first - now uses API
+export async function getAPTestSessions(userId: string): Promise<APTestSession[]> {
+  try {
+    const sessions = await apTestApi.getSessions(userId);
+    return sessions.map(fromAPTestSessionRecord);
+  } catch (error) {
+    // Fallback to localStorage
+    const db = getDatabase();
+    return Object.entries(db.apTestSessions)
+      .filter(([key]) => key.startsWith(`${userId}:`))
+      .map(([, session]) => ({
+        ...session,
+        awaySeconds: Math.max(0, Math.floor((Date.now() - Date.parse(session.updatedAt)) / 1000)),
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
+
+// Autosave an AP test in progress. Errors other than being offline (such as starting a
+// proctored test over) are thrown for the caller to show.
+export async function saveAPTestSession(userId: string, session: NewAPTestSession): Promise<APTestSession> {
+  try {
+    return fromAPTestSessionRecord(await apTestApi.saveSession({ ...session, userId }));
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      throw error;
+    }
+    // Fallback to localStorage
+    const db = getDatabase();
+    const key = `${userId}:${session.apClass}:${session.testId}`;
+    const existing = db.apTestSessions[key];
+    const saved: APTestSession = {
+      ...session,
+      allowPause: existing?.attemptId === session.attemptId ? existing.allowPause : true,
+      updatedAt: new Date().toISOString(),
+      awaySeconds: 0,
+    };
+    db.apTestSessions[key] = saved;
+    saveDatabase(db);
+    return saved;
+  }
+}
+
+// Discard an AP test in progress to start it over - now uses API
+export async function clearAPTestSession(userId: string, apClass: string, testId: number): Promise<void> {
+  try {
+    await apTestApi.clearSession(userId, apClass, String(testId));
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      throw error;
+    }
+  }
+  // Saved locally while offline
+  const db = getDatabase();
+  delete db.apTestSessions[`${userId}:${apClass}:${testId}`];
+  saveDatabase(db);
+}
+
 // Get all AP test attempts for a user - now uses API
 export async function getUserAPTestAttempts(userId: string): Promise<APTestAttempt[]> {
   try {
     const attempts = await apTestApi.getAttempts(userId);
-    return attempts.map((a: any) => ({
+    return attempts.map(a => ({
       id: a.id,
-      userId: a.user_id,
-      apClass: a.ap_class,
-      testId: a.test_id,
-      startTimestamp: a.start_timestamp,
-      endTimestamp: a.end_timestamp,
-      totalTimeUsedSeconds: a.total_time_used_seconds,
-      responses: a.responses,
-      summary: a.summary
+      userId: a.userId,
+      apClass: a.apClass,
+      testId: Number(a.testId),
+      startTimestamp: a.startTimestamp,
+      endTimestamp: a.endTimestamp,
+      totalTimeUsedSeconds: a.totalTimeUsedSeconds,
+      // Returned as they were saved
+      responses: a.responses as APTestAttempt['responses'],
+      summary: a.summary as APTestAttempt['summary']
     }));
   } catch (error) {
     // Fallback to localStorage
@@ -1465,17 +1823,18 @@ export async function getUserAPTestAttempts(userId: string): Promise<APTestAttem
 // Get AP test attempts for a user filtered by class - now uses API
 export async function getAPTestAttemptsByClass(userId: string, apClass: string): Promise<APTestAttempt[]> {
   try {
-    const attempts = await apTestApi.getAttempts(userId, apClass);
-    return attempts.map((a: any) => ({
+    const attempts = await apTestApi.getAttempts(userId, { apClass });
+    return attempts.map(a => ({
       id: a.id,
-      userId: a.user_id,
-      apClass: a.ap_class,
-      testId: a.test_id,
-      startTimestamp: a.start_timestamp,
-      endTimestamp: a.end_timestamp,
-      totalTimeUsedSeconds: a.total_time_used_seconds,
-      responses: a.responses,
-      summary: a.summary
+      userId: a.userId,
+      apClass: a.apClass,
+      testId: Number(a.testId),
+      startTimestamp: a.startTimestamp,
+      endTimestamp: a.endTimestamp,
+      totalTimeUsedSeconds: a.totalTimeUsedSeconds,
+      // Returned as they were saved
+      responses: a.responses as APTestAttempt['responses'],
+      summary: a.summary as APTestAttempt['summary']
     }));
   } catch (error) {
     // Fallback to localStorage
@@ -0,0 +1,19 @@
+// Rubric rules live in /shared so self-scores total the same as on the backend
+export * from "../../shared/freeResponse";
+
+import { FreeResponse, FreeResponseQuestionRecord, questionApi } from './api';
+
+/**
+ * Free-response questions of a class. They are left out of quizzes and the question
+ * bank, which are graded automatically. Teachers get the rubrics, students only the points.
+ */
+export async function getFreeResponseQuestions(apClass: string): Promise<FreeResponseQuestionRecord[]> {
+  const questions = await questionApi.getQuestions({ apClass });
+  // Typed with full parts; students get them without rubrics
+  return questions.filter(question => question.questionType === 'free_response') as unknown as FreeResponseQuestionRecord[];
+}
+
+// The teacher's grade counts once there is one, as on the backend
+export function getAwardedPoints(response: FreeResponse): number | null {
+  return response.teacherPoints ?? response.selfPoints;
+}
@@ -0,0 +1,347 @@
+// Generated by `npm run generate-client` in backend/ from the OpenAPI document served at
+// /api/docs. Do not edit: change the routes or shared/apiSchemas.ts and generate it again.
+
+import api, { camelize, queryString, type CamelCased, type KeyPlan } from './apiClient';
+import type * as S from './apiSchemas';
+
+// Responses, with the keys of stored rows in camelCase
+export type AbilityReport = CamelCased<S.AbilityReport>;
+export type ApClassChangeResult = CamelCased<S.ApClassChangeResult>;
+export type APTestAttempt = CamelCased<S.APTestAttempt>;
+export type APTestGrade = CamelCased<S.APTestGrade>;
+export type APTestListing = CamelCased<S.APTestListing>;
+export type APTestQuestion = CamelCased<S.APTestQuestion>;
+export type APTestSession = CamelCased<S.APTestSession>;
+export type Assignment = CamelCased<S.Assignment>;
+export type AssignmentProgress = CamelCased<S.AssignmentProgress>;
+export type AssignmentStudentProgress = CamelCased<S.AssignmentStudentProgress>;
+export type AssignmentSubmission = CamelCased<S.AssignmentSubmission>;
+export type AttemptScoring = CamelCased<S.AttemptScoring>;
+export type AuthResult = CamelCased<S.AuthResult>;
+export type Class = CamelCased<S.Class>;
+export type CreateClassResult = CamelCased<S.CreateClassResult>;
+export type DueReview = CamelCased<S.DueReview>;
+export type FreeResponse = CamelCased<S.FreeResponse>;
+export type GradingQueueItem = CamelCased<S.GradingQueueItem>;
+export type ItemAnswer = CamelCased<S.ItemAnswer>;
+export type ItemStats = CamelCased<S.ItemStats>;
+export type JoinClassResult = CamelCased<S.JoinClassResult>;
+export type LeaderboardEntry = CamelCased<S.LeaderboardEntry>;
+export type PointsAdjustmentResult = CamelCased<S.PointsAdjustmentResult>;
+export type PointsHistoryEntry = CamelCased<S.PointsHistoryEntry>;
+export type QuestionAttempt = CamelCased<S.QuestionAttempt>;
+export type QuestionGrade = CamelCased<S.QuestionGrade>;
+export type QuestionImportReport = CamelCased<S.QuestionImportReport>;
+export type QuestionImportResult = CamelCased<S.QuestionImportResult>;
+export type QuestionRecord = CamelCased<S.QuestionRecord>;
+export type QuestionRevision = CamelCased<S.QuestionRevision>;
+export type QuestionSnapshot = CamelCased<S.QuestionSnapshot>;
+export type QuizProgress = CamelCased<S.QuizProgress>;
+export type QuizResult = CamelCased<S.QuizResult>;
+export type RecordedAttempt = CamelCased<S.RecordedAttempt>;
+export type RollbackResult = CamelCased<S.RollbackResult>;
+export type ScoredQuizResult = CamelCased<S.ScoredQuizResult>;
+export type SessionScoring = CamelCased<S.SessionScoring>;
+export type StreakCalendar = CamelCased<S.StreakCalendar>;
+export type Success = CamelCased<S.Success>;
+export type UserProfile = CamelCased<S.UserProfile>;
+
+// Keys of each response to turn into camelCase
+const AuthResultKeys: KeyPlan = { user: { first_name: 0, last_name: 0, display_preference: 0, longest_streak: 0, streak_freezes: 0, last_quiz_date: 0, last_decay_timestamp: 0, show_leaderboard: 0, show_rank: 0, show_rank_publicly: 0, track_confidence: 0, created_at: 0, updated_at: 0 } };
+const UserProfileKeys: KeyPlan = { first_name: 0, last_name: 0, display_preference: 0, longest_streak: 0, streak_freezes: 0, last_quiz_date: 0, last_decay_timestamp: 0, show_leaderboard: 0, show_rank: 0, show_rank_publicly: 0, track_confidence: 0, created_at: 0, updated_at: 0 };
+const ApClassChangeResultKeys: KeyPlan = { user: UserProfileKeys };
+const QuestionRecordKeys: KeyPlan = { source_id: 0, question_type: 0, question_text: 0, correct_answer_id: 0, answer_key: 0, item_format: 0, ap_class: 0, unit_name: 0, subtopic_name: 0, created_at: 0, updated_at: 0 };
+const QuestionSnapshotKeys: KeyPlan = { question_type: 0, question_text: 0, correct_answer_id: 0, answer_key: 0, unit_name: 0, subtopic_name: 0 };
+const QuestionRevisionKeys: KeyPlan = { snapshot: QuestionSnapshotKeys };
+const RollbackResultKeys: KeyPlan = { question: QuestionRecordKeys, revision: QuestionRevisionKeys };
+const ScoredQuizResultKeys: KeyPlan = { user_id: 0, ap_class: 0, total_questions: 0, points_earned: 0 };
+const QuizResultKeys: KeyPlan = { user_id: 0, ap_class: 0, total_questions: 0, points_earned: 0 };
+const QuizProgressKeys: KeyPlan = { user_id: 0, ap_class: 0, current_index: 0, correct_answers: 0, answered_questions: 0, points_earned: 0, session_correct_answers: 0, session_total_answered: 0, created_at: 0, updated_at: 0 };
+const RecordedAttemptKeys: KeyPlan = { user_id: 0, question_id: 0, correct_attempts: 0, last_attempt_timestamp: 0, time_spent_seconds: 0, is_correct: 0, last_practiced_at: 0, metadata: { answer_events: 0, correct_timestamps: 0 }, review_ease_factor: 0, review_interval_days: 0, review_repetitions: 0, review_due_at: 0 };
+const QuestionAttemptKeys: KeyPlan = { user_id: 0, question_id: 0, correct_attempts: 0, last_attempt_timestamp: 0, time_spent_seconds: 0, is_correct: 0, last_practiced_at: 0, metadata: { answer_events: 0, correct_timestamps: 0 }, review_ease_factor: 0, review_interval_days: 0, review_repetitions: 0, review_due_at: 0 };
+const ClassKeys: KeyPlan = { class_code: 0, teacher_id: 0, ap_class_name: 0, leaderboard_enabled: 0, created_at: 0 };
+const CreateClassResultKeys: KeyPlan = { class: ClassKeys };
+const JoinClassResultKeys: KeyPlan = { class: ClassKeys };
+const APTestListingKeys: KeyPlan = { test_id: 0, ap_class: 0, question_count: 0 };
+const APTestQuestionKeys: KeyPlan = { test_id: 0, ap_class: 0, question_text: 0, correct_answer: 0, skill_type: 0, estimated_time_seconds: 0, question_order: 0, created_at: 0 };
+const APTestAttemptKeys: KeyPlan = { user_id: 0, ap_class: 0, test_id: 0, start_timestamp: 0, end_timestamp: 0, total_time_used_seconds: 0, created_at: 0 };
+const APTestSessionKeys: KeyPlan = { user_id: 0, ap_class: 0, test_id: 0, assignment_id: 0, allow_pause: 0, start_timestamp: 0, created_at: 0, updated_at: 0, away_seconds: 0 };
+
+export const authApi = {
+  // POST /auth/register
+  register: (body: S.RegisterBody) =>
+    api.post<S.AuthResult>('/auth/register', body).then(data => camelize(data, AuthResultKeys)),
+
+  // POST /auth/login
+  login: (body: S.LoginBody) =>
+    api.post<S.AuthResult>('/auth/login', body).then(data => camelize(data, AuthResultKeys)),
+
+  // GET /auth/me
+  getCurrentUser: () =>
+    api.get<S.UserProfile>('/auth/me').then(data => camelize(data, UserProfileKeys)),
+
+  // POST /auth/logout
+  logout: () =>
+    api.post<Success>('/auth/logout'),
+};
+
+export const userApi = {
+  // GET /users/{id}
+  getUser: (id: string) =>
+    api.get<S.UserProfile>(`/users/${encodeURIComponent(id)}`).then(data => camelize(data, UserProfileKeys)),
+
+  // PATCH /users/{id}
+  updateProfile: (id: string, body: S.UpdateUserBody) =>
+    api.patch<S.UserProfile>(`/users/${encodeURIComponent(id)}`, body).then(data => camelize(data, UserProfileKeys)),
+
+  // DELETE /users/{id}
+  deleteAccount: (id: string) =>
+    api.delete<Success>(`/users/${encodeURIComponent(id)}`),
+
+  // GET /users/{id}/points-history
+  getPointsHistory: (id: string, query?: { apClass?: string; limit?: number }) =>
+    api.get<PointsHistoryEntry[]>(`/users/${encodeURIComponent(id)}/points-history${queryString(query)}`),
+
+  // GET /users/{id}/streak
+  getStreak: (id: string, query?: { days?: number }) =>
+    api.get<StreakCalendar>(`/users/${encodeURIComponent(id)}/streak${queryString(query)}`),
+
+  // GET /users/{id}/ability
+  getAbility: (id: string, query: { apClass: string }) =>
+    api.get<AbilityReport>(`/users/${encodeURIComponent(id)}/ability${queryString(query)}`),
+
+  // POST /users/{id}/points-adjustments
+  adjustPoints: (id: string, body: S.PointsAdjustmentBody) =>
+    api.post<PointsAdjustmentResult>(`/users/${encodeURIComponent(id)}/points-adjustments`, body),
+
+  // POST /users/{id}/classes
+  addClass: (id: string, body: S.AddApClassBody) =>
+    api.post<S.ApClassChangeResult>(`/users/${encodeURIComponent(id)}/classes`, body).then(data => camelize(data, ApClassChangeResultKeys)),
+
+  // DELETE /users/{id}/classes/{apClass}
+  removeClass: (id: string, apClass: string) =>
+    api.delete<S.ApClassChangeResult>(`/users/${encodeURIComponent(id)}/classes/${encodeURIComponent(apClass)}`).then(data => camelize(data, ApClassChangeResultKeys)),
+};
+
+export const questionApi = {
+  // GET /questions
+  getQuestions: (query?: { apClass?: string; unit?: string; subtopic?: string }) =>
+    api.get<S.QuestionRecord[]>(`/questions${queryString(query)}`).then(data => camelize(data, QuestionRecordKeys)),
+
+  // POST /questions
+  createQuestion: (body: S.CreateQuestionBody) =>
+    api.post<S.QuestionRecord>('/questions', body).then(data => camelize(data, QuestionRecordKeys)),
+
+  // GET /questions/stats
+  getItemStats: (query: { apClass: string }) =>
+    api.get<ItemStats[]>(`/questions/stats${queryString(query)}`),
+
+  // GET /questions/{id}
+  getQuestionById: (id: string) =>
+    api.get<S.QuestionRecord>(`/questions/${encodeURIComponent(id)}`).then(data => camelize(data, QuestionRecordKeys)),
+
+  // PATCH /questions/{id}
+  updateQuestion: (id: string, body: S.UpdateQuestionBody) =>
+    api.patch<S.QuestionRecord>(`/questions/${encodeURIComponent(id)}`, body).then(data => camelize(data, QuestionRecordKeys)),
+
+  // GET /questions/{id}/stats
+  getQuestionStats: (id: string) =>
+    api.get<ItemStats>(`/questions/${encodeURIComponent(id)}/stats`),
+
+  // POST /questions/grade
+  gradeAnswers: (body: S.GradeAnswersBody) =>
+    api.post<QuestionGrade[]>('/questions/grade', body),
+
+  // GET /questions/{id}/revisions
+  getRevisions: (id: string) =>
+    api.get<S.QuestionRevision[]>(`/questions/${encodeURIComponent(id)}/revisions`).then(data => camelize(data, QuestionRevisionKeys)),
+
+  // POST /questions/{id}/revisions/{revision}/rollback
+  rollback: (id: string, revision: string) =>
+    api.post<S.RollbackResult>(`/questions/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revision)}/rollback`).then(data => camelize(data, RollbackResultKeys)),
+
+  // POST /questions/import
+  importQuestions: (body: S.ImportQuestionsBody, query?: { dryRun?: 'true' | 'false' }) =>
+    api.post<QuestionImportReport>(`/questions/import${queryString(query)}`, body),
+};
+
+export const quizApi = {
+  // POST /quizzes/results
+  saveResult: (body: S.QuizResultBody) =>
+    api.post<S.ScoredQuizResult>('/quizzes/results', body).then(data => camelize(data, ScoredQuizResultKeys)),
+
+  // GET /quizzes/results/{userId}
+  getResults: (userId: string, query?: { apClass?: string }) =>
+    api.get<S.QuizResult[]>(`/quizzes/results/${encodeURIComponent(userId)}${queryString(query)}`).then(data => camelize(data, QuizResultKeys)),
+
+  // POST /quizzes/progress
+  saveProgress: (body: S.QuizProgressBody) =>
+    api.post<S.QuizProgress>('/quizzes/progress', body).then(data => camelize(data, QuizProgressKeys)),
+
+  // GET /quizzes/progress/{userId}/{apClass}/{unit}
+  getProgress: (userId: string, apClass: string, unit: string) =>
+    api.get<S.QuizProgress | null>(`/quizzes/progress/${encodeURIComponent(userId)}/${encodeURIComponent(apClass)}/${encodeURIComponent(unit)}`).then(data => camelize(data, QuizProgressKeys)),
+
+  // DELETE /quizzes/progress/{userId}/{apClass}/{unit}
+  clearProgress: (userId: string, apClass: string, unit: string) =>
+    api.delete<Success>(`/quizzes/progress/${encodeURIComponent(userId)}/${encodeURIComponent(apClass)}/${encodeURIComponent(unit)}`),
+};
+
+export const attemptApi = {
+  // POST /attempts
+  recordAttempt: (body: S.RecordAttemptBody) =>
+    api.post<S.RecordedAttempt>('/attempts', body).then(data => camelize(data, RecordedAttemptKeys)),
+
+  // GET /attempts/{userId}
+  getAttempts: (userId: string, query?: { questionId?: string }) =>
+    api.get<S.QuestionAttempt[]>(`/attempts/${encodeURIComponent(userId)}${queryString(query)}`).then(data => camelize(data, QuestionAttemptKeys)),
+
+  // GET /attempts/{userId}/{questionId}
+  getAttempt: (userId: string, questionId: string) =>
+    api.get<S.QuestionAttempt | null>(`/attempts/${encodeURIComponent(userId)}/${encodeURIComponent(questionId)}`).then(data => camelize(data, QuestionAttemptKeys)),
+};
+
+export const leaderboardApi = {
+  // GET /leaderboard/{apClass}
+  getLeaderboard: (apClass: string, query?: { window?: 'week' | 'month' | 'term' | 'all' }) =>
+    api.get<LeaderboardEntry[]>(`/leaderboard/${encodeURIComponent(apClass)}${queryString(query)}`),
+
+  // GET /leaderboard/{apClass}/class/{classCode}
+  getClassLeaderboard: (apClass: string, classCode: string, query?: { window?: 'week' | 'month' | 'term' | 'all' }) =>
+    api.get<LeaderboardEntry[]>(`/leaderboard/${encodeURIComponent(apClass)}/class/${encodeURIComponent(classCode)}${queryString(query)}`),
+};
+
+export const assignmentApi = {
+  // GET /classes/{code}/assignments
+  getAssignments: (code: string) =>
+    api.get<Assignment[]>(`/classes/${encodeURIComponent(code)}/assignments`),
+
+  // POST /classes/{code}/assignments
+  createAssignment: (code: string, body: S.NewAssignment) =>
+    api.post<Assignment>(`/classes/${encodeURIComponent(code)}/assignments`, body),
+
+  // GET /classes/{code}/assignments/{assignmentId}/progress
+  getProgress: (code: string, assignmentId: string) =>
+    api.get<AssignmentProgress>(`/classes/${encodeURIComponent(code)}/assignments/${encodeURIComponent(assignmentId)}/progress`),
+
+  // POST /classes/{code}/assignments/{assignmentId}/submit
+  submit: (code: string, assignmentId: string, body: S.SubmitAssignmentBody) =>
+    api.post<AssignmentSubmission>(`/classes/${encodeURIComponent(code)}/assignments/${encodeURIComponent(assignmentId)}/submit`, body),
+
+  // DELETE /classes/{code}/assignments/{assignmentId}
+  deleteAssignment: (code: string, assignmentId: string) =>
+    api.delete<Success>(`/classes/${encodeURIComponent(code)}/assignments/${encodeURIComponent(assignmentId)}`),
+};
+
+export const classApi = {
+  // POST /classes
+  createClass: (body: S.CreateClassBody) =>
+    api.post<S.CreateClassResult>('/classes', body).then(data => camelize(data, CreateClassResultKeys)),
+
+  // GET /classes/{code}
+  getClassByCode: (code: string) =>
+    api.get<S.Class>(`/classes/${encodeURIComponent(code)}`).then(data => camelize(data, ClassKeys)),
+
+  // POST /classes/{code}/join
+  joinClass: (code: string) =>
+    api.post<S.JoinClassResult>(`/classes/${encodeURIComponent(code)}/join`).then(data => camelize(data, JoinClassResultKeys)),
+
+  // GET /classes/teacher/{teacherId}
+  getTeacherClasses: (teacherId: string) =>
+    api.get<S.Class[]>(`/classes/teacher/${encodeURIComponent(teacherId)}`).then(data => camelize(data, ClassKeys)),
+
+  // GET /classes/student/{studentId}
+  getStudentClasses: (studentId: string) =>
+    api.get<S.Class[]>(`/classes/student/${encodeURIComponent(studentId)}`).then(data => camelize(data, ClassKeys)),
+};
+
+export const apTestApi = {
+  // GET /ap-tests/{apClass}
+  getTests: (apClass: string) =>
+    api.get<S.APTestListing[]>(`/ap-tests/${encodeURIComponent(apClass)}`).then(data => camelize(data, APTestListingKeys)),
+
+  // GET /ap-tests/{apClass}/{testId}/questions
+  getTestQuestions: (apClass: string, testId: string) =>
+    api.get<S.APTestQuestion[]>(`/ap-tests/${encodeURIComponent(apClass)}/${encodeURIComponent(testId)}/questions`).then(data => camelize(data, APTestQuestionKeys)),
+
+  // POST /ap-tests/{apClass}/{testId}/grade
+  gradeTest: (apClass: string, testId: string, body: S.GradeAnswersBody) =>
+    api.post<APTestGrade>(`/ap-tests/${encodeURIComponent(apClass)}/${encodeURIComponent(testId)}/grade`, body),
+
+  // POST /ap-tests/attempts
+  saveAttempt: (body: S.APTestAttemptBody) =>
+    api.post<S.APTestAttempt>('/ap-tests/attempts', body).then(data => camelize(data, APTestAttemptKeys)),
+
+  // GET /ap-tests/attempts/{userId}
+  getAttempts: (userId: string, query?: { apClass?: string }) =>
+    api.get<S.APTestAttempt[]>(`/ap-tests/attempts/${encodeURIComponent(userId)}${queryString(query)}`).then(data => camelize(data, APTestAttemptKeys)),
+
+  // POST /ap-tests/sessions
+  saveSession: (body: S.APTestSessionBody) =>
+    api.post<S.APTestSession>('/ap-tests/sessions', body).then(data => camelize(data, APTestSessionKeys)),
+
+  // GET /ap-tests/sessions/{userId}
+  getSessions: (userId: string, query?: { apClass?: string }) =>
+    api.get<S.APTestSession[]>(`/ap-tests/sessions/${encodeURIComponent(userId)}${queryString(query)}`).then(data => camelize(data, APTestSessionKeys)),
+
+  // DELETE /ap-tests/sessions/{userId}/{apClass}/{testId}
+  clearSession: (userId: string, apClass: string, testId: string) =>
+    api.delete<Success>(`/ap-tests/sessions/${encodeURIComponent(userId)}/${encodeURIComponent(apClass)}/${encodeURIComponent(testId)}`),
+};
+
+export const reviewApi = {
+  // GET /review/due
+  getDue: (query: { apClass: string; limit?: number }) =>
+    api.get<DueReview[]>(`/review/due${queryString(query)}`),
+};
+
+export const exportApi = {
+  // GET /exports/questions
+  downloadQuestions: (query: { apClass: string; format?: 'csv' | 'qti' }) =>
+    api.download(`/exports/questions${queryString(query)}`),
+
+  // GET /exports/classes/{code}/quiz-results
+  downloadQuizResults: (code: string) =>
+    api.download(`/exports/classes/${encodeURIComponent(code)}/quiz-results`),
+
+  // GET /exports/classes/{code}/ap-test-attempts
+  downloadAPTestAttempts: (code: string) =>
+    api.download(`/exports/classes/${encodeURIComponent(code)}/ap-test-attempts`),
+};
+
+export const freeResponseApi = {
+  // POST /free-responses
+  submit: (body: S.SubmitFreeResponseBody) =>
+    api.post<FreeResponse>('/free-responses', body),
+
+  // GET /free-responses
+  getResponses: (query?: { questionId?: string; apTestAttemptId?: string }) =>
+    api.get<FreeResponse[]>(`/free-responses${queryString(query)}`),
+
+  // GET /free-responses/queue
+  getQueue: (query: { apClass: string; status?: 'ungraded' | 'all' }) =>
+    api.get<GradingQueueItem[]>(`/free-responses/queue${queryString(query)}`),
+
+  // POST /free-responses/{id}/self-score
+  selfScore: (id: string, body: S.SelfScoreBody) =>
+    api.post<FreeResponse>(`/free-responses/${encodeURIComponent(id)}/self-score`, body),
+
+  // POST /free-responses/{id}/grade
+  grade: (id: string, body: S.GradeFreeResponseBody) =>
+    api.post<FreeResponse>(`/free-responses/${encodeURIComponent(id)}/grade`, body),
+};
+
+export default {
+  auth: authApi,
+  user: userApi,
+  question: questionApi,
+  quiz: quizApi,
+  attempt: attemptApi,
+  leaderboard: leaderboardApi,
+  assignment: assignmentApi,
+  class: classApi,
+  apTest: apTestApi,
+  review: reviewApi,
+  export: exportApi,
+  freeResponse: freeResponseApi,
+};
@@ -0,0 +1,110 @@
+// Secure delivery keeps answer keys off the client: questions are loaded from the
+// backend without keys, answers are graded there and keys only come back once an
+// answer is recorded or a test submitted. Turn it on with VITE_SECURE_DELIVERY=true;
+// otherwise questions (and keys) come from public/data.
+
+import { apTestApi, questionApi, QuestionGrade } from './api';
+import { APTestData, APTestQuestion, APTestQuestionResponse } from './apTestData';
+import { isKeyedQuestionType, ItemAnswer } from './itemTypes';
+
+export const SECURE_DELIVERY = import.meta.env.VITE_SECURE_DELIVERY === 'true';
+
+type APTestAnswerKey = Record<number, NonNullable<APTestQuestion['correct_answer']>>;
+
+export interface APTestGrades {
+  answerKey: APTestAnswerKey; // Correct option per multiple-choice question id
+  items: Record<number, QuestionGrade>; // Credit and key per multi-select, numeric, ordering or matching question id
+}
+
+// Calculate struggle score (0-1) based on correctness and time spent
+export function calculateStruggleScore(
+  isCorrect: boolean,
+  timeSpentSeconds: number,
+  maxExpectedTime: number = 120
+): number {
+  const correctnessComponent = isCorrect ? 0 : 1;
+  const normalizedTime = Math.min(timeSpentSeconds / maxExpectedTime, 2.0) / 2.0;
+  const struggleScore = correctnessComponent * 0.7 + normalizedTime * 0.3;
+  return Math.max(0, Math.min(1, struggleScore));
+}
+
+/**
+ * Fetch the answer key for a submitted AP test; the server only sends it once the attempt
+ * is saved. Adaptive tests are graded against the bank questions they were built from,
+ * fixed tests by question number.
+ * @param answers - Answer per question id: the selected option, or the answer to a keyed question (null when unanswered)
+ * @returns The correct option per multiple-choice question id, and grades of keyed questions
+ */
+export async function gradeAPTest(testData: APTestData, answers: Record<number, ItemAnswer>): Promise<APTestGrades> {
+  const grades: APTestGrades = { answerKey: {}, items: {} };
+
+  if (testData.questions.every(question => question.sourceQuestionId)) {
+    // Free-response questions have no key; they are scored against their rubric
+    const graded = testData.questions.filter(question => question.type !== 'free_response');
+    const results = await questionApi.gradeAnswers({
+      answers: graded.map(question => {
+        const answer = answers[question.id] ?? null;
+        return isKeyedQuestionType(question.type)
+          ? { questionId: question.sourceQuestionId!, selectedOptionId: null, answer }
+          : { questionId: question.sourceQuestionId!, selectedOptionId: typeof answer === 'string' ? answer : null };
+      })
+    });
+    graded.forEach((question, index) => {
+      if (isKeyedQuestionType(question.type)) {
+        grades.items[question.id] = results[index];
+      } else {
+        grades.answerKey[question.id] = results[index].correctAnswerId as APTestAnswerKey[number];
+      }
+    });
+    return grades;
+  }
+
+  // Fixed tests are multiple choice
+  const grade = await apTestApi.gradeTest(
+    testData.ap_class,
+    String(testData.test_id),
+    {
+      answers: testData.questions.map(question => {
+        const answer = answers[question.id];
+        return { questionId: question.id, selectedOptionId: typeof answer === 'string' ? answer : null };
+      })
+    }
+  );
+  grade.questions.forEach(question => {
+    grades.answerKey[question.questionNumber] = question.correctAnswer as APTestAnswerKey[number];
+  });
+  return grades;
+}
+
+/**
+ * Grade a saved AP test on the server and attach the answer keys it returns
+ * @returns The graded responses, and the test's questions with their keys
+ */
+export async function gradeAPTestResponses(testData: APTestData, responses: APTestQuestionResponse[]) {
+  const answers = Object.fromEntries(responses.map(response => [
+    response.questionId,
+    response.answer !== undefined ? response.answer : response.userAnswer,
+  ]));
+  const { answerKey, items } = await gradeAPTest(testData, answers);
+
+  const gradedResponses = responses.map(response => {
+    const item = items[response.questionId];
+    const credit = item?.credit;
+    const isCorrect = item
+      ? item.isCorrect
+      : response.userAnswer !== null && response.userAnswer === answerKey[response.questionId];
+    const stimulusPerformance = response.stimulusPerformance && {
+      ...response.stimulusPerformance,
+      wasCorrect: isCorrect,
+      struggleScore: calculateStruggleScore(isCorrect, response.timeSpentSeconds, response.estimatedTimeSeconds),
+    };
+    return { ...response, isCorrect, credit, stimulusPerformance };
+  });
+  const questions = testData.questions.map(question => ({
+    ...question,
+    correct_answer: answerKey[question.id],
+    answerKey: items[question.id]?.answerKey ?? question.answerKey,
+  }));
+
+  return { responses: gradedResponses, questions };
+}
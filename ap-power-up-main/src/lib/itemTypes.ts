@@ -0,0 +1,103 @@
+// Item type rules live in /shared so credit is the same as on the backend
+export * from "../../shared/itemTypes";
+
+import { Question, QuestionOption } from './questionData';
+import { APTestQuestion } from './apTestData';
+import {
+  isKeyedQuestionType,
+  AnswerKey,
+  ItemAnswer,
+  ItemFormat,
+  KeyedQuestionType,
+  MatchingKey,
+  MultiSelectKey,
+  NumericKey,
+  OrderingKey,
+  parseNumericAnswer,
+} from '../../shared/itemTypes';
+
+// A multi-select, numeric, ordering or matching item as the quiz and AP test render it
+export interface ObjectiveItem {
+  type: KeyedQuestionType;
+  options: QuestionOption[];
+  format?: ItemFormat | null; // Units and prompts, which students see before answering
+  answerKey?: AnswerKey | null; // Left out by secure delivery until the answer is graded
+}
+
+// A multi-select, numeric, ordering or matching practice question as an item, or null for
+// multiple-choice questions
+export function toQuestionItem(question: Question): ObjectiveItem | null {
+  if (!isKeyedQuestionType(question.type)) {
+    return null;
+  }
+  return { type: question.type, options: question.options, format: question.itemFormat, answerKey: question.answerKey };
+}
+
+// A multi-select, numeric, ordering or matching AP test question as an item, or null for
+// multiple-choice and free-response questions
+export function toObjectiveItem(question: APTestQuestion): ObjectiveItem | null {
+  if (!isKeyedQuestionType(question.type)) {
+    return null;
+  }
+  return { type: question.type, options: question.choices || [], format: question.itemFormat, answerKey: question.answerKey };
+}
+
+// Ordering items start in the order their options are listed, so leaving them as they
+// are is an answer too
+export function getInitialAnswer(item: ObjectiveItem): ItemAnswer {
+  return item.type === 'ordering' ? item.options.map(option => option.id) : null;
+}
+
+export function isItemAnswered(item: ObjectiveItem, answer: ItemAnswer | undefined): boolean {
+  switch (item.type) {
+    case 'multi_select':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'numeric':
+      return parseNumericAnswer(answer) !== null;
+    case 'ordering':
+      return Array.isArray(answer);
+    case 'matching':
+      return !!answer && typeof answer === 'object' && !Array.isArray(answer) && Object.keys(answer).length > 0;
+  }
+}
+
+// The key written as an answer, to show next to the student's
+export function getKeyAnswer(type: KeyedQuestionType, key: AnswerKey): ItemAnswer {
+  switch (type) {
+    case 'multi_select':
+      return (key as MultiSelectKey).correctOptionIds;
+    case 'numeric':
+      return (key as NumericKey).value;
+    case 'ordering':
+      return (key as OrderingKey).order;
+    case 'matching':
+      return (key as MatchingKey).matches;
+  }
+}
+
+// An answer as text: option ids, a number with its units, or prompts with their options
+export function formatItemAnswer(item: ObjectiveItem, answer: ItemAnswer | undefined): string {
+  if (answer === null || answer === undefined || (Array.isArray(answer) && answer.length === 0)) {
+    return 'No answer';
+  }
+  switch (item.type) {
+    case 'multi_select':
+      return Array.isArray(answer) ? answer.join(', ') : 'No answer';
+    case 'numeric': {
+      const units = item.format?.units ?? (item.answerKey as NumericKey | null | undefined)?.units;
+      return `${answer}${units ? ` ${units}` : ''}`;
+    }
+    case 'ordering':
+      return Array.isArray(answer) ? answer.join(' → ') : 'No answer';
+    case 'matching': {
+      const prompts = item.format?.prompts ?? (item.answerKey as MatchingKey | null | undefined)?.prompts ?? [];
+      const matches = typeof answer === 'object' && !Array.isArray(answer) ? answer : {};
+      return prompts.map(prompt => `${prompt.content}: ${matches[prompt.id] ?? '–'}`).join('; ');
+    }
+  }
+}
+
+// Partial credit as a percentage, e.g. "67%"
+export function formatCredit(credit: number): string {
+  return `${Math.round(credit * 100)}%`;
+}
@@ -2,6 +2,8 @@
 // This file handles loading question data from JSON files dynamically
 
 import { ClassData, Question, Unit, Subtopic, initializeUserState, initializeMetadata, deriveStimulusMeta, StimulusItem } from './questionData';
+import { SECURE_DELIVERY } from './grading';
+import { toItemFormat } from './itemTypes';
 
 // Cache for loaded class data
 const classDataCache: Map<string, ClassData> = new Map();
@@ -22,13 +24,15 @@ export async function loadClassData(className: string): Promise<ClassData | null
   // Try API first, but check if data is complete
   try {
     const { questionApi } = await import('./api');
-    const questions = await questionApi.getQuestions({ apClass: className });
+    // Quizzes are multiple choice; free-response questions are practiced on their own
+    const questions = (await questionApi.getQuestions({ apClass: className }))
+      .filter(q => q.questionType !== 'free_response');
     
     if (questions && questions.length > 0) {
-      // Check if API questions have correct_answer_id populated
-      // If more than 50% are missing correct_answer_id, fall back to JSON
+      // Check if API questions have correctAnswerId populated
+      // If more than 50% are missing correctAnswerId, fall back to JSON
       const questionsWithCorrectAnswer = questions.filter((q: any) => 
-        q.correct_answer_id || q.correctAnswerId || q.correctOptionId || q.answer
+        q.correctAnswerId || q.correctOptionId || q.answer || q.answerKey
       ).length;
       const completenessRatio = questionsWithCorrectAnswer / questions.length;
       
@@ -49,11 +53,12 @@ export async function loadClassData(className: string): Promise<ClassData | null
       const stimulusCompletenessRatio = questionsWithStimulus / questions.length;
       
       // Fall back to JSON if correct answers are missing OR if stimulus data is missing
-      // (only use API if both correct answers AND stimulus are present)
-      if (completenessRatio < 0.5) {
+      // (only use API if both correct answers AND stimulus are present).
+      // Secure delivery always uses the API: its questions never carry keys.
+      if (!SECURE_DELIVERY && completenessRatio < 0.5) {
         console.warn(`[JSON LOADER] API data incomplete (${Math.round(completenessRatio * 100)}% have correct answers). Falling back to JSON.`);
         // Fall through to JSON loading
-      } else if (stimulusCompletenessRatio < 0.1) {
+      } else if (!SECURE_DELIVERY && stimulusCompletenessRatio < 0.1) {
         // If less than 10% have stimulus, API is likely missing stimulus data - use JSON
         console.warn(`[JSON LOADER] API data missing stimulus (only ${Math.round(stimulusCompletenessRatio * 100)}% have stimulus). Falling back to JSON for complete data.`);
         // Fall through to JSON loading
@@ -63,8 +68,8 @@ export async function loadClassData(className: string): Promise<ClassData | null
         const unitsMap = new Map<string, Map<string, any[]>>();
         
         questions.forEach((q: any) => {
-          const unitName = q.unit_name;
-          const subtopicName = q.subtopic_name || 'General';
+          const unitName = q.unitName;
+          const subtopicName = q.subtopicName || 'General';
           
           if (!unitsMap.has(unitName)) {
             unitsMap.set(unitName, new Map());
@@ -124,18 +129,22 @@ export async function loadClassData(className: string): Promise<ClassData | null
             stimulusMeta = deriveStimulusMeta(stimulus);
           }
           
-          const correctAnswerId = q.correct_answer_id || q.correctAnswerId || q.correctOptionId || q.answer || '';
+          const correctAnswerId = q.correctAnswerId || q.correctOptionId || q.answer || '';
           
-          if (!correctAnswerId) {
-            console.warn(`[JSON LOADER] API question ${q.id} is missing correct_answer_id`);
+          if (!correctAnswerId && !q.answerKey && !SECURE_DELIVERY) {
+            console.warn(`[JSON LOADER] API question ${q.id} is missing correctAnswerId`);
           }
           
           subtopicsMap.get(subtopicName)!.push({
             id: q.id,
-            questionText: q.question_text,
+            type: q.questionType,
+            questionText: q.questionText,
             options: q.options,
             correctAnswerId,
+            answerKey: q.answerKey ?? null,
+            itemFormat: q.itemFormat ?? toItemFormat(q.questionType, q.answerKey ?? null),
             explanation: q.explanation || '',
+            commonMistakePatterns: q.metadata?.commonMistakePatterns || [],
             metadata: q.metadata || {},
             stimulus: stimulus && stimulus.length > 0 ? stimulus : undefined,
             stimulusMeta: stimulusMeta && stimulusMeta.hasStimulus ? stimulusMeta : undefined,
@@ -167,6 +176,12 @@ export async function loadClassData(className: string): Promise<ClassData | null
     console.warn(`[JSON LOADER] Failed to load from API, falling back to JSON:`, error);
   }
 
+  // The JSON files include answer keys, so secure delivery never falls back to them
+  if (SECURE_DELIVERY) {
+    console.error(`[JSON LOADER] ERROR: Could not load questions for ${className} from the API`);
+    return null;
+  }
+
   // Fallback to JSON files
   try {
     // Convert className to filename (replace spaces and special chars)
@@ -0,0 +1,440 @@
+// Question Authoring
+// Converts between the editor's draft, the loaded Question shape and the backend's
+// question rows, and diffs revisions. Authoring needs the backend - edits are
+// versioned on the server, so there is no localStorage fallback.
+
+import { Question, QuestionOption, QuestionMetadata, StimulusItem, deriveStimulusMeta } from './questionData';
+import { questionApi, QuestionRecord, QuestionRevision, QuestionSnapshot, QuestionPayload, QuestionImportReport } from './api';
+import { clearCache } from './jsonLoader';
+import {
+  AnswerKey,
+  isKeyedQuestionType,
+  KeyedQuestionType,
+  MatchingKey,
+  MultiSelectKey,
+  NumericKey,
+  OrderingKey,
+  QUESTION_TYPE_LABELS,
+  QuestionType,
+  validateAnswerKey,
+} from './itemTypes';
+
+export const DIFFICULTIES: QuestionMetadata['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+export const COGNITIVE_LEVELS: QuestionMetadata['cognitiveLevel'][] = ['Recall', 'Application', 'Analysis', 'Synthesis', 'Evaluation'];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+// Free-response questions have their own editor
+export type ObjectiveQuestionType = Exclude<QuestionType, 'free_response'>;
+
+// Database questions have UUID ids; questions served from the bundled JSON fallback do not
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Metadata keys the editor owns; anything else (e.g. originalQuestionId) is carried through untouched
+const EDITOR_METADATA_KEYS = ['difficulty', 'cognitiveLevel', 'skillTags', 'commonMistakePatterns', 'stimulus', 'stimulusMeta'];
+
+export interface QuestionDraft {
+  questionType: ObjectiveQuestionType;
+  questionText: string;
+  options: QuestionOption[]; // Ordering questions list them in the correct order
+  correctAnswerId: string; // Multiple choice only
+  answerKey: AnswerKey | null; // Multi-select, numeric and matching; ordering keys come from the option order
+  explanation: string;
+  commonMistakePatterns: string[];
+  difficulty: QuestionMetadata['difficulty'];
+  cognitiveLevel: QuestionMetadata['cognitiveLevel'];
+  skillTags: string[];
+  stimulus: StimulusItem[];
+  unitName: string;
+  subtopicName: string | null;
+  extraMetadata: Record<string, unknown>;
+}
+
+export interface DraftChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface LineDiff {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export function getOptionId(index: number): string {
+  return String.fromCharCode(65 + index); // A, B, C, ...
+}
+
+// Only questions stored in the database can be edited and versioned
+export function isEditableQuestion(questionId: string): boolean {
+  return UUID_PATTERN.test(questionId);
+}
+
+// The key a question starts with when its type is picked
+export function createAnswerKey(type: ObjectiveQuestionType): AnswerKey | null {
+  switch (type) {
+    case 'multi_select':
+      return { correctOptionIds: [] };
+    case 'numeric':
+      return { value: NaN, tolerance: 0, units: null };
+    case 'ordering':
+      return { order: [] };
+    case 'matching':
+      return { prompts: [{ id: 'p1', content: '' }, { id: 'p2', content: '' }], matches: {} };
+    default:
+      return null;
+  }
+}
+
+export function createEmptyDraft(unitName: string, subtopicName: string | null): QuestionDraft {
+  return {
+    questionType: 'multiple_choice',
+    questionText: '',
+    options: [0, 1, 2, 3].map(index => ({ id: getOptionId(index), content: '' })),
+    correctAnswerId: '',
+    answerKey: null,
+    explanation: '',
+    commonMistakePatterns: [],
+    difficulty: 'Medium',
+    cognitiveLevel: 'Application',
+    skillTags: [],
+    stimulus: [],
+    unitName,
+    subtopicName,
+    extraMetadata: {},
+  };
+}
+
+function splitMetadata(metadata: Record<string, unknown> | null | undefined) {
+  const extraMetadata: Record<string, unknown> = {};
+  Object.entries(metadata || {}).forEach(([key, value]) => {
+    if (!EDITOR_METADATA_KEYS.includes(key)) {
+      extraMetadata[key] = value;
+    }
+  });
+  return extraMetadata;
+}
+
+// Ordering questions are edited with their options in the correct order
+function toDraftOptions(type: QuestionType, options: QuestionOption[], key: AnswerKey | null): QuestionOption[] {
+  if (type !== 'ordering' || !key) {
+    return options.map(option => ({ ...option }));
+  }
+  const { order } = key as OrderingKey;
+  return [...options].sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id)).map(option => ({ ...option }));
+}
+
+function toDraftType(type: QuestionType | undefined): ObjectiveQuestionType {
+  return isKeyedQuestionType(type) ? type : 'multiple_choice';
+}
+
+export function questionToDraft(question: Question, unitName: string, subtopicName: string | null): QuestionDraft {
+  const metadata = (question.metadata || {}) as Partial<QuestionMetadata> & Record<string, unknown>;
+  const questionType = toDraftType(question.type);
+  return {
+    questionType,
+    questionText: question.questionText,
+    options: toDraftOptions(questionType, question.options, question.answerKey ?? null),
+    correctAnswerId: question.correctAnswerId,
+    answerKey: question.answerKey ?? createAnswerKey(questionType),
+    explanation: question.explanation || '',
+    commonMistakePatterns: question.commonMistakePatterns || [],
+    difficulty: metadata.difficulty || 'Medium',
+    cognitiveLevel: metadata.cognitiveLevel || 'Application',
+    skillTags: metadata.skillTags || [],
+    stimulus: question.stimulus || [],
+    unitName,
+    subtopicName,
+    extraMetadata: splitMetadata(metadata),
+  };
+}
+
+export function snapshotToDraft(snapshot: QuestionSnapshot): QuestionDraft {
+  const metadata = (snapshot.metadata || {}) as Partial<QuestionMetadata> & {
+    commonMistakePatterns?: string[];
+    stimulus?: StimulusItem[] | null;
+  };
+  const questionType = toDraftType(snapshot.questionType);
+  return {
+    questionType,
+    questionText: snapshot.questionText,
+    options: toDraftOptions(questionType, snapshot.options || [], snapshot.answerKey),
+    correctAnswerId: snapshot.correctAnswerId,
+    answerKey: snapshot.answerKey ?? createAnswerKey(questionType),
+    explanation: snapshot.explanation || '',
+    commonMistakePatterns: metadata.commonMistakePatterns || [],
+    difficulty: metadata.difficulty || 'Medium',
+    cognitiveLevel: metadata.cognitiveLevel || 'Application',
+    skillTags: metadata.skillTags || [],
+    stimulus: metadata.stimulus || [],
+    unitName: snapshot.unitName,
+    subtopicName: snapshot.subtopicName,
+    extraMetadata: splitMetadata(snapshot.metadata),
+  };
+}
+
+// Stable hash of option text, so saving an unchanged ordering question keeps its options in place
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
+
+// Ordering questions are stored with their options out of order, since students start from
+// the stored order
+function scrambleOptions(options: QuestionOption[]): QuestionOption[] {
+  const scrambled = [...options].sort((a, b) => hashText(a.content) - hashText(b.content));
+  if (scrambled.every((option, index) => option.id === options[index].id)) {
+    scrambled.push(scrambled.shift()!);
+  }
+  return scrambled;
+}
+
+/**
+ * The answer key a draft is saved with: trimmed, and for ordering questions the option order
+ */
+export function getDraftAnswerKey(draft: QuestionDraft): AnswerKey | null {
+  switch (draft.questionType) {
+    case 'multiple_choice':
+      return null;
+    case 'ordering':
+      return { order: draft.options.map(option => option.id) };
+    case 'numeric': {
+      const key = draft.answerKey as NumericKey;
+      return { ...key, units: key.units?.trim() || null };
+    }
+    case 'matching': {
+      const key = draft.answerKey as MatchingKey;
+      return { ...key, prompts: key.prompts.map(prompt => ({ ...prompt, content: prompt.content.trim() })) };
+    }
+    default:
+      return draft.answerKey;
+  }
+}
+
+function getDraftOptions(draft: QuestionDraft): QuestionOption[] {
+  if (draft.questionType === 'numeric') {
+    return [];
+  }
+  const options = draft.options.map(option => ({ id: option.id, content: option.content.trim() }));
+  return draft.questionType === 'ordering' ? scrambleOptions(options) : options;
+}
+
+export function draftToPayload(draft: QuestionDraft, apClass: string, changeNote?: string): QuestionPayload {
+  // Stimulus lives in metadata, where the question importer and jsonLoader expect it
+  const stimulusMeta = deriveStimulusMeta(draft.stimulus);
+  return {
+    questionType: draft.questionType,
+    questionText: draft.questionText.trim(),
+    options: getDraftOptions(draft),
+    correctAnswerId: draft.questionType === 'multiple_choice' ? draft.correctAnswerId : '',
+    answerKey: getDraftAnswerKey(draft),
+    explanation: draft.explanation.trim(),
+    apClass,
+    unitName: draft.unitName,
+    subtopicName: draft.subtopicName,
+    metadata: {
+      ...draft.extraMetadata,
+      difficulty: draft.difficulty,
+      cognitiveLevel: draft.cognitiveLevel,
+      skillTags: draft.skillTags,
+      commonMistakePatterns: draft.commonMistakePatterns,
+      stimulus: draft.stimulus.length > 0 ? draft.stimulus : null,
+      stimulusMeta: stimulusMeta.hasStimulus ? stimulusMeta : null,
+    },
+    changeNote: changeNote?.trim() || undefined,
+  };
+}
+
+/**
+ * Check a draft before saving; mirrors the backend's validation
+ * @returns An error message, or null if the draft can be saved
+ */
+export function validateDraft(draft: QuestionDraft): string | null {
+  if (!draft.unitName) return 'Please choose a unit';
+  if (!draft.questionText.trim()) return 'Please enter the question text';
+  if (draft.questionType !== 'numeric') {
+    if (draft.options.length < MIN_OPTIONS) return `Questions need at least ${MIN_OPTIONS} options`;
+    if (draft.options.some(option => !option.content.trim())) return 'Please fill in every option';
+  }
+  const keyError = validateDraftKey(draft);
+  if (keyError) return keyError;
+
+  for (const item of draft.stimulus) {
+    if (item.type === 'table' && item.rows.some(row => row.length !== item.columns.length)) {
+      return `Every row of "${item.label || 'table'}" needs ${item.columns.length} cells`;
+    }
+    if (item.type === 'graph' && item.data.some(point => Number.isNaN(point.x) || Number.isNaN(point.y))) {
+      return `"${item.label || 'graph'}" has points that are not numbers`;
+    }
+  }
+  return null;
+}
+
+function validateDraftKey(draft: QuestionDraft): string | null {
+  switch (draft.questionType) {
+    case 'multiple_choice':
+      return draft.options.some(option => option.id === draft.correctAnswerId) ? null : 'Please mark the correct answer';
+    case 'multi_select':
+      if ((draft.answerKey as MultiSelectKey).correctOptionIds.length === 0) return 'Please mark at least one correct option';
+      break;
+    case 'numeric':
+      if (!Number.isFinite((draft.answerKey as NumericKey).value)) return 'Please enter the numeric answer';
+      break;
+    case 'matching': {
+      const { prompts, matches } = draft.answerKey as MatchingKey;
+      if (prompts.some(prompt => !prompt.content.trim())) return 'Please fill in every prompt';
+      if (prompts.some(prompt => !matches[prompt.id])) return 'Please match every prompt to an option';
+      break;
+    }
+  }
+  return validateAnswerKey(draft.questionType as KeyedQuestionType, getDraftAnswerKey(draft), getDraftOptions(draft));
+}
+
+// The key as text, for diffs between revisions
+function formatAnswerKey(draft: QuestionDraft): string {
+  const key = getDraftAnswerKey(draft);
+  switch (draft.questionType) {
+    case 'multiple_choice':
+      return draft.correctAnswerId;
+    case 'multi_select':
+      return (key as MultiSelectKey).correctOptionIds.join(', ');
+    case 'numeric': {
+      const { value, tolerance, units } = key as NumericKey;
+      return `${value}${tolerance > 0 ? ` ± ${tolerance}` : ''}${units ? ` ${units}` : ''}`;
+    }
+    case 'ordering':
+      return (key as OrderingKey).order.join(' → ');
+    case 'matching': {
+      const { prompts, matches } = key as MatchingKey;
+      return prompts.map(prompt => `${prompt.content} → ${matches[prompt.id] ?? ''}`).join('\n');
+    }
+  }
+}
+
+function formatStimulus(stimulus: StimulusItem[]): string {
+  return stimulus.map(item => {
+    if (item.type === 'text') {
+      return `[text] ${item.label}\n${item.content}`;
+    }
+    if (item.type === 'table') {
+      return [`[table] ${item.label}`, item.columns.join(' | '), ...item.rows.map(row => row.join(' | '))].join('\n');
+    }
+    return [
+      `[${item.graphType} graph] ${item.label} (${item.xLabel} vs ${item.yLabel})`,
+      ...item.data.map(point => `${point.x}, ${point.y}`),
+    ].join('\n');
+  }).join('\n\n');
+}
+
+// Human-readable value of every diffable field
+function describeDraft(draft: QuestionDraft): Record<string, { label: string; value: string }> {
+  return {
+    unit: { label: 'Unit', value: draft.unitName },
+    subtopic: { label: 'Subtopic', value: draft.subtopicName || '' },
+    questionText: { label: 'Question', value: draft.questionText },
+    options: {
+      label: 'Options',
+      value: draft.questionType === 'numeric' ? '' : draft.options.map(option => `${option.id}. ${option.content}`).join('\n'),
+    },
+    questionType: { label: 'Type', value: QUESTION_TYPE_LABELS[draft.questionType] },
+    correctAnswerId: { label: 'Correct answer', value: formatAnswerKey(draft) },
+    explanation: { label: 'Explanation', value: draft.explanation },
+    commonMistakePatterns: { label: 'Common mistakes', value: draft.commonMistakePatterns.join('\n') },
+    difficulty: { label: 'Difficulty', value: draft.difficulty },
+    cognitiveLevel: { label: 'Cognitive level', value: draft.cognitiveLevel },
+    skillTags: { label: 'Skill tags', value: draft.skillTags.join(', ') },
+    stimulus: { label: 'Stimulus', value: formatStimulus(draft.stimulus) },
+  };
+}
+
+/**
+ * List the fields that differ between two versions of a question
+ */
+export function diffDrafts(before: QuestionDraft, after: QuestionDraft): DraftChange[] {
+  const beforeFields = describeDraft(before);
+  const afterFields = describeDraft(after);
+  return Object.keys(afterFields)
+    .filter(field => beforeFields[field].value !== afterFields[field].value)
+    .map(field => ({
+      field,
+      label: afterFields[field].label,
+      before: beforeFields[field].value,
+      after: afterFields[field].value,
+    }));
+}
+
+/**
+ * Line-by-line diff (longest common subsequence) for showing a changed field
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
+
+/**
+ * Save a draft as a new question, or as a new revision of an existing one
+ */
+export async function saveQuestionDraft(
+  draft: QuestionDraft,
+  apClass: string,
+  questionId?: string,
+  changeNote?: string
+): Promise<QuestionRecord> {
+  const payload = draftToPayload(draft, apClass, changeNote);
+  const saved = questionId
+    ? await questionApi.updateQuestion(questionId, payload)
+    : await questionApi.createQuestion(payload);
+  // Quizzes should pick up the new version
+  clearCache();
+  return saved;
+}
+
+export async function getQuestionRevisions(questionId: string): Promise<QuestionRevision[]> {
+  return questionApi.getRevisions(questionId);
+}
+
+export async function rollbackQuestion(questionId: string, revisionNumber: number): Promise<QuestionRecord> {
+  const { question } = await questionApi.rollback(questionId, String(revisionNumber));
+  clearCache();
+  return question;
+}
+
+/**
+ * Validate a public/data class file on the server, and import it unless dryRun is set
+ */
+export async function importQuestionFile(classData: unknown, dryRun: boolean): Promise<QuestionImportReport> {
+  const report = await questionApi.importQuestions({ classData, dryRun });
+  if (!dryRun) {
+    clearCache();
+  }
+  return report;
+}
@@ -3,6 +3,8 @@
 // Class → Unit → Subtopic → Questions
 // With comprehensive tracking, metadata, and educational features
 
+import { AnswerKey, ItemFormat, QuestionType } from "./itemTypes";
+
 export interface QuestionOption {
   id: string; // "A", "B", "C", "D"
   content: string; // Can contain LaTeX math (e.g., "$\\frac{1}{2}$")
@@ -81,9 +83,12 @@ export interface QuestionUserState {
 
 export interface Question {
   id: string; // Unique identifier (e.g., "CALCBC-U3-S1-Q01")
+  type?: QuestionType; // Multiple choice when left out
   questionText: string; // Can contain LaTeX math
   options: QuestionOption[]; // Array of option objects with id and content
-  correctAnswerId: string; // The id of the correct option (e.g., "B")
+  correctAnswerId: string; // The id of the correct option (e.g., "B"); multiple choice only
+  answerKey?: AnswerKey | null; // Keyed item types; left out by secure delivery until graded
+  itemFormat?: ItemFormat | null; // Units and prompts of keyed item types
   explanation: string; // Educational explanation of why the answer is correct
   commonMistakePatterns: string[]; // Common mistakes students make
   metadata: QuestionMetadata;
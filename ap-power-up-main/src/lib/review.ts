@@ -0,0 +1,2 @@
+// Review scheduling rules live in /shared so offline reviews match the backend schedule
+export * from "../../shared/review";
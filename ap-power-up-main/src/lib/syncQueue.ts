@@ -0,0 +1,271 @@
+/**
+ * Offline Sync Queue
+ * Student writes that fail because the backend is unreachable are kept in an
+ * IndexedDB outbox and replayed in order once connectivity returns. Each write
+ * carries a client-generated id, so the backend applies a replayed write once.
+ */
+
+import { attemptApi, quizApi, apTestApi } from './api';
+import { ApiError, isNetworkError } from './apiClient';
+import { REQUEST_IN_PROGRESS_ERROR } from './apiSchemas';
+
+type RecordAttemptPayload = Parameters<typeof attemptApi.recordAttempt>[0];
+type SaveProgressPayload = Parameters<typeof quizApi.saveProgress>[0];
+type SaveResultPayload = Parameters<typeof quizApi.saveResult>[0];
+type SaveAttemptPayload = Parameters<typeof apTestApi.saveAttempt>[0];
+
+export type OutboxEntry =
+  | { kind: 'questionAttempt'; payload: RecordAttemptPayload }
+  | { kind: 'quizProgress'; payload: SaveProgressPayload }
+  | { kind: 'quizResult'; payload: SaveResultPayload }
+  | { kind: 'apTestAttempt'; payload: SaveAttemptPayload };
+
+type StoredEntry = OutboxEntry & {
+  clientId: string;
+  userId: string;
+  createdAt: number;
+};
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number;
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+const DB_NAME = 'ascendly_sync';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+const RETRY_INTERVAL_MS = 30 * 1000;
+// Error statuses that can clear up on a later try: an expired token, a timeout, rate
+// limits and server errors. Any other 4xx (a deleted question, a write the student may
+// not make) would be rejected every time.
+const RETRY_STATUSES = new Set([401, 408, 429]);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<void> | null = null;
+let listening = false;
+// Only the signed-in student's writes are replayed, with their own token
+let activeUserId: string | null = null;
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+  lastSyncedAt: null,
+  lastError: null,
+};
+const listeners = new Set<(status: SyncStatus) => void>();
+
+function setStatus(update: Partial<SyncStatus>): void {
+  status = { ...status, ...update };
+  listeners.forEach(listener => listener(status));
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOutbox(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'clientId' });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openOutbox();
+  const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  return requestToPromise(run(store));
+}
+
+async function refreshPendingCount(): Promise<void> {
+  const userId = activeUserId;
+  if (!userId) {
+    setStatus({ pending: 0 });
+    return;
+  }
+  try {
+    setStatus({ pending: await withStore('readonly', store => store.index('userId').count(userId)) });
+  } catch (error) {
+    console.error('[SYNC] Failed to count outbox:', error);
+  }
+}
+
+// Ids must be UUIDs for the backend; randomUUID is missing outside secure contexts
+export function createClientId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Queue a write for replay. The caller has already tried it once with the same
+ * clientId, so a request that reached the server before the connection dropped
+ * is not applied twice.
+ */
+export async function enqueue(clientId: string, entry: OutboxEntry): Promise<void> {
+  try {
+    const stored = { ...entry, clientId, userId: entry.payload.userId, createdAt: Date.now() } as StoredEntry;
+    await withStore('readwrite', store => store.put(stored));
+    console.log(`[SYNC] Queued ${entry.kind} ${clientId}`);
+    await refreshPendingCount();
+  } catch (error) {
+    // Without IndexedDB the write still lives in the localStorage fallback
+    console.error('[SYNC] Failed to queue offline write:', error);
+  }
+}
+
+function send(entry: StoredEntry): Promise<unknown> {
+  switch (entry.kind) {
+    case 'questionAttempt':
+      return attemptApi.recordAttempt({ ...entry.payload, clientId: entry.clientId });
+    case 'quizProgress':
+      return quizApi.saveProgress({ ...entry.payload, clientId: entry.clientId });
+    case 'quizResult':
+      return quizApi.saveResult({ ...entry.payload, clientId: entry.clientId });
+    case 'apTestAttempt':
+      return apTestApi.saveAttempt({ ...entry.payload, clientId: entry.clientId });
+  }
+}
+
+// Whether a write the server answered with an error should stay queued for the next flush
+function isRetryable(error: ApiError): boolean {
+  if (error.status === 409) {
+    // Only the conflict of a replay whose first request is still running clears up
+    return error.message === REQUEST_IN_PROGRESS_ERROR;
+  }
+  return error.status >= 500 || RETRY_STATUSES.has(error.status);
+}
+
+/**
+ * Send queued writes in order, removing each one the server accepted or rejected for
+ * good. Stops at the first write that can be retried, keeping it and everything after it.
+ * @returns The last error, or null when every write was sent
+ */
+export async function replayEntries<T extends { kind: string; clientId: string }>(
+  entries: T[],
+  sendEntry: (entry: T) => Promise<unknown>,
+  removeEntry: (entry: T) => Promise<unknown>
+): Promise<string | null> {
+  let lastError: string | null = null;
+
+  // Replay in order: a quiz result's session bonus depends on the attempts before it
+  for (const entry of entries) {
+    try {
+      await sendEntry(entry);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Still offline - keep this and everything after it for the next flush
+        return 'Waiting for connection';
+      }
+      if (!(error instanceof ApiError) || isRetryable(error)) {
+        // Keep this and everything after it, in order, until the server accepts it
+        console.error(`[SYNC] Keeping ${entry.kind} ${entry.clientId} for the next flush:`, error);
+        return error instanceof Error ? error.message : 'Sync failed';
+      }
+      // The server rejected the write and would reject it again, so drop it
+      lastError = error.message;
+      console.error(`[SYNC] Dropping ${entry.kind} ${entry.clientId}:`, error);
+    }
+    await removeEntry(entry);
+  }
+  return lastError;
+}
+
+async function replayOutbox(): Promise<void> {
+  const userId = activeUserId;
+  if (!userId) return;
+
+  const entries = await withStore<StoredEntry[]>('readonly', store => store.index('userId').getAll(userId));
+  if (entries.length === 0) return;
+  entries.sort((a, b) => a.createdAt - b.createdAt);
+
+  setStatus({ syncing: true });
+  const lastError = await replayEntries(entries, send, entry => withStore('readwrite', store => store.delete(entry.clientId)));
+
+  setStatus({
+    syncing: false,
+    lastError,
+    lastSyncedAt: lastError === null ? new Date().toISOString() : status.lastSyncedAt,
+  });
+  await refreshPendingCount();
+}
+
+/**
+ * Replay every queued write. Concurrent calls share the same run.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushPromise) {
+    flushPromise = replayOutbox()
+      .catch((error) => {
+        console.error('[SYNC] Failed to replay outbox:', error);
+        setStatus({ syncing: false, lastError: error instanceof Error ? error.message : 'Sync failed' });
+      })
+      .finally(() => {
+        flushPromise = null;
+      });
+  }
+  return flushPromise;
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Replay a student's queued writes now, on reconnect and on a timer until stopped.
+ */
+export function startSyncQueue(userId: string): void {
+  if (typeof window === 'undefined' || typeof indexedDB === 'undefined') return;
+  activeUserId = userId;
+
+  if (!listening) {
+    listening = true;
+    window.addEventListener('online', () => {
+      setStatus({ online: true });
+      flushOutbox();
+    });
+    window.addEventListener('offline', () => setStatus({ online: false }));
+    window.setInterval(() => {
+      if (activeUserId && navigator.onLine && status.pending > 0) {
+        flushOutbox();
+      }
+    }, RETRY_INTERVAL_MS);
+  }
+
+  refreshPendingCount().then(() => flushOutbox());
+}
+
+// Stop replaying when the student signs out; their writes stay queued for next time
+export function stopSyncQueue(): void {
+  activeUserId = null;
+  setStatus({ pending: 0, lastError: null });
+}
@@ -1,15 +1,32 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Secure delivery loads questions from the backend, so the question files in public/data
+// (which include answer keys) are left out of the build
+function omitQuestionData(): Plugin {
+  return {
+    name: "omit-question-data",
+    apply: "build",
+    closeBundle() {
+      fs.rmSync(path.resolve(__dirname, "dist/data"), { recursive: true, force: true });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    loadEnv(mode, process.cwd(), "").VITE_SECURE_DELIVERY === "true" && omitQuestionData(),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),